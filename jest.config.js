@@ -12,6 +12,8 @@ const customJestConfig = {
   moduleNameMapper: {
     // Handle module aliases (if you're using them in your Next.js project)
     '^@/(.*)$': '<rootDir>/src/$1',
+    // jsdom resolves yaml to its ESM browser build, which Jest cannot load; use the CommonJS build instead
+    '^yaml$': '<rootDir>/node_modules/yaml/dist/index.js',
     // Mock static assets
     '\\.(jpg|jpeg|png|gif|eot|otf|webp|svg|ttf|woff|woff2|mp4|webm|wav|mp3|m4a|aac|oga)$':
       '<rootDir>/__mocks__/fileMock.js',
@@ -1,24 +1,182 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { getUserIdentifier } from '@/lib/utils/tokenUtils';
+import { getInternalApiSecret, getUserIdentifier, INTERNAL_SECRET_HEADER, isInternalRequest } from '@/lib/utils/tokenUtils';
+import { enforceQuota, hasDailyBudget, type DailyUsage, type QuotaDecision } from '@/lib/server/quotas';
+import { MemoryQuotaStore } from '@/lib/server/quotaStore';
+import { isRoleAllowed } from '@/lib/utils/rolePermissions';
+import type { AccessTokenIdentity } from '@/lib/types/accounts';
+import { estimateRelationalRowCounts } from '@/lib/data-generator/relational';
 
 // Define the header name we expect the token in
 const TOKEN_HEADER_NAME = 'X-Access-Token';
 const USER_ID_HEADER_NAME = 'X-User-Identifier';
+const USER_ROLE_HEADER_NAME = 'X-User-Role';
+const USER_TEAM_HEADER_NAME = 'X-User-Team';
 
-export function middleware(request: NextRequest) {
+// Managed tokens live in Supabase or data/, which the edge runtime cannot read, so a Node route resolves them
+const TOKEN_RESOLVE_PATH = '/api/auth/resolve';
+// Usage is recorded in the Node runtime, so budget counters are read from there as well
+const QUOTA_USAGE_PATH = '/api/auth/quota';
+// The resolve route only answers the middleware. Uncached lookups are limited per client IP, so unknown tokens sent
+// to any API route cannot be used to guess valid ones.
+const TOKEN_RESOLVE_REQUESTS_PER_MINUTE = 30;
+const tokenResolveCounters = new MemoryQuotaStore();
+// Revoking or changing a managed token takes effect once its cached identity expires
+const IDENTITY_CACHE_TTL_MS = 30_000;
+const identityCache = new Map<string, { identity: AccessTokenIdentity | null; expiresAt: number }>();
+
+// Fly's proxy sets Fly-Client-IP and appends the address it saw to X-Forwarded-For. Earlier X-Forwarded-For entries
+// come from the client, so only the last hop is trusted.
+function getClientIp(request: NextRequest): string {
+  const forwardedFor = request.headers
+    .get('x-forwarded-for')
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return (
+    request.headers.get('fly-client-ip')?.trim() ||
+    request.ip ||
+    forwardedFor?.[forwardedFor.length - 1] ||
+    'unknown'
+  );
+}
+
+async function limitTokenLookups(request: NextRequest): Promise<NextResponse | null> {
+  const now = Date.now();
+  const windowStart = Math.floor(now / 60_000) * 60_000;
+  const windowEnd = windowStart + 60_000;
+  const count = await tokenResolveCounters.increment(`resolve:${getClientIp(request)}:${windowStart}`, 1, windowEnd, now);
+  if (count <= TOKEN_RESOLVE_REQUESTS_PER_MINUTE) {
+    return null;
+  }
+  const retryAfter = Math.max(1, Math.ceil((windowEnd - now) / 1000));
+  return new NextResponse(
+    JSON.stringify({ success: false, message: 'Too many token lookups. Try again later.', retryAfter }),
+    { status: 429, headers: { 'Retry-After': String(retryAfter), 'content-type': 'application/json' } }
+  );
+}
+
+interface IdentityLookup {
+  identity: AccessTokenIdentity | null;
+  limited?: NextResponse;  // Set instead of an identity when the client has used up its token lookups
+}
+
+async function resolveIdentity(request: NextRequest, token: string | null): Promise<IdentityLookup> {
+  // Tokens from the ACCESS_TOKENS env map keep working; the admin token maps to the admin role
+  const staticIdentifier = getUserIdentifier(token);
+  if (staticIdentifier) {
+    return {
+      identity: { userIdentifier: staticIdentifier, role: staticIdentifier === '__admin__' ? 'admin' : 'member', teamId: null },
+    };
+  }
+  if (!token) {
+    return { identity: null };
+  }
+
+  const now = Date.now();
+  const cached = identityCache.get(token);
+  if (cached && cached.expiresAt > now) {
+    return { identity: cached.identity };
+  }
+
+  const limited = await limitTokenLookups(request);
+  if (limited) {
+    return { identity: null, limited };
+  }
+
+  let identity: AccessTokenIdentity | null = null;
+  try {
+    const response = await fetch(new URL(TOKEN_RESOLVE_PATH, request.url), {
+      method: 'POST',
+      headers: { [TOKEN_HEADER_NAME]: token, [INTERNAL_SECRET_HEADER]: getInternalApiSecret() ?? '' },
+    });
+    if (response.ok) {
+      identity = ((await response.json()) as { identity?: AccessTokenIdentity }).identity ?? null;
+    } else if (response.status !== 401) {
+      // Don't cache lookup failures as invalid tokens
+      console.warn(`[Middleware] Token resolution failed with status ${response.status}`);
+      return { identity: null };
+    }
+  } catch (error) {
+    console.warn('[Middleware] Token resolution request failed', error);
+    return { identity: null };
+  }
+
+  identityCache.forEach((entry, key) => {
+    if (entry.expiresAt <= now) {
+      identityCache.delete(key);
+    }
+  });
+  identityCache.set(token, { identity, expiresAt: now + IDENTITY_CACHE_TTL_MS });
+  return { identity };
+}
+
+async function readDailyUsage(request: NextRequest, token: string): Promise<DailyUsage | undefined> {
+  try {
+    const response = await fetch(new URL(QUOTA_USAGE_PATH, request.url), { headers: { [TOKEN_HEADER_NAME]: token } });
+    if (!response.ok) {
+      console.warn(`[Middleware] Quota usage lookup failed with status ${response.status}`);
+      return undefined;
+    }
+    return ((await response.json()) as { usage?: DailyUsage }).usage;
+  } catch (error) {
+    console.warn('[Middleware] Quota usage request failed', error);
+    return undefined;
+  }
+}
+
+// Routes whose row count (`count`, the length of `data`, or the most rows `tables` can produce) is checked
+// against the maxDataRows quota
+const ROW_LIMITED_ROUTES = new Set<string>([
+  '/api/data-generator/generate',
+  '/api/data-generator/relational',
+  '/api/data-generator/export-excel',
+  '/api/data-generator/export-parquet',
+  '/api/data-generator/stream',
+]);
+
+async function readRequestedRows(request: NextRequest): Promise<number | undefined> {
+  if (request.method !== 'POST' || !ROW_LIMITED_ROUTES.has(request.nextUrl.pathname)) {
+    return undefined;
+  }
+  try {
+    const body = await request.clone().json();
+    if (typeof body?.count === 'number') {
+      return body.count;
+    }
+    if (Array.isArray(body?.tables)) {
+      return Object.values(estimateRelationalRowCounts(body.tables)).reduce((sum, count) => sum + count, 0);
+    }
+    return Array.isArray(body?.data) ? body.data.length : undefined;
+  } catch {
+    // Let the route report malformed bodies
+    return undefined;
+  }
+}
+
+export async function middleware(request: NextRequest) {
   // Add diagnostic logging
   console.log(`[Middleware] Intercepted request for: ${request.nextUrl.pathname}`);
   
   const pathname = request.nextUrl.pathname;
 
-  const publicApiRoutes = new Set<string>([]);
+  // Routes the middleware calls itself; clients get a 404
+  const internalApiRoutes = new Set<string>([TOKEN_RESOLVE_PATH]);
+  // Reading your own quota usage is not metered, or every metered request would recurse into it
+  const unmeteredApiRoutes = new Set<string>([QUOTA_USAGE_PATH]);
 
   // Only apply validation to specific API paths (e.g., all under /api/ but not auth routes if you had them)
   // Adjust the path check as needed for your application structure.
   if (pathname.startsWith('/api/')) {
-    if (publicApiRoutes.has(pathname)) {
-      console.log(`[Middleware] Public API route passthrough: ${pathname}`);
+    if (internalApiRoutes.has(pathname)) {
+      if (!isInternalRequest(request.headers)) {
+        console.warn(`[Middleware] Rejected external call to internal route ${pathname} from ${getClientIp(request)}`);
+        return new NextResponse(JSON.stringify({ success: false, message: 'Not found' }), {
+          status: 404,
+          headers: { 'content-type': 'application/json' },
+        });
+      }
+      console.log(`[Middleware] Internal API route passthrough: ${pathname}`);
       return NextResponse.next();
     }
 
@@ -27,9 +185,14 @@ export function middleware(request: NextRequest) {
     // Add diagnostic logging without exposing the actual token
     console.log(`[Middleware] API Check - Path: ${pathname}, Token Provided: ${token ? 'Yes' : 'No'}`);
     
-    const userIdentifier = getUserIdentifier(token);
+    const { identity, limited } = await resolveIdentity(request, token);
+
+    if (limited) {
+      console.warn(`[Middleware] TOO MANY TOKEN LOOKUPS from ${getClientIp(request)} on ${pathname}`);
+      return limited;
+    }
 
-    if (!userIdentifier) {
+    if (!identity) {
       // Token is missing or invalid, reject the request
       console.warn(`[Middleware] ACCESS DENIED for ${pathname}. No valid user identifier found. Token Provided: ${token ? 'Yes' : 'No'}`);
       return new NextResponse(
@@ -38,19 +201,58 @@ export function middleware(request: NextRequest) {
       );
     }
 
+    const { userIdentifier, role, teamId } = identity;
+
+    if (!isRoleAllowed(role, request.method, pathname)) {
+      console.warn(`[Middleware] FORBIDDEN: User '${userIdentifier}' (${role}) to ${request.method} ${pathname}`);
+      return new NextResponse(
+        JSON.stringify({ success: false, message: `Your role (${role}) does not allow this action.` }),
+        { status: 403, headers: { 'content-type': 'application/json' } }
+      );
+    }
+
+    const quota: QuotaDecision = unmeteredApiRoutes.has(pathname)
+      ? { allowed: true, headers: {} }
+      : await enforceQuota(
+          userIdentifier,
+          {
+            consumesBudget: request.method === 'POST',
+            requestedRows: await readRequestedRows(request),
+          },
+          {
+            dailyUsage: token && hasDailyBudget(userIdentifier) ? await readDailyUsage(request, token) : undefined,
+          }
+        );
+
+    if (!quota.allowed) {
+      console.warn(`[Middleware] QUOTA EXCEEDED for '${userIdentifier}' on ${pathname}: ${quota.message}`);
+      return new NextResponse(
+        JSON.stringify({ success: false, message: quota.message, retryAfter: quota.retryAfterSeconds ?? null }),
+        { status: 429, headers: { ...quota.headers, 'content-type': 'application/json' } }
+      );
+    }
+
     // Token is valid, proceed with the request
     // Add the user identifier to the request headers for downstream API routes to use
     const requestHeaders = new Headers(request.headers);
     requestHeaders.set(USER_ID_HEADER_NAME, userIdentifier);
+    requestHeaders.set(USER_ROLE_HEADER_NAME, role);
+    if (teamId) {
+      requestHeaders.set(USER_TEAM_HEADER_NAME, teamId);
+    } else {
+      requestHeaders.delete(USER_TEAM_HEADER_NAME);
+    }
 
     console.log(`[Middleware] ACCESS GRANTED: User '${userIdentifier}' to ${pathname}`);
 
     // Clone the request with the added user identifier header
-    return NextResponse.next({
+    const response = NextResponse.next({
       request: {
         headers: requestHeaders,
       },
     });
+    Object.entries(quota.headers).forEach(([name, value]) => response.headers.set(name, value));
+    return response;
   }
 
   // Add diagnostic logging for non-API routes
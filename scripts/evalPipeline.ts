@@ -0,0 +1,76 @@
+#!/usr/bin/env ts-node
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as dotenv from 'dotenv';
+import {
+  compareEvalReports,
+  EvalConfig,
+  EvalFixture,
+  runEvalSuite,
+} from '../src/lib/services/ai/eval/evalRunner';
+
+dotenv.config();
+
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, 'eval', 'fixtures');
+const DEFAULT_OUTPUT_DIR = path.join(process.cwd(), 'eval-reports');
+
+// Usage: evalPipeline.ts --baseline <config.json> [--candidate <config.json>] [--fixtures <dir>] [--out <dir>]
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let index = 0; index < argv.length; index += 1) {
+    if (argv[index].startsWith('--') && argv[index + 1]) {
+      args[argv[index].slice(2)] = argv[index + 1];
+      index += 1;
+    }
+  }
+  return args;
+}
+
+async function readJson<T>(file: string): Promise<T> {
+  return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+}
+
+async function loadFixtures(dir: string): Promise<EvalFixture[]> {
+  const files = (await fs.readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+  return Promise.all(files.map((file) => readJson<EvalFixture>(path.join(dir, file))));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.baseline) {
+    throw new Error('Pass --baseline <config.json> (and optionally --candidate <config.json>)');
+  }
+
+  const fixtures = await loadFixtures(args.fixtures ?? DEFAULT_FIXTURES_DIR);
+  const outputDir = args.out ?? DEFAULT_OUTPUT_DIR;
+  const configs = await Promise.all(
+    [args.baseline, args.candidate].filter(Boolean).map((file) => readJson<EvalConfig>(file))
+  );
+
+  const reports = [];
+  for (const config of configs) {
+    console.log(`Running ${fixtures.length} fixtures with ${config.name}`);
+    reports.push(
+      await runEvalSuite(fixtures, config, {
+        onResult: (result) =>
+          console.log(`  ${result.fixtureId}: ${result.scores.error ? `failed (${result.scores.error})` : JSON.stringify(result.scores)}`),
+      })
+    );
+  }
+
+  await fs.mkdir(outputDir, { recursive: true });
+  await fs.writeFile(path.join(outputDir, 'eval-report.json'), JSON.stringify(reports, null, 2), 'utf8');
+  if (reports.length === 2) {
+    const markdown = compareEvalReports(reports[0], reports[1]);
+    await fs.writeFile(path.join(outputDir, 'eval-comparison.md'), markdown, 'utf8');
+    console.log(markdown);
+  } else {
+    console.log(JSON.stringify(reports[0].averages, null, 2));
+  }
+  console.log(`Reports written to ${outputDir}`);
+}
+
+main().catch((error) => {
+  console.error('Eval run failed', error);
+  process.exit(1);
+});
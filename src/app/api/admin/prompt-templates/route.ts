@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  listPromptTemplateOverrides,
+  resetPromptTemplateOverride,
+  savePromptTemplateOverride,
+} from '@/lib/server/promptTemplateStore';
+import { DEFAULT_PROMPT_TEMPLATES } from '@/lib/services/ai/prompts/defaultTemplates';
+import { validatePromptTemplate } from '@/lib/services/ai/prompts/renderPrompt';
+import type { PromptTemplateId } from '@/lib/types';
+
+const USER_ID_HEADER = 'X-User-Identifier';
+const USER_ROLE_HEADER = 'X-User-Role';
+
+const templateIdSchema = z.enum(Object.keys(DEFAULT_PROMPT_TEMPLATES) as [PromptTemplateId, ...PromptTemplateId[]]);
+
+const saveTemplateSchema = z.object({
+  teamId: z.string().min(1),
+  templateId: templateIdSchema,
+  template: z.string().max(20000),
+});
+
+export async function GET(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const teamId = request.nextUrl.searchParams.get('teamId');
+  try {
+    const overrides = teamId ? await listPromptTemplateOverrides(teamId) : [];
+    return NextResponse.json({ templates: Object.values(DEFAULT_PROMPT_TEMPLATES), overrides });
+  } catch (error) {
+    console.error('[API][Admin][PromptTemplates][GET] Failed to list prompt templates', error);
+    return NextResponse.json({ error: 'Failed to list prompt templates' }, { status: 500 });
+  }
+}
+
+/** Saves a new version of the team's override; the previous versions stay in the history. */
+export async function PUT(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let payload: z.infer<typeof saveTemplateSchema>;
+  try {
+    payload = saveTemplateSchema.parse(await request.json());
+  } catch (error) {
+    console.warn('[API][Admin][PromptTemplates][PUT] Invalid payload', error);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  const problems = validatePromptTemplate(payload.templateId, payload.template);
+  if (problems.length) {
+    return NextResponse.json({ error: problems.join(' '), problems }, { status: 400 });
+  }
+
+  try {
+    const override = await savePromptTemplateOverride(
+      payload.teamId,
+      payload.templateId,
+      payload.template,
+      request.headers.get(USER_ID_HEADER) ?? 'unknown'
+    );
+    return NextResponse.json({ override });
+  } catch (error) {
+    console.error('[API][Admin][PromptTemplates][PUT] Failed to save prompt template', error);
+    return NextResponse.json({ error: 'Failed to save prompt template' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const teamId = request.nextUrl.searchParams.get('teamId');
+  const templateId = templateIdSchema.safeParse(request.nextUrl.searchParams.get('templateId'));
+  if (!teamId || !templateId.success) {
+    return NextResponse.json({ error: 'teamId and a valid templateId are required' }, { status: 400 });
+  }
+
+  try {
+    const reset = await resetPromptTemplateOverride(teamId, templateId.data);
+    if (!reset) {
+      return NextResponse.json({ error: 'No override to reset' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API][Admin][PromptTemplates][DELETE] Failed to reset prompt template', error);
+    return NextResponse.json({ error: 'Failed to reset prompt template' }, { status: 500 });
+  }
+}
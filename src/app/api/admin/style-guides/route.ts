@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { loadStyleGuide, saveStyleGuide } from '@/lib/server/styleGuideStore';
+import { assignRuleIds } from '@/lib/utils/styleGuide';
+
+const USER_ID_HEADER = 'X-User-Identifier';
+const USER_ROLE_HEADER = 'X-User-Role';
+
+const saveStyleGuideSchema = z.object({
+  teamId: z.string().min(1),
+  rules: z
+    .array(z.object({ id: z.string().max(20).optional(), text: z.string().max(1000) }))
+    .max(100),
+  glossary: z
+    .array(z.object({ term: z.string().max(120), definition: z.string().max(1000) }))
+    .max(200),
+});
+
+export async function GET(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  const teamId = request.nextUrl.searchParams.get('teamId');
+  if (!teamId) {
+    return NextResponse.json({ error: 'teamId is required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ styleGuide: await loadStyleGuide(teamId) });
+  } catch (error) {
+    console.error('[API][Admin][StyleGuides][GET] Failed to load style guide', error);
+    return NextResponse.json({ error: 'Failed to load style guide' }, { status: 500 });
+  }
+}
+
+/** Replaces the team's guide. New rules get the next G-n id; existing ids are kept so past findings still resolve. */
+export async function PUT(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let payload: z.infer<typeof saveStyleGuideSchema>;
+  try {
+    payload = saveStyleGuideSchema.parse(await request.json());
+  } catch (error) {
+    console.warn('[API][Admin][StyleGuides][PUT] Invalid payload', error);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const styleGuide = await saveStyleGuide(
+      payload.teamId,
+      {
+        rules: assignRuleIds(payload.rules),
+        glossary: payload.glossary
+          .map((entry) => ({ term: entry.term.trim(), definition: entry.definition.trim() }))
+          .filter((entry) => entry.term && entry.definition),
+      },
+      request.headers.get(USER_ID_HEADER) ?? 'unknown'
+    );
+    return NextResponse.json({ styleGuide });
+  } catch (error) {
+    console.error('[API][Admin][StyleGuides][PUT] Failed to save style guide', error);
+    return NextResponse.json({ error: 'Failed to save style guide' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteTeam } from '@/lib/server/accessTokenStore';
+
+const USER_ROLE_HEADER = 'X-User-Role';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const deleted = await deleteTeam(params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API][Admin][Teams][DELETE] Failed to delete team', error);
+    return NextResponse.json({ error: 'Failed to delete team' }, { status: 500 });
+  }
+}
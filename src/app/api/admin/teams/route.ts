@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createTeam, listTeams } from '@/lib/server/accessTokenStore';
+
+const USER_ROLE_HEADER = 'X-User-Role';
+
+const createTeamSchema = z.object({
+  name: z.string().trim().min(1).max(60),
+});
+
+export async function GET(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const teams = await listTeams();
+    return NextResponse.json({ teams });
+  } catch (error) {
+    console.error('[API][Admin][Teams][GET] Failed to list teams', error);
+    return NextResponse.json({ error: 'Failed to list teams' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let name: string;
+  try {
+    ({ name } = createTeamSchema.parse(await request.json()));
+  } catch (error) {
+    console.warn('[API][Admin][Teams][POST] Invalid payload', error);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const team = await createTeam(name);
+    return NextResponse.json({ team }, { status: 201 });
+  } catch (error) {
+    console.error('[API][Admin][Teams][POST] Failed to create team', error);
+    return NextResponse.json({ error: 'Failed to create team' }, { status: 500 });
+  }
+}
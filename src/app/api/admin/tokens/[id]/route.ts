@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { AccessTokenUpdate, revokeAccessToken, teamExists, updateAccessToken } from '@/lib/server/accessTokenStore';
+
+const USER_ROLE_HEADER = 'X-User-Role';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+const tokenUpdateSchema = z.object({
+  label: z.string().trim().min(1).max(80).optional(),
+  role: z.enum(['admin', 'member', 'viewer']).optional(),
+  teamId: z.string().uuid().nullable().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+});
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let update: AccessTokenUpdate;
+  try {
+    update = tokenUpdateSchema.parse(await request.json()) as AccessTokenUpdate;
+  } catch (error) {
+    console.warn('[API][Admin][Tokens][PATCH] Invalid payload', error);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    if (update.teamId && !(await teamExists(update.teamId))) {
+      return NextResponse.json({ error: 'Unknown team' }, { status: 400 });
+    }
+    const accessToken = await updateAccessToken(params.id, update);
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Access token not found' }, { status: 404 });
+    }
+    return NextResponse.json({ accessToken });
+  } catch (error) {
+    console.error('[API][Admin][Tokens][PATCH] Failed to update access token', error);
+    return NextResponse.json({ error: 'Failed to update access token' }, { status: 500 });
+  }
+}
+
+/** Revokes rather than deletes, so the token remains visible in the admin list. */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const accessToken = await revokeAccessToken(params.id);
+    if (!accessToken) {
+      return NextResponse.json({ error: 'Access token not found or already revoked' }, { status: 404 });
+    }
+    return NextResponse.json({ accessToken });
+  } catch (error) {
+    console.error('[API][Admin][Tokens][DELETE] Failed to revoke access token', error);
+    return NextResponse.json({ error: 'Failed to revoke access token' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+/** @jest-environment node */
+import type { NextRequest } from 'next/server';
+import { POST } from '../route';
+import { PATCH } from '../[id]/route';
+
+const mockCreateAccessToken = jest.fn();
+const mockUpdateAccessToken = jest.fn();
+const mockTeamExists = jest.fn();
+
+jest.mock('@/lib/server/accessTokenStore', () => ({
+  createAccessToken: (...args: unknown[]) => mockCreateAccessToken(...args),
+  updateAccessToken: (...args: unknown[]) => mockUpdateAccessToken(...args),
+  teamExists: (...args: unknown[]) => mockTeamExists(...args),
+  listAccessTokens: jest.fn(),
+  revokeAccessToken: jest.fn(),
+}));
+
+const TEAM_ID = '6f1c2a7e-8b4d-4c3a-9e2f-1a2b3c4d5e6f';
+
+describe('admin token routes team validation', () => {
+  const buildRequest = (payload: unknown) =>
+    ({
+      json: async () => payload,
+      headers: new Headers({ 'X-User-Role': 'admin' }),
+    }) as unknown as NextRequest;
+
+  beforeEach(() => {
+    mockCreateAccessToken.mockReset();
+    mockUpdateAccessToken.mockReset();
+    mockTeamExists.mockReset();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('rejects team ids that are not team ids', async () => {
+    const response = await POST(buildRequest({ label: 'Laptop', userIdentifier: 'sam', role: 'member', teamId: 'payments' }));
+
+    expect(response.status).toBe(400);
+    expect(mockTeamExists).not.toHaveBeenCalled();
+    expect(mockCreateAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('rejects tokens for a team that does not exist', async () => {
+    mockTeamExists.mockResolvedValue(false);
+
+    const created = await POST(buildRequest({ label: 'Laptop', userIdentifier: 'sam', role: 'member', teamId: TEAM_ID }));
+    const updated = await PATCH(buildRequest({ teamId: TEAM_ID }), { params: { id: 'token-1' } });
+
+    expect(created.status).toBe(400);
+    expect(await created.json()).toEqual({ error: 'Unknown team' });
+    expect(updated.status).toBe(400);
+    expect(mockCreateAccessToken).not.toHaveBeenCalled();
+    expect(mockUpdateAccessToken).not.toHaveBeenCalled();
+  });
+
+  it('assigns existing teams and allows clearing the team', async () => {
+    mockTeamExists.mockResolvedValue(true);
+    mockCreateAccessToken.mockResolvedValue({ token: 'tcg_secret', summary: { id: 'token-1', teamId: TEAM_ID } });
+    mockUpdateAccessToken.mockResolvedValue({ id: 'token-1', teamId: null });
+
+    const created = await POST(buildRequest({ label: 'Laptop', userIdentifier: 'sam', role: 'member', teamId: TEAM_ID }));
+    const cleared = await PATCH(buildRequest({ teamId: null }), { params: { id: 'token-1' } });
+
+    expect(created.status).toBe(201);
+    expect(mockTeamExists).toHaveBeenCalledWith(TEAM_ID);
+    expect(cleared.status).toBe(200);
+    expect(mockUpdateAccessToken).toHaveBeenCalledWith('token-1', { teamId: null });
+  });
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createAccessToken, listAccessTokens, teamExists } from '@/lib/server/accessTokenStore';
+
+const USER_ROLE_HEADER = 'X-User-Role';
+
+const createTokenSchema = z.object({
+  label: z.string().trim().min(1).max(80),
+  userIdentifier: z.string().trim().min(1).max(80).refine((value) => value !== '__admin__', 'Reserved identifier'),
+  role: z.enum(['admin', 'member', 'viewer']),
+  teamId: z.string().uuid().nullable().optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  try {
+    const tokens = await listAccessTokens();
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    console.error('[API][Admin][Tokens][GET] Failed to list access tokens', error);
+    return NextResponse.json({ error: 'Failed to list access tokens' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  let payload: z.infer<typeof createTokenSchema>;
+  try {
+    payload = createTokenSchema.parse(await request.json());
+  } catch (error) {
+    console.warn('[API][Admin][Tokens][POST] Invalid payload', error);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    if (payload.teamId && !(await teamExists(payload.teamId))) {
+      return NextResponse.json({ error: 'Unknown team' }, { status: 400 });
+    }
+    const { token, summary } = await createAccessToken(payload);
+    return NextResponse.json({ token, accessToken: summary }, { status: 201 });
+  } catch (error) {
+    console.error('[API][Admin][Tokens][POST] Failed to create access token', error);
+    return NextResponse.json({ error: 'Failed to create access token' }, { status: 500 });
+  }
+}
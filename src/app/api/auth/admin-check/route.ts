@@ -1,12 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 
-const USER_ID_HEADER = 'X-User-Identifier';
-const ADMIN_IDENTIFIER = '__admin__';
+const USER_ROLE_HEADER = 'X-User-Role';
 
 export async function GET(request: NextRequest) {
-  const userIdentifier = request.headers.get(USER_ID_HEADER);
-
-  if (userIdentifier !== ADMIN_IDENTIFIER) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
   }
 
@@ -0,0 +1,104 @@
+/** @jest-environment node */
+
+import { NextRequest } from 'next/server';
+
+import { GET } from '../route';
+import usageTracker from '@/lib/server/usageTracker';
+
+jest.mock('@/lib/server/supabaseClient', () => ({
+  getServiceSupabaseClient: jest.fn(() => null),
+}));
+
+type Middleware = (request: NextRequest) => Promise<Response>;
+
+describe('quota usage route', () => {
+  const originalEnv = { ...process.env };
+  const originalFetch = global.fetch;
+  let middleware: Middleware;
+
+  // Runs a request through the middleware and, when it lets the request through, through the route with the
+  // headers the middleware added.
+  const serve = async (request: NextRequest) => {
+    const result = await middleware(request);
+    if (result.headers.get('x-middleware-next') !== '1') {
+      return result;
+    }
+    const headers = new Headers(request.headers);
+    result.headers
+      .get('x-middleware-override-headers')
+      ?.split(',')
+      .forEach((name) => {
+        const value = result.headers.get(`x-middleware-request-${name}`);
+        if (value === null) {
+          headers.delete(name);
+        } else {
+          headers.set(name, value);
+        }
+      });
+    return GET(new NextRequest(request.url, { headers }));
+  };
+
+  beforeAll(() => {
+    process.env.ACCESS_TOKENS = JSON.stringify({ 'token-bob': 'bob' });
+    process.env.QUOTA_LIMITS = JSON.stringify({ default: { dailyTokenBudget: 1000 } });
+    // The middleware gets its own module registry, as it does in the edge runtime, so it cannot see the
+    // quota store that the routes write to.
+    jest.isolateModules(() => {
+      middleware = (require('../../../../../../middleware') as { middleware: Middleware }).middleware;
+    });
+    global.fetch = jest.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+      const request = new NextRequest(new Request(input, init));
+      if (request.nextUrl.pathname === '/api/auth/resolve') {
+        // Only ACCESS_TOKENS are configured, so every managed token lookup fails
+        return new Response(JSON.stringify({ error: 'Invalid access token' }), { status: 401 });
+      }
+      return serve(request);
+    }) as typeof fetch;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  const generate = () =>
+    middleware(
+      new NextRequest('http://localhost/api/generate', {
+        method: 'POST',
+        headers: { 'X-Access-Token': 'token-bob' },
+        body: '{}',
+      })
+    );
+
+  it('only reports usage to authenticated callers', async () => {
+    const direct = await GET(new NextRequest('http://localhost/api/auth/quota'));
+    expect(direct.status).toBe(401);
+
+    const unknownToken = await serve(
+      new NextRequest('http://localhost/api/auth/quota', { headers: { 'X-Access-Token': 'token-unknown' } })
+    );
+    expect(unknownToken.status).toBe(401);
+
+    const own = await serve(new NextRequest('http://localhost/api/auth/quota', { headers: { 'X-Access-Token': 'token-bob' } }));
+    expect(await own.json()).toEqual({ usage: { tokens: 0, costUsd: 0 } });
+  });
+
+  it('lets the middleware enforce budgets from usage recorded by the API routes', async () => {
+    const before = await generate();
+    expect(before.status).toBe(200);
+    expect(before.headers.get('X-Quota-Tokens-Remaining')).toBe('1000');
+
+    await usageTracker.recordUsage({
+      userIdentifier: 'bob',
+      feature: 'test-case-generation',
+      usage: { promptTokens: 700, completionTokens: 300, totalTokens: 1000 },
+    });
+
+    const after = await generate();
+    expect(after.status).toBe(429);
+    expect(await after.json()).toMatchObject({ success: false, message: 'Daily token budget of 1000 tokens is used up.' });
+  });
+});
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDailyUsage } from '@/lib/server/quotas';
+
+// Called by the middleware: usage is recorded by the API routes in this runtime, so the edge runtime reads the
+// budget counters from here rather than from its own copy of the quota store. The middleware authenticates the
+// request like any other API call, so callers only ever see their own usage.
+export async function GET(request: NextRequest) {
+  const userIdentifier = request.headers.get('X-User-Identifier');
+  if (!userIdentifier) {
+    return NextResponse.json({ error: 'Missing user identifier' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json({ usage: await getDailyUsage(userIdentifier) });
+  } catch (error) {
+    console.error('[API][Auth][Quota] Failed to read quota usage', error);
+    return NextResponse.json({ error: 'Failed to read quota usage' }, { status: 500 });
+  }
+}
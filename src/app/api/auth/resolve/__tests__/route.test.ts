@@ -0,0 +1,83 @@
+/** @jest-environment node */
+
+import { NextRequest } from 'next/server';
+import { middleware } from '../../../../../../middleware';
+import { POST } from '../route';
+
+jest.mock('@/lib/server/supabaseClient', () => ({
+  getServiceSupabaseClient: jest.fn(() => null),
+}));
+
+describe('token resolve route', () => {
+  const originalFetch = global.fetch;
+  const fetchMock = jest.fn(async () => new Response(JSON.stringify({ error: 'Invalid access token' }), { status: 401 }));
+  let guess = 0;
+
+  beforeAll(() => {
+    global.fetch = fetchMock as unknown as typeof fetch;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  // Each guess is a new token, so none of them is answered from the identity cache
+  const guessToken = (headers: Record<string, string>) => {
+    guess += 1;
+    return middleware(
+      new NextRequest('http://localhost/api/generate', {
+        method: 'POST',
+        headers: { 'X-Access-Token': `tcg_guess-${guess}`, ...headers },
+      })
+    );
+  };
+
+  it('does not answer clients directly', async () => {
+    const throughMiddleware = await middleware(
+      new NextRequest('http://localhost/api/auth/resolve', {
+        method: 'POST',
+        headers: { 'X-Access-Token': 'tcg_guess', 'X-Internal-Secret': 'guessed-secret' },
+      })
+    );
+    expect(throughMiddleware.status).toBe(404);
+
+    const direct = await POST(
+      new NextRequest('http://localhost/api/auth/resolve', { method: 'POST', headers: { 'X-Access-Token': 'tcg_guess' } })
+    );
+    expect(direct.status).toBe(404);
+  });
+
+  it('sends the internal secret with the lookups the middleware makes', async () => {
+    const response = await guessToken({ 'Fly-Client-IP': '192.0.2.44' });
+
+    expect(response.status).toBe(401);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [URL, RequestInit];
+    expect(url.pathname).toBe('/api/auth/resolve');
+    expect(new Headers(init.headers).get('X-Internal-Secret')).toBeTruthy();
+  });
+
+  it('limits token lookups per client IP, whatever the client puts in X-Forwarded-For', async () => {
+    for (let attempt = 1; attempt < 30; attempt += 1) {
+      const response = await guessToken({ 'Fly-Client-IP': '203.0.113.7', 'X-Forwarded-For': `10.0.0.${attempt}` });
+      expect(response.status).toBe(401);
+    }
+    await guessToken({ 'Fly-Client-IP': '203.0.113.7' });
+
+    const limited = await guessToken({ 'Fly-Client-IP': '203.0.113.7', 'X-Forwarded-For': '10.9.9.9' });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('Retry-After')).toBeTruthy();
+
+    expect((await guessToken({ 'Fly-Client-IP': '198.51.100.2' })).status).toBe(401);
+  });
+
+  it('uses the last X-Forwarded-For hop when there is no Fly-Client-IP', async () => {
+    for (let attempt = 0; attempt < 30; attempt += 1) {
+      await guessToken({ 'X-Forwarded-For': `10.1.0.${attempt}, 198.51.100.9` });
+    }
+
+    expect((await guessToken({ 'X-Forwarded-For': '10.2.0.1, 198.51.100.9' })).status).toBe(429);
+  });
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveAccessToken } from '@/lib/server/accessTokenStore';
+import { isInternalRequest } from '@/lib/utils/tokenUtils';
+
+const TOKEN_HEADER = 'X-Access-Token';
+
+// Called by the middleware, which runs on the edge runtime and cannot read the local token store itself. The
+// identity it returns is only for the middleware, so calls without the internal API secret are not answered.
+export async function POST(request: NextRequest) {
+  if (!isInternalRequest(request.headers)) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
+  const token = request.headers.get(TOKEN_HEADER);
+  if (!token) {
+    return NextResponse.json({ error: 'Missing access token' }, { status: 401 });
+  }
+
+  try {
+    const identity = await resolveAccessToken(token);
+    if (!identity) {
+      return NextResponse.json({ error: 'Invalid access token' }, { status: 401 });
+    }
+    return NextResponse.json({ identity });
+  } catch (error) {
+    console.error('[API][Auth][Resolve] Failed to resolve access token', error);
+    return NextResponse.json({ error: 'Failed to resolve access token' }, { status: 500 });
+  }
+}
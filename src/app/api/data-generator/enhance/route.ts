@@ -4,8 +4,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TestDataGeneratorService } from '@/lib/services/ai/testDataGenerator';
 import { createAIService } from '@/lib/services/ai/factory';
-import { LLMProvider } from '@/lib/types';
+import { LLMProvider, TokenUsage } from '@/lib/types';
 import usageTracker from '@/lib/server/usageTracker';
+import { sumTokenUsage } from '@/lib/services/ai/pipeline/tokenUsage';
 
 interface FieldDefinition {
   name: string;
@@ -54,7 +55,8 @@ export async function POST(request: NextRequest) {
     const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
     console.log(`Core AI Service created: ${coreAIService.constructor.name}`);
     
-    const dataGeneratorService = new TestDataGeneratorService(coreAIService);
+    const spentUsage: TokenUsage[] = [];
+    const dataGeneratorService = new TestDataGeneratorService(coreAIService, (usage) => spentUsage.push(usage));
     console.log('TestDataGeneratorService instantiated with the core AI service');
     
     const result = await dataGeneratorService.enhanceDataWithAI(data, prompt, model);
@@ -66,12 +68,9 @@ export async function POST(request: NextRequest) {
     }
     console.log("==========================================");
     
-    if (result.error) {
-      console.warn(`Test data enhancement encountered an issue: ${result.error}`);
-      return NextResponse.json(result);
-    }
-
-    if (userIdentifier) {
+    // Failed runs are still charged for the model calls they made
+    const usage = sumTokenUsage(spentUsage);
+    if (userIdentifier && (!result.error || usage)) {
       console.log('[API][Test Data Enhance] Recording usage', {
         userIdentifier,
         provider: provider ?? 'openai',
@@ -83,9 +82,15 @@ export async function POST(request: NextRequest) {
         feature: 'test-data-enhance',
         provider: provider ?? 'openai',
         model: model ?? null,
-        metadata: { fields: fields.length, records: data.length },
+        usage,
+        metadata: { fields: fields.length, records: data.length, ...(result.error ? { failed: true } : {}) },
       });
     }
+
+    if (result.error) {
+      console.warn(`Test data enhancement encountered an issue: ${result.error}`);
+      return NextResponse.json(result);
+    }
     
     return NextResponse.json(result);
   } catch (error) {
@@ -0,0 +1,45 @@
+/** @jest-environment node */
+import type { NextRequest } from 'next/server';
+import { ParquetReader } from 'parquetjs-lite';
+import { POST } from '../route';
+
+describe('POST /api/data-generator/export-parquet', () => {
+  const buildRequest = (payload: unknown): NextRequest => {
+    return {
+      json: async () => payload,
+    } as NextRequest;
+  };
+
+  it('returns 400 when data is missing', async () => {
+    const response = await POST(buildRequest({ data: [] }));
+    expect(response.status).toBe(400);
+    const json = await response.json();
+    expect(json.error).toBe('Data array is required to export Parquet.');
+  });
+
+  it('writes a parquet file typed from the schema fields', async () => {
+    const payload = {
+      data: [
+        { id: 1, joined: '2024-02-29' },
+        { id: 2, joined: null },
+      ],
+      fields: [
+        { name: 'id', type: 'Row Number', options: {} },
+        { name: 'joined', type: 'Date', options: { format: 'YYYY-MM-DD' } },
+      ],
+      name: 'sample',
+    };
+
+    const response = await POST(buildRequest(payload));
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.apache.parquet');
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="sample.parquet"');
+
+    const reader = await ParquetReader.openBuffer(Buffer.from(await response.arrayBuffer()));
+    const cursor = reader.getCursor();
+    expect(await cursor.next()).toEqual({ id: 1, joined: new Date('2024-02-29T00:00:00Z') });
+    expect(await cursor.next()).toEqual({ id: 2 });
+    expect(await cursor.next()).toBeNull();
+    await reader.close();
+  });
+});
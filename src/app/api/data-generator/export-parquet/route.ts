@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { EXPORT_FILE_TYPES } from '@/lib/data-generator/constants';
+import { inferParquetColumns, writeParquet } from '@/lib/data-generator/parquet';
+import type { SqlFieldSource } from '@/lib/data-generator/sqlExport';
+
+type ExportParquetBody = {
+  data?: Array<Record<string, unknown>>;
+  fields?: SqlFieldSource[]; // Schema fields, so columns are typed from field types rather than guessed from values
+  name?: string;
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as ExportParquetBody;
+    const { data, fields, name } = body;
+
+    if (!Array.isArray(data) || data.length === 0) {
+      return createJsonResponse({ error: 'Data array is required to export Parquet.' }, 400);
+    }
+
+    const columns = inferParquetColumns(data, Array.isArray(fields) ? fields : []);
+    if (columns.length === 0) {
+      return createJsonResponse({ error: 'Unable to infer columns from provided data.' }, 400);
+    }
+
+    const bytes = writeParquet(data, columns);
+    const filename = `${name ?? 'test-data'}.${EXPORT_FILE_TYPES.Parquet.extension}`;
+
+    return new NextResponse(bytes, {
+      status: 200,
+      headers: {
+        'Content-Type': EXPORT_FILE_TYPES.Parquet.mimeType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': bytes.byteLength.toString(),
+      },
+    });
+  } catch (error) {
+    console.error('[ExportParquet] Failed to generate Parquet', error);
+    return createJsonResponse(
+      {
+        error: 'Failed to generate Parquet file.',
+        debug: error instanceof Error ? error.message : String(error),
+      },
+      500
+    );
+  }
+}
+
+const createJsonResponse = (payload: Record<string, unknown>, status: number) =>
+  new NextResponse(JSON.stringify(payload), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
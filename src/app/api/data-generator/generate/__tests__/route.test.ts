@@ -2,11 +2,14 @@
 
 import { POST } from '../route';
 import type { NextRequest } from 'next/server';
+import usageTracker from '@/lib/server/usageTracker';
+
+const mockGenerateContent = jest.fn();
 
 jest.mock('@/lib/services/ai/factory', () => ({
   createAIService: jest.fn(() => ({
     generateTestCases: jest.fn(),
-    generateContent: jest.fn(),
+    generateContent: mockGenerateContent,
   })),
 }));
 
@@ -83,4 +86,27 @@ describe('POST /api/data-generator/generate', () => {
     expect(secondResponse.status).toBe(200);
     expect(firstJson.data).toEqual(secondJson.data);
   });
+
+  it('records the tokens spent on AI-Generated fields', async () => {
+    const recordUsage = usageTracker.recordUsage as jest.Mock;
+    recordUsage.mockReset();
+    mockGenerateContent.mockImplementation(async (_prompt: string, _model: string, onUsage?: (usage: unknown) => void) => {
+      onUsage?.({ promptTokens: 80, completionTokens: 20, totalTokens: 100 });
+      return JSON.stringify({ values: { bio: ['Likes hiking', 'Plays chess'] } });
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    const response = await POST(
+      buildRequest(
+        { fields: [{ name: 'bio', type: 'AI-Generated', options: { prompt: 'A short bio' } }], count: 2 },
+        { 'X-User-Identifier': 'user-1' }
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockGenerateContent).toHaveBeenCalled();
+    expect(recordUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ userIdentifier: 'user-1', usage: expect.objectContaining({ totalTokens: 100 }) })
+    );
+  });
 });
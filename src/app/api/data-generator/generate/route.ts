@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { TestDataGeneratorService } from '@/lib/services/ai/testDataGenerator';
 import { createAIService } from '@/lib/services/ai/factory';
-import { LLMProvider } from '@/lib/types';
+import { LLMProvider, TokenUsage } from '@/lib/types';
 import usageTracker from '@/lib/server/usageTracker';
+import { sumTokenUsage } from '@/lib/services/ai/pipeline/tokenUsage';
 import { generateDataPayloadSchema } from '@/lib/data-generator/validation';
 import type { TestDataGenerationResponse } from '@/lib/types/testData';
 
@@ -56,7 +57,8 @@ export async function POST(request: NextRequest) {
     const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
     console.log(`Core AI Service created: ${coreAIService.constructor.name}`);
     
-    const dataGeneratorService = new TestDataGeneratorService(coreAIService);
+    const spentUsage: TokenUsage[] = [];
+    const dataGeneratorService = new TestDataGeneratorService(coreAIService, (usage) => spentUsage.push(usage));
     console.log('TestDataGeneratorService instantiated with the core AI service');
     
     const result = await dataGeneratorService.generateTestDataFromFields({
@@ -71,13 +73,9 @@ export async function POST(request: NextRequest) {
     console.log(`Generated ${result.data.length} records`);
     console.log("========================================");
     
-    if (result.error) {
-      console.warn(`Test data generation encountered an issue: ${result.error}`);
-      // Still return with 200 status as we might have partial results
-      return NextResponse.json(result satisfies TestDataGenerationResponse);
-    }
-
-    if (userIdentifier && !result.error) {
+    // Failed runs are still charged for the model calls they made
+    const usage = sumTokenUsage(spentUsage);
+    if (userIdentifier && (!result.error || usage)) {
       console.log('[API][Test Data Generate] Recording usage', {
         userIdentifier,
         provider: providerForService ?? 'openai',
@@ -90,10 +88,17 @@ export async function POST(request: NextRequest) {
         feature: 'test-data-generator',
         provider: providerForService ?? 'openai',
         model: model ?? null,
-        metadata: { count, format },
+        usage,
+        metadata: { count, format, ...(result.error ? { failed: true } : {}) },
       });
     }
 
+    if (result.error) {
+      console.warn(`Test data generation encountered an issue: ${result.error}`);
+      // Still return with 200 status as we might have partial results
+      return NextResponse.json(result satisfies TestDataGenerationResponse);
+    }
+
     return NextResponse.json(result satisfies TestDataGenerationResponse);
   } catch (error) {
     console.error('Error generating test data:', error);
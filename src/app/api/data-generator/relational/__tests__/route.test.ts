@@ -0,0 +1,79 @@
+/** @jest-environment node */
+
+import { POST } from '../route';
+import type { NextRequest } from 'next/server';
+
+const mockGenerateRelationalData = jest.fn();
+
+jest.mock('@/lib/services/ai/factory', () => ({
+  createAIService: jest.fn(() => ({})),
+}));
+
+jest.mock('@/lib/services/ai/testDataGenerator', () => ({
+  TestDataGeneratorService: jest.fn(() => ({ generateRelationalData: mockGenerateRelationalData })),
+}));
+
+jest.mock('@/lib/server/usageTracker', () => ({
+  __esModule: true,
+  default: {
+    recordUsage: jest.fn(),
+  },
+}));
+
+describe('POST /api/data-generator/relational', () => {
+  const buildRequest = (payload: unknown) =>
+    ({
+      json: async () => payload,
+      headers: new Headers(),
+    }) as unknown as NextRequest;
+
+  const customers = { name: 'customers', rowCount: 2, fields: [{ name: 'id', type: 'Row Number', options: {} }] };
+  const orders = {
+    name: 'orders',
+    rowCount: 0,
+    fields: [{ name: 'customer_id', type: 'Foreign Key', options: { table: 'customers', column: 'id' } }],
+  };
+
+  beforeEach(() => {
+    mockGenerateRelationalData.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns 400 when a foreign key points at a missing table', async () => {
+    const response = await POST(buildRequest({ tables: [orders] }));
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid relational schema');
+    expect(mockGenerateRelationalData).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 with the error and the tables generated so far when a table fails', async () => {
+    const generatedCustomers = { name: 'customers', data: [{ id: 1 }, { id: 2 }], count: 2 };
+    mockGenerateRelationalData.mockResolvedValue({
+      tables: [generatedCustomers],
+      error: 'orders: Failed to generate test data: model unavailable',
+    });
+
+    const response = await POST(buildRequest({ tables: [customers, orders] }));
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      tables: [generatedCustomers],
+      error: 'orders: Failed to generate test data: model unavailable',
+    });
+  });
+
+  it('returns the generated tables', async () => {
+    mockGenerateRelationalData.mockResolvedValue({ tables: [{ name: 'customers', data: [{ id: 1 }], count: 1 }] });
+
+    const response = await POST(buildRequest({ tables: [customers] }));
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).tables[0].count).toBe(1);
+  });
+});
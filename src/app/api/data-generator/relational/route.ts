@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestDataGeneratorService } from '@/lib/services/ai/testDataGenerator';
+import { createAIService } from '@/lib/services/ai/factory';
+import { LLMProvider, TokenUsage } from '@/lib/types';
+import usageTracker from '@/lib/server/usageTracker';
+import { sumTokenUsage } from '@/lib/services/ai/pipeline/tokenUsage';
+import { generateRelationalPayloadSchema } from '@/lib/data-generator/validation';
+import { collectTableRelationIssues, findTableCycles } from '@/lib/data-generator/referenceValidation';
+import { estimateRelationalRowCounts } from '@/lib/data-generator/relational';
+import type { TableDefinition } from '@/lib/data-generator/types';
+import type { RelationalGenerationResponse } from '@/lib/types/testData';
+
+const MAX_TOTAL_ROWS = 100000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsedPayload = generateRelationalPayloadSchema.safeParse(await request.json());
+    if (!parsedPayload.success) {
+      return NextResponse.json(
+        { error: 'Invalid payload', details: parsedPayload.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { tables: payloadTables, aiEnhancement, provider, model, seed } = parsedPayload.data;
+    const tables: TableDefinition[] = payloadTables.map((table) => ({
+      id: table.name,
+      name: table.name,
+      rowCount: table.rowCount,
+      fields: table.fields.map((field, index) => ({ id: `${table.name}-${field.name}-${index}`, ...field })),
+    }));
+
+    const issues = collectTableRelationIssues(tables);
+    if (issues.length > 0) {
+      return NextResponse.json({ error: 'Invalid relational schema', details: issues }, { status: 400 });
+    }
+
+    const cycles = findTableCycles(tables);
+    if (cycles.length > 0) {
+      return NextResponse.json(
+        { error: `Tables reference each other in a cycle: ${cycles.map((cycle) => cycle.join(' → ')).join('; ')}`, cycles },
+        { status: 400 }
+      );
+    }
+
+    const estimatedRows = Object.values(estimateRelationalRowCounts(tables)).reduce((sum, count) => sum + count, 0);
+    if (estimatedRows > MAX_TOTAL_ROWS) {
+      return NextResponse.json(
+        { error: `This schema can produce up to ${estimatedRows} rows; the limit is ${MAX_TOTAL_ROWS} per request.` },
+        { status: 400 }
+      );
+    }
+
+    console.log('[API][Test Data Relational] Generating', {
+      tables: tables.map((table) => `${table.name} (${table.fields.length} fields)`),
+      estimatedRows,
+      provider: provider ?? 'openai',
+      seed: seed ?? null,
+    });
+
+    const providerForService: LLMProvider | undefined = provider as LLMProvider | undefined;
+    const spentUsage: TokenUsage[] = [];
+    const dataGeneratorService = new TestDataGeneratorService(
+      createAIService(providerForService),
+      (usage) => spentUsage.push(usage)
+    );
+    const result = await dataGeneratorService.generateRelationalData({ tables, aiEnhancement, model, seed });
+
+    // Failed runs are still charged for the model calls they made
+    const usage = sumTokenUsage(spentUsage);
+    const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
+    if (userIdentifier && (!result.error || usage)) {
+      const count = result.tables.reduce((sum, table) => sum + table.count, 0);
+      await usageTracker.recordUsage({
+        userIdentifier,
+        feature: 'test-data-generator',
+        provider: providerForService ?? 'openai',
+        model: model ?? null,
+        usage,
+        metadata: { count, tables: result.tables.length, format: 'relational', ...(result.error ? { failed: true } : {}) },
+      });
+    }
+
+    // The schema was validated above, so an error here means generating a table failed
+    if (result.error) {
+      console.warn(`[API][Test Data Relational] Generation stopped: ${result.error}`);
+      return NextResponse.json(result satisfies RelationalGenerationResponse, { status: 500 });
+    }
+
+    return NextResponse.json(result satisfies RelationalGenerationResponse);
+  } catch (error) {
+    console.error('Error generating relational test data:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate relational test data',
+        tables: [],
+        debug: { error: error instanceof Error ? error.message : String(error) },
+      },
+      { status: 500 }
+    );
+  }
+}
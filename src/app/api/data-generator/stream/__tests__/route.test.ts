@@ -0,0 +1,76 @@
+/** @jest-environment node */
+
+import { POST } from '../route';
+import type { NextRequest } from 'next/server';
+
+jest.mock('@/lib/server/usageTracker', () => ({
+  __esModule: true,
+  default: {
+    recordUsage: jest.fn(),
+  },
+}));
+
+const usageTracker = jest.requireMock('@/lib/server/usageTracker').default as { recordUsage: jest.Mock };
+
+describe('POST /api/data-generator/stream', () => {
+  const buildRequest = (payload: unknown, headers?: Record<string, string>) => {
+    const requestLike: Partial<NextRequest> = {
+      json: async () => payload,
+      headers: new Headers(headers) as unknown as NextRequest['headers'],
+    };
+
+    return requestLike as NextRequest;
+  };
+
+  beforeEach(() => {
+    usageTracker.recordUsage.mockReset();
+  });
+
+  it('rejects formats that cannot be streamed', async () => {
+    const response = await POST(
+      buildRequest({ fields: [{ name: 'id', type: 'Number', options: {} }], count: 10, format: 'Excel' })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('Invalid payload');
+  });
+
+  it('rejects fields that Copycat cannot generate', async () => {
+    const response = await POST(
+      buildRequest({ fields: [{ name: 'bio', type: 'AI-Generated', options: {} }], count: 10, format: 'CSV' })
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('bio (AI-Generated)');
+  });
+
+  it('streams a CSV export as the file itself and records usage', async () => {
+    const response = await POST(
+      buildRequest(
+        {
+          fields: [
+            { name: 'id', type: 'Row Number', options: { start: 1 } },
+            { name: 'email', type: 'Email', options: {} },
+          ],
+          count: 3,
+          format: 'CSV',
+          seed: 'seed-a',
+        },
+        { 'X-User-Identifier': 'user-1' }
+      )
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8');
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="test-data-\d{4}-\d{2}-\d{2}\.csv"$/);
+    expect(response.headers.get('X-Data-Seed')).toBe('seed-a');
+    expect(response.headers.get('X-Total-Rows')).toBe('3');
+
+    const csv = await response.text();
+    expect(csv.split('\n')[0]).toBe('id,email');
+    expect(csv.split('\n')).toHaveLength(4);
+    expect(usageTracker.recordUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ userIdentifier: 'user-1', metadata: { count: 3, format: 'CSV', streamed: true } })
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { supportsCopycat, toFieldDefinitions } from '@/lib/data-generator/copycatMapping';
+import {
+  buildExportFilename,
+  DEFAULT_LINE_ENDING,
+  DEFAULT_SQL_EXPORT_OPTIONS,
+  EXPORT_FILE_TYPES,
+} from '@/lib/data-generator/constants';
+import { createDataExportStream } from '@/lib/data-generator/streaming';
+import { streamDataPayloadSchema } from '@/lib/data-generator/validation';
+import usageTracker from '@/lib/server/usageTracker';
+
+/**
+ * Streams a CSV, NDJSON or SQL export file while it is generated, for datasets too large to build in one response.
+ * The body is the file itself; the seed and row count travel in headers so the client can report progress without
+ * parsing it. Only Copycat field types can stream; AI-Generated fields and AI enhancement need every row at once.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const parsedPayload = streamDataPayloadSchema.safeParse(await request.json());
+    if (!parsedPayload.success) {
+      return NextResponse.json(
+        { error: 'Invalid payload', details: parsedPayload.error.flatten().fieldErrors },
+        { status: 400 }
+      );
+    }
+
+    const { fields, count, format, options, sql, seed } = parsedPayload.data;
+    const fieldDefinitions = toFieldDefinitions(fields);
+    const unsupported = fieldDefinitions.filter((field) => !supportsCopycat([field]));
+    if (unsupported.length > 0) {
+      return NextResponse.json(
+        {
+          error: `Streaming exports support Copycat field types only; unsupported: ${unsupported
+            .map((field) => `${field.name} (${field.type})`)
+            .join(', ')}.`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
+    if (userIdentifier) {
+      await usageTracker.recordUsage({
+        userIdentifier,
+        feature: 'test-data-generator',
+        provider: null,
+        model: null,
+        metadata: { count, format, streamed: true },
+      });
+    }
+
+    const { stream, seed: runSeed } = createDataExportStream({
+      fields: fieldDefinitions,
+      count,
+      format,
+      options: {
+        lineEnding: options?.lineEnding ?? DEFAULT_LINE_ENDING,
+        includeHeader: options?.includeHeader ?? true,
+        includeBOM: options?.includeBOM ?? false,
+        sql: sql ?? DEFAULT_SQL_EXPORT_OPTIONS,
+        fields,
+      },
+      seed,
+    });
+
+    const fileType = EXPORT_FILE_TYPES[format];
+    return new Response(stream, {
+      headers: {
+        'Content-Type': `${fileType.mimeType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${buildExportFilename(fileType.extension)}"`,
+        'Cache-Control': 'no-cache, no-transform',
+        'X-Data-Seed': encodeURIComponent(runSeed),
+        'X-Total-Rows': String(count),
+      },
+    });
+  } catch (error) {
+    console.error('[API][Data Stream] Failed to start streaming export', error);
+    return NextResponse.json({ error: 'Failed to stream test data' }, { status: 500 });
+  }
+}
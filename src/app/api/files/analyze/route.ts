@@ -7,7 +7,13 @@ import { UploadedFilePayload } from '@/lib/types';
 const USER_ID_HEADER = 'X-User-Identifier';
 
 function normaliseProvider(value: unknown): LLMProvider {
-  if (value === 'gemini' || value === 'openrouter') {
+  if (
+    value === 'gemini'
+    || value === 'openrouter'
+    || value === 'local'
+    || value === 'anthropic'
+    || value === 'azure'
+  ) {
     return value;
   }
   return 'openai';
@@ -0,0 +1,96 @@
+/** @jest-environment node */
+
+import { POST } from '../route';
+import type { NextRequest } from 'next/server';
+import type { GenerationRunOptions } from '@/lib/types';
+import usageTracker from '@/lib/server/usageTracker';
+
+const mockGenerateTestCases = jest.fn();
+
+jest.mock('@/lib/services/ai/factory', () => ({
+  createAIService: jest.fn(() => ({
+    generateTestCases: mockGenerateTestCases,
+    generateContent: jest.fn(),
+  })),
+}));
+
+jest.mock('@/lib/server/usageTracker', () => ({
+  __esModule: true,
+  default: {
+    recordUsage: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/server/promptTemplateStore', () => ({
+  loadPromptTemplateSet: jest.fn(async () => undefined),
+}));
+
+jest.mock('@/lib/server/styleGuideStore', () => ({
+  loadStyleGuideForTeam: jest.fn(async () => undefined),
+}));
+
+const plannerUsage = { promptTokens: 120, completionTokens: 30, totalTokens: 150, costUsd: 0.001 };
+const writerUsage = { promptTokens: 400, completionTokens: 600, totalTokens: 1000, costUsd: 0.004 };
+
+describe('POST /api/generate usage recording', () => {
+  const recordUsage = usageTracker.recordUsage as jest.Mock;
+
+  const buildRequest = (payload: unknown, signal?: AbortSignal) =>
+    ({
+      json: async () => payload,
+      headers: new Headers({ 'X-User-Identifier': 'bob' }),
+      signal,
+    }) as unknown as NextRequest;
+
+  beforeEach(() => {
+    mockGenerateTestCases.mockReset();
+    recordUsage.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records the usage spent before a run fails', async () => {
+    mockGenerateTestCases.mockImplementation(async (_request: unknown, _progress: unknown, runOptions: GenerationRunOptions) => {
+      runOptions.onUsage?.(plannerUsage);
+      runOptions.onUsage?.(writerUsage);
+      throw new Error('Writer failed');
+    });
+
+    const response = await POST(buildRequest({ requirements: 'Users can sign in', mode: 'high-level' }));
+
+    expect(response.status).toBe(500);
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+    expect(recordUsage.mock.calls[0][0]).toMatchObject({
+      userIdentifier: 'bob',
+      usage: { promptTokens: 520, completionTokens: 630, totalTokens: 1150, costUsd: 0.005 },
+      metadata: { failed: true },
+    });
+  });
+
+  it('records the usage spent before a streamed run is cancelled', async () => {
+    const client = new AbortController();
+    mockGenerateTestCases.mockImplementation(async (_request: unknown, _progress: unknown, runOptions: GenerationRunOptions) => {
+      runOptions.onUsage?.(plannerUsage);
+      client.abort();
+      throw new Error('Aborted');
+    });
+
+    const response = await POST(
+      buildRequest(
+        { requirements: 'Users can sign in', mode: 'high-level', agenticOptions: { enableAgentic: true } },
+        client.signal
+      )
+    );
+    expect(await response.text()).toBe('');
+
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+    expect(recordUsage.mock.calls[0][0]).toMatchObject({
+      usage: plannerUsage,
+      metadata: { cancelled: true },
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AutomationGenerationRequest, DetailedTestCase } from '@/lib/types';
+import { AUTOMATION_FRAMEWORKS, generateAutomationSuite } from '@/lib/services/ai/pipeline/automationGenerator';
+import usageTracker from '@/lib/server/usageTracker';
+
+const isDetailedTestCase = (value: unknown): value is DetailedTestCase =>
+  Boolean(value)
+  && typeof (value as DetailedTestCase).id === 'string'
+  && Array.isArray((value as DetailedTestCase).steps)
+  && !('feature' in (value as Record<string, unknown>));
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { testCases, framework, baseUrl, provider, model } = body as AutomationGenerationRequest;
+    const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
+
+    if (!AUTOMATION_FRAMEWORKS.includes(framework)) {
+      return NextResponse.json(
+        { error: `Unsupported framework. Expected one of: ${AUTOMATION_FRAMEWORKS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const detailedCases = Array.isArray(testCases) ? testCases.filter(isDetailedTestCase) : [];
+    if (detailedCases.length === 0) {
+      return NextResponse.json(
+        { error: 'Select at least one detailed test case to automate' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[API][Automation] Generating ${framework} skeletons for ${detailedCases.length} cases`);
+
+    const result = await generateAutomationSuite({
+      testCases: detailedCases,
+      framework,
+      baseUrl: typeof baseUrl === 'string' && baseUrl.trim() ? baseUrl.trim() : undefined,
+      provider,
+      model,
+      userIdentifier,
+    });
+
+    if (userIdentifier) {
+      await usageTracker.recordUsage({
+        userIdentifier,
+        feature: 'test-automation',
+        provider: provider ?? 'openai',
+        model: model ?? null,
+        usage: result.usage,
+        metadata: { framework, caseCount: detailedCases.length },
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('[API][Automation] Failed to generate automation skeletons:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate automation skeletons' },
+      { status: 500 }
+    );
+  }
+}
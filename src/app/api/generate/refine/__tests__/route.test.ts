@@ -0,0 +1,107 @@
+/** @jest-environment node */
+
+import { POST } from '../route';
+import type { NextRequest } from 'next/server';
+import type { GenerationRunOptions } from '@/lib/types';
+import usageTracker from '@/lib/server/usageTracker';
+
+const mockRefineTestCases = jest.fn();
+
+jest.mock('@/lib/services/ai/factory', () => ({
+  createAIService: jest.fn(() => ({
+    refineTestCases: mockRefineTestCases,
+  })),
+}));
+
+jest.mock('@/lib/server/usageTracker', () => ({
+  __esModule: true,
+  default: {
+    recordUsage: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/server/promptTemplateStore', () => ({
+  loadPromptTemplateSet: jest.fn(async () => undefined),
+}));
+
+const chunkUsage = { promptTokens: 300, completionTokens: 200, totalTokens: 500, costUsd: 0.002 };
+
+describe('POST /api/generate/refine', () => {
+  const recordUsage = usageTracker.recordUsage as jest.Mock;
+  const payload = {
+    testCases: [{ id: 'TC-001', title: 'Login' }],
+    instruction: 'Add negative cases',
+    mode: 'high-level',
+  };
+
+  const buildRequest = (signal?: AbortSignal) =>
+    ({
+      json: async () => payload,
+      headers: new Headers({ 'X-User-Identifier': 'bob' }),
+      signal,
+    }) as unknown as NextRequest;
+
+  beforeEach(() => {
+    mockRefineTestCases.mockReset();
+    recordUsage.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stops the refinement and records the usage spent when the client disconnects', async () => {
+    const client = new AbortController();
+    let signal: AbortSignal | undefined;
+    mockRefineTestCases.mockImplementation(async (_request: unknown, _progress: unknown, runOptions: GenerationRunOptions) => {
+      signal = runOptions.signal;
+      runOptions.onUsage?.(chunkUsage);
+      client.abort();
+      throw new Error('Aborted');
+    });
+
+    const response = await POST(buildRequest(client.signal));
+    expect(await response.text()).toBe('');
+
+    expect(signal?.aborted).toBe(true);
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+    expect(recordUsage.mock.calls[0][0]).toMatchObject({
+      feature: 'test-case-refinement',
+      usage: chunkUsage,
+      metadata: { cancelled: true },
+    });
+  });
+
+  it('aborts the refinement when the response stream is cancelled', async () => {
+    let signal: AbortSignal | undefined;
+    mockRefineTestCases.mockImplementation(
+      (_request: unknown, _progress: unknown, runOptions: GenerationRunOptions) =>
+        new Promise((_resolve, reject) => {
+          signal = runOptions.signal;
+          runOptions.signal?.addEventListener('abort', () => reject(new Error('Aborted')));
+        })
+    );
+
+    const response = await POST(buildRequest());
+    await response.body?.cancel();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(signal?.aborted).toBe(true);
+    expect(recordUsage.mock.calls[0][0]).toMatchObject({ metadata: { cancelled: true } });
+  });
+
+  it('records the usage spent before a refinement fails', async () => {
+    mockRefineTestCases.mockImplementation(async (_request: unknown, _progress: unknown, runOptions: GenerationRunOptions) => {
+      runOptions.onUsage?.(chunkUsage);
+      throw new Error('Model unavailable');
+    });
+
+    const response = await POST(buildRequest());
+    const events = (await response.text()).trim().split('\n').map((line) => JSON.parse(line));
+
+    expect(events).toEqual([{ type: 'error', message: 'Model unavailable' }]);
+    expect(recordUsage.mock.calls[0][0]).toMatchObject({ usage: chunkUsage, metadata: { failed: true } });
+  });
+});
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TestCase, TestCaseMode, TestCaseRefinementEvent, TestCaseRefinementRequest, TokenUsage } from '@/lib/types';
+import { createAIService } from '@/lib/services/ai/factory';
+import { sumTokenUsage } from '@/lib/services/ai/pipeline/tokenUsage';
+import usageTracker from '@/lib/server/usageTracker';
+import { loadPromptTemplateSet } from '@/lib/server/promptTemplateStore';
+
+const MODES: TestCaseMode[] = ['high-level', 'detailed', 'gherkin'];
+const MAX_INSTRUCTION_LENGTH = 2000;
+
+const isTestCase = (value: unknown): value is TestCase =>
+  Boolean(value) && typeof (value as TestCase).id === 'string' && typeof (value as TestCase).title === 'string';
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { testCases, instruction, mode, contextCases, requirements, provider, model } = body as TestCaseRefinementRequest;
+    const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
+
+    if (!MODES.includes(mode)) {
+      return NextResponse.json(
+        { error: `Unsupported mode. Expected one of: ${MODES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const targets = Array.isArray(testCases) ? testCases.filter(isTestCase) : [];
+    if (targets.length === 0) {
+      return NextResponse.json({ error: 'Select at least one test case to refine' }, { status: 400 });
+    }
+
+    const trimmedInstruction = typeof instruction === 'string' ? instruction.trim() : '';
+    if (!trimmedInstruction) {
+      return NextResponse.json({ error: 'Missing refinement instruction' }, { status: 400 });
+    }
+    if (trimmedInstruction.length > MAX_INSTRUCTION_LENGTH) {
+      return NextResponse.json(
+        { error: `Instruction is too long (max ${MAX_INSTRUCTION_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    console.log(`[API][Refine] Refining ${targets.length} ${mode} cases`);
+
+    const aiService = createAIService(provider);
+    const refinementRequest: TestCaseRefinementRequest = {
+      testCases: targets,
+      instruction: trimmedInstruction,
+      mode,
+      contextCases: Array.isArray(contextCases) ? contextCases.filter(isTestCase) : undefined,
+      requirements: typeof requirements === 'string' ? requirements : undefined,
+      provider,
+      model,
+      userIdentifier,
+      promptTemplates: await loadPromptTemplateSet(request.headers.get('X-User-Team')),
+    };
+
+    // Aborted when the client disconnects or cancels the stream, which stops any in-flight model calls
+    const abortController = new AbortController();
+    request.signal?.addEventListener('abort', () => abortController.abort());
+
+    // Chunks report usage as they finish, so a cancelled or failed refinement is still charged for what it spent
+    const spentUsage: TokenUsage[] = [];
+
+    const recordRunUsage = async (usage: TokenUsage | undefined, metadata: Record<string, unknown>) => {
+      if (!userIdentifier) {
+        return;
+      }
+      await usageTracker.recordUsage({
+        userIdentifier,
+        feature: 'test-case-refinement',
+        provider: provider ?? 'openai',
+        model: model ?? null,
+        usage,
+        metadata: { mode, caseCount: targets.length, ...metadata },
+      });
+    };
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      start(controller) {
+        const send = (event: TestCaseRefinementEvent) => {
+          try {
+            controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+          } catch (error) {
+            console.error('[API][Refine] Failed to enqueue refinement event', error);
+          }
+        };
+
+        (async () => {
+          try {
+            const result = await aiService.refineTestCases(
+              refinementRequest,
+              (event) => {
+                if (event.type !== 'final') {
+                  send(event);
+                }
+              },
+              { signal: abortController.signal, onUsage: (usage) => spentUsage.push(usage) }
+            );
+            if (result.error) {
+              send({ type: 'error', message: result.error });
+            } else {
+              send({ type: 'final', result });
+            }
+            await recordRunUsage(result.usage, { changedCount: result.testCases.length });
+            controller.close();
+          } catch (error) {
+            const cancelled = abortController.signal.aborted;
+            try {
+              await recordRunUsage(sumTokenUsage(spentUsage), cancelled ? { cancelled: true } : { failed: true });
+            } catch (usageError) {
+              console.warn('[API][Refine] Failed to record usage for interrupted refinement', usageError);
+            }
+            if (cancelled) {
+              console.log('[API][Refine] Refinement cancelled');
+            } else {
+              console.error('[API][Refine] Failed to refine test cases', error);
+              send({ type: 'error', message: error instanceof Error ? error.message : 'Unknown error' });
+            }
+            try {
+              controller.close();
+            } catch {
+              // Stream already cancelled by the client
+            }
+          }
+        })();
+      },
+      cancel() {
+        abortController.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('[API][Refine] Failed to refine test cases:', error);
+    return NextResponse.json({ error: 'Failed to refine test cases' }, { status: 500 });
+  }
+}
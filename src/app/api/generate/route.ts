@@ -1,8 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createAIService } from '@/lib/services/ai/factory';
 import { extractFullTextFromFiles } from '@/lib/server/fileTextExtraction';
-import { TestCaseGenerationRequest, UploadedFilePayload } from '@/lib/types';
+import {
+  AgenticProgressEvent,
+  GenerationRunOptions,
+  TestCaseGenerationRequest,
+  TestCaseGenerationResponse,
+  TokenUsage,
+  UploadedFilePayload,
+} from '@/lib/types';
+import { sumTokenUsage } from '@/lib/services/ai/pipeline/tokenUsage';
 import usageTracker from '@/lib/server/usageTracker';
+import { createGenerationSession } from '@/lib/server/generationSessionStore';
+import {
+  deleteGenerationCheckpoint,
+  loadGenerationCheckpoint,
+  saveGenerationCheckpoint,
+} from '@/lib/server/generationCheckpointStore';
+import { loadPromptTemplateSet } from '@/lib/server/promptTemplateStore';
+import { loadStyleGuideForTeam } from '@/lib/server/styleGuideStore';
 
 const IS_VERCEL = process.env.VERCEL === '1';
 
@@ -21,6 +37,10 @@ export async function POST(request: NextRequest) {
       provider,
       model,
       agenticOptions,
+      existingTestCases,
+      runId,
+      resume,
+      approvedPlan,
     } = body as TestCaseGenerationRequest & {
       fileContent?: string;
       files?: UploadedFilePayload[];
@@ -72,12 +92,112 @@ export async function POST(request: NextRequest) {
       provider,
       model,
       agenticOptions: effectiveAgenticOptions,
+      existingTestCases: Array.isArray(existingTestCases) && existingTestCases.length ? existingTestCases : undefined,
+      runId: userIdentifier && typeof runId === 'string' && runId ? runId : undefined,
+      resume: Boolean(resume),
+      approvedPlan: Array.isArray(approvedPlan) && approvedPlan.length ? approvedPlan : undefined,
       userIdentifier: userIdentifier ?? undefined,
+      promptTemplates: await loadPromptTemplateSet(request.headers.get('X-User-Team')),
+      styleGuide: await loadStyleGuideForTeam(request.headers.get('X-User-Team')),
+    };
+
+    // Aborted when the client disconnects or cancels the stream, which stops any in-flight model calls
+    const abortController = new AbortController();
+    request.signal?.addEventListener('abort', () => abortController.abort());
+
+    // Model calls report usage as they finish, so a cancelled or failed run is still charged for what it spent
+    const spentUsage: TokenUsage[] = [];
+    const checkpointRunId = effectiveAgenticOptions && userIdentifier ? generationRequest.runId : undefined;
+    const runOptions: GenerationRunOptions = {
+      signal: abortController.signal,
+      onUsage: (usage) => spentUsage.push(usage),
+    };
+    if (checkpointRunId && userIdentifier) {
+      if (generationRequest.resume) {
+        runOptions.checkpoint = await loadGenerationCheckpoint(userIdentifier, checkpointRunId);
+        console.log(`[API] Resuming run ${checkpointRunId}: ${runOptions.checkpoint ? `${Object.keys(runOptions.checkpoint.completedSlices).length} slices checkpointed` : 'no checkpoint found'}`);
+      }
+      runOptions.onCheckpoint = (checkpoint) => saveGenerationCheckpoint(userIdentifier, checkpoint);
+    }
+
+    const clearCheckpoint = async (result: TestCaseGenerationResponse) => {
+      if (!checkpointRunId || !userIdentifier || result.error || result.incompleteSliceIds?.length) {
+        return;
+      }
+      try {
+        await deleteGenerationCheckpoint(userIdentifier, checkpointRunId);
+      } catch (error) {
+        console.warn('[API] Failed to delete generation checkpoint', error);
+      }
+    };
+
+    const recordRunUsage = async (usage: TokenUsage | undefined, outcome: { cancelled?: boolean; failed?: boolean } = {}) => {
+      if (!userIdentifier) {
+        return;
+      }
+      console.log('[API] Recording test-case usage', {
+        userIdentifier,
+        provider: provider ?? 'openai',
+        model,
+        priorityMode,
+        ...outcome,
+      });
+      await usageTracker.recordUsage({
+        userIdentifier,
+        feature: 'test-case-generator',
+        provider: provider ?? 'openai',
+        model: model ?? contextDefaultModel(agenticOptions),
+        priorityMode: priorityMode ?? 'comprehensive',
+        usage,
+        metadata: {
+          mode,
+          plannerProvider: agenticOptions?.plannerProvider,
+          writerProvider: agenticOptions?.writerProvider,
+          reviewerProvider: agenticOptions?.reviewerProvider,
+          ...outcome,
+        },
+      });
+    };
+
+    // Charges what a cancelled or failed run spent before it stopped
+    const recordInterruptedUsage = async () => {
+      const outcome = abortController.signal.aborted ? { cancelled: true } : { failed: true };
+      try {
+        await recordRunUsage(sumTokenUsage(spentUsage), outcome);
+      } catch (error) {
+        console.warn('[API] Failed to record usage for interrupted run', error);
+      }
     };
 
     const shouldStream = Boolean(effectiveAgenticOptions?.streamProgress);
     console.log(`[API] Stream progress: ${shouldStream}`);
 
+    const persistSession = async (result: TestCaseGenerationResponse): Promise<TestCaseGenerationResponse> => {
+      if (!userIdentifier || selectedScenarios?.length || result.error || !result.testCases?.length) {
+        return result;
+      }
+      try {
+        const session = await createGenerationSession({
+          userIdentifier,
+          requirements: requirements ?? '',
+          files: files.map(({ name, type, size }) => ({ name, type, size })),
+          options: {
+            mode,
+            priorityMode,
+            provider,
+            model,
+            agenticOptions: effectiveAgenticOptions,
+          },
+          response: result,
+        });
+        console.log(`[API] Saved generation session ${session.id}`);
+        return { ...result, sessionId: session.id };
+      } catch (error) {
+        console.warn('[API] Failed to save generation session', error);
+        return result;
+      }
+    };
+
     if (shouldStream) {
       const encoder = new TextEncoder();
 
@@ -91,41 +211,42 @@ export async function POST(request: NextRequest) {
             }
           };
 
+          // The final event is emitted here once the session is saved so it can carry the session id
+          const relay = (event: AgenticProgressEvent) => {
+            if (event.type !== 'final') {
+              send(event);
+            }
+          };
+
           (async () => {
             try {
-              await aiService.generateTestCases(generationRequest, send);
-              if (userIdentifier) {
-                console.log('[API] Recording test-case usage (stream)', {
-                  userIdentifier,
-                  provider: provider ?? 'openai',
-                  model,
-                  priorityMode,
-                });
-                await usageTracker.recordUsage({
-                  userIdentifier,
-                  feature: 'test-case-generator',
-                  provider: provider ?? 'openai',
-                  model: model ?? contextDefaultModel(agenticOptions),
-                  priorityMode: priorityMode ?? 'comprehensive',
-                  metadata: {
-                    mode,
-                    plannerProvider: agenticOptions?.plannerProvider,
-                    writerProvider: agenticOptions?.writerProvider,
-                    reviewerProvider: agenticOptions?.reviewerProvider,
-                  },
-                });
-              }
+              const result = await aiService.generateTestCases(generationRequest, relay, runOptions);
+              await clearCheckpoint(result);
+              send({ type: 'final', result: await persistSession(result) });
+              await recordRunUsage(result.telemetry?.usage);
               controller.close();
             } catch (error) {
-              console.error('Error generating test cases (stream)', error);
-              send({
-                type: 'error',
-                message: error instanceof Error ? error.message : 'Unknown error',
-              });
-              controller.close();
+              await recordInterruptedUsage();
+              if (abortController.signal.aborted) {
+                console.log(`[API] Generation cancelled${checkpointRunId ? ` (run ${checkpointRunId} can be resumed)` : ''}`);
+              } else {
+                console.error('Error generating test cases (stream)', error);
+                send({
+                  type: 'error',
+                  message: error instanceof Error ? error.message : 'Unknown error',
+                });
+              }
+              try {
+                controller.close();
+              } catch {
+                // Stream already cancelled by the client
+              }
             }
           })();
         },
+        cancel() {
+          abortController.abort();
+        },
       });
 
       return new Response(stream, {
@@ -137,29 +258,16 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const result = await aiService.generateTestCases(generationRequest);
-
-    if (userIdentifier) {
-      console.log('[API] Recording test-case usage', {
-        userIdentifier,
-        provider: provider ?? 'openai',
-        model,
-        priorityMode,
-      });
-      await usageTracker.recordUsage({
-        userIdentifier,
-        feature: 'test-case-generator',
-        provider: provider ?? 'openai',
-        model: model ?? contextDefaultModel(agenticOptions),
-        priorityMode: priorityMode ?? 'comprehensive',
-        metadata: {
-          mode,
-          plannerProvider: agenticOptions?.plannerProvider,
-          writerProvider: agenticOptions?.writerProvider,
-          reviewerProvider: agenticOptions?.reviewerProvider,
-        },
-      });
+    let generated: TestCaseGenerationResponse;
+    try {
+      generated = await aiService.generateTestCases(generationRequest, undefined, runOptions);
+    } catch (error) {
+      await recordInterruptedUsage();
+      throw error;
     }
+    await clearCheckpoint(generated);
+    const result = await persistSession(generated);
+    await recordRunUsage(result.telemetry?.usage);
 
     console.log(`[API] Generated ${result.testCases?.length || 0} test cases`);
     
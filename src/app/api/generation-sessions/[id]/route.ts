@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  deleteGenerationSession,
+  loadGenerationSession,
+  updateGenerationSession,
+} from '@/lib/server/generationSessionStore';
+import type { GenerationSessionUpdate } from '@/lib/types';
+
+const USER_ID_HEADER = 'X-User-Identifier';
+
+interface RouteParams {
+  params: { id: string };
+}
+
+const sessionUpdateSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  testCases: z.array(z.record(z.any())).optional(),
+  convertedTestCases: z.array(z.record(z.any())).optional(),
+  convertedScenarioIds: z.array(z.string()).optional(),
+});
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const userId = request.headers.get(USER_ID_HEADER);
+  if (!userId) {
+    return NextResponse.json({ error: 'Missing user identifier' }, { status: 401 });
+  }
+
+  try {
+    const session = await loadGenerationSession(userId, params.id);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('[API][Sessions][GET] Failed to load generation session', error);
+    return NextResponse.json({ error: 'Failed to load generation session' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  const userId = request.headers.get(USER_ID_HEADER);
+  if (!userId) {
+    return NextResponse.json({ error: 'Missing user identifier' }, { status: 401 });
+  }
+
+  let update: GenerationSessionUpdate;
+  try {
+    update = sessionUpdateSchema.parse(await request.json()) as GenerationSessionUpdate;
+  } catch (error) {
+    console.warn('[API][Sessions][PATCH] Invalid payload', error);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const session = await updateGenerationSession(userId, params.id, update);
+    if (!session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ session });
+  } catch (error) {
+    console.error('[API][Sessions][PATCH] Failed to update generation session', error);
+    return NextResponse.json({ error: 'Failed to update generation session' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const userId = request.headers.get(USER_ID_HEADER);
+  if (!userId) {
+    return NextResponse.json({ error: 'Missing user identifier' }, { status: 401 });
+  }
+
+  try {
+    const deleted = await deleteGenerationSession(userId, params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[API][Sessions][DELETE] Failed to delete generation session', error);
+    return NextResponse.json({ error: 'Failed to delete generation session' }, { status: 500 });
+  }
+}
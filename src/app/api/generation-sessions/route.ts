@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listGenerationSessions } from '@/lib/server/generationSessionStore';
+
+const USER_ID_HEADER = 'X-User-Identifier';
+
+export async function GET(request: NextRequest) {
+  const userId = request.headers.get(USER_ID_HEADER);
+  if (!userId) {
+    return NextResponse.json({ error: 'Missing user identifier' }, { status: 401 });
+  }
+
+  try {
+    const sessions = await listGenerationSessions(userId);
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('[API][Sessions][GET] Failed to list generation sessions', error);
+    return NextResponse.json({ error: 'Failed to list generation sessions' }, { status: 500 });
+  }
+}
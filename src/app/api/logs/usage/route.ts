@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchUsageRows } from '@/lib/server/usageTracker';
 
-const USER_ID_HEADER = 'X-User-Identifier';
-const ADMIN_IDENTIFIER = '__admin__';
+const USER_ROLE_HEADER = 'X-User-Role';
 
 interface UsageSummary {
   userIdentifier: string;
@@ -11,6 +10,9 @@ interface UsageSummary {
   byPriority: Record<string, number>;
   providers: Record<string, number>;
   models: Record<string, number>;
+  totalTokens: number;
+  costUsd: number;
+  costByModel: Record<string, number>;
   lastInteraction: string | null;
 }
 
@@ -27,6 +29,9 @@ function buildSummary(rows: Awaited<ReturnType<typeof fetchUsageRows>>): UsageSu
         byPriority: {},
         providers: {},
         models: {},
+        totalTokens: 0,
+        costUsd: 0,
+        costByModel: {},
         lastInteraction: null,
       });
     }
@@ -42,6 +47,16 @@ function buildSummary(rows: Awaited<ReturnType<typeof fetchUsageRows>>): UsageSu
       summary.models[row.model] = (summary.models[row.model] ?? 0) + 1;
     }
 
+    const usage = row.metadata?.usage;
+    if (usage) {
+      summary.totalTokens += Number(usage.totalTokens) || 0;
+      const cost = Number(usage.costUsd) || 0;
+      summary.costUsd += cost;
+      if (cost && row.model) {
+        summary.costByModel[row.model] = (summary.costByModel[row.model] ?? 0) + cost;
+      }
+    }
+
     summary.byType[row.feature] = (summary.byType[row.feature] ?? 0) + 1;
     const priority = row.priority_mode ?? 'unspecified';
     summary.byPriority[priority] = (summary.byPriority[priority] ?? 0) + 1;
@@ -55,8 +70,7 @@ function buildSummary(rows: Awaited<ReturnType<typeof fetchUsageRows>>): UsageSu
 }
 
 export async function GET(request: NextRequest) {
-  const requesterId = request.headers.get(USER_ID_HEADER);
-  if (requesterId !== ADMIN_IDENTIFIER) {
+  if (request.headers.get(USER_ROLE_HEADER) !== 'admin') {
     return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
   }
 
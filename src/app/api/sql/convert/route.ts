@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SQLAIService } from '@/lib/services/ai/sql';
 import { createAIService } from '@/lib/services/ai/factory';
-import { SQLConversionRequest, LLMProvider } from '@/lib/types';
+import { SQLConversionRequest, LLMProvider, TokenUsage } from '@/lib/types';
 import usageTracker from '@/lib/server/usageTracker';
+import { sumTokenUsage } from '@/lib/services/ai/pipeline/tokenUsage';
+import { loadPromptTemplateSet } from '@/lib/server/promptTemplateStore';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,7 +26,9 @@ export async function POST(request: NextRequest) {
     const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
     console.log(`Core AI Service created: ${coreAIService.constructor.name}`);
 
-    const sqlService = new SQLAIService(coreAIService, userIdentifier);
+    const promptTemplates = await loadPromptTemplateSet(request.headers.get('X-User-Team'));
+    const spentUsage: TokenUsage[] = [];
+    const sqlService = new SQLAIService(coreAIService, userIdentifier, promptTemplates, (usage) => spentUsage.push(usage));
     console.log('SQLAIService instantiated with the core AI service');
     
     const result = await sqlService.convertSQLQuery({ query, sourceDialect, targetDialect, model });
@@ -42,6 +46,7 @@ export async function POST(request: NextRequest) {
         feature: 'sql-convert',
         provider: provider ?? 'openai',
         model: model ?? null,
+        usage: sumTokenUsage(spentUsage),
         metadata: { sourceDialect, targetDialect },
       });
     }
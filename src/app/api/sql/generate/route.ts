@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SQLAIService } from '@/lib/services/ai/sql';
 import { createAIService } from '@/lib/services/ai/factory';
-import { SQLGenerationRequest, LLMProvider } from '@/lib/types';
+import { SQLGenerationRequest, LLMProvider, TokenUsage } from '@/lib/types';
 import usageTracker from '@/lib/server/usageTracker';
+import { sumTokenUsage } from '@/lib/services/ai/pipeline/tokenUsage';
+import { loadPromptTemplateSet } from '@/lib/server/promptTemplateStore';
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,7 +32,9 @@ export async function POST(request: NextRequest) {
     const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
     console.log(`Core AI Service created: ${coreAIService.constructor.name}`);
     
-    const sqlService = new SQLAIService(coreAIService, userIdentifier);
+    const promptTemplates = await loadPromptTemplateSet(request.headers.get('X-User-Team'));
+    const spentUsage: TokenUsage[] = [];
+    const sqlService = new SQLAIService(coreAIService, userIdentifier, promptTemplates, (usage) => spentUsage.push(usage));
     console.log('SQLAIService instantiated with the core AI service');
     
     const result = await sqlService.generateSQLQuery({ description, targetDialect, schema, model });
@@ -47,6 +51,7 @@ export async function POST(request: NextRequest) {
         feature: 'sql-generate',
         provider: provider ?? 'openai',
         model: model ?? null,
+        usage: sumTokenUsage(spentUsage),
         metadata: { targetDialect },
       });
     }
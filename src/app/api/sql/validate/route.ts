@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SQLAIService } from '@/lib/services/ai/sql';
 import { createAIService } from '@/lib/services/ai/factory';
-import { SQLValidationRequest, LLMProvider } from '@/lib/types';
+import { SQLValidationRequest, LLMProvider, TokenUsage } from '@/lib/types';
 import usageTracker from '@/lib/server/usageTracker';
+import { sumTokenUsage } from '@/lib/services/ai/pipeline/tokenUsage';
+import { loadPromptTemplateSet } from '@/lib/server/promptTemplateStore';
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,7 +26,9 @@ export async function POST(request: NextRequest) {
     const userIdentifier = request.headers.get('X-User-Identifier') ?? undefined;
     console.log(`Core AI Service created: ${coreAIService.constructor.name}`);
 
-    const sqlService = new SQLAIService(coreAIService, userIdentifier);
+    const promptTemplates = await loadPromptTemplateSet(request.headers.get('X-User-Team'));
+    const spentUsage: TokenUsage[] = [];
+    const sqlService = new SQLAIService(coreAIService, userIdentifier, promptTemplates, (usage) => spentUsage.push(usage));
     console.log('SQLAIService instantiated with the core AI service');
     
     const result = await sqlService.validateSQLQuery({ query, dialect, schema, model });
@@ -41,6 +45,7 @@ export async function POST(request: NextRequest) {
         feature: 'sql-validate',
         provider: provider ?? 'openai',
         model: model ?? null,
+        usage: sumTokenUsage(spentUsage),
         metadata: { dialect },
       });
     }
@@ -1,6 +1,6 @@
 'use client';
 
-import { useMemo, useRef, useCallback } from 'react';
+import { useMemo, useRef, useCallback, useState } from 'react';
 
 import { SchemaBuilder } from '@/components/data-generator/SchemaBuilder';
 import { ExportOptions } from '@/components/data-generator/ExportOptions';
@@ -16,7 +16,14 @@ import { useExportConfig } from '@/lib/hooks/data-generator/useExportConfig';
 import { useDataGeneration } from '@/lib/hooks/data-generator/useDataGeneration';
 import { AIPromptSuggestions } from '@/components/data-generator/AIPromptSuggestions';
 import { PreviewController } from '@/components/data-generator/PreviewController';
-import { RelationalPreview } from '@/components/data-generator/RelationalPreview';
+import { ForeignKeyPreview, RelationalPreview } from '@/components/data-generator/RelationalPreview';
+import { TableTabs } from '@/components/data-generator/TableTabs';
+import { SchemaImportDialog } from '@/components/data-generator/SchemaImportDialog';
+import { useRelationalSchema } from '@/lib/hooks/data-generator/useRelationalSchema';
+import { useRelationalGeneration } from '@/lib/hooks/data-generator/useRelationalGeneration';
+import { FOREIGN_KEY_FIELD_TYPE } from '@/lib/data-generator/constants';
+import type { RelationalExportMode } from '@/lib/data-generator/types';
+import type { SchemaImportResult } from '@/lib/schema-import';
 
 interface Toast {
   title: string;
@@ -24,6 +31,13 @@ interface Toast {
   variant: 'default' | 'destructive';
 }
 
+type SchemaMode = 'single' | 'multiple';
+
+const tabClassName = ({ selected }: { selected: boolean }) =>
+  `w-full rounded-lg py-2.5 text-sm font-medium leading-5 ${
+    selected ? 'bg-blue-600 text-white shadow' : 'text-slate-300 hover:bg-slate-700/50 hover:text-white'
+  } flex items-center justify-center`;
+
 const useToast = () => {
   const toast = (params: Toast) => {
     console.log(`TOAST: ${params.title} - ${params.description}`);
@@ -34,7 +48,11 @@ const useToast = () => {
 
 export default function TestDataGeneratorPage() {
   const { settings } = useProviderSettings();
+  const [schemaMode, setSchemaMode] = useState<SchemaMode>('single');
+  const [relationalExportMode, setRelationalExportMode] = useState<RelationalExportMode>('per-table');
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const schema = useSchemaBuilder();
+  const relational = useRelationalSchema();
   const {
     config: exportConfig,
     setConfig: setExportConfig,
@@ -59,6 +77,7 @@ export default function TestDataGeneratorPage() {
     previewDataRows,
     aiSampleRow,
     generationMetadata,
+    streamProgress,
     isGenerating,
     isFetchingAiSample,
     isPreviewMode,
@@ -74,6 +93,23 @@ export default function TestDataGeneratorPage() {
     onGenerationStart: scrollToProgress,
   });
 
+  const relationalGeneration = useRelationalGeneration({
+    tables: relational.tables,
+    exportConfig,
+    exportMode: relationalExportMode,
+    hasAIGeneratedFields: relational.hasAIGeneratedFields,
+    mapTablesToApi: relational.mapTablesToApi,
+    validateSchema: relational.validateSchema,
+    validateExportConfig: validateAgainstSchema,
+    provider: settings.data.provider,
+    model: settings.data.model,
+    toast,
+    onGenerationStart: scrollToProgress,
+  });
+
+  const isMultiTable = schemaMode === 'multiple';
+  const activeTable = relational.activeTable;
+
   const aiFieldNames = useMemo(
     () => schema.fields.filter((field) => field.type === 'AI-Generated').map((field) => field.name),
     [schema.fields]
@@ -81,6 +117,20 @@ export default function TestDataGeneratorPage() {
 
   const referenceFields = schema.fields.filter((field) => field.type === 'Reference');
 
+  const handleSchemaImport = ({ tables }: SchemaImportResult) => {
+    const [first] = tables;
+    clearPreview();
+    relationalGeneration.clearPreview();
+    if (tables.length === 1 && !first.fields.some((field) => field.type === FOREIGN_KEY_FIELD_TYPE)) {
+      schema.setFields(first.fields);
+      setSchemaMode('single');
+      return;
+    }
+    relational.setTables(tables);
+    relational.setActiveTableId(first.id);
+    setSchemaMode('multiple');
+  };
+
   return (
     <main className="container mx-auto px-4 py-8">
       <div className="text-center mb-16">
@@ -97,19 +147,65 @@ export default function TestDataGeneratorPage() {
       </div>
 
       <div className="space-y-8">
-        <section>
-          <h2 className="text-2xl font-semibold text-white mb-4">Define Your Schema</h2>
-          <SchemaBuilder
-            fields={schema.fields}
-            onChange={schema.setFields}
-            onAddField={schema.addField}
-            onRemoveField={schema.removeField}
-            onDuplicateField={schema.duplicateField}
-            onMoveField={schema.reorderField}
-            onFieldUpdate={schema.updateField}
-            onFieldOptionsUpdate={schema.updateFieldOptions}
-            onReplaceAll={schema.setFields}
-          />
+        <section className="space-y-4">
+          <header className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-2xl font-semibold text-white">Define Your Schema</h2>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="rounded-lg border border-slate-600 px-3 py-1.5 text-sm font-medium text-slate-200 hover:bg-slate-700"
+              >
+                Import schema
+              </button>
+              <div className="flex space-x-1 rounded-xl bg-slate-700/50 p-1" role="group" aria-label="Schema mode">
+                {(['single', 'multiple'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setSchemaMode(mode)}
+                    aria-pressed={schemaMode === mode}
+                    className={`rounded-lg px-3 py-1.5 text-sm font-medium ${
+                      schemaMode === mode ? 'bg-blue-600 text-white shadow' : 'text-slate-300 hover:text-white'
+                    }`}
+                  >
+                    {mode === 'single' ? 'Single table' : 'Multiple tables'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </header>
+          <SchemaImportDialog isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} onImport={handleSchemaImport} />
+          {isMultiTable && activeTable ? (
+            <>
+              <TableTabs
+                tables={relational.tables}
+                activeTableId={relational.activeTableId}
+                issues={relational.relationIssues}
+                cycles={relational.cycles}
+                onSelect={relational.setActiveTableId}
+                onAdd={relational.addTable}
+                onRemove={relational.removeTable}
+                onUpdate={relational.updateTable}
+              />
+              <SchemaBuilder
+                key={activeTable.id}
+                fields={activeTable.fields}
+                onChange={(fields) => relational.setTableFields(activeTable.id, fields)}
+                relatedTables={relational.tables.filter((table) => table.id !== activeTable.id)}
+              />
+            </>
+          ) : (
+            <SchemaBuilder
+              fields={schema.fields}
+              onChange={schema.setFields}
+              onAddField={schema.addField}
+              onRemoveField={schema.removeField}
+              onDuplicateField={schema.duplicateField}
+              onMoveField={schema.reorderField}
+              onFieldUpdate={schema.updateField}
+              onFieldOptionsUpdate={schema.updateFieldOptions}
+              onReplaceAll={schema.setFields}
+            />
+          )}
         </section>
 
         <section className="space-y-4">
@@ -119,45 +215,95 @@ export default function TestDataGeneratorPage() {
               Configure your baseline dataset first. If you enable AI enhancement, provide clear instructions so
               generated fields follow the guidance you expect.
             </p>
-            <ExportOptions
-              config={exportConfig}
-              onConfigChange={setExportConfig}
-              onExport={exportData}
-              onPreview={generatePreview}
-              hasAIGeneratedFields={schema.hasAIGeneratedFields}
-            />
+            {isMultiTable ? (
+              <ExportOptions
+                config={exportConfig}
+                onConfigChange={setExportConfig}
+                onExport={relationalGeneration.exportData}
+                onPreview={relationalGeneration.generatePreview}
+                hasAIGeneratedFields={relational.hasAIGeneratedFields}
+                relationalExportMode={relationalExportMode}
+                onRelationalExportModeChange={setRelationalExportMode}
+              />
+            ) : (
+              <ExportOptions
+                config={exportConfig}
+                onConfigChange={setExportConfig}
+                onExport={exportData}
+                onPreview={generatePreview}
+                hasAIGeneratedFields={schema.hasAIGeneratedFields}
+              />
+            )}
           </div>
 
-          <div className="bg-slate-800/70 backdrop-blur-sm rounded-xl border border-slate-700 p-4 space-y-3">
-            <header className="flex items-center justify-between">
-              <h2 className="text-xl font-semibold text-white">AI Prompt Guidance</h2>
-              <span className="text-xs text-slate-300">
-                Prompts feed the &quot;AI Enhancement&quot; field inside Export Options.
-              </span>
-            </header>
-            <p className="text-sm text-slate-300">
-              Pick a preset or write your own prompt, then click <span className="font-semibold">Use</span> to copy it
-              into the enhancement prompt. AI instructions only affect fields marked as &quot;AI-Generated.&quot; Use
-              <span className="font-semibold"> Preview</span> to sanity-check a single row before exporting.
-            </p>
-            <AIPromptSuggestions
-              currentPrompt={exportConfig.enhancementPrompt}
-              disabled={!schema.hasAIGeneratedFields}
-              aiFieldNames={aiFieldNames}
-              sampleRow={aiSampleRow}
-              isSampleLoading={isFetchingAiSample}
-              onGenerateSample={generateAiSample}
-              onSelect={(prompt) =>
-                updateExportConfig({
-                  enhancementPrompt: prompt,
-                  applyAIEnhancement: true,
-                })
-              }
-            />
-          </div>
+          {!isMultiTable && (
+            <div className="bg-slate-800/70 backdrop-blur-sm rounded-xl border border-slate-700 p-4 space-y-3">
+              <header className="flex items-center justify-between">
+                <h2 className="text-xl font-semibold text-white">AI Prompt Guidance</h2>
+                <span className="text-xs text-slate-300">
+                  Prompts feed the &quot;AI Enhancement&quot; field inside Export Options.
+                </span>
+              </header>
+              <p className="text-sm text-slate-300">
+                Pick a preset or write your own prompt, then click <span className="font-semibold">Use</span> to copy it
+                into the enhancement prompt. AI instructions only affect fields marked as &quot;AI-Generated.&quot; Use
+                <span className="font-semibold"> Preview</span> to sanity-check a single row before exporting.
+              </p>
+              <AIPromptSuggestions
+                currentPrompt={exportConfig.enhancementPrompt}
+                disabled={!schema.hasAIGeneratedFields}
+                aiFieldNames={aiFieldNames}
+                sampleRow={aiSampleRow}
+                isSampleLoading={isFetchingAiSample}
+                onGenerateSample={generateAiSample}
+                onSelect={(prompt) =>
+                  updateExportConfig({
+                    enhancementPrompt: prompt,
+                    applyAIEnhancement: true,
+                  })
+                }
+              />
+            </div>
+          )}
         </section>
 
-        {isPreviewMode && previewDataRows.length > 0 && (
+        {isMultiTable && relationalGeneration.isPreviewMode && relationalGeneration.previewTables.length > 0 && (
+          <section className="space-y-4">
+            <header className="flex justify-between items-center">
+              <h2 className="text-2xl font-semibold text-white">Data Preview</h2>
+              <button
+                onClick={relationalGeneration.clearPreview}
+                className="text-sm text-slate-300 hover:text-white"
+              >
+                Close preview
+              </button>
+            </header>
+
+            <Tab.Group>
+              <Tab.List className="flex space-x-1 rounded-xl bg-slate-700/50 p-1 mb-4">
+                {relationalGeneration.previewTables.map((table) => (
+                  <Tab key={table.name} className={tabClassName}>
+                    <TableCellsIcon className="h-5 w-5 mr-2" />
+                    {table.name} ({table.count})
+                  </Tab>
+                ))}
+                <Tab className={tabClassName}>Relationships</Tab>
+              </Tab.List>
+              <Tab.Panels>
+                {relationalGeneration.previewTables.map((table) => (
+                  <Tab.Panel key={table.name}>
+                    <DataPreviewTable data={table.data} />
+                  </Tab.Panel>
+                ))}
+                <Tab.Panel>
+                  <ForeignKeyPreview summaries={relationalGeneration.foreignKeySummaries} />
+                </Tab.Panel>
+              </Tab.Panels>
+            </Tab.Group>
+          </section>
+        )}
+
+        {!isMultiTable && isPreviewMode && previewDataRows.length > 0 && (
           <section className="space-y-4">
             <header className="flex justify-between items-center">
               <h2 className="text-2xl font-semibold text-white">Data Preview</h2>
@@ -170,6 +316,9 @@ export default function TestDataGeneratorPage() {
                 lineEnding: exportConfig.lineEnding,
                 includeHeader: exportConfig.includeHeader,
                 includeBOM: exportConfig.includeBOM,
+                sql: exportConfig.sql,
+                xml: exportConfig.xml,
+                fields: schema.fields,
               }}
               metadata={generationMetadata}
               isRefreshing={isGenerating}
@@ -180,40 +329,16 @@ export default function TestDataGeneratorPage() {
 
             <Tab.Group>
               <Tab.List className="flex space-x-1 rounded-xl bg-slate-700/50 p-1 mb-4">
-                <Tab
-                  className={({ selected }) =>
-                    `w-full rounded-lg py-2.5 text-sm font-medium leading-5 ${
-                      selected
-                        ? 'bg-blue-600 text-white shadow'
-                        : 'text-slate-300 hover:bg-slate-700/50 hover:text-white'
-                    } flex items-center justify-center`
-                  }
-                >
+                <Tab className={tabClassName}>
                   <TableCellsIcon className="h-5 w-5 mr-2" />
                   Table View
                 </Tab>
-                <Tab
-                  className={({ selected }) =>
-                    `w-full rounded-lg py-2.5 text-sm font-medium leading-5 ${
-                      selected
-                        ? 'bg-blue-600 text-white shadow'
-                        : 'text-slate-300 hover:bg-slate-700/50 hover:text-white'
-                    } flex items-center justify-center`
-                  }
-                >
+                <Tab className={tabClassName}>
                   <CodeBracketIcon className="h-5 w-5 mr-2" />
                   Raw Format ({exportConfig.format})
                 </Tab>
                 {referenceFields.length > 0 && (
-                  <Tab
-                    className={({ selected }) =>
-                      `w-full rounded-lg py-2.5 text-sm font-medium leading-5 ${
-                        selected
-                          ? 'bg-blue-600 text-white shadow'
-                          : 'text-slate-300 hover:bg-slate-700/50 hover:text-white'
-                      } flex items-center justify-center`
-                    }
-                  >
+                  <Tab className={tabClassName}>
                     Relationships
                   </Tab>
                 )}
@@ -230,6 +355,9 @@ export default function TestDataGeneratorPage() {
                       lineEnding: exportConfig.lineEnding,
                       includeHeader: exportConfig.includeHeader,
                       includeBOM: exportConfig.includeBOM,
+                      sql: exportConfig.sql,
+                      xml: exportConfig.xml,
+                      fields: schema.fields,
                     }}
                   />
                 </Tab.Panel>
@@ -244,9 +372,15 @@ export default function TestDataGeneratorPage() {
         )}
 
         <div ref={progressCardRef}>
-          {isGenerating && (
+          {(isGenerating || relationalGeneration.isGenerating) && (
             <div className="flex justify-center items-center p-12 bg-slate-800/70 backdrop-blur-sm rounded-xl border border-slate-700">
-              <DataGeneratorLoading message="Generating test data..." />
+              <DataGeneratorLoading
+                message={
+                  streamProgress
+                    ? `Streaming ${streamProgress.rows.toLocaleString()} of ${streamProgress.total.toLocaleString()} rows...`
+                    : 'Generating test data...'
+                }
+              />
             </div>
           )}
         </div>
@@ -4,25 +4,39 @@ import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { FileUpload } from '../components/FileUpload';
 import { RequirementsInput } from '@/components/RequirementsInput';
 import { TestCaseList } from '@/components/TestCaseList';
-import { TestCase, TestCaseMode, HighLevelTestCase, TestPriorityMode, UploadedFilePayload, FileTokenSummary, GenerationPlanItem, ReviewFeedbackItem, AgenticTelemetry, TestCaseGenerationResponse, AgenticProgressEvent } from '@/lib/types';
+import { TestCase, TestCaseMode, HighLevelTestCase, DetailedTestCase, TestPriorityMode, UploadedFilePayload, FileTokenSummary, GenerationPlanItem, ReviewFeedbackItem, AgenticTelemetry, TestCaseGenerationResponse, AgenticProgressEvent, GenerationSession, GenerationSessionSummary, GenerationSessionUpdate, TraceabilityMatrix, DuplicateCluster, TokenUsage } from '@/lib/types';
 import { LoadingOverlay } from '@/components/ui/LoadingOverlay';
 import { LoadingAnimation } from '@/components/LoadingAnimation';
 import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
 import { Button } from '@/components/ui/Button';
-import { ArrowPathIcon, CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { ArrowPathIcon, CheckCircleIcon, ClockIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
 import { TestCaseModeToggle } from '@/components/TestCaseModeToggle';
 import { NetworkBackground } from '@/components/NetworkBackground';
 import { TestPriorityToggle } from '@/components/TestPriorityToggle';
 import { motion } from 'framer-motion';
+import { v4 as uuidv4 } from 'uuid';
 import Link from 'next/link';
 import { NavigationBar } from '@/components/NavigationBar';
 import { fetchApi, fetchApiStream } from '@/lib/utils/apiClient';
 import { useProviderSettings } from '@/lib/context/ProviderSettingsContext';
 import { QuickModelSwitcher } from '@/components/QuickModelSwitcher';
+import { SessionHistoryPanel } from '@/components/SessionHistoryPanel';
+import { TraceabilityMatrixPanel } from '@/components/TraceabilityMatrixPanel';
+import { Tab } from '@headlessui/react';
+import { ExistingSuiteImport } from '@/components/ExistingSuiteImport';
+import { GenerationStatus } from '@/components/GenerationStatus';
+import { PlanApprovalPanel } from '@/components/PlanApprovalPanel';
+import { buildTraceabilityMatrix } from '@/lib/utils/traceability';
+import { convertDetailedToGherkin, isGherkinTestCase } from '@/lib/utils/gherkin';
 import type { LLMProvider, AgenticDefaults, AgenticModelOverrides } from '@/lib/types/providers';
 import { DEFAULT_AGENTIC_DEFAULTS, clampReviewPasses, clampWriterConcurrency } from '@/lib/providerSettings';
 
-const VALID_PROVIDERS: LLMProvider[] = ['openai', 'gemini', 'openrouter'];
+const resultTabClassName = ({ selected }: { selected: boolean }) =>
+  `rounded-lg px-4 py-2 text-sm font-medium leading-5 transition-colors ${
+    selected ? 'bg-blue-600 text-white shadow' : 'text-blue-200/80 hover:bg-white/10 hover:text-blue-50'
+  }`;
+
+const VALID_PROVIDERS: LLMProvider[] = ['openai', 'gemini', 'openrouter', 'local', 'anthropic', 'azure'];
 
 const isValidProviderId = (value: any): value is LLMProvider =>
   VALID_PROVIDERS.includes(value);
@@ -62,7 +76,10 @@ export default function Home() {
   const [fileContent, setFileContent] = useState('');
   const [highLevelTestCases, setHighLevelTestCases] = useState<TestCase[]>([]);
   const [detailedTestCases, setDetailedTestCases] = useState<TestCase[]>([]);
+  const [gherkinTestCases, setGherkinTestCases] = useState<TestCase[]>([]);
   const [convertedTestCases, setConvertedTestCases] = useState<TestCase[]>([]);
+  const [existingTestCases, setExistingTestCases] = useState<TestCase[]>([]);
+  const [existingSuiteName, setExistingSuiteName] = useState<string | null>(null);
   const [selectedTestCases, setSelectedTestCases] = useState<Set<string>>(new Set());
   const [convertedScenarioIds, setConvertedScenarioIds] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
@@ -86,6 +103,19 @@ export default function Home() {
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
   const [confirmationType, setConfirmationType] = useState<'new_session' | null>(null);
   const [shouldResetFiles, setShouldResetFiles] = useState(false);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  // Sessions store one mode's cases; edits made after switching mode must not overwrite them.
+  const [activeSessionMode, setActiveSessionMode] = useState<TestCaseMode | null>(null);
+  const [sessionHistory, setSessionHistory] = useState<GenerationSessionSummary[]>([]);
+  const [isHistoryVisible, setIsHistoryVisible] = useState(false);
+  const [historyStatus, setHistoryStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [restoredFiles, setRestoredFiles] = useState<GenerationSession['files']>([]);
+  // Set when an agentic run was cancelled or left plan slices unwritten; resuming reuses its checkpoint.
+  const [resumableRun, setResumableRun] = useState<{ runId: string; reason: string } | null>(null);
+  // Planner output held for editing when "review plan first" is on; approving it starts the writer stage.
+  const [pendingPlan, setPendingPlan] = useState<{ runId: string; plan: GenerationPlanItem[] } | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
   const agenticEnabled = true;
 
   const baseSelection = encodeModelSelection(settings.testCases.provider, settings.testCases.model);
@@ -145,6 +175,9 @@ export default function Home() {
       agenticDefaults.writerConcurrency ?? DEFAULT_AGENTIC_DEFAULTS.writerConcurrency ?? 1
     )
   );
+  const [reviewPlanFirst, setReviewPlanFirst] = useState<boolean>(
+    () => agenticDefaults.reviewPlanFirst ?? DEFAULT_AGENTIC_DEFAULTS.reviewPlanFirst ?? false
+  );
   const persistAgenticDefaults = useCallback((patch: Partial<AgenticDefaults>) => {
     const mergedOverrides: AgenticModelOverrides = {
       ...(agenticDefaults.overrides ?? {}),
@@ -177,6 +210,8 @@ export default function Home() {
   }, [persistAgenticDefaults]);
   const [generationPlan, setGenerationPlan] = useState<GenerationPlanItem[]>([]);
   const [reviewFeedback, setReviewFeedback] = useState<ReviewFeedbackItem[]>([]);
+  const [generationTraceability, setGenerationTraceability] = useState<TraceabilityMatrix | null>(null);
+  const [duplicateClusters, setDuplicateClusters] = useState<DuplicateCluster[]>([]);
   const [generationWarnings, setGenerationWarnings] = useState<string[]>([]);
   const [generationTelemetry, setGenerationTelemetry] = useState<AgenticTelemetry | null>(null);
   const [showPlanDetails, setShowPlanDetails] = useState(false);
@@ -265,6 +300,7 @@ export default function Home() {
         agenticDefaults.writerConcurrency ?? DEFAULT_AGENTIC_DEFAULTS.writerConcurrency ?? 1
       )
     );
+    setReviewPlanFirst(agenticDefaults.reviewPlanFirst ?? DEFAULT_AGENTIC_DEFAULTS.reviewPlanFirst ?? false);
   }, [agenticDefaults]);
 
   const providerLabelMap = useMemo(() => {
@@ -367,6 +403,14 @@ export default function Home() {
     return `${(ms / 1000).toFixed(1)} s`;
   };
 
+  const formatUsage = (usage?: TokenUsage) => {
+    if (!usage) {
+      return '—';
+    }
+    const tokens = `${usage.totalTokens.toLocaleString()} tokens`;
+    return usage.costUsd === undefined ? tokens : `${tokens} · $${usage.costUsd.toFixed(4)}`;
+  };
+
   const { rows: stageRows, overallProgress } = useMemo(() => {
     type StageRow = {
       key: string;
@@ -742,10 +786,31 @@ export default function Home() {
   }, [uploadedFiles]);
 
   // Helper to get current test cases based on mode
-  const getCurrentTestCases = () => testCaseMode === 'high-level' ? highLevelTestCases : detailedTestCases;
+  const getCurrentTestCases = () => {
+    if (testCaseMode === 'high-level') return highLevelTestCases;
+    return testCaseMode === 'gherkin' ? gherkinTestCases : detailedTestCases;
+  };
+
+  // Recompute coverage from the current cases so edits and restored sessions stay in sync with the matrix.
+  const traceabilityMatrix = useMemo(() => {
+    if (!generationTraceability) {
+      return null;
+    }
+    const currentCases = testCaseMode === 'high-level'
+      ? highLevelTestCases
+      : testCaseMode === 'gherkin' ? gherkinTestCases : detailedTestCases;
+    return buildTraceabilityMatrix(generationTraceability.requirements, currentCases);
+  }, [generationTraceability, testCaseMode, highLevelTestCases, detailedTestCases, gherkinTestCases]);
+
+  const showPlanTab = generationPlan.length > 0 && !pendingPlan;
+  const showReviewTab = reviewFeedback.length > 0;
+  const showTraceabilityTab = Boolean(traceabilityMatrix && traceabilityMatrix.requirements.length > 0);
+
   const setCurrentTestCases = (testCases: TestCase[]) => {
     if (testCaseMode === 'high-level') {
       setHighLevelTestCases(testCases);
+    } else if (testCaseMode === 'gherkin') {
+      setGherkinTestCases(testCases);
     } else {
       setDetailedTestCases(testCases);
     }
@@ -756,7 +821,10 @@ export default function Home() {
     setFileContent('');
     setHighLevelTestCases([]);
     setDetailedTestCases([]);
+    setGherkinTestCases([]);
     setConvertedTestCases([]);
+    setExistingTestCases([]);
+    setExistingSuiteName(null);
     setSelectedTestCases(new Set());
     setConvertedScenarioIds(new Set());
     setError(null);
@@ -770,11 +838,110 @@ export default function Home() {
     setShouldResetFiles(true);
     setGenerationPlan([]);
     setReviewFeedback([]);
+    setGenerationTraceability(null);
+    setDuplicateClusters([]);
     setGenerationWarnings([]);
     setGenerationTelemetry(null);
     setShowPlanDetails(false);
     setShowTelemetryDetails(false);
     setShowReviewDetails(false);
+    setActiveSessionId(null);
+    setActiveSessionMode(null);
+    setResumableRun(null);
+    setPendingPlan(null);
+    setRestoredFiles([]);
+  };
+
+  const refreshSessionHistory = useCallback(async () => {
+    setHistoryStatus('loading');
+    setHistoryError(null);
+    try {
+      const response = await fetchApi<{ sessions: GenerationSessionSummary[] }>('/api/generation-sessions');
+      setSessionHistory(response.sessions ?? []);
+      setHistoryStatus('ready');
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : 'Failed to load session history');
+      setHistoryStatus('error');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isHistoryVisible) {
+      refreshSessionHistory();
+    }
+  }, [isHistoryVisible, refreshSessionHistory]);
+
+  const persistSessionUpdate = useCallback(async (update: GenerationSessionUpdate, sessionId = activeSessionId) => {
+    if (!sessionId) {
+      return;
+    }
+    try {
+      const response = await fetchApi<{ session: GenerationSession }>(`/api/generation-sessions/${encodeURIComponent(sessionId)}`, {
+        method: 'PATCH',
+        body: JSON.stringify(update),
+      });
+      if (update.title) {
+        setSessionHistory((prev) => prev.map((entry) => (
+          entry.id === sessionId ? { ...entry, title: response.session.title, updatedAt: response.session.updatedAt } : entry
+        )));
+      }
+    } catch (err) {
+      console.warn('[Client] Failed to update generation session', { sessionId, err });
+    }
+  }, [activeSessionId]);
+
+  const handleOpenSession = async (sessionId: string) => {
+    try {
+      setError(null);
+      const { session } = await fetchApi<{ session: GenerationSession }>(`/api/generation-sessions/${encodeURIComponent(sessionId)}`);
+      const { options, response } = session;
+      const restoredMode: TestCaseMode = options.mode === 'high-level' || options.mode === 'gherkin' ? options.mode : 'detailed';
+
+      setRequirements(session.requirements);
+      setFileContent('');
+      setUploadedFiles([]);
+      setPreparedFilePayloads([]);
+      setShouldResetFiles(true);
+      setRestoredFiles(session.files ?? []);
+      setTestCaseMode(restoredMode);
+      setTestPriorityMode(options.priorityMode ?? 'comprehensive');
+      setHighLevelTestCases(restoredMode === 'high-level' ? response.testCases ?? [] : []);
+      setDetailedTestCases(restoredMode === 'detailed' ? response.testCases ?? [] : []);
+      setGherkinTestCases(restoredMode === 'gherkin' ? response.testCases ?? [] : []);
+      setConvertedTestCases(session.convertedTestCases ?? []);
+      setConvertedScenarioIds(new Set(session.convertedScenarioIds ?? []));
+      setSelectedTestCases(new Set());
+      setGenerationPlan(response.plan ?? []);
+      setReviewFeedback(response.reviewFeedback ?? []);
+      setGenerationTraceability(response.traceability ?? null);
+      setDuplicateClusters(response.duplicateClusters ?? []);
+      setGenerationWarnings(response.warnings ?? []);
+      setGenerationTelemetry(response.telemetry ?? null);
+      setShowPlanDetails(false);
+      setShowTelemetryDetails(false);
+      setShowReviewDetails(false);
+      setActiveSessionId(session.id);
+      setActiveSessionMode(restoredMode);
+      setGenerationStep('complete');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open saved session');
+    }
+  };
+
+  const handleRenameSession = (sessionId: string, title: string) => {
+    persistSessionUpdate({ title }, sessionId);
+  };
+
+  const handleDeleteSession = async (sessionId: string) => {
+    try {
+      await fetchApi(`/api/generation-sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+      setSessionHistory((prev) => prev.filter((entry) => entry.id !== sessionId));
+      if (sessionId === activeSessionId) {
+        setActiveSessionId(null);
+      }
+    } catch (err) {
+      setHistoryError(err instanceof Error ? err.message : 'Failed to delete session');
+    }
   };
 
   const handleNewSession = () => {
@@ -885,6 +1052,7 @@ export default function Home() {
       maxReviewPasses: clampReviewPasses(reviewPasses),
       chunkStrategy: 'auto',
       writerConcurrency: clampWriterConcurrency(writerConcurrency),
+      reviewPlanFirst,
       streamProgress: true,
     } as const;
   }, [
@@ -892,6 +1060,7 @@ export default function Home() {
     plannerModelSelection,
     reviewerModelSelection,
     reviewPasses,
+    reviewPlanFirst,
     settings.testCases.model,
     settings.testCases.provider,
     writerConcurrency,
@@ -993,13 +1162,25 @@ export default function Home() {
     }
   };
 
-  const generateTestCases = async (manualRequirements: string) => {
+  const generateTestCases = async (
+    manualRequirements: string,
+    runOptions: { runId?: string; resume?: boolean; approvedPlan?: GenerationPlanItem[] } = {}
+  ) => {
+    const runId = runOptions.runId ?? uuidv4();
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    const agenticOptions = buildAgenticOptions();
+
     try {
       setError(null);
+      setResumableRun(null);
+      setPendingPlan(null);
       setIsGenerating(true);
       setGenerationWarnings([]);
       setGenerationPlan([]);
       setReviewFeedback([]);
+      setGenerationTraceability(null);
+      setDuplicateClusters([]);
       setGenerationTelemetry(null);
       setShowPlanDetails(false);
       setShowTelemetryDetails(false);
@@ -1010,7 +1191,6 @@ export default function Home() {
         setConvertedScenarioIds(new Set());
       }
 
-      const agenticOptions = buildAgenticOptions();
       const shouldStream = Boolean(agenticOptions?.streamProgress);
       const normalizedPasses = agenticOptions?.maxReviewPasses ?? 0;
       const initialConcurrency = agenticOptions?.writerConcurrency ?? 1;
@@ -1061,11 +1241,16 @@ export default function Home() {
         provider: settings.testCases.provider,
         model: settings.testCases.model,
         agenticOptions,
+        existingTestCases: existingTestCases.length ? existingTestCases : undefined,
+        runId,
+        resume: Boolean(runOptions.resume),
+        approvedPlan: runOptions.approvedPlan,
       };
 
       const requestInit: RequestInit = {
         method: 'POST',
         body: JSON.stringify(requestPayload),
+        signal: abortController.signal,
       };
 
       const applyFinalResult = (result: TestCaseGenerationResponse) => {
@@ -1077,6 +1262,13 @@ export default function Home() {
           setPlannerProgress({ started: true, completed: true, planItems: result.plan.length });
         }
 
+        if (result.awaitingPlanApproval) {
+          setPendingPlan({ runId: result.runId ?? runId, plan: result.plan ?? [] });
+          setGenerationTelemetry(result.telemetry ?? null);
+          setGenerationStep('idle');
+          return;
+        }
+
         if (result.telemetry?.writerSlices) {
           const completedSlices = result.telemetry.writerSlices.length;
           setWriterProgress((prev) => ({
@@ -1115,11 +1307,26 @@ export default function Home() {
         setCurrentTestCases(result.testCases ?? []);
         setGenerationPlan(result.plan ?? []);
         setReviewFeedback(result.reviewFeedback ?? []);
+        setGenerationTraceability(result.traceability ?? null);
+        setDuplicateClusters(result.duplicateClusters ?? []);
         setGenerationWarnings(result.warnings ?? []);
         setGenerationTelemetry(result.telemetry ?? null);
+        if (result.incompleteSliceIds?.length) {
+          const count = result.incompleteSliceIds.length;
+          setResumableRun({
+            runId: result.runId ?? runId,
+            reason: `${count} plan ${count === 1 ? 'slice was' : 'slices were'} not written.`,
+          });
+        }
         setShowPlanDetails(false);
         setShowTelemetryDetails(false);
         setShowReviewDetails(false);
+        setActiveSessionId(result.sessionId ?? null);
+        setActiveSessionMode(testCaseMode);
+        setRestoredFiles([]);
+        if (isHistoryVisible) {
+          refreshSessionHistory();
+        }
 
         setGenerationStep('finalizing');
         setGenerationStep('complete');
@@ -1333,14 +1540,39 @@ export default function Home() {
         applyFinalResult(result);
       }
     } catch (error) {
-      console.error('Generation error:', error);
-      setError(error instanceof Error ? error.message : 'Failed to generate test cases');
+      const message = error instanceof Error ? error.message : 'Failed to generate test cases';
+      if (abortController.signal.aborted) {
+        console.log('[Client] Generation cancelled');
+      } else {
+        console.error('Generation error:', error);
+        setError(message);
+      }
+      if (agenticOptions?.enableAgentic) {
+        setResumableRun({ runId, reason: abortController.signal.aborted ? 'Generation cancelled.' : message });
+      }
       setGenerationStep('idle');
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const handleCancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  const handleResumeGeneration = () => {
+    if (resumableRun) {
+      generateTestCases(requirements, { runId: resumableRun.runId, resume: true });
+    }
+  };
+
+  const handleApprovePlan = (plan: GenerationPlanItem[]) => {
+    if (pendingPlan) {
+      generateTestCases(requirements, { runId: pendingPlan.runId, approvedPlan: plan });
+    }
+  };
+
   const handleRequirementsSubmit = (manualRequirements: string) => {
     setRequirements(manualRequirements);
     generateTestCases(manualRequirements);
@@ -1352,6 +1584,26 @@ export default function Home() {
 
   const handleTestCaseUpdate = (updatedTestCases: TestCase[]) => {
     setCurrentTestCases(updatedTestCases);
+    if (testCaseMode === activeSessionMode) {
+      persistSessionUpdate({ testCases: updatedTestCases });
+    }
+  };
+
+  const handleConvertToGherkin = () => {
+    const sourceCases = detailedTestCases.filter(
+      (tc): tc is DetailedTestCase => !('scenario' in tc) && !isGherkinTestCase(tc)
+    );
+    if (sourceCases.length === 0) return;
+
+    setGherkinTestCases(sourceCases.map((tc, index) =>
+      convertDetailedToGherkin(tc, `GH-${String(index + 1).padStart(3, '0')}`)
+    ));
+    handleModeChange('gherkin');
+  };
+
+  const handleConvertedUpdate = (updatedTestCases: TestCase[]) => {
+    setConvertedTestCases(updatedTestCases);
+    persistSessionUpdate({ convertedTestCases: updatedTestCases });
   };
 
   const handleSelectTestCase = (id: string, selected: boolean) => {
@@ -1424,6 +1676,7 @@ export default function Home() {
           provider: settings.testCases.provider,
           model: settings.testCases.model,
           agenticOptions,
+          existingTestCases: existingTestCases.length ? existingTestCases : undefined,
         })
       });
 
@@ -1488,17 +1741,21 @@ export default function Home() {
             ...tc,
             id: nextId(),
             area: originalScenario?.area || tc.area || 'General',
+            requirementIds: tc.requirementIds ?? originalScenario?.requirementIds,
             originalScenarioId: originalScenario?.id
           };
         });
 
-        setConvertedTestCases(prev => [...prev, ...newTestCases]);
-        
+        const nextConvertedTestCases = [...convertedTestCases, ...newTestCases];
+        const nextConvertedScenarioIds = new Set(convertedScenarioIds);
+        selectedScenarios.forEach(scenario => nextConvertedScenarioIds.add(scenario.id));
+
+        setConvertedTestCases(nextConvertedTestCases);
         // Mark these scenarios as converted
-        setConvertedScenarioIds(prev => {
-          const newSet = new Set(prev);
-          selectedScenarios.forEach(scenario => newSet.add(scenario.id));
-          return newSet;
+        setConvertedScenarioIds(nextConvertedScenarioIds);
+        persistSessionUpdate({
+          convertedTestCases: nextConvertedTestCases,
+          convertedScenarioIds: Array.from(nextConvertedScenarioIds),
         });
       }
       setGenerationStep('finalizing');
@@ -1541,23 +1798,32 @@ export default function Home() {
               {/* Top row with agent info and new session button */}
               <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
                 <QuickModelSwitcher domain="testCases" />
-                {hasExistingData() && (
+                <div className="flex items-center gap-3">
                   <Button
-                    onClick={handleNewSession}
+                    onClick={() => setIsHistoryVisible((prev) => !prev)}
                     className="group relative flex items-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-blue-100 backdrop-blur-sm rounded-xl px-4 py-2 transition-all duration-200"
                   >
-                    <ArrowPathIcon className="h-4 w-4 group-hover:rotate-180 transition-transform duration-300" />
-                    <span className="relative">
-                      New Session
-                      {getCurrentTestCases().length > 0 && (
-                        <span className="absolute -top-1 -right-2 flex h-2 w-2">
-                          <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-blue-400 opacity-75"></span>
-                          <span className="relative inline-flex rounded-full h-2 w-2 bg-blue-500"></span>
-                        </span>
-                      )}
-                    </span>
+                    <ClockIcon className="h-4 w-4" />
+                    <span>{isHistoryVisible ? 'Hide History' : 'History'}</span>
                   </Button>
-                )}
+                  {hasExistingData() && (
+                    <Button
+                      onClick={handleNewSession}
+                      className="group relative flex items-center gap-2 bg-white/5 hover:bg-white/10 border border-white/10 hover:border-white/20 text-blue-100 backdrop-blur-sm rounded-xl px-4 py-2 transition-all duration-200"
+                    >
+                      <ArrowPathIcon className="h-4 w-4 group-hover:rotate-180 transition-transform duration-300" />
+                      <span className="relative">
+                        New Session
+                        {getCurrentTestCases().length > 0 && (
+                          <span className="absolute -top-1 -right-2 flex h-2 w-2">
+                            <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-blue-400 opacity-75"></span>
+                            <span className="relative inline-flex rounded-full h-2 w-2 bg-blue-500"></span>
+                          </span>
+                        )}
+                      </span>
+                    </Button>
+                  )}
+                </div>
               </div>
 
               {/* Bottom row with generation controls */}
@@ -1579,6 +1845,19 @@ export default function Home() {
           </div>
         </div>
 
+        {isHistoryVisible && (
+          <SessionHistoryPanel
+            sessions={sessionHistory}
+            activeSessionId={activeSessionId}
+            isLoading={historyStatus === 'loading'}
+            error={historyError}
+            onOpen={handleOpenSession}
+            onRename={handleRenameSession}
+            onDelete={handleDeleteSession}
+            onClose={() => setIsHistoryVisible(false)}
+          />
+        )}
+
         <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-xl p-6 sm:p-8 border border-white/20">
           <div className="flex flex-col gap-2">
             <h2 className="text-lg font-semibold text-blue-50">Agentic Workflow</h2>
@@ -1628,6 +1907,22 @@ export default function Home() {
               <p className="mt-1 text-[0.7rem] text-blue-200/60">Increase to run multiple slices in parallel when you expect large plans.</p>
             </div>
 
+            <div className="md:col-span-2">
+              <label className="flex items-center gap-2 text-sm text-blue-100 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reviewPlanFirst}
+                  onChange={(event) => {
+                    setReviewPlanFirst(event.target.checked);
+                    persistAgenticDefaults({ reviewPlanFirst: event.target.checked });
+                  }}
+                  className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                />
+                Review plan first
+              </label>
+              <p className="mt-1 text-[0.7rem] text-blue-200/60">Pause after the planner so you can edit, remove, or add plan items before any test cases are written.</p>
+            </div>
+
             <div>
               <label className="block text-xs font-semibold uppercase tracking-wide text-blue-200/80 mb-2">
                 Planner model override
@@ -1733,6 +2028,11 @@ export default function Home() {
                   tokenStatus={fileTokenStatus}
                   tokenError={fileTokenError}
                 />
+                {uploadedFiles.length === 0 && restoredFiles.length > 0 && (
+                  <p className="text-xs text-blue-200/70 mt-4">
+                    Restored session used: {restoredFiles.map((file) => file.name).join(', ')}. Re-upload the files to regenerate with them.
+                  </p>
+                )}
                 {uploadedFiles.length > 0 && (
                   <div className="flex items-center text-sm text-blue-100 mt-4">
                     <svg className="w-5 h-5 mr-2 text-green-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1751,6 +2051,18 @@ export default function Home() {
                     </span>
                   </div>
                 )}
+                <ExistingSuiteImport
+                  testCases={existingTestCases}
+                  sourceName={existingSuiteName}
+                  onImport={(testCases, sourceName) => {
+                    setExistingTestCases(testCases);
+                    setExistingSuiteName(sourceName);
+                  }}
+                  onClear={() => {
+                    setExistingTestCases([]);
+                    setExistingSuiteName(null);
+                  }}
+                />
               </div>
 
               <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-xl p-6 sm:p-8 transition-all duration-300 hover:shadow-2xl border border-white/20">
@@ -1813,90 +2125,122 @@ export default function Home() {
             </div>
           )}
 
-          {generationPlan.length > 0 && (
+          {pendingPlan && (
+            <PlanApprovalPanel
+              key={pendingPlan.runId}
+              plan={pendingPlan.plan}
+              isSubmitting={isGenerating}
+              onApprove={handleApprovePlan}
+              onDiscard={() => setPendingPlan(null)}
+            />
+          )}
+
+          {(showPlanTab || showReviewTab || showTraceabilityTab) && (
             <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-xl p-6 sm:p-8 border border-white/20">
-              <div className="flex items-center justify-between flex-wrap gap-3">
-                <div>
-                  <h3 className="text-lg font-semibold text-blue-50">Planner Output</h3>
-                  <p className="text-xs text-blue-200/70">{generationPlan.length} coverage segments</p>
-                </div>
-                <button
-                  type="button"
-                  onClick={() => setShowPlanDetails((prev) => !prev)}
-                  className="text-xs font-semibold text-blue-200 hover:text-blue-100 border border-white/20 rounded-full px-3 py-1 transition-colors"
-                >
-                  {showPlanDetails ? 'Hide details' : 'Show details'}
-                </button>
-              </div>
-              {showPlanDetails && (
-                <div className="mt-4 grid gap-4 md:grid-cols-2">
-                  {generationPlan.map((item) => (
-                    <div key={item.id} className="rounded-xl border border-white/10 bg-white/5 p-4 space-y-2">
-                      <div className="flex items-center justify-between gap-3">
+              <Tab.Group>
+                <Tab.List className="flex flex-wrap gap-1 rounded-xl bg-white/5 p-1 mb-4">
+                  {showPlanTab && <Tab className={resultTabClassName}>Plan</Tab>}
+                  {showReviewTab && <Tab className={resultTabClassName}>Review</Tab>}
+                  {showTraceabilityTab && <Tab className={resultTabClassName}>Traceability</Tab>}
+                </Tab.List>
+                <Tab.Panels>
+                  {showPlanTab && (
+                    <Tab.Panel>
+                      <div className="flex items-center justify-between flex-wrap gap-3">
                         <div>
-                          <p className="text-sm font-semibold text-blue-50">{item.title}</p>
-                          <p className="text-xs text-blue-200/70">Area: {item.area}</p>
+                          <h3 className="text-lg font-semibold text-blue-50">Planner Output</h3>
+                          <p className="text-xs text-blue-200/70">{generationPlan.length} coverage segments</p>
                         </div>
-                        {item.estimatedCases && (
-                          <span className="text-xs font-medium text-blue-100 bg-blue-500/20 border border-blue-500/30 rounded-full px-3 py-1">
-                            ~{item.estimatedCases} cases
-                          </span>
-                        )}
+                        <button
+                          type="button"
+                          onClick={() => setShowPlanDetails((prev) => !prev)}
+                          className="text-xs font-semibold text-blue-200 hover:text-blue-100 border border-white/20 rounded-full px-3 py-1 transition-colors"
+                        >
+                          {showPlanDetails ? 'Hide details' : 'Show details'}
+                        </button>
                       </div>
-                      {item.focus && (
-                        <p className="text-sm text-blue-100/90">
-                          <span className="font-medium text-blue-200">Focus:</span> {item.focus}
-                        </p>
-                      )}
-                      {item.notes && (
-                        <p className="text-xs text-blue-200/70">{item.notes}</p>
-                      )}
-                      {item.chunkRefs && item.chunkRefs.length > 0 && (
-                        <p className="text-xs text-blue-200/60">
-                          References: {item.chunkRefs.join(', ')}
-                        </p>
+                      {showPlanDetails && (
+                        <div className="mt-4 grid gap-4 md:grid-cols-2">
+                          {generationPlan.map((item) => (
+                            <div key={item.id} className="rounded-xl border border-white/10 bg-white/5 p-4 space-y-2">
+                              <div className="flex items-center justify-between gap-3">
+                                <div>
+                                  <p className="text-sm font-semibold text-blue-50">{item.title}</p>
+                                  <p className="text-xs text-blue-200/70">Area: {item.area}</p>
+                                </div>
+                                {item.estimatedCases && (
+                                  <span className="text-xs font-medium text-blue-100 bg-blue-500/20 border border-blue-500/30 rounded-full px-3 py-1">
+                                    ~{item.estimatedCases} cases
+                                  </span>
+                                )}
+                              </div>
+                              {item.focus && (
+                                <p className="text-sm text-blue-100/90">
+                                  <span className="font-medium text-blue-200">Focus:</span> {item.focus}
+                                </p>
+                              )}
+                              {item.notes && (
+                                <p className="text-xs text-blue-200/70">{item.notes}</p>
+                              )}
+                              {item.chunkRefs && item.chunkRefs.length > 0 && (
+                                <p className="text-xs text-blue-200/60">
+                                  References: {item.chunkRefs.join(', ')}
+                                </p>
+                              )}
+                            </div>
+                          ))}
+                        </div>
                       )}
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
-          )}
+                    </Tab.Panel>
+                  )}
 
-          {reviewFeedback.length > 0 && (
-            <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-xl p-6 sm:p-8 border border-white/20">
-              <div className="flex items-center justify-between flex-wrap gap-3">
-                <div>
-                  <h3 className="text-lg font-semibold text-blue-50">Reviewer Feedback</h3>
-                  <p className="text-xs text-blue-200/70">{reviewFeedback.length} issues flagged</p>
-                </div>
-                <button
-                  type="button"
-                  onClick={() => setShowReviewDetails((prev) => !prev)}
-                  className="text-xs font-semibold text-blue-200 hover:text-blue-100 border border-white/20 rounded-full px-3 py-1 transition-colors"
-                >
-                  {showReviewDetails ? 'Hide details' : 'Show details'}
-                </button>
-              </div>
-              {showReviewDetails && (
-                <div className="mt-4 space-y-3">
-                  {reviewFeedback.map((item, index) => (
-                    <div key={`${item.caseId}-${index}`} className="rounded-xl border border-white/10 bg-white/5 p-4">
-                      <div className="flex items-center justify-between gap-3">
-                        <p className="text-sm font-semibold text-blue-50">Case {item.caseId}</p>
-                        <span className={`text-xs font-semibold tracking-wide rounded-full border px-3 py-1 ${severityStyles[item.severity] ?? severityStyles.info}`}>
-                          {item.severity.toUpperCase()}
-                        </span>
+                  {showReviewTab && (
+                    <Tab.Panel>
+                      <div className="flex items-center justify-between flex-wrap gap-3">
+                        <div>
+                          <h3 className="text-lg font-semibold text-blue-50">Reviewer Feedback</h3>
+                          <p className="text-xs text-blue-200/70">{reviewFeedback.length} issues flagged</p>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={() => setShowReviewDetails((prev) => !prev)}
+                          className="text-xs font-semibold text-blue-200 hover:text-blue-100 border border-white/20 rounded-full px-3 py-1 transition-colors"
+                        >
+                          {showReviewDetails ? 'Hide details' : 'Show details'}
+                        </button>
                       </div>
-                      <p className="mt-2 text-sm text-blue-100">{item.summary}</p>
-                      <p className="mt-2 text-xs text-blue-200/70">
-                        <span className="font-semibold text-blue-200">Suggestion:</span> {item.suggestion}
-                      </p>
-                      <p className="mt-2 text-xs text-blue-200/60">Tag: {item.issueType}</p>
-                    </div>
-                  ))}
-                </div>
-              )}
+                      {showReviewDetails && (
+                        <div className="mt-4 space-y-3">
+                          {reviewFeedback.map((item, index) => (
+                            <div key={`${item.caseId}-${index}`} className="rounded-xl border border-white/10 bg-white/5 p-4">
+                              <div className="flex items-center justify-between gap-3">
+                                <p className="text-sm font-semibold text-blue-50">Case {item.caseId}</p>
+                                <span className={`text-xs font-semibold tracking-wide rounded-full border px-3 py-1 ${severityStyles[item.severity] ?? severityStyles.info}`}>
+                                  {item.severity.toUpperCase()}
+                                </span>
+                              </div>
+                              <p className="mt-2 text-sm text-blue-100">{item.summary}</p>
+                              <p className="mt-2 text-xs text-blue-200/70">
+                                <span className="font-semibold text-blue-200">Suggestion:</span> {item.suggestion}
+                              </p>
+                              <p className="mt-2 text-xs text-blue-200/60">
+                                Tag: {item.issueType}
+                                {item.ruleId ? ` · Rule ${item.ruleId}` : ''}
+                              </p>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </Tab.Panel>
+                  )}
+
+                  {showTraceabilityTab && traceabilityMatrix && (
+                    <Tab.Panel>
+                      <TraceabilityMatrixPanel matrix={traceabilityMatrix} />
+                    </Tab.Panel>
+                  )}
+                </Tab.Panels>
+              </Tab.Group>
             </div>
           )}
 
@@ -1954,6 +2298,14 @@ export default function Home() {
                       <dt className="text-blue-200/70">Passes executed</dt>
                       <dd className="font-semibold">{generationTelemetry.reviewPasses?.map((pass) => pass.pass).join(', ') || '—'}</dd>
                     </div>
+                    <div>
+                      <dt className="text-blue-200/70">Planner usage</dt>
+                      <dd className="font-semibold">{formatUsage(generationTelemetry.plannerUsage)}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-blue-200/70">Total usage</dt>
+                      <dd className="font-semibold">{formatUsage(generationTelemetry.usage)}</dd>
+                    </div>
                   </dl>
 
                   {(generationTelemetry.writerSlices?.length ?? 0) > 0 && (
@@ -1966,7 +2318,10 @@ export default function Home() {
                               <span className="font-semibold text-blue-100">{slice.planId}</span>
                               <span>{formatDuration(slice.durationMs)}</span>
                             </div>
-                            <p className="mt-1">{slice.caseCount} cases generated</p>
+                            <p className="mt-1">
+                              {slice.caseCount} cases {slice.restored ? 'restored from checkpoint' : 'generated'}
+                              {slice.usage ? ` · ${formatUsage(slice.usage)}` : ''}
+                            </p>
                             {slice.warnings && slice.warnings.length > 0 && (
                               <p className="mt-1 text-[0.7rem] text-amber-200">{slice.warnings.join(' ')}</p>
                             )}
@@ -1983,7 +2338,11 @@ export default function Home() {
                         {generationTelemetry.reviewPasses?.map((pass) => (
                           <li key={pass.pass} className="rounded-lg border border-white/10 bg-white/5 px-3 py-2 flex items-center justify-between">
                             <span className="font-semibold text-blue-100">Pass {pass.pass}</span>
-                            <span>{pass.feedbackCount} notes · {pass.blockingCount} blocking · {formatDuration(pass.durationMs)}</span>
+                            <span>
+                              {pass.feedbackCount} notes · {pass.blockingCount} blocking · {formatDuration(pass.durationMs)}
+                              {pass.usage ? ` · ${formatUsage(pass.usage)}` : ''}
+                              {pass.revisionUsage ? ` · revision ${formatUsage(pass.revisionUsage)}` : ''}
+                            </span>
                           </li>
                         ))}
                       </ul>
@@ -2000,6 +2359,13 @@ export default function Home() {
             </div>
           )}
 
+          <GenerationStatus
+            isGenerating={isGenerating}
+            onCancel={handleCancelGeneration}
+            resumeMessage={resumableRun?.reason}
+            onResume={resumableRun ? handleResumeGeneration : undefined}
+          />
+
           {generationStep === 'complete' && getCurrentTestCases().length > 0 && (
             <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-xl p-8 border border-white/20 animate-fade-in">
               <TestCaseList
@@ -2011,8 +2377,12 @@ export default function Home() {
                 onSelectTestCase={testCaseMode === 'high-level' ? handleSelectTestCase : undefined}
                 selectedTestCases={selectedTestCases}
                 onConvertSelected={testCaseMode === 'high-level' ? handleConvertSelected : undefined}
+                onConvertToGherkin={testCaseMode === 'detailed' ? handleConvertToGherkin : undefined}
                 convertedScenarioIds={convertedScenarioIds}
-                onUpdateConverted={setConvertedTestCases}
+                onUpdateConverted={handleConvertedUpdate}
+                traceability={traceabilityMatrix ?? undefined}
+                duplicateClusters={duplicateClusters}
+                requirements={[fileContent, requirements].filter(Boolean).join('\n\n')}
               />
             </div>
           )}
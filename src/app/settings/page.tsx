@@ -8,6 +8,9 @@ import { LLMProvider } from '@/lib/types/providers';
 import { Button } from '@/components/ui/Button';
 import { PlusIcon, TrashIcon, QueueListIcon } from '@heroicons/react/24/outline';
 import { fetchApi } from '@/lib/utils/apiClient';
+import { AccessTokenManager } from '@/components/AccessTokenManager';
+import { PromptTemplateManager } from '@/components/PromptTemplateManager';
+import { StyleGuideManager } from '@/components/StyleGuideManager';
 
 const DOMAIN_LABELS = {
   testCases: 'Test Case Generator',
@@ -27,9 +30,14 @@ interface UsageSummary {
   byPriority: Record<string, number>;
   providers: Record<string, number>;
   models: Record<string, number>;
+  totalTokens: number;
+  costUsd: number;
+  costByModel: Record<string, number>;
   lastInteraction: string | null;
 }
 
+const formatCost = (value: number) => `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+
 export default function SettingsPage() {
   const {
     settings,
@@ -151,7 +159,7 @@ export default function SettingsPage() {
           <div className="rounded-2xl border border-rose-400/40 bg-rose-400/10 backdrop-blur-lg p-6 text-center">
             <p className="text-sm font-semibold text-rose-100">Admin access required</p>
             <p className="mt-2 text-xs text-rose-200/80">
-              The settings panel is restricted. Switch to the admin access token to manage providers and view usage analytics.
+              The settings panel is restricted. Switch to an access token with the admin role to manage providers and view usage analytics.
             </p>
           </div>
         )}
@@ -224,9 +232,11 @@ export default function SettingsPage() {
                               className={`w-full ${COMPACT_FIELD_CLASS}`}
                             />
                             <p className="mt-1 text-[0.7rem] text-blue-200/60">
-                              {selectedOption?.models?.length
-                                ? 'Start typing to filter live model suggestions.'
-                                : 'Enter the model identifier published by your provider.'}
+                              {selection.provider === 'azure'
+                                ? 'Enter the deployment name from your Azure OpenAI resource.'
+                                : selectedOption?.models?.length
+                                  ? 'Start typing to filter live model suggestions.'
+                                  : 'Enter the model identifier published by your provider.'}
                             </p>
                           </div>
                         </div>
@@ -447,6 +457,14 @@ export default function SettingsPage() {
                             <dt>Total interactions</dt>
                             <dd className="font-semibold">{selectedSummary.totalInteractions}</dd>
                           </div>
+                          <div className="flex items-center justify-between">
+                            <dt>Tokens</dt>
+                            <dd className="font-semibold">{(selectedSummary.totalTokens ?? 0).toLocaleString()}</dd>
+                          </div>
+                          <div className="flex items-center justify-between">
+                            <dt>Estimated cost</dt>
+                            <dd className="font-semibold">{formatCost(selectedSummary.costUsd ?? 0)}</dd>
+                          </div>
                           <div className="flex items-center justify-between">
                             <dt>Last activity</dt>
                             <dd>
@@ -482,7 +500,10 @@ export default function SettingsPage() {
                                 .map(([modelId, count]) => (
                                   <li key={modelId} className="flex justify-between">
                                     <span>{modelId}</span>
-                                    <span className="font-semibold">{count}</span>
+                                    <span className="font-semibold">
+                                      {count}
+                                      {selectedSummary.costByModel?.[modelId] ? ` · ${formatCost(selectedSummary.costByModel[modelId])}` : ''}
+                                    </span>
                                   </li>
                                 ))}
                             </ul>
@@ -531,6 +552,12 @@ export default function SettingsPage() {
               )}
             </motion.div>
 
+            <AccessTokenManager />
+
+            <PromptTemplateManager />
+
+            <StyleGuideManager />
+
             <div className="flex items-center justify-between">
               <div className="text-xs text-blue-200/70">
                 Resetting restores each tool to the first available provider and its default model.
@@ -0,0 +1,334 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ClipboardDocumentIcon, KeyIcon, TrashIcon, UserGroupIcon } from '@heroicons/react/24/outline';
+import { AccessTokenSummary, Team, UserRole } from '@/lib/types';
+import { USER_ROLES } from '@/lib/utils/rolePermissions';
+import { fetchApi } from '@/lib/utils/apiClient';
+import { Button } from './ui/Button';
+
+const FIELD_CLASS =
+  'h-10 rounded-xl border border-white/10 bg-slate-900/80 px-3 text-sm text-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const SECONDARY_BUTTON_CLASS = 'border border-white/10 bg-white/10 text-blue-50 hover:bg-white/20';
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never', days: 0 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+];
+
+const tokenStatus = (token: AccessTokenSummary) => {
+  if (token.revokedAt) {
+    return { label: 'Revoked', className: 'bg-rose-500/20 text-rose-200' };
+  }
+  if (token.expiresAt && Date.parse(token.expiresAt) <= Date.now()) {
+    return { label: 'Expired', className: 'bg-amber-500/20 text-amber-200' };
+  }
+  return { label: 'Active', className: 'bg-emerald-500/20 text-emerald-200' };
+};
+
+/** Admin panel for issuing, reassigning, and revoking managed access tokens and the teams they belong to. */
+export function AccessTokenManager() {
+  const [tokens, setTokens] = useState<AccessTokenSummary[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [userIdentifier, setUserIdentifier] = useState('');
+  const [role, setRole] = useState<UserRole>('member');
+  const [teamId, setTeamId] = useState('');
+  const [expiryDays, setExpiryDays] = useState(0);
+  const [teamName, setTeamName] = useState('');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [tokenData, teamData] = await Promise.all([
+        fetchApi<{ tokens: AccessTokenSummary[] }>('/api/admin/tokens'),
+        fetchApi<{ teams: Team[] }>('/api/admin/teams'),
+      ]);
+      setTokens(tokenData.tokens);
+      setTeams(teamData.teams);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load access tokens');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const runAction = async (action: () => Promise<void>) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreateToken = () =>
+    runAction(async () => {
+      const expiresAt = expiryDays ? new Date(Date.now() + expiryDays * 86_400_000).toISOString() : null;
+      const data = await fetchApi<{ token: string; accessToken: AccessTokenSummary }>('/api/admin/tokens', {
+        method: 'POST',
+        body: JSON.stringify({ label, userIdentifier, role, teamId: teamId || null, expiresAt }),
+      });
+      setTokens((prev) => [data.accessToken, ...prev]);
+      setCreatedToken(data.token);
+      setLabel('');
+      setUserIdentifier('');
+    });
+
+  const handleUpdateToken = (id: string, update: Partial<Pick<AccessTokenSummary, 'role' | 'teamId'>>) =>
+    runAction(async () => {
+      const data = await fetchApi<{ accessToken: AccessTokenSummary }>(`/api/admin/tokens/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(update),
+      });
+      setTokens((prev) => prev.map((token) => (token.id === id ? data.accessToken : token)));
+    });
+
+  const handleRevokeToken = (token: AccessTokenSummary) => {
+    if (!window.confirm(`Revoke "${token.label}" for ${token.userIdentifier}? This cannot be undone.`)) {
+      return;
+    }
+    runAction(async () => {
+      const data = await fetchApi<{ accessToken: AccessTokenSummary }>(`/api/admin/tokens/${token.id}`, { method: 'DELETE' });
+      setTokens((prev) => prev.map((existing) => (existing.id === token.id ? data.accessToken : existing)));
+    });
+  };
+
+  const handleCreateTeam = () =>
+    runAction(async () => {
+      const data = await fetchApi<{ team: Team }>('/api/admin/teams', {
+        method: 'POST',
+        body: JSON.stringify({ name: teamName }),
+      });
+      setTeams((prev) => [...prev, data.team].sort((a, b) => a.name.localeCompare(b.name)));
+      setTeamName('');
+    });
+
+  const handleDeleteTeam = (team: Team) =>
+    runAction(async () => {
+      await fetchApi(`/api/admin/teams/${team.id}`, { method: 'DELETE' });
+      setTeams((prev) => prev.filter((existing) => existing.id !== team.id));
+      setTokens((prev) => prev.map((token) => (token.teamId === team.id ? { ...token, teamId: null } : token)));
+      if (teamId === team.id) {
+        setTeamId('');
+      }
+    });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.25 }}
+      className="rounded-2xl border border-white/10 bg-white/5 backdrop-blur-lg p-6"
+    >
+      <div className="flex items-start gap-3">
+        <div className="rounded-full bg-blue-500/20 p-2 text-blue-200">
+          <KeyIcon className="h-6 w-6" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-blue-50">Access tokens</h2>
+          <p className="text-sm text-blue-200/80">
+            Issue tokens per teammate, group them into teams, and revoke them without a redeploy. Viewers are read-only; only admins can open this page.
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-4 rounded-xl border border-rose-400/40 bg-rose-400/10 px-4 py-3 text-sm text-rose-100">{error}</div>
+      )}
+
+      {createdToken && (
+        <div className="mt-4 rounded-xl border border-emerald-400/40 bg-emerald-400/10 px-4 py-3 text-sm text-emerald-100">
+          <p className="font-semibold">Copy this token now; it will not be shown again.</p>
+          <div className="mt-2 flex items-center gap-2">
+            <code className="flex-1 truncate rounded-lg bg-slate-900/80 px-3 py-2 font-mono text-xs">{createdToken}</code>
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(createdToken)}
+              className="p-2 text-emerald-200 hover:text-emerald-100"
+              title="Copy token"
+            >
+              <ClipboardDocumentIcon className="h-5 w-5" />
+            </button>
+            <button type="button" onClick={() => setCreatedToken(null)} className="text-xs text-emerald-200 hover:text-emerald-100">
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6 grid gap-3 md:grid-cols-[1fr_1fr_8rem_10rem_8rem_auto] md:items-center">
+        <input value={label} onChange={(event) => setLabel(event.target.value)} placeholder="Label" className={FIELD_CLASS} />
+        <input
+          value={userIdentifier}
+          onChange={(event) => setUserIdentifier(event.target.value)}
+          placeholder="User identifier"
+          className={FIELD_CLASS}
+        />
+        <select value={role} onChange={(event) => setRole(event.target.value as UserRole)} className={FIELD_CLASS}>
+          {USER_ROLES.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+        <select value={teamId} onChange={(event) => setTeamId(event.target.value)} className={FIELD_CLASS}>
+          <option value="">No team</option>
+          {teams.map((team) => (
+            <option key={team.id} value={team.id}>{team.name}</option>
+          ))}
+        </select>
+        <select value={expiryDays} onChange={(event) => setExpiryDays(Number(event.target.value))} className={FIELD_CLASS}>
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.days} value={option.days}>{option.label}</option>
+          ))}
+        </select>
+        <Button
+          type="button"
+          onClick={handleCreateToken}
+          disabled={!label.trim() || !userIdentifier.trim() || isSubmitting}
+        >
+          Create
+        </Button>
+      </div>
+
+      <div className="mt-6 overflow-x-auto">
+        {loading ? (
+          <p className="text-sm text-blue-200/70">Loading access tokens…</p>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-blue-200/70">No managed tokens yet. Tokens from ACCESS_TOKENS keep working alongside them.</p>
+        ) : (
+          <table className="w-full text-left text-sm text-blue-100">
+            <thead className="text-xs uppercase tracking-wide text-blue-200/60">
+              <tr>
+                <th className="py-2 pr-3">Token</th>
+                <th className="py-2 pr-3">User</th>
+                <th className="py-2 pr-3">Role</th>
+                <th className="py-2 pr-3">Team</th>
+                <th className="py-2 pr-3">Expires</th>
+                <th className="py-2 pr-3">Status</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10">
+              {tokens.map((token) => {
+                const status = tokenStatus(token);
+                const editable = !token.revokedAt;
+                return (
+                  <tr key={token.id}>
+                    <td className="py-2 pr-3">
+                      <div className="font-medium text-blue-50">{token.label}</div>
+                      <div className="font-mono text-xs text-blue-300">{token.tokenPrefix}…</div>
+                    </td>
+                    <td className="py-2 pr-3">{token.userIdentifier}</td>
+                    <td className="py-2 pr-3">
+                      <select
+                        value={token.role}
+                        disabled={!editable || isSubmitting}
+                        onChange={(event) => handleUpdateToken(token.id, { role: event.target.value as UserRole })}
+                        className="rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1 text-xs text-blue-50"
+                      >
+                        {USER_ROLES.map((option) => (
+                          <option key={option} value={option}>{option}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <select
+                        value={token.teamId ?? ''}
+                        disabled={!editable || isSubmitting}
+                        onChange={(event) => handleUpdateToken(token.id, { teamId: event.target.value || null })}
+                        className="rounded-lg border border-white/10 bg-slate-900/80 px-2 py-1 text-xs text-blue-50"
+                      >
+                        <option value="">No team</option>
+                        {teams.map((team) => (
+                          <option key={team.id} value={team.id}>{team.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 pr-3 text-xs">
+                      {token.expiresAt ? new Date(token.expiresAt).toLocaleDateString() : 'Never'}
+                    </td>
+                    <td className="py-2 pr-3">
+                      <span className={`rounded-full px-2 py-0.5 text-xs ${status.className}`}>{status.label}</span>
+                    </td>
+                    <td className="py-2 text-right">
+                      {editable && (
+                        <button
+                          type="button"
+                          onClick={() => handleRevokeToken(token)}
+                          disabled={isSubmitting}
+                          className="text-xs font-medium text-rose-300 hover:text-rose-200"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="mt-8 border-t border-white/10 pt-6">
+        <div className="flex items-center gap-2">
+          <UserGroupIcon className="h-5 w-5 text-blue-200" />
+          <h3 className="text-sm font-semibold text-blue-50">Teams</h3>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2">
+          {teams.map((team) => (
+            <span
+              key={team.id}
+              className="flex items-center gap-1.5 rounded-full border border-white/10 bg-white/10 px-3 py-1 text-xs text-blue-100"
+            >
+              {team.name}
+              <button
+                type="button"
+                onClick={() => handleDeleteTeam(team)}
+                disabled={isSubmitting}
+                className="text-blue-300 hover:text-rose-300"
+                title="Delete team"
+              >
+                <TrashIcon className="h-3.5 w-3.5" />
+              </button>
+            </span>
+          ))}
+          {teams.length === 0 && <span className="text-xs text-blue-200/70">No teams yet.</span>}
+        </div>
+        <div className="mt-3 flex gap-3">
+          <input
+            value={teamName}
+            onChange={(event) => setTeamName(event.target.value)}
+            placeholder="New team name"
+            className={`${FIELD_CLASS} flex-1`}
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            className={SECONDARY_BUTTON_CLASS}
+            onClick={handleCreateTeam}
+            disabled={!teamName.trim() || isSubmitting}
+          >
+            Add team
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { atomDark } from 'react-syntax-highlighter/dist/cjs/styles/prism';
+import { CodeBracketSquareIcon, ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { AutomationFile, AutomationFramework, AutomationGenerationResponse, DetailedTestCase } from '@/lib/types';
+import { Button } from './ui/Button';
+import { cn } from '@/lib/utils';
+import { fetchApi } from '@/lib/utils/apiClient';
+import { useProviderSettings } from '@/lib/context/ProviderSettingsContext';
+
+interface AutomationPanelProps {
+  onClose: () => void;
+  testCases: DetailedTestCase[];
+}
+
+const FRAMEWORK_OPTIONS: Array<{ id: AutomationFramework; label: string; description: string }> = [
+  { id: 'playwright', label: 'Playwright', description: 'Browser UI tests' },
+  { id: 'cypress', label: 'Cypress', description: 'Browser UI tests' },
+  { id: 'jest-supertest', label: 'Jest + supertest', description: 'HTTP API tests' },
+];
+
+/** Mounted only while open, so the selection and results start fresh each time. */
+export function AutomationPanel({ onClose, testCases }: AutomationPanelProps) {
+  const { settings } = useProviderSettings();
+  const [framework, setFramework] = useState<AutomationFramework>('playwright');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set(testCases.map((tc) => tc.id)));
+  const [result, setResult] = useState<AutomationGenerationResponse | null>(null);
+  const [activePath, setActivePath] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const response = await fetchApi<AutomationGenerationResponse>('/api/generate/automation', {
+        method: 'POST',
+        body: JSON.stringify({
+          testCases: testCases.filter((tc) => selectedIds.has(tc.id)),
+          framework,
+          baseUrl,
+          provider: settings.testCases.provider,
+          model: settings.testCases.model,
+        }),
+      });
+      if (response.error) {
+        setError(response.error);
+        return;
+      }
+      setResult(response);
+      setActivePath(response.files[0]?.path ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate automation skeletons');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDownload = async (files: AutomationFile[]) => {
+    try {
+      const { default: JSZip } = await import('jszip');
+      const zip = new JSZip();
+      files.forEach((file) => zip.file(file.path, file.content));
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `${framework}-tests.zip`;
+      link.click();
+    } catch (err) {
+      console.error('Failed to export automation zip:', err);
+      alert('Failed to download the automation files. Please try again.');
+    }
+  };
+
+  const handleCopy = async (file: AutomationFile) => {
+    await navigator.clipboard.writeText(file.content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const activeFile = result?.files.find((file) => file.path === activePath) ?? result?.files[0];
+
+  return (
+    <Transition appear show as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-5xl transform overflow-hidden rounded-2xl bg-slate-900/90 backdrop-blur-lg border border-white/20 p-6 text-left shadow-xl transition-all">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-blue-500/10 rounded-lg border border-blue-500/20">
+                      <CodeBracketSquareIcon className="h-6 w-6 text-blue-300" aria-hidden="true" />
+                    </div>
+                    <div>
+                      <Dialog.Title as="h3" className="text-lg font-medium text-blue-100">
+                        Automate Test Cases
+                      </Dialog.Title>
+                      <p className="text-sm text-blue-300">
+                        One test per case: steps as commented actions, test data as fixtures, expected results as assertions.
+                      </p>
+                    </div>
+                  </div>
+                  <button onClick={onClose} className="p-1.5 text-blue-300 hover:text-blue-100 rounded-md" title="Close">
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </div>
+
+                {!result ? (
+                  <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-4">
+                      <div>
+                        <p className="text-sm font-medium text-blue-100 mb-2">Framework</p>
+                        <div className="grid grid-cols-3 gap-2">
+                          {FRAMEWORK_OPTIONS.map((option) => (
+                            <button
+                              key={option.id}
+                              onClick={() => setFramework(option.id)}
+                              className={cn(
+                                'rounded-xl border px-3 py-2 text-left transition-colors',
+                                framework === option.id
+                                  ? 'border-blue-400/60 bg-blue-500/20 text-white'
+                                  : 'border-white/10 bg-white/5 text-blue-200 hover:bg-white/10'
+                              )}
+                            >
+                              <span className="block text-sm font-medium">{option.label}</span>
+                              <span className="block text-xs text-blue-300">{option.description}</span>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <label className="block">
+                        <span className="text-sm font-medium text-blue-100">Base URL (optional)</span>
+                        <input
+                          value={baseUrl}
+                          onChange={(e) => setBaseUrl(e.target.value)}
+                          placeholder="https://staging.example.com"
+                          className="mt-1 w-full rounded-lg bg-white/5 border border-white/10 px-3 py-2 text-sm text-blue-100 placeholder:text-blue-400/60 focus:outline-none focus:border-blue-400/60"
+                        />
+                      </label>
+                      {error && <p className="text-sm text-red-300">{error}</p>}
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <p className="text-sm font-medium text-blue-100">
+                          Test cases ({selectedIds.size}/{testCases.length})
+                        </p>
+                        <button
+                          onClick={() => setSelectedIds(
+                            selectedIds.size === testCases.length ? new Set() : new Set(testCases.map((tc) => tc.id))
+                          )}
+                          className="text-xs text-blue-300 hover:text-blue-100"
+                        >
+                          {selectedIds.size === testCases.length ? 'Clear all' : 'Select all'}
+                        </button>
+                      </div>
+                      <div className="max-h-64 overflow-y-auto rounded-xl border border-white/10 bg-white/5 divide-y divide-white/5">
+                        {testCases.map((tc) => (
+                          <label key={tc.id} className="flex items-center gap-3 px-3 py-2 text-sm text-blue-100 cursor-pointer hover:bg-white/5">
+                            <input
+                              type="checkbox"
+                              checked={selectedIds.has(tc.id)}
+                              onChange={() => toggleSelected(tc.id)}
+                              className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                            />
+                            <span className="text-blue-300">{tc.id}</span>
+                            <span className="truncate">{tc.title}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mt-6 space-y-4">
+                    {result.warnings?.map((warning) => (
+                      <div key={warning} className="flex items-start gap-2 rounded-xl border border-yellow-500/30 bg-yellow-500/10 px-3 py-2 text-sm text-yellow-100">
+                        <ExclamationTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        <span>{warning}</span>
+                      </div>
+                    ))}
+                    <div className="flex flex-wrap gap-2">
+                      {result.files.map((file) => (
+                        <button
+                          key={file.path}
+                          onClick={() => setActivePath(file.path)}
+                          className={cn(
+                            'rounded-lg px-3 py-1.5 text-xs font-mono transition-colors',
+                            activeFile?.path === file.path
+                              ? 'bg-blue-500/30 text-white'
+                              : 'bg-white/5 text-blue-200 hover:bg-white/10'
+                          )}
+                        >
+                          {file.path}
+                        </button>
+                      ))}
+                    </div>
+                    {activeFile && (
+                      <div className="rounded-xl overflow-hidden">
+                        <SyntaxHighlighter
+                          language={activeFile.path.endsWith('.json') ? 'json' : 'typescript'}
+                          style={atomDark}
+                          customStyle={{
+                            margin: 0,
+                            maxHeight: '28rem',
+                            borderRadius: '0.75rem',
+                            background: 'rgba(15, 23, 42, 0.8)',
+                            border: '1px solid rgba(255, 255, 255, 0.1)'
+                          }}
+                          wrapLongLines={true}
+                        >
+                          {activeFile.content}
+                        </SyntaxHighlighter>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="mt-6 flex justify-end gap-3">
+                  {result ? (
+                    <>
+                      <Button
+                        onClick={() => setResult(null)}
+                        className="bg-white/5 hover:bg-white/10 border-white/10 hover:border-white/20 text-blue-200 hover:text-blue-100"
+                      >
+                        Back
+                      </Button>
+                      {activeFile && (
+                        <Button
+                          onClick={() => handleCopy(activeFile)}
+                          className="bg-white/5 hover:bg-white/10 border-white/10 hover:border-white/20 text-blue-200 hover:text-blue-100"
+                        >
+                          {copied ? 'Copied!' : 'Copy File'}
+                        </Button>
+                      )}
+                      <Button onClick={() => handleDownload(result.files)}>
+                        Download Zip
+                      </Button>
+                    </>
+                  ) : (
+                    <Button onClick={handleGenerate} disabled={isGenerating || selectedIds.size === 0}>
+                      {isGenerating ? 'Generating…' : `Generate ${selectedIds.size} Test${selectedIds.size === 1 ? '' : 's'}`}
+                    </Button>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { ArrowUpTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { TestCase } from '@/lib/types';
+import { importTestCases } from '@/lib/test-case-import';
+
+interface ExistingSuiteImportProps {
+  testCases: TestCase[];
+  sourceName: string | null;
+  onImport: (testCases: TestCase[], sourceName: string) => void;
+  onClear: () => void;
+}
+
+export function ExistingSuiteImport({ testCases, sourceName, onImport, onClear }: ExistingSuiteImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const result = await importTestCases(file);
+      if (!result.testCases.length) {
+        setError(`No test cases found in ${file.name}.`);
+        return;
+      }
+      onImport(result.testCases, file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to import ${file.name}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 border-t border-white/10 pt-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-semibold text-blue-100">Existing Test Suite</h3>
+          <p className="text-xs text-blue-200/70">
+            Import JSON, CSV (incl. TestRail, Xray, qTest) or XLSX so generation only fills gaps and flags duplicates.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={isImporting}
+          className="flex items-center gap-1.5 rounded-lg border border-white/20 bg-white/5 px-3 py-1.5 text-xs font-medium text-blue-100 hover:bg-white/10 disabled:opacity-50"
+        >
+          <ArrowUpTrayIcon className="h-4 w-4" />
+          {isImporting ? 'Importing…' : 'Import'}
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".json,.csv,.xlsx"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+      {testCases.length > 0 && (
+        <div className="mt-3 flex items-center justify-between rounded-lg bg-white/5 border border-white/10 px-3 py-2 text-sm text-blue-100">
+          <span>
+            {testCases.length} existing {testCases.length === 1 ? 'case' : 'cases'}
+            {sourceName ? ` from ${sourceName}` : ''}
+          </span>
+          <button type="button" onClick={onClear} className="text-blue-300 hover:text-blue-100" title="Remove imported suite">
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+      {error && <p className="mt-2 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
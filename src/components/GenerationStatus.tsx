@@ -1,17 +1,22 @@
 'use client';
 
 import { motion, AnimatePresence } from 'framer-motion';
-import { CheckCircleIcon } from '@heroicons/react/24/outline';
+import { ArrowPathIcon, CheckCircleIcon, ExclamationTriangleIcon, StopIcon } from '@heroicons/react/24/outline';
 
 interface GenerationStatusProps {
   isGenerating: boolean;
-  isComplete: boolean;
+  isComplete?: boolean;
+  onCancel?: () => void;
+  resumeMessage?: string | null;
+  onResume?: () => void;
 }
 
-export function GenerationStatus({ isGenerating, isComplete }: GenerationStatusProps) {
+export function GenerationStatus({ isGenerating, isComplete = false, onCancel, resumeMessage, onResume }: GenerationStatusProps) {
+  const canResume = !isGenerating && Boolean(onResume);
+
   return (
     <AnimatePresence>
-      {(isGenerating || isComplete) && (
+      {(isGenerating || isComplete || canResume) && (
         <motion.div
           initial={{ opacity: 0, y: -10 }}
           animate={{ opacity: 1, y: 0 }}
@@ -25,10 +30,36 @@ export function GenerationStatus({ isGenerating, isComplete }: GenerationStatusP
                 animate={{ scale: [1, 1.2, 1] }}
                 transition={{ repeat: Infinity, duration: 1 }}
               />
-              <span className="text-gray-600">Analyzing requirements...</span>
+              <span className="text-blue-200">Analyzing requirements...</span>
+              {onCancel && (
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  className="flex items-center gap-1.5 rounded-lg border border-red-400/30 bg-red-500/10 px-3 py-1.5 text-xs font-medium text-red-200 hover:bg-red-500/20"
+                >
+                  <StopIcon className="h-4 w-4" />
+                  Cancel
+                </button>
+              )}
             </>
           )}
-          {isComplete && (
+          {canResume && (
+            <>
+              <span className="flex items-center text-yellow-200">
+                <ExclamationTriangleIcon className="h-5 w-5 mr-1.5" />
+                {resumeMessage || 'Generation stopped before it finished.'}
+              </span>
+              <button
+                type="button"
+                onClick={onResume}
+                className="flex items-center gap-1.5 rounded-lg border border-white/20 bg-white/5 px-3 py-1.5 text-xs font-medium text-blue-100 hover:bg-white/10"
+              >
+                <ArrowPathIcon className="h-4 w-4" />
+                Resume
+              </button>
+            </>
+          )}
+          {isComplete && !isGenerating && !canResume && (
             <motion.div
               initial={{ opacity: 0 }}
               animate={{ opacity: 1 }}
@@ -42,4 +73,4 @@ export function GenerationStatus({ isGenerating, isComplete }: GenerationStatusP
       )}
     </AnimatePresence>
   );
-} 
\ No newline at end of file
+}
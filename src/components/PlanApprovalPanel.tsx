@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { GenerationPlanItem } from '@/lib/types';
+import { Button } from './ui/Button';
+
+interface PlanApprovalPanelProps {
+  plan: GenerationPlanItem[];
+  isSubmitting?: boolean;
+  onApprove: (plan: GenerationPlanItem[]) => void;
+  onDiscard: () => void;
+}
+
+const INPUT_CLASS =
+  'w-full rounded-lg border border-white/10 bg-slate-900/80 px-3 py-1.5 text-sm text-blue-50 placeholder:text-blue-400/60 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const nextPlanId = (plan: GenerationPlanItem[]) => {
+  const highest = plan.reduce((max, item) => {
+    const match = item.id.match(/(\d+)$/);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return `PLAN-${highest + 1}`;
+};
+
+/** Lets the user edit, remove, or add planner items before the writer stage spends any calls. */
+export function PlanApprovalPanel({ plan, isSubmitting = false, onApprove, onDiscard }: PlanApprovalPanelProps) {
+  const [items, setItems] = useState<GenerationPlanItem[]>(plan);
+
+  const updateItem = (id: string, patch: Partial<GenerationPlanItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const addItem = () => {
+    setItems((prev) => [
+      ...prev,
+      { id: nextPlanId(prev), title: '', area: prev[prev.length - 1]?.area ?? 'General', focus: '', estimatedCases: 1 },
+    ]);
+  };
+
+  const totalCases = items.reduce((sum, item) => sum + (item.estimatedCases ?? 1), 0);
+  const canApprove = items.length > 0 && items.every((item) => item.title.trim()) && !isSubmitting;
+
+  return (
+    <div className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-xl p-6 sm:p-8 border border-white/20">
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-blue-50">Review Plan</h3>
+          <p className="text-xs text-blue-200/70">
+            {items.length} coverage segments · ~{totalCases} cases. Edit the plan, then approve it to start writing.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={addItem}
+          className="flex items-center gap-1.5 text-xs font-semibold text-blue-200 hover:text-blue-100 border border-white/20 rounded-full px-3 py-1 transition-colors"
+        >
+          <PlusIcon className="h-4 w-4" />
+          Add item
+        </button>
+      </div>
+
+      <div className="mt-4 space-y-3">
+        {items.map((item) => (
+          <div key={item.id} className="rounded-xl border border-white/10 bg-white/5 p-4">
+            <div className="flex items-start gap-3">
+              <span className="mt-2 text-xs font-medium text-blue-300 w-16 flex-shrink-0">{item.id}</span>
+              <div className="flex-1 grid gap-2 md:grid-cols-[2fr_1fr_6rem]">
+                <input
+                  value={item.title}
+                  onChange={(event) => updateItem(item.id, { title: event.target.value })}
+                  placeholder="Title"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  value={item.area}
+                  onChange={(event) => updateItem(item.id, { area: event.target.value })}
+                  placeholder="Area"
+                  className={INPUT_CLASS}
+                />
+                <input
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={item.estimatedCases ?? 1}
+                  onChange={(event) => {
+                    const value = Number(event.target.value);
+                    updateItem(item.id, { estimatedCases: Number.isNaN(value) ? 1 : Math.min(50, Math.max(1, Math.floor(value))) });
+                  }}
+                  title="Estimated cases"
+                  className={INPUT_CLASS}
+                />
+                <textarea
+                  value={item.focus ?? ''}
+                  onChange={(event) => updateItem(item.id, { focus: event.target.value })}
+                  placeholder="Focus"
+                  rows={2}
+                  className={`${INPUT_CLASS} md:col-span-3`}
+                />
+              </div>
+              <button
+                type="button"
+                onClick={() => removeItem(item.id)}
+                className="mt-1.5 p-1 text-blue-300 hover:text-red-300"
+                title="Remove plan item"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {!items.length && (
+          <p className="text-sm text-blue-200">Add at least one plan item to continue.</p>
+        )}
+      </div>
+
+      <div className="mt-6 flex justify-end gap-3">
+        <Button
+          onClick={onDiscard}
+          disabled={isSubmitting}
+          className="bg-white/5 hover:bg-white/10 border-white/10 hover:border-white/20 text-blue-200 hover:text-blue-100"
+        >
+          Discard Plan
+        </Button>
+        <Button
+          onClick={() => onApprove(items.map((item) => ({ ...item, title: item.title.trim(), area: item.area.trim() || 'General' })))}
+          disabled={!canApprove}
+          isLoading={isSubmitting}
+        >
+          Approve &amp; Write Cases
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { DocumentTextIcon } from '@heroicons/react/24/outline';
+import { PromptTemplate, PromptTemplateId, PromptTemplateOverride, Team } from '@/lib/types';
+import { fetchApi } from '@/lib/utils/apiClient';
+import { Button } from './ui/Button';
+
+const FIELD_CLASS =
+  'h-10 rounded-xl border border-white/10 bg-slate-900/80 px-3 text-sm text-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const SECONDARY_BUTTON_CLASS = 'border border-white/10 bg-white/10 text-blue-50 hover:bg-white/20';
+
+/** Admin editor for per-team prompt overrides; each save becomes a new version recorded in the AI logs. */
+export function PromptTemplateManager() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [overrides, setOverrides] = useState<PromptTemplateOverride[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [templateId, setTemplateId] = useState<PromptTemplateId>('planner');
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchApi<{ teams: Team[] }>('/api/admin/teams')
+      .then((data) => {
+        setTeams(data.teams);
+        setTeamId((prev) => prev || data.teams[0]?.id || '');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load teams'));
+  }, []);
+
+  const loadOverrides = useCallback(async () => {
+    setError(null);
+    try {
+      const query = teamId ? `?teamId=${encodeURIComponent(teamId)}` : '';
+      const data = await fetchApi<{ templates: PromptTemplate[]; overrides: PromptTemplateOverride[] }>(
+        `/api/admin/prompt-templates${query}`
+      );
+      setTemplates(data.templates);
+      setOverrides(data.overrides);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load prompt templates');
+    }
+  }, [teamId]);
+
+  useEffect(() => {
+    loadOverrides();
+  }, [loadOverrides]);
+
+  const definition = templates.find((template) => template.id === templateId);
+  const history = useMemo(
+    () => overrides.filter((override) => override.templateId === templateId),
+    [overrides, templateId]
+  );
+  const active = history[0];
+
+  useEffect(() => {
+    setDraft(active?.template ?? definition?.template ?? '');
+    setNotice(null);
+  }, [active, definition]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const data = await fetchApi<{ override: PromptTemplateOverride }>('/api/admin/prompt-templates', {
+        method: 'PUT',
+        body: JSON.stringify({ teamId, templateId, template: draft }),
+      });
+      setOverrides((prev) => [data.override, ...prev]);
+      setNotice(`Saved as version ${data.override.version}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save prompt template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await fetchApi(`/api/admin/prompt-templates?teamId=${encodeURIComponent(teamId)}&templateId=${templateId}`, {
+        method: 'DELETE',
+      });
+      setOverrides((prev) => prev.filter((override) => override.templateId !== templateId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reset prompt template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.3 }}
+      className="rounded-2xl border border-white/10 bg-white/5 backdrop-blur-lg p-6"
+    >
+      <div className="flex items-start gap-3">
+        <div className="rounded-full bg-blue-500/20 p-2 text-blue-200">
+          <DocumentTextIcon className="h-6 w-6" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-blue-50">Prompt templates</h2>
+          <p className="text-sm text-blue-200/80">
+            Override the planner, writer, reviewer, and SQL prompts for a team. The template version used is recorded with each AI log entry.
+          </p>
+        </div>
+      </div>
+
+      {teams.length === 0 ? (
+        <p className="mt-4 text-sm text-blue-200/70">Create a team under Access tokens to customise its prompts.</p>
+      ) : (
+        <>
+          <div className="mt-6 flex flex-col gap-3 sm:flex-row">
+            <select value={teamId} onChange={(event) => setTeamId(event.target.value)} className={FIELD_CLASS}>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>{team.name}</option>
+              ))}
+            </select>
+            <select
+              value={templateId}
+              onChange={(event) => setTemplateId(event.target.value as PromptTemplateId)}
+              className={FIELD_CLASS}
+            >
+              {templates.map((template) => (
+                <option key={template.id} value={template.id}>{template.label}</option>
+              ))}
+            </select>
+            <span className="self-center text-xs text-blue-200/70">
+              {active ? `Team version ${active.version} by ${active.updatedBy}` : `Default v${definition?.version ?? 1}`}
+            </span>
+          </div>
+
+          {definition && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {definition.variables.map((variable) => (
+                <span
+                  key={variable.name}
+                  title={variable.description}
+                  className="rounded-full border border-white/10 bg-white/10 px-2.5 py-0.5 font-mono text-xs text-blue-100"
+                >
+                  {`{{${variable.name}}}`}
+                  {variable.required ? ' *' : ''}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            rows={16}
+            spellCheck={false}
+            className="mt-4 w-full rounded-xl border border-white/10 bg-slate-900/80 px-3 py-2 font-mono text-xs text-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="mt-2 text-xs text-blue-200/60">
+            Separate sections with a blank line. Sections or lines whose variables are empty are left out of the prompt. Variables marked * are required.
+          </p>
+
+          {error && (
+            <div className="mt-4 rounded-xl border border-rose-400/40 bg-rose-400/10 px-4 py-3 text-sm text-rose-100">{error}</div>
+          )}
+          {notice && <p className="mt-4 text-sm text-emerald-200">{notice}</p>}
+
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex flex-wrap gap-2">
+              {history.slice(1, 6).map((override) => (
+                <button
+                  key={override.version}
+                  type="button"
+                  onClick={() => setDraft(override.template)}
+                  className="rounded-full border border-white/10 px-2.5 py-0.5 text-xs text-blue-200 hover:bg-white/10"
+                  title={`Saved ${new Date(override.updatedAt).toLocaleString()} by ${override.updatedBy}`}
+                >
+                  Load v{override.version}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant="secondary"
+                className={SECONDARY_BUTTON_CLASS}
+                onClick={handleReset}
+                disabled={!active || isSaving}
+              >
+                Reset to default
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={!teamId || !draft.trim() || isSaving}>
+                Save version
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
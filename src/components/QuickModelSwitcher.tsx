@@ -4,7 +4,7 @@ import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
 import Link from 'next/link';
 import { useProviderSettings } from '@/lib/context/ProviderSettingsContext';
-import { QuickSelection } from '@/lib/types/providers';
+import { LLMProvider, QuickSelection } from '@/lib/types/providers';
 
 const DOMAIN_LABELS: Record<'testCases' | 'sql' | 'data', string> = {
   testCases: 'Select AI Model',
@@ -12,6 +12,13 @@ const DOMAIN_LABELS: Record<'testCases' | 'sql' | 'data', string> = {
   data: 'Select AI Model',
 };
 
+// Compact names for the trigger and menu; other providers use their registry label.
+const SHORT_PROVIDER_LABELS: Partial<Record<LLMProvider, string>> = {
+  openrouter: 'OpenRouter',
+  anthropic: 'Anthropic',
+  azure: 'Azure OpenAI',
+};
+
 interface QuickModelSwitcherProps {
   domain: 'testCases' | 'sql' | 'data';
   className?: string;
@@ -63,8 +70,8 @@ export function QuickModelSwitcher({ domain, className }: QuickModelSwitcherProp
 
   const providerLabel = useMemo(() => {
     const provider = availableProviders.find((item) => item.id === domainSelection.provider);
-    if (provider?.id === 'openrouter') {
-      return 'OpenRouter';
+    if (provider && SHORT_PROVIDER_LABELS[provider.id]) {
+      return SHORT_PROVIDER_LABELS[provider.id];
     }
     return provider?.label ?? domainSelection.provider;
   }, [availableProviders, domainSelection.provider]);
@@ -93,9 +100,9 @@ export function QuickModelSwitcher({ domain, className }: QuickModelSwitcherProp
   const formattedQuickSelections = useMemo(() => {
     return quickSelections.map((selection) => {
       const provider = availableProviders.find((item) => item.id === selection.provider);
-      const providerDisplay = provider?.id === 'openrouter'
-        ? 'OpenRouter'
-        : provider?.label ?? selection.provider.toUpperCase();
+      const providerDisplay = (provider && SHORT_PROVIDER_LABELS[provider.id])
+        ?? provider?.label
+        ?? selection.provider.toUpperCase();
       const label = selection.label?.trim()
         ? selection.label.trim()
         : `${providerDisplay} · ${selection.model}`;
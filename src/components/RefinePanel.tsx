@@ -0,0 +1,277 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ExclamationTriangleIcon, SparklesIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { TestCase, TestCaseMode, TestCaseRefinementEvent } from '@/lib/types';
+import { Button } from './ui/Button';
+import { cn } from '@/lib/utils';
+import { fetchApiStream } from '@/lib/utils/apiClient';
+import { useProviderSettings } from '@/lib/context/ProviderSettingsContext';
+import { formatTestCaseMarkdown } from '@/lib/utils/testCaseMarkdown';
+import { diffLines } from '@/lib/utils/textDiff';
+
+interface RefinePanelProps {
+  onClose: () => void;
+  onAccept: (testCases: TestCase[]) => void;
+  scopeLabel: string;
+  testCases: TestCase[];
+  contextCases: TestCase[];
+  mode: TestCaseMode;
+  requirements?: string;
+}
+
+const INSTRUCTION_EXAMPLES = ['Add negative cases for expired tokens', 'Split into smaller steps', 'Make expected results measurable'];
+
+const DIFF_LINE_STYLES = {
+  same: 'text-blue-200/70',
+  added: 'bg-green-500/15 text-green-200',
+  removed: 'bg-red-500/15 text-red-200 line-through',
+};
+
+const DIFF_LINE_PREFIX = { same: ' ', added: '+', removed: '-' };
+
+/** Mounted only while open, so the instruction and proposals start fresh each time. */
+export function RefinePanel({ onClose, onAccept, scopeLabel, testCases, contextCases, mode, requirements }: RefinePanelProps) {
+  const { settings } = useProviderSettings();
+  const [instruction, setInstruction] = useState('');
+  const [proposals, setProposals] = useState<TestCase[]>([]);
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isRefining, setIsRefining] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const originalsById = new Map([...contextCases, ...testCases].map((testCase) => [testCase.id, testCase]));
+
+  const addProposals = (cases: TestCase[]) => {
+    setProposals((prev) => [...prev.filter((existing) => !cases.some((tc) => tc.id === existing.id)), ...cases]);
+    setAcceptedIds((prev) => new Set([...Array.from(prev), ...cases.map((tc) => tc.id)]));
+  };
+
+  const handleEvent = (event: TestCaseRefinementEvent) => {
+    if (event.type === 'error') {
+      throw new Error(event.message || 'Refinement failed');
+    }
+    if (event.type === 'refine:chunk-complete') {
+      setProgress({ completed: event.chunkIndex, total: event.totalChunks });
+      addProposals(event.testCases);
+      return;
+    }
+    addProposals(event.result.testCases);
+    setWarnings(event.result.warnings ?? []);
+    setIsComplete(true);
+  };
+
+  const handleRefine = async () => {
+    setIsRefining(true);
+    setIsComplete(false);
+    setError(null);
+    setWarnings([]);
+    setProposals([]);
+    setAcceptedIds(new Set());
+    setProgress(null);
+    try {
+      const response = await fetchApiStream('/api/generate/refine', {
+        method: 'POST',
+        body: JSON.stringify({
+          testCases,
+          instruction,
+          mode,
+          contextCases,
+          requirements,
+          provider: settings.testCases.provider,
+          model: settings.testCases.model,
+        }),
+      });
+
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      try {
+        while (true) {
+          const { value, done } = await reader.read();
+          buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+          const lines = buffer.split('\n');
+          buffer = done ? '' : lines.pop() ?? '';
+          lines.filter((line) => line.trim()).forEach((line) => handleEvent(JSON.parse(line) as TestCaseRefinementEvent));
+          if (done) {
+            break;
+          }
+        }
+      } finally {
+        reader.releaseLock();
+      }
+      setIsComplete(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refine test cases');
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const toggleAccepted = (id: string) => {
+    setAcceptedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleAccept = () => {
+    onAccept(proposals.filter((tc) => acceptedIds.has(tc.id)));
+    onClose();
+  };
+
+  const hasProposals = proposals.length > 0;
+
+  return (
+    <Transition appear show as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={onClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/60 backdrop-blur-sm" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-4xl transform overflow-hidden rounded-2xl bg-slate-900/90 backdrop-blur-lg border border-white/20 p-6 text-left shadow-xl transition-all">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-center gap-3">
+                    <div className="p-2 bg-blue-500/10 rounded-lg border border-blue-500/20">
+                      <SparklesIcon className="h-6 w-6 text-blue-300" aria-hidden="true" />
+                    </div>
+                    <div>
+                      <Dialog.Title as="h3" className="text-lg font-medium text-blue-100">
+                        Refine {scopeLabel}
+                      </Dialog.Title>
+                      <p className="text-sm text-blue-300">
+                        {testCases.length} {testCases.length === 1 ? 'case' : 'cases'} in scope. Review the changes before accepting them.
+                      </p>
+                    </div>
+                  </div>
+                  <button onClick={onClose} className="p-1.5 text-blue-300 hover:text-blue-100 rounded-md" title="Close">
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </div>
+
+                <div className="mt-6 space-y-3">
+                  <textarea
+                    value={instruction}
+                    onChange={(e) => setInstruction(e.target.value)}
+                    rows={3}
+                    maxLength={2000}
+                    placeholder="Describe how these cases should change…"
+                    className="w-full rounded-lg bg-white/5 border border-white/10 px-3 py-2 text-sm text-blue-100 placeholder:text-blue-400/60 focus:outline-none focus:border-blue-400/60"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {INSTRUCTION_EXAMPLES.map((example) => (
+                      <button
+                        key={example}
+                        onClick={() => setInstruction(example)}
+                        className="rounded-full bg-white/5 border border-white/10 px-3 py-1 text-xs text-blue-200 hover:bg-white/10"
+                      >
+                        {example}
+                      </button>
+                    ))}
+                  </div>
+                  {progress && isRefining && (
+                    <p className="text-xs text-blue-300">Revised {progress.completed} of {progress.total} batches…</p>
+                  )}
+                  {error && <p className="text-sm text-red-300">{error}</p>}
+                  {warnings.map((warning) => (
+                    <div key={warning} className="flex items-start gap-2 rounded-xl border border-yellow-500/30 bg-yellow-500/10 px-3 py-2 text-sm text-yellow-100">
+                      <ExclamationTriangleIcon className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <span>{warning}</span>
+                    </div>
+                  ))}
+                  {isComplete && !hasProposals && !error && (
+                    <p className="text-sm text-blue-200">The model returned no changes for this instruction.</p>
+                  )}
+                </div>
+
+                {hasProposals && (
+                  <div className="mt-6 space-y-4 max-h-[28rem] overflow-y-auto pr-1">
+                    {proposals.map((proposal) => {
+                      const original = originalsById.get(proposal.id);
+                      const before = original ? original.markdownContent || formatTestCaseMarkdown(original) : '';
+                      return (
+                        <div key={proposal.id} className="rounded-xl border border-white/10 bg-white/5">
+                          <label className="flex items-center gap-3 px-3 py-2 border-b border-white/10 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={acceptedIds.has(proposal.id)}
+                              onChange={() => toggleAccepted(proposal.id)}
+                              className="h-4 w-4 text-blue-600 rounded border-gray-300 focus:ring-blue-500"
+                            />
+                            <span className="text-sm text-blue-300">{proposal.id}</span>
+                            <span className="text-sm text-blue-100 truncate">{proposal.title}</span>
+                            <span className={cn(
+                              'ml-auto rounded-full px-2 py-0.5 text-xs',
+                              original ? 'bg-blue-500/20 text-blue-200' : 'bg-green-500/20 text-green-200'
+                            )}>
+                              {original ? 'Changed' : 'New'}
+                            </span>
+                          </label>
+                          <pre className="px-3 py-2 text-xs font-mono whitespace-pre-wrap">
+                            {diffLines(before, formatTestCaseMarkdown(proposal)).map((line, index) => (
+                              <div key={index} className={DIFF_LINE_STYLES[line.type]}>
+                                {DIFF_LINE_PREFIX[line.type]} {line.text}
+                              </div>
+                            ))}
+                          </pre>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <div className="mt-6 flex justify-end gap-3">
+                  <Button
+                    onClick={onClose}
+                    className="bg-white/5 hover:bg-white/10 border-white/10 hover:border-white/20 text-blue-200 hover:text-blue-100"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={handleRefine}
+                    disabled={!instruction.trim() || isRefining}
+                    className={hasProposals ? 'bg-white/5 hover:bg-white/10 border-white/10 hover:border-white/20 text-blue-200 hover:text-blue-100' : undefined}
+                  >
+                    {isRefining ? 'Refining…' : hasProposals ? 'Refine Again' : 'Refine'}
+                  </Button>
+                  {hasProposals && (
+                    <Button onClick={handleAccept} disabled={isRefining || acceptedIds.size === 0}>
+                      Accept {acceptedIds.size} {acceptedIds.size === 1 ? 'Change' : 'Changes'}
+                    </Button>
+                  )}
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { CheckIcon, PencilIcon, TrashIcon, XMarkIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
+import { GenerationSessionSummary, TestCaseMode } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface SessionHistoryPanelProps {
+  sessions: GenerationSessionSummary[];
+  activeSessionId: string | null;
+  isLoading: boolean;
+  error: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<TestCaseMode, string> = {
+  'high-level': 'High-level',
+  detailed: 'Detailed',
+  gherkin: 'Gherkin',
+};
+
+const formatTimestamp = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return date.toLocaleString();
+};
+
+export function SessionHistoryPanel({
+  sessions,
+  activeSessionId,
+  isLoading,
+  error,
+  onOpen,
+  onRename,
+  onDelete,
+  onClose,
+}: SessionHistoryPanelProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (session: GenerationSessionSummary) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white/10 backdrop-blur-lg rounded-2xl shadow-xl p-6 sm:p-8 border border-white/20"
+    >
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-blue-50">Session History</h3>
+          <p className="text-xs text-blue-200/70">
+            {isLoading ? 'Loading saved sessions…' : `${sessions.length} saved generation runs`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs font-semibold text-blue-200 hover:text-blue-100 border border-white/20 rounded-full px-3 py-1 transition-colors"
+        >
+          Hide history
+        </button>
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm text-red-200">{error}</p>
+      )}
+
+      {!isLoading && !error && sessions.length === 0 && (
+        <p className="mt-4 text-sm text-blue-200/80">
+          No saved sessions yet. Completed generation runs are saved automatically.
+        </p>
+      )}
+
+      {sessions.length > 0 && (
+        <ul className="mt-4 space-y-3">
+          {sessions.map((session) => {
+            const isActive = session.id === activeSessionId;
+            const isEditing = session.id === editingId;
+
+            return (
+              <li
+                key={session.id}
+                className={cn(
+                  'rounded-xl border p-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between',
+                  isActive ? 'border-blue-400/50 bg-blue-500/10' : 'border-white/10 bg-white/5'
+                )}
+              >
+                <div className="min-w-0 flex-1">
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(event) => setDraftTitle(event.target.value)}
+                      onKeyDown={(event) => {
+                        if (event.key === 'Enter') {
+                          commitRename();
+                        } else if (event.key === 'Escape') {
+                          setEditingId(null);
+                        }
+                      }}
+                      aria-label="Session title"
+                      className="w-full h-9 rounded-lg border border-white/10 bg-slate-900/80 px-3 text-sm text-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  ) : (
+                    <p className="text-sm font-semibold text-blue-50 truncate">{session.title}</p>
+                  )}
+                  <p className="mt-1 text-xs text-blue-200/70">
+                    {MODE_LABELS[session.mode] ?? 'Detailed'} · {session.testCaseCount} cases
+                    {session.model ? ` · ${session.model}` : ''} · {formatTimestamp(session.updatedAt)}
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {isEditing ? (
+                    <>
+                      <button
+                        type="button"
+                        onClick={commitRename}
+                        aria-label="Save title"
+                        className="p-2 rounded-lg text-green-300 hover:bg-white/10 transition-colors"
+                      >
+                        <CheckIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        aria-label="Cancel rename"
+                        className="p-2 rounded-lg text-blue-200 hover:bg-white/10 transition-colors"
+                      >
+                        <XMarkIcon className="h-4 w-4" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => onOpen(session.id)}
+                        disabled={isActive}
+                        className="flex items-center gap-1 text-xs font-semibold text-blue-100 border border-white/20 rounded-full px-3 py-1 hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <ArrowUturnLeftIcon className="h-3.5 w-3.5" />
+                        {isActive ? 'Open' : 'Reopen'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => startRename(session)}
+                        aria-label="Rename session"
+                        className="p-2 rounded-lg text-blue-200 hover:bg-white/10 transition-colors"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onDelete(session.id)}
+                        aria-label="Delete session"
+                        className="p-2 rounded-lg text-red-300 hover:bg-white/10 transition-colors"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.div>
+  );
+}
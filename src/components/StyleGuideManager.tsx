@@ -0,0 +1,197 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { BookOpenIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { GlossaryTerm, QAStyleGuide, Team } from '@/lib/types';
+import { fetchApi } from '@/lib/utils/apiClient';
+import { Button } from './ui/Button';
+
+const FIELD_CLASS =
+  'h-10 rounded-xl border border-white/10 bg-slate-900/80 px-3 text-sm text-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const SECONDARY_BUTTON_CLASS = 'border border-white/10 bg-white/10 text-blue-50 hover:bg-white/20';
+
+interface DraftRule {
+  id?: string;
+  text: string;
+}
+
+/** Admin editor for a team's QA style guide; the rules and glossary are added to every generation prompt. */
+export function StyleGuideManager() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamId, setTeamId] = useState('');
+  const [rules, setRules] = useState<DraftRule[]>([]);
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>([]);
+  const [savedGuide, setSavedGuide] = useState<QAStyleGuide | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetchApi<{ teams: Team[] }>('/api/admin/teams')
+      .then((data) => {
+        setTeams(data.teams);
+        setTeamId((prev) => prev || data.teams[0]?.id || '');
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load teams'));
+  }, []);
+
+  useEffect(() => {
+    if (!teamId) {
+      return;
+    }
+    setError(null);
+    setNotice(null);
+    fetchApi<{ styleGuide: QAStyleGuide | null }>(`/api/admin/style-guides?teamId=${encodeURIComponent(teamId)}`)
+      .then((data) => {
+        setSavedGuide(data.styleGuide);
+        setRules(data.styleGuide?.rules ?? []);
+        setGlossary(data.styleGuide?.glossary ?? []);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load style guide'));
+  }, [teamId]);
+
+  const updateRule = (index: number, text: string) =>
+    setRules((prev) => prev.map((rule, position) => (position === index ? { ...rule, text } : rule)));
+
+  const updateTerm = (index: number, patch: Partial<GlossaryTerm>) =>
+    setGlossary((prev) => prev.map((entry, position) => (position === index ? { ...entry, ...patch } : entry)));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const data = await fetchApi<{ styleGuide: QAStyleGuide }>('/api/admin/style-guides', {
+        method: 'PUT',
+        body: JSON.stringify({ teamId, rules, glossary }),
+      });
+      setSavedGuide(data.styleGuide);
+      setRules(data.styleGuide.rules);
+      setGlossary(data.styleGuide.glossary);
+      setNotice('Style guide saved.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save style guide');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.4, delay: 0.35 }}
+      className="rounded-2xl border border-white/10 bg-white/5 backdrop-blur-lg p-6"
+    >
+      <div className="flex items-start gap-3">
+        <div className="rounded-full bg-blue-500/20 p-2 text-blue-200">
+          <BookOpenIcon className="h-6 w-6" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-blue-50">QA style guide</h2>
+          <p className="text-sm text-blue-200/80">
+            Rules and glossary terms are given to the planner, writer, and reviewer for every generation by the team. The reviewer reports violations as guideline issues citing the rule id.
+          </p>
+        </div>
+      </div>
+
+      {teams.length === 0 ? (
+        <p className="mt-4 text-sm text-blue-200/70">Create a team under Access tokens to give it a style guide.</p>
+      ) : (
+        <>
+          <div className="mt-6 flex flex-col gap-3 sm:flex-row">
+            <select value={teamId} onChange={(event) => setTeamId(event.target.value)} className={FIELD_CLASS}>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>{team.name}</option>
+              ))}
+            </select>
+            {savedGuide && (
+              <span className="self-center text-xs text-blue-200/70">
+                Updated {new Date(savedGuide.updatedAt).toLocaleString()} by {savedGuide.updatedBy}
+              </span>
+            )}
+          </div>
+
+          <h3 className="mt-6 text-sm font-semibold text-blue-100">Rules</h3>
+          <div className="mt-2 space-y-2">
+            {rules.map((rule, index) => (
+              <div key={rule.id ?? `new-${index}`} className="flex items-center gap-2">
+                <span className="w-12 shrink-0 font-mono text-xs text-blue-200/70">{rule.id ?? 'new'}</span>
+                <input
+                  value={rule.text}
+                  onChange={(event) => updateRule(index, event.target.value)}
+                  placeholder="e.g. Write steps in the imperative mood"
+                  className={`${FIELD_CLASS} flex-1`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setRules((prev) => prev.filter((_, position) => position !== index))}
+                  className="rounded-full p-2 text-blue-200 hover:bg-white/10"
+                  aria-label="Remove rule"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            className={`mt-2 ${SECONDARY_BUTTON_CLASS}`}
+            onClick={() => setRules((prev) => [...prev, { text: '' }])}
+          >
+            Add rule
+          </Button>
+
+          <h3 className="mt-6 text-sm font-semibold text-blue-100">Glossary</h3>
+          <div className="mt-2 space-y-2">
+            {glossary.map((entry, index) => (
+              <div key={index} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                <input
+                  value={entry.term}
+                  onChange={(event) => updateTerm(index, { term: event.target.value })}
+                  placeholder="Term"
+                  className={`${FIELD_CLASS} sm:w-48`}
+                />
+                <input
+                  value={entry.definition}
+                  onChange={(event) => updateTerm(index, { definition: event.target.value })}
+                  placeholder="Definition or preferred usage"
+                  className={`${FIELD_CLASS} flex-1`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setGlossary((prev) => prev.filter((_, position) => position !== index))}
+                  className="self-start rounded-full p-2 text-blue-200 hover:bg-white/10 sm:self-center"
+                  aria-label="Remove term"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            className={`mt-2 ${SECONDARY_BUTTON_CLASS}`}
+            onClick={() => setGlossary((prev) => [...prev, { term: '', definition: '' }])}
+          >
+            Add term
+          </Button>
+
+          {error && (
+            <div className="mt-4 rounded-xl border border-rose-400/40 bg-rose-400/10 px-4 py-3 text-sm text-rose-100">{error}</div>
+          )}
+          {notice && <p className="mt-4 text-sm text-emerald-200">{notice}</p>}
+
+          <div className="mt-4 flex justify-end">
+            <Button type="button" onClick={handleSave} disabled={!teamId || isSaving}>
+              Save style guide
+            </Button>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
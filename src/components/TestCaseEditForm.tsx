@@ -3,6 +3,7 @@
 import { TestCase, HighLevelTestCase } from '@/lib/types';
 import { Button } from './ui/Button';
 import { useState, useEffect } from 'react';
+import { formatGherkinScenario, isGherkinTestCase } from '@/lib/utils/gherkin';
 
 interface TestCaseEditFormProps {
   testCase: TestCase;
@@ -34,6 +35,10 @@ export function TestCaseEditForm({ testCase, onChange, onSave, onCancel }: TestC
       return sections.filter(Boolean).join('\n\n');
     }
 
+    if (isGherkinTestCase(testCase)) {
+      return formatGherkinScenario(testCase);
+    }
+
     // Detailed test case format
     const sections = [
       `# ${testCase.title} (${testCase.id})`,
@@ -1,15 +1,22 @@
 'use client';
 
-import { TestCase, TestCaseMode, HighLevelTestCase, DetailedTestCase } from '@/lib/types';
+import { TestCase, TestCaseMode, HighLevelTestCase, DetailedTestCase, GherkinTestCase, TraceabilityMatrix, TestCaseOverlapStatus, DuplicateCluster } from '@/lib/types';
 import { Button } from './ui/Button';
-import { ChevronDownIcon, ChevronUpIcon, ClipboardIcon, PencilIcon, ArrowPathIcon, ArrowDownIcon, CheckCircleIcon, DocumentArrowDownIcon } from '@heroicons/react/24/outline';
+import { ChevronDownIcon, ChevronUpIcon, ClipboardIcon, PencilIcon, ArrowPathIcon, ArrowDownIcon, CheckCircleIcon, DocumentArrowDownIcon, CodeBracketIcon, CodeBracketSquareIcon, DocumentDuplicateIcon, SparklesIcon } from '@heroicons/react/24/outline';
 import { useState, useEffect } from 'react';
 import { cn } from '@/lib/utils';
 import { motion, AnimatePresence } from 'framer-motion';
 import { TestCaseEditForm } from './TestCaseEditForm';
+import { AutomationPanel } from './AutomationPanel';
+import { RefinePanel } from './RefinePanel';
 import ReactMarkdown from 'react-markdown';
 import { Document, Paragraph, TextRun, HeadingLevel, Packer } from 'docx';
 import { Workbook } from 'exceljs';
+import { listTestCaseExporters, TestCaseExporter } from '@/lib/test-case-export';
+import { buildFeatureFiles, formatGherkinScenario, isGherkinTestCase } from '@/lib/utils/gherkin';
+import { describeOverlap } from '@/lib/utils/testCaseOverlap';
+import { formatTestCaseMarkdown } from '@/lib/utils/testCaseMarkdown';
+import { activeDuplicateClusters, mergeDuplicateCluster } from '@/lib/utils/duplicateClusters';
 
 interface TestCaseListProps {
   testCases: TestCase[];
@@ -22,13 +29,53 @@ interface TestCaseListProps {
   onConvertSelected?: () => void;
   convertedScenarioIds?: Set<string>;
   onUpdateConverted?: (testCases: TestCase[]) => void;
+  onConvertToGherkin?: () => void;
+  traceability?: TraceabilityMatrix;
+  duplicateClusters?: DuplicateCluster[];
+  requirements?: string;
 }
 
 const isHighLevelTestCase = (testCase: TestCase): testCase is HighLevelTestCase => {
   return 'scenario' in testCase && 'area' in testCase;
 };
 
-const extractAreaFromTestCase = (testCase: DetailedTestCase): string => {
+const isDetailedTestCase = (testCase: TestCase): testCase is DetailedTestCase => {
+  return !isHighLevelTestCase(testCase) && !isGherkinTestCase(testCase);
+};
+
+const MODE_TITLES: Record<TestCaseMode, string> = {
+  'high-level': 'Test Scenarios',
+  detailed: 'Test Cases',
+  gherkin: 'Gherkin Scenarios',
+};
+
+const MODE_FILENAMES: Record<TestCaseMode, string> = {
+  'high-level': 'test-scenarios',
+  detailed: 'test-cases',
+  gherkin: 'gherkin-scenarios',
+};
+
+const OVERLAP_BADGE_STYLES: Record<TestCaseOverlapStatus, string> = {
+  new: 'bg-green-50 text-green-700',
+  overlap: 'bg-amber-50 text-amber-700',
+  duplicate: 'bg-red-50 text-red-700',
+};
+
+const OverlapBadge = ({ testCase }: { testCase: TestCase }) => {
+  if (!testCase.overlap) {
+    return null;
+  }
+  return (
+    <span
+      className={cn('shrink-0 px-2 py-0.5 rounded-full text-xs font-medium', OVERLAP_BADGE_STYLES[testCase.overlap.status])}
+      title={`Closest match in the imported suite: ${Math.round(testCase.overlap.similarity * 100)}% similar`}
+    >
+      {describeOverlap(testCase.overlap)}
+    </span>
+  );
+};
+
+const extractAreaFromTestCase = (testCase: DetailedTestCase | GherkinTestCase): string => {
   // Use the area provided by the LLM
   if (testCase.area) {
     return testCase.area;
@@ -48,12 +95,19 @@ export function TestCaseList({
   selectedTestCases = new Set(),
   onConvertSelected,
   convertedScenarioIds = new Set(),
-  onUpdateConverted
+  onUpdateConverted,
+  onConvertToGherkin,
+  traceability,
+  duplicateClusters = [],
+  requirements
 }: TestCaseListProps) {
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
+  const [isAutomationOpen, setIsAutomationOpen] = useState(false);
+  const [refineScope, setRefineScope] = useState<{ label: string; testCases: TestCase[] } | null>(null);
   const [localTestCases, setLocalTestCases] = useState(testCases);
+  const [dismissedClusters, setDismissedClusters] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     setLocalTestCases(testCases);
@@ -112,28 +166,6 @@ export function TestCaseList({
     setTimeout(() => setCopiedId(null), 2000);
   };
 
-  const formatTestCaseMarkdown = (testCase: TestCase): string => {
-    if (isHighLevelTestCase(testCase)) {
-      return `# ${testCase.title} (${testCase.id})\n\n**Area:** ${testCase.area}\n\n**Scenario:** ${testCase.scenario}`;
-    }
-
-    // Detailed test case format
-    const sections = [
-      `# ${testCase.title} (${testCase.id})`,
-      `## Description`,
-      testCase.description,
-      testCase.preconditions?.length ? 
-        `## Preconditions\n${testCase.preconditions.map(p => `* ${p}`).join('\n')}` : '',
-      testCase.testData?.length ? 
-        `## Test Data\n${testCase.testData.map(d => `* ${d}`).join('\n')}` : '',
-      `## Steps`,
-      testCase.steps.map(s => `${s.number}. ${s.description}`).join('\n'),
-      `## Expected Result`,
-      testCase.expectedResult
-    ];
-    return sections.filter(Boolean).join('\n\n');
-  };
-
   const getConvertedTestCase = (scenarioId: string) => {
     return convertedTestCases.find(tc => tc.originalScenarioId === scenarioId);
   };
@@ -200,6 +232,44 @@ export function TestCaseList({
         worksheet.eachRow((row) => {
           row.alignment = { wrapText: true, vertical: 'top' };
         });
+      } else if (mode === 'gherkin') {
+        // Gherkin scenarios worksheet
+        const worksheet = workbook.addWorksheet('Gherkin Scenarios');
+        worksheet.columns = [
+          { header: 'ID', key: 'id', width: 10 },
+          { header: 'Feature', key: 'feature', width: 25 },
+          { header: 'Title', key: 'title', width: 30 },
+          { header: 'Area', key: 'area', width: 15 },
+          { header: 'Tags', key: 'tags', width: 20 },
+          { header: 'Gherkin', key: 'gherkin', width: 80 }
+        ];
+
+        const gherkinData = testCases
+          .filter(isGherkinTestCase)
+          .map(tc => ({
+            id: tc.id,
+            feature: tc.feature,
+            title: tc.title,
+            area: tc.area,
+            tags: tc.tags.join(', '),
+            gherkin: tc.markdownContent || formatGherkinScenario(tc)
+          }));
+
+        worksheet.addRows(gherkinData);
+
+        // Style the header row
+        const headerRow = worksheet.getRow(1);
+        headerRow.font = { bold: true };
+        headerRow.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFE0E0E0' }
+        };
+
+        worksheet.eachRow((row) => {
+          row.alignment = { wrapText: true, vertical: 'top' };
+        });
+        worksheet.getColumn('gherkin').font = { name: 'Courier New' };
       } else {
         // Detailed test cases worksheet
         const worksheet = workbook.addWorksheet('Test Cases');
@@ -214,7 +284,7 @@ export function TestCaseList({
         ];
 
         const detailedData = testCases
-          .filter((tc): tc is DetailedTestCase => !isHighLevelTestCase(tc))
+          .filter(isDetailedTestCase)
           .map(tc => ({
             id: tc.id,
             title: tc.title,
@@ -242,12 +312,47 @@ export function TestCaseList({
         });
       }
 
+      if (traceability && traceability.requirements.length > 0) {
+        const worksheet = workbook.addWorksheet('Traceability');
+        worksheet.columns = [
+          { header: 'Requirement ID', key: 'id', width: 16 },
+          { header: 'Requirement', key: 'text', width: 60 },
+          { header: 'Source', key: 'source', width: 20 },
+          { header: 'Covered By', key: 'caseIds', width: 30 },
+          { header: 'Status', key: 'status', width: 12 }
+        ];
+
+        worksheet.addRows(traceability.requirements.map(entry => ({
+          id: entry.id,
+          text: entry.text,
+          source: entry.source ?? '',
+          caseIds: entry.caseIds.join(', '),
+          status: entry.caseIds.length ? 'Covered' : 'Uncovered'
+        })));
+
+        // Style the header row
+        const headerRow = worksheet.getRow(1);
+        headerRow.font = { bold: true };
+        headerRow.fill = {
+          type: 'pattern',
+          pattern: 'solid',
+          fgColor: { argb: 'FFE0E0E0' }
+        };
+
+        worksheet.eachRow((row, rowNumber) => {
+          row.alignment = { wrapText: true, vertical: 'top' };
+          if (rowNumber > 1 && row.getCell('status').value === 'Uncovered') {
+            row.getCell('status').font = { bold: true, color: { argb: 'FFC00000' } };
+          }
+        });
+      }
+
       // Generate blob and download
       const buffer = await workbook.xlsx.writeBuffer();
       const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
       const link = document.createElement('a');
       link.href = URL.createObjectURL(blob);
-      link.download = mode === 'high-level' ? 'test-scenarios.xlsx' : 'test-cases.xlsx';
+      link.download = `${MODE_FILENAMES[mode]}.xlsx`;
       link.click();
     } catch (error) {
       console.error('Failed to export XLSX:', error);
@@ -259,7 +364,7 @@ export function TestCaseList({
     try {
       let children: Paragraph[] = [
         new Paragraph({
-          text: mode === 'high-level' ? "Test Scenarios" : "Test Cases",
+          text: MODE_TITLES[mode],
           heading: HeadingLevel.HEADING_1,
           spacing: { after: 400 }
         })
@@ -301,10 +406,39 @@ export function TestCaseList({
             ];
           }, []);
         children = [...children, ...scenarioChildren];
+      } else if (mode === 'gherkin') {
+        // Gherkin scenarios, one monospaced paragraph per line
+        const gherkinChildren = testCases
+          .filter(isGherkinTestCase)
+          .reduce((acc: Paragraph[], tc) => {
+            const lines = (tc.markdownContent || formatGherkinScenario(tc)).split('\n');
+            return [
+              ...acc,
+              new Paragraph({
+                text: `${tc.title} (${tc.id})`,
+                heading: HeadingLevel.HEADING_2,
+                spacing: { after: 200 }
+              }),
+              new Paragraph({
+                children: [
+                  new TextRun({ text: "Feature: ", bold: true }),
+                  new TextRun(tc.feature),
+                ],
+                spacing: { after: 200 }
+              }),
+              ...lines.map((line, index) =>
+                new Paragraph({
+                  children: [new TextRun({ text: line, font: 'Courier New' })],
+                  spacing: { after: index === lines.length - 1 ? 400 : 0 }
+                })
+              ),
+            ];
+          }, []);
+        children = [...children, ...gherkinChildren];
       } else {
         // Detailed test cases
         const detailedChildren = testCases
-          .filter((tc): tc is DetailedTestCase => !isHighLevelTestCase(tc))
+          .filter(isDetailedTestCase)
           .reduce((acc: Paragraph[], tc) => {
             const sections: Paragraph[] = [
               new Paragraph({
@@ -396,7 +530,7 @@ export function TestCaseList({
       const blob = await Packer.toBlob(doc);
       const link = document.createElement('a');
       link.href = URL.createObjectURL(blob);
-      link.download = mode === 'high-level' ? 'test-scenarios.docx' : 'test-cases.docx';
+      link.download = `${MODE_FILENAMES[mode]}.docx`;
       link.click();
     } catch (error) {
       console.error('Failed to export DOCX:', error);
@@ -404,8 +538,82 @@ export function TestCaseList({
     }
   };
 
+  const handleExportFeatureFiles = async (testCases: TestCase[]) => {
+    try {
+      const { default: JSZip } = await import('jszip');
+      const zip = new JSZip();
+      buildFeatureFiles(testCases.filter(isGherkinTestCase)).forEach((file) => {
+        zip.file(file.filename, file.content);
+      });
+
+      const blob = await zip.generateAsync({ type: 'blob' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'features.zip';
+      link.click();
+    } catch (error) {
+      console.error('Failed to export feature files:', error);
+      alert('Failed to export feature files. Please try again.');
+    }
+  };
+
+  const handleExportToTool = (exporter: TestCaseExporter, testCases: TestCase[]) => {
+    try {
+      const result = exporter.export(testCases, { mode });
+      const blob = new Blob([result.content], { type: result.mimeType });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = result.filename;
+      link.click();
+    } catch (error) {
+      console.error(`Failed to export ${exporter.label}:`, error);
+      alert(`Failed to export ${exporter.label}. Please try again.`);
+    }
+  };
+
+  // High-level scenarios cannot be automated directly; their converted detailed cases can.
+  const visibleDuplicateClusters = activeDuplicateClusters(duplicateClusters, localTestCases)
+    .filter((cluster) => !dismissedClusters.has(cluster.caseIds.join('|')));
+  const titlesById = new Map(localTestCases.map((testCase) => [testCase.id, testCase.title]));
+
+  const handleMergeCluster = (cluster: DuplicateCluster) => {
+    const newTestCases = mergeDuplicateCluster(localTestCases, cluster);
+    setLocalTestCases(newTestCases);
+    onUpdate(newTestCases);
+  };
+
+  // Revised cases replace their originals; added cases are inserted after the last case in the refined scope.
+  const handleAcceptRefinement = (refined: TestCase[]) => {
+    if (!refineScope || !refined.length) {
+      return;
+    }
+    const refinedById = new Map(refined.map((testCase) => [testCase.id, testCase]));
+    const currentIds = new Set(localTestCases.map((testCase) => testCase.id));
+    const scopeIds = new Set(refineScope.testCases.map((testCase) => testCase.id));
+    const insertAt = localTestCases.reduce((last, testCase, index) => (scopeIds.has(testCase.id) ? index + 1 : last), localTestCases.length);
+    const newTestCases = localTestCases.map((testCase) => refinedById.get(testCase.id) ?? testCase);
+    newTestCases.splice(insertAt, 0, ...refined.filter((testCase) => !currentIds.has(testCase.id)));
+    setLocalTestCases(newTestCases);
+    onUpdate(newTestCases);
+  };
+
+  const handleDismissCluster = (cluster: DuplicateCluster) => {
+    setDismissedClusters(new Set(dismissedClusters).add(cluster.caseIds.join('|')));
+  };
+
+  const automatableTestCases = (mode === 'high-level' ? convertedTestCases : localTestCases).filter(isDetailedTestCase);
+
   if (!testCases.length) return null;
 
+  const overlapCounts = testCases.some((testCase) => testCase.overlap)
+    ? testCases.reduce<Record<TestCaseOverlapStatus, number>>((counts, testCase) => {
+        if (testCase.overlap) {
+          counts[testCase.overlap.status] += 1;
+        }
+        return counts;
+      }, { new: 0, overlap: 0, duplicate: 0 })
+    : null;
+
   return (
     <div className="space-y-8">
       {!testCases.length ? (
@@ -417,13 +625,23 @@ export function TestCaseList({
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-3">
               <h2 className="text-2xl font-bold text-gray-900">
-                {mode === 'high-level' ? 'Test Scenarios' : 'Test Cases'} ({testCases.length})
+                {MODE_TITLES[mode]} ({testCases.length})
               </h2>
               {mode === 'high-level' && (
                 <span className="bg-purple-100/80 backdrop-blur-sm text-purple-800 text-sm px-3 py-1 rounded-full font-medium">
                   High-level Overview
                 </span>
               )}
+              {mode === 'gherkin' && (
+                <span className="bg-emerald-100/80 backdrop-blur-sm text-emerald-800 text-sm px-3 py-1 rounded-full font-medium">
+                  BDD
+                </span>
+              )}
+              {overlapCounts && (
+                <span className="text-sm text-gray-600" title="Compared against the imported regression suite">
+                  {overlapCounts.new} new · {overlapCounts.overlap} overlapping · {overlapCounts.duplicate} duplicate
+                </span>
+              )}
             </div>
             <div className="flex items-center gap-3">
               <div className="relative group">
@@ -434,8 +652,16 @@ export function TestCaseList({
                   <DocumentArrowDownIcon className="h-4 w-4 mr-2" />
                   Export
                 </Button>
-                <div className="absolute right-0 mt-1 w-48 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-50 border border-gray-100">
+                <div className="absolute right-0 mt-1 w-56 bg-white/90 backdrop-blur-sm rounded-xl shadow-lg opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-200 z-50 border border-gray-100">
                   <div className="py-1">
+                    {mode === 'gherkin' && (
+                      <button
+                        onClick={() => handleExportFeatureFiles(testCases)}
+                        className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors first:rounded-t-xl"
+                      >
+                        Export .feature files (zip)
+                      </button>
+                    )}
                     {mode === 'high-level' && (
                       <button
                         onClick={() => handleExportCSV(testCases)}
@@ -455,10 +681,23 @@ export function TestCaseList({
                     </button>
                     <button
                       onClick={() => handleExportDOCX(testCases)}
-                      className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors last:rounded-b-xl"
+                      className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
                     >
                       Export as Word
                     </button>
+                    <p className="px-4 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 border-t border-gray-100">
+                      Test management
+                    </p>
+                    {listTestCaseExporters().map((exporter) => (
+                      <button
+                        key={exporter.id}
+                        onClick={() => handleExportToTool(exporter, testCases)}
+                        title={exporter.description}
+                        className="block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors last:rounded-b-xl"
+                      >
+                        {exporter.label}
+                      </button>
+                    ))}
                   </div>
                 </div>
               </div>
@@ -473,17 +712,80 @@ export function TestCaseList({
                   Convert Selected to Detailed
                 </Button>
               )}
+              {automatableTestCases.length > 0 && (
+                <Button
+                  onClick={() => setIsAutomationOpen(true)}
+                  variant="outline"
+                  className="group bg-white/80 backdrop-blur-sm hover:bg-white transition-all duration-200"
+                  title="Generate Playwright, Cypress, or Jest test files"
+                >
+                  <CodeBracketSquareIcon className="h-4 w-4 mr-2" />
+                  Automate
+                </Button>
+              )}
+              {mode === 'detailed' && onConvertToGherkin && (
+                <Button
+                  onClick={onConvertToGherkin}
+                  variant="outline"
+                  className="group bg-white/80 backdrop-blur-sm hover:bg-white transition-all duration-200"
+                  title="Rewrite these test cases as Given/When/Then scenarios"
+                >
+                  <CodeBracketIcon className="h-4 w-4 mr-2" />
+                  Convert to Gherkin
+                </Button>
+              )}
               <Button
                 onClick={onRegenerate}
                 variant="outline"
                 className="group bg-white/80 backdrop-blur-sm hover:bg-white transition-all duration-200"
-                title={`Generate new ${mode === 'high-level' ? 'scenarios' : 'test cases'}`}
+                title={`Generate new ${mode === 'detailed' ? 'test cases' : 'scenarios'}`}
               >
                 <ArrowPathIcon className="h-4 w-4 mr-2 group-hover:rotate-180 transition-transform" />
                 Generate New Set
               </Button>
             </div>
           </div>
+          {visibleDuplicateClusters.length > 0 && (
+            <div className="bg-amber-50/90 backdrop-blur-sm border border-amber-200 rounded-xl p-4">
+              <div className="flex items-center gap-2 text-amber-800 font-semibold text-sm">
+                <DocumentDuplicateIcon className="h-5 w-5" />
+                Possible duplicates ({visibleDuplicateClusters.length})
+              </div>
+              <p className="mt-1 text-xs text-amber-700">
+                These cases read almost the same. Merging keeps the most detailed version under the first id and combines requirement ids, preconditions and test data.
+              </p>
+              <ul className="mt-3 space-y-2">
+                {visibleDuplicateClusters.map((cluster) => (
+                  <li key={cluster.caseIds.join('|')} className="flex items-start justify-between gap-4 bg-white/70 rounded-lg px-3 py-2">
+                    <div className="text-sm text-gray-800">
+                      {cluster.caseIds.map((id) => (
+                        <div key={id}>
+                          <span className="font-medium text-gray-500 mr-2">{id}</span>
+                          {titlesById.get(id)}
+                        </div>
+                      ))}
+                      <span className="text-xs text-amber-700">{Math.round(cluster.similarity * 100)}% similar</span>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <Button
+                        onClick={() => handleMergeCluster(cluster)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        Merge
+                      </Button>
+                      <button
+                        onClick={() => handleDismissCluster(cluster)}
+                        className="text-xs text-amber-700 hover:text-amber-900"
+                      >
+                        Keep both
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="space-y-6">
             {mode === 'high-level' && (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -497,7 +799,17 @@ export function TestCaseList({
                   }, {})
                 ).map(([area, areaTestCases]) => (
                   <div key={area} className="bg-white/70 backdrop-blur-sm rounded-xl shadow-lg p-6 transition-all duration-300 hover:shadow-xl border border-gray-100">
-                    <h3 className="text-lg font-semibold text-gray-900 mb-4">{area}</h3>
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-gray-900">{area}</h3>
+                      <button
+                        onClick={() => setRefineScope({ label: area, testCases: areaTestCases })}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+                        title="Refine every case in this area with an instruction"
+                      >
+                        <SparklesIcon className="h-4 w-4" />
+                        Refine area
+                      </button>
+                    </div>
                     <div className="space-y-3">
                       {areaTestCases.map((testCase) => {
                         if (!isHighLevelTestCase(testCase)) return null;
@@ -528,8 +840,19 @@ export function TestCaseList({
                                   </span>
                                 )}
                                 <span className="text-sm font-medium text-gray-900">{testCase.title}</span>
+                                <OverlapBadge testCase={testCase} />
                               </div>
                               <div className="flex space-x-2 ml-4">
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setRefineScope({ label: testCase.id, testCases: [testCase] });
+                                  }}
+                                  className="p-1.5 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100 transition-colors"
+                                  title="Refine scenario"
+                                >
+                                  <SparklesIcon className="h-4 w-4" />
+                                </button>
                                 <button
                                   onClick={(e) => {
                                     e.stopPropagation();
@@ -556,19 +879,29 @@ export function TestCaseList({
                 ))}
               </div>
             )}
-            {mode === 'detailed' && (
+            {(mode === 'detailed' || mode === 'gherkin') && (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                 {Object.entries(
                   localTestCases.reduce((acc: Record<string, TestCase[]>, testCase) => {
                     if (!isHighLevelTestCase(testCase)) {
-                      const area = extractAreaFromTestCase(testCase as DetailedTestCase);
+                      const area = extractAreaFromTestCase(testCase);
                       acc[area] = [...(acc[area] || []), testCase];
                     }
                     return acc;
                   }, {})
                 ).map(([area, areaTestCases]) => (
                   <div key={area} className="bg-white/70 backdrop-blur-sm rounded-xl shadow-lg p-6 transition-all duration-300 hover:shadow-xl border border-gray-100">
-                    <h3 className="text-lg font-semibold text-gray-900 mb-4">{area}</h3>
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-gray-900">{area}</h3>
+                      <button
+                        onClick={() => setRefineScope({ label: area, testCases: areaTestCases })}
+                        className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800"
+                        title="Refine every case in this area with an instruction"
+                      >
+                        <SparklesIcon className="h-4 w-4" />
+                        Refine area
+                      </button>
+                    </div>
                     <div className="space-y-4">
                       {areaTestCases.map((testCase) => (
                         <motion.div
@@ -586,6 +919,7 @@ export function TestCaseList({
                               <h3 className="text-sm font-medium text-gray-900">
                                 {testCase.title}
                               </h3>
+                              <OverlapBadge testCase={testCase} />
                               {expandedIds.has(testCase.id) ? (
                                 <ChevronUpIcon className="h-4 w-4 text-gray-400" />
                               ) : (
@@ -600,6 +934,16 @@ export function TestCaseList({
                               >
                                 <PencilIcon className="h-4 w-4" />
                               </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setRefineScope({ label: testCase.id, testCases: [testCase] });
+                                }}
+                                className="p-1.5 text-gray-400 hover:text-gray-600 rounded-md hover:bg-gray-100 transition-colors"
+                                title="Refine test case"
+                              >
+                                <SparklesIcon className="h-4 w-4" />
+                              </button>
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -644,6 +988,12 @@ export function TestCaseList({
                                       onCancel={handleCancel}
                                     />
                                   </div>
+                                ) : isGherkinTestCase(testCase) ? (
+                                  <div className="px-4 py-3">
+                                    <pre className="text-sm font-mono text-gray-700 whitespace-pre-wrap">
+                                      {testCase.markdownContent || formatGherkinScenario(testCase)}
+                                    </pre>
+                                  </div>
                                 ) : (
                                   <div className="px-4 py-3">
                                     <div className="markdown-content text-sm">
@@ -711,6 +1061,7 @@ export function TestCaseList({
                               <h3 className="text-sm font-medium text-gray-900">
                                 {testCase.title}
                               </h3>
+                              <OverlapBadge testCase={testCase} />
                               {expandedIds.has(testCase.id) ? (
                                 <ChevronUpIcon className="h-4 w-4 text-gray-400" />
                               ) : (
@@ -799,6 +1150,23 @@ export function TestCaseList({
           )}
         </>
       )}
+      {refineScope && (
+        <RefinePanel
+          scopeLabel={refineScope.label}
+          testCases={refineScope.testCases}
+          contextCases={localTestCases.filter((testCase) => !refineScope.testCases.some((target) => target.id === testCase.id))}
+          mode={mode}
+          requirements={requirements}
+          onAccept={handleAcceptRefinement}
+          onClose={() => setRefineScope(null)}
+        />
+      )}
+      {isAutomationOpen && (
+        <AutomationPanel
+          testCases={automatableTestCases}
+          onClose={() => setIsAutomationOpen(false)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
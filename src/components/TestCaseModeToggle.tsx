@@ -2,7 +2,7 @@
 
 import { TestCaseMode } from '@/lib/types';
 import { cn } from '@/lib/utils';
-import { DocumentTextIcon, DocumentMagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { DocumentTextIcon, DocumentMagnifyingGlassIcon, CodeBracketIcon } from '@heroicons/react/24/outline';
 
 interface TestCaseModeToggleProps {
   mode: TestCaseMode;
@@ -10,6 +10,12 @@ interface TestCaseModeToggleProps {
   className?: string;
 }
 
+const MODE_DESCRIPTIONS: Record<TestCaseMode, string> = {
+  'high-level': 'Generate high-level test scenarios and acceptance criteria',
+  detailed: 'Generate detailed test cases with step-by-step instructions',
+  gherkin: 'Generate Given/When/Then scenarios ready for .feature files',
+};
+
 export function TestCaseModeToggle({
   mode,
   onModeChange,
@@ -76,12 +82,37 @@ export function TestCaseModeToggle({
               <div className="absolute inset-0 rounded-xl bg-blue-400/10 animate-pulse -z-10"></div>
             )}
           </button>
+          <button
+            onClick={() => onModeChange('gherkin')}
+            className={cn(
+              'flex-1 relative px-4 py-2.5 rounded-xl transition-all duration-300 flex items-center justify-center gap-2 group',
+              'focus:outline-none',
+              mode === 'gherkin'
+                ? [
+                    'bg-gradient-to-r from-blue-500/20 to-purple-500/20 backdrop-blur-sm',
+                    'shadow-[inset_0_1px_1px_rgba(255,255,255,0.1)]',
+                    'border border-white/20',
+                    'text-white font-medium',
+                  ].join(' ')
+                : [
+                    'hover:bg-white/5',
+                    'text-blue-200 hover:text-blue-100',
+                    'border border-transparent',
+                  ].join(' ')
+            )}
+          >
+            <CodeBracketIcon className={cn(
+              "h-5 w-5 transition-colors duration-300",
+              mode === 'gherkin' ? 'text-blue-200' : 'text-blue-300 group-hover:text-blue-200'
+            )} />
+            <span>Gherkin</span>
+            {mode === 'gherkin' && (
+              <div className="absolute inset-0 rounded-xl bg-blue-400/10 animate-pulse -z-10"></div>
+            )}
+          </button>
         </div>
         <p className="mt-2 text-xs text-blue-300 text-center">
-          {mode === 'detailed' 
-            ? 'Generate detailed test cases with step-by-step instructions'
-            : 'Generate high-level test scenarios and acceptance criteria'
-          }
+          {MODE_DESCRIPTIONS[mode]}
         </p>
       </div>
     </div>
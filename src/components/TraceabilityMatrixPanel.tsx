@@ -0,0 +1,102 @@
+'use client';
+
+import { useState } from 'react';
+import { TraceabilityMatrix } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface TraceabilityMatrixPanelProps {
+  matrix: TraceabilityMatrix;
+}
+
+export function TraceabilityMatrixPanel({ matrix }: TraceabilityMatrixPanelProps) {
+  const [showDetails, setShowDetails] = useState(false);
+  const [showUncoveredOnly, setShowUncoveredOnly] = useState(false);
+
+  const coveredCount = matrix.requirements.length - matrix.uncoveredRequirementIds.length;
+  const coveragePercent = Math.round(matrix.coverage * 100);
+  const rows = showUncoveredOnly
+    ? matrix.requirements.filter((entry) => entry.caseIds.length === 0)
+    : matrix.requirements;
+
+  // Rendered inside the results tab group, which supplies the card
+  return (
+    <div>
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-blue-50">Traceability Matrix</h3>
+          <p className="text-xs text-blue-200/70">
+            {coveredCount} of {matrix.requirements.length} requirements covered ({coveragePercent}%)
+            {matrix.uncoveredRequirementIds.length > 0 && ` · ${matrix.uncoveredRequirementIds.length} uncovered`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowDetails((prev) => !prev)}
+          className="text-xs font-semibold text-blue-200 hover:text-blue-100 border border-white/20 rounded-full px-3 py-1 transition-colors"
+        >
+          {showDetails ? 'Hide details' : 'Show details'}
+        </button>
+      </div>
+
+      {showDetails && (
+        <div className="mt-4 space-y-3">
+          <label className="flex items-center gap-2 text-xs text-blue-200/80">
+            <input
+              type="checkbox"
+              checked={showUncoveredOnly}
+              onChange={(event) => setShowUncoveredOnly(event.target.checked)}
+              className="h-3.5 w-3.5 rounded border-white/20 bg-slate-900/80"
+            />
+            Show uncovered requirements only
+          </label>
+
+          <div className="overflow-x-auto rounded-xl border border-white/10">
+            <table className="min-w-full text-left text-sm text-blue-100">
+              <thead className="bg-white/5 text-xs uppercase tracking-wide text-blue-200/70">
+                <tr>
+                  <th className="px-4 py-2 font-semibold">Requirement</th>
+                  <th className="px-4 py-2 font-semibold">Description</th>
+                  <th className="px-4 py-2 font-semibold">Covered by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((entry) => {
+                  const isCovered = entry.caseIds.length > 0;
+                  return (
+                    <tr key={entry.id} className="border-t border-white/10 align-top">
+                      <td className="px-4 py-2 font-semibold whitespace-nowrap">{entry.id}</td>
+                      <td className="px-4 py-2">
+                        <p>{entry.text}</p>
+                        {entry.source && entry.source !== 'requirements' && (
+                          <p className="mt-1 text-xs text-blue-200/60">Source: {entry.source}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span
+                          className={cn(
+                            'text-xs font-medium rounded-full border px-3 py-1 inline-block',
+                            isCovered
+                              ? 'text-green-100 bg-green-500/20 border-green-500/30'
+                              : 'text-red-100 bg-red-500/20 border-red-500/30'
+                          )}
+                        >
+                          {isCovered ? entry.caseIds.join(', ') : 'Uncovered'}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {matrix.untracedCaseIds.length > 0 && (
+            <p className="text-xs text-amber-200">
+              Cases without a requirement link: {matrix.untracedCaseIds.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,13 @@
 import { EyeIcon, LightBulbIcon } from '@heroicons/react/24/outline';
-import type { ExportConfig } from '@/lib/data-generator/types';
+import { MAX_STREAMED_ROWS, STREAMABLE_EXPORT_FORMATS, STREAMING_ROW_THRESHOLD } from '@/lib/data-generator/constants';
+import { SQL_DIALECTS } from '@/lib/data-generator/sqlExport';
+import type {
+  ExportConfig,
+  RelationalExportMode,
+  SqlExportOptions,
+  XmlExportOptions,
+} from '@/lib/data-generator/types';
+import type { SQLDialect } from '@/lib/types/sql';
 
 const ENHANCEMENT_PROMPT_EXAMPLES = [
   'Generate sci-fi character names',
@@ -13,9 +21,22 @@ interface ExportOptionsProps {
   onExport: () => void;
   onPreview: () => void;
   hasAIGeneratedFields: boolean;
+  relationalExportMode?: RelationalExportMode;  // Set for multi-table schemas; rows then come from each table
+  onRelationalExportModeChange?: (mode: RelationalExportMode) => void;
 }
 
-export function ExportOptions({ config, onConfigChange, onExport, onPreview, hasAIGeneratedFields }: ExportOptionsProps) {
+export function ExportOptions({
+  config,
+  onConfigChange,
+  onExport,
+  onPreview,
+  hasAIGeneratedFields,
+  relationalExportMode,
+  onRelationalExportModeChange,
+}: ExportOptionsProps) {
+  const showSqlOptions = config.format === 'SQL' || relationalExportMode === 'sql-script';
+  const showFormatOptions = relationalExportMode !== 'sql-script';
+  const isJsonFormat = config.format === 'JSON' || config.format === 'NDJSON';
   const enhancementPlaceholder = `Examples: ${ENHANCEMENT_PROMPT_EXAMPLES.map((example) => `"${example}"`).join(', ')}`;
 
   const handleRowCountChange = (value: string) => {
@@ -56,6 +77,20 @@ export function ExportOptions({ config, onConfigChange, onExport, onPreview, has
     });
   };
   
+  const handleSqlOptionsChange = (patch: Partial<SqlExportOptions>) => {
+    onConfigChange({
+      ...config,
+      sql: { ...config.sql, ...patch },
+    });
+  };
+
+  const handleXmlOptionsChange = (patch: Partial<XmlExportOptions>) => {
+    onConfigChange({
+      ...config,
+      xml: { ...config.xml, ...patch },
+    });
+  };
+
   const handleToggleAIEnhancement = () => {
     onConfigChange({
       ...config,
@@ -88,30 +123,56 @@ export function ExportOptions({ config, onConfigChange, onExport, onPreview, has
   return (
     <div className="bg-slate-800/70 backdrop-blur-sm rounded-xl border border-slate-700 p-4 mt-4">
       <div className="flex flex-wrap items-center gap-6">
-        <div className="flex items-center">
-          <label className="block text-white text-sm font-medium mr-2"># Rows:</label>
-          <input
-            type="number"
-            value={config.rowCount}
-            onChange={(e) => handleRowCountChange(e.target.value)}
-            className="w-24 bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1"
-            min="1"
-            max="10000"
-          />
-        </div>
+        {relationalExportMode ? (
+          <div className="flex items-center">
+            <label className="block text-white text-sm font-medium mr-2">Export as:</label>
+            <div className="relative">
+              <select
+                value={relationalExportMode}
+                onChange={(e) => onRelationalExportModeChange?.(e.target.value as RelationalExportMode)}
+                className="bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1 pr-8 appearance-none"
+              >
+                <option value="per-table">One file per table (zip)</option>
+                <option value="sql-script">Single SQL script</option>
+              </select>
+              <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-400">
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center">
+            <label className="block text-white text-sm font-medium mr-2"># Rows:</label>
+            <input
+              type="number"
+              value={config.rowCount}
+              onChange={(e) => handleRowCountChange(e.target.value)}
+              className="w-28 bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1"
+              min="1"
+              max={MAX_STREAMED_ROWS}
+            />
+          </div>
+        )}
         
         <div className="flex items-center">
           <label className="block text-white text-sm font-medium mr-2">Format:</label>
           <div className="relative">
             <select
-              value={config.format}
+              value={config.format === 'NDJSON' ? 'JSON' : config.format}
               onChange={(e) => handleFormatChange(e.target.value as ExportConfig['format'])}
-              className="bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1 pr-8 appearance-none"
+              disabled={relationalExportMode === 'sql-script'}
+              className="bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1 pr-8 appearance-none disabled:opacity-50"
             >
               <option value="CSV">CSV</option>
+              <option value="TSV">TSV</option>
               <option value="JSON">JSON</option>
+              <option value="XML">XML</option>
+              <option value="YAML">YAML</option>
               <option value="SQL">SQL</option>
               <option value="Excel">Excel</option>
+              <option value="Parquet">Parquet</option>
             </select>
             <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-400">
               <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -184,6 +245,144 @@ export function ExportOptions({ config, onConfigChange, onExport, onPreview, has
         </div>
       </div>
       
+      {!relationalExportMode && config.rowCount > STREAMING_ROW_THRESHOLD && (
+        <p className="mt-3 text-xs text-slate-400">
+          {(STREAMABLE_EXPORT_FORMATS as readonly string[]).includes(config.format)
+            ? `Exports over ${STREAMING_ROW_THRESHOLD.toLocaleString()} rows stream from the server in chunks, so very large files download without freezing the page.`
+            : `To stream more than ${STREAMING_ROW_THRESHOLD.toLocaleString()} rows, choose CSV, NDJSON or SQL.`}
+        </p>
+      )}
+
+      {showFormatOptions && isJsonFormat && (
+        <div className="mt-4 border-t border-slate-700 pt-4 flex flex-wrap items-center gap-6">
+          <div className="flex items-center">
+            <label className="block text-white text-sm font-medium mr-2">JSON layout:</label>
+            <div className="relative">
+              <select
+                value={config.format}
+                onChange={(e) => handleFormatChange(e.target.value as ExportConfig['format'])}
+                className="bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1 pr-8 appearance-none"
+              >
+                <option value="JSON">JSON array</option>
+                <option value="NDJSON">One object per line (NDJSON)</option>
+              </select>
+              <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-400">
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showFormatOptions && config.format === 'XML' && (
+        <div className="mt-4 border-t border-slate-700 pt-4 flex flex-wrap items-center gap-6">
+          {(
+            [
+              ['rootElement', 'Root element'],
+              ['rowElement', 'Row element'],
+            ] as const
+          ).map(([key, label]) => (
+            <div key={key} className="flex items-center">
+              <label className="block text-white text-sm font-medium mr-2">{label}:</label>
+              <input
+                type="text"
+                value={config.xml[key]}
+                onChange={(e) => handleXmlOptionsChange({ [key]: e.target.value })}
+                className="w-32 bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showFormatOptions && config.format === 'Parquet' && (
+        <div className="mt-4 border-t border-slate-700 pt-4">
+          <p className="text-xs text-slate-400">
+            Parquet columns are typed from each field: whole numbers become INT32 or INT64, decimals DOUBLE, booleans
+            BOOLEAN, dates DATE or TIMESTAMP, and everything else UTF-8 strings. Nulls are kept.
+          </p>
+        </div>
+      )}
+
+      {showSqlOptions && (
+        <div className="mt-4 border-t border-slate-700 pt-4 flex flex-wrap items-center gap-6">
+          <div className="flex items-center">
+            <label className="block text-white text-sm font-medium mr-2">Dialect:</label>
+            <div className="relative">
+              <select
+                value={config.sql.dialect}
+                onChange={(e) => handleSqlOptionsChange({ dialect: e.target.value as SQLDialect })}
+                className="bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1 pr-8 appearance-none"
+              >
+                {SQL_DIALECTS.map((dialect) => (
+                  <option key={dialect} value={dialect}>
+                    {dialect}
+                  </option>
+                ))}
+              </select>
+              <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-slate-400">
+                <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center">
+            <label className="block text-white text-sm font-medium mr-2">Rows per INSERT:</label>
+            <input
+              type="number"
+              value={config.sql.batchSize}
+              onChange={(e) => {
+                const batchSize = parseInt(e.target.value);
+                if (!isNaN(batchSize) && batchSize > 0) {
+                  handleSqlOptionsChange({ batchSize });
+                }
+              }}
+              disabled={config.sql.usePostgresCopy && config.sql.dialect === 'PostgreSQL'}
+              className="w-20 bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1 disabled:opacity-50"
+              min="1"
+              max="1000"
+            />
+          </div>
+
+          {(
+            [
+              ['includeCreateTable', 'CREATE TABLE'],
+              ['includeDropTable', 'DROP TABLE IF EXISTS'],
+              ['wrapInTransaction', 'Wrap in transaction'],
+            ] as const
+          ).map(([key, label]) => (
+            <label key={key} className="inline-flex items-center gap-2 text-sm text-white">
+              <input
+                type="checkbox"
+                checked={config.sql[key]}
+                onChange={() => handleSqlOptionsChange({ [key]: !config.sql[key] })}
+                className="form-checkbox h-4 w-4 text-blue-600 bg-slate-700 border-slate-600 rounded"
+              />
+              <span className="font-medium">{label}</span>
+            </label>
+          ))}
+
+          {config.sql.dialect === 'PostgreSQL' && (
+            <label
+              className="inline-flex items-center gap-2 text-sm text-white"
+              title="Writes rows as COPY … FROM stdin, which loads much faster through psql"
+            >
+              <input
+                type="checkbox"
+                checked={config.sql.usePostgresCopy}
+                onChange={() => handleSqlOptionsChange({ usePostgresCopy: !config.sql.usePostgresCopy })}
+                className="form-checkbox h-4 w-4 text-blue-600 bg-slate-700 border-slate-600 rounded"
+              />
+              <span className="font-medium">Use COPY (psql)</span>
+            </label>
+          )}
+        </div>
+      )}
+
       {/* AI Context Section - Only show if there are AI-Generated fields */}
       {hasAIGeneratedFields && (
         <div className="mt-4 border-t border-slate-700 pt-4">
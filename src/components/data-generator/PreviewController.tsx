@@ -2,7 +2,7 @@ import { ArrowPathIcon, ArrowTopRightOnSquareIcon, ClipboardDocumentListIcon, XM
 import { useState } from 'react';
 
 import type { ExportConfig } from '@/lib/data-generator/types';
-import { formatPreviewData } from '@/lib/data-generator/formatPreview';
+import { formatPreviewData, type FormatPreviewOptions } from '@/lib/data-generator/formatPreview';
 import type { TestDataGenerationMetadata } from '@/lib/types/testData';
 
 interface ToastParams {
@@ -14,11 +14,7 @@ interface ToastParams {
 interface PreviewControllerProps {
   data: Array<Record<string, unknown>>;
   format: ExportConfig['format'];
-  options: {
-    lineEnding: ExportConfig['lineEnding'];
-    includeHeader: boolean;
-    includeBOM: boolean;
-  };
+  options: FormatPreviewOptions;
   metadata: TestDataGenerationMetadata | null;
   isRefreshing: boolean;
   onRefresh: () => void | Promise<void>;
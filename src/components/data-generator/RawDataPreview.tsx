@@ -1,16 +1,13 @@
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { atomDark } from 'react-syntax-highlighter/dist/cjs/styles/prism';
 
-import { formatPreviewData } from '@/lib/data-generator/formatPreview';
+import { formatPreviewData, type FormatPreviewOptions } from '@/lib/data-generator/formatPreview';
+import type { ExportFormat } from '@/lib/data-generator/types';
 
 interface RawDataPreviewProps {
   data: any[];
-  format: 'CSV' | 'JSON' | 'SQL' | 'Excel';
-  options: {
-    lineEnding: 'Unix (LF)' | 'Windows (CRLF)';
-    includeHeader: boolean;
-    includeBOM: boolean;
-  };
+  format: ExportFormat;
+  options: FormatPreviewOptions;
 }
 
 export function RawDataPreview({ data, format, options }: RawDataPreviewProps) {
@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 
+import type { ForeignKeySummary } from '@/lib/data-generator/relational';
 import type { FieldDefinition } from '@/lib/data-generator/types';
 
 interface RelationalPreviewProps {
@@ -142,3 +143,65 @@ export function RelationalPreview({ data, fields }: RelationalPreviewProps) {
     </div>
   );
 }
+
+interface ForeignKeyPreviewProps {
+  summaries: ForeignKeySummary[];
+}
+
+/** Per foreign key: how children spread over parent rows, and whether any value misses its parent. */
+export function ForeignKeyPreview({ summaries }: ForeignKeyPreviewProps) {
+  if (summaries.length === 0) {
+    return (
+      <div className="rounded-xl border border-slate-700 bg-slate-900/60 px-4 py-6 text-sm text-slate-300">
+        <p>No foreign keys defined between these tables.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-slate-700 bg-slate-900/70">
+      <table className="w-full text-left text-xs text-slate-200">
+        <thead className="bg-slate-800/70 uppercase text-slate-400">
+          <tr>
+            <th className="px-3 py-2">Foreign key</th>
+            <th className="px-3 py-2">References</th>
+            <th className="px-3 py-2">Rows</th>
+            <th className="px-3 py-2">Parents used</th>
+            <th className="px-3 py-2">Children per parent</th>
+            <th className="px-3 py-2">Nulls</th>
+            <th className="px-3 py-2">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summaries.map((summary) => (
+            <tr key={`${summary.tableName}.${summary.fieldName}`} className="border-b border-slate-800/60">
+              <td className="px-3 py-2 font-mono text-slate-100">
+                {summary.tableName}.{summary.fieldName}
+              </td>
+              <td className="px-3 py-2 font-mono">
+                {summary.parentTable}.{summary.parentColumn} ({summary.cardinality})
+              </td>
+              <td className="px-3 py-2">{summary.rows}</td>
+              <td className="px-3 py-2">
+                {summary.referencedParents} / {summary.parentCount}
+              </td>
+              <td className="px-3 py-2">
+                {summary.minChildren === summary.maxChildren
+                  ? summary.minChildren
+                  : `${summary.minChildren}–${summary.maxChildren}`}
+              </td>
+              <td className="px-3 py-2">{summary.nulls}</td>
+              <td className="px-3 py-2">
+                {summary.dangling > 0 ? (
+                  <span className="rounded bg-amber-500/20 px-2 py-1 text-amber-200">{summary.dangling} dangling</span>
+                ) : (
+                  <span className="rounded bg-emerald-500/20 px-2 py-1 text-emerald-200">All keys match</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import { TemplateSelectionDialog } from './TemplateSelectionDialog';
 import { TypeOptionHint } from './TypeOptionHint';
 import { fakerTypeDefinitions } from '@/lib/data/faker-type-definitions';
 import { TypeOption } from '@/lib/types/testData';
-import type { FieldDefinition, FieldOptionValue, FieldOptions } from '@/lib/data-generator/types';
+import type { FieldDefinition, FieldOptionValue, FieldOptions, TableDefinition } from '@/lib/data-generator/types';
 import { validateFieldDefinition } from '@/lib/data-generator/fieldValidation';
 import {
   addBlankField,
@@ -36,6 +36,7 @@ interface SchemaBuilderProps {
   onFieldUpdate?: (index: number, patch: Partial<FieldDefinition>) => void;
   onFieldOptionsUpdate?: (index: number, optionsPatch: FieldOptions) => void;
   onReplaceAll?: (fields: FieldDefinition[]) => void;
+  relatedTables?: TableDefinition[];  // Other tables of a multi-table schema; Foreign Key fields pick their parent here
 }
 
 export function SchemaBuilder({
@@ -48,6 +49,7 @@ export function SchemaBuilder({
   onFieldUpdate,
   onFieldOptionsUpdate,
   onReplaceAll,
+  relatedTables,
 }: SchemaBuilderProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
@@ -264,6 +266,116 @@ export function SchemaBuilder({
     );
   };
 
+  const renderForeignKeyOptions = (field: FieldDefinition, index: number) => {
+    const errors = getFieldErrors(field.id);
+    if (!relatedTables || relatedTables.length === 0) {
+      return (
+        <TypeOptionHint title="No parent tables" tone="warning">
+          Switch to multiple tables and add the parent table, then pick its key column here.
+        </TypeOptionHint>
+      );
+    }
+
+    const table = typeof field.options.table === 'string' ? field.options.table : '';
+    const parent = relatedTables.find((candidate) => candidate.name === table);
+    const inputClass = `bg-slate-800 px-2 py-1 text-sm rounded-lg border ${errors.length ? 'border-red-500' : 'border-slate-700'} text-white`;
+
+    return (
+      <div className="flex flex-col space-y-2 py-1">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            Parent table:
+            <select
+              value={table}
+              onChange={(e) => handleOptionsChange(index, { table: e.target.value, column: '' })}
+              className={inputClass}
+            >
+              <option value="">Select table…</option>
+              {relatedTables.map((candidate) => (
+                <option key={candidate.id} value={candidate.name}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            Key column:
+            <select
+              value={typeof field.options.column === 'string' ? field.options.column : ''}
+              onChange={(e) => handleOptionChange(index, 'column', e.target.value)}
+              disabled={!parent}
+              className={inputClass}
+            >
+              <option value="">Select column…</option>
+              {(parent?.fields ?? []).map((candidate) => (
+                <option key={candidate.id} value={candidate.name}>
+                  {candidate.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            Cardinality:
+            <select
+              value={field.options.cardinality === '1:1' ? '1:1' : '1:N'}
+              onChange={(e) => handleOptionChange(index, 'cardinality', e.target.value)}
+              className={inputClass}
+            >
+              <option value="1:N">1:N (many children per parent)</option>
+              <option value="1:1">1:1 (each parent used once)</option>
+            </select>
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {field.options.cardinality !== '1:1' && (
+            <label className="flex items-center gap-2 text-xs text-slate-300">
+              Children per parent:
+              <input
+                type="number"
+                min={0}
+                placeholder="min"
+                value={resolveOptionValue(field.options.minChildren)}
+                onChange={(e) => handleOptionChange(index, 'minChildren', e.target.value === '' ? '' : Number(e.target.value))}
+                className={`${inputClass} w-20`}
+              />
+              –
+              <input
+                type="number"
+                min={0}
+                placeholder="max"
+                value={resolveOptionValue(field.options.maxChildren)}
+                onChange={(e) => handleOptionChange(index, 'maxChildren', e.target.value === '' ? '' : Number(e.target.value))}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+          )}
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            Null %:
+            <input
+              type="number"
+              min={0}
+              max={99}
+              value={resolveOptionValue(field.options.nullPercent)}
+              onChange={(e) => handleOptionChange(index, 'nullPercent', e.target.value === '' ? '' : Number(e.target.value))}
+              className={`${inputClass} w-20`}
+            />
+          </label>
+        </div>
+        {errors.length > 0 && (
+          <ul className="text-xs text-red-400 space-y-0.5">
+            {errors.map((message, idx) => (
+              <li key={`${field.id}-foreign-key-${idx}`}>{message}</li>
+            ))}
+          </ul>
+        )}
+        <TypeOptionHint title="Foreign key" tone={errors.length ? 'warning' : 'info'}>
+          Set children per parent to size this table from its parent&apos;s rows; leave both blank to use the table&apos;s own
+          row count. Parent key columns should be unique, e.g. Row Number or UUID.
+        </TypeOptionHint>
+      </div>
+    );
+  };
+
   const hasSchemas = useMemo(() => schemas.length > 0, [schemas.length]);
 
   const handleApplyTemplate = (template: SchemaTemplate) => {
@@ -312,6 +424,10 @@ export function SchemaBuilder({
     if (typeName === 'Reference') {
       defaultOptions.sourceField = '';
     }
+
+    if (typeName === 'Foreign Key') {
+      Object.assign(defaultOptions, { table: '', column: '', cardinality: '1:N', nullPercent: 0 });
+    }
     
     if (onFieldUpdate) {
       onFieldUpdate(activeFieldIndex, {
@@ -330,9 +446,8 @@ export function SchemaBuilder({
     onChange(next);
   };
   
-  const handleOptionChange = (index: number, optionName: string, value: FieldOptionValue) => {
+  const handleOptionsChange = (index: number, patch: FieldOptions) => {
     if (onFieldOptionsUpdate) {
-      const patch = { [optionName]: value } as FieldOptions;
       onFieldOptionsUpdate(index, patch);
       return;
     }
@@ -341,12 +456,16 @@ export function SchemaBuilder({
       ...next[index],
       options: {
         ...next[index].options,
-        [optionName]: value,
+        ...patch,
       },
     };
     onChange(next);
   };
 
+  const handleOptionChange = (index: number, optionName: string, value: FieldOptionValue) => {
+    handleOptionsChange(index, { [optionName]: value } as FieldOptions);
+  };
+
   const renderTypeHint = (type: string, errors: string[]) => {
     if (type === 'Number' || type === 'Decimal Number' || type === 'Car Model Year') {
       return (
@@ -406,14 +525,48 @@ export function SchemaBuilder({
       return renderReferenceOptions(field, index);
     }
 
-    const typeDefinition = fakerTypeDefinitions[type];
-    if (!typeDefinition || !typeDefinition.options || typeDefinition.options.length === 0) {
-      return null;
+    if (type === 'Foreign Key') {
+      return renderForeignKeyOptions(field, index);
     }
 
     const errors = fieldErrors[field.id] ?? [];
     const hasError = errors.length > 0;
     const baseInputClass = hasError ? 'bg-slate-800 border border-red-500 text-white rounded-lg px-2 py-1 text-sm' : 'bg-slate-800 border border-slate-700 text-white rounded-lg px-2 py-1 text-sm';
+
+    // Imported nullable columns carry a null share; fields added by hand never get one.
+    const nullPercentInput = options.nullPercent !== undefined && (
+      <div className="flex items-center shrink-0">
+        <span className="text-xs text-slate-300 mr-1">null %:</span>
+        <input
+          type="number"
+          min={0}
+          max={99}
+          value={resolveOptionValue(options.nullPercent)}
+          onChange={(e) => handleOptionChange(index, 'nullPercent', e.target.value === '' ? '' : Number(e.target.value))}
+          className={`w-16 ${baseInputClass}`}
+        />
+      </div>
+    );
+
+    const typeDefinition = fakerTypeDefinitions[type];
+    if (!typeDefinition || !typeDefinition.options || typeDefinition.options.length === 0) {
+      if (!nullPercentInput) {
+        return null;
+      }
+      return (
+        <div className="flex flex-col space-y-2 py-1">
+          <div className="flex flex-nowrap items-center space-x-2">{nullPercentInput}</div>
+          {hasError && (
+            <ul className="text-xs text-red-400 space-y-0.5">
+              {errors.map((message, idx) => (
+                <li key={`${field.id}-error-${idx}`}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      );
+    }
+
     const hint = renderTypeHint(type, errors);
 
     return (
@@ -595,6 +748,8 @@ export function SchemaBuilder({
               )}
             </div>
           )}
+
+          {nullPercentInput}
         </div>
         {hasError && type !== 'Custom List' && (
           <ul className="text-xs text-red-400 space-y-0.5">
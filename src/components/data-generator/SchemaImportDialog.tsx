@@ -0,0 +1,211 @@
+'use client';
+
+import { Fragment, useRef, useState } from 'react';
+import { Dialog, Transition } from '@headlessui/react';
+import { ArrowUpTrayIcon, DocumentArrowDownIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+import { importSchema, type SchemaImportFormat, type SchemaImportResult } from '@/lib/schema-import';
+
+interface SchemaImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (result: SchemaImportResult) => void;
+}
+
+const FORMAT_LABELS: Record<SchemaImportFormat, string> = {
+  sql: 'SQL DDL',
+  'json-schema': 'JSON Schema',
+  openapi: 'OpenAPI',
+};
+
+export function SchemaImportDialog({ isOpen, onClose, onImport }: SchemaImportDialogProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [content, setContent] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [format, setFormat] = useState<SchemaImportFormat | 'auto'>('auto');
+  const [result, setResult] = useState<SchemaImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setContent('');
+    setFileName(undefined);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setContent(await file.text());
+    setFileName(file.name);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleParse = () => {
+    setError(null);
+    try {
+      const parsed = importSchema(content, { format: format === 'auto' ? undefined : format, fileName });
+      if (parsed.tables.length === 0) {
+        setResult(null);
+        setError(parsed.warnings[0] ?? 'No tables found in the schema.');
+        return;
+      }
+      setResult(parsed);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to import the schema.');
+    }
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onImport(result);
+    handleClose();
+  };
+
+  return (
+    <Transition appear show={isOpen} as={Fragment}>
+      <Dialog as="div" className="relative z-50" onClose={handleClose}>
+        <Transition.Child
+          as={Fragment}
+          enter="ease-out duration-300"
+          enterFrom="opacity-0"
+          enterTo="opacity-100"
+          leave="ease-in duration-200"
+          leaveFrom="opacity-100"
+          leaveTo="opacity-0"
+        >
+          <div className="fixed inset-0 bg-black/70" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-center justify-center p-4">
+            <Transition.Child
+              as={Fragment}
+              enter="ease-out duration-300"
+              enterFrom="opacity-0 scale-95"
+              enterTo="opacity-100 scale-100"
+              leave="ease-in duration-200"
+              leaveFrom="opacity-100 scale-100"
+              leaveTo="opacity-0 scale-95"
+            >
+              <Dialog.Panel className="w-full max-w-3xl transform overflow-hidden rounded-xl bg-slate-900 shadow-xl transition-all">
+                <div className="flex items-center justify-between px-5 py-4 border-b border-slate-700">
+                  <div className="flex items-center gap-2">
+                    <DocumentArrowDownIcon className="h-5 w-5 text-blue-300" />
+                    <Dialog.Title className="text-lg font-semibold text-white">Import Schema</Dialog.Title>
+                  </div>
+                  <button onClick={handleClose} className="p-1 rounded-lg hover:bg-slate-700 transition-colors">
+                    <XMarkIcon className="h-6 w-6 text-slate-300" />
+                  </button>
+                </div>
+
+                <div className="space-y-4 p-5">
+                  <p className="text-xs text-slate-400">
+                    Paste CREATE TABLE statements (MySQL, PostgreSQL, SQL Server), a JSON Schema, or an OpenAPI document.
+                    Several tables switch the builder to multiple tables, with foreign keys kept.
+                  </p>
+                  <div className="flex flex-wrap items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => inputRef.current?.click()}
+                      className="flex items-center gap-1.5 rounded-lg border border-slate-600 bg-slate-800 px-3 py-1.5 text-xs font-medium text-slate-200 hover:bg-slate-700"
+                    >
+                      <ArrowUpTrayIcon className="h-4 w-4" />
+                      Choose file
+                    </button>
+                    <input
+                      ref={inputRef}
+                      type="file"
+                      accept=".sql,.ddl,.json,.yaml,.yml"
+                      className="hidden"
+                      onChange={handleFileChange}
+                    />
+                    {fileName && <span className="text-xs text-slate-400">{fileName}</span>}
+                    <label className="ml-auto flex items-center gap-2 text-xs text-slate-300">
+                      Format:
+                      <select
+                        value={format}
+                        onChange={(event) => setFormat(event.target.value as SchemaImportFormat | 'auto')}
+                        className="bg-slate-800 border border-slate-700 text-white rounded-lg px-2 py-1 text-sm"
+                      >
+                        <option value="auto">Detect</option>
+                        {(Object.keys(FORMAT_LABELS) as SchemaImportFormat[]).map((key) => (
+                          <option key={key} value={key}>
+                            {FORMAT_LABELS[key]}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                  <textarea
+                    value={content}
+                    onChange={(event) => {
+                      setContent(event.target.value);
+                      setResult(null);
+                    }}
+                    rows={12}
+                    spellCheck={false}
+                    placeholder={'CREATE TABLE users (\n  id SERIAL PRIMARY KEY,\n  email VARCHAR(255) NOT NULL\n);'}
+                    className="w-full bg-slate-800 border border-slate-700 text-white rounded-lg px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+
+                  {error && <p className="text-xs text-red-300">{error}</p>}
+
+                  {result && (
+                    <div className="space-y-2 rounded-lg border border-slate-700 bg-slate-800/60 p-3">
+                      <p className="text-xs text-slate-300">
+                        {FORMAT_LABELS[result.format]}: {result.tables.length}{' '}
+                        {result.tables.length === 1 ? 'table' : 'tables'}
+                      </p>
+                      <ul className="text-xs text-slate-300 space-y-1">
+                        {result.tables.map((table) => (
+                          <li key={table.id} className="flex justify-between gap-2">
+                            <span className="font-medium text-slate-200">{table.name}</span>
+                            <span className="text-slate-400">{table.fields.length} fields</span>
+                          </li>
+                        ))}
+                      </ul>
+                      {result.warnings.length > 0 && (
+                        <ul className="text-xs text-amber-300 space-y-0.5">
+                          {result.warnings.map((warning) => (
+                            <li key={warning}>{warning}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={handleParse}
+                      disabled={!content.trim()}
+                      className="text-sm border border-slate-600 text-slate-200 hover:bg-slate-700 rounded-lg px-3 py-2 transition-colors disabled:opacity-50"
+                    >
+                      Parse
+                    </button>
+                    <button
+                      onClick={handleApply}
+                      disabled={!result}
+                      className="text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg px-3 py-2 transition-colors disabled:opacity-50"
+                    >
+                      Replace schema
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
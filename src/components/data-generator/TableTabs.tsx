@@ -0,0 +1,113 @@
+'use client';
+
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { TypeOptionHint } from './TypeOptionHint';
+import type { TableRelationIssue } from '@/lib/data-generator/referenceValidation';
+import { drivingForeignKey } from '@/lib/data-generator/relational';
+import type { TableDefinition } from '@/lib/data-generator/types';
+
+interface TableTabsProps {
+  tables: TableDefinition[];
+  activeTableId: string;
+  issues: TableRelationIssue[];
+  cycles: string[][];
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRemove: (id: string) => void;
+  onUpdate: (id: string, patch: Partial<Pick<TableDefinition, 'name' | 'rowCount'>>) => void;
+}
+
+export function TableTabs({ tables, activeTableId, issues, cycles, onSelect, onAdd, onRemove, onUpdate }: TableTabsProps) {
+  const activeTable = tables.find((table) => table.id === activeTableId) ?? tables[0];
+  const driving = activeTable ? drivingForeignKey(activeTable) : null;
+
+  const handleRowCountChange = (value: string) => {
+    const count = parseInt(value);
+    if (activeTable && !isNaN(count) && count >= 0) {
+      onUpdate(activeTable.id, { rowCount: count });
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/70 backdrop-blur-sm rounded-xl border border-slate-700 p-4 space-y-4">
+      <div className="flex flex-wrap items-center gap-2" role="tablist">
+        {tables.map((table) => (
+          <button
+            key={table.id}
+            role="tab"
+            aria-selected={table.id === activeTable?.id}
+            onClick={() => onSelect(table.id)}
+            className={`rounded-lg px-3 py-1.5 text-sm font-medium ${
+              table.id === activeTable?.id
+                ? 'bg-blue-600 text-white shadow'
+                : 'bg-slate-700/50 text-slate-300 hover:bg-slate-700 hover:text-white'
+            }`}
+          >
+            {table.name || 'Untitled table'}
+          </button>
+        ))}
+        <button
+          onClick={onAdd}
+          className="inline-flex items-center gap-1 rounded-lg px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-700 hover:text-white"
+        >
+          <PlusIcon className="h-4 w-4" />
+          Add table
+        </button>
+      </div>
+
+      {activeTable && (
+        <div className="flex flex-wrap items-center gap-6">
+          <label className="flex items-center text-white text-sm font-medium gap-2">
+            Table name:
+            <input
+              type="text"
+              value={activeTable.name}
+              onChange={(e) => onUpdate(activeTable.id, { name: e.target.value })}
+              className="w-48 bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1"
+            />
+          </label>
+          <label className="flex items-center text-white text-sm font-medium gap-2">
+            # Rows:
+            <input
+              type="number"
+              value={activeTable.rowCount}
+              onChange={(e) => handleRowCountChange(e.target.value)}
+              disabled={Boolean(driving)}
+              className="w-24 bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-1 disabled:opacity-50"
+              min="0"
+              max="100000"
+            />
+          </label>
+          {driving && (
+            <span className="text-xs text-slate-400">
+              Rows come from {driving.table}: {driving.fieldName} sets children per parent.
+            </span>
+          )}
+          <button
+            onClick={() => onRemove(activeTable.id)}
+            disabled={tables.length <= 1}
+            className="ml-auto inline-flex items-center gap-1 text-sm text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:hover:text-slate-400"
+          >
+            <TrashIcon className="h-4 w-4" />
+            Remove table
+          </button>
+        </div>
+      )}
+
+      {(issues.length > 0 || cycles.length > 0) && (
+        <TypeOptionHint title="Relationship issues" tone="warning">
+          <ul className="space-y-0.5">
+            {cycles.map((cycle) => (
+              <li key={cycle.join('>')}>Tables reference each other in a cycle: {cycle.join(' → ')}</li>
+            ))}
+            {issues.map((issue, index) => (
+              <li key={`${issue.tableName}-${issue.fieldName}-${index}`}>
+                {issue.fieldName ? `${issue.tableName}.${issue.fieldName}` : issue.tableName}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </TypeOptionHint>
+      )}
+    </div>
+  );
+}
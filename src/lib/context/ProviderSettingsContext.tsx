@@ -21,7 +21,12 @@ import { AgenticDefaults } from '@/lib/types/providers';
 type DomainKey = 'testCases' | 'sql' | 'data';
 
 const isValidProviderId = (value: any): value is LLMProvider =>
-  value === 'openai' || value === 'gemini' || value === 'openrouter';
+  value === 'openai'
+  || value === 'gemini'
+  || value === 'openrouter'
+  || value === 'local'
+  || value === 'anthropic'
+  || value === 'azure';
 
 interface ProviderSettingsContextValue {
   settings: ProviderSettings;
@@ -141,7 +146,7 @@ export function ProviderSettingsProvider({ children }: { children: React.ReactNo
       return fallback;
     }
 
-    if (providerId === 'openrouter') {
+    if (providerId === 'openrouter' || providerId === 'local' || providerId === 'azure') {
       return normalized;
     }
 
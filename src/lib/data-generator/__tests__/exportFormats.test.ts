@@ -0,0 +1,167 @@
+/** @jest-environment node */
+import { ParquetReader } from 'parquetjs-lite';
+import { parse as parseYaml } from 'yaml';
+
+import { formatPreviewData, type FormatPreviewOptions } from '@/lib/data-generator/formatPreview';
+import { ConvertedType, inferParquetColumns, ParquetType, writeParquet } from '@/lib/data-generator/parquet';
+import { toXmlElementName } from '@/lib/data-generator/xmlExport';
+
+const rows = [
+  { id: 1, name: 'Ana <Lee>', notes: 'tab\there', active: true, joined: '2024-02-29' },
+  { id: 2, name: 'Bo & Co', notes: null, active: false, joined: '2023-12-31' },
+];
+
+const options: FormatPreviewOptions = { lineEnding: 'Unix (LF)', includeHeader: true, includeBOM: false };
+
+describe('text export formats', () => {
+  it('writes TSV with escaped tabs and empty nulls', () => {
+    const { content, filename } = formatPreviewData(rows, 'TSV', { ...options, lineEnding: 'Windows (CRLF)' });
+
+    expect(filename).toBe('preview.tsv');
+    expect(content.split('\r\n')).toEqual([
+      'id\tname\tnotes\tactive\tjoined',
+      '1\tAna <Lee>\ttab\\there\ttrue\t2024-02-29',
+      '2\tBo & Co\t\tfalse\t2023-12-31',
+    ]);
+  });
+
+  it('writes NDJSON as one object per line', () => {
+    const { content } = formatPreviewData(rows, 'NDJSON', options);
+    const lines = content.split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toEqual(rows[1]);
+  });
+
+  it('writes YAML that parses back to the same rows', () => {
+    const { content, language } = formatPreviewData(rows, 'YAML', options);
+
+    expect(language).toBe('yaml');
+    expect(parseYaml(content)).toEqual(rows);
+  });
+
+  it('writes XML with custom element names, escaped text and nil nulls', () => {
+    const { content } = formatPreviewData(
+      [{ ...rows[1], '2nd name': 'x' }],
+      'XML',
+      { ...options, xml: { rootElement: 'customers', rowElement: 'customer' } }
+    );
+
+    expect(content).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<customers xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+        '  <customer>',
+        '    <id>2</id>',
+        '    <name>Bo &amp; Co</name>',
+        '    <notes xsi:nil="true"/>',
+        '    <active>false</active>',
+        '    <joined>2023-12-31</joined>',
+        '    <_2nd_name>x</_2nd_name>',
+        '  </customer>',
+        '</customers>',
+      ].join('\n')
+    );
+    expect(toXmlElementName('  ', 'row')).toBe('row');
+  });
+});
+
+describe('Parquet export', () => {
+  it('types columns from field types', () => {
+    const columns = inferParquetColumns(rows, [
+      { name: 'id', type: 'Row Number', options: {} },
+      { name: 'active', type: 'Boolean', options: {} },
+      { name: 'joined', type: 'Date', options: { format: 'YYYY-MM-DD' } },
+      { name: 'name', type: 'Full Name', options: {} },
+    ]);
+
+    expect(columns).toEqual([
+      { name: 'id', type: ParquetType.INT32 },
+      { name: 'active', type: ParquetType.BOOLEAN },
+      { name: 'joined', type: ParquetType.INT32, convertedType: ConvertedType.DATE },
+      { name: 'name', type: ParquetType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 },
+    ]);
+    expect(inferParquetColumns([{ total: 3_000_000_000, ratio: 0.5 }]).map((column) => column.type)).toEqual([
+      ParquetType.INT64,
+      ParquetType.DOUBLE,
+    ]);
+  });
+
+  it('frames the file with magic bytes and a footer that names every column', () => {
+    const bytes = writeParquet(rows);
+    const text = (start: number, end: number) => new TextDecoder().decode(bytes.slice(start, end));
+    const footerLength = new DataView(bytes.buffer).getInt32(bytes.length - 8, true);
+    const footer = text(bytes.length - 8 - footerLength, bytes.length - 8);
+
+    expect(text(0, 4)).toBe('PAR1');
+    expect(text(bytes.length - 4, bytes.length)).toBe('PAR1');
+    Object.keys(rows[0]).forEach((name) => expect(footer).toContain(name));
+  });
+
+  it('round-trips every physical type and null through a Parquet reader', async () => {
+    const source = [
+      { id: 1, total: 3_000_000_000, ratio: 0.25, active: true, name: 'Ana <Lee>', joined: '2024-02-29' },
+      { id: null, total: null, ratio: null, active: null, name: null, joined: null },
+      { id: -7, total: -4_000_000_000, ratio: 1e-9, active: false, name: 'Zoë', joined: '1969-12-31' },
+    ];
+    const columns = [
+      { name: 'id', type: ParquetType.INT32 },
+      { name: 'total', type: ParquetType.INT64 },
+      { name: 'ratio', type: ParquetType.DOUBLE },
+      { name: 'active', type: ParquetType.BOOLEAN },
+      { name: 'name', type: ParquetType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 },
+      { name: 'joined', type: ParquetType.INT32, convertedType: ConvertedType.DATE },
+    ];
+
+    const reader = await ParquetReader.openBuffer(Buffer.from(writeParquet(source, columns)));
+    const cursor = reader.getCursor();
+    const records: Array<Record<string, unknown>> = [];
+    for (let record = await cursor.next(); record; record = await cursor.next()) {
+      records.push(record);
+    }
+    await reader.close();
+
+    expect(records).toHaveLength(3);
+    expect(records[0]).toEqual({
+      id: 1,
+      total: BigInt(3_000_000_000),
+      ratio: 0.25,
+      active: true,
+      name: 'Ana <Lee>',
+      joined: new Date('2024-02-29T00:00:00Z'),
+    });
+    expect(records[1]).toEqual({});
+    expect(records[2]).toEqual({
+      id: -7,
+      total: BigInt(-4_000_000_000),
+      ratio: 1e-9,
+      active: false,
+      name: 'Zoë',
+      joined: new Date('1969-12-31T00:00:00Z'),
+    });
+  });
+
+  it('reads offset-less datetimes as UTC and keeps values that are not dates as text', async () => {
+    const source = [
+      { seen: '2024-03-01 10:15:00', joined: '2024-02-29' },
+      { seen: '2024-03-01T10:15:00+0200', joined: 'last leap day' },
+    ];
+    const columns = [
+      { name: 'seen', type: ParquetType.INT64, convertedType: ConvertedType.TIMESTAMP_MILLIS },
+      { name: 'joined', type: ParquetType.INT32, convertedType: ConvertedType.DATE },
+    ];
+
+    const bytes = writeParquet(source, columns);
+    // parquetjs-lite cannot turn INT64 timestamps back into dates, so look for the raw little-endian millis
+    const int64At = (offset: number) => Number(new DataView(bytes.buffer).getBigInt64(offset, true));
+    const timestamps = Array.from({ length: bytes.length - 7 }, (_, offset) => int64At(offset));
+    expect(timestamps).toContain(Date.UTC(2024, 2, 1, 10, 15));
+    expect(timestamps).toContain(Date.UTC(2024, 2, 1, 8, 15));
+
+    const reader = await ParquetReader.openBuffer(Buffer.from(bytes));
+    const cursor = reader.getCursor(['joined']);
+    expect(await cursor.next()).toEqual({ joined: '2024-02-29' });
+    expect(await cursor.next()).toEqual({ joined: 'last leap day' });
+    await reader.close();
+  });
+});
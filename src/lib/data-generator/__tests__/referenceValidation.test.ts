@@ -1,5 +1,10 @@
-import { collectReferenceIssues } from '@/lib/data-generator/referenceValidation';
-import type { FieldDefinition } from '@/lib/data-generator/types';
+import {
+  collectReferenceIssues,
+  collectTableRelationIssues,
+  findTableCycles,
+  sortTablesByDependency,
+} from '@/lib/data-generator/referenceValidation';
+import type { FieldDefinition, TableDefinition } from '@/lib/data-generator/types';
 
 describe('referenceValidation', () => {
   const makeField = (overrides: Partial<FieldDefinition>): FieldDefinition => ({
@@ -39,4 +44,57 @@ describe('referenceValidation', () => {
 
     expect(collectReferenceIssues(fields)).toEqual([]);
   });
+
+  describe('tables', () => {
+    const makeTable = (name: string, fields: FieldDefinition[]): TableDefinition => ({
+      id: name,
+      name,
+      rowCount: 10,
+      fields,
+    });
+    const foreignKey = (name: string, options: FieldDefinition['options']) =>
+      makeField({ id: name, name, type: 'Foreign Key', options });
+
+    const customers = makeTable('customers', [makeField({ id: 'c1', name: 'id', type: 'Row Number' })]);
+    const orders = makeTable('orders', [
+      makeField({ id: 'o1', name: 'id', type: 'Row Number' }),
+      foreignKey('customer_id', { table: 'customers', column: 'id', minChildren: 1, maxChildren: 3 }),
+    ]);
+    const items = makeTable('items', [foreignKey('order_id', { table: 'orders', column: 'id' })]);
+
+    it('accepts foreign keys that point at existing columns', () => {
+      expect(collectTableRelationIssues([customers, orders, items])).toEqual([]);
+    });
+
+    it('reports unknown tables and columns and bad child bounds', () => {
+      const broken = makeTable('broken', [
+        foreignKey('a', { table: 'missing', column: 'id' }),
+        foreignKey('b', { table: 'customers', column: 'email' }),
+        foreignKey('c', { table: 'customers', column: 'id', minChildren: 4, maxChildren: 2 }),
+      ]);
+
+      expect(collectTableRelationIssues([customers, broken]).map((issue) => issue.message)).toEqual([
+        'Table "missing" not found.',
+        'Column "customers.email" not found.',
+        'Min children per parent must not exceed max.',
+      ]);
+    });
+
+    it('orders parents before children', () => {
+      expect(sortTablesByDependency([items, orders, customers])).toEqual(['customers', 'orders', 'items']);
+      expect(findTableCycles([items, orders, customers])).toEqual([]);
+    });
+
+    it('detects cycles, including self-references', () => {
+      const a = makeTable('a', [foreignKey('b_id', { table: 'b', column: 'id' })]);
+      const b = makeTable('b', [foreignKey('a_id', { table: 'a', column: 'id' })]);
+      const self = makeTable('self', [foreignKey('parent_id', { table: 'self', column: 'id' })]);
+
+      expect(findTableCycles([a, b, self])).toEqual([
+        ['a', 'b', 'a'],
+        ['self', 'self'],
+      ]);
+      expect(sortTablesByDependency([a, b])).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,126 @@
+import { DEFAULT_SQL_EXPORT_OPTIONS } from '@/lib/data-generator/constants';
+import {
+  createSeededRandom,
+  estimateRelationalRowCounts,
+  formatRelationalSql,
+  planForeignKeys,
+  summarizeForeignKeys,
+} from '@/lib/data-generator/relational';
+import type { FieldDefinition, TableDefinition } from '@/lib/data-generator/types';
+
+describe('relational', () => {
+  const makeField = (name: string, type: string, options: FieldDefinition['options'] = {}): FieldDefinition => ({
+    id: name,
+    name,
+    type,
+    options,
+  });
+  const makeTable = (name: string, rowCount: number, fields: FieldDefinition[]): TableDefinition => ({
+    id: name,
+    name,
+    rowCount,
+    fields,
+  });
+
+  const customers = makeTable('customers', 3, [makeField('id', 'Row Number'), makeField('name', 'First Name')]);
+  const parentKeys = () => [1, 2, 3];
+
+  it('gives every parent between min and max children when a foreign key drives the row count', () => {
+    const orders = makeTable('orders', 0, [
+      makeField('customer_id', 'Foreign Key', { table: 'customers', column: 'id', minChildren: 2, maxChildren: 4 }),
+    ]);
+
+    const plan = planForeignKeys(orders, parentKeys, createSeededRandom('orders'));
+    const perParent = [1, 2, 3].map((key) => plan.values.customer_id.filter((value) => value === key).length);
+
+    expect(plan.rowCount).toBe(plan.values.customer_id.length);
+    perParent.forEach((count) => {
+      expect(count).toBeGreaterThanOrEqual(2);
+      expect(count).toBeLessThanOrEqual(4);
+    });
+  });
+
+  it('uses each parent once for 1:1 keys and warns when parents run out', () => {
+    const profiles = makeTable('profiles', 5, [
+      makeField('customer_id', 'Foreign Key', { table: 'customers', column: 'id', cardinality: '1:1' }),
+    ]);
+
+    const plan = planForeignKeys(profiles, parentKeys, createSeededRandom('profiles'));
+
+    expect(plan.values.customer_id.filter((value) => value !== null).sort()).toEqual([1, 2, 3]);
+    expect(plan.warnings).toEqual(['profiles.customer_id is 1:1 but customers only has 3 keys; 2 rows are left null.']);
+  });
+
+  it('plans the same keys for the same seed', () => {
+    const orders = makeTable('orders', 20, [makeField('customer_id', 'Foreign Key', { table: 'customers', column: 'id' })]);
+
+    expect(planForeignKeys(orders, parentKeys, createSeededRandom('seed')).values).toEqual(
+      planForeignKeys(orders, parentKeys, createSeededRandom('seed')).values
+    );
+  });
+
+  it('estimates row counts from the parent and the max children', () => {
+    const orders = makeTable('orders', 0, [
+      makeField('customer_id', 'Foreign Key', { table: 'customers', column: 'id', minChildren: 1, maxChildren: 5 }),
+    ]);
+
+    expect(estimateRelationalRowCounts([orders, customers])).toEqual({ customers: 3, orders: 15 });
+  });
+
+  it('writes a SQL script with parents first and foreign key references', () => {
+    const orders = makeTable('orders', 2, [
+      makeField('id', 'Row Number'),
+      makeField('customer_id', 'Foreign Key', { table: 'customers', column: 'id' }),
+    ]);
+
+    const sql = formatRelationalSql(
+      [orders, customers],
+      [
+        { name: 'orders', rows: [{ id: 1, customer_id: 2 }] },
+        { name: 'customers', rows: [{ id: 2, name: "O'Brien" }] },
+      ],
+      'Unix (LF)'
+    );
+
+    expect(sql.indexOf('CREATE TABLE "customers"')).toBeLessThan(sql.indexOf('CREATE TABLE "orders"'));
+    expect(sql).toContain('  "id" INTEGER UNIQUE');
+    expect(sql).toContain('  "customer_id" INTEGER REFERENCES "customers" ("id")');
+    expect(sql).toContain(`INSERT INTO "customers" ("id", "name") VALUES (2, 'O''Brien');`);
+    expect(sql).toContain('INSERT INTO "orders" ("id", "customer_id") VALUES (1, 2);');
+  });
+
+  it('drops child tables before their parents', () => {
+    const orders = makeTable('orders', 1, [makeField('customer_id', 'Foreign Key', { table: 'customers', column: 'id' })]);
+
+    const sql = formatRelationalSql([orders, customers], [], 'Unix (LF)', {
+      ...DEFAULT_SQL_EXPORT_OPTIONS,
+      dialect: 'MySQL',
+      includeDropTable: true,
+    });
+
+    expect(sql.indexOf('DROP TABLE IF EXISTS `orders`;')).toBeLessThan(sql.indexOf('DROP TABLE IF EXISTS `customers`;'));
+    expect(sql).toContain('REFERENCES `customers` (`id`)');
+  });
+
+  it('counts nulls and dangling keys in generated data', () => {
+    const orders = makeTable('orders', 3, [makeField('customer_id', 'Foreign Key', { table: 'customers', column: 'id' })]);
+
+    const [summary] = summarizeForeignKeys(
+      [customers, orders],
+      [
+        { name: 'customers', rows: [{ id: 1 }, { id: 2 }] },
+        { name: 'orders', rows: [{ customer_id: 1 }, { customer_id: 1 }, { customer_id: null }, { customer_id: 9 }] },
+      ]
+    );
+
+    expect(summary).toMatchObject({
+      rows: 4,
+      nulls: 1,
+      dangling: 1,
+      parentCount: 2,
+      referencedParents: 1,
+      minChildren: 0,
+      maxChildren: 2,
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { DEFAULT_SQL_EXPORT_OPTIONS } from '@/lib/data-generator/constants';
+import { formatPreviewData } from '@/lib/data-generator/formatPreview';
+import {
+  formatSqlLiteral,
+  formatSqlScript,
+  inferSqlColumns,
+  quoteSqlIdentifier,
+  type SqlFieldSource,
+} from '@/lib/data-generator/sqlExport';
+import type { SqlExportOptions } from '@/lib/data-generator/types';
+
+const fields: SqlFieldSource[] = [
+  { name: 'id', type: 'Row Number', options: { start: 1 } },
+  { name: 'price', type: 'Product Price', options: {} },
+  { name: 'active', type: 'Boolean', options: {} },
+  { name: 'joined', type: 'Date', options: { format: 'YYYY-MM-DD' } },
+  { name: 'updated_at', type: 'Date', options: { format: 'ISO' } },
+  { name: 'token', type: 'UUID', options: {} },
+  { name: 'name', type: 'Full Name', options: {} },
+];
+
+const rows = [
+  {
+    id: 1,
+    price: 19.99,
+    active: true,
+    joined: '2024-02-29',
+    updated_at: '2024-03-01T10:15:30.000Z',
+    token: '6f1c2b9e-8a4d-4c3e-9f2a-1b2c3d4e5f60',
+    name: "O'Brien",
+  },
+  { id: 2, price: 5, active: false, joined: '2023-12-31', updated_at: null, token: null, name: 'Ana\tLee' },
+  { id: 3, price: 120.5, active: true, joined: '2024-01-01', updated_at: '2024-01-02T00:00:00.000Z', token: null, name: 'Kim' },
+];
+
+const withOptions = (patch: Partial<SqlExportOptions>): SqlExportOptions => ({ ...DEFAULT_SQL_EXPORT_OPTIONS, ...patch });
+
+describe('SQL export', () => {
+  it('infers column types from field types and falls back to the values', () => {
+    const columns = inferSqlColumns(rows, fields);
+
+    expect(columns.map((column) => column.type)).toEqual(['integer', 'decimal', 'boolean', 'date', 'datetime', 'uuid', 'text']);
+    expect(columns[1]).toMatchObject({ precision: 10, scale: 2 });
+
+    const guessed = inferSqlColumns([{ count: 3, ratio: 0.125, flag: false, label: 'x' }]);
+    expect(guessed.map((column) => column.type)).toEqual(['integer', 'decimal', 'boolean', 'text']);
+    expect(guessed[1].scale).toBe(3);
+
+    // An AI rewrite that breaks the field's promise turns the column into text.
+    expect(inferSqlColumns([{ id: 'first' }], [fields[0]])[0].type).toBe('text');
+  });
+
+  it('quotes identifiers and literals per dialect', () => {
+    expect(quoteSqlIdentifier('order', 'PostgreSQL')).toBe('"order"');
+    expect(quoteSqlIdentifier('order', 'MySQL')).toBe('`order`');
+    expect(quoteSqlIdentifier('odd]name', 'SQL Server')).toBe('[odd]]name]');
+
+    const [, , active, joined, updatedAt, , name] = inferSqlColumns(rows, fields);
+    expect(formatSqlLiteral(true, active, 'PostgreSQL')).toBe('TRUE');
+    expect(formatSqlLiteral(true, active, 'SQL Server')).toBe('1');
+    expect(formatSqlLiteral('2024-02-29', joined, 'Oracle')).toBe("DATE '2024-02-29'");
+    expect(formatSqlLiteral('2024-03-01T10:15:30.000Z', updatedAt, 'MySQL')).toBe("'2024-03-01 10:15:30.000'");
+    expect(formatSqlLiteral('2024-03-01T10:15:30.000Z', updatedAt, 'PostgreSQL')).toBe("'2024-03-01T10:15:30.000Z'");
+    expect(formatSqlLiteral('a\\b\'c', name, 'MySQL')).toBe("'a\\\\b''c'");
+    expect(formatSqlLiteral("it's", name, 'BigQuery')).toBe("'it\\'s'");
+    expect(formatSqlLiteral('café', name, 'SQL Server')).toBe("N'café'");
+  });
+
+  it('writes typed CREATE TABLE and multi-row INSERT batches', () => {
+    const sql = formatSqlScript(
+      [{ name: 'customers', columns: inferSqlColumns(rows, fields), rows }],
+      withOptions({ dialect: 'MySQL', batchSize: 2, includeDropTable: true, wrapInTransaction: true }),
+      'Unix (LF)'
+    );
+    const lines = sql.split('\n');
+
+    expect(lines[0]).toBe('-- Test data (MySQL)');
+    expect(sql).toContain('START TRANSACTION;');
+    expect(sql.indexOf('DROP TABLE IF EXISTS `customers`;')).toBeLessThan(sql.indexOf('CREATE TABLE `customers`'));
+    expect(sql).toContain('  `id` INT,\n  `price` DECIMAL(10, 2),\n  `active` BOOLEAN,\n  `joined` DATE,');
+    expect(sql).toContain('  `token` CHAR(36),\n  `name` VARCHAR(255)\n);');
+    expect(sql.match(/INSERT INTO `customers`/g)).toHaveLength(2);
+    expect(sql).toContain(
+      "VALUES\n  (1, 19.99, TRUE, '2024-02-29', '2024-03-01 10:15:30.000', '6f1c2b9e-8a4d-4c3e-9f2a-1b2c3d4e5f60', 'O''Brien'),\n  (2, 5,"
+    );
+    expect(sql).toContain("INSERT INTO `customers` (`id`, `price`, `active`, `joined`, `updated_at`, `token`, `name`) VALUES (3,");
+    expect(lines[lines.length - 1]).toBe('COMMIT;');
+  });
+
+  it('uses INSERT ALL and a guarded drop for Oracle', () => {
+    const sql = formatSqlScript(
+      [{ name: 'customers', columns: inferSqlColumns(rows, fields), rows }],
+      withOptions({ dialect: 'Oracle', batchSize: 10, includeDropTable: true }),
+      'Unix (LF)'
+    );
+
+    expect(sql).toContain(`BEGIN EXECUTE IMMEDIATE 'DROP TABLE "customers" CASCADE CONSTRAINTS';`);
+    expect(sql).toContain('  "active" NUMBER(1),');
+    expect(sql).toContain('INSERT ALL\n  INTO "customers"');
+    expect(sql).toContain('SELECT 1 FROM DUAL;');
+  });
+
+  it('writes PostgreSQL COPY blocks with escaped text and \\N nulls', () => {
+    const sql = formatSqlScript(
+      [{ name: 'customers', columns: inferSqlColumns(rows, fields), rows }],
+      withOptions({ dialect: 'PostgreSQL', usePostgresCopy: true, includeCreateTable: false }),
+      'Unix (LF)'
+    );
+
+    expect(sql).not.toContain('CREATE TABLE');
+    expect(sql).toContain('COPY "customers" ("id", "price", "active", "joined", "updated_at", "token", "name") FROM stdin;');
+    expect(sql).toContain('2\t5\tf\t2023-12-31\t\\N\t\\N\tAna\\tLee');
+    expect(sql.endsWith('\\.')).toBe(true);
+  });
+
+  it('routes the SQL preview through the chosen dialect', () => {
+    const { content, filename } = formatPreviewData(
+      rows.slice(0, 1),
+      'SQL',
+      { lineEnding: 'Windows (CRLF)', includeHeader: true, includeBOM: false, sql: withOptions({ dialect: 'SQL Server' }), fields },
+      'test_data'
+    );
+
+    expect(filename).toBe('test_data.sql');
+    expect(content).toContain('CREATE TABLE [test_data] (\r\n  [id] INT,');
+    expect(content).toContain('[token] UNIQUEIDENTIFIER');
+    expect(content).toContain("VALUES (1, 19.99, 1, '2024-02-29', '2024-03-01 10:15:30.000',");
+  });
+});
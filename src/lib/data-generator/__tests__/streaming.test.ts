@@ -0,0 +1,100 @@
+/** @jest-environment node */
+import { DEFAULT_SQL_EXPORT_OPTIONS } from '@/lib/data-generator/constants';
+import { toFieldDefinitions } from '@/lib/data-generator/copycatMapping';
+import { formatPreviewData, type FormatPreviewOptions } from '@/lib/data-generator/formatPreview';
+import { formatSqlScript, inferSqlColumns, widenSqlColumns } from '@/lib/data-generator/sqlExport';
+import { createDataExportStream, formatRowChunks, generateRowChunks } from '@/lib/data-generator/streaming';
+import { TestDataGeneratorService } from '@/lib/services/ai/testDataGenerator';
+import type { AIService } from '@/lib/types';
+
+class StubAIService implements AIService {
+  async generateTestCases(): Promise<never> {
+    throw new Error('Not implemented');
+  }
+
+  async generateContent() {
+    return 'noop';
+  }
+}
+
+const fields = toFieldDefinitions([
+  { name: 'id', type: 'Row Number', options: { start: 1 } },
+  { name: 'email', type: 'Email', options: { nullPercent: 30 } },
+  { name: 'score', type: 'Number', options: { min: 1, max: 100 } },
+  { name: 'contact', type: 'Reference', options: { sourceField: 'email' } },
+]);
+
+const options: FormatPreviewOptions = {
+  lineEnding: 'Unix (LF)',
+  includeHeader: true,
+  includeBOM: true,
+  sql: { ...DEFAULT_SQL_EXPORT_OPTIONS, batchSize: 2, wrapInTransaction: true },
+  fields,
+};
+
+const joinChunks = (format: 'CSV' | 'NDJSON' | 'SQL', chunkSize: number) =>
+  Array.from(formatRowChunks(generateRowChunks(fields, 23, 'seed-a', chunkSize), format, options, 23)).join('');
+
+
+describe('streaming export', () => {
+  it('generates the same rows in chunks as the buffered generate route', async () => {
+    const streamed = Array.from(generateRowChunks(fields, 23, 'seed-a', 5)).flat();
+    const buffered = await new TestDataGeneratorService(new StubAIService()).generateTestDataFromFields({
+      fields,
+      count: 23,
+      seed: 'seed-a',
+    });
+
+    expect(streamed).toEqual(buffered.data);
+    expect(streamed.some((row) => row.email === null && row.contact === null)).toBe(true);
+  });
+
+  it('writes one file regardless of chunk size', () => {
+    const allRows = Array.from(generateRowChunks(fields, 23, 'seed-a', 100)).flat();
+
+    const csv = joinChunks('CSV', 4);
+    expect(csv).toBe(formatPreviewData(allRows, 'CSV', options).content);
+    expect(csv.match(/\uFEFF/g)).toHaveLength(1);
+    expect(joinChunks('NDJSON', 4)).toBe(formatPreviewData(allRows, 'NDJSON', options).content);
+    const columns = widenSqlColumns(inferSqlColumns(allRows, fields));
+    expect(joinChunks('SQL', 4)).toBe(
+      formatSqlScript([{ name: 'test_data', columns, rows: allRows }], options.sql!, options.lineEnding)
+    );
+  });
+
+  it('declares column types wide enough for values that only appear after the first chunk', () => {
+    const longNote = 'x'.repeat(300);
+    const chunks = [
+      [{ total: 1, price: 9.99, note: 'short' }],
+      [{ total: 5000000000, price: 123456789012.125, note: longNote }],
+    ];
+    const sqlFor = (dialect: 'PostgreSQL' | 'SQL Server') =>
+      Array.from(
+        formatRowChunks(
+          chunks[Symbol.iterator](),
+          'SQL',
+          { ...options, sql: { ...options.sql!, dialect }, fields: undefined },
+          2
+        )
+      ).join('');
+
+    const postgres = sqlFor('PostgreSQL');
+    expect(postgres).toMatch(/"total" BIGINT/);
+    expect(postgres).toMatch(/"price" DECIMAL\(38, 10\)/);
+    expect(postgres).toMatch(/"note" TEXT/);
+    expect(postgres).toContain('5000000000');
+    expect(postgres).toContain(longNote);
+    expect(sqlFor('SQL Server')).toMatch(/\[note\] NVARCHAR\(MAX\)/);
+  });
+
+  it('streams the raw file and returns the seed it used', async () => {
+    const { stream, seed } = createDataExportStream({ fields, count: 12, format: 'NDJSON', options, chunkSize: 5 });
+    const content = await new Response(stream).text();
+    expect(content.split('\n')).toHaveLength(12);
+    content.split('\n').forEach((line) => expect(() => JSON.parse(line)).not.toThrow());
+
+    const replay = createDataExportStream({ fields, count: 12, format: 'NDJSON', options, seed, chunkSize: 12 });
+    expect(replay.seed).toBe(seed);
+    expect(await new Response(replay.stream).text()).toBe(content);
+  });
+});
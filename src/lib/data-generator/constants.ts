@@ -1,14 +1,65 @@
 import { v4 as uuidv4 } from 'uuid';
 
-import type { ExportConfig, FieldDefinition, LineEnding } from './types';
+import type {
+  ExportConfig,
+  ExportFormat,
+  FieldDefinition,
+  LineEnding,
+  SqlExportOptions,
+  XmlExportOptions,
+} from './types';
 
 export const DEFAULT_SQL_TABLE_NAME = 'test_data';
 export const DEFAULT_FILE_PREFIX = 'test-data';
 export const PREVIEW_ROW_COUNT = 10;
+export const DEFAULT_TABLE_ROW_COUNT = 10;
 export const AI_GENERATED_FIELD_TYPE = 'AI-Generated';
+export const FOREIGN_KEY_FIELD_TYPE = 'Foreign Key';
+export const ROW_NUMBER_FIELD_TYPE = 'Row Number';
 
 export const DEFAULT_LINE_ENDING: LineEnding = 'Unix (LF)';
 
+export const DEFAULT_SQL_EXPORT_OPTIONS: SqlExportOptions = {
+  dialect: 'PostgreSQL',
+  batchSize: 100,
+  includeCreateTable: true,
+  includeDropTable: false,
+  wrapInTransaction: false,
+  usePostgresCopy: false,
+};
+
+export const DEFAULT_XML_EXPORT_OPTIONS: XmlExportOptions = {
+  rootElement: 'rows',
+  rowElement: 'row',
+};
+
+/** Download extension and MIME type per export format. */
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  CSV: { extension: 'csv', mimeType: 'text/csv' },
+  TSV: { extension: 'tsv', mimeType: 'text/tab-separated-values' },
+  JSON: { extension: 'json', mimeType: 'application/json' },
+  NDJSON: { extension: 'ndjson', mimeType: 'application/x-ndjson' },
+  XML: { extension: 'xml', mimeType: 'application/xml' },
+  YAML: { extension: 'yaml', mimeType: 'application/yaml' },
+  SQL: { extension: 'sql', mimeType: 'text/plain' },
+  Excel: { extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  Parquet: { extension: 'parquet', mimeType: 'application/vnd.apache.parquet' },
+};
+
+/** Binary formats are built on the server; every other format is written in the browser by formatPreviewData. */
+export const BINARY_EXPORT_ROUTES: Partial<Record<ExportFormat, string>> = {
+  Excel: '/api/data-generator/export-excel',
+  Parquet: '/api/data-generator/export-parquet',
+};
+
+/** Formats the streaming export can write chunk by chunk; the others need every row at once. */
+export const STREAMABLE_EXPORT_FORMATS = ['CSV', 'NDJSON', 'SQL'] as const;
+export const STREAM_CHUNK_SIZE = 5000;
+export const MAX_STREAMED_ROWS = 10_000_000;
+export const MAX_GENERATED_ROWS = 100_000;
+// Exports above this many rows stream from the server instead of being built in the browser
+export const STREAMING_ROW_THRESHOLD = 50_000;
+
 export const DEFAULT_EXPORT_CONFIG: ExportConfig = {
   rowCount: 100,
   format: 'CSV',
@@ -19,6 +70,8 @@ export const DEFAULT_EXPORT_CONFIG: ExportConfig = {
   enhancementPrompt: '',
   useDeterministicSeed: false,
   seedValue: '',
+  sql: DEFAULT_SQL_EXPORT_OPTIONS,
+  xml: DEFAULT_XML_EXPORT_OPTIONS,
 };
 
 export const createDefaultField = (): FieldDefinition => ({
@@ -27,3 +80,6 @@ export const createDefaultField = (): FieldDefinition => ({
   type: 'Number',
   options: { min: 1, max: 1000, decimals: 0 },
 });
+
+export const buildExportFilename = (extension: string, date = new Date()) =>
+  `${DEFAULT_FILE_PREFIX}-${date.toISOString().slice(0, 10)}.${extension}`;
@@ -283,6 +283,9 @@ const numberGenerator = (field: FieldDefinition): CopycatGenerator => ({ baseSee
   });
 };
 
+const rowNumberGenerator = (field: FieldDefinition): CopycatGenerator => ({ rowIndex }) =>
+  parseNumberOption(field.options.start, 1) + rowIndex;
+
 const decimalGenerator = (field: FieldDefinition): CopycatGenerator => ({ baseSeed, rowIndex }) => {
   const min = parseNumberOption(field.options.min, 0);
   const max = parseNumberOption(field.options.max, 100);
@@ -559,6 +562,7 @@ const parseCustomListOptions = (values: unknown): string[] => {
 
 const FIELD_GENERATORS: Record<string, (field: FieldDefinition) => CopycatGenerator> = {
   Number: numberGenerator,
+  'Row Number': rowNumberGenerator,
   'Decimal Number': decimalGenerator,
   Boolean: booleanGenerator,
   'First Name': (field) => ({ baseSeed, rowIndex }) => copycat.firstName(makeSeed(baseSeed, field.id, rowIndex)),
@@ -625,7 +629,8 @@ export const mapFieldToCopycat = (field: FieldDefinition): CopycatMapperResult =
     return { generate: generatorFactory(field) };
   }
 
-  if (field.type === 'Reference') {
+  // Filled in after generation: references from the same row, foreign keys from the parent table's rows
+  if (field.type === 'Reference' || field.type === 'Foreign Key') {
     return {
       generate: () => null,
       requiresFallback: false,
@@ -645,15 +650,30 @@ export const mapFieldToCopycat = (field: FieldDefinition): CopycatMapperResult =
   };
 };
 
+/** Gives API fields the ids copycat seeds are keyed by, so a seed reproduces the same rows on every route. */
+export const toFieldDefinitions = (fields: Array<Omit<FieldDefinition, 'id'>>): FieldDefinition[] =>
+  fields.map((field, index) => ({
+    id: field.name ? `${field.name}-${index}` : `field-${index}`,
+    name: field.name,
+    type: field.type,
+    options: field.options,
+  }));
+
+/**
+ * Values depend only on the seed, the field and the row index, so `startIndex` lets a large dataset be generated in
+ * chunks that match a single call over every row.
+ */
 export const generateCopycatRows = (
   fields: FieldDefinition[],
   count: number,
-  seed?: string | number
+  seed?: string | number,
+  startIndex = 0
 ): { rows: Array<Record<string, unknown>>; usedFallback: boolean } => {
   const baseSeed = seed !== undefined && seed !== null ? String(seed) : randomUUID();
   let usedFallback = false;
 
-  const rows = Array.from({ length: count }).map((_, rowIndex) => {
+  const rows = Array.from({ length: count }).map((_, offset) => {
+    const rowIndex = startIndex + offset;
     const row = fields.reduce<Record<string, unknown>>((accumulator, field) => {
       if (field.type === 'Reference') {
         return accumulator;
@@ -676,7 +696,7 @@ export const generateCopycatRows = (
 export const supportsCopycat = (fields: FieldDefinition[]): boolean =>
   fields.every((field) => !mapFieldToCopycat(field).requiresFallback);
 
-const applyReferenceFields = (
+export const applyReferenceFields = (
   rows: Array<Record<string, unknown>>,
   fields: FieldDefinition[],
 ) =>
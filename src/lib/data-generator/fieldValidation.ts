@@ -120,6 +120,21 @@ export const validateFieldDefinition = (
     }
   }
 
+  if (type === 'Foreign Key') {
+    const table = typeof options.table === 'string' ? options.table.trim() : '';
+    const column = typeof options.column === 'string' ? options.column.trim() : '';
+    if (!table || !column) {
+      errors.push('Select the parent table and key column. Foreign keys need a multi-table schema.');
+    }
+  }
+
+  if (type !== 'Foreign Key' && options.nullPercent !== undefined && options.nullPercent !== '') {
+    const nullPercent = parseNumber(options.nullPercent);
+    if (nullPercent === null || nullPercent < 0 || nullPercent > 99) {
+      errors.push('Null percentage must be between 0 and 99.');
+    }
+  }
+
   if (type === 'Reference') {
     const sourceField = typeof options.sourceField === 'string' ? options.sourceField : '';
     if (!sourceField) {
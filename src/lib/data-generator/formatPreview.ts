@@ -1,12 +1,20 @@
-import type { ExportFormat, LineEnding } from '@/lib/data-generator/types';
+import { stringify as stringifyYaml } from 'yaml';
 
-interface FormatPreviewOptions {
+import { DEFAULT_SQL_EXPORT_OPTIONS } from '@/lib/data-generator/constants';
+import { formatSqlScript, inferSqlColumns, type SqlFieldSource } from '@/lib/data-generator/sqlExport';
+import type { ExportFormat, LineEnding, SqlExportOptions, XmlExportOptions } from '@/lib/data-generator/types';
+import { formatXmlDocument } from '@/lib/data-generator/xmlExport';
+
+export interface FormatPreviewOptions {
   lineEnding: LineEnding;
   includeHeader: boolean;
   includeBOM: boolean;
+  sql?: SqlExportOptions;
+  xml?: XmlExportOptions;
+  fields?: SqlFieldSource[]; // Lets SQL and Parquet output use each field's column type instead of guessing from values
 }
 
-const resolveLineEnding = (lineEnding: LineEnding) =>
+export const resolveLineEnding = (lineEnding: LineEnding) =>
   lineEnding === 'Windows (CRLF)' ? '\r\n' : '\n';
 
 const formatCsv = (
@@ -35,69 +43,76 @@ const formatCsv = (
   return { content, language: 'csv' as const, filename: `${fallbackTableName}.csv` };
 };
 
+// Tabs, newlines and backslashes are escaped the way PostgreSQL COPY and most TSV readers expect, so no quoting is needed.
+const escapeTsvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+};
+
+const formatTsv = (
+  data: Array<Record<string, unknown>>,
+  options: FormatPreviewOptions,
+  fallbackTableName: string
+) => {
+  const headers = Array.from(new Set(data.flatMap((row) => Object.keys(row))));
+  const lineEnding = resolveLineEnding(options.lineEnding);
+
+  const headerRow = options.includeHeader ? `${headers.map(escapeTsvValue).join('\t')}${lineEnding}` : '';
+  const contentRows = data
+    .map((row) => headers.map((header) => escapeTsvValue(row[header])).join('\t'))
+    .join(lineEnding);
+
+  const content = `${options.includeBOM ? '\ufeff' : ''}${headerRow}${contentRows}`;
+  return { content, language: 'text' as const, filename: `${fallbackTableName}.tsv` };
+};
+
 const formatJson = (data: Array<Record<string, unknown>>) => ({
   content: JSON.stringify(data, null, 2),
   language: 'json' as const,
   filename: 'preview.json',
 });
 
+const formatNdjson = (data: Array<Record<string, unknown>>, options: FormatPreviewOptions) => ({
+  content: data.map((row) => JSON.stringify(row)).join(resolveLineEnding(options.lineEnding)),
+  language: 'json' as const,
+  filename: 'preview.ndjson',
+});
+
+const withLineEnding = (content: string, lineEnding: LineEnding) =>
+  lineEnding === 'Windows (CRLF)' ? content.replace(/\n/g, '\r\n') : content;
+
+const formatYaml = (data: Array<Record<string, unknown>>, options: FormatPreviewOptions) => ({
+  content: withLineEnding(stringifyYaml(data, { lineWidth: 0 }), options.lineEnding),
+  language: 'yaml' as const,
+  filename: 'preview.yaml',
+});
+
+const formatXml = (data: Array<Record<string, unknown>>, options: FormatPreviewOptions) => ({
+  content: formatXmlDocument(data, options.lineEnding, options.xml),
+  language: 'xml' as const,
+  filename: 'preview.xml',
+});
+
 const formatSql = (
   data: Array<Record<string, unknown>>,
   options: FormatPreviewOptions,
   fallbackTableName: string
-) => {
-  const lineEnding = resolveLineEnding(options.lineEnding);
-  if (data.length === 0) {
-    return {
-      content: `-- Test data preview${lineEnding}-- 0 rows`,
-      language: 'sql' as const,
-      filename: `${fallbackTableName}.sql`,
-    };
-  }
-
-  const columns = Object.keys(data[0]);
-  const inserts = data.map((row) => {
-    const values = columns
-      .map((column) => {
-        const value = row[column];
-        if (value === null || value === undefined) {
-          return 'NULL';
-        }
-        if (typeof value === 'string') {
-          return `'${value.replace(/'/g, "''")}'`;
-        }
-        if (typeof value === 'object') {
-          return `'${JSON.stringify(value).replace(/'/g, "''")}'`;
-        }
-        return String(value);
-      })
-      .join(', ');
-
-    return `INSERT INTO ${fallbackTableName} (${columns.join(', ')}) VALUES (${values});`;
-  });
-
-  const createTableLines = columns.map((column) => `  ${column} VARCHAR(255)`).join(',\n');
-  const sections = [
-    `-- Test data preview`,
-    `-- ${inserts.length} rows`,
-    '',
-    `CREATE TABLE ${fallbackTableName} (`,
-    createTableLines,
-    ');',
-    '',
-    ...inserts,
-  ];
-
-  return {
-    content: sections.join(lineEnding),
-    language: 'sql' as const,
-    filename: `${fallbackTableName}.sql`,
-  };
-};
+) => ({
+  content: formatSqlScript(
+    [{ name: fallbackTableName, columns: inferSqlColumns(data, options.fields), rows: data }],
+    options.sql ?? DEFAULT_SQL_EXPORT_OPTIONS,
+    options.lineEnding
+  ),
+  language: 'sql' as const,
+  filename: `${fallbackTableName}.sql`,
+});
 
 export interface FormattedPreview {
   content: string;
-  language: 'json' | 'csv' | 'sql';
+  language: 'json' | 'csv' | 'sql' | 'text' | 'yaml' | 'xml';
   filename: string;
 }
 
@@ -110,13 +125,24 @@ export const formatPreviewData = (
   switch (format) {
     case 'JSON':
       return formatJson(data);
+    case 'NDJSON':
+      return formatNdjson(data, options);
     case 'CSV':
       return formatCsv(data, options, 'preview');
+    case 'TSV':
+      return formatTsv(data, options, 'preview');
+    case 'YAML':
+      return formatYaml(data, options);
+    case 'XML':
+      return formatXml(data, options);
     case 'SQL':
       return formatSql(data, options, tableName);
     case 'Excel':
       // For preview purposes we surface CSV content so users can copy quickly
       return formatCsv(data, options, 'preview');
+    case 'Parquet':
+      // Parquet is binary and built on the server; the preview shows the same rows as JSON
+      return formatJson(data);
     default:
       return formatJson(data);
   }
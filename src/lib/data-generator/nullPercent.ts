@@ -0,0 +1,33 @@
+import { FOREIGN_KEY_FIELD_TYPE } from './constants';
+import { createSeededRandom } from './relational';
+import type { FieldDefinition } from './types';
+
+/**
+ * Blanks `options.nullPercent` percent of each field's values; foreign keys handle their own nulls. The returned
+ * function keeps one random sequence, so applying it chunk by chunk blanks the same cells as one call over every row.
+ */
+export const createNullPercentApplier = (
+  fields: Array<Pick<FieldDefinition, 'name' | 'type' | 'options'>>,
+  seed?: string
+) => {
+  const nullable = fields
+    .filter((field) => field.type !== FOREIGN_KEY_FIELD_TYPE)
+    .map((field) => ({ name: field.name, percent: Number(field.options.nullPercent) }))
+    .filter(({ percent }) => Number.isFinite(percent) && percent > 0);
+  const random = seed ? createSeededRandom(`${seed}:nulls`) : Math.random;
+
+  return <T extends Record<string, unknown>>(rows: T[]): T[] => {
+    if (nullable.length === 0) {
+      return rows;
+    }
+    return rows.map((row) => {
+      const updated: Record<string, unknown> = { ...row };
+      nullable.forEach(({ name, percent }) => {
+        if (random() * 100 < percent) {
+          updated[name] = null;
+        }
+      });
+      return updated as T;
+    });
+  };
+};
@@ -0,0 +1,352 @@
+import { inferSqlColumns, type SqlColumnType, type SqlFieldSource } from './sqlExport';
+
+/**
+ * A small Parquet writer: one row group, one uncompressed PLAIN data page per column, every column OPTIONAL so
+ * nulls survive. That covers generated fixtures without a native dependency; column types come from the same
+ * field-type inference as the SQL export.
+ */
+
+// parquet.thrift enum values
+export const ParquetType = { BOOLEAN: 0, INT32: 1, INT64: 2, DOUBLE: 5, BYTE_ARRAY: 6 } as const;
+export const ConvertedType = { UTF8: 0, DATE: 6, TIMESTAMP_MILLIS: 9 } as const;
+const Repetition = { REQUIRED: 0, OPTIONAL: 1 } as const;
+const Encoding = { PLAIN: 0, RLE: 3 } as const;
+const PAGE_TYPE_DATA = 0;
+const CODEC_UNCOMPRESSED = 0;
+
+const MAGIC = [0x50, 0x41, 0x52, 0x31]; // "PAR1"
+const DAY_MS = 86_400_000;
+
+type PhysicalType = (typeof ParquetType)[keyof typeof ParquetType];
+
+export interface ParquetColumn {
+  name: string;
+  type: PhysicalType;
+  convertedType?: number;
+}
+
+const PARQUET_TYPES: Record<SqlColumnType, Omit<ParquetColumn, 'name'>> = {
+  integer: { type: ParquetType.INT32 },
+  bigint: { type: ParquetType.INT64 },
+  decimal: { type: ParquetType.DOUBLE },
+  boolean: { type: ParquetType.BOOLEAN },
+  date: { type: ParquetType.INT32, convertedType: ConvertedType.DATE },
+  datetime: { type: ParquetType.INT64, convertedType: ConvertedType.TIMESTAMP_MILLIS },
+  time: { type: ParquetType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 },
+  uuid: { type: ParquetType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 },
+  text: { type: ParquetType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 },
+  longtext: { type: ParquetType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 },
+};
+
+export const inferParquetColumns = (
+  rows: Array<Record<string, unknown>>,
+  fields: SqlFieldSource[] = []
+): ParquetColumn[] => inferSqlColumns(rows, fields).map((column) => ({ name: column.name, ...PARQUET_TYPES[column.type] }));
+
+// Thrift compact protocol, only the parts parquet.thrift metadata needs.
+const CompactType = { I32: 5, I64: 6, BINARY: 8, LIST: 9, STRUCT: 12 } as const;
+
+class CompactWriter {
+  readonly bytes: number[] = [];
+  private lastFieldIds: number[] = [0];
+
+  varint(value: number) {
+    let remaining = value;
+    while (remaining >= 0x80) {
+      this.bytes.push((remaining % 0x80) | 0x80);
+      remaining = Math.floor(remaining / 0x80);
+    }
+    this.bytes.push(remaining);
+  }
+
+  zigzag(value: number) {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  private fieldHeader(id: number, type: number) {
+    const last = this.lastFieldIds[this.lastFieldIds.length - 1];
+    const delta = id - last;
+    if (delta > 0 && delta <= 15) {
+      this.bytes.push((delta << 4) | type);
+    } else {
+      this.bytes.push(type);
+      this.zigzag(id);
+    }
+    this.lastFieldIds[this.lastFieldIds.length - 1] = id;
+  }
+
+  i32(id: number, value: number) {
+    this.fieldHeader(id, CompactType.I32);
+    this.zigzag(value);
+  }
+
+  i64(id: number, value: number) {
+    this.fieldHeader(id, CompactType.I64);
+    this.zigzag(value);
+  }
+
+  string(id: number, value: string) {
+    this.fieldHeader(id, CompactType.BINARY);
+    this.rawString(value);
+  }
+
+  rawString(value: string) {
+    const encoded = new TextEncoder().encode(value);
+    this.varint(encoded.length);
+    encoded.forEach((byte) => this.bytes.push(byte));
+  }
+
+  struct(id: number, write: () => void) {
+    this.fieldHeader(id, CompactType.STRUCT);
+    this.rawStruct(write);
+  }
+
+  rawStruct(write: () => void) {
+    this.lastFieldIds.push(0);
+    write();
+    this.bytes.push(0); // field stop
+    this.lastFieldIds.pop();
+  }
+
+  list<T>(id: number, elementType: number, items: T[], writeItem: (item: T) => void) {
+    this.fieldHeader(id, CompactType.LIST);
+    if (items.length < 15) {
+      this.bytes.push((items.length << 4) | elementType);
+    } else {
+      this.bytes.push(0xf0 | elementType);
+      this.varint(items.length);
+    }
+    items.forEach(writeItem);
+  }
+}
+
+class ByteBuffer {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  push(bytes: Uint8Array | number[]) {
+    const chunk = bytes instanceof Uint8Array ? bytes : Uint8Array.from(bytes);
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  toUint8Array() {
+    const result = new Uint8Array(this.length);
+    let offset = 0;
+    this.chunks.forEach((chunk) => {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return result;
+  }
+}
+
+const bitPack = (bits: boolean[]) => {
+  const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+  bits.forEach((bit, index) => {
+    if (bit) {
+      bytes[index >> 3] |= 1 << (index & 7);
+    }
+  });
+  return bytes;
+};
+
+/** Definition levels (1 = present) as one bit-packed RLE/bit-packing hybrid run, length-prefixed per data page v1. */
+const encodeDefinitionLevels = (present: boolean[]) => {
+  const header = new CompactWriter();
+  header.varint((Math.ceil(present.length / 8) << 1) | 1);
+  const packed = bitPack(present);
+  const body = new Uint8Array(4 + header.bytes.length + packed.length);
+  new DataView(body.buffer).setInt32(0, header.bytes.length + packed.length, true);
+  body.set(header.bytes, 4);
+  body.set(packed, 4 + header.bytes.length);
+  return body;
+};
+
+const TEXT_COLUMN = { type: ParquetType.BYTE_ARRAY, convertedType: ConvertedType.UTF8 } as const;
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}:?\d{2})?$/;
+
+/** Epoch milliseconds for an ISO date or datetime; a datetime without an offset is read as UTC, like a date. */
+const parseTimestamp = (text: string) => {
+  const match = TIMESTAMP_PATTERN.exec(text);
+  if (!match) {
+    return Date.parse(text);
+  }
+  const [, date, time, zone = 'Z'] = match;
+  const offset = zone === 'Z' || zone.includes(':') ? zone : `${zone.slice(0, 3)}:${zone.slice(3)}`;
+  return Date.parse(`${date}T${time}${offset}`);
+};
+
+/** The value as the column's physical type: null for a missing value, undefined when it does not fit the type. */
+const toPhysicalValue = (value: unknown, column: ParquetColumn): unknown => {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (column.convertedType === ConvertedType.DATE || column.convertedType === ConvertedType.TIMESTAMP_MILLIS) {
+    const time = parseTimestamp(String(value));
+    if (Number.isNaN(time)) {
+      return undefined;
+    }
+    return column.convertedType === ConvertedType.DATE ? Math.floor(time / DAY_MS) : time;
+  }
+  switch (column.type) {
+    case ParquetType.BOOLEAN:
+      return typeof value === 'boolean' ? value : undefined;
+    case ParquetType.INT32:
+    case ParquetType.INT64:
+    case ParquetType.DOUBLE: {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : undefined;
+    }
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+};
+
+/**
+ * Physical values for one column. A column holding a value its type cannot represent (AI enhancement can rewrite
+ * a date as prose) is written as text instead, so no generated value is lost.
+ */
+const toColumnValues = (rows: Array<Record<string, unknown>>, column: ParquetColumn) => {
+  const values = rows.map((row) => toPhysicalValue(row[column.name], column));
+  if (values.every((value) => value !== undefined)) {
+    return { column, values };
+  }
+  const textColumn: ParquetColumn = { name: column.name, ...TEXT_COLUMN };
+  return { column: textColumn, values: rows.map((row) => toPhysicalValue(row[column.name], textColumn)) };
+};
+
+const encodePlainValues = (values: unknown[], type: PhysicalType): Uint8Array => {
+  switch (type) {
+    case ParquetType.BOOLEAN:
+      return bitPack(values.map(Boolean));
+    case ParquetType.INT32: {
+      const bytes = new Uint8Array(values.length * 4);
+      const view = new DataView(bytes.buffer);
+      values.forEach((value, index) => view.setInt32(index * 4, Math.trunc(value as number), true));
+      return bytes;
+    }
+    case ParquetType.INT64: {
+      const bytes = new Uint8Array(values.length * 8);
+      const view = new DataView(bytes.buffer);
+      values.forEach((value, index) => view.setBigInt64(index * 8, BigInt(Math.trunc(value as number)), true));
+      return bytes;
+    }
+    case ParquetType.DOUBLE: {
+      const bytes = new Uint8Array(values.length * 8);
+      const view = new DataView(bytes.buffer);
+      values.forEach((value, index) => view.setFloat64(index * 8, value as number, true));
+      return bytes;
+    }
+    default: {
+      const buffer = new ByteBuffer();
+      const encoder = new TextEncoder();
+      values.forEach((value) => {
+        const encoded = encoder.encode(value as string);
+        const length = new Uint8Array(4);
+        new DataView(length.buffer).setInt32(0, encoded.length, true);
+        buffer.push(length);
+        buffer.push(encoded);
+      });
+      return buffer.toUint8Array();
+    }
+  }
+};
+
+const pageHeader = (rowCount: number, pageSize: number) => {
+  const writer = new CompactWriter();
+  writer.rawStruct(() => {
+    writer.i32(1, PAGE_TYPE_DATA);
+    writer.i32(2, pageSize);
+    writer.i32(3, pageSize);
+    writer.struct(5, () => {
+      writer.i32(1, rowCount);
+      writer.i32(2, Encoding.PLAIN);
+      writer.i32(3, Encoding.RLE);
+      writer.i32(4, Encoding.RLE);
+    });
+  });
+  return writer.bytes;
+};
+
+interface ColumnChunkInfo {
+  column: ParquetColumn;
+  offset: number;
+  size: number;
+}
+
+const fileMetadata = (columns: ColumnChunkInfo[], rowCount: number) => {
+  const writer = new CompactWriter();
+  writer.rawStruct(() => {
+    writer.i32(1, 1);
+    writer.list(2, CompactType.STRUCT, [null, ...columns.map((chunk) => chunk.column)], (column) =>
+      writer.rawStruct(() => {
+        if (!column) {
+          writer.string(4, 'schema');
+          writer.i32(5, columns.length);
+          return;
+        }
+        writer.i32(1, column.type);
+        writer.i32(3, Repetition.OPTIONAL);
+        writer.string(4, column.name);
+        if (column.convertedType !== undefined) {
+          writer.i32(6, column.convertedType);
+        }
+      })
+    );
+    writer.i64(3, rowCount);
+    writer.list(4, CompactType.STRUCT, [columns], (chunks) =>
+      writer.rawStruct(() => {
+        writer.list(1, CompactType.STRUCT, chunks, (chunk) =>
+          writer.rawStruct(() => {
+            writer.i64(2, chunk.offset);
+            writer.struct(3, () => {
+              writer.i32(1, chunk.column.type);
+              writer.list(2, CompactType.I32, [Encoding.PLAIN, Encoding.RLE], (encoding) => writer.zigzag(encoding));
+              writer.list(3, CompactType.BINARY, [chunk.column.name], (name) => writer.rawString(name));
+              writer.i32(4, CODEC_UNCOMPRESSED);
+              writer.i64(5, rowCount);
+              writer.i64(6, chunk.size);
+              writer.i64(7, chunk.size);
+              writer.i64(9, chunk.offset);
+            });
+          })
+        );
+        writer.i64(2, chunks.reduce((sum, chunk) => sum + chunk.size, 0));
+        writer.i64(3, rowCount);
+      })
+    );
+    writer.string(6, 'test-case-generator');
+  });
+  return writer.bytes;
+};
+
+export const writeParquet = (
+  rows: Array<Record<string, unknown>>,
+  columns: ParquetColumn[] = inferParquetColumns(rows)
+): Uint8Array => {
+  const file = new ByteBuffer();
+  file.push(MAGIC);
+
+  const chunks: ColumnChunkInfo[] = columns.map((requested) => {
+    const { column, values } = toColumnValues(rows, requested);
+    const present = values.map((value) => value !== null);
+    const definitionLevels = encodeDefinitionLevels(present);
+    const encodedValues = encodePlainValues(values.filter((value) => value !== null), column.type);
+    const header = pageHeader(rows.length, definitionLevels.length + encodedValues.length);
+
+    const offset = file.length;
+    file.push(header);
+    file.push(definitionLevels);
+    file.push(encodedValues);
+    return { column, offset, size: file.length - offset };
+  });
+
+  const metadata = fileMetadata(chunks, rows.length);
+  const footerLength = new Uint8Array(4);
+  new DataView(footerLength.buffer).setInt32(0, metadata.length, true);
+  file.push(metadata);
+  file.push(footerLength);
+  file.push(MAGIC);
+  return file.toUint8Array();
+};
@@ -1,4 +1,5 @@
-import type { FieldDefinition } from '@/lib/data-generator/types';
+import { FOREIGN_KEY_FIELD_TYPE } from '@/lib/data-generator/constants';
+import type { FieldDefinition, TableDefinition } from '@/lib/data-generator/types';
 
 export interface ReferenceIssue {
   fieldId: string;
@@ -29,3 +30,144 @@ export const collectReferenceIssues = (fields: FieldDefinition[]): ReferenceIssu
       } satisfies ReferenceIssue;
     })
     .filter((issue): issue is ReferenceIssue => Boolean(issue));
+
+export interface TableRelationIssue {
+  tableName: string;
+  fieldName: string;
+  message: string;
+}
+
+const readOptionString = (options: FieldDefinition['options'], key: string) =>
+  typeof options[key] === 'string' ? (options[key] as string).trim() : '';
+
+const readOptionNumber = (options: FieldDefinition['options'], key: string): number | null => {
+  const value = options[key];
+  if (value === '' || value === null || value === undefined) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const foreignKeyFields = (table: TableDefinition) =>
+  table.fields.filter((field) => field.type === FOREIGN_KEY_FIELD_TYPE);
+
+/** Parent table names a table depends on, ignoring foreign keys that are not configured yet. */
+const parentTables = (table: TableDefinition) =>
+  Array.from(new Set(foreignKeyFields(table).map((field) => readOptionString(field.options, 'table')).filter(Boolean)));
+
+export const collectTableRelationIssues = (tables: TableDefinition[]): TableRelationIssue[] => {
+  const issues: TableRelationIssue[] = [];
+  const seenNames = new Set<string>();
+
+  tables.forEach((table) => {
+    if (seenNames.has(table.name)) {
+      issues.push({ tableName: table.name, fieldName: '', message: `Table name "${table.name}" is used more than once.` });
+    }
+    seenNames.add(table.name);
+
+    const drivingKeys = foreignKeyFields(table).filter(
+      (field) =>
+        readOptionString(field.options, 'cardinality') !== '1:1' &&
+        (readOptionNumber(field.options, 'minChildren') !== null || readOptionNumber(field.options, 'maxChildren') !== null)
+    );
+    if (drivingKeys.length > 1) {
+      issues.push({
+        tableName: table.name,
+        fieldName: drivingKeys[1].name,
+        message: `Only one foreign key per table can set children per parent; ${drivingKeys[0].name} already does.`,
+      });
+    }
+
+    foreignKeyFields(table).forEach((field) => {
+      const parentName = readOptionString(field.options, 'table');
+      const columnName = readOptionString(field.options, 'column');
+      const issue = (message: string) => issues.push({ tableName: table.name, fieldName: field.name, message });
+
+      if (!parentName) {
+        issue('Select a parent table.');
+        return;
+      }
+      const parent = tables.find((candidate) => candidate.name === parentName);
+      if (!parent) {
+        issue(`Table "${parentName}" not found.`);
+        return;
+      }
+      if (!columnName) {
+        issue(`Select a key column in ${parentName}.`);
+      } else if (!parent.fields.some((candidate) => candidate.name === columnName)) {
+        issue(`Column "${parentName}.${columnName}" not found.`);
+      }
+
+      const minChildren = readOptionNumber(field.options, 'minChildren');
+      const maxChildren = readOptionNumber(field.options, 'maxChildren');
+      if ((minChildren !== null && minChildren < 0) || (maxChildren !== null && maxChildren < 1)) {
+        issue('Children per parent must be at least 0 (min) and 1 (max).');
+      } else if (minChildren !== null && maxChildren !== null && minChildren > maxChildren) {
+        issue('Min children per parent must not exceed max.');
+      }
+
+      const nullPercent = readOptionNumber(field.options, 'nullPercent');
+      if (nullPercent !== null && (nullPercent < 0 || nullPercent >= 100)) {
+        issue('Null percentage must be between 0 and 99.');
+      }
+    });
+  });
+
+  return issues;
+};
+
+/** Every distinct dependency cycle, each listed from its first table back to itself (a self-reference is [t, t]). */
+export const findTableCycles = (tables: TableDefinition[]): string[][] => {
+  const edges = new Map(tables.map((table) => [table.name, parentTables(table)]));
+  const cycles: string[][] = [];
+  const seenCycles = new Set<string>();
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (name: string) => {
+    state.set(name, 'visiting');
+    path.push(name);
+    (edges.get(name) ?? []).forEach((parent) => {
+      if (!edges.has(parent)) {
+        return;
+      }
+      if (state.get(parent) === 'visiting') {
+        const cycle = [...path.slice(path.indexOf(parent)), parent];
+        const key = [...cycle.slice(0, -1)].sort().join('|');
+        if (!seenCycles.has(key)) {
+          seenCycles.add(key);
+          cycles.push(cycle);
+        }
+      } else if (!state.has(parent)) {
+        visit(parent);
+      }
+    });
+    path.pop();
+    state.set(name, 'done');
+  };
+
+  tables.forEach((table) => {
+    if (!state.has(table.name)) {
+      visit(table.name);
+    }
+  });
+  return cycles;
+};
+
+/** Parents before children, keeping the schema's own order where it is free to; null when tables form a cycle. */
+export const sortTablesByDependency = (tables: TableDefinition[]): string[] | null => {
+  const remaining = new Map(tables.map((table) => [table.name, parentTables(table)]));
+  const order: string[] = [];
+  while (remaining.size > 0) {
+    const ready = Array.from(remaining.keys()).find((name) =>
+      (remaining.get(name) ?? []).every((parent) => !remaining.has(parent))
+    );
+    if (!ready) {
+      return null;
+    }
+    order.push(ready);
+    remaining.delete(ready);
+  }
+  return order;
+};
@@ -0,0 +1,277 @@
+import { DEFAULT_SQL_EXPORT_OPTIONS, FOREIGN_KEY_FIELD_TYPE } from './constants';
+import { foreignKeyFields, sortTablesByDependency } from './referenceValidation';
+import { formatSqlScript, inferSqlColumns, quoteSqlIdentifier, type SqlColumn, type SqlTable } from './sqlExport';
+import type { FieldDefinition, ForeignKeyCardinality, LineEnding, SqlExportOptions, TableDefinition } from './types';
+
+export interface ForeignKeyConfig {
+  fieldName: string;
+  table: string;
+  column: string;
+  cardinality: ForeignKeyCardinality;
+  minChildren: number | null;  // Children per parent row; setting either bound makes this key drive the row count
+  maxChildren: number | null;
+  nullPercent: number;
+}
+
+export interface RelationalTableData {
+  name: string;
+  rows: Array<Record<string, unknown>>;
+}
+
+export interface ForeignKeyPlan {
+  rowCount: number;
+  values: Record<string, unknown[]>;
+  warnings: string[];
+}
+
+const optionNumber = (value: unknown): number | null => {
+  if (value === '' || value === null || value === undefined) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const readForeignKey = (field: FieldDefinition): ForeignKeyConfig => ({
+  fieldName: field.name,
+  table: typeof field.options.table === 'string' ? field.options.table.trim() : '',
+  column: typeof field.options.column === 'string' ? field.options.column.trim() : '',
+  cardinality: field.options.cardinality === '1:1' ? '1:1' : '1:N',
+  minChildren: optionNumber(field.options.minChildren),
+  maxChildren: optionNumber(field.options.maxChildren),
+  nullPercent: Math.min(99, Math.max(0, optionNumber(field.options.nullPercent) ?? 0)),
+});
+
+const isDriving = (config: ForeignKeyConfig) =>
+  config.cardinality === '1:N' && (config.minChildren !== null || config.maxChildren !== null);
+
+const childBounds = (config: ForeignKeyConfig) => {
+  const min = Math.max(0, Math.floor(config.minChildren ?? 1));
+  const max = Math.max(min, Math.floor(config.maxChildren ?? min), 1);
+  return { min, max };
+};
+
+/** The foreign key that sets the table's row count from its parent's rows, if any. */
+export const drivingForeignKey = (table: TableDefinition): ForeignKeyConfig | null =>
+  foreignKeyFields(table).map(readForeignKey).find(isDriving) ?? null;
+
+/** Deterministic PRNG (FNV-1a seeded mulberry32), so a seeded run assigns the same keys every time. */
+export const createSeededRandom = (seed: string): (() => number) => {
+  let state = 0x811c9dc5;
+  for (let index = 0; index < seed.length; index += 1) {
+    state ^= seed.charCodeAt(index);
+    state = Math.imul(state, 0x01000193) >>> 0;
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randomInt = (random: () => number, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+const shuffle = <T>(values: T[], random: () => number): T[] => {
+  const shuffled = [...values];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swap = randomInt(random, 0, index);
+    [shuffled[index], shuffled[swap]] = [shuffled[swap], shuffled[index]];
+  }
+  return shuffled;
+};
+
+/**
+ * Decides the table's row count and the value of every foreign key column, row by row. A driving key gives each
+ * parent between min and max children, plus null-keyed orphan rows for its null percentage. Other 1:N keys pick a
+ * random parent per row; 1:1 keys use each parent at most once and leave the rest null.
+ */
+export const planForeignKeys = (
+  table: TableDefinition,
+  parentKeys: (table: string, column: string) => unknown[],
+  random: () => number
+): ForeignKeyPlan => {
+  const configs = foreignKeyFields(table).map(readForeignKey);
+  const driving = configs.find(isDriving) ?? null;
+  const values: Record<string, unknown[]> = {};
+  const warnings: string[] = [];
+
+  let rowCount = Math.max(0, Math.floor(table.rowCount));
+  if (driving) {
+    const { min, max } = childBounds(driving);
+    const drivingValues = parentKeys(driving.table, driving.column).flatMap((key) =>
+      Array.from({ length: randomInt(random, min, max) }, () => key)
+    );
+    const orphans = Math.round((drivingValues.length * driving.nullPercent) / (100 - driving.nullPercent));
+    values[driving.fieldName] = [...drivingValues, ...Array.from({ length: orphans }, () => null)];
+    rowCount = values[driving.fieldName].length;
+  }
+
+  configs
+    .filter((config) => config !== driving)
+    .forEach((config) => {
+      const keys = parentKeys(config.table, config.column);
+      const label = `${table.name}.${config.fieldName}`;
+      if (keys.length === 0) {
+        warnings.push(`${label} has no ${config.table}.${config.column} values to reference; left null.`);
+        values[config.fieldName] = Array.from({ length: rowCount }, () => null);
+        return;
+      }
+
+      if (config.cardinality === '1:1') {
+        const available = shuffle(keys, random);
+        let exhausted = 0;
+        values[config.fieldName] = Array.from({ length: rowCount }, () => {
+          if (random() * 100 < config.nullPercent) {
+            return null;
+          }
+          if (available.length === 0) {
+            exhausted += 1;
+            return null;
+          }
+          return available.shift();
+        });
+        if (exhausted > 0) {
+          warnings.push(`${label} is 1:1 but ${config.table} only has ${keys.length} keys; ${exhausted} rows are left null.`);
+        }
+        return;
+      }
+
+      values[config.fieldName] = Array.from({ length: rowCount }, () =>
+        random() * 100 < config.nullPercent ? null : keys[randomInt(random, 0, keys.length - 1)]
+      );
+    });
+
+  return { rowCount, values, warnings };
+};
+
+/** Upper bound on the rows each table can produce, in dependency order; used to apply row quotas before generating. */
+export const estimateRelationalRowCounts = (tables: TableDefinition[]): Record<string, number> => {
+  const order = sortTablesByDependency(tables) ?? tables.map((table) => table.name);
+  const counts: Record<string, number> = {};
+  order.forEach((name) => {
+    const table = tables.find((candidate) => candidate.name === name);
+    if (!table) {
+      return;
+    }
+    const driving = drivingForeignKey(table);
+    if (!driving) {
+      counts[name] = Math.max(0, Math.floor(table.rowCount));
+      return;
+    }
+    const children = (counts[driving.table] ?? 0) * childBounds(driving).max;
+    counts[name] = children + Math.round((children * driving.nullPercent) / (100 - driving.nullPercent));
+  });
+  return counts;
+};
+
+/**
+ * One script that creates every table and inserts its rows, parents first, so it loads with foreign keys enforced.
+ * Referenced columns are UNIQUE so they can be REFERENCES targets, and foreign key columns take their parent's type.
+ */
+export const formatRelationalSql = (
+  tables: TableDefinition[],
+  data: RelationalTableData[],
+  lineEnding: LineEnding,
+  options: SqlExportOptions = DEFAULT_SQL_EXPORT_OPTIONS
+): string => {
+  const order = sortTablesByDependency(tables) ?? data.map((entry) => entry.name);
+  const referenced = new Set(
+    tables.flatMap((table) => foreignKeyFields(table).map(readForeignKey).map((config) => `${config.table}.${config.column}`))
+  );
+  const columnsByTable = new Map<string, SqlColumn[]>();
+
+  const sqlTables = order.flatMap((name): SqlTable[] => {
+    const table = tables.find((candidate) => candidate.name === name);
+    const rows = data.find((entry) => entry.name === name)?.rows ?? [];
+    if (!table) {
+      return [];
+    }
+
+    const columns = inferSqlColumns(rows, table.fields).map((column, index): SqlColumn => {
+      const field = table.fields[index];
+      const constraints = referenced.has(`${name}.${field.name}`) ? ['UNIQUE'] : [];
+      if (field.type !== FOREIGN_KEY_FIELD_TYPE) {
+        return { ...column, constraints };
+      }
+      const config = readForeignKey(field);
+      const parent = columnsByTable.get(config.table)?.find((candidate) => candidate.name === config.column);
+      return {
+        ...(parent ? { ...parent, name: column.name } : column),
+        constraints: [
+          ...constraints,
+          `REFERENCES ${quoteSqlIdentifier(config.table, options.dialect)} (${quoteSqlIdentifier(config.column, options.dialect)})`,
+        ],
+      };
+    });
+    columnsByTable.set(name, columns);
+    return [{ name, columns, rows }];
+  });
+
+  return formatSqlScript(sqlTables, options, lineEnding, `Relational test data: ${order.join(', ')}`);
+};
+
+export interface ForeignKeySummary {
+  tableName: string;
+  fieldName: string;
+  parentTable: string;
+  parentColumn: string;
+  cardinality: ForeignKeyCardinality;
+  rows: number;
+  nulls: number;
+  dangling: number;  // Non-null values with no matching parent key
+  parentCount: number;
+  referencedParents: number;
+  minChildren: number;  // Children per parent, counting parents with none
+  maxChildren: number;
+}
+
+/** Integrity check over generated tables: every non-null foreign key should match a parent key. */
+export const summarizeForeignKeys = (tables: TableDefinition[], data: RelationalTableData[]): ForeignKeySummary[] =>
+  tables.flatMap((table) => {
+    const rows = data.find((entry) => entry.name === table.name)?.rows ?? [];
+    return foreignKeyFields(table).map((field) => {
+      const config = readForeignKey(field);
+      const parentRows = data.find((entry) => entry.name === config.table)?.rows ?? [];
+      const children = new Map<string, number>();
+      parentRows.forEach((row) => {
+        const key = row[config.column];
+        if (key !== null && key !== undefined) {
+          children.set(String(key), 0);
+        }
+      });
+
+      let nulls = 0;
+      let dangling = 0;
+      rows.forEach((row) => {
+        const value = row[field.name];
+        if (value === null || value === undefined) {
+          nulls += 1;
+          return;
+        }
+        const count = children.get(String(value));
+        if (count === undefined) {
+          dangling += 1;
+        } else {
+          children.set(String(value), count + 1);
+        }
+      });
+
+      const counts = Array.from(children.values());
+      return {
+        tableName: table.name,
+        fieldName: field.name,
+        parentTable: config.table,
+        parentColumn: config.column,
+        cardinality: config.cardinality,
+        rows: rows.length,
+        nulls,
+        dangling,
+        parentCount: counts.length,
+        referencedParents: counts.filter((count) => count > 0).length,
+        minChildren: counts.length ? counts.reduce((min, count) => Math.min(min, count)) : 0,
+        maxChildren: counts.reduce((max, count) => Math.max(max, count), 0),
+      };
+    });
+  });
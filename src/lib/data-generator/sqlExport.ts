@@ -0,0 +1,440 @@
+import type { SQLDialect } from '@/lib/types/sql';
+
+import { resolveLineEnding } from './formatPreview';
+import type { FieldDefinition, LineEnding, SqlExportOptions } from './types';
+
+export type SqlColumnType =
+  | 'integer'
+  | 'bigint'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'time'
+  | 'uuid'
+  | 'text'
+  | 'longtext';
+
+export interface SqlColumn {
+  name: string;
+  type: SqlColumnType;
+  precision?: number;  // Decimal columns only
+  scale?: number;
+  constraints?: string[];  // Appended after the type in CREATE TABLE, e.g. UNIQUE or REFERENCES …
+}
+
+export interface SqlTable {
+  name: string;
+  columns: SqlColumn[];
+  rows: Array<Record<string, unknown>>;
+}
+
+/** Only the parts of a field that decide its column type; API payload fields have no id. */
+export type SqlFieldSource = Pick<FieldDefinition, 'name' | 'type' | 'options'>;
+
+export const SQL_DIALECTS: SQLDialect[] = ['PostgreSQL', 'MySQL', 'SQL Server', 'SQLite', 'Oracle', 'BigQuery', 'Snowflake'];
+
+// SQL Server rejects more than 1000 rows in one VALUES list.
+const MAX_SQL_SERVER_BATCH = 1000;
+const MAX_VARCHAR_LENGTH = 255;
+const INT_MAX = 2147483647;
+const MAX_DECIMAL_PRECISION = 38;
+const MAX_DECIMAL_SCALE = 10;
+
+const INTEGER_FIELD_TYPES = new Set(['Number', 'Row Number', 'Car Model Year', 'Binomial Distribution']);
+const DECIMAL_FIELD_TYPES = new Set(['Decimal Number', 'Product Price']);
+const DATE_FIELD_TYPES = new Set(['Date', 'Future Date', 'Past Date', 'Date of Birth', 'Datetime']);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const TIME_PATTERN = /^\d{2}:\d{2}(:\d{2})?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const quoteSqlIdentifier = (name: string, dialect: SQLDialect) => {
+  switch (dialect) {
+    case 'MySQL':
+    case 'BigQuery':
+      return `\`${name.replace(/`/g, '``')}\``;
+    case 'SQL Server':
+      return `[${name.replace(/]/g, ']]')}]`;
+    default:
+      return `"${name.replace(/"/g, '""')}"`;
+  }
+};
+
+const stringify = (value: unknown) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+const decimalPlaces = (value: number) => {
+  const [, fraction = ''] = String(value).split('.');
+  return fraction.length;
+};
+
+const integerDigits = (value: number) => String(Math.trunc(Math.abs(value))).length;
+
+/** The type the field promises, before the generated values are checked against it. */
+const declaredType = (field: SqlFieldSource | undefined): SqlColumnType | null => {
+  if (!field) {
+    return null;
+  }
+  if (INTEGER_FIELD_TYPES.has(field.type)) {
+    return 'integer';
+  }
+  if (DECIMAL_FIELD_TYPES.has(field.type)) {
+    return 'decimal';
+  }
+  if (field.type === 'Boolean') {
+    return 'boolean';
+  }
+  if (field.type === 'UUID') {
+    return 'uuid';
+  }
+  if (DATE_FIELD_TYPES.has(field.type)) {
+    const format = typeof field.options.format === 'string' ? field.options.format : 'ISO';
+    return format === 'YYYY-MM-DD' ? 'date' : format === 'ISO' ? 'datetime' : null;
+  }
+  if (field.type === 'Time') {
+    return 'time';
+  }
+  return null;
+};
+
+const matchesType = (type: SqlColumnType, value: unknown) => {
+  switch (type) {
+    case 'integer':
+    case 'bigint':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'decimal':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return typeof value === 'string' && DATE_PATTERN.test(value);
+    case 'datetime':
+      return typeof value === 'string' && DATETIME_PATTERN.test(value);
+    case 'time':
+      return typeof value === 'string' && TIME_PATTERN.test(value);
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value);
+    default:
+      return true;
+  }
+};
+
+const inferFromValues = (values: unknown[]): SqlColumnType => {
+  if (values.length > 0 && values.every((value) => typeof value === 'boolean')) {
+    return 'boolean';
+  }
+  if (values.length > 0 && values.every((value) => matchesType('integer', value))) {
+    return 'integer';
+  }
+  if (values.length > 0 && values.every((value) => matchesType('decimal', value))) {
+    return 'decimal';
+  }
+  return 'text';
+};
+
+/**
+ * Column types for a table: each field's type decides when every generated value fits it (AI enhancement can
+ * rewrite values), otherwise the values themselves do. Anything that is not a number or boolean becomes text.
+ */
+export const inferSqlColumns = (
+  rows: Array<Record<string, unknown>>,
+  fields: SqlFieldSource[] = []
+): SqlColumn[] => {
+  const names = fields.length > 0
+    ? fields.map((field) => field.name)
+    : Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+  return names.map((name) => {
+    const values = rows.map((row) => row[name]).filter((value) => value !== null && value !== undefined);
+    const declared = declaredType(fields.find((field) => field.name === name));
+    let type = declared && values.every((value) => matchesType(declared, value)) ? declared : inferFromValues(values);
+
+    if (type === 'integer' && values.some((value) => Math.abs(value as number) > INT_MAX)) {
+      type = 'bigint';
+    }
+    if (type === 'decimal') {
+      const numbers = values as number[];
+      const scale = numbers.reduce((max, value) => Math.max(max, decimalPlaces(value)), 2);
+      const digits = numbers.reduce((max, value) => Math.max(max, integerDigits(value)), 1);
+      return {
+        name,
+        type,
+        precision: Math.min(MAX_DECIMAL_PRECISION, Math.max(10, digits + scale)),
+        scale: Math.min(scale, MAX_DECIMAL_SCALE),
+      };
+    }
+    if (type === 'text') {
+      const longest = values.reduce<number>((max, value) => Math.max(max, stringify(value).length), 0);
+      return { name, type: longest > MAX_VARCHAR_LENGTH ? 'longtext' : 'text' };
+    }
+    return { name, type };
+  });
+};
+
+/**
+ * The widest column of each kind, for scripts written before every row is known: later rows may hold larger numbers
+ * or longer text than the ones the types were inferred from.
+ */
+export const widenSqlColumns = (columns: SqlColumn[]): SqlColumn[] =>
+  columns.map((column) => {
+    switch (column.type) {
+      case 'integer':
+        return { ...column, type: 'bigint' };
+      case 'text':
+        return { ...column, type: 'longtext' };
+      case 'decimal':
+        return { ...column, precision: MAX_DECIMAL_PRECISION, scale: MAX_DECIMAL_SCALE };
+      default:
+        return column;
+    }
+  });
+
+const TYPE_NAMES: Record<SQLDialect, Record<Exclude<SqlColumnType, 'decimal'>, string>> = {
+  PostgreSQL: {
+    integer: 'INTEGER', bigint: 'BIGINT', boolean: 'BOOLEAN', date: 'DATE', datetime: 'TIMESTAMP', time: 'TIME',
+    uuid: 'UUID', text: 'VARCHAR(255)', longtext: 'TEXT',
+  },
+  MySQL: {
+    integer: 'INT', bigint: 'BIGINT', boolean: 'BOOLEAN', date: 'DATE', datetime: 'DATETIME(3)', time: 'TIME',
+    uuid: 'CHAR(36)', text: 'VARCHAR(255)', longtext: 'TEXT',
+  },
+  'SQL Server': {
+    integer: 'INT', bigint: 'BIGINT', boolean: 'BIT', date: 'DATE', datetime: 'DATETIME2', time: 'TIME',
+    uuid: 'UNIQUEIDENTIFIER', text: 'NVARCHAR(255)', longtext: 'NVARCHAR(MAX)',
+  },
+  SQLite: {
+    integer: 'INTEGER', bigint: 'INTEGER', boolean: 'INTEGER', date: 'TEXT', datetime: 'TEXT', time: 'TEXT',
+    uuid: 'TEXT', text: 'TEXT', longtext: 'TEXT',
+  },
+  Oracle: {
+    integer: 'NUMBER(10)', bigint: 'NUMBER(19)', boolean: 'NUMBER(1)', date: 'DATE', datetime: 'TIMESTAMP',
+    time: 'VARCHAR2(8)', uuid: 'VARCHAR2(36)', text: 'VARCHAR2(255)', longtext: 'CLOB',
+  },
+  BigQuery: {
+    integer: 'INT64', bigint: 'INT64', boolean: 'BOOL', date: 'DATE', datetime: 'TIMESTAMP', time: 'TIME',
+    uuid: 'STRING', text: 'STRING', longtext: 'STRING',
+  },
+  Snowflake: {
+    integer: 'INTEGER', bigint: 'BIGINT', boolean: 'BOOLEAN', date: 'DATE', datetime: 'TIMESTAMP_NTZ', time: 'TIME',
+    uuid: 'VARCHAR(36)', text: 'VARCHAR(255)', longtext: 'VARCHAR',
+  },
+};
+
+export const formatSqlColumnType = (column: SqlColumn, dialect: SQLDialect) => {
+  if (column.type !== 'decimal') {
+    return TYPE_NAMES[dialect][column.type];
+  }
+  const size = `(${column.precision ?? 12}, ${column.scale ?? 2})`;
+  switch (dialect) {
+    case 'Oracle':
+      return `NUMBER${size}`;
+    case 'BigQuery':
+      return 'NUMERIC';
+    case 'SQLite':
+      return 'REAL';
+    default:
+      return `DECIMAL${size}`;
+  }
+};
+
+const quoteString = (value: string, dialect: SQLDialect) => {
+  switch (dialect) {
+    case 'MySQL':
+      return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "''")}'`;
+    case 'BigQuery':
+      return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`;
+    case 'SQL Server':
+      // N'' keeps non-ASCII text intact in NVARCHAR columns.
+      return `${/[^\x00-\x7f]/.test(value) ? 'N' : ''}'${value.replace(/'/g, "''")}'`;
+    default:
+      return `'${value.replace(/'/g, "''")}'`;
+  }
+};
+
+// MySQL, SQL Server and Oracle reject the "T" separator or the trailing zone of ISO timestamps.
+const toPlainTimestamp = (value: string) => value.replace('T', ' ').replace(/(Z|[+-]\d{2}:?\d{2})$/, '');
+
+export const formatSqlLiteral = (value: unknown, column: SqlColumn, dialect: SQLDialect): string => {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  if (typeof value === 'boolean') {
+    return dialect === 'SQLite' || dialect === 'SQL Server' || dialect === 'Oracle'
+      ? (value ? '1' : '0')
+      : (value ? 'TRUE' : 'FALSE');
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'NULL';
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+
+  const text = stringify(value);
+  if (column.type === 'date' && dialect === 'Oracle') {
+    return `DATE ${quoteString(text, dialect)}`;
+  }
+  if (column.type === 'datetime') {
+    if (dialect === 'Oracle') {
+      return `TIMESTAMP ${quoteString(toPlainTimestamp(text), dialect)}`;
+    }
+    if (dialect === 'MySQL' || dialect === 'SQL Server') {
+      return quoteString(toPlainTimestamp(text), dialect);
+    }
+  }
+  return quoteString(text, dialect);
+};
+
+// COPY text format: tab-separated, \N for null, backslash escapes for the separators.
+const formatCopyValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '\\N';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 't' : 'f';
+  }
+  return stringify(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/\t/g, '\\t')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r');
+};
+
+const transactionStatements = (dialect: SQLDialect): [string | null, string] => {
+  switch (dialect) {
+    case 'MySQL':
+      return ['START TRANSACTION;', 'COMMIT;'];
+    case 'SQL Server':
+    case 'BigQuery':
+      return ['BEGIN TRANSACTION;', 'COMMIT TRANSACTION;'];
+    case 'Oracle':
+      // Oracle opens a transaction implicitly with the first statement.
+      return [null, 'COMMIT;'];
+    default:
+      return ['BEGIN;', 'COMMIT;'];
+  }
+};
+
+const dropTableStatement = (table: string, dialect: SQLDialect) =>
+  dialect === 'Oracle'
+    ? [
+        `BEGIN EXECUTE IMMEDIATE 'DROP TABLE ${table.replace(/'/g, "''")} CASCADE CONSTRAINTS';`,
+        'EXCEPTION WHEN OTHERS THEN IF SQLCODE != -942 THEN RAISE; END IF; END;',
+        '/',
+      ]
+    : [`DROP TABLE IF EXISTS ${table};`];
+
+const createTableStatement = (table: SqlTable, dialect: SQLDialect, newline: string) => {
+  const columns = table.columns.map((column) => {
+    // BigQuery only accepts NOT ENFORCED key constraints, so they are left out there.
+    const constraints = dialect === 'BigQuery' ? [] : column.constraints ?? [];
+    return ['  ' + quoteSqlIdentifier(column.name, dialect), formatSqlColumnType(column, dialect), ...constraints].join(' ');
+  });
+  return `CREATE TABLE ${quoteSqlIdentifier(table.name, dialect)} (${newline}${columns.join(`,${newline}`)}${newline});`;
+};
+
+const insertStatements = (table: SqlTable, options: SqlExportOptions, newline: string): string[] => {
+  const { dialect } = options;
+  const name = quoteSqlIdentifier(table.name, dialect);
+  const columnList = table.columns.map((column) => quoteSqlIdentifier(column.name, dialect)).join(', ');
+
+  if (options.usePostgresCopy && dialect === 'PostgreSQL') {
+    return [
+      `COPY ${name} (${columnList}) FROM stdin;`,
+      ...table.rows.map((row) => table.columns.map((column) => formatCopyValue(row[column.name])).join('\t')),
+      '\\.',
+    ];
+  }
+
+  const limit = dialect === 'SQL Server' ? MAX_SQL_SERVER_BATCH : Number.POSITIVE_INFINITY;
+  const batchSize = Math.max(1, Math.min(Math.floor(options.batchSize) || 1, limit));
+  const tuple = (row: Record<string, unknown>) =>
+    `(${table.columns.map((column) => formatSqlLiteral(row[column.name], column, dialect)).join(', ')})`;
+
+  const statements: string[] = [];
+  for (let start = 0; start < table.rows.length; start += batchSize) {
+    const batch = table.rows.slice(start, start + batchSize);
+    if (dialect === 'Oracle' && batch.length > 1) {
+      // Oracle has no multi-row VALUES; INSERT ALL is the batched form.
+      statements.push(
+        ['INSERT ALL', ...batch.map((row) => `  INTO ${name} (${columnList}) VALUES ${tuple(row)}`), 'SELECT 1 FROM DUAL;'].join(newline)
+      );
+    } else if (batch.length === 1) {
+      statements.push(`INSERT INTO ${name} (${columnList}) VALUES ${tuple(batch[0])};`);
+    } else {
+      statements.push(`INSERT INTO ${name} (${columnList}) VALUES${newline}${batch.map((row) => `  ${tuple(row)}`).join(`,${newline}`)};`);
+    }
+  }
+  return statements;
+};
+
+const scriptHeader = (tables: SqlTable[], rowCount: number, options: SqlExportOptions, title: string): string[] => {
+  const { dialect } = options;
+  const [begin] = transactionStatements(dialect);
+  const sections: string[] = [`-- ${title} (${dialect})`, `-- ${rowCount} rows`];
+  if (options.wrapInTransaction && begin) {
+    sections.push('', begin);
+  }
+  if (options.includeDropTable) {
+    sections.push('', ...[...tables].reverse().flatMap((table) => dropTableStatement(quoteSqlIdentifier(table.name, dialect), dialect)));
+  }
+  return sections;
+};
+
+const scriptFooter = (options: SqlExportOptions): string[] =>
+  options.wrapInTransaction ? ['', transactionStatements(options.dialect)[1]] : [];
+
+/**
+ * A load script for one or more tables in the given order (parents first). Drops run in reverse order so child
+ * tables go before the tables they reference.
+ */
+export const formatSqlScript = (
+  tables: SqlTable[],
+  options: SqlExportOptions,
+  lineEnding: LineEnding,
+  title = 'Test data'
+): string => {
+  const newline = resolveLineEnding(lineEnding);
+  const rowCount = tables.reduce((sum, table) => sum + table.rows.length, 0);
+
+  const sections = scriptHeader(tables, rowCount, options, title);
+  tables.forEach((table) => {
+    sections.push('');
+    if (tables.length > 1) {
+      sections.push(`-- ${table.name}: ${table.rows.length} rows`);
+    }
+    if (options.includeCreateTable && table.columns.length > 0) {
+      sections.push(createTableStatement(table, options.dialect, newline));
+    }
+    sections.push(...insertStatements(table, options, newline));
+  });
+  sections.push(...scriptFooter(options));
+
+  return sections.join(newline);
+};
+
+/**
+ * The same single-table script in three parts, for writers that receive rows in chunks: `header` once, `formatRows`
+ * per chunk (each chunk gets its own INSERT batches or COPY block), then `footer`. Column types are fixed up front.
+ */
+export const formatSqlScriptParts = (
+  table: Omit<SqlTable, 'rows'>,
+  rowCount: number,
+  options: SqlExportOptions,
+  lineEnding: LineEnding,
+  title = 'Test data'
+) => {
+  const newline = resolveLineEnding(lineEnding);
+  const header = scriptHeader([{ ...table, rows: [] }], rowCount, options, title);
+  header.push('');
+  if (options.includeCreateTable && table.columns.length > 0) {
+    header.push(createTableStatement({ ...table, rows: [] }, options.dialect, newline));
+  }
+
+  return {
+    header: header.join(newline),
+    formatRows: (rows: Array<Record<string, unknown>>) => insertStatements({ ...table, rows }, options, newline).join(newline),
+    footer: scriptFooter(options).join(newline),
+  };
+};
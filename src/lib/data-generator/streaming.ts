@@ -0,0 +1,123 @@
+import { randomUUID } from 'crypto';
+
+import { applyReferenceFields, generateCopycatRows } from './copycatMapping';
+import { DEFAULT_SQL_EXPORT_OPTIONS, DEFAULT_SQL_TABLE_NAME, STREAM_CHUNK_SIZE, STREAMABLE_EXPORT_FORMATS } from './constants';
+import { formatPreviewData, resolveLineEnding, type FormatPreviewOptions } from './formatPreview';
+import { createNullPercentApplier } from './nullPercent';
+import { formatSqlScriptParts, inferSqlColumns, widenSqlColumns } from './sqlExport';
+import type { FieldDefinition } from './types';
+
+export type StreamableExportFormat = (typeof STREAMABLE_EXPORT_FORMATS)[number];
+
+type Row = Record<string, unknown>;
+
+/**
+ * Copycat rows in chunks. Values are keyed by row index and the null sequence carries over between chunks, so the
+ * output for a seed is the same as generating every row at once.
+ */
+export function* generateRowChunks(
+  fields: FieldDefinition[],
+  count: number,
+  seed: string,
+  chunkSize = STREAM_CHUNK_SIZE
+): Generator<Row[]> {
+  const applyNullPercent = createNullPercentApplier(fields, seed);
+  for (let start = 0; start < count; start += chunkSize) {
+    const { rows } = generateCopycatRows(fields, Math.min(chunkSize, count - start), seed, start);
+    yield applyReferenceFields(applyNullPercent(rows), fields);
+  }
+}
+
+/**
+ * Formats row chunks into consecutive pieces of one file. Only the first chunk carries the CSV header and BOM; SQL
+ * takes its column types from the fields and the first chunk, and wraps the inserts in the script header and footer.
+ * The inferred types are widened, since a later chunk may hold larger numbers or longer text than the first.
+ */
+export function* formatRowChunks(
+  chunks: Iterator<Row[]>,
+  format: StreamableExportFormat,
+  options: FormatPreviewOptions,
+  rowCount: number,
+  tableName = DEFAULT_SQL_TABLE_NAME
+): Generator<string> {
+  const newline = resolveLineEnding(options.lineEnding);
+  let sqlScript: ReturnType<typeof formatSqlScriptParts> | null = null;
+  let isFirst = true;
+
+  for (let chunk = chunks.next(); !chunk.done; chunk = chunks.next()) {
+    const rows = chunk.value;
+    let content: string;
+    if (format === 'SQL') {
+      if (!sqlScript) {
+        sqlScript = formatSqlScriptParts(
+          { name: tableName, columns: widenSqlColumns(inferSqlColumns(rows, options.fields)) },
+          rowCount,
+          options.sql ?? DEFAULT_SQL_EXPORT_OPTIONS,
+          options.lineEnding
+        );
+        content = `${sqlScript.header}${newline}${sqlScript.formatRows(rows)}`;
+      } else {
+        content = sqlScript.formatRows(rows);
+      }
+    } else {
+      const chunkOptions = isFirst ? options : { ...options, includeHeader: false, includeBOM: false };
+      content = formatPreviewData(rows, format, chunkOptions, tableName).content;
+    }
+    yield isFirst ? content : `${newline}${content}`;
+    isFirst = false;
+  }
+
+  if (sqlScript?.footer) {
+    yield `${newline}${sqlScript.footer}`;
+  }
+}
+
+export interface DataExportStreamRequest {
+  fields: FieldDefinition[];
+  count: number;
+  format: StreamableExportFormat;
+  options: FormatPreviewOptions;
+  seed?: string;
+  chunkSize?: number;
+}
+
+export interface DataExportStream {
+  stream: ReadableStream<Uint8Array>;
+  seed: string;
+}
+
+/**
+ * The export file as a byte stream. Each pull generates and formats one chunk, so memory stays flat however many
+ * rows are requested and a slow reader pauses generation. Without a seed one random seed is chosen for the whole run
+ * and returned alongside the stream. A failure part way errors the stream rather than ending the file early.
+ */
+export const createDataExportStream = ({
+  fields,
+  count,
+  format,
+  options,
+  seed,
+  chunkSize = STREAM_CHUNK_SIZE,
+}: DataExportStreamRequest): DataExportStream => {
+  const encoder = new TextEncoder();
+  const runSeed = seed ?? randomUUID();
+  const pieces = formatRowChunks(generateRowChunks(fields, count, runSeed, chunkSize), format, options, count);
+
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      try {
+        const next = pieces.next();
+        if (next.done) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(next.value));
+      } catch (error) {
+        console.error('[DataExportStream] Failed to generate chunk', error);
+        controller.error(error);
+      }
+    },
+  });
+
+  return { stream, seed: runSeed };
+};
@@ -1,4 +1,6 @@
-export type ExportFormat = 'CSV' | 'JSON' | 'SQL' | 'Excel';
+import type { SQLDialect } from '@/lib/types/sql';
+
+export type ExportFormat = 'CSV' | 'TSV' | 'JSON' | 'NDJSON' | 'XML' | 'YAML' | 'SQL' | 'Excel' | 'Parquet';
 
 export type LineEnding = 'Unix (LF)' | 'Windows (CRLF)';
 
@@ -13,6 +15,34 @@ export interface FieldDefinition {
   options: FieldOptions;
 }
 
+export type ForeignKeyCardinality = '1:1' | '1:N';
+
+/** One table of a relational schema; Foreign Key fields point at a column of another table by name. */
+export interface TableDefinition {
+  id: string;
+  name: string;
+  rowCount: number;
+  fields: FieldDefinition[];
+}
+
+export type RelationalExportMode = 'per-table' | 'sql-script';
+
+/** How SQL exports are written; the dialect decides column types, identifier quoting and literal syntax. */
+export interface SqlExportOptions {
+  dialect: SQLDialect;
+  batchSize: number; // Rows per INSERT statement
+  includeCreateTable: boolean;
+  includeDropTable: boolean;
+  wrapInTransaction: boolean;
+  usePostgresCopy: boolean; // PostgreSQL only: COPY … FROM stdin instead of INSERTs
+}
+
+/** Element names for XML exports; invalid characters are replaced when the document is written. */
+export interface XmlExportOptions {
+  rootElement: string;
+  rowElement: string;
+}
+
 export interface ExportConfig {
   rowCount: number;
   format: ExportFormat;
@@ -23,6 +53,8 @@ export interface ExportConfig {
   enhancementPrompt: string;
   useDeterministicSeed: boolean;
   seedValue: string;
+  sql: SqlExportOptions;
+  xml: XmlExportOptions;
 }
 
 export interface SchemaValidationResult {
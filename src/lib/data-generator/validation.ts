@@ -1,5 +1,7 @@
 import { z } from 'zod';
 
+import { MAX_GENERATED_ROWS, MAX_STREAMED_ROWS, STREAMABLE_EXPORT_FORMATS } from './constants';
+
 const fieldOptionValueSchema = z.union([
   z.string(),
   z.number(),
@@ -17,21 +19,23 @@ const fieldDefinitionSchema = z.object({
 
 const lineEndingSchema = z.enum(['Unix (LF)', 'Windows (CRLF)']);
 
-const exportFormatSchema = z.enum(['CSV', 'JSON', 'SQL', 'Excel']);
+const exportFormatSchema = z.enum(['CSV', 'TSV', 'JSON', 'NDJSON', 'XML', 'YAML', 'SQL', 'Excel', 'Parquet']);
+
+const sqlDialectSchema = z.enum(['MySQL', 'PostgreSQL', 'SQLite', 'SQL Server', 'Oracle', 'BigQuery', 'Snowflake']);
 
-const providerSchema = z.enum(['openai', 'gemini', 'openrouter']);
+const exportOptionsSchema = z.object({
+  lineEnding: lineEndingSchema,
+  includeHeader: z.boolean(),
+  includeBOM: z.boolean(),
+});
+
+const providerSchema = z.enum(['openai', 'gemini', 'openrouter', 'local', 'anthropic', 'azure']);
 
 export const generateDataPayloadSchema = z.object({
   fields: z.array(fieldDefinitionSchema).min(1, 'At least one field is required'),
-  count: z.number().int().positive().max(100000).optional(),
+  count: z.number().int().positive().max(MAX_GENERATED_ROWS).optional(),
   format: exportFormatSchema.optional(),
-  options: z
-    .object({
-      lineEnding: lineEndingSchema,
-      includeHeader: z.boolean(),
-      includeBOM: z.boolean(),
-    })
-    .optional(),
+  options: exportOptionsSchema.optional(),
   aiEnhancement: z.string().optional(),
   provider: providerSchema.optional(),
   model: z.string().optional(),
@@ -44,3 +48,53 @@ export const generateDataPayloadSchema = z.object({
 });
 
 export type GenerateDataPayloadInput = z.infer<typeof generateDataPayloadSchema>;
+
+const tableDefinitionSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Table name is required')
+    .max(63, 'Table name is too long'),
+  rowCount: z.number().int().min(0).max(100000).default(0),
+  fields: z.array(fieldDefinitionSchema).min(1, 'Each table needs at least one field'),
+});
+
+export const generateRelationalPayloadSchema = z.object({
+  tables: z.array(tableDefinitionSchema).min(1, 'At least one table is required').max(20, 'At most 20 tables are supported'),
+  aiEnhancement: z.string().optional(),
+  provider: providerSchema.optional(),
+  model: z.string().optional(),
+  seed: z
+    .string()
+    .trim()
+    .min(1, 'Seed cannot be empty')
+    .max(128, 'Seed is too long')
+    .optional(),
+});
+
+export type GenerateRelationalPayloadInput = z.infer<typeof generateRelationalPayloadSchema>;
+
+export const streamDataPayloadSchema = z.object({
+  fields: z.array(fieldDefinitionSchema).min(1, 'At least one field is required'),
+  count: z.number().int().positive().max(MAX_STREAMED_ROWS),
+  format: z.enum(STREAMABLE_EXPORT_FORMATS),
+  options: exportOptionsSchema.optional(),
+  sql: z
+    .object({
+      dialect: sqlDialectSchema,
+      batchSize: z.number().int().positive().max(10000),
+      includeCreateTable: z.boolean(),
+      includeDropTable: z.boolean(),
+      wrapInTransaction: z.boolean(),
+      usePostgresCopy: z.boolean(),
+    })
+    .optional(),
+  seed: z
+    .string()
+    .trim()
+    .min(1, 'Seed cannot be empty')
+    .max(128, 'Seed is too long')
+    .optional(),
+});
+
+export type StreamDataPayloadInput = z.infer<typeof streamDataPayloadSchema>;
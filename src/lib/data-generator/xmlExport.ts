@@ -0,0 +1,59 @@
+import { DEFAULT_XML_EXPORT_OPTIONS } from './constants';
+import { resolveLineEnding } from './formatPreview';
+import type { LineEnding, XmlExportOptions } from './types';
+
+const XSI_NAMESPACE = 'http://www.w3.org/2001/XMLSchema-instance';
+
+/** Turns a field or table name into a valid XML element name: invalid characters become `_`, and a leading digit gets one too. */
+export const toXmlElementName = (name: string, fallback = 'field') => {
+  const cleaned = name.trim().replace(/[^A-Za-z0-9_.\-\u00C0-\uFFEF]/g, '_');
+  if (!cleaned) {
+    return fallback;
+  }
+  return /^[A-Za-z_\u00C0-\uFFEF]/.test(cleaned) ? cleaned : `_${cleaned}`;
+};
+
+// Control characters other than tab and newlines are not allowed anywhere in an XML 1.0 document.
+const escapeXmlText = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+
+const formatXmlValue = (value: unknown) => {
+  if (typeof value === 'object') {
+    return escapeXmlText(JSON.stringify(value));
+  }
+  return escapeXmlText(String(value));
+};
+
+/** One element per row and one child element per field; nulls are written as `xsi:nil` so they differ from empty strings. */
+export const formatXmlDocument = (
+  rows: Array<Record<string, unknown>>,
+  lineEnding: LineEnding,
+  options: XmlExportOptions = DEFAULT_XML_EXPORT_OPTIONS
+) => {
+  const newline = resolveLineEnding(lineEnding);
+  const root = toXmlElementName(options.rootElement, DEFAULT_XML_EXPORT_OPTIONS.rootElement);
+  const rowElement = toXmlElementName(options.rowElement, DEFAULT_XML_EXPORT_OPTIONS.rowElement);
+  const keys = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  const elementNames = new Map(keys.map((key) => [key, toXmlElementName(key)]));
+
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', `<${root} xmlns:xsi="${XSI_NAMESPACE}">`];
+  rows.forEach((row) => {
+    lines.push(`  <${rowElement}>`);
+    keys.forEach((key) => {
+      const element = elementNames.get(key);
+      const value = row[key];
+      if (value === null || value === undefined) {
+        lines.push(`    <${element} xsi:nil="true"/>`);
+      } else {
+        lines.push(`    <${element}>${formatXmlValue(value)}</${element}>`);
+      }
+    });
+    lines.push(`  </${rowElement}>`);
+  });
+  lines.push(`</${root}>`);
+  return lines.join(newline);
+};
@@ -16,6 +16,9 @@ export const fakerCategories: FakerCategory[] = [
       { name: 'Blank', description: 'Always generates a null value' },
       { name: 'Custom List', description: 'Provide your own comma-separated values' },
       { name: 'Reference', description: 'Copy values from another field in the row' },
+      { name: 'UUID', description: 'Random version 4 UUIDs, unique per row' },
+      { name: 'Row Number', description: 'Sequential integers, unique per row; use for primary keys' },
+      { name: 'Foreign Key', description: 'Key of a row in another table (multi-table schemas)' },
       { name: 'AI-Generated', description: 'Custom data generated by AI based on your description' }
     ]
   },
@@ -57,6 +57,27 @@ export const fakerTypeDefinitions: Record<string, FakerTypeDefinition> = {
     fakerMethod: null,
     options: []
   },
+  "UUID": {
+    fakerMethod: "string.uuid",
+    options: []
+  },
+  "Row Number": {
+    fakerMethod: null,
+    options: [
+      {
+        name: "start",
+        label: "Start At",
+        type: "number",
+        default: 1,
+        min: -1000000,
+        max: 1000000
+      }
+    ]
+  },
+  "Foreign Key": {
+    fakerMethod: null,
+    options: []
+  },
   "Custom List": {
     fakerMethod: null,
     options: [
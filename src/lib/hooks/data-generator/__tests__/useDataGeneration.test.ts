@@ -1,14 +1,17 @@
 import { act, renderHook } from '@testing-library/react';
 
 import { useDataGeneration } from '@/lib/hooks/data-generator/useDataGeneration';
+import { DEFAULT_SQL_EXPORT_OPTIONS, DEFAULT_XML_EXPORT_OPTIONS } from '@/lib/data-generator/constants';
 import type { ExportConfig } from '@/lib/data-generator/types';
 
 jest.mock('@/lib/utils/apiClient', () => ({
   fetchApi: jest.fn(),
+  fetchApiStream: jest.fn(),
 }));
 
-const { fetchApi } = jest.requireMock('@/lib/utils/apiClient') as {
+const { fetchApi, fetchApiStream } = jest.requireMock('@/lib/utils/apiClient') as {
   fetchApi: jest.Mock;
+  fetchApiStream: jest.Mock;
 };
 
 const defaultExportConfig: ExportConfig = {
@@ -21,6 +24,8 @@ const defaultExportConfig: ExportConfig = {
   enhancementPrompt: 'Improve summaries',
   useDeterministicSeed: false,
   seedValue: '',
+  sql: DEFAULT_SQL_EXPORT_OPTIONS,
+  xml: DEFAULT_XML_EXPORT_OPTIONS,
 };
 
 const successValidation = () => ({ ok: true });
@@ -219,3 +224,137 @@ describe('useDataGeneration – metadata handling', () => {
     expect(toast).not.toHaveBeenCalledWith(expect.objectContaining({ title: 'Deterministic Mode Not Guaranteed' }));
   });
 });
+
+describe('useDataGeneration – streaming export', () => {
+  const encoder = { encode: (text: string) => Uint8Array.from(Buffer.from(text)) };
+  const streamResponse = (chunks: string[], seed = 'seed-b') => {
+    const reads = chunks.map((chunk) => ({ value: encoder.encode(chunk), done: false }));
+    return {
+      headers: new Map([
+        ['X-Data-Seed', encodeURIComponent(seed)],
+        ['X-Total-Rows', '3'],
+      ]),
+      body: {
+        getReader: () => ({
+          read: jest.fn(async () => reads.shift() ?? { value: undefined, done: true }),
+          releaseLock: jest.fn(),
+        }),
+      },
+    };
+  };
+  const renderStreamingExport = (toast: jest.Mock) =>
+    renderHook(() =>
+      useDataGeneration({
+        exportConfig: { ...defaultExportConfig, format: 'CSV', rowCount: 60000, enhancementPrompt: '' },
+        hasAIGeneratedFields: false,
+        mapFieldsToApi: jest.fn(() => [{ name: 'id', type: 'Row Number', options: {} }]),
+        validateSchema: successValidation,
+        validateExportConfig: successValidation,
+        toast,
+      })
+    );
+
+  beforeAll(() => {
+    window.URL.createObjectURL = jest.fn(() => 'blob:stream');
+    window.URL.revokeObjectURL = jest.fn();
+  });
+
+  beforeEach(() => {
+    fetchApi.mockReset();
+    fetchApiStream.mockReset();
+  });
+
+  it('streams large CSV exports from the server into a download and reports the seed', async () => {
+    const toast = jest.fn();
+    fetchApiStream.mockResolvedValueOnce(streamResponse(['id\n1\n', '2\n3'], 'seed b'));
+    const { result } = renderStreamingExport(toast);
+
+    await act(async () => {
+      await result.current.exportData();
+    });
+
+    expect(fetchApi).not.toHaveBeenCalled();
+    expect(JSON.parse((fetchApiStream.mock.calls[0]?.[1] as RequestInit).body as string)).toMatchObject({
+      count: 60000,
+      format: 'CSV',
+    });
+    expect(window.URL.createObjectURL).toHaveBeenCalledTimes(1);
+    expect(result.current.generationMetadata).toEqual({ engine: 'copycat', deterministic: false, seed: 'seed b' });
+    expect(result.current.streamProgress).toBeNull();
+    expect(toast).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Export Successful', description: expect.stringContaining('3 rows (seed seed b)') })
+    );
+  });
+
+  it('writes straight to a file the user picks when the browser supports it', async () => {
+    const toast = jest.fn();
+    const writable = { write: jest.fn(async () => undefined), close: jest.fn(async () => undefined), abort: jest.fn() };
+    const showSaveFilePicker = jest.fn(async () => ({ name: 'people.csv', createWritable: async () => writable }));
+    Object.assign(window, { showSaveFilePicker });
+    fetchApiStream.mockResolvedValueOnce(streamResponse(['id\n1\n', '2\n3']));
+    (window.URL.createObjectURL as jest.Mock).mockClear();
+    const { result } = renderStreamingExport(toast);
+
+    try {
+      await act(async () => {
+        await result.current.exportData();
+      });
+    } finally {
+      delete (window as { showSaveFilePicker?: unknown }).showSaveFilePicker;
+    }
+
+    expect(showSaveFilePicker).toHaveBeenCalledWith(expect.objectContaining({ suggestedName: expect.stringMatching(/\.csv$/) }));
+    expect(writable.write).toHaveBeenCalledTimes(2);
+    expect(writable.close).toHaveBeenCalled();
+    expect(window.URL.createObjectURL).not.toHaveBeenCalled();
+    expect(toast).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Export Successful', description: expect.stringContaining('Saved people.csv') })
+    );
+  });
+
+  it('removes the picked file when the server refuses the streaming export', async () => {
+    const toast = jest.fn();
+    const fileHandle = { name: 'people.csv', createWritable: jest.fn(), remove: jest.fn(async () => undefined) };
+    Object.assign(window, { showSaveFilePicker: jest.fn(async () => fileHandle) });
+    fetchApiStream.mockRejectedValueOnce(new Error('Rate limit exceeded'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const { result } = renderStreamingExport(toast);
+
+    try {
+      await act(async () => {
+        await result.current.exportData();
+      });
+    } finally {
+      delete (window as { showSaveFilePicker?: unknown }).showSaveFilePicker;
+      jest.restoreAllMocks();
+    }
+
+    expect(fileHandle.createWritable).not.toHaveBeenCalled();
+    expect(fileHandle.remove).toHaveBeenCalled();
+    expect(toast).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Generation Failed', description: 'Rate limit exceeded', variant: 'destructive' })
+    );
+  });
+
+  it('refuses oversized exports in formats that cannot stream', async () => {
+    const toast = jest.fn();
+    const { result } = renderHook(() =>
+      useDataGeneration({
+        exportConfig: { ...defaultExportConfig, format: 'Excel', rowCount: 200000, enhancementPrompt: '' },
+        hasAIGeneratedFields: false,
+        mapFieldsToApi: jest.fn(() => [{ name: 'id', type: 'Row Number', options: {} }]),
+        validateSchema: successValidation,
+        validateExportConfig: successValidation,
+        toast,
+      })
+    );
+
+    await act(async () => {
+      await result.current.exportData();
+    });
+
+    expect(fetchApi).not.toHaveBeenCalled();
+    expect(fetchApiStream).not.toHaveBeenCalled();
+    expect(toast).toHaveBeenCalledWith(expect.objectContaining({ title: 'Too Many Rows', variant: 'destructive' }));
+  });
+});
@@ -1,14 +1,27 @@
 import { useCallback, useState } from 'react';
 
-import { DEFAULT_FILE_PREFIX, DEFAULT_SQL_TABLE_NAME, PREVIEW_ROW_COUNT } from '@/lib/data-generator/constants';
+import {
+  BINARY_EXPORT_ROUTES,
+  buildExportFilename,
+  DEFAULT_SQL_TABLE_NAME,
+  EXPORT_FILE_TYPES,
+  MAX_GENERATED_ROWS,
+  PREVIEW_ROW_COUNT,
+  STREAMABLE_EXPORT_FORMATS,
+  STREAMING_ROW_THRESHOLD,
+} from '@/lib/data-generator/constants';
 import type {
   ExportConfig,
   ExportValidationResult,
   FieldOptions,
   SchemaValidationResult,
 } from '@/lib/data-generator/types';
-import { fetchApi } from '@/lib/utils/apiClient';
-import type { TestDataGenerationMetadata, TestDataGenerationResponse } from '@/lib/types/testData';
+import { formatPreviewData } from '@/lib/data-generator/formatPreview';
+import { fetchApi, fetchApiStream } from '@/lib/utils/apiClient';
+import type {
+  TestDataGenerationMetadata,
+  TestDataGenerationResponse,
+} from '@/lib/types/testData';
 
 interface ToastParams {
   title: string;
@@ -27,8 +40,20 @@ interface UseDataGenerationParams {
   toast: (params: ToastParams) => void;
 }
 
-const WINDOWS_LINE_ENDING = '\r\n';
-const UNIX_LINE_ENDING = '\n';
+// The File System Access API is Chromium-only and not in the TypeScript DOM library yet.
+type SaveFileHandle = FileSystemFileHandle & { remove?: () => Promise<void> };
+type SaveFilePicker = (options: {
+  suggestedName: string;
+  types: Array<{ description: string; accept: Record<string, string[]> }>;
+}) => Promise<SaveFileHandle>;
+
+export interface StreamProgress {
+  rows: number;
+  total: number;
+}
+
+const isStreamableFormat = (format: ExportConfig['format']): format is (typeof STREAMABLE_EXPORT_FORMATS)[number] =>
+  (STREAMABLE_EXPORT_FORMATS as readonly string[]).includes(format);
 
 const resolveValidationTitle = (
   result: SchemaValidationResult | ExportValidationResult
@@ -48,9 +73,6 @@ const resolveValidationTitle = (
   return 'Validation Issue';
 };
 
-const getLineEnding = (lineEnding: ExportConfig['lineEnding']) =>
-  lineEnding === 'Windows (CRLF)' ? WINDOWS_LINE_ENDING : UNIX_LINE_ENDING;
-
 export const useDataGeneration = ({
   exportConfig,
   hasAIGeneratedFields,
@@ -68,6 +90,7 @@ export const useDataGeneration = ({
   const [aiSampleRow, setAiSampleRow] = useState<Record<string, unknown> | null>(null);
   const [isFetchingAiSample, setIsFetchingAiSample] = useState(false);
   const [generationMetadata, setGenerationMetadata] = useState<TestDataGenerationMetadata | null>(null);
+  const [streamProgress, setStreamProgress] = useState<StreamProgress | null>(null);
 
   const reportMetadata = useCallback(
     (metadata?: TestDataGenerationMetadata) => {
@@ -135,7 +158,7 @@ export const useDataGeneration = ({
       const url = window.URL.createObjectURL(blob);
       const anchor = document.createElement('a');
       anchor.href = url;
-      const filename = `${DEFAULT_FILE_PREFIX}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+      const filename = buildExportFilename(extension);
       anchor.download = filename;
       document.body.appendChild(anchor);
       anchor.click();
@@ -146,15 +169,127 @@ export const useDataGeneration = ({
     []
   );
 
+  /**
+   * Writes the streaming export to a file as it arrives. Where the browser can save straight to disk the user picks
+   * the file first, while the click still counts as a user gesture; elsewhere the chunks become Blobs the browser can
+   * page out of memory. The picker creates the file as soon as it closes, so the file is removed again when the
+   * server refuses the request or the stream breaks. Progress is the number of line breaks received, which is one per
+   * row for CSV and NDJSON and an estimate for SQL.
+   */
+  const streamExport = useCallback(
+    async (body: { count: number; format: ExportConfig['format'] } & Record<string, unknown>) => {
+      const fileType = EXPORT_FILE_TYPES[body.format];
+      const filename = buildExportFilename(fileType.extension);
+      const showSaveFilePicker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+      const fileHandle = showSaveFilePicker
+        ? await showSaveFilePicker({
+            suggestedName: filename,
+            types: [{ description: `${body.format} file`, accept: { [fileType.mimeType]: [`.${fileType.extension}`] } }],
+          })
+        : null;
+
+      const discardFile = () => fileHandle?.remove?.().catch(() => undefined);
+
+      let response: Response;
+      try {
+        response = await fetchApiStream('/api/data-generator/stream', {
+          method: 'POST',
+          body: JSON.stringify(body),
+        });
+      } catch (error) {
+        await discardFile();
+        throw error;
+      }
+      const total = Number(response.headers.get('X-Total-Rows')) || body.count;
+      const seed = decodeURIComponent(response.headers.get('X-Data-Seed') ?? '');
+
+      const writable = fileHandle ? await fileHandle.createWritable() : null;
+      const parts: Blob[] = [];
+      const reader = response.body!.getReader();
+      let lineBreaks = 0;
+      try {
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) {
+            break;
+          }
+          if (writable) {
+            await writable.write(value);
+          } else {
+            parts.push(new Blob([value]));
+          }
+          for (let index = 0; index < value.length; index += 1) {
+            if (value[index] === 10) {
+              lineBreaks += 1;
+            }
+          }
+          setStreamProgress({ rows: Math.min(lineBreaks, total), total });
+        }
+        await writable?.close();
+      } catch (error) {
+        await writable?.abort().catch(() => undefined);
+        await discardFile();
+        throw error;
+      } finally {
+        reader.releaseLock();
+      }
+
+      if (!writable) {
+        downloadFile(new Blob(parts), fileType.mimeType, fileType.extension);
+      }
+      return { filename: fileHandle?.name ?? filename, rows: total, seed, savedToDisk: Boolean(writable) };
+    },
+    [downloadFile]
+  );
+
   const exportData = useCallback(async () => {
     if (!ensureReady()) {
       return;
     }
 
+    const usedAI = Boolean(exportConfig.enhancementPrompt.trim() && hasAIGeneratedFields);
+    const canStream =
+      isStreamableFormat(exportConfig.format) && !hasAIGeneratedFields && !exportConfig.enhancementPrompt.trim();
+    if (exportConfig.rowCount > MAX_GENERATED_ROWS && !canStream) {
+      toast({
+        title: 'Too Many Rows',
+        description: `Exports over ${MAX_GENERATED_ROWS.toLocaleString()} rows are streamed, which needs CSV, NDJSON or SQL and no AI-Generated fields or AI context.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setIsGenerating(true);
     onGenerationStart?.();
 
     try {
+      if (canStream && exportConfig.rowCount > STREAMING_ROW_THRESHOLD) {
+        const seed =
+          exportConfig.useDeterministicSeed && exportConfig.seedValue.trim() ? exportConfig.seedValue.trim() : undefined;
+        setStreamProgress({ rows: 0, total: exportConfig.rowCount });
+        const exported = await streamExport({
+          fields: mapFieldsToApi(),
+          count: exportConfig.rowCount,
+          format: exportConfig.format,
+          options: {
+            lineEnding: exportConfig.lineEnding,
+            includeHeader: exportConfig.includeHeader,
+            includeBOM: exportConfig.includeBOM,
+          },
+          sql: exportConfig.sql,
+          ...(seed ? { seed } : {}),
+        });
+        reportMetadata({ engine: 'copycat', deterministic: Boolean(seed), seed: exported.seed });
+        toast({
+          title: 'Export Successful',
+          description: exported.savedToDisk
+            ? `Saved ${exported.filename} with ${exported.rows.toLocaleString()} rows (seed ${exported.seed}).`
+            : `Downloaded ${exported.filename} with ${exported.rows.toLocaleString()} rows (seed ${exported.seed}). Check your browser downloads.`,
+          variant: 'default',
+        });
+        return;
+      }
+
       const payload = {
         fields: mapFieldsToApi(),
         count: exportConfig.rowCount,
@@ -200,81 +335,36 @@ export const useDataGeneration = ({
 
       let downloadedFilename: string | null = null;
       const rowsGenerated = generatedData.data.length;
-      const usedAI = Boolean(exportConfig.enhancementPrompt.trim() && hasAIGeneratedFields);
 
-      if (exportConfig.format === 'Excel') {
+      const fileType = EXPORT_FILE_TYPES[exportConfig.format];
+      const binaryExportRoute = BINARY_EXPORT_ROUTES[exportConfig.format];
+
+      if (binaryExportRoute) {
         const blob = await fetchApi<Blob>(
-          '/api/data-generator/export-excel',
+          binaryExportRoute,
           {
             method: 'POST',
-            body: JSON.stringify({ data: generatedData.data }),
+            body: JSON.stringify({ data: generatedData.data, fields: payload.fields }),
             headers: { Accept: 'application/octet-stream' },
           },
           true
         );
-
-        const url = window.URL.createObjectURL(blob);
-        const anchor = document.createElement('a');
-        anchor.href = url;
-        downloadedFilename = `${DEFAULT_FILE_PREFIX}-${new Date().toISOString().slice(0, 10)}.xlsx`;
-        anchor.download = downloadedFilename;
-        document.body.appendChild(anchor);
-        anchor.click();
-        window.URL.revokeObjectURL(url);
-        anchor.remove();
-
-        toast({
-          title: usedAI ? 'Data Generated with AI Enhancement' : 'Export Successful',
-          description: `Downloaded ${downloadedFilename} with ${rowsGenerated} rows. Check your browser downloads.`,
-          variant: 'default',
-        });
-        return;
-      }
-
-      if (exportConfig.format === 'CSV') {
-        const data = generatedData.data;
-        const delimiter = getLineEnding(exportConfig.lineEnding);
-        const header = exportConfig.includeHeader
-          ? `${Object.keys(data[0]).join(',')}${delimiter}`
-          : '';
-
-        const rows = data
-          .map((row) =>
-            Object.values(row)
-              .map((value) =>
-                typeof value === 'string' ? `"${value.replace(/"/g, '""')}"` : value ?? ''
-              )
-              .join(',')
-          )
-          .join(delimiter);
-
-        const content = exportConfig.includeBOM ? `\ufeff${header}${rows}` : `${header}${rows}`;
-        downloadedFilename = downloadFile(content, 'text/csv', 'csv');
-      } else if (exportConfig.format === 'JSON') {
-        downloadedFilename = downloadFile(
-          JSON.stringify(generatedData.data, null, 2),
-          'application/json',
-          'json'
+        downloadedFilename = downloadFile(blob, fileType.mimeType, fileType.extension);
+      } else {
+        const { content } = formatPreviewData(
+          generatedData.data,
+          exportConfig.format,
+          {
+            lineEnding: exportConfig.lineEnding,
+            includeHeader: exportConfig.includeHeader,
+            includeBOM: exportConfig.includeBOM,
+            sql: exportConfig.sql,
+            xml: exportConfig.xml,
+            fields: payload.fields,
+          },
+          DEFAULT_SQL_TABLE_NAME
         );
-      } else if (exportConfig.format === 'SQL') {
-        const delimiter = getLineEnding(exportConfig.lineEnding);
-        const data = generatedData.data;
-        const columns = Object.keys(data[0]);
-
-        const sql = data
-          .map((row) => {
-            const values = Object.values(row)
-              .map((value) => {
-                if (value === null || value === undefined) return 'NULL';
-                if (typeof value === 'string') return `'${(value as string).replace(/'/g, "''")}'`;
-                return value;
-              })
-              .join(', ');
-            return `INSERT INTO ${DEFAULT_SQL_TABLE_NAME} (${columns.join(', ')}) VALUES (${values});`;
-          })
-          .join(delimiter);
-
-        downloadedFilename = downloadFile(sql, 'text/plain', 'sql');
+        downloadedFilename = downloadFile(content, fileType.mimeType, fileType.extension);
       }
 
       toast({
@@ -285,6 +375,10 @@ export const useDataGeneration = ({
         variant: 'default',
       });
     } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // The user closed the save dialog
+        return;
+      }
       console.error('Error generating data:', error);
       const message = error instanceof Error ? error.message : 'Unknown error occurred';
       toast({
@@ -294,6 +388,7 @@ export const useDataGeneration = ({
       });
     } finally {
       setIsGenerating(false);
+      setStreamProgress(null);
     }
   }, [
     ensureReady,
@@ -304,13 +399,16 @@ export const useDataGeneration = ({
     exportConfig.lineEnding,
     exportConfig.rowCount,
     exportConfig.seedValue,
+    exportConfig.sql,
     exportConfig.useDeterministicSeed,
+    exportConfig.xml,
     downloadFile,
     hasAIGeneratedFields,
     mapFieldsToApi,
     model,
     provider,
     reportMetadata,
+    streamExport,
     toast,
   ]);
 
@@ -489,6 +587,7 @@ export const useDataGeneration = ({
     previewDataRows,
     aiSampleRow,
     generationMetadata,
+    streamProgress,
     isGenerating,
     isFetchingAiSample,
     isPreviewMode,
@@ -0,0 +1,282 @@
+import { useCallback, useState } from 'react';
+
+import {
+  BINARY_EXPORT_ROUTES,
+  DEFAULT_FILE_PREFIX,
+  EXPORT_FILE_TYPES,
+  PREVIEW_ROW_COUNT,
+} from '@/lib/data-generator/constants';
+import { formatPreviewData } from '@/lib/data-generator/formatPreview';
+import { formatRelationalSql, summarizeForeignKeys, type ForeignKeySummary } from '@/lib/data-generator/relational';
+import type {
+  ExportConfig,
+  ExportValidationResult,
+  FieldOptions,
+  RelationalExportMode,
+  SchemaValidationResult,
+  TableDefinition,
+} from '@/lib/data-generator/types';
+import { fetchApi } from '@/lib/utils/apiClient';
+import type {
+  RelationalGenerationResponse,
+  RelationalTableResult,
+  TestDataGenerationMetadata,
+} from '@/lib/types/testData';
+
+interface ToastParams {
+  title: string;
+  description: string;
+  variant: 'default' | 'destructive';
+}
+
+interface ApiTable {
+  name: string;
+  rowCount: number;
+  fields: Array<{ name: string; type: string; options: FieldOptions }>;
+}
+
+interface UseRelationalGenerationParams {
+  tables: TableDefinition[];
+  exportConfig: ExportConfig;
+  exportMode: RelationalExportMode;
+  hasAIGeneratedFields: boolean;
+  mapTablesToApi: () => ApiTable[];
+  validateSchema: () => SchemaValidationResult;
+  validateExportConfig: (hasAIGeneratedFields: boolean) => ExportValidationResult;
+  provider?: string;
+  model?: string;
+  toast: (params: ToastParams) => void;
+  onGenerationStart?: () => void;
+}
+
+const datedFilename = (extension: string) =>
+  `${DEFAULT_FILE_PREFIX}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = filename;
+  document.body.appendChild(anchor);
+  anchor.click();
+  window.URL.revokeObjectURL(url);
+  anchor.remove();
+};
+
+export const useRelationalGeneration = ({
+  tables,
+  exportConfig,
+  exportMode,
+  hasAIGeneratedFields,
+  mapTablesToApi,
+  validateSchema,
+  validateExportConfig,
+  provider,
+  model,
+  toast,
+  onGenerationStart,
+}: UseRelationalGenerationParams) => {
+  const [previewTables, setPreviewTables] = useState<RelationalTableResult[]>([]);
+  const [foreignKeySummaries, setForeignKeySummaries] = useState<ForeignKeySummary[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isPreviewMode, setIsPreviewMode] = useState(false);
+  const [generationMetadata, setGenerationMetadata] = useState<TestDataGenerationMetadata | null>(null);
+
+  const ensureReady = useCallback(() => {
+    const results = [validateSchema(), validateExportConfig(hasAIGeneratedFields)];
+    const failed = results.find((result) => !result.ok);
+    if (failed) {
+      toast({
+        title: 'Validation Issue',
+        description: failed.message ?? 'Schema validation failed.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+    return true;
+  }, [hasAIGeneratedFields, toast, validateExportConfig, validateSchema]);
+
+  const requestTables = useCallback(
+    async (apiTables: ApiTable[]) => {
+      const result = (await fetchApi('/api/data-generator/relational', {
+        method: 'POST',
+        body: JSON.stringify({
+          tables: apiTables,
+          ...(exportConfig.enhancementPrompt.trim() ? { aiEnhancement: exportConfig.enhancementPrompt.trim() } : {}),
+          provider,
+          model,
+          ...(exportConfig.useDeterministicSeed && exportConfig.seedValue.trim()
+            ? { seed: exportConfig.seedValue.trim() }
+            : {}),
+        }),
+      })) as RelationalGenerationResponse;
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      // Summarise before the caller trims rows for the preview, so the integrity counts cover the whole dataset.
+      setForeignKeySummaries(
+        summarizeForeignKeys(tables, result.tables.map((table) => ({ name: table.name, rows: table.data })))
+      );
+
+      const metadata = result.metadata ?? null;
+      setGenerationMetadata(metadata);
+      metadata?.warnings?.forEach((warning) => {
+        toast({ title: 'Generation Notice', description: warning, variant: 'default' });
+      });
+      return result.tables;
+    },
+    [
+      exportConfig.enhancementPrompt,
+      exportConfig.seedValue,
+      exportConfig.useDeterministicSeed,
+      model,
+      provider,
+      tables,
+      toast,
+    ]
+  );
+
+  const generatePreview = useCallback(async () => {
+    if (!ensureReady()) {
+      return;
+    }
+
+    setIsGenerating(true);
+    onGenerationStart?.();
+    try {
+      const generated = await requestTables(
+        mapTablesToApi().map((table) => ({ ...table, rowCount: Math.min(table.rowCount, PREVIEW_ROW_COUNT) }))
+      );
+      setPreviewTables(generated);
+      setIsPreviewMode(true);
+      toast({
+        title: 'Data Generated',
+        description: `Generated ${generated.map((table) => `${table.count} ${table.name}`).join(', ')}`,
+        variant: 'default',
+      });
+    } catch (error) {
+      console.error('Error generating relational data:', error);
+      toast({
+        title: 'Generation Failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [ensureReady, mapTablesToApi, onGenerationStart, requestTables, toast]);
+
+  const exportData = useCallback(async () => {
+    if (!ensureReady()) {
+      return;
+    }
+
+    setIsGenerating(true);
+    onGenerationStart?.();
+    try {
+      const generated = await requestTables(mapTablesToApi());
+      setPreviewTables(generated.map((table) => ({ ...table, data: table.data.slice(0, PREVIEW_ROW_COUNT) })));
+      setIsPreviewMode(true);
+
+      let filename: string;
+      if (exportMode === 'sql-script') {
+        const script = formatRelationalSql(
+          tables,
+          generated.map((table) => ({ name: table.name, rows: table.data })),
+          exportConfig.lineEnding,
+          exportConfig.sql
+        );
+        filename = datedFilename('sql');
+        downloadBlob(new Blob([script], { type: 'text/plain' }), filename);
+      } else {
+        const { default: JSZip } = await import('jszip');
+        const zip = new JSZip();
+        const binaryExportRoute = BINARY_EXPORT_ROUTES[exportConfig.format];
+        for (const table of generated) {
+          const tableFilename = `${table.name}.${EXPORT_FILE_TYPES[exportConfig.format].extension}`;
+          const tableFields = tables.find((candidate) => candidate.name === table.name)?.fields;
+          if (binaryExportRoute) {
+            const blob = await fetchApi<Blob>(
+              binaryExportRoute,
+              {
+                method: 'POST',
+                body: JSON.stringify({ data: table.data, fields: tableFields }),
+                headers: { Accept: 'application/octet-stream' },
+              },
+              true
+            );
+            zip.file(tableFilename, blob);
+          } else {
+            const { content } = formatPreviewData(
+              table.data,
+              exportConfig.format,
+              {
+                lineEnding: exportConfig.lineEnding,
+                includeHeader: exportConfig.includeHeader,
+                includeBOM: exportConfig.includeBOM,
+                sql: exportConfig.sql,
+                xml: exportConfig.xml,
+                fields: tableFields,
+              },
+              table.name
+            );
+            zip.file(tableFilename, content);
+          }
+        }
+        filename = datedFilename('zip');
+        downloadBlob(await zip.generateAsync({ type: 'blob' }), filename);
+      }
+
+      const rows = generated.reduce((sum, table) => sum + table.count, 0);
+      toast({
+        title: 'Export Successful',
+        description: `Downloaded ${filename} with ${rows} rows across ${generated.length} tables. Check your browser downloads.`,
+        variant: 'default',
+      });
+    } catch (error) {
+      console.error('Error exporting relational data:', error);
+      toast({
+        title: 'Generation Failed',
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  }, [
+    ensureReady,
+    exportConfig.format,
+    exportConfig.includeBOM,
+    exportConfig.includeHeader,
+    exportConfig.lineEnding,
+    exportConfig.sql,
+    exportConfig.xml,
+    exportMode,
+    mapTablesToApi,
+    onGenerationStart,
+    requestTables,
+    tables,
+    toast,
+  ]);
+
+  const clearPreview = useCallback(() => {
+    setPreviewTables([]);
+    setForeignKeySummaries([]);
+    setIsPreviewMode(false);
+  }, []);
+
+  return {
+    exportData,
+    generatePreview,
+    clearPreview,
+    previewTables,
+    foreignKeySummaries,
+    generationMetadata,
+    isGenerating,
+    isPreviewMode,
+  };
+};
+
+export type UseRelationalGenerationReturn = ReturnType<typeof useRelationalGeneration>;
@@ -0,0 +1,143 @@
+import { useCallback, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+
+import { AI_GENERATED_FIELD_TYPE, DEFAULT_TABLE_ROW_COUNT, ROW_NUMBER_FIELD_TYPE } from '@/lib/data-generator/constants';
+import { validateFieldDefinition } from '@/lib/data-generator/fieldValidation';
+import { collectTableRelationIssues, findTableCycles } from '@/lib/data-generator/referenceValidation';
+import type { FieldDefinition, FieldOptions, SchemaValidationResult, TableDefinition } from '@/lib/data-generator/types';
+
+const createTable = (name: string): TableDefinition => ({
+  id: uuidv4(),
+  name,
+  rowCount: DEFAULT_TABLE_ROW_COUNT,
+  fields: [{ id: uuidv4(), name: 'id', type: ROW_NUMBER_FIELD_TYPE, options: { start: 1 } }],
+});
+
+const nextTableName = (tables: TableDefinition[]) => {
+  let index = tables.length + 1;
+  while (tables.some((table) => table.name === `table_${index}`)) {
+    index += 1;
+  }
+  return `table_${index}`;
+};
+
+interface UseRelationalSchemaOptions {
+  initialTables?: TableDefinition[];
+}
+
+export const useRelationalSchema = (options?: UseRelationalSchemaOptions) => {
+  const [tables, setTables] = useState<TableDefinition[]>(() => options?.initialTables ?? [createTable('table_1')]);
+  const [activeTableId, setActiveTableId] = useState<string>(() => tables[0]?.id ?? '');
+
+  const activeTable = useMemo(
+    () => tables.find((table) => table.id === activeTableId) ?? tables[0] ?? null,
+    [activeTableId, tables]
+  );
+
+  const hasAIGeneratedFields = useMemo(
+    () => tables.some((table) => table.fields.some((field) => field.type === AI_GENERATED_FIELD_TYPE)),
+    [tables]
+  );
+
+  const relationIssues = useMemo(() => collectTableRelationIssues(tables), [tables]);
+  const cycles = useMemo(() => findTableCycles(tables), [tables]);
+
+  const addTable = useCallback(() => {
+    const table = createTable(nextTableName(tables));
+    setTables((previous) => [...previous, table]);
+    setActiveTableId(table.id);
+  }, [tables]);
+
+  const removeTable = useCallback(
+    (id: string) => {
+      if (tables.length <= 1) {
+        return;
+      }
+      const remaining = tables.filter((table) => table.id !== id);
+      setTables(remaining);
+      if (id === activeTableId) {
+        setActiveTableId(remaining[0].id);
+      }
+    },
+    [activeTableId, tables]
+  );
+
+  const updateTable = useCallback((id: string, patch: Partial<Pick<TableDefinition, 'name' | 'rowCount'>>) => {
+    setTables((previous) => previous.map((table) => (table.id === id ? { ...table, ...patch } : table)));
+  }, []);
+
+  const setTableFields = useCallback((id: string, fields: FieldDefinition[]) => {
+    setTables((previous) => previous.map((table) => (table.id === id ? { ...table, fields } : table)));
+  }, []);
+
+  const validateSchema = useCallback((): SchemaValidationResult => {
+    if (tables.every((table) => table.fields.length === 0)) {
+      return { ok: false, message: 'Please add at least one field with a type.', error: { type: 'empty' } };
+    }
+
+    const missingType = tables.flatMap((table) =>
+      table.fields.filter((field) => !field.type).map((field) => `${table.name}.${field.name}`)
+    );
+    if (missingType.length > 0) {
+      return {
+        ok: false,
+        message: `Please select types for all fields: ${missingType.join(', ')}`,
+        error: { type: 'missingType', fields: missingType },
+      };
+    }
+
+    const invalid = tables.flatMap((table) =>
+      table.fields
+        .filter((field, index) => validateFieldDefinition(field, index, table.fields).length > 0)
+        .map((field) => `${table.name}.${field.name}`)
+    );
+    const related = relationIssues.map((issue) => (issue.fieldName ? `${issue.tableName}.${issue.fieldName}` : issue.tableName));
+    if (invalid.length > 0 || related.length > 0) {
+      const names = Array.from(new Set([...invalid, ...related]));
+      return {
+        ok: false,
+        message: `Fix validation errors for: ${names.join(', ')}`,
+        error: { type: 'invalid', fields: names },
+      };
+    }
+
+    if (cycles.length > 0) {
+      return {
+        ok: false,
+        message: `Tables reference each other in a cycle: ${cycles.map((cycle) => cycle.join(' → ')).join('; ')}`,
+        error: { type: 'invalid', fields: cycles.flat() },
+      };
+    }
+
+    return { ok: true };
+  }, [cycles, relationIssues, tables]);
+
+  const mapTablesToApi = useCallback(
+    (): Array<{ name: string; rowCount: number; fields: Array<{ name: string; type: string; options: FieldOptions }> }> =>
+      tables.map((table) => ({
+        name: table.name,
+        rowCount: table.rowCount,
+        fields: table.fields.map(({ name, type, options }) => ({ name, type, options })),
+      })),
+    [tables]
+  );
+
+  return {
+    tables,
+    setTables,
+    activeTable,
+    activeTableId: activeTable?.id ?? '',
+    setActiveTableId,
+    addTable,
+    removeTable,
+    updateTable,
+    setTableFields,
+    hasAIGeneratedFields,
+    relationIssues,
+    cycles,
+    validateSchema,
+    mapTablesToApi,
+  };
+};
+
+export type UseRelationalSchemaReturn = ReturnType<typeof useRelationalSchema>;
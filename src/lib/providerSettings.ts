@@ -12,8 +12,14 @@ export const FALLBACK_MODELS: Record<LLMProvider, string> = {
   openai: 'gpt-4.1-mini',
   gemini: 'gemini-flash-latest',
   openrouter: 'openrouter/auto',
+  local: 'llama3.1',
+  anthropic: 'claude-sonnet-4-5',
+  azure: 'gpt-4.1-mini',
 };
 
+// Providers whose model ids can't be fully listed: OpenRouter routes, local model tags, Azure deployment names.
+const CUSTOM_MODEL_PROVIDERS: LLMProvider[] = ['openrouter', 'local', 'azure'];
+
 const LEGACY_MODEL_ALIASES: Record<string, string> = {
   'gpt-5-thinking': 'gpt-4o',
   'gpt-5-thinking-mini': 'gpt-4.1-mini',
@@ -83,6 +89,7 @@ export const DEFAULT_AGENTIC_DEFAULTS: AgenticDefaults = {
   priorityMode: 'comprehensive',
   reviewPasses: 1,
   writerConcurrency: 3,
+  reviewPlanFirst: false,
   overrides: {},
 };
 
@@ -154,7 +161,7 @@ export function coerceStoredSettings(raw: any): ProviderSettings {
       return { ...DEFAULT_AGENTIC_DEFAULTS, overrides: {} };
     }
 
-    const mode = rawDefaults.mode === 'detailed' ? 'detailed' : 'high-level';
+    const mode = rawDefaults.mode === 'detailed' || rawDefaults.mode === 'gherkin' ? rawDefaults.mode : 'high-level';
     const priorityMode = rawDefaults.priorityMode === 'core-functionality' ? 'core-functionality' : 'comprehensive';
     const reviewPasses = clampReviewPasses(Number(rawDefaults.reviewPasses ?? DEFAULT_AGENTIC_DEFAULTS.reviewPasses));
     const writerConcurrency = clampWriterConcurrency(Number(rawDefaults.writerConcurrency ?? DEFAULT_AGENTIC_DEFAULTS.writerConcurrency));
@@ -185,6 +192,7 @@ export function coerceStoredSettings(raw: any): ProviderSettings {
       priorityMode,
       reviewPasses,
       writerConcurrency,
+      reviewPlanFirst: rawDefaults.reviewPlanFirst === true,
       overrides,
     };
   };
@@ -221,7 +229,7 @@ export function ensureSettingsFallback(
       ?? FALLBACK_MODELS[providerId];
     const providerChanged = selection.provider !== providerId;
     const candidateModel = normalizeModelIdentifier(providerId, selection.model);
-    const allowCustom = providerId === 'openrouter' || !descriptor.models || descriptor.models.length === 0;
+    const allowCustom = CUSTOM_MODEL_PROVIDERS.includes(providerId) || !descriptor.models || descriptor.models.length === 0;
     const modelExists = descriptor.models?.some((model) => model.id === candidateModel) ?? false;
     const normalizedModel = providerChanged
       ? defaultModel
@@ -242,7 +250,7 @@ export function ensureSettingsFallback(
       ?? descriptor.models?.[0]?.id
       ?? FALLBACK_MODELS[providerId];
     const candidateModel = normalizeModelIdentifier(providerId, selection.model);
-    const allowCustom = providerId === 'openrouter' || !descriptor.models || descriptor.models.length === 0;
+    const allowCustom = CUSTOM_MODEL_PROVIDERS.includes(providerId) || !descriptor.models || descriptor.models.length === 0;
     const modelExists = descriptor.models?.some((model) => model.id === candidateModel) ?? false;
     const normalizedModel = candidateModel && (modelExists || allowCustom)
       ? candidateModel
@@ -282,7 +290,7 @@ export function ensureSettingsFallback(
       ?? descriptor.models?.[0]?.id
       ?? FALLBACK_MODELS[providerId];
     const candidateModel = normalizeModelIdentifier(providerId, override.model);
-    const allowCustom = providerId === 'openrouter' || !descriptor.models || descriptor.models.length === 0;
+    const allowCustom = CUSTOM_MODEL_PROVIDERS.includes(providerId) || !descriptor.models || descriptor.models.length === 0;
     const modelExists = descriptor.models?.some((model) => model.id === candidateModel) ?? false;
     const normalizedModel = candidateModel && (modelExists || allowCustom)
       ? candidateModel
@@ -317,6 +325,7 @@ export function ensureSettingsFallback(
       writerConcurrency: clampWriterConcurrency(
         agenticDefaults.writerConcurrency ?? DEFAULT_AGENTIC_DEFAULTS.writerConcurrency ?? 1
       ),
+      reviewPlanFirst: agenticDefaults.reviewPlanFirst ?? DEFAULT_AGENTIC_DEFAULTS.reviewPlanFirst,
       overrides,
     },
   };
@@ -366,5 +375,10 @@ export function buildDefaultSettings(providers: ProviderDescriptor[]): ProviderS
 }
 
 function isValidProvider(value: any): value is LLMProvider {
-  return value === 'openai' || value === 'gemini' || value === 'openrouter';
+  return value === 'openai'
+    || value === 'gemini'
+    || value === 'openrouter'
+    || value === 'local'
+    || value === 'anthropic'
+    || value === 'azure';
 }
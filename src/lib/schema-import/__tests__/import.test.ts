@@ -0,0 +1,217 @@
+/** @jest-environment node */
+import { FOREIGN_KEY_FIELD_TYPE, ROW_NUMBER_FIELD_TYPE } from '@/lib/data-generator/constants';
+import type { FieldDefinition, TableDefinition } from '@/lib/data-generator/types';
+import { detectSchemaFormat, importSchema, parseDdl } from '@/lib/schema-import';
+
+const fieldOf = (table: TableDefinition, name: string): FieldDefinition => {
+  const field = table.fields.find((candidate) => candidate.name === name);
+  if (!field) {
+    throw new Error(`No field ${name} in ${table.name}`);
+  }
+  return field;
+};
+
+const tableOf = (tables: TableDefinition[], name: string) => {
+  const table = tables.find((candidate) => candidate.name === name);
+  if (!table) {
+    throw new Error(`No table ${name}`);
+  }
+  return table;
+};
+
+describe('schema import', () => {
+  it('maps MySQL columns by name and type, keeping lengths, ranges and nullability', () => {
+    const { format, tables, warnings } = importSchema(`
+      -- customers
+      CREATE TABLE IF NOT EXISTS \`shop\`.\`customers\` (
+        \`id\` INT UNSIGNED NOT NULL AUTO_INCREMENT,
+        \`email\` VARCHAR(255) NOT NULL UNIQUE,
+        \`first_name\` VARCHAR(50),
+        \`status\` ENUM('active', 'suspended') NOT NULL DEFAULT 'active',
+        \`is_admin\` TINYINT(1) NOT NULL DEFAULT 0,
+        \`balance\` DECIMAL(6, 2) NOT NULL,
+        \`age\` SMALLINT CHECK (age BETWEEN 18 AND 99),
+        \`created_at\` TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        \`code\` CHAR(8) NOT NULL,
+        PRIMARY KEY (\`id\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4;
+    `);
+
+    expect(format).toBe('sql');
+    expect(warnings).toEqual([]);
+    const [customers] = tables;
+    expect(customers.name).toBe('customers');
+    expect(fieldOf(customers, 'id')).toMatchObject({ type: ROW_NUMBER_FIELD_TYPE, options: { start: 1 } });
+    expect(fieldOf(customers, 'email')).toMatchObject({ type: 'Email' });
+    expect(fieldOf(customers, 'first_name')).toMatchObject({ type: 'First Name', options: { nullPercent: 10 } });
+    expect(fieldOf(customers, 'status')).toMatchObject({ type: 'Custom List', options: { values: 'active, suspended' } });
+    expect(fieldOf(customers, 'is_admin').type).toBe('Boolean');
+    expect(fieldOf(customers, 'balance')).toMatchObject({ type: 'Decimal Number', options: { min: 0, multipleOf: 0.01 } });
+    expect(fieldOf(customers, 'age')).toMatchObject({ type: 'Number', options: { min: 18, max: 99, nullPercent: 10 } });
+    expect(fieldOf(customers, 'created_at')).toMatchObject({ type: 'Date', options: { format: 'ISO' } });
+    expect(fieldOf(customers, 'code')).toMatchObject({ type: 'Character Sequence', options: { length: 8 } });
+    expect(fieldOf(customers, 'email').options.nullPercent).toBeUndefined();
+  });
+
+  it('reads PostgreSQL enum types, CHECK IN lists and foreign keys added by ALTER TABLE', () => {
+    const { tables, warnings } = importSchema(`
+      CREATE TYPE order_status AS ENUM ('pending', 'shipped', 'delivered');
+      CREATE TABLE public.users (
+        id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+        full_name text NOT NULL,
+        birth_date date
+      );
+      CREATE TABLE public.orders (
+        id bigint GENERATED ALWAYS AS IDENTITY,
+        user_id uuid NOT NULL,
+        status order_status NOT NULL,
+        channel varchar(10) NOT NULL CHECK (channel IN ('web', 'store')),
+        total numeric(10,2) NOT NULL CHECK (total >= 0)
+      );
+      ALTER TABLE ONLY public.orders ADD CONSTRAINT orders_pkey PRIMARY KEY (id);
+      ALTER TABLE ONLY public.orders ADD CONSTRAINT orders_user_fk FOREIGN KEY (user_id) REFERENCES public.users(id);
+    `);
+
+    expect(warnings).toEqual([]);
+    const users = tableOf(tables, 'users');
+    const orders = tableOf(tables, 'orders');
+    expect(fieldOf(users, 'id').type).toBe('UUID');
+    expect(fieldOf(users, 'full_name').type).toBe('Full Name');
+    expect(fieldOf(users, 'birth_date')).toMatchObject({ type: 'Date of Birth', options: { format: 'YYYY-MM-DD' } });
+    expect(fieldOf(orders, 'id').type).toBe(ROW_NUMBER_FIELD_TYPE);
+    expect(fieldOf(orders, 'user_id')).toMatchObject({
+      type: FOREIGN_KEY_FIELD_TYPE,
+      options: { table: 'users', column: 'id', cardinality: '1:N', nullPercent: 0 },
+    });
+    expect(fieldOf(orders, 'status').options.values).toBe('pending, shipped, delivered');
+    expect(fieldOf(orders, 'channel')).toMatchObject({ type: 'Custom List', options: { values: 'web, store' } });
+    expect(fieldOf(orders, 'total')).toMatchObject({ type: 'Product Price', options: { min: 0 } });
+  });
+
+  it('handles SQL Server brackets, IDENTITY, NVARCHAR(MAX), bit and GO batches', () => {
+    const { tables, warnings } = importSchema(`
+      CREATE TABLE [dbo].[Products] (
+        [ProductId] INT IDENTITY(1,1) NOT NULL PRIMARY KEY,
+        [Sku] NVARCHAR(20) NOT NULL,
+        [Notes] NVARCHAR(MAX) NULL,
+        [IsActive] BIT NOT NULL,
+        [RowGuid] UNIQUEIDENTIFIER NOT NULL
+      )
+      GO
+      CREATE TABLE [dbo].[Reviews] (
+        [ReviewId] INT IDENTITY(1,1) NOT NULL,
+        [ProductId] INT NOT NULL REFERENCES [dbo].[Products],
+        [Rating] TINYINT NOT NULL CHECK ([Rating] >= 1 AND [Rating] <= 5),
+        CONSTRAINT [PK_Reviews] PRIMARY KEY CLUSTERED ([ReviewId])
+      )
+      GO
+    `);
+
+    expect(warnings).toEqual([]);
+    const products = tableOf(tables, 'Products');
+    const reviews = tableOf(tables, 'Reviews');
+    expect(fieldOf(products, 'ProductId').type).toBe(ROW_NUMBER_FIELD_TYPE);
+    expect(fieldOf(products, 'Sku').type).toBe('Product SKU');
+    expect(fieldOf(products, 'Notes')).toMatchObject({ type: 'Character Sequence', options: { nullPercent: 10 } });
+    expect(fieldOf(products, 'IsActive').type).toBe('Boolean');
+    expect(fieldOf(products, 'RowGuid').type).toBe('UUID');
+    expect(fieldOf(reviews, 'ProductId').options).toMatchObject({ table: 'Products', column: 'ProductId' });
+    expect(fieldOf(reviews, 'Rating')).toMatchObject({ type: 'Number', options: { min: 1, max: 5 } });
+  });
+
+  it('warns about references to tables that are not in the script', () => {
+    const { tables, warnings } = parseDdl('CREATE TABLE a (id int primary key, b_id int references b(id));');
+
+    expect(tables).toHaveLength(1);
+    expect(warnings.join(' ')).toContain('b');
+    expect(parseDdl('SELECT 1;').warnings).toEqual(['No CREATE TABLE statements found.']);
+  });
+
+  it('maps JSON Schema formats, enums, ranges and nullable types', () => {
+    const { format, tables } = importSchema(
+      JSON.stringify({
+        title: 'Customer',
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          contact: { type: 'string', format: 'email' },
+          signedUpAt: { type: 'string', format: 'date-time' },
+          tier: { enum: ['free', 'pro', null] },
+          score: { type: 'integer', minimum: 0, exclusiveMaximum: 100 },
+          ratio: { type: ['number', 'null'], maximum: 1, multipleOf: 0.001 },
+          nickname: { type: 'string', maxLength: 12 },
+        },
+      })
+    );
+
+    expect(format).toBe('json-schema');
+    const [customer] = tables;
+    expect(customer.name).toBe('Customer');
+    expect(fieldOf(customer, 'id').type).toBe('UUID');
+    expect(fieldOf(customer, 'contact').type).toBe('Email');
+    expect(fieldOf(customer, 'signedUpAt')).toMatchObject({ type: 'Date', options: { format: 'ISO' } });
+    expect(fieldOf(customer, 'tier').options.values).toBe('free, pro');
+    expect(fieldOf(customer, 'score')).toMatchObject({ type: 'Number', options: { min: 0, max: 99 } });
+    expect(fieldOf(customer, 'ratio')).toMatchObject({
+      type: 'Decimal Number',
+      options: { max: 1, multipleOf: 0.001, nullPercent: 10 },
+    });
+    expect(fieldOf(customer, 'nickname')).toMatchObject({ type: 'Character Sequence', options: { length: 12 } });
+  });
+
+  it('imports OpenAPI component schemas from YAML, following $ref and allOf and skipping nested objects', () => {
+    const document = `
+openapi: 3.0.3
+info:
+  title: Pets
+  version: 1.0.0
+paths: {}
+components:
+  schemas:
+    Base:
+      type: object
+      properties:
+        id:
+          type: integer
+    Pet:
+      allOf:
+        - $ref: '#/components/schemas/Base'
+        - type: object
+          properties:
+            name:
+              type: string
+            price:
+              type: number
+              nullable: true
+            owner:
+              $ref: '#/components/schemas/Owner'
+    Owner:
+      type: object
+      properties:
+        phone:
+          type: string
+`;
+
+    expect(detectSchemaFormat(document)).toBe('openapi');
+    const { format, tables, warnings } = importSchema(document);
+
+    expect(format).toBe('openapi');
+    expect(tables.map((table) => table.name)).toEqual(['Base', 'Pet', 'Owner']);
+    const pet = tableOf(tables, 'Pet');
+    expect(pet.fields.map((field) => field.name)).toEqual(['id', 'name', 'price']);
+    expect(fieldOf(pet, 'name').type).toBe('Full Name');
+    expect(fieldOf(pet, 'price')).toMatchObject({ type: 'Product Price', options: { nullPercent: 10 } });
+    expect(fieldOf(tableOf(tables, 'Owner'), 'phone').type).toBe('Phone Number');
+    expect(warnings).toEqual(['Pet.owner (Owner) is a nested object; skipped.']);
+  });
+
+  it('detects formats from file names and content and rejects empty input', () => {
+    expect(detectSchemaFormat('create table t (id int);')).toBe('sql');
+    expect(detectSchemaFormat('{"swagger": "2.0", "definitions": {}}')).toBe('openapi');
+    expect(detectSchemaFormat('{"type": "object"}')).toBe('json-schema');
+    expect(detectSchemaFormat('type: object', 'customer.yaml')).toBe('json-schema');
+    expect(detectSchemaFormat('anything', 'schema.sql')).toBe('sql');
+    expect(() => importSchema('   ')).toThrow('Paste a schema');
+    expect(() => importSchema('[1, 2]', { format: 'json-schema' })).toThrow('Expected a JSON Schema or OpenAPI document');
+  });
+});
@@ -0,0 +1,411 @@
+import type { ColumnKind, ImportedColumn } from './fieldMapping';
+
+export interface ImportedTable {
+  name: string;
+  columns: ImportedColumn[];
+}
+
+export interface ParsedSchema {
+  tables: ImportedTable[];
+  warnings: string[];
+}
+
+interface Token {
+  kind: 'word' | 'identifier' | 'string' | 'number' | 'symbol';
+  value: string;
+}
+
+const isWord = (token: Token | undefined, ...words: string[]) =>
+  token?.kind === 'word' && words.includes(token.value.toUpperCase());
+
+const isSymbol = (token: Token | undefined, symbol: string) => token?.kind === 'symbol' && token.value === symbol;
+
+/** Splits DDL into tokens, dropping comments; "x", `x` and [x] become identifiers so every dialect's quoting reads alike. */
+const tokenize = (sql: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  const readQuoted = (close: string, kind: Token['kind']) => {
+    let value = '';
+    index += 1;
+    while (index < sql.length) {
+      if (sql[index] === close && sql[index + 1] === close) {
+        value += close;
+        index += 2;
+      } else if (sql[index] === close) {
+        index += 1;
+        break;
+      } else {
+        value += sql[index];
+        index += 1;
+      }
+    }
+    tokens.push({ kind, value });
+  };
+
+  while (index < sql.length) {
+    const char = sql[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if ((char === '-' && sql[index + 1] === '-') || char === '#') {
+      while (index < sql.length && sql[index] !== '\n') index += 1;
+    } else if (char === '/' && sql[index + 1] === '*') {
+      const end = sql.indexOf('*/', index + 2);
+      index = end === -1 ? sql.length : end + 2;
+    } else if (char === "'") {
+      readQuoted("'", 'string');
+    } else if (char === '"' || char === '`') {
+      readQuoted(char, 'identifier');
+    } else if (char === '[' && /[A-Za-z_@# ]/.test(sql[index + 1] ?? '')) {
+      readQuoted(']', 'identifier');
+    } else if (/[0-9]/.test(char) || (char === '-' && /[0-9]/.test(sql[index + 1] ?? '') && !/[\w)]/.test(sql[index - 1] ?? ''))) {
+      const match = /^-?\d+(\.\d+)?/.exec(sql.slice(index));
+      tokens.push({ kind: 'number', value: match![0] });
+      index += match![0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][\w$]*/.exec(sql.slice(index));
+      tokens.push({ kind: 'word', value: match![0] });
+      index += match![0].length;
+    } else {
+      tokens.push({ kind: 'symbol', value: char });
+      index += 1;
+    }
+  }
+  return tokens;
+};
+
+const splitTopLevel = (tokens: Token[], separator: string): Token[][] => {
+  const parts: Token[][] = [[]];
+  let depth = 0;
+  tokens.forEach((token) => {
+    if (isSymbol(token, '(')) depth += 1;
+    if (isSymbol(token, ')')) depth -= 1;
+    if (depth === 0 && isSymbol(token, separator)) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(token);
+    }
+  });
+  return parts.filter((part) => part.length > 0);
+};
+
+/** Index of the parenthesis closing the one at `open`. */
+const closingParen = (tokens: Token[], open: number) => {
+  let depth = 0;
+  for (let index = open; index < tokens.length; index += 1) {
+    if (isSymbol(tokens[index], '(')) depth += 1;
+    if (isSymbol(tokens[index], ')')) {
+      depth -= 1;
+      if (depth === 0) return index;
+    }
+  }
+  return tokens.length;
+};
+
+const isName = (token: Token | undefined) => token?.kind === 'word' || token?.kind === 'identifier';
+
+/** Reads a possibly schema-qualified name (dbo.users, public."Orders") and keeps the last part. */
+const readQualifiedName = (tokens: Token[], start: number): { name: string; next: number } | null => {
+  if (!isName(tokens[start])) return null;
+  let index = start;
+  let name = tokens[index].value;
+  while (isSymbol(tokens[index + 1], '.') && isName(tokens[index + 2])) {
+    index += 2;
+    name = tokens[index].value;
+  }
+  return { name, next: index + 1 };
+};
+
+const readNameList = (tokens: Token[], open: number): string[] =>
+  isSymbol(tokens[open], '(')
+    ? tokens.slice(open + 1, closingParen(tokens, open)).filter(isName).map((token) => token.value)
+    : [];
+
+const COLUMN_CONSTRAINT_WORDS = new Set([
+  'CONSTRAINT', 'NOT', 'NULL', 'PRIMARY', 'UNIQUE', 'REFERENCES', 'CHECK', 'DEFAULT', 'AUTO_INCREMENT',
+  'AUTOINCREMENT', 'IDENTITY', 'GENERATED', 'COLLATE', 'COMMENT', 'ON', 'AS', 'KEY',
+]);
+
+const TABLE_CONSTRAINT_WORDS = ['CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'KEY', 'INDEX', 'FULLTEXT', 'SPATIAL', 'EXCLUDE'];
+
+const TYPE_KINDS: Array<[RegExp, ColumnKind]> = [
+  [/^(tiny|small|medium|big)?int(eger)?[248]?( unsigned)?$|^(small|big)?serial[248]?$/, 'integer'],
+  [/^(decimal|numeric|number|float[48]?|double( precision)?|real|(small)?money)$/, 'decimal'],
+  [/^(bool(ean)?|bit)$/, 'boolean'],
+  [/^date$/, 'date'],
+  [/^(timestamp(tz)?|(small)?datetime2?|datetimeoffset)( with(out)? time zone)?$/, 'datetime'],
+  [/^(time(tz)?)( with(out)? time zone)?$/, 'time'],
+  [/^(uuid|uniqueidentifier)$/, 'uuid'],
+  [/^jsonb?$/, 'json'],
+  [/^(bytea|(tiny|medium|long)?blob|(var)?binary|image)$/, 'binary'],
+  [/^(n?(var)?char|character( varying)?|(tiny|medium|long)?text|n?text|citext|string|clob|varchar2|nvarchar2)$/, 'string'],
+];
+
+const kindForType = (typeName: string, size: number[]): ColumnKind => {
+  // MySQL spells booleans TINYINT(1); SQL Server's BIT(1) is the same thing.
+  if (typeName === 'tinyint' && size[0] === 1) return 'boolean';
+  return TYPE_KINDS.find(([pattern]) => pattern.test(typeName))?.[1] ?? 'unknown';
+};
+
+/** Reads `col IN (...)`, `col = ANY (ARRAY[...])`, `col BETWEEN a AND b` and `col >= a AND col <= b` style checks. */
+const applyCheck = (tokens: Token[], columns: ImportedColumn[], defaultColumn?: ImportedColumn) => {
+  const target =
+    columns.find((column) => tokens.some((token) => isName(token) && token.value === column.name)) ?? defaultColumn;
+  if (!target) return;
+
+  if (tokens.some((token) => isWord(token, 'IN', 'ANY'))) {
+    const strings = tokens.filter((token) => token.kind === 'string').map((token) => token.value);
+    const values = strings.length ? strings : tokens.filter((token) => token.kind === 'number').map((token) => token.value);
+    if (values.length) target.enumValues = Array.from(new Set(values));
+    return;
+  }
+
+  tokens.forEach((token, index) => {
+    if (isWord(token, 'BETWEEN') && tokens[index + 1]?.kind === 'number' && tokens[index + 3]?.kind === 'number') {
+      target.min = Number(tokens[index + 1].value);
+      target.max = Number(tokens[index + 3].value);
+    }
+    if (token.kind !== 'symbol' || !'<>'.includes(token.value)) return;
+    const inclusive = isSymbol(tokens[index + 1], '=');
+    const operand = tokens[index + (inclusive ? 2 : 1)];
+    const previous = tokens[index - 1];
+    if (operand?.kind === 'number' && isName(previous) && previous.value === target.name) {
+      const bound = Number(operand.value);
+      if (token.value === '>') target.min = inclusive ? bound : bound + 1;
+      else target.max = inclusive ? bound : bound - 1;
+    } else if (previous?.kind === 'number' && isName(operand) && operand.value === target.name) {
+      const bound = Number(previous.value);
+      if (token.value === '<') target.min = inclusive ? bound : bound + 1;
+      else target.max = inclusive ? bound : bound - 1;
+    }
+  });
+};
+
+interface PendingReference {
+  column: ImportedColumn;
+  parentTable: string;
+  parentColumn: string | null;  // Null when REFERENCES names only the table; resolved to its primary key
+}
+
+const parseColumn = (
+  tokens: Token[],
+  enumTypes: Map<string, string[]>,
+  references: PendingReference[],
+  columns: ImportedColumn[]
+): ImportedColumn => {
+  const column: ImportedColumn = { name: tokens[0].value, kind: 'unknown', nullable: true };
+  const typeWords: string[] = [];
+  const size: number[] = [];
+  let index = 1;
+
+  while (index < tokens.length) {
+    const token = tokens[index];
+    if (isSymbol(token, '(')) {
+      const end = closingParen(tokens, index);
+      const inner = tokens.slice(index + 1, end);
+      const strings = inner.filter((entry) => entry.kind === 'string').map((entry) => entry.value);
+      if (strings.length) {
+        column.enumValues = strings;  // MySQL ENUM('a', 'b') / SET(...)
+      } else {
+        inner.filter((entry) => entry.kind === 'number').forEach((entry) => size.push(Number(entry.value)));
+        if (inner.some((entry) => isWord(entry, 'MAX'))) size.push(Number.POSITIVE_INFINITY);
+      }
+      index = end + 1;
+    } else if (token.kind === 'identifier' && typeWords.length === 0) {
+      typeWords.push(token.value.toLowerCase());  // Quoted user-defined type, e.g. "order_status"
+      index += 1;
+    } else if (isSymbol(token, '.') && typeWords.length) {
+      typeWords.pop();  // Schema-qualified type: keep the part after the dot
+      index += 1;
+    } else if (token.kind === 'word' && !COLUMN_CONSTRAINT_WORDS.has(token.value.toUpperCase())) {
+      if (isWord(token, 'CHARACTER') && isWord(tokens[index + 1], 'SET')) break;
+      typeWords.push(token.value.toLowerCase());
+      index += 1;
+    } else if (isSymbol(token, '[')) {
+      index += 2;  // Postgres array suffix: text[]
+    } else {
+      break;
+    }
+  }
+
+  const typeName = typeWords.filter((word) => word !== 'zerofill').join(' ');
+  column.unsigned = typeWords.includes('unsigned');
+  const baseType = typeName.replace(/ unsigned$/, '');
+  if (enumTypes.has(baseType)) {
+    column.kind = 'string';
+    column.enumValues = enumTypes.get(baseType);
+  } else if (baseType === 'enum' || baseType === 'set') {
+    column.kind = 'string';
+  } else {
+    column.kind = kindForType(baseType, size);
+  }
+  if (/serial/.test(baseType)) column.autoIncrement = true;
+  if (size[0] !== undefined && Number.isFinite(size[0]) && column.kind !== 'boolean') column.length = size[0];
+  if (size[1] !== undefined) column.scale = size[1];
+  if (column.unsigned && column.min === undefined) column.min = 0;
+
+  for (; index < tokens.length; index += 1) {
+    const token = tokens[index];
+    if (isWord(token, 'NOT') && isWord(tokens[index + 1], 'NULL')) {
+      column.nullable = false;
+      index += 1;
+    } else if (isWord(token, 'PRIMARY') && isWord(tokens[index + 1], 'KEY')) {
+      column.primaryKey = true;
+      column.nullable = false;
+      index += 1;
+    } else if (isWord(token, 'UNIQUE')) {
+      column.unique = true;
+    } else if (isWord(token, 'AUTO_INCREMENT', 'AUTOINCREMENT', 'IDENTITY') || (isWord(token, 'GENERATED') && tokens.slice(index, index + 5).some((entry) => isWord(entry, 'IDENTITY')))) {
+      column.autoIncrement = true;
+    } else if (isWord(token, 'REFERENCES')) {
+      const target = readQualifiedName(tokens, index + 1);
+      if (target) {
+        const [targetColumn] = readNameList(tokens, target.next);
+        references.push({ column, parentTable: target.name, parentColumn: targetColumn ?? null });
+      }
+    } else if (isWord(token, 'CHECK') && isSymbol(tokens[index + 1], '(')) {
+      const end = closingParen(tokens, index + 1);
+      applyCheck(tokens.slice(index + 2, end), [column, ...columns], column);
+      index = end;
+    } else if (isWord(token, 'DEFAULT')) {
+      // Skip the default expression so DEFAULT NULL or DEFAULT nextval('...') is not read as a constraint.
+      index += 1;
+      if (isSymbol(tokens[index + 1], '(')) index = closingParen(tokens, index + 1);
+    }
+  }
+
+  return column;
+};
+
+/** Applies a PRIMARY KEY, UNIQUE, CHECK or FOREIGN KEY constraint, whether inline in CREATE TABLE or added by ALTER TABLE. */
+const applyTableConstraint = (
+  table: ImportedTable,
+  part: Token[],
+  references: PendingReference[],
+  warnings: string[]
+) => {
+  const keyword = part.findIndex((token) => isWord(token, 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK'));
+  if (keyword === -1) return;
+  const kind = part[keyword].value.toUpperCase();
+  const listStart = part.findIndex((token, position) => position > keyword && isSymbol(token, '('));
+  if (listStart === -1) return;
+  const names = readNameList(part, listStart);
+  const find = (columnName: string) => table.columns.find((column) => column.name === columnName);
+
+  if (kind === 'PRIMARY') {
+    names.forEach((columnName) => {
+      const column = find(columnName);
+      if (column) {
+        column.primaryKey = names.length === 1;
+        column.nullable = false;
+      }
+    });
+  } else if (kind === 'UNIQUE' && names.length === 1) {
+    const column = find(names[0]);
+    if (column) column.unique = true;
+  } else if (kind === 'CHECK') {
+    applyCheck(part.slice(listStart + 1, closingParen(part, listStart)), table.columns);
+  } else if (kind === 'FOREIGN') {
+    const referencesAt = part.findIndex((token) => isWord(token, 'REFERENCES'));
+    const target = referencesAt === -1 ? null : readQualifiedName(part, referencesAt + 1);
+    if (!target) return;
+    if (names.length !== 1) {
+      warnings.push(`${table.name}: composite foreign key (${names.join(', ')}) → ${target.name} was not imported.`);
+      return;
+    }
+    const column = find(names[0]);
+    if (column) {
+      references.push({ column, parentTable: target.name, parentColumn: readNameList(part, target.next)[0] ?? null });
+    }
+  }
+};
+
+const parseCreateTable = (
+  tokens: Token[],
+  enumTypes: Map<string, string[]>,
+  references: PendingReference[],
+  warnings: string[]
+): ImportedTable | null => {
+  let index = tokens.findIndex((token) => isWord(token, 'TABLE')) + 1;
+  if (isWord(tokens[index], 'IF')) index += 3;  // IF NOT EXISTS
+  const name = readQualifiedName(tokens, index);
+  if (!name || !isSymbol(tokens[name.next], '(')) return null;
+
+  const table: ImportedTable = { name: name.name, columns: [] };
+  const constraints: Token[][] = [];
+  splitTopLevel(tokens.slice(name.next + 1, closingParen(tokens, name.next)), ',').forEach((part) => {
+    if (part[0].kind === 'word' && TABLE_CONSTRAINT_WORDS.includes(part[0].value.toUpperCase())) {
+      constraints.push(part);
+    } else if (isName(part[0])) {
+      table.columns.push(parseColumn(part, enumTypes, references, table.columns));
+    }
+  });
+  // Table constraints may come before the columns they name, so apply them once every column is known.
+  constraints.forEach((part) => applyTableConstraint(table, part, references, warnings));
+  return table;
+};
+
+/**
+ * Reads CREATE TABLE statements from MySQL, PostgreSQL or SQL Server DDL, plus PostgreSQL CREATE TYPE ... AS ENUM
+ * and ALTER TABLE ... ADD FOREIGN KEY as pg_dump writes them. Other statements are skipped.
+ */
+export const parseDdl = (sql: string): ParsedSchema => {
+  const warnings: string[] = [];
+  const tables: ImportedTable[] = [];
+  const references: PendingReference[] = [];
+  const enumTypes = new Map<string, string[]>();
+  // SQL Server scripts separate batches with GO instead of semicolons.
+  const statements = splitTopLevel(tokenize(sql.replace(/^\s*GO\s*$/gim, ';')), ';');
+
+  statements.forEach((statement) => {
+    if (!isWord(statement[0], 'CREATE') && !isWord(statement[0], 'ALTER')) return;
+
+    const typeAt = statement.findIndex((token, index) => index < 3 && isWord(token, 'TYPE'));
+    if (isWord(statement[0], 'CREATE') && typeAt !== -1 && statement.some((token) => isWord(token, 'ENUM'))) {
+      const name = readQualifiedName(statement, typeAt + 1);
+      if (name) {
+        enumTypes.set(
+          name.name.toLowerCase(),
+          statement.filter((token) => token.kind === 'string').map((token) => token.value)
+        );
+      }
+      return;
+    }
+
+    const tableAt = statement.findIndex((token, index) => index < 5 && isWord(token, 'TABLE'));
+    if (tableAt === -1) return;
+
+    if (isWord(statement[0], 'CREATE')) {
+      const table = parseCreateTable(statement, enumTypes, references, warnings);
+      if (table) tables.push(table);
+      return;
+    }
+
+    // ALTER TABLE [ONLY] name ADD [CONSTRAINT x] PRIMARY KEY / FOREIGN KEY ..., as pg_dump writes them
+    const name = readQualifiedName(statement, isWord(statement[tableAt + 1], 'ONLY') ? tableAt + 2 : tableAt + 1);
+    const table = name && tables.find((candidate) => candidate.name === name.name);
+    const addAt = statement.findIndex((token) => isWord(token, 'ADD'));
+    if (table && addAt !== -1) {
+      applyTableConstraint(table, statement.slice(addAt + 1), references, warnings);
+    }
+  });
+
+  references.forEach(({ column, parentTable, parentColumn }) => {
+    const parent = tables.find((candidate) => candidate.name === parentTable);
+    if (!parent) {
+      warnings.push(`${column.name} references ${parentTable}, which is not in the import; kept as a plain column.`);
+      return;
+    }
+    const resolvedColumn = parentColumn ?? parent.columns.find((candidate) => candidate.primaryKey)?.name;
+    if (!resolvedColumn) {
+      warnings.push(`${column.name} references ${parentTable} without a column, and ${parentTable} has no single-column primary key.`);
+      return;
+    }
+    column.references = { table: parentTable, column: resolvedColumn };
+  });
+
+  if (tables.length === 0) {
+    warnings.push('No CREATE TABLE statements found.');
+  }
+  return { tables, warnings };
+};
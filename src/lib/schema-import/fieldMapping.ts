@@ -0,0 +1,202 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { FOREIGN_KEY_FIELD_TYPE, ROW_NUMBER_FIELD_TYPE } from '@/lib/data-generator/constants';
+import type { FieldDefinition, FieldOptions } from '@/lib/data-generator/types';
+
+export type ColumnKind =
+  | 'integer'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'time'
+  | 'uuid'
+  | 'string'
+  | 'json'
+  | 'binary'
+  | 'unknown';
+
+/** A column or property as read from the source document, before it is mapped to a field type. */
+export interface ImportedColumn {
+  name: string;
+  kind: ColumnKind;
+  format?: string;  // JSON Schema string format, e.g. "email"
+  length?: number;
+  scale?: number;
+  min?: number;
+  max?: number;
+  enumValues?: string[];
+  nullable: boolean;
+  primaryKey?: boolean;
+  autoIncrement?: boolean;
+  unique?: boolean;
+  unsigned?: boolean;
+  references?: { table: string; column: string };
+}
+
+/** Share of rows left null for nullable columns; the source only says "may be null", not how often. */
+export const IMPORTED_NULL_PERCENT = 10;
+
+const DEFAULT_DECIMAL_MAX = 100;
+
+interface NameRule {
+  pattern: RegExp;
+  type: string;
+}
+
+// Checked in order against the lower-cased column name with separators removed ("first_name" → "firstname").
+const STRING_NAME_RULES: NameRule[] = [
+  { pattern: /e?mail(address)?$/, type: 'Email' },
+  { pattern: /uuid$|guid$/, type: 'UUID' },
+  { pattern: /^ip(v4)?(address)?$/, type: 'IPv4 Address' },
+  { pattern: /^(first|given|fore)name$|^fname$/, type: 'First Name' },
+  { pattern: /^(last|family|sur)name$|^lname$/, type: 'Last Name' },
+  { pattern: /^(full|display|contact|customer)?name$/, type: 'Full Name' },
+  { pattern: /phone|mobile|^tel(ephone)?$|^fax$/, type: 'Phone Number' },
+  { pattern: /(address|addr)(line)?2$/, type: 'Address Line 2' },
+  { pattern: /address|^street|^addr(line)?1?$/, type: 'Address' },
+  { pattern: /^city$|cityname$|^town$/, type: 'City' },
+  { pattern: /^(state|province|region)(code)?$/, type: 'State' },
+  { pattern: /^country(name|code)?$/, type: 'Country' },
+  { pattern: /zip|postal|postcode/, type: 'Zip Code' },
+  { pattern: /^(company|organi[sz]ation|employer)(name)?$/, type: 'Company Name' },
+  { pattern: /url$|uri$|website|homepage/, type: 'URL' },
+  { pattern: /^ssn$|socialsecurity/, type: 'Social Security Number' },
+  { pattern: /^vin$/, type: 'Car VIN' },
+  { pattern: /sku$/, type: 'Product SKU' },
+  { pattern: /^productname$/, type: 'Product Name' },
+  { pattern: /^(product)?category$/, type: 'Product Category' },
+  { pattern: /description$|^desc$/, type: 'Product Description' },
+  { pattern: /^(bundle|app)id$/, type: 'App Bundle ID' },
+  { pattern: /^(app)?version$/, type: 'App Version' },
+  { pattern: /bitcoin|btcaddress/, type: 'Bitcoin Address' },
+  { pattern: /airportcode|^iata$/, type: 'Airport Code' },
+  { pattern: /^(car)?make$/, type: 'Car Make' },
+  { pattern: /^(car)?model$/, type: 'Car Model' },
+];
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const isBirthDate = (name: string) => /birth|^dob$|birthday/.test(name);
+const isPrice = (name: string) => /price|cost|amount|total|fee|salary/.test(name);
+
+const clampDecimalMax = (column: ImportedColumn) => {
+  if (column.length === undefined) {
+    return DEFAULT_DECIMAL_MAX;
+  }
+  // DECIMAL(p, s) holds at most p - s integer digits.
+  const integerDigits = column.length - (column.scale ?? 0);
+  return Math.min(DEFAULT_DECIMAL_MAX, Math.pow(10, Math.max(integerDigits, 0)) - Math.pow(10, -(column.scale ?? 0)));
+};
+
+const rangeOptions = (column: ImportedColumn, fallback: { min: number; max: number }): FieldOptions => {
+  const min = column.min ?? (column.unsigned ? Math.max(0, fallback.min) : fallback.min);
+  const max = column.max ?? Math.max(fallback.max, min);
+  return { min, max };
+};
+
+/** Field type and options for one column; name hints win over the storage type for text columns. */
+const mapColumnType = (column: ImportedColumn): { type: string; options: FieldOptions } => {
+  const name = normaliseName(column.name);
+
+  if (column.references) {
+    return {
+      type: FOREIGN_KEY_FIELD_TYPE,
+      options: {
+        table: column.references.table,
+        column: column.references.column,
+        cardinality: column.unique || column.primaryKey ? '1:1' : '1:N',
+        nullPercent: column.nullable ? IMPORTED_NULL_PERCENT : 0,
+      },
+    };
+  }
+
+  if (column.enumValues && column.enumValues.length > 0) {
+    return { type: 'Custom List', options: { values: column.enumValues.join(', ') } };
+  }
+
+  switch (column.kind) {
+    case 'integer':
+      if (column.autoIncrement || column.primaryKey) {
+        return { type: ROW_NUMBER_FIELD_TYPE, options: { start: 1 } };
+      }
+      return { type: 'Number', options: rangeOptions(column, { min: 1, max: 1000 }) };
+    case 'decimal': {
+      const multipleOf = column.scale !== undefined ? Math.pow(10, -Math.min(column.scale, 4)) : 0.01;
+      if (isPrice(name)) {
+        return { type: 'Product Price', options: { ...rangeOptions(column, { min: 5, max: 200 }), currency: 'USD' } };
+      }
+      return {
+        type: 'Decimal Number',
+        options: { ...rangeOptions(column, { min: 0, max: clampDecimalMax(column) }), multipleOf },
+      };
+    }
+    case 'boolean':
+      return { type: 'Boolean', options: {} };
+    case 'date':
+    case 'datetime': {
+      const format = column.kind === 'date' ? 'YYYY-MM-DD' : 'ISO';
+      if (isBirthDate(name)) {
+        return { type: 'Date of Birth', options: { minAge: 18, maxAge: 65, format } };
+      }
+      return { type: 'Date', options: { fromDate: '2020-01-01', toDate: '2025-12-31', format } };
+    }
+    case 'time':
+      return { type: 'Time', options: { format: 'HH:MM:SS' } };
+    case 'uuid':
+      return { type: 'UUID', options: {} };
+    default:
+      break;
+  }
+
+  if (column.kind === 'string' || column.kind === 'unknown') {
+    switch (column.format) {
+      case 'email':
+      case 'idn-email':
+        return { type: 'Email', options: { provider: '' } };
+      case 'date':
+        return { type: 'Date', options: { fromDate: '2020-01-01', toDate: '2025-12-31', format: 'YYYY-MM-DD' } };
+      case 'date-time':
+        return { type: 'Date', options: { fromDate: '2020-01-01', toDate: '2025-12-31', format: 'ISO' } };
+      case 'time':
+        return { type: 'Time', options: { format: 'HH:MM:SS' } };
+      case 'uuid':
+        return { type: 'UUID', options: {} };
+      case 'uri':
+      case 'url':
+      case 'iri':
+        return { type: 'URL', options: {} };
+      case 'ipv4':
+        return { type: 'IPv4 Address', options: {} };
+      default:
+        break;
+    }
+
+    if (isBirthDate(name)) {
+      return { type: 'Date of Birth', options: { minAge: 18, maxAge: 65, format: 'YYYY-MM-DD' } };
+    }
+    const rule = STRING_NAME_RULES.find((candidate) => candidate.pattern.test(name));
+    if (rule) {
+      return { type: rule.type, options: {} };
+    }
+    if (column.primaryKey) {
+      return { type: 'Character Sequence', options: { length: Math.min(column.length ?? 12, 12), casing: 'upper' } };
+    }
+  }
+
+  return {
+    type: 'Character Sequence',
+    options: { length: Math.max(1, Math.min(column.length ?? 10, 32)), casing: 'mixed' },
+  };
+};
+
+export const mapColumnToField = (column: ImportedColumn): FieldDefinition => {
+  const { type, options } = mapColumnType(column);
+  const nullable = column.nullable && !column.primaryKey && type !== FOREIGN_KEY_FIELD_TYPE;
+  return {
+    id: uuidv4(),
+    name: column.name,
+    type,
+    options: nullable ? { ...options, nullPercent: IMPORTED_NULL_PERCENT } : options,
+  };
+};
@@ -0,0 +1,90 @@
+import { parse as parseYaml } from 'yaml';
+import { v4 as uuidv4 } from 'uuid';
+
+import { DEFAULT_TABLE_ROW_COUNT } from '@/lib/data-generator/constants';
+import type { TableDefinition } from '@/lib/data-generator/types';
+import { parseDdl, type ParsedSchema } from './ddl';
+import { mapColumnToField } from './fieldMapping';
+import { parseJsonSchema, parseOpenApi } from './jsonSchema';
+
+export { parseDdl } from './ddl';
+export { IMPORTED_NULL_PERCENT, mapColumnToField } from './fieldMapping';
+export { parseJsonSchema, parseOpenApi } from './jsonSchema';
+
+export type SchemaImportFormat = 'sql' | 'json-schema' | 'openapi';
+
+export interface SchemaImportResult {
+  format: SchemaImportFormat;
+  tables: TableDefinition[];
+  warnings: string[];
+}
+
+/** JSON or YAML; OpenAPI documents are commonly YAML. */
+const parseDocument = (content: string): Record<string, unknown> => {
+  const trimmed = content.trim();
+  let parsed: unknown;
+  try {
+    parsed = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(trimmed);
+  } catch (error) {
+    throw new Error(`Could not parse the document: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Expected a JSON Schema or OpenAPI document (an object).');
+  }
+  return parsed as Record<string, unknown>;
+};
+
+const documentFormat = (content: string): SchemaImportFormat => {
+  try {
+    const document = parseDocument(content);
+    return 'openapi' in document || 'swagger' in document ? 'openapi' : 'json-schema';
+  } catch {
+    return 'json-schema';
+  }
+};
+
+export function detectSchemaFormat(content: string, fileName?: string): SchemaImportFormat {
+  const extension = fileName?.includes('.') ? fileName.toLowerCase().split('.').pop() : undefined;
+  if (extension === 'sql' || extension === 'ddl') {
+    return 'sql';
+  }
+  if (extension === 'json' || extension === 'yaml' || extension === 'yml' || content.trim().startsWith('{')) {
+    return documentFormat(content);
+  }
+  return /\bcreate\b[\s\S]*\btable\b/i.test(content) ? 'sql' : documentFormat(content);
+}
+
+/**
+ * Turns SQL DDL, a JSON Schema, or an OpenAPI document into data-generator tables. Column types map to the closest
+ * field type; lengths, ranges, enums, nullability and foreign keys carry over into field options.
+ */
+export function importSchema(content: string, options: { format?: SchemaImportFormat; fileName?: string } = {}): SchemaImportResult {
+  if (!content.trim()) {
+    throw new Error('Paste a schema or choose a file to import.');
+  }
+
+  const format = options.format ?? detectSchemaFormat(content, options.fileName);
+  const parsed: ParsedSchema =
+    format === 'sql'
+      ? parseDdl(content)
+      : format === 'openapi'
+        ? parseOpenApi(parseDocument(content))
+        : parseJsonSchema(parseDocument(content));
+
+  const warnings = [...parsed.warnings];
+  const tables = parsed.tables
+    .filter((table) => {
+      if (table.columns.length === 0) {
+        warnings.push(`${table.name} has no columns that can be imported; skipped.`);
+      }
+      return table.columns.length > 0;
+    })
+    .map((table) => ({
+      id: uuidv4(),
+      name: table.name,
+      rowCount: DEFAULT_TABLE_ROW_COUNT,
+      fields: table.columns.map(mapColumnToField),
+    }));
+
+  return { format, tables, warnings };
+}
@@ -0,0 +1,162 @@
+import type { ParsedSchema, ImportedTable } from './ddl';
+import type { ColumnKind, ImportedColumn } from './fieldMapping';
+
+type JsonSchema = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonSchema =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const asNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+/** Resolves local `#/...` pointers (definitions, $defs, components/schemas); external refs are left unresolved. */
+const resolveRef = (root: JsonSchema, ref: string): JsonSchema | null => {
+  if (!ref.startsWith('#/')) return null;
+  const target = ref
+    .slice(2)
+    .split('/')
+    .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>((node, part) => (isObject(node) ? node[part] : undefined), root);
+  return isObject(target) ? target : null;
+};
+
+const refName = (ref: string) => ref.split('/').pop() ?? ref;
+
+/**
+ * Flattens $ref, allOf, and nullable oneOf/anyOf wrappers into one schema. `nullable` is set when the schema admits
+ * null through `type: [.., "null"]`, OpenAPI 3.0's `nullable: true`, or a `{ type: "null" }` branch.
+ */
+const normalise = (root: JsonSchema, schema: JsonSchema, seen = new Set<string>()): JsonSchema & { nullable?: boolean } => {
+  if (typeof schema.$ref === 'string') {
+    if (seen.has(schema.$ref)) return { ...schema };
+    const target = resolveRef(root, schema.$ref);
+    if (!target) return { ...schema };
+    return { ...normalise(root, target, new Set([...Array.from(seen), schema.$ref])), $refName: refName(schema.$ref) };
+  }
+
+  let result: JsonSchema & { nullable?: boolean } = { ...schema };
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.filter(isObject).map((part) => normalise(root, part, seen));
+    result = parts.reduce<JsonSchema>(
+      (merged, part) => ({
+        ...merged,
+        ...part,
+        properties: { ...(isObject(merged.properties) ? merged.properties : {}), ...(isObject(part.properties) ? part.properties : {}) },
+      }),
+      { ...result, allOf: undefined }
+    );
+  }
+
+  const variants = Array.isArray(schema.oneOf) ? schema.oneOf : Array.isArray(schema.anyOf) ? schema.anyOf : null;
+  if (variants) {
+    const options = variants.filter(isObject);
+    const nonNull = options.filter((option) => option.type !== 'null');
+    if (nonNull.length > 0) {
+      result = { ...result, ...normalise(root, nonNull[0], seen), oneOf: undefined, anyOf: undefined };
+    }
+    if (nonNull.length < options.length) result.nullable = true;
+  }
+
+  if (Array.isArray(result.type)) {
+    const types = result.type.filter((type): type is string => typeof type === 'string');
+    if (types.includes('null')) result.nullable = true;
+    result.type = types.find((type) => type !== 'null');
+  }
+  if (schema.nullable === true) result.nullable = true;
+  return result;
+};
+
+const KIND_BY_TYPE: Record<string, ColumnKind> = {
+  integer: 'integer',
+  number: 'decimal',
+  boolean: 'boolean',
+  string: 'string',
+};
+
+const KIND_BY_FORMAT: Record<string, ColumnKind> = {
+  date: 'date',
+  'date-time': 'datetime',
+  time: 'time',
+  uuid: 'uuid',
+};
+
+const decimalsIn = (value: number) => (String(value).split('.')[1] ?? '').length;
+
+const toColumn = (name: string, schema: JsonSchema & { nullable?: boolean }): ImportedColumn => {
+  const type = typeof schema.type === 'string' ? schema.type : 'unknown';
+  const format = typeof schema.format === 'string' ? schema.format : undefined;
+  const column: ImportedColumn = {
+    name,
+    kind: (format && type === 'string' && KIND_BY_FORMAT[format]) || KIND_BY_TYPE[type] || 'unknown',
+    format,
+    nullable: Boolean(schema.nullable),
+  };
+
+  if (Array.isArray(schema.enum)) {
+    column.enumValues = schema.enum.filter((value) => value !== null).map(String);
+  } else if (schema.const !== undefined && schema.const !== null) {
+    column.enumValues = [String(schema.const)];
+  }
+
+  const exclusiveMin = asNumber(schema.exclusiveMinimum);
+  const exclusiveMax = asNumber(schema.exclusiveMaximum);
+  const step = type === 'integer' ? 1 : 0;
+  column.min = asNumber(schema.minimum) ?? (exclusiveMin !== undefined ? exclusiveMin + step : undefined);
+  column.max = asNumber(schema.maximum) ?? (exclusiveMax !== undefined ? exclusiveMax - step : undefined);
+  column.length = asNumber(schema.maxLength);
+  const multipleOf = asNumber(schema.multipleOf);
+  if (multipleOf !== undefined && type === 'number') column.scale = decimalsIn(multipleOf);
+  return column;
+};
+
+/** One table from an object schema; nested objects and arrays are skipped since fields are flat columns. */
+const toTable = (root: JsonSchema, name: string, schema: JsonSchema, warnings: string[]): ImportedTable | null => {
+  const normalised = normalise(root, schema);
+  if (!isObject(normalised.properties)) return null;
+  const columns: ImportedColumn[] = [];
+
+  Object.entries(normalised.properties).forEach(([property, value]) => {
+    if (!isObject(value)) return;
+    const propertySchema = normalise(root, value);
+    if (propertySchema.type === 'object' || propertySchema.type === 'array' || isObject(propertySchema.properties)) {
+      const target = typeof propertySchema.$refName === 'string' ? ` (${propertySchema.$refName})` : '';
+      warnings.push(`${name}.${property}${target} is a nested ${propertySchema.type ?? 'object'}; skipped.`);
+      return;
+    }
+    columns.push(toColumn(property, propertySchema));
+  });
+
+  return { name, columns };
+};
+
+const titleOf = (schema: JsonSchema, fallback: string) =>
+  typeof schema.title === 'string' && schema.title.trim() ? schema.title.trim().replace(/\s+/g, '_') : fallback;
+
+/** A JSON Schema document: the root object, or each object under definitions/$defs when the root has no properties. */
+export const parseJsonSchema = (document: JsonSchema): ParsedSchema => {
+  const warnings: string[] = [];
+  const rootTable = toTable(document, titleOf(document, 'imported'), document, warnings);
+  if (rootTable) {
+    return { tables: [rootTable], warnings };
+  }
+
+  const definitions = isObject(document.$defs) ? document.$defs : isObject(document.definitions) ? document.definitions : {};
+  const tables = Object.entries(definitions)
+    .filter((entry): entry is [string, JsonSchema] => isObject(entry[1]))
+    .map(([name, schema]) => toTable(document, name, schema, warnings))
+    .filter((table): table is ImportedTable => Boolean(table));
+  if (tables.length === 0) warnings.push('No object schemas with properties found.');
+  return { tables, warnings };
+};
+
+/** OpenAPI 3 `components.schemas` or Swagger 2 `definitions`: one table per object schema. */
+export const parseOpenApi = (document: JsonSchema): ParsedSchema => {
+  const warnings: string[] = [];
+  const components = isObject(document.components) ? document.components : {};
+  const schemas = isObject(components.schemas) ? components.schemas : isObject(document.definitions) ? document.definitions : {};
+  const tables = Object.entries(schemas)
+    .filter((entry): entry is [string, JsonSchema] => isObject(entry[1]))
+    .map(([name, schema]) => toTable(document, name, schema, warnings))
+    .filter((table): table is ImportedTable => Boolean(table));
+  if (tables.length === 0) warnings.push('No object schemas found under components.schemas.');
+  return { tables, warnings };
+};
@@ -0,0 +1,80 @@
+/** @jest-environment node */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('@/lib/server/supabaseClient', () => ({
+  getServiceSupabaseClient: jest.fn(() => null),
+}));
+
+describe('accessTokenStore (local fallback)', () => {
+  let tempDir: string;
+  let cwdSpy: jest.SpyInstance;
+  let store: typeof import('../accessTokenStore');
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'access-'));
+    cwdSpy = jest.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    jest.isolateModules(() => {
+      store = require('../accessTokenStore');
+    });
+  });
+
+  afterEach(() => {
+    cwdSpy.mockRestore();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('stores only the token hash and resolves the plaintext token to its identity', async () => {
+    const team = await store.createTeam('Payments QA');
+    const { token, summary } = await store.createAccessToken({
+      label: 'Laptop',
+      userIdentifier: 'sam',
+      role: 'member',
+      teamId: team.id,
+    });
+
+    expect(token.startsWith(summary.tokenPrefix)).toBe(true);
+    const raw = readFileSync(path.join(tempDir, 'data', 'access-control.json'), 'utf8');
+    expect(raw).not.toContain(token);
+    expect(raw).toContain(store.hashAccessToken(token));
+
+    expect(await store.resolveAccessToken(token)).toEqual({ userIdentifier: 'sam', role: 'member', teamId: team.id });
+    expect(await store.resolveAccessToken(`${token}x`)).toBeNull();
+    expect((await store.listAccessTokens())[0]).not.toHaveProperty('tokenHash');
+  });
+
+  it('rejects revoked and expired tokens', async () => {
+    const { token, summary } = await store.createAccessToken({ label: 'CI', userIdentifier: 'ci', role: 'viewer' });
+    const expired = await store.createAccessToken({
+      label: 'Old',
+      userIdentifier: 'old',
+      role: 'member',
+      expiresAt: new Date(Date.now() - 1000).toISOString(),
+    });
+
+    expect(await store.resolveAccessToken(expired.token)).toBeNull();
+    expect((await store.revokeAccessToken(summary.id))?.revokedAt).toBeTruthy();
+    expect(await store.resolveAccessToken(token)).toBeNull();
+    expect(await store.revokeAccessToken(summary.id)).toBeNull();
+  });
+
+  it('updates roles and unassigns tokens when their team is deleted', async () => {
+    const team = await store.createTeam('Mobile');
+    const { token, summary } = await store.createAccessToken({
+      label: 'Phone',
+      userIdentifier: 'kim',
+      role: 'viewer',
+      teamId: team.id,
+    });
+
+    await store.updateAccessToken(summary.id, { role: 'admin' });
+    expect(await store.teamExists(team.id)).toBe(true);
+    expect(await store.deleteTeam(team.id)).toBe(true);
+
+    expect(await store.resolveAccessToken(token)).toEqual({ userIdentifier: 'kim', role: 'admin', teamId: null });
+    expect(await store.listTeams()).toEqual([]);
+    expect(await store.teamExists(team.id)).toBe(false);
+  });
+});
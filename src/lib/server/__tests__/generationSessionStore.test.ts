@@ -0,0 +1,127 @@
+/** @jest-environment node */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import type { TestCaseGenerationResponse } from '@/lib/types';
+
+jest.mock('@/lib/server/supabaseClient', () => ({
+  getServiceSupabaseClient: jest.fn(() => null),
+}));
+
+const response: TestCaseGenerationResponse = {
+  testCases: [
+    {
+      id: 'TS-001',
+      title: 'Login works',
+      area: 'Auth',
+      scenario: 'Valid credentials log the user in',
+      description: '',
+      createdAt: new Date('2025-01-01T00:00:00Z'),
+    },
+  ],
+  plan: [{ id: 'PLAN-1', title: 'Login', area: 'Auth' }],
+};
+
+describe('generationSessionStore (local fallback)', () => {
+  let tempDir: string;
+  let cwdSpy: jest.SpyInstance;
+  let store: typeof import('../generationSessionStore');
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+    cwdSpy = jest.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    jest.isolateModules(() => {
+      store = require('../generationSessionStore');
+    });
+  });
+
+  afterEach(() => {
+    cwdSpy.mockRestore();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const createSession = (userIdentifier = 'user-a') => store.createGenerationSession({
+    userIdentifier,
+    requirements: 'Users can log in with email\nSecond line',
+    files: [{ name: 'prd.pdf', type: 'application/pdf', size: 1024 }],
+    options: { mode: 'high-level', priorityMode: 'comprehensive', provider: 'openai', model: 'gpt-4.1-mini' },
+    response,
+  });
+
+  it('creates sessions with a derived title and lists them per user', async () => {
+    const session = await createSession();
+    await createSession('user-b');
+
+    expect(session.title).toBe('Users can log in with email');
+    const summaries = await store.listGenerationSessions('user-a');
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]).toMatchObject({ id: session.id, mode: 'high-level', testCaseCount: 1 });
+  });
+
+  it('loads, renames and updates test cases of a session', async () => {
+    const session = await createSession();
+
+    const renamed = await store.updateGenerationSession('user-a', session.id, {
+      title: 'Sprint 12 login',
+      testCases: [],
+      convertedScenarioIds: ['TS-001'],
+    });
+    expect(renamed?.title).toBe('Sprint 12 login');
+
+    const loaded = await store.loadGenerationSession('user-a', session.id);
+    expect(loaded?.response.testCases).toEqual([]);
+    expect(loaded?.response.plan).toHaveLength(1);
+    expect(loaded?.convertedScenarioIds).toEqual(['TS-001']);
+    expect(await store.loadGenerationSession('user-b', session.id)).toBeNull();
+  });
+
+  it('deletes only sessions owned by the user', async () => {
+    const session = await createSession();
+
+    expect(await store.deleteGenerationSession('user-b', session.id)).toBe(false);
+    expect(await store.deleteGenerationSession('user-a', session.id)).toBe(true);
+    expect(await store.listGenerationSessions('user-a')).toEqual([]);
+  });
+
+  it('drops the oldest sessions once a user has more than the limit', async () => {
+    const first = await createSession();
+    const older = Array.from({ length: 50 }, (_, index) => ({
+      ...first,
+      id: `older-${index}`,
+      createdAt: new Date(Date.UTC(2024, 0, 1, 0, index)).toISOString(),
+    }));
+    // Stored out of order, as an older session saved again by an update ends up anywhere in the list
+    writeFileSync(
+      path.join(tempDir, 'data', 'generation-sessions.json'),
+      JSON.stringify({ 'user-a': [...older.slice(1), first, older[0]] })
+    );
+
+    const latest = await createSession();
+
+    const ids = (await store.listGenerationSessions('user-a')).map((summary) => summary.id);
+    expect(ids).toHaveLength(50);
+    expect(ids).toEqual(expect.arrayContaining([latest.id, first.id]));
+    expect(ids).not.toContain('older-0');
+    expect(ids).not.toContain('older-1');
+  });
+});
+
+describe('generationSessionStore (Supabase)', () => {
+  it('propagates list errors instead of reporting no sessions', async () => {
+    const listError = new Error('relation "generation_sessions" does not exist');
+    const query = {
+      select: () => query,
+      eq: () => query,
+      order: () => query,
+      limit: async () => ({ data: null, error: listError }),
+    };
+    const { getServiceSupabaseClient } = jest.requireMock('@/lib/server/supabaseClient') as {
+      getServiceSupabaseClient: jest.Mock;
+    };
+    getServiceSupabaseClient.mockReturnValueOnce({ from: () => query });
+    const store = require('../generationSessionStore') as typeof import('../generationSessionStore');
+
+    await expect(store.listGenerationSessions('user-a')).rejects.toThrow(listError);
+  });
+});
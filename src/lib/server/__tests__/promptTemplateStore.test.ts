@@ -0,0 +1,50 @@
+/** @jest-environment node */
+
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+jest.mock('@/lib/server/supabaseClient', () => ({
+  getServiceSupabaseClient: jest.fn(() => null),
+}));
+
+describe('promptTemplateStore (local fallback)', () => {
+  let tempDir: string;
+  let cwdSpy: jest.SpyInstance;
+  let store: typeof import('../promptTemplateStore');
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+    cwdSpy = jest.spyOn(process, 'cwd').mockReturnValue(tempDir);
+    jest.isolateModules(() => {
+      store = require('../promptTemplateStore');
+    });
+  });
+
+  afterEach(() => {
+    cwdSpy.mockRestore();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('versions each save and resolves the newest one per team', async () => {
+    await store.savePromptTemplateOverride('team-a', 'writer', 'v1 {{planItemArea}} {{requirements}}', 'sam');
+    await store.savePromptTemplateOverride('team-a', 'writer', 'v2 {{planItemArea}} {{requirements}}', 'kim');
+    await store.savePromptTemplateOverride('team-b', 'reviewer', 'other {{cases}}', 'lee');
+
+    const history = await store.listPromptTemplateOverrides('team-a');
+    expect(history.map((entry) => entry.version)).toEqual([2, 1]);
+
+    const set = await store.loadPromptTemplateSet('team-a');
+    expect(set.writer).toEqual({ id: 'writer', template: 'v2 {{planItemArea}} {{requirements}}', version: 'team:team-a@2' });
+    expect(set.reviewer).toBeUndefined();
+    expect(await store.loadPromptTemplateSet(null)).toEqual({});
+  });
+
+  it('resets a template back to the default', async () => {
+    await store.savePromptTemplateOverride('team-a', 'planner', 'plan {{requirements}}', 'sam');
+
+    expect(await store.resetPromptTemplateOverride('team-a', 'planner')).toBe(true);
+    expect(await store.loadPromptTemplateSet('team-a')).toEqual({});
+    expect(await store.resetPromptTemplateOverride('team-a', 'planner')).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+/** @jest-environment node */
+
+import { MemoryQuotaStore } from '../quotaStore';
+import { enforceQuota, getQuotaLimits, recordQuotaUsage } from '../quotas';
+
+jest.mock('@/lib/server/supabaseClient', () => ({
+  getServiceSupabaseClient: jest.fn(() => null),
+}));
+
+const NOW = Date.parse('2025-01-01T12:00:30Z');
+
+describe('quotas', () => {
+  const originalLimits = process.env.QUOTA_LIMITS;
+  let store: MemoryQuotaStore;
+
+  beforeEach(() => {
+    store = new MemoryQuotaStore();
+    process.env.QUOTA_LIMITS = JSON.stringify({
+      default: { requestsPerMinute: 2, dailyTokenBudget: 1000, maxDataRows: 500 },
+      alice: { requestsPerMinute: 5, dailyCostBudgetUsd: 0.5 },
+    });
+  });
+
+  afterEach(() => {
+    if (originalLimits === undefined) {
+      delete process.env.QUOTA_LIMITS;
+    } else {
+      process.env.QUOTA_LIMITS = originalLimits;
+    }
+  });
+
+  it('merges identifier limits over the default entry and leaves admin unlimited', () => {
+    expect(getQuotaLimits('alice')).toEqual({
+      requestsPerMinute: 5,
+      dailyTokenBudget: 1000,
+      dailyCostBudgetUsd: 0.5,
+      maxDataRows: 500,
+    });
+    expect(getQuotaLimits('__admin__')).toBeNull();
+  });
+
+  it('allows everything when QUOTA_LIMITS is not set', async () => {
+    delete process.env.QUOTA_LIMITS;
+    const decision = await enforceQuota('bob', { consumesBudget: true, requestedRows: 1_000_000 }, { store, now: NOW });
+    expect(decision).toEqual({ allowed: true, headers: {} });
+  });
+
+  it('rejects requests over the per-minute limit until the window resets', async () => {
+    await enforceQuota('bob', { consumesBudget: false }, { store, now: NOW });
+    const second = await enforceQuota('bob', { consumesBudget: false }, { store, now: NOW });
+    expect(second.allowed).toBe(true);
+    expect(second.headers['X-RateLimit-Remaining']).toBe('0');
+
+    const third = await enforceQuota('bob', { consumesBudget: false }, { store, now: NOW });
+    expect(third.allowed).toBe(false);
+    expect(third.retryAfterSeconds).toBe(30);
+    expect(third.headers['Retry-After']).toBe('30');
+
+    const nextWindow = await enforceQuota('bob', { consumesBudget: false }, { store, now: NOW + 30_000 });
+    expect(nextWindow.allowed).toBe(true);
+  });
+
+  it('rejects row counts above maxDataRows without a retry hint', async () => {
+    const decision = await enforceQuota('bob', { consumesBudget: true, requestedRows: 501 }, { store, now: NOW });
+    expect(decision.allowed).toBe(false);
+    expect(decision.retryAfterSeconds).toBeUndefined();
+    expect(decision.headers['X-Quota-Max-Rows']).toBe('500');
+  });
+
+  it('blocks budget-consuming requests once recorded usage exhausts the daily token budget', async () => {
+    await recordQuotaUsage('bob', { promptTokens: 800, completionTokens: 200, totalTokens: 1000 }, { store, now: NOW });
+
+    const readOnly = await enforceQuota('bob', { consumesBudget: false }, { store, now: NOW });
+    expect(readOnly.allowed).toBe(true);
+    expect(readOnly.headers['X-Quota-Tokens-Remaining']).toBe('0');
+
+    const generate = await enforceQuota('bob', { consumesBudget: true }, { store, now: NOW });
+    expect(generate.allowed).toBe(false);
+    expect(generate.retryAfterSeconds).toBe(12 * 3600 - 30);
+
+    const tomorrow = await enforceQuota('bob', { consumesBudget: true }, { store, now: NOW + 86_400_000 });
+    expect(tomorrow.allowed).toBe(true);
+  });
+
+  it('tracks cost budgets separately from tokens', async () => {
+    await recordQuotaUsage('alice', { promptTokens: 10, completionTokens: 10, totalTokens: 20, costUsd: 0.3 }, { store, now: NOW });
+    const decision = await enforceQuota('alice', { consumesBudget: true }, { store, now: NOW });
+    expect(decision.allowed).toBe(true);
+    expect(decision.headers['X-Quota-Cost-Remaining']).toBe('0.2000');
+    expect(decision.headers['X-Quota-Tokens-Remaining']).toBe('980');
+
+    await recordQuotaUsage('alice', { promptTokens: 10, completionTokens: 10, totalTokens: 20, costUsd: 0.25 }, { store, now: NOW });
+    const blocked = await enforceQuota('alice', { consumesBudget: true }, { store, now: NOW });
+    expect(blocked.allowed).toBe(false);
+  });
+});
@@ -0,0 +1,326 @@
+import { createHash, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { AccessTokenIdentity, AccessTokenSummary, Team, UserRole } from '@/lib/types';
+import { getServiceSupabaseClient } from './supabaseClient';
+
+const STORE_DIR = path.join(process.cwd(), 'data');
+const STORE_PATH = path.join(STORE_DIR, 'access-control.json');
+const TOKENS_TABLE = 'access_tokens';
+const TEAMS_TABLE = 'access_teams';
+const TOKEN_PREFIX = 'tcg_';
+const VISIBLE_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+
+interface StoredAccessToken extends AccessTokenSummary {
+  tokenHash: string;
+}
+
+interface AccessControlStore {
+  teams: Team[];
+  tokens: StoredAccessToken[];
+}
+
+interface SupabaseTokenRow {
+  id: string;
+  label: string;
+  user_identifier: string;
+  team_id: string | null;
+  role: UserRole;
+  token_hash: string;
+  token_prefix: string;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+interface SupabaseTeamRow {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface CreateAccessTokenInput {
+  label: string;
+  userIdentifier: string;
+  role: UserRole;
+  teamId?: string | null;
+  expiresAt?: string | null;
+}
+
+export type AccessTokenUpdate = Partial<Pick<AccessTokenSummary, 'label' | 'role' | 'teamId' | 'expiresAt'>>;
+
+export function hashAccessToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+async function readStore(): Promise<AccessControlStore> {
+  try {
+    const data = await fs.readFile(STORE_PATH, 'utf8');
+    try {
+      const parsed = JSON.parse(data) as Partial<AccessControlStore>;
+      return { teams: parsed.teams ?? [], tokens: parsed.tokens ?? [] };
+    } catch (parseError) {
+      if (parseError instanceof SyntaxError) {
+        // Unlike the session stores, never silently start over: that would drop every issued token
+        console.error('[accessTokenStore] Access control store is corrupt; refusing to overwrite it.', parseError);
+      }
+      throw parseError;
+    }
+  } catch (error: any) {
+    if (error && error.code === 'ENOENT') {
+      return { teams: [], tokens: [] };
+    }
+    throw error;
+  }
+}
+
+async function writeStore(store: AccessControlStore): Promise<void> {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  await fs.writeFile(STORE_PATH, JSON.stringify(store, null, 2), 'utf8');
+}
+
+const toSummary = ({ tokenHash: _tokenHash, ...summary }: StoredAccessToken): AccessTokenSummary => summary;
+
+const fromTokenRow = (row: SupabaseTokenRow): AccessTokenSummary => ({
+  id: row.id,
+  label: row.label,
+  userIdentifier: row.user_identifier,
+  teamId: row.team_id,
+  role: row.role,
+  tokenPrefix: row.token_prefix,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at,
+});
+
+const fromTeamRow = (row: SupabaseTeamRow): Team => ({ id: row.id, name: row.name, createdAt: row.created_at });
+
+const isActive = (token: Pick<AccessTokenSummary, 'expiresAt' | 'revokedAt'>, now = Date.now()) =>
+  !token.revokedAt && (!token.expiresAt || Date.parse(token.expiresAt) > now);
+
+export async function listTeams(): Promise<Team[]> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase.from(TEAMS_TABLE).select('id, name, created_at').order('name');
+    if (error) {
+      throw error;
+    }
+    return (data as SupabaseTeamRow[]).map(fromTeamRow);
+  }
+
+  const store = await readStore();
+  return [...store.teams].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Tokens may only be assigned to a team that exists, so a mistyped id cannot silently scope a token to nothing. */
+export async function teamExists(id: string): Promise<boolean> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase.from(TEAMS_TABLE).select('id').eq('id', id).maybeSingle();
+    if (error) {
+      throw error;
+    }
+    return Boolean(data);
+  }
+
+  const store = await readStore();
+  return store.teams.some((team) => team.id === id);
+}
+
+export async function createTeam(name: string): Promise<Team> {
+  const team: Team = { id: uuidv4(), name: name.trim(), createdAt: new Date().toISOString() };
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { error } = await supabase.from(TEAMS_TABLE).insert({ id: team.id, name: team.name, created_at: team.createdAt });
+    if (error) {
+      throw error;
+    }
+    return team;
+  }
+
+  const store = await readStore();
+  store.teams.push(team);
+  await writeStore(store);
+  return team;
+}
+
+/** Deleting a team keeps its tokens working; they just lose the team assignment. */
+export async function deleteTeam(id: string): Promise<boolean> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { error: unassignError } = await supabase.from(TOKENS_TABLE).update({ team_id: null }).eq('team_id', id);
+    if (unassignError) {
+      throw unassignError;
+    }
+    const { data, error } = await supabase.from(TEAMS_TABLE).delete().eq('id', id).select('id');
+    if (error) {
+      throw error;
+    }
+    return Boolean(data?.length);
+  }
+
+  const store = await readStore();
+  const remaining = store.teams.filter((team) => team.id !== id);
+  if (remaining.length === store.teams.length) {
+    return false;
+  }
+  store.teams = remaining;
+  store.tokens = store.tokens.map((token) => (token.teamId === id ? { ...token, teamId: null } : token));
+  await writeStore(store);
+  return true;
+}
+
+export async function listAccessTokens(): Promise<AccessTokenSummary[]> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(TOKENS_TABLE)
+      .select('id, label, user_identifier, team_id, role, token_prefix, created_at, expires_at, revoked_at')
+      .order('created_at', { ascending: false });
+    if (error) {
+      throw error;
+    }
+    return (data as SupabaseTokenRow[]).map(fromTokenRow);
+  }
+
+  const store = await readStore();
+  return store.tokens.map(toSummary).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Returns the plaintext token exactly once; only its SHA-256 hash is stored. */
+export async function createAccessToken(input: CreateAccessTokenInput): Promise<{ token: string; summary: AccessTokenSummary }> {
+  const token = `${TOKEN_PREFIX}${randomBytes(24).toString('base64url')}`;
+  const stored: StoredAccessToken = {
+    id: uuidv4(),
+    label: input.label.trim(),
+    userIdentifier: input.userIdentifier.trim(),
+    teamId: input.teamId ?? null,
+    role: input.role,
+    tokenPrefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+    createdAt: new Date().toISOString(),
+    expiresAt: input.expiresAt ?? null,
+    revokedAt: null,
+    tokenHash: hashAccessToken(token),
+  };
+
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { error } = await supabase.from(TOKENS_TABLE).insert({
+      id: stored.id,
+      label: stored.label,
+      user_identifier: stored.userIdentifier,
+      team_id: stored.teamId,
+      role: stored.role,
+      token_hash: stored.tokenHash,
+      token_prefix: stored.tokenPrefix,
+      created_at: stored.createdAt,
+      expires_at: stored.expiresAt,
+      revoked_at: null,
+    });
+    if (error) {
+      throw error;
+    }
+    return { token, summary: toSummary(stored) };
+  }
+
+  const store = await readStore();
+  store.tokens.push(stored);
+  await writeStore(store);
+  return { token, summary: toSummary(stored) };
+}
+
+export async function updateAccessToken(id: string, update: AccessTokenUpdate): Promise<AccessTokenSummary | null> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const patch: Partial<SupabaseTokenRow> = {};
+    if (update.label !== undefined) patch.label = update.label.trim();
+    if (update.role !== undefined) patch.role = update.role;
+    if (update.teamId !== undefined) patch.team_id = update.teamId;
+    if (update.expiresAt !== undefined) patch.expires_at = update.expiresAt;
+
+    const { data, error } = await supabase
+      .from(TOKENS_TABLE)
+      .update(patch)
+      .eq('id', id)
+      .select('id, label, user_identifier, team_id, role, token_prefix, created_at, expires_at, revoked_at')
+      .maybeSingle();
+    if (error) {
+      throw error;
+    }
+    return data ? fromTokenRow(data as SupabaseTokenRow) : null;
+  }
+
+  const store = await readStore();
+  const index = store.tokens.findIndex((token) => token.id === id);
+  if (index === -1) {
+    return null;
+  }
+  const next: StoredAccessToken = {
+    ...store.tokens[index],
+    ...update,
+    label: update.label !== undefined ? update.label.trim() : store.tokens[index].label,
+  };
+  store.tokens[index] = next;
+  await writeStore(store);
+  return toSummary(next);
+}
+
+/** Revoked tokens stay listed so the audit trail shows who had access and when it ended. */
+export async function revokeAccessToken(id: string): Promise<AccessTokenSummary | null> {
+  const revokedAt = new Date().toISOString();
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(TOKENS_TABLE)
+      .update({ revoked_at: revokedAt })
+      .eq('id', id)
+      .is('revoked_at', null)
+      .select('id, label, user_identifier, team_id, role, token_prefix, created_at, expires_at, revoked_at')
+      .maybeSingle();
+    if (error) {
+      throw error;
+    }
+    return data ? fromTokenRow(data as SupabaseTokenRow) : null;
+  }
+
+  const store = await readStore();
+  const token = store.tokens.find((candidate) => candidate.id === id && !candidate.revokedAt);
+  if (!token) {
+    return null;
+  }
+  token.revokedAt = revokedAt;
+  await writeStore(store);
+  return toSummary(token);
+}
+
+/** Looks up a presented token by hash; revoked and expired tokens resolve to null. */
+export async function resolveAccessToken(token: string): Promise<AccessTokenIdentity | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) {
+    return null;
+  }
+  const tokenHash = hashAccessToken(token);
+
+  const supabase = getServiceSupabaseClient();
+  let match: AccessTokenSummary | undefined;
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(TOKENS_TABLE)
+      .select('id, label, user_identifier, team_id, role, token_prefix, created_at, expires_at, revoked_at')
+      .eq('token_hash', tokenHash)
+      .maybeSingle();
+    if (error) {
+      console.warn('[accessTokenStore] Failed to resolve access token from Supabase', error);
+      return null;
+    }
+    match = data ? fromTokenRow(data as SupabaseTokenRow) : undefined;
+  } else {
+    const store = await readStore();
+    match = store.tokens.find((candidate) => candidate.tokenHash === tokenHash);
+  }
+
+  if (!match || !isActive(match)) {
+    return null;
+  }
+  return { userIdentifier: match.userIdentifier, role: match.role, teamId: match.teamId };
+}
@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GenerationCheckpoint } from '@/lib/types';
+import { getServiceSupabaseClient } from './supabaseClient';
+
+const STORE_DIR = path.join(process.cwd(), 'data');
+const STORE_PATH = path.join(STORE_DIR, 'generation-checkpoints.json');
+const TABLE_NAME = 'generation_checkpoints';
+const MAX_CHECKPOINTS_PER_USER = 10;
+
+interface GenerationCheckpointStore {
+  [userId: string]: GenerationCheckpoint[];
+}
+
+async function readStore(): Promise<GenerationCheckpointStore> {
+  try {
+    const data = await fs.readFile(STORE_PATH, 'utf8');
+    try {
+      return JSON.parse(data) as GenerationCheckpointStore;
+    } catch (parseError) {
+      if (parseError instanceof SyntaxError) {
+        console.warn('[generationCheckpointStore] Detected corrupt checkpoint store. Creating fresh store.', parseError);
+        return {};
+      }
+      throw parseError;
+    }
+  } catch (error: any) {
+    if (error && error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function writeStore(store: GenerationCheckpointStore): Promise<void> {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  await fs.writeFile(STORE_PATH, JSON.stringify(store, null, 2), 'utf8');
+}
+
+export async function loadGenerationCheckpoint(userId: string, runId: string): Promise<GenerationCheckpoint | null> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('checkpoint')
+      .eq('run_id', runId)
+      .eq('user_identifier', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.warn('[generationCheckpointStore] Failed to fetch checkpoint from Supabase', { userId, runId, error });
+      return null;
+    }
+    return (data?.checkpoint as GenerationCheckpoint | undefined) ?? null;
+  }
+
+  const store = await readStore();
+  return (store[userId] ?? []).find((checkpoint) => checkpoint.runId === runId) ?? null;
+}
+
+/** Replaces the stored checkpoint for the run; only the most recent runs per user are kept. */
+export async function saveGenerationCheckpoint(userId: string, checkpoint: GenerationCheckpoint): Promise<void> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { error } = await supabase.from(TABLE_NAME).upsert(
+      {
+        run_id: checkpoint.runId,
+        user_identifier: userId,
+        checkpoint,
+        updated_at: checkpoint.updatedAt,
+      },
+      { onConflict: 'run_id' }
+    );
+
+    if (error) {
+      throw error;
+    }
+    return;
+  }
+
+  const store = await readStore();
+  const others = (store[userId] ?? []).filter((existing) => existing.runId !== checkpoint.runId);
+  store[userId] = [checkpoint, ...others].slice(0, MAX_CHECKPOINTS_PER_USER);
+  await writeStore(store);
+}
+
+export async function deleteGenerationCheckpoint(userId: string, runId: string): Promise<void> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .delete()
+      .eq('run_id', runId)
+      .eq('user_identifier', userId);
+
+    if (error) {
+      throw error;
+    }
+    return;
+  }
+
+  const store = await readStore();
+  const checkpoints = store[userId] ?? [];
+  const remaining = checkpoints.filter((checkpoint) => checkpoint.runId !== runId);
+  if (remaining.length === checkpoints.length) {
+    return;
+  }
+  store[userId] = remaining;
+  await writeStore(store);
+}
@@ -0,0 +1,279 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  GenerationSession,
+  GenerationSessionFile,
+  GenerationSessionOptions,
+  GenerationSessionSummary,
+  GenerationSessionUpdate,
+  TestCaseGenerationResponse,
+} from '@/lib/types';
+import { getServiceSupabaseClient } from './supabaseClient';
+
+const STORE_DIR = path.join(process.cwd(), 'data');
+const STORE_PATH = path.join(STORE_DIR, 'generation-sessions.json');
+const TABLE_NAME = 'generation_sessions';
+const MAX_SESSIONS_PER_USER = 50;
+const MAX_TITLE_LENGTH = 80;
+
+interface GenerationSessionStore {
+  [userId: string]: GenerationSession[];
+}
+
+interface SupabaseSessionRow {
+  id: string;
+  user_identifier: string;
+  title: string;
+  mode: string;
+  test_case_count: number;
+  provider: string | null;
+  model: string | null;
+  session: GenerationSession;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CreateGenerationSessionInput {
+  userIdentifier: string;
+  title?: string;
+  requirements: string;
+  files: GenerationSessionFile[];
+  options: GenerationSessionOptions;
+  response: TestCaseGenerationResponse;
+}
+
+async function readStore(): Promise<GenerationSessionStore> {
+  try {
+    const data = await fs.readFile(STORE_PATH, 'utf8');
+    try {
+      return JSON.parse(data) as GenerationSessionStore;
+    } catch (parseError) {
+      if (parseError instanceof SyntaxError) {
+        const backupPath = `${STORE_PATH}.corrupt-${Date.now()}`;
+        try {
+          await fs.rename(STORE_PATH, backupPath);
+        } catch (renameError) {
+          console.warn('[generationSessionStore] Failed to quarantine corrupt store file', renameError);
+        }
+        console.warn('[generationSessionStore] Detected corrupt session store. Creating fresh store.', parseError);
+        return {};
+      }
+      throw parseError;
+    }
+  } catch (error: any) {
+    if (error && error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function writeStore(store: GenerationSessionStore): Promise<void> {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  await fs.writeFile(STORE_PATH, JSON.stringify(store, null, 2), 'utf8');
+}
+
+export function deriveSessionTitle(requirements: string, files: GenerationSessionFile[]): string {
+  const firstLine = requirements
+    .split('\n')
+    .map((line) => line.trim())
+    .find(Boolean);
+
+  const base = firstLine || (files.length ? files.map((file) => file.name).join(', ') : 'Untitled session');
+  return base.length > MAX_TITLE_LENGTH ? `${base.slice(0, MAX_TITLE_LENGTH - 1)}…` : base;
+}
+
+export function toSessionSummary(session: GenerationSession): GenerationSessionSummary {
+  return {
+    id: session.id,
+    title: session.title,
+    mode: session.options.mode,
+    testCaseCount: session.response.testCases?.length ?? 0,
+    provider: session.options.provider,
+    model: session.options.model,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+function applySessionUpdate(session: GenerationSession, update: GenerationSessionUpdate): GenerationSession {
+  const title = update.title?.trim();
+  return {
+    ...session,
+    title: title ? title.slice(0, MAX_TITLE_LENGTH) : session.title,
+    response: update.testCases ? { ...session.response, testCases: update.testCases } : session.response,
+    convertedTestCases: update.convertedTestCases ?? session.convertedTestCases,
+    convertedScenarioIds: update.convertedScenarioIds ?? session.convertedScenarioIds,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export async function createGenerationSession(input: CreateGenerationSessionInput): Promise<GenerationSession> {
+  const now = new Date().toISOString();
+  const session: GenerationSession = {
+    id: uuidv4(),
+    userIdentifier: input.userIdentifier,
+    title: input.title?.trim() || deriveSessionTitle(input.requirements, input.files),
+    requirements: input.requirements,
+    files: input.files,
+    options: input.options,
+    response: { ...input.response, sessionId: undefined },
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    await upsertSupabaseSession(supabase, session);
+    return session;
+  }
+
+  const store = await readStore();
+  const existing = store[input.userIdentifier] ?? [];
+  // Newest first, so the oldest sessions are the ones dropped once a user has too many
+  store[input.userIdentifier] = [session, ...existing]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, MAX_SESSIONS_PER_USER);
+  await writeStore(store);
+  return session;
+}
+
+export async function listGenerationSessions(userId: string): Promise<GenerationSessionSummary[]> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('id, title, mode, test_case_count, provider, model, created_at, updated_at')
+      .eq('user_identifier', userId)
+      .order('updated_at', { ascending: false })
+      .limit(MAX_SESSIONS_PER_USER);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data ?? []).map((row) => ({
+      id: row.id,
+      title: row.title,
+      mode: row.mode,
+      testCaseCount: row.test_case_count ?? 0,
+      provider: row.provider ?? undefined,
+      model: row.model ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    } as GenerationSessionSummary));
+  }
+
+  const store = await readStore();
+  return (store[userId] ?? [])
+    .map(toSessionSummary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function loadGenerationSession(userId: string, sessionId: string): Promise<GenerationSession | null> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    return fetchSupabaseSession(supabase, userId, sessionId);
+  }
+
+  const store = await readStore();
+  return (store[userId] ?? []).find((session) => session.id === sessionId) ?? null;
+}
+
+export async function updateGenerationSession(
+  userId: string,
+  sessionId: string,
+  update: GenerationSessionUpdate
+): Promise<GenerationSession | null> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const existing = await fetchSupabaseSession(supabase, userId, sessionId);
+    if (!existing) {
+      return null;
+    }
+    const updated = applySessionUpdate(existing, update);
+    await upsertSupabaseSession(supabase, updated);
+    return updated;
+  }
+
+  const store = await readStore();
+  const sessions = store[userId] ?? [];
+  const index = sessions.findIndex((session) => session.id === sessionId);
+  if (index === -1) {
+    return null;
+  }
+  const updated = applySessionUpdate(sessions[index], update);
+  sessions[index] = updated;
+  store[userId] = sessions;
+  await writeStore(store);
+  return updated;
+}
+
+export async function deleteGenerationSession(userId: string, sessionId: string): Promise<boolean> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { error, count } = await supabase
+      .from(TABLE_NAME)
+      .delete({ count: 'exact' })
+      .eq('id', sessionId)
+      .eq('user_identifier', userId);
+
+    if (error) {
+      throw error;
+    }
+    return (count ?? 0) > 0;
+  }
+
+  const store = await readStore();
+  const sessions = store[userId] ?? [];
+  const remaining = sessions.filter((session) => session.id !== sessionId);
+  if (remaining.length === sessions.length) {
+    return false;
+  }
+  store[userId] = remaining;
+  await writeStore(store);
+  return true;
+}
+
+async function fetchSupabaseSession(
+  client: SupabaseClient,
+  userId: string,
+  sessionId: string
+): Promise<GenerationSession | null> {
+  const { data, error } = await client
+    .from(TABLE_NAME)
+    .select('session')
+    .eq('id', sessionId)
+    .eq('user_identifier', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('[generationSessionStore] Failed to fetch session from Supabase', { userId, sessionId, error });
+    return null;
+  }
+
+  return (data?.session as GenerationSession | undefined) ?? null;
+}
+
+async function upsertSupabaseSession(client: SupabaseClient, session: GenerationSession): Promise<void> {
+  const row: SupabaseSessionRow = {
+    id: session.id,
+    user_identifier: session.userIdentifier,
+    title: session.title,
+    mode: session.options.mode,
+    test_case_count: session.response.testCases?.length ?? 0,
+    provider: session.options.provider ?? null,
+    model: session.options.model ?? null,
+    session,
+    created_at: session.createdAt,
+    updated_at: session.updatedAt,
+  };
+
+  const { error } = await client.from(TABLE_NAME).upsert(row, { onConflict: 'id' });
+
+  if (error) {
+    throw error;
+  }
+}
@@ -0,0 +1,164 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PromptTemplateId, PromptTemplateOverride, PromptTemplateSet } from '@/lib/types';
+import { getServiceSupabaseClient } from './supabaseClient';
+
+const STORE_DIR = path.join(process.cwd(), 'data');
+const STORE_PATH = path.join(STORE_DIR, 'prompt-templates.json');
+const TABLE_NAME = 'prompt_template_overrides';
+const MAX_VERSIONS_PER_TEMPLATE = 20;
+
+interface PromptTemplateStore {
+  [teamId: string]: PromptTemplateOverride[];
+}
+
+interface SupabaseOverrideRow {
+  team_id: string;
+  template_id: PromptTemplateId;
+  version: number;
+  template: string;
+  updated_by: string;
+  updated_at: string;
+}
+
+async function readStore(): Promise<PromptTemplateStore> {
+  try {
+    const data = await fs.readFile(STORE_PATH, 'utf8');
+    try {
+      return JSON.parse(data) as PromptTemplateStore;
+    } catch (parseError) {
+      if (parseError instanceof SyntaxError) {
+        console.warn('[promptTemplateStore] Detected corrupt prompt template store. Creating fresh store.', parseError);
+        return {};
+      }
+      throw parseError;
+    }
+  } catch (error: any) {
+    if (error && error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function writeStore(store: PromptTemplateStore): Promise<void> {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  await fs.writeFile(STORE_PATH, JSON.stringify(store, null, 2), 'utf8');
+}
+
+const fromRow = (row: SupabaseOverrideRow): PromptTemplateOverride => ({
+  teamId: row.team_id,
+  templateId: row.template_id,
+  version: row.version,
+  template: row.template,
+  updatedBy: row.updated_by,
+  updatedAt: row.updated_at,
+});
+
+/** Every saved version for the team, newest first. The newest version of each template is the active one. */
+export async function listPromptTemplateOverrides(teamId: string): Promise<PromptTemplateOverride[]> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('team_id, template_id, version, template, updated_by, updated_at')
+      .eq('team_id', teamId)
+      .order('version', { ascending: false });
+    if (error) {
+      throw error;
+    }
+    return (data as SupabaseOverrideRow[]).map(fromRow);
+  }
+
+  const store = await readStore();
+  return [...(store[teamId] ?? [])].sort((a, b) => b.version - a.version);
+}
+
+export async function savePromptTemplateOverride(
+  teamId: string,
+  templateId: PromptTemplateId,
+  template: string,
+  updatedBy: string
+): Promise<PromptTemplateOverride> {
+  const existing = (await listPromptTemplateOverrides(teamId)).filter((entry) => entry.templateId === templateId);
+  const override: PromptTemplateOverride = {
+    teamId,
+    templateId,
+    version: (existing[0]?.version ?? 0) + 1,
+    template,
+    updatedBy,
+    updatedAt: new Date().toISOString(),
+  };
+
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { error } = await supabase.from(TABLE_NAME).insert({
+      team_id: teamId,
+      template_id: templateId,
+      version: override.version,
+      template,
+      updated_by: updatedBy,
+      updated_at: override.updatedAt,
+    });
+    if (error) {
+      throw error;
+    }
+    return override;
+  }
+
+  const store = await readStore();
+  const versions = [override, ...existing].slice(0, MAX_VERSIONS_PER_TEMPLATE);
+  store[teamId] = [...(store[teamId] ?? []).filter((entry) => entry.templateId !== templateId), ...versions];
+  await writeStore(store);
+  return override;
+}
+
+/** Drops every version of the team's override so the shipped default applies again. */
+export async function resetPromptTemplateOverride(teamId: string, templateId: PromptTemplateId): Promise<boolean> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .delete()
+      .eq('team_id', teamId)
+      .eq('template_id', templateId)
+      .select('version');
+    if (error) {
+      throw error;
+    }
+    return Boolean(data?.length);
+  }
+
+  const store = await readStore();
+  const overrides = store[teamId] ?? [];
+  const remaining = overrides.filter((entry) => entry.templateId !== templateId);
+  if (remaining.length === overrides.length) {
+    return false;
+  }
+  store[teamId] = remaining;
+  await writeStore(store);
+  return true;
+}
+
+/** Active overrides for the team; generation falls back to the defaults when this fails. */
+export async function loadPromptTemplateSet(teamId?: string | null): Promise<PromptTemplateSet> {
+  if (!teamId) {
+    return {};
+  }
+  try {
+    const overrides = await listPromptTemplateOverrides(teamId);
+    return overrides.reduce<PromptTemplateSet>((set, override) => {
+      if (!set[override.templateId]) {
+        set[override.templateId] = {
+          id: override.templateId,
+          template: override.template,
+          version: `team:${teamId}@${override.version}`,
+        };
+      }
+      return set;
+    }, {});
+  } catch (error) {
+    console.warn('[promptTemplateStore] Failed to load team prompt templates; using defaults', { teamId, error });
+    return {};
+  }
+}
@@ -1,4 +1,5 @@
 import { FALLBACK_MODELS } from '@/lib/providerSettings';
+import { getContextWindow } from './tokenizer';
 import {
   LLMProvider,
   ProviderModelInfo,
@@ -53,6 +54,19 @@ const STATIC_MODEL_CATALOG: Record<LLMProvider, ProviderModelInfo[]> = {
     { id: 'x-ai/grok-4-fast:free' },
     { id: 'meta-llama/llama-3.1-70b-instruct' },
   ],
+  local: process.env.LOCAL_LLM_MODEL ? [{ id: process.env.LOCAL_LLM_MODEL }] : [],
+  anthropic: [
+    { id: 'claude-sonnet-4-5', label: 'Claude Sonnet 4.5' },
+    { id: 'claude-opus-4-1', label: 'Claude Opus 4.1' },
+    { id: 'claude-sonnet-4-0', label: 'Claude Sonnet 4' },
+    { id: 'claude-3-7-sonnet-latest', label: 'Claude 3.7 Sonnet' },
+    { id: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku' },
+  ],
+  // Azure has no data-plane endpoint that lists deployments, so they are configured explicitly.
+  azure: Array.from(new Set([
+    ...(process.env.AZURE_OPENAI_DEPLOYMENT ? [process.env.AZURE_OPENAI_DEPLOYMENT] : []),
+    ...(process.env.AZURE_OPENAI_DEPLOYMENTS ?? '').split(',').map((name) => name.trim()).filter(Boolean),
+  ])).map((id) => ({ id })),
 };
 
 const HIDDEN_MODEL_PATTERNS = [
@@ -181,10 +195,91 @@ async function fetchOpenRouterModels(): Promise<ProviderModelInfo[]> {
   }
 }
 
+async function fetchAnthropicModels(): Promise<ProviderModelInfo[]> {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    return STATIC_MODEL_CATALOG.anthropic;
+  }
+
+  const baseUrl = process.env.ANTHROPIC_BASE_URL ?? 'https://api.anthropic.com/v1';
+  try {
+    const response = await fetchWithTimeout(`${baseUrl.replace(/\/$/, '')}/models?limit=100`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic models request failed: ${response.status}`);
+    }
+
+    const payload: any = await response.json();
+    const models: ProviderModelInfo[] = (payload?.data ?? [])
+      .filter((raw: any) => typeof raw?.id === 'string')
+      .map((raw: any) => ({
+        id: raw.id as string,
+        label: typeof raw.display_name === 'string' ? raw.display_name : formatLabel(raw.id),
+        contextWindow: getContextWindow('anthropic', raw.id) ?? undefined,
+      }));
+
+    return models.length ? models : STATIC_MODEL_CATALOG.anthropic;
+  } catch (error) {
+    console.warn('[providerModels] Falling back to static Anthropic catalog', error);
+    return STATIC_MODEL_CATALOG.anthropic;
+  }
+}
+
+async function fetchAzureModels(): Promise<ProviderModelInfo[]> {
+  return STATIC_MODEL_CATALOG.azure;
+}
+
+function localHeaders(): HeadersInit | undefined {
+  const apiKey = process.env.LOCAL_LLM_API_KEY;
+  return apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined;
+}
+
+/** Models served by the local endpoint. vLLM reports max_model_len; other servers fall back to the configured window. */
+async function fetchLocalModels(): Promise<ProviderModelInfo[]> {
+  const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+  if (!baseUrl) {
+    return STATIC_MODEL_CATALOG.local;
+  }
+
+  try {
+    const response = await fetchWithTimeout(`${baseUrl.replace(/\/$/, '')}/models`, { headers: localHeaders() }, 4000);
+
+    if (!response.ok) {
+      throw new Error(`Local models request failed: ${response.status}`);
+    }
+
+    const payload: any = await response.json();
+    const models: ProviderModelInfo[] = (payload?.data ?? [])
+      .filter((raw: any) => typeof raw?.id === 'string')
+      .map((raw: any) => {
+        const reported = Number(raw.max_model_len ?? raw.context_length);
+        return {
+          id: raw.id as string,
+          label: raw.id as string,
+          contextWindow: Number.isFinite(reported) && reported > 0 ? reported : getContextWindow('local', raw.id) ?? undefined,
+        };
+      })
+      .sort((a: ProviderModelInfo, b: ProviderModelInfo) => a.id.localeCompare(b.id));
+
+    return models.length ? models : STATIC_MODEL_CATALOG.local;
+  } catch (error) {
+    console.warn('[providerModels] Falling back to the configured local model', error);
+    return STATIC_MODEL_CATALOG.local;
+  }
+}
+
 const MODEL_FETCHERS: Record<LLMProvider, () => Promise<ProviderModelInfo[]>> = {
   openai: fetchOpenAIModels,
   gemini: fetchGeminiModels,
   openrouter: fetchOpenRouterModels,
+  local: fetchLocalModels,
+  anthropic: fetchAnthropicModels,
+  azure: fetchAzureModels,
 };
 
 async function fetchOpenAIStatus(): Promise<ProviderStatusSummary | null> {
@@ -314,10 +409,100 @@ async function fetchOpenRouterStatus(): Promise<ProviderStatusSummary | null> {
   }
 }
 
+async function fetchAnthropicStatus(): Promise<ProviderStatusSummary | null> {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    return null;
+  }
+
+  // Anthropic has no credit balance API; report the public service status instead.
+  try {
+    const response = await fetchWithTimeout('https://status.anthropic.com/api/v2/status.json', {}, 5000);
+    if (!response.ok) {
+      throw new Error(`Anthropic status request failed: ${response.status}`);
+    }
+
+    const payload: any = await response.json();
+    const indicator = payload?.status?.indicator as string | undefined;
+    const severity: ProviderStatusSeverity = !indicator || indicator === 'none'
+      ? 'ok'
+      : indicator === 'minor' ? 'warning' : 'error';
+
+    return {
+      severity,
+      headline: payload?.status?.description ?? 'Status available',
+      detail: 'Usage and credits are shown in the Anthropic Console.',
+      fetchedAt: new Date().toISOString(),
+      source: 'live',
+    };
+  } catch (error: any) {
+    console.warn('[providerModels] Unable to load Anthropic status', error);
+    return {
+      severity: 'ok',
+      headline: 'Usage metrics unavailable',
+      detail: 'Usage and credits are shown in the Anthropic Console.',
+      fetchedAt: new Date().toISOString(),
+      source: 'fallback',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+async function fetchAzureStatus(): Promise<ProviderStatusSummary | null> {
+  if (!process.env.AZURE_OPENAI_API_KEY) {
+    return null;
+  }
+
+  return {
+    severity: STATIC_MODEL_CATALOG.azure.length ? 'ok' : 'warning',
+    headline: 'Usage metrics unavailable',
+    detail: STATIC_MODEL_CATALOG.azure.length
+      ? 'Quota and spend for Azure OpenAI deployments are shown in the Azure portal.'
+      : 'Set AZURE_OPENAI_DEPLOYMENTS to list the deployments available to this app.',
+    fetchedAt: new Date().toISOString(),
+    source: 'fallback',
+  };
+}
+
+async function fetchLocalStatus(): Promise<ProviderStatusSummary | null> {
+  const baseUrl = process.env.LOCAL_LLM_BASE_URL;
+  if (!baseUrl) {
+    return null;
+  }
+
+  try {
+    const response = await fetchWithTimeout(`${baseUrl.replace(/\/$/, '')}/models`, { headers: localHeaders() }, 4000);
+    if (!response.ok) {
+      throw new Error(`Local models request failed: ${response.status}`);
+    }
+    const payload: any = await response.json();
+    const count = Array.isArray(payload?.data) ? payload.data.length : 0;
+    return {
+      severity: count ? 'ok' : 'warning',
+      headline: count ? 'Local endpoint reachable' : 'No models loaded',
+      detail: count ? `${count} model${count === 1 ? '' : 's'} served` : 'Load or pull a model on the local server.',
+      fetchedAt: new Date().toISOString(),
+      source: 'live',
+    };
+  } catch (error: any) {
+    console.warn('[providerModels] Unable to reach local endpoint', error);
+    return {
+      severity: 'error',
+      headline: 'Local endpoint unreachable',
+      detail: `Check that the server at ${baseUrl} is running.`,
+      fetchedAt: new Date().toISOString(),
+      source: 'fallback',
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
 const STATUS_FETCHERS: Record<LLMProvider, () => Promise<ProviderStatusSummary | null>> = {
   openai: fetchOpenAIStatus,
   gemini: fetchGeminiStatus,
   openrouter: fetchOpenRouterStatus,
+  local: fetchLocalStatus,
+  anthropic: fetchAnthropicStatus,
+  azure: fetchAzureStatus,
 };
 
 function getCachedValue<T>(cache: Map<LLMProvider, CacheEntry<T>>, key: LLMProvider): T | undefined {
@@ -346,7 +531,7 @@ export async function getProviderModels(provider: LLMProvider): Promise<Provider
 }
 
 export async function getAllProviderModels(): Promise<Record<LLMProvider, ProviderModelInfo[]>> {
-  const providers: LLMProvider[] = ['openai', 'gemini', 'openrouter'];
+  const providers: LLMProvider[] = ['openai', 'gemini', 'openrouter', 'local', 'anthropic', 'azure'];
   const entries = await Promise.all(providers.map(async (provider) => {
     const models = await getProviderModels(provider);
     return [provider, models] as const;
@@ -367,7 +552,7 @@ export async function getProviderStatus(provider: LLMProvider): Promise<Provider
 }
 
 export async function getAllProviderStatus(): Promise<Record<LLMProvider, ProviderStatusSummary | null>> {
-  const providers: LLMProvider[] = ['openai', 'gemini', 'openrouter'];
+  const providers: LLMProvider[] = ['openai', 'gemini', 'openrouter', 'local', 'anthropic', 'azure'];
   const entries = await Promise.all(providers.map(async (provider) => {
     const status = await getProviderStatus(provider);
     return [provider, status] as const;
@@ -37,6 +37,40 @@ export function getAvailableProviders(): ProviderDescriptor[] {
     });
   }
 
+  if (process.env.ANTHROPIC_API_KEY) {
+    providers.push({
+      id: 'anthropic',
+      label: 'Anthropic Claude',
+      description: 'Calls Anthropic Claude models through the Messages API, with image input for multimodal workflows.',
+      supportsMultimodal: true,
+      defaultModel: process.env.ANTHROPIC_MODEL ?? FALLBACK_MODELS.anthropic,
+      baseUrl: (process.env.ANTHROPIC_BASE_URL ?? 'https://api.anthropic.com/v1').replace(/\/$/, ''),
+    });
+  }
+
+  if (process.env.AZURE_OPENAI_API_KEY && (process.env.AZURE_OPENAI_RESOURCE_NAME || process.env.AZURE_OPENAI_BASE_URL)) {
+    providers.push({
+      id: 'azure',
+      label: 'Azure OpenAI',
+      description: 'Uses OpenAI models deployed to your Azure OpenAI resource. Models are selected by deployment name.',
+      supportsMultimodal: true,
+      defaultModel: process.env.AZURE_OPENAI_DEPLOYMENT ?? FALLBACK_MODELS.azure,
+      baseUrl: (process.env.AZURE_OPENAI_BASE_URL
+        ?? `https://${process.env.AZURE_OPENAI_RESOURCE_NAME}.openai.azure.com/openai/deployments`).replace(/\/$/, ''),
+    });
+  }
+
+  if (process.env.LOCAL_LLM_BASE_URL) {
+    providers.push({
+      id: 'local',
+      label: 'Local (OpenAI-compatible)',
+      description: 'Self-hosted models served by Ollama, LM Studio, vLLM, or another OpenAI-compatible endpoint. Prompts never leave your network.',
+      supportsMultimodal: false,
+      defaultModel: process.env.LOCAL_LLM_MODEL ?? FALLBACK_MODELS.local,
+      baseUrl: process.env.LOCAL_LLM_BASE_URL.replace(/\/$/, ''),
+    });
+  }
+
   if (!providers.length) {
     providers.push({
       id: 'openai',
@@ -206,6 +206,7 @@ function mergeAgenticDefaults(
     priorityMode: resolvedOverride.priorityMode ?? resolvedBase.priorityMode ?? DEFAULT_AGENTIC_DEFAULTS.priorityMode,
     reviewPasses: resolvedOverride.reviewPasses ?? resolvedBase.reviewPasses ?? DEFAULT_AGENTIC_DEFAULTS.reviewPasses,
     writerConcurrency: resolvedOverride.writerConcurrency ?? resolvedBase.writerConcurrency ?? DEFAULT_AGENTIC_DEFAULTS.writerConcurrency,
+    reviewPlanFirst: resolvedOverride.reviewPlanFirst ?? resolvedBase.reviewPlanFirst ?? DEFAULT_AGENTIC_DEFAULTS.reviewPlanFirst,
     overrides: {
       planner: mergeOverrideSelection(resolvedBase.overrides?.planner, resolvedOverride.overrides?.planner),
       writer: mergeOverrideSelection(resolvedBase.overrides?.writer, resolvedOverride.overrides?.writer),
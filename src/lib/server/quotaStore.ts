@@ -0,0 +1,105 @@
+import { getServiceSupabaseClient } from './supabaseClient';
+
+const TABLE_NAME = 'quota_counters';
+
+/** Windowed counters keyed by identifier + window; values expire with their window. */
+export interface QuotaStore {
+  get(key: string, now: number): Promise<number>;
+  increment(key: string, amount: number, expiresAt: number, now: number): Promise<number>;
+}
+
+interface CounterEntry {
+  value: number;
+  expiresAt: number;
+}
+
+export class MemoryQuotaStore implements QuotaStore {
+  private counters = new Map<string, CounterEntry>();
+
+  async get(key: string, now: number): Promise<number> {
+    const entry = this.counters.get(key);
+    if (!entry || entry.expiresAt <= now) {
+      return 0;
+    }
+    return entry.value;
+  }
+
+  async increment(key: string, amount: number, expiresAt: number, now: number): Promise<number> {
+    this.prune(now);
+    const current = await this.get(key, now);
+    const value = current + amount;
+    this.counters.set(key, { value, expiresAt });
+    return value;
+  }
+
+  private prune(now: number) {
+    this.counters.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.counters.delete(key);
+      }
+    });
+  }
+}
+
+/**
+ * Shares counters across instances through Supabase. Increments are read-then-write,
+ * so concurrent requests can undercount slightly; good enough for quota enforcement.
+ */
+export class SupabaseQuotaStore implements QuotaStore {
+  constructor(private readonly fallback: QuotaStore = new MemoryQuotaStore()) {}
+
+  async get(key: string, now: number): Promise<number> {
+    const supabase = getServiceSupabaseClient();
+    if (!supabase) {
+      return this.fallback.get(key, now);
+    }
+
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('value, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      console.warn('[quotaStore] Failed to read quota counter from Supabase', { key, error });
+      return this.fallback.get(key, now);
+    }
+    if (!data || new Date(data.expires_at).getTime() <= now) {
+      return 0;
+    }
+    return Number(data.value) || 0;
+  }
+
+  async increment(key: string, amount: number, expiresAt: number, now: number): Promise<number> {
+    const supabase = getServiceSupabaseClient();
+    if (!supabase) {
+      return this.fallback.increment(key, amount, expiresAt, now);
+    }
+
+    const value = (await this.get(key, now)) + amount;
+    const { error } = await supabase.from(TABLE_NAME).upsert(
+      {
+        key,
+        value,
+        expires_at: new Date(expiresAt).toISOString(),
+      },
+      { onConflict: 'key' }
+    );
+
+    if (error) {
+      console.warn('[quotaStore] Failed to write quota counter to Supabase', { key, error });
+      return this.fallback.increment(key, amount, expiresAt, now);
+    }
+    return value;
+  }
+}
+
+let cachedStore: QuotaStore | null = null;
+
+/** Uses the Supabase counter when QUOTA_STORE=supabase, otherwise an in-process map. */
+export function getQuotaStore(): QuotaStore {
+  if (!cachedStore) {
+    cachedStore = process.env.QUOTA_STORE === 'supabase' ? new SupabaseQuotaStore() : new MemoryQuotaStore();
+  }
+  return cachedStore;
+}
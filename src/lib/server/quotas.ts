@@ -0,0 +1,209 @@
+import type { TokenUsage } from '@/lib/types';
+import { getQuotaStore, QuotaStore } from './quotaStore';
+
+export interface QuotaLimits {
+  requestsPerMinute?: number;
+  dailyTokenBudget?: number;
+  dailyCostBudgetUsd?: number;
+  maxDataRows?: number;
+}
+
+export interface QuotaRequest {
+  /** Requests that can spend model tokens are blocked once the daily budget is used up. */
+  consumesBudget: boolean;
+  requestedRows?: number;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  message?: string;
+  retryAfterSeconds?: number;
+  headers: Record<string, string>;
+}
+
+/** Today's model usage counted against the token and cost budgets. */
+export interface DailyUsage {
+  tokens: number;
+  costUsd: number;
+}
+
+interface QuotaOptions {
+  store?: QuotaStore;
+  now?: number;
+}
+
+interface EnforceQuotaOptions extends QuotaOptions {
+  /** Budget counters read from the runtime that records usage; the store is used when omitted. */
+  dailyUsage?: DailyUsage;
+}
+
+const DEFAULT_KEY = 'default';
+const ADMIN_IDENTIFIER = '__admin__';
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+
+let cachedSource: string | undefined;
+let cachedConfig: Record<string, QuotaLimits> = {};
+
+const positiveNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined;
+
+function normalizeLimits(raw: unknown): QuotaLimits {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  return {
+    requestsPerMinute: positiveNumber(value.requestsPerMinute),
+    dailyTokenBudget: positiveNumber(value.dailyTokenBudget),
+    dailyCostBudgetUsd: positiveNumber(value.dailyCostBudgetUsd),
+    maxDataRows: positiveNumber(value.maxDataRows),
+  };
+}
+
+function getQuotaConfig(): Record<string, QuotaLimits> {
+  const source = process.env.QUOTA_LIMITS;
+  if (source === cachedSource) {
+    return cachedConfig;
+  }
+  cachedSource = source;
+  cachedConfig = {};
+  if (!source) {
+    return cachedConfig;
+  }
+
+  try {
+    const parsed = JSON.parse(source) as Record<string, unknown>;
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      console.warn('[Quotas] QUOTA_LIMITS is not a JSON object; quotas disabled.');
+      return cachedConfig;
+    }
+    cachedConfig = Object.fromEntries(Object.entries(parsed).map(([key, limits]) => [key, normalizeLimits(limits)]));
+  } catch (error) {
+    console.warn('[Quotas] Failed to parse QUOTA_LIMITS; quotas disabled.', error);
+  }
+  return cachedConfig;
+}
+
+/**
+ * Per-identifier entries override the "default" entry field by field. The admin identifier
+ * is unlimited unless it has an entry of its own.
+ */
+export function getQuotaLimits(identifier: string): QuotaLimits | null {
+  const config = getQuotaConfig();
+  const own = config[identifier];
+  if (!own && identifier === ADMIN_IDENTIFIER) {
+    return null;
+  }
+  const fallback = config[DEFAULT_KEY];
+  if (!own && !fallback) {
+    return null;
+  }
+  const merged: QuotaLimits = { ...fallback };
+  (Object.keys(own ?? {}) as Array<keyof QuotaLimits>).forEach((key) => {
+    if (own?.[key] !== undefined) {
+      merged[key] = own[key];
+    }
+  });
+  return merged;
+}
+
+const dayKey = (now: number) => new Date(now).toISOString().slice(0, 10);
+const nextDayStart = (now: number) => Math.floor(now / DAY_MS) * DAY_MS + DAY_MS;
+const secondsUntil = (timestamp: number, now: number) => Math.max(1, Math.ceil((timestamp - now) / 1000));
+
+const tokensKey = (identifier: string, now: number) => `tokens:${identifier}:${dayKey(now)}`;
+const costKey = (identifier: string, now: number) => `cost:${identifier}:${dayKey(now)}`;
+
+/** Checks row, budget, and rate limits in that order; allowed requests count toward the per-minute window. */
+export async function enforceQuota(
+  identifier: string,
+  request: QuotaRequest,
+  { store = getQuotaStore(), now = Date.now(), dailyUsage }: EnforceQuotaOptions = {}
+): Promise<QuotaDecision> {
+  const limits = getQuotaLimits(identifier);
+  if (!limits) {
+    return { allowed: true, headers: {} };
+  }
+
+  const headers: Record<string, string> = {};
+  const reject = (message: string, retryAt?: number): QuotaDecision => {
+    const retryAfterSeconds = retryAt ? secondsUntil(retryAt, now) : undefined;
+    if (retryAfterSeconds) {
+      headers['Retry-After'] = String(retryAfterSeconds);
+    }
+    return { allowed: false, message, retryAfterSeconds, headers };
+  };
+
+  if (limits.maxDataRows) {
+    headers['X-Quota-Max-Rows'] = String(limits.maxDataRows);
+    if (request.requestedRows !== undefined && request.requestedRows > limits.maxDataRows) {
+      return reject(`Requested ${request.requestedRows} rows exceeds your limit of ${limits.maxDataRows} rows per request.`);
+    }
+  }
+
+  const dayEnd = nextDayStart(now);
+  if (limits.dailyTokenBudget) {
+    const used = dailyUsage?.tokens ?? (await store.get(tokensKey(identifier, now), now));
+    const remaining = Math.max(0, limits.dailyTokenBudget - used);
+    headers['X-Quota-Tokens-Remaining'] = String(remaining);
+    if (request.consumesBudget && remaining <= 0) {
+      return reject(`Daily token budget of ${limits.dailyTokenBudget} tokens is used up.`, dayEnd);
+    }
+  }
+  if (limits.dailyCostBudgetUsd) {
+    const spent = dailyUsage?.costUsd ?? (await store.get(costKey(identifier, now), now));
+    const remaining = Math.max(0, limits.dailyCostBudgetUsd - spent);
+    headers['X-Quota-Cost-Remaining'] = remaining.toFixed(4);
+    if (request.consumesBudget && remaining <= 0) {
+      return reject(`Daily cost budget of $${limits.dailyCostBudgetUsd} is used up.`, dayEnd);
+    }
+  }
+
+  if (limits.requestsPerMinute) {
+    const windowStart = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+    const windowEnd = windowStart + MINUTE_MS;
+    const count = await store.increment(`rpm:${identifier}:${windowStart}`, 1, windowEnd, now);
+    headers['X-RateLimit-Limit'] = String(limits.requestsPerMinute);
+    headers['X-RateLimit-Remaining'] = String(Math.max(0, limits.requestsPerMinute - count));
+    headers['X-RateLimit-Reset'] = String(Math.ceil(windowEnd / 1000));
+    if (count > limits.requestsPerMinute) {
+      return reject(`Rate limit of ${limits.requestsPerMinute} requests per minute exceeded.`, windowEnd);
+    }
+  }
+
+  return { allowed: true, headers };
+}
+
+/** Whether the identifier has a token or cost budget, i.e. whether enforceQuota needs its daily usage. */
+export function hasDailyBudget(identifier: string): boolean {
+  const limits = getQuotaLimits(identifier);
+  return Boolean(limits?.dailyTokenBudget || limits?.dailyCostBudgetUsd);
+}
+
+export async function getDailyUsage(
+  identifier: string,
+  { store = getQuotaStore(), now = Date.now() }: QuotaOptions = {}
+): Promise<DailyUsage> {
+  const [tokens, costUsd] = await Promise.all([
+    store.get(tokensKey(identifier, now), now),
+    store.get(costKey(identifier, now), now),
+  ]);
+  return { tokens, costUsd };
+}
+
+/** Adds model usage to today's token and cost counters for identifiers with a budget. */
+export async function recordQuotaUsage(
+  identifier: string,
+  usage: TokenUsage,
+  { store = getQuotaStore(), now = Date.now() }: QuotaOptions = {}
+): Promise<void> {
+  const limits = getQuotaLimits(identifier);
+  if (!limits) {
+    return;
+  }
+  const expiresAt = nextDayStart(now);
+  if (limits.dailyTokenBudget && usage.totalTokens > 0) {
+    await store.increment(tokensKey(identifier, now), usage.totalTokens, expiresAt, now);
+  }
+  if (limits.dailyCostBudgetUsd && usage.costUsd) {
+    await store.increment(costKey(identifier, now), usage.costUsd, expiresAt, now);
+  }
+}
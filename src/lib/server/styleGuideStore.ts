@@ -0,0 +1,94 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { GlossaryTerm, QAStyleGuide, StyleGuideRule } from '@/lib/types';
+import { getServiceSupabaseClient } from './supabaseClient';
+
+const STORE_DIR = path.join(process.cwd(), 'data');
+const STORE_PATH = path.join(STORE_DIR, 'style-guides.json');
+const TABLE_NAME = 'qa_style_guides';
+
+interface StyleGuideStore {
+  [teamId: string]: QAStyleGuide;
+}
+
+async function readStore(): Promise<StyleGuideStore> {
+  try {
+    const data = await fs.readFile(STORE_PATH, 'utf8');
+    try {
+      return JSON.parse(data) as StyleGuideStore;
+    } catch (parseError) {
+      if (parseError instanceof SyntaxError) {
+        console.warn('[styleGuideStore] Detected corrupt style guide store. Creating fresh store.', parseError);
+        return {};
+      }
+      throw parseError;
+    }
+  } catch (error: any) {
+    if (error && error.code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+}
+
+async function writeStore(store: StyleGuideStore): Promise<void> {
+  await fs.mkdir(STORE_DIR, { recursive: true });
+  await fs.writeFile(STORE_PATH, JSON.stringify(store, null, 2), 'utf8');
+}
+
+export async function loadStyleGuide(teamId: string): Promise<QAStyleGuide | null> {
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('guide')
+      .eq('team_id', teamId)
+      .maybeSingle();
+
+    if (error) {
+      console.warn('[styleGuideStore] Failed to fetch style guide from Supabase', { teamId, error });
+      return null;
+    }
+    return (data?.guide as QAStyleGuide | undefined) ?? null;
+  }
+
+  const store = await readStore();
+  return store[teamId] ?? null;
+}
+
+export async function saveStyleGuide(
+  teamId: string,
+  content: { rules: StyleGuideRule[]; glossary: GlossaryTerm[] },
+  updatedBy: string
+): Promise<QAStyleGuide> {
+  const guide: QAStyleGuide = { teamId, ...content, updatedBy, updatedAt: new Date().toISOString() };
+
+  const supabase = getServiceSupabaseClient();
+  if (supabase) {
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .upsert({ team_id: teamId, guide, updated_at: guide.updatedAt }, { onConflict: 'team_id' });
+    if (error) {
+      throw error;
+    }
+    return guide;
+  }
+
+  const store = await readStore();
+  store[teamId] = guide;
+  await writeStore(store);
+  return guide;
+}
+
+/** Style guide for the requesting team, or null when there is no team or the lookup fails. */
+export async function loadStyleGuideForTeam(teamId?: string | null): Promise<QAStyleGuide | null> {
+  if (!teamId) {
+    return null;
+  }
+  try {
+    return await loadStyleGuide(teamId);
+  } catch (error) {
+    console.warn('[styleGuideStore] Failed to load style guide; generating without it', { teamId, error });
+    return null;
+  }
+}
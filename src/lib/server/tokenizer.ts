@@ -28,12 +28,47 @@ const MODEL_CONTEXT_WINDOWS = {
   'gemini:gemini-flash-lite-latest': 1_000_000,
   'openrouter:openrouter/auto': 128_000,
   'openrouter:openai/gpt-4o-mini': 128_000,
+  'anthropic:claude-sonnet-4-5': 200_000,
+  'anthropic:claude-opus-4-1': 200_000,
+  'anthropic:claude-sonnet-4-0': 200_000,
+  'anthropic:claude-3-7-sonnet-latest': 200_000,
+  'anthropic:claude-3-5-haiku-latest': 200_000,
+};
+
+// USD per 1M tokens. Override or extend with MODEL_PRICING='{"openai:gpt-4o":{"input":2.5,"output":10}}'.
+const MODEL_PRICING = {
+  'openai:gpt-4o': { input: 2.5, output: 10 },
+  'openai:gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai:gpt-4.1': { input: 2, output: 8 },
+  'openai:gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'openai:gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'openai:o3-mini': { input: 1.1, output: 4.4 },
+  'openai:gpt-5-thinking': { input: 1.25, output: 10 },
+  'openai:gpt-5-thinking-mini': { input: 0.25, output: 2 },
+  'openai:gpt-5-thinking-nano': { input: 0.05, output: 0.4 },
+  'gemini:gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini:gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini:gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini:gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini:gemini-1.5-pro-latest': { input: 1.25, output: 5 },
+  'gemini:gemini-1.5-flash-latest': { input: 0.075, output: 0.3 },
+  'gemini:gemini-flash-latest': { input: 0.3, output: 2.5 },
+  'gemini:gemini-flash-lite-latest': { input: 0.1, output: 0.4 },
+  'openrouter:openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'anthropic:claude-sonnet-4-5': { input: 3, output: 15 },
+  'anthropic:claude-opus-4-1': { input: 15, output: 75 },
+  'anthropic:claude-sonnet-4-0': { input: 3, output: 15 },
+  'anthropic:claude-3-7-sonnet-latest': { input: 3, output: 15 },
+  'anthropic:claude-3-5-haiku-latest': { input: 0.8, output: 4 },
 };
 
 const PROVIDER_DEFAULT_CONTEXT = {
   openai: 128_000,
   gemini: 1_000_000,
   openrouter: 128_000,
+  local: 8_192,  // Conservative default for self-hosted models; see LOCAL_LLM_CONTEXT_WINDOW(S)
+  anthropic: 200_000,
+  azure: 128_000,  // Deployment names are arbitrary, so Azure never matches a model-specific entry
 };
 
 const LOWERCASE_MODEL_ENCODING_MAP = Object.fromEntries(
@@ -77,10 +112,64 @@ export function countTokenChunks(texts, model) {
   return texts.reduce((total, text) => total + (text ? counter(text) : 0), 0);
 }
 
+// Self-hosted models are served with whatever context the operator configured, so it comes from the environment:
+// LOCAL_LLM_CONTEXT_WINDOWS='{"llama3.1":32768}' per model, LOCAL_LLM_CONTEXT_WINDOW as the fallback.
+function readLocalContextWindow(model) {
+  const raw = process.env.LOCAL_LLM_CONTEXT_WINDOWS;
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw);
+      const entry = parsed?.[model ?? ''] ?? parsed?.[(model ?? '').toLowerCase()];
+      if (Number.isFinite(entry) && entry > 0) {
+        return entry;
+      }
+    } catch (error) {
+      console.warn('[tokenizer] Ignoring invalid LOCAL_LLM_CONTEXT_WINDOWS JSON', error);
+    }
+  }
+  const fallback = Number(process.env.LOCAL_LLM_CONTEXT_WINDOW);
+  return Number.isFinite(fallback) && fallback > 0 ? fallback : null;
+}
+
 export function getContextWindow(provider, model) {
+  if (provider === 'local') {
+    return readLocalContextWindow(model) ?? PROVIDER_DEFAULT_CONTEXT.local;
+  }
   const specific = MODEL_CONTEXT_WINDOWS[normaliseModelKey(provider, model)];
   if (specific) {
     return specific;
   }
   return PROVIDER_DEFAULT_CONTEXT[provider] ?? null;
 }
+
+function readPricingOverrides() {
+  const raw = process.env.MODEL_PRICING;
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (error) {
+    console.warn('[tokenizer] Ignoring invalid MODEL_PRICING JSON', error);
+    return {};
+  }
+}
+
+export function getModelPricing(provider, model) {
+  const key = normaliseModelKey(provider, model);
+  const override = readPricingOverrides()[key];
+  if (override && Number.isFinite(override.input) && Number.isFinite(override.output)) {
+    return { input: override.input, output: override.output };
+  }
+  return MODEL_PRICING[key] ?? null;
+}
+
+/** Returns the estimated USD cost, or null when the model has no price entry. */
+export function estimateCostUsd(provider, model, promptTokens, completionTokens) {
+  const pricing = getModelPricing(provider, model);
+  if (!pricing) {
+    return null;
+  }
+  return ((promptTokens ?? 0) * pricing.input + (completionTokens ?? 0) * pricing.output) / 1_000_000;
+}
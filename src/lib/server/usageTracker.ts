@@ -1,3 +1,5 @@
+import type { TokenUsage } from '@/lib/types';
+import { recordQuotaUsage } from './quotas';
 import { getServiceSupabaseClient } from './supabaseClient';
 
 interface UsageEvent {
@@ -6,10 +8,19 @@ interface UsageEvent {
   provider?: string | null;
   model?: string | null;
   priorityMode?: string | null;
+  usage?: TokenUsage;  // Stored under metadata.usage
   metadata?: Record<string, any>;
 }
 
 export async function recordUsage(event: UsageEvent): Promise<void> {
+  if (event.usage && event.userIdentifier) {
+    try {
+      await recordQuotaUsage(event.userIdentifier, event.usage);
+    } catch (error) {
+      console.warn('[UsageTracker] Failed to update quota counters', error);
+    }
+  }
+
   const client = getServiceSupabaseClient();
   if (!client) {
     console.warn('[UsageTracker] Supabase client unavailable; skipping usage log');
@@ -34,7 +45,7 @@ export async function recordUsage(event: UsageEvent): Promise<void> {
       provider: event.provider ?? null,
       model: event.model ?? null,
       priority_mode: event.priorityMode ?? null,
-      metadata: event.metadata ?? {},
+      metadata: event.usage ? { ...event.metadata, usage: event.usage } : event.metadata ?? {},
     });
     if (error) {
       console.warn('[UsageTracker] Supabase insert returned error', error);
@@ -52,6 +63,7 @@ export interface UsageRow {
   provider: string | null;
   model: string | null;
   priority_mode: string | null;
+  metadata: Record<string, any> | null;
   happened_at: string;
 }
 
@@ -63,7 +75,7 @@ export async function fetchUsageRows(limit = 2000, userIdentifier?: string): Pro
 
   const query = client
     .from('usage_events')
-    .select('user_identifier, feature, provider, model, priority_mode, happened_at')
+    .select('user_identifier, feature, provider, model, priority_mode, metadata, happened_at')
     .order('happened_at', { ascending: false })
     .limit(limit);
 
@@ -0,0 +1,40 @@
+/** @jest-environment node */
+
+import { generateObject, type LanguageModelV1, type LanguageModelV1CallOptions } from 'ai';
+import { z } from 'zod';
+import { withTextJsonFallback } from '../localModel';
+
+describe('withTextJsonFallback', () => {
+  it('sends object calls as plain completions with the schema in the prompt', async () => {
+    const calls: LanguageModelV1CallOptions[] = [];
+    const localModel: LanguageModelV1 = {
+      specificationVersion: 'v1',
+      provider: 'local.chat',
+      modelId: 'llama3.1',
+      defaultObjectGenerationMode: 'json',
+      doGenerate: async (options) => {
+        calls.push(options);
+        return {
+          text: '{"title":"Login succeeds"}',
+          finishReason: 'stop',
+          usage: { promptTokens: 20, completionTokens: 6 },
+          rawCall: { rawPrompt: null, rawSettings: {} },
+        };
+      },
+      doStream: async () => {
+        throw new Error('not used');
+      },
+    };
+
+    const { object } = await generateObject({
+      model: withTextJsonFallback(localModel),
+      schema: z.object({ title: z.string() }),
+      prompt: 'Write one test case title',
+    });
+
+    expect(object).toEqual({ title: 'Login succeeds' });
+    expect(calls).toHaveLength(1);
+    expect(calls[0].mode.type).toBe('regular');
+    expect(calls[0].prompt[0]).toMatchObject({ role: 'system', content: expect.stringContaining('JSON schema') });
+  });
+});
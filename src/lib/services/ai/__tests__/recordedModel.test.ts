@@ -0,0 +1,85 @@
+/** @jest-environment node */
+
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateText, type LanguageModelV1 } from 'ai';
+import { createReplayModel, RecordingNotFoundError, withRecording } from '../recordedModel';
+
+const RECORDINGS_DIR = path.join(__dirname, '__recordings__');
+
+const liveModel = (text: string): LanguageModelV1 => ({
+  specificationVersion: 'v1',
+  provider: 'test.chat',
+  modelId: 'test-model',
+  defaultObjectGenerationMode: 'json',
+  doGenerate: async () => ({
+    text,
+    finishReason: 'stop',
+    usage: { promptTokens: 12, completionTokens: 4 },
+    rawCall: { rawPrompt: null, rawSettings: {} },
+  }),
+  doStream: async () => {
+    throw new Error('not used');
+  },
+});
+
+describe('recorded models', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(os.tmpdir(), 'recordings-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('replays a recorded response for the same prompt', async () => {
+    const recorded = await generateText({ model: withRecording(liveModel('recorded answer'), { dir: tempDir }), prompt: 'Ping' });
+    expect(recorded.text).toBe('recorded answer');
+    expect(readdirSync(tempDir)).toHaveLength(1);
+
+    const replayed = await generateText({ model: createReplayModel({ dir: tempDir }), prompt: 'Ping' });
+    expect(replayed.text).toBe('recorded answer');
+    expect(replayed.usage.totalTokens).toBe(16);
+  });
+
+  it('fails with the prompt hash when nothing was recorded', async () => {
+    await expect(generateText({ model: createReplayModel({ dir: tempDir }), prompt: 'Unknown' })).rejects.toBeInstanceOf(
+      RecordingNotFoundError
+    );
+  });
+});
+
+describe('replay mode', () => {
+  const originalMode = process.env.AI_RECORDING_MODE;
+  const originalDir = process.env.AI_RECORDINGS_DIR;
+
+  afterEach(() => {
+    if (originalMode === undefined) {
+      delete process.env.AI_RECORDING_MODE;
+    } else {
+      process.env.AI_RECORDING_MODE = originalMode;
+    }
+    if (originalDir === undefined) {
+      delete process.env.AI_RECORDINGS_DIR;
+    } else {
+      process.env.AI_RECORDINGS_DIR = originalDir;
+    }
+  });
+
+  // The committed fixture is hand-written in the recording format (`"synthetic": true`), not captured from a model
+  it('runs the SQL assistant offline from a recording', async () => {
+    process.env.AI_RECORDING_MODE = 'replay';
+    process.env.AI_RECORDINGS_DIR = RECORDINGS_DIR;
+    const { createAIService } = await import('../factory');
+    const { SQLAIService } = await import('../sql');
+
+    const service = new SQLAIService(createAIService('openai'));
+    const result = await service.generateSQLQuery({ description: 'Count orders per customer', targetDialect: 'PostgreSQL' });
+
+    expect(result.query).toContain('LEFT JOIN orders o ON o.customer_id = c.id');
+    expect(result.explanation).toMatch(/customers without orders/);
+  });
+});
@@ -48,6 +48,22 @@ describe('TestDataGeneratorService - Copycat integration', () => {
     });
   });
 
+  it('leaves roughly nullPercent of a field null, the same rows for the same seed', async () => {
+    const nullableFields: FieldDefinition[] = [
+      { id: 'uuid', name: 'id', type: 'UUID', options: {} },
+      { id: 'nick', name: 'nickname', type: 'First Name', options: { nullPercent: 50 } },
+    ];
+
+    const firstRun = await service.generateTestDataFromFields({ fields: nullableFields, count: 200, seed: 'seed-null' });
+    const secondRun = await service.generateTestDataFromFields({ fields: nullableFields, count: 200, seed: 'seed-null' });
+    const nulls = firstRun.data.filter((row) => row.nickname === null).length;
+
+    expect(firstRun.data).toEqual(secondRun.data);
+    expect(nulls).toBeGreaterThan(60);
+    expect(nulls).toBeLessThan(140);
+    expect(firstRun.data.every((row) => typeof row.id === 'string')).toBe(true);
+  });
+
   it('samples from custom list values', async () => {
     const listFields: FieldDefinition[] = [
       { id: 'list', name: 'flavor', type: 'Custom List', options: { values: 'vanilla, chocolate, strawberry' } },
@@ -207,4 +223,68 @@ describe('TestDataGeneratorService - Copycat integration', () => {
       ])
     );
   });
+
+  it('generates related tables whose foreign keys match parent keys', async () => {
+    const result = await service.generateRelationalData({
+      seed: 'seed-relational',
+      tables: [
+        {
+          id: 'orders',
+          name: 'orders',
+          rowCount: 0,
+          fields: [
+            { id: 'o1', name: 'id', type: 'Row Number', options: { start: 100 } },
+            {
+              id: 'o2',
+              name: 'customer_id',
+              type: 'Foreign Key',
+              options: { table: 'customers', column: 'id', minChildren: 1, maxChildren: 2 },
+            },
+          ],
+        },
+        {
+          id: 'customers',
+          name: 'customers',
+          rowCount: 4,
+          fields: [
+            { id: 'c1', name: 'id', type: 'Row Number', options: { start: 1 } },
+            { id: 'c2', name: 'firstName', type: 'First Name', options: {} },
+          ],
+        },
+      ],
+    });
+
+    expect(result.tables.map((table) => table.name)).toEqual(['customers', 'orders']);
+    const [customers, orders] = result.tables;
+    const customerIds = customers.data.map((row) => row.id);
+    expect(customerIds).toEqual([1, 2, 3, 4]);
+    expect(orders.count).toBeGreaterThanOrEqual(4);
+    expect(orders.count).toBeLessThanOrEqual(8);
+    orders.data.forEach((row) => {
+      expect(customerIds).toContain(row.customer_id);
+    });
+    expect(Object.keys(orders.data[0])).toEqual(['id', 'customer_id']);
+  });
+
+  it('rejects tables that reference each other in a cycle', async () => {
+    const result = await service.generateRelationalData({
+      tables: [
+        {
+          id: 'a',
+          name: 'a',
+          rowCount: 1,
+          fields: [{ id: 'a1', name: 'b_id', type: 'Foreign Key', options: { table: 'b', column: 'a_id' } }],
+        },
+        {
+          id: 'b',
+          name: 'b',
+          rowCount: 1,
+          fields: [{ id: 'b1', name: 'a_id', type: 'Foreign Key', options: { table: 'a', column: 'b_id' } }],
+        },
+      ],
+    });
+
+    expect(result.tables).toEqual([]);
+    expect(result.error).toContain('cycle');
+  });
 });
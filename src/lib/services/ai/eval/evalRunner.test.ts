@@ -0,0 +1,91 @@
+/** @jest-environment node */
+
+import { compareEvalReports, EvalFixture, runEvalSuite, scoreEvalRun } from './evalRunner';
+
+jest.mock('../vercelClient', () => ({
+  resolveLanguageModel: jest.fn(() => {
+    throw new Error('Evals with mock configs must not resolve a provider model');
+  }),
+}));
+
+const fixture: EvalFixture = {
+  id: 'login',
+  request: {
+    requirements: 'Users sign in with email and password.\nLocked accounts see an unlock message.',
+    mode: 'detailed',
+    priorityMode: 'comprehensive',
+  },
+  expectedKeywords: ['password', 'locked', 'biometric'],
+};
+
+describe('runEvalSuite', () => {
+  it('scores a mock run without calling a provider', async () => {
+    const report = await runEvalSuite([fixture], { name: 'mock', mock: true, provider: 'gemini' });
+    const { scores } = report.results[0];
+
+    expect(scores.error).toBeUndefined();
+    expect(scores.schemaValidity).toBe(1);
+    expect(scores.caseCount).toBe(4);
+    expect(scores.estimatedCases).toBe(4);
+    expect(scores.caseCountRatio).toBe(1);
+    expect(scores.keywordCoverage).toBeCloseTo(0.667);
+    expect(scores.missingKeywords).toEqual(['biometric']);
+    expect(scores.totalTokens).toBeGreaterThan(0);
+    expect(report.averages.caseCount).toBe(4);
+  });
+
+  it('serves recorded stage responses before synthesizing output', async () => {
+    const recorded: EvalFixture = {
+      ...fixture,
+      responses: {
+        planner: [{ items: [{ id: 'PLAN-1', title: 'Sign in', area: 'Auth', focus: 'Sign in with a password', estimatedCases: 5 }] }],
+        reviewer: [{
+          feedback: [{ caseId: 'PLAN-1-1', issueType: 'coverage-gap', severity: 'major', summary: 'Locked accounts', suggestion: 'Add it' }],
+          summary: 'Gap',
+        }],
+      },
+    };
+
+    const report = await runEvalSuite([recorded], { name: 'recorded', mock: true, provider: 'gemini' });
+
+    expect(report.results[0].scores.estimatedCases).toBe(5);
+    expect(report.results[0].scores.reviewerBlocking).toBe(1);
+  });
+});
+
+describe('scoreEvalRun', () => {
+  it('counts failed writer slices against schema validity', () => {
+    const scores = scoreEvalRun(
+      fixture,
+      {
+        testCases: [],
+        plan: [{ id: 'PLAN-1', title: 'A', area: 'A' }, { id: 'PLAN-2', title: 'B', area: 'B' }],
+        incompleteSliceIds: ['PLAN-2'],
+      },
+      10
+    );
+
+    expect(scores.schemaValidity).toBe(0.5);
+    expect(scores.caseCountRatio).toBeNull();
+    expect(scores.keywordCoverage).toBe(0);
+  });
+});
+
+describe('compareEvalReports', () => {
+  it('marks improvements and regressions per metric', () => {
+    const base = { schemaValidity: 1, caseCount: 4, estimatedCases: 4, caseCountRatio: 1, duplicateRate: 0.25, keywordCoverage: 0.5, missingKeywords: [], reviewerBlocking: 0, totalTokens: 100, durationMs: 5 };
+    const markdown = compareEvalReports(
+      { config: 'a', startedAt: '', results: [{ fixtureId: 'login', scores: base }], averages: { keywordCoverage: 0.5, duplicateRate: 0.25 } },
+      {
+        config: 'b',
+        startedAt: '',
+        results: [{ fixtureId: 'login', scores: { ...base, keywordCoverage: 1, duplicateRate: 0.5 } }],
+        averages: { keywordCoverage: 1, duplicateRate: 0.5 },
+      }
+    );
+
+    expect(markdown).toContain('| Keyword coverage | 0.5 | 1 | +0.5 ▲ |');
+    expect(markdown).toContain('| Duplicate rate | 0.25 | 0.5 | +0.25 ▼ |');
+    expect(markdown).toContain('## login');
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  AgenticGenerationOptions,
+  LLMProvider,
+  PromptTemplateSet,
+  TestCase,
+  TestCaseGenerationRequest,
+  TestCaseGenerationResponse,
+} from '@/lib/types';
+import { findDuplicateClusters } from '@/lib/utils/duplicateClusters';
+import { testCaseText } from '@/lib/utils/similarity';
+import { LanguageModelResolver, TestCaseAgenticPipeline } from '../pipeline/testCasePipeline';
+import { resolveLanguageModel } from '../vercelClient';
+import { createFixtureModel } from './fixtureModel';
+
+export interface EvalFixture {
+  id: string;
+  description?: string;
+  request: Pick<TestCaseGenerationRequest, 'requirements' | 'mode' | 'priorityMode'> &
+    Partial<Pick<TestCaseGenerationRequest, 'selectedScenarios' | 'existingTestCases'>>;
+  expectedKeywords: string[];
+  responses?: {  // Recorded model output per stage, served in order by the mock model
+    planner?: unknown[];
+    writer?: unknown[];
+    reviewer?: unknown[];
+  };
+}
+
+/** One side of a comparison: a model, a set of prompt overrides, or pipeline options. */
+export interface EvalConfig {
+  name: string;
+  mock?: boolean;  // Serve fixture responses instead of calling the provider
+  provider?: LLMProvider;
+  model?: string;
+  promptTemplates?: PromptTemplateSet;
+  agenticOptions?: AgenticGenerationOptions;
+}
+
+export interface EvalScores {
+  schemaValidity: number;  // Share of plan items whose writer output passed the case schema
+  caseCount: number;
+  estimatedCases: number;
+  caseCountRatio: number | null;  // Cases written vs. the planner's estimatedCases
+  duplicateRate: number;
+  keywordCoverage: number;
+  missingKeywords: string[];
+  reviewerBlocking: number;
+  totalTokens: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface EvalFixtureResult {
+  fixtureId: string;
+  scores: EvalScores;
+}
+
+export type EvalMetric = Exclude<keyof EvalScores, 'missingKeywords' | 'error'>;
+
+export interface EvalReport {
+  config: string;
+  startedAt: string;
+  results: EvalFixtureResult[];
+  averages: Partial<Record<EvalMetric, number>>;
+}
+
+export const EVAL_METRICS: Array<{ key: EvalMetric; label: string; higherIsBetter: boolean }> = [
+  { key: 'schemaValidity', label: 'Schema validity', higherIsBetter: true },
+  { key: 'caseCount', label: 'Cases', higherIsBetter: true },
+  { key: 'caseCountRatio', label: 'Cases / estimated', higherIsBetter: true },
+  { key: 'duplicateRate', label: 'Duplicate rate', higherIsBetter: false },
+  { key: 'keywordCoverage', label: 'Keyword coverage', higherIsBetter: true },
+  { key: 'reviewerBlocking', label: 'Reviewer blocking', higherIsBetter: false },
+  { key: 'totalTokens', label: 'Tokens', higherIsBetter: false },
+  { key: 'durationMs', label: 'Duration (ms)', higherIsBetter: false },
+];
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const searchableText = (testCase: TestCase) => {
+  const record = testCase as unknown as Record<string, unknown>;
+  const preconditions = Array.isArray(record.preconditions) ? record.preconditions.join(' ') : '';
+  return `${testCaseText(testCase)} ${testCase.description ?? ''} ${preconditions}`.toLowerCase();
+};
+
+export function scoreEvalRun(fixture: EvalFixture, response: TestCaseGenerationResponse, durationMs: number): EvalScores {
+  const testCases = response.testCases ?? [];
+  const plan = response.plan ?? [];
+  const estimatedCases = plan.reduce((sum, item) => sum + (item.estimatedCases ?? 0), 0);
+  const failedSlices = response.incompleteSliceIds?.length ?? 0;
+  const duplicates = (response.duplicateClusters ?? findDuplicateClusters(testCases)).reduce(
+    (sum, cluster) => sum + cluster.caseIds.length - 1,
+    0
+  );
+  const texts = testCases.map(searchableText);
+  const missingKeywords = fixture.expectedKeywords.filter(
+    (keyword) => !texts.some((text) => text.includes(keyword.toLowerCase()))
+  );
+
+  return {
+    schemaValidity: plan.length ? round((plan.length - failedSlices) / plan.length) : testCases.length ? 1 : 0,
+    caseCount: testCases.length,
+    estimatedCases,
+    caseCountRatio: estimatedCases ? round(testCases.length / estimatedCases) : null,
+    duplicateRate: testCases.length ? round(duplicates / testCases.length) : 0,
+    keywordCoverage: fixture.expectedKeywords.length
+      ? round((fixture.expectedKeywords.length - missingKeywords.length) / fixture.expectedKeywords.length)
+      : 1,
+    missingKeywords,
+    reviewerBlocking: (response.telemetry?.reviewPasses ?? []).reduce((sum, pass) => sum + pass.blockingCount, 0),
+    totalTokens: response.telemetry?.usage?.totalTokens ?? 0,
+    durationMs,
+  };
+}
+
+function averageScores(results: EvalFixtureResult[]): EvalReport['averages'] {
+  const scored = results.filter((result) => !result.scores.error);
+  return EVAL_METRICS.reduce<EvalReport['averages']>((averages, { key }) => {
+    const values = scored
+      .map((result) => result.scores[key])
+      .filter((value): value is number => typeof value === 'number');
+    if (values.length) {
+      averages[key] = round(values.reduce((sum, value) => sum + value, 0) / values.length);
+    }
+    return averages;
+  }, {});
+}
+
+/** Runs every fixture through the agentic pipeline with one configuration. Fixtures run one at a time. */
+export async function runEvalSuite(
+  fixtures: EvalFixture[],
+  config: EvalConfig,
+  options: { resolveModel?: LanguageModelResolver; onResult?: (result: EvalFixtureResult) => void } = {}
+): Promise<EvalReport> {
+  const startedAt = new Date().toISOString();
+  const results: EvalFixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const fixtureModel = config.mock ? createFixtureModel(fixture) : null;
+    const pipeline = new TestCaseAgenticPipeline(
+      fixtureModel ? () => fixtureModel : options.resolveModel ?? resolveLanguageModel
+    );
+    const request: TestCaseGenerationRequest = {
+      ...fixture.request,
+      provider: config.provider,
+      model: config.model,
+      promptTemplates: config.promptTemplates,
+      agenticOptions: { maxReviewPasses: 1, ...config.agenticOptions, enableAgentic: true, streamProgress: false },
+    };
+
+    const start = Date.now();
+    let result: EvalFixtureResult;
+    try {
+      const response = await pipeline.generate(request);
+      result = { fixtureId: fixture.id, scores: scoreEvalRun(fixture, response, Date.now() - start) };
+    } catch (error) {
+      result = {
+        fixtureId: fixture.id,
+        scores: {
+          ...scoreEvalRun(fixture, { testCases: [] }, Date.now() - start),
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+    results.push(result);
+    options.onResult?.(result);
+  }
+
+  return { config: config.name, startedAt, results, averages: averageScores(results) };
+}
+
+const formatValue = (value: number | null | undefined) => (typeof value === 'number' ? String(value) : '–');
+
+function formatDelta(baseline: number | null | undefined, candidate: number | null | undefined, higherIsBetter: boolean) {
+  if (typeof baseline !== 'number' || typeof candidate !== 'number') {
+    return '–';
+  }
+  const delta = round(candidate - baseline);
+  if (delta === 0) {
+    return '0';
+  }
+  const improved = delta > 0 === higherIsBetter;
+  return `${delta > 0 ? '+' : ''}${delta} ${improved ? '▲' : '▼'}`;
+}
+
+/** Markdown report with the averages and a per-fixture breakdown; ▲ marks an improvement for the candidate. */
+export function compareEvalReports(baseline: EvalReport, candidate: EvalReport): string {
+  const lines = [
+    `# Eval comparison: ${baseline.config} vs ${candidate.config}`,
+    '',
+    '## Averages',
+    '',
+    `| Metric | ${baseline.config} | ${candidate.config} | Delta |`,
+    '| --- | --- | --- | --- |',
+    ...EVAL_METRICS.map(
+      ({ key, label, higherIsBetter }) =>
+        `| ${label} | ${formatValue(baseline.averages[key])} | ${formatValue(candidate.averages[key])} | ${formatDelta(
+          baseline.averages[key],
+          candidate.averages[key],
+          higherIsBetter
+        )} |`
+    ),
+  ];
+
+  baseline.results.forEach((baselineResult) => {
+    const candidateResult = candidate.results.find((result) => result.fixtureId === baselineResult.fixtureId);
+    lines.push('', `## ${baselineResult.fixtureId}`, '');
+    if (baselineResult.scores.error) {
+      lines.push(`${baseline.config} failed: ${baselineResult.scores.error}`, '');
+    }
+    if (candidateResult?.scores.error) {
+      lines.push(`${candidate.config} failed: ${candidateResult.scores.error}`, '');
+    }
+    lines.push(
+      `| Metric | ${baseline.config} | ${candidate.config} | Delta |`,
+      '| --- | --- | --- | --- |',
+      ...EVAL_METRICS.map(({ key, label, higherIsBetter }) => {
+        const before = baselineResult.scores[key];
+        const after = candidateResult?.scores[key];
+        return `| ${label} | ${formatValue(before)} | ${formatValue(after)} | ${formatDelta(before, after, higherIsBetter)} |`;
+      })
+    );
+    const missing = candidateResult?.scores.missingKeywords ?? [];
+    if (missing.length) {
+      lines.push('', `Keywords missing for ${candidate.config}: ${missing.join(', ')}`);
+    }
+  });
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,154 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1Prompt } from 'ai';
+import { TestCaseMode } from '@/lib/types';
+import type { EvalFixture } from './evalRunner';
+
+type EvalStage = 'planner' | 'writer' | 'reviewer' | 'single-shot';
+
+const MAX_PLAN_ITEMS = 5;
+
+const promptText = (prompt: LanguageModelV1Prompt) =>
+  prompt
+    .map((message) =>
+      typeof message.content === 'string'
+        ? message.content
+        : message.content.map((part) => ('text' in part ? part.text : '')).join('\n')
+    )
+    .join('\n\n');
+
+/** Follows a key path through a JSON schema, returning undefined where the shape does not match. */
+const schemaAt = (schema: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>(
+    (node, key) => (typeof node === 'object' && node !== null && key in node ? (node as Record<string, unknown>)[key] : undefined),
+    schema
+  );
+
+/** JSON mode passes the response schema along, which identifies the stage even when a team overrides the prompts. */
+function detectStage(options: LanguageModelV1CallOptions, text: string): EvalStage {
+  if (options.mode.type === 'object-json') {
+    const { schema } = options.mode;
+    if (schemaAt(schema, 'properties', 'feedback')) {
+      return 'reviewer';
+    }
+    return schemaAt(schema, 'properties', 'items', 'items', 'properties', 'estimatedCases') ? 'planner' : 'writer';
+  }
+  // Text mode: the planner fallback always appends its field list; anything else is single-shot generation.
+  return text.includes('estimatedCases') ? 'planner' : 'single-shot';
+}
+
+const requirementStatements = (requirements: string) =>
+  requirements
+    .split(/\n+|\.\s+/)
+    .map((statement) => statement.replace(/^[-*\d.)\s]+/, '').trim())
+    .filter((statement) => statement.length > 10);
+
+const titleFrom = (statement: string) => statement.split(/\s+/).slice(0, 6).join(' ').replace(/[.,;:]$/, '');
+
+function buildCase(mode: TestCaseMode, id: string, area: string, title: string, focus: string) {
+  switch (mode) {
+    case 'high-level':
+      return { id, title, area, scenario: focus, description: focus, requirementIds: [] };
+    case 'gherkin':
+      return {
+        id,
+        title,
+        area,
+        feature: area,
+        description: focus,
+        scenarioType: 'scenario',
+        tags: [],
+        background: [],
+        steps: [
+          { keyword: 'Given', text: `the ${area} feature is available` },
+          { keyword: 'When', text: focus },
+          { keyword: 'Then', text: 'the outcome matches the requirement' },
+        ],
+        requirementIds: [],
+      };
+    case 'detailed':
+    default:
+      return {
+        id,
+        title,
+        area,
+        description: focus,
+        preconditions: [],
+        testData: [],
+        steps: [{ number: 1, description: focus }],
+        expectedResult: 'The outcome matches the requirement',
+        requirementIds: [],
+      };
+  }
+}
+
+function synthesize(stage: EvalStage, fixture: EvalFixture, text: string): unknown {
+  const mode = fixture.request.mode;
+  const statements = requirementStatements(fixture.request.requirements);
+
+  switch (stage) {
+    case 'planner':
+      return {
+        items: statements.slice(0, MAX_PLAN_ITEMS).map((statement, index) => ({
+          id: `PLAN-${index + 1}`,
+          title: titleFrom(statement),
+          area: titleFrom(statement),
+          focus: statement.slice(0, 160),
+          estimatedCases: 2,
+          chunkRefs: [],
+          notes: '',
+        })),
+      };
+    case 'writer': {
+      const planItem = text.match(/Plan item: (\S+) - (.+?) \((.+?)\)\. Focus: (.*)/);
+      const [planId, title, area, focus] = planItem
+        ? planItem.slice(1)
+        : ['PLAN-1', titleFrom(statements[0] ?? 'General coverage'), 'General', statements[0] ?? 'General coverage'];
+      return {
+        items: [
+          buildCase(mode, `${planId}-1`, area, `${title} succeeds`, focus),
+          buildCase(mode, `${planId}-2`, area, `${title} rejects invalid input`, `Invalid input is rejected: ${focus}`),
+        ],
+      };
+    }
+    case 'reviewer':
+      return { feedback: [], summary: 'No issues found.' };
+    case 'single-shot':
+    default:
+      return statements
+        .slice(0, MAX_PLAN_ITEMS)
+        .map((statement, index) => buildCase(mode, `CASE-${index + 1}`, 'General', titleFrom(statement), statement));
+  }
+}
+
+/**
+ * Offline stand-in for a provider model. Each stage first serves the fixture's recorded responses in order,
+ * then falls back to deterministic output derived from the requirements, so evals run without API keys.
+ */
+export function createFixtureModel(fixture: EvalFixture): LanguageModelV1 {
+  const queues: Record<string, unknown[]> = {
+    planner: [...(fixture.responses?.planner ?? [])],
+    writer: [...(fixture.responses?.writer ?? [])],
+    reviewer: [...(fixture.responses?.reviewer ?? [])],
+  };
+
+  return {
+    specificationVersion: 'v1',
+    provider: 'eval-fixture',
+    modelId: `fixture:${fixture.id}`,
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(options) {
+      const text = promptText(options.prompt);
+      const stage = detectStage(options, text);
+      const recorded = stage === 'single-shot' ? undefined : queues[stage].shift();
+      const output = JSON.stringify(recorded ?? synthesize(stage, fixture, text));
+      return {
+        text: output,
+        finishReason: 'stop',
+        usage: { promptTokens: Math.ceil(text.length / 4), completionTokens: Math.ceil(output.length / 4) },
+        rawCall: { rawPrompt: text, rawSettings: {} },
+      };
+    },
+    async doStream() {
+      throw new Error('The eval fixture model does not support streaming');
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import type { LanguageModelV1, LanguageModelV1CallOptions } from 'ai';
+
+const asTextCall = (options: LanguageModelV1CallOptions): LanguageModelV1CallOptions =>
+  options.mode.type === 'regular' ? options : { ...options, mode: { type: 'regular' } };
+
+/**
+ * For local models without JSON-schema or tool support. Object calls are sent as plain completions; because the
+ * wrapper reports no structured output support, the SDK adds the schema to the prompt and parses the reply text.
+ */
+export function withTextJsonFallback(model: LanguageModelV1): LanguageModelV1 {
+  return {
+    specificationVersion: 'v1',
+    provider: model.provider,
+    modelId: model.modelId,
+    defaultObjectGenerationMode: 'json',
+    supportsStructuredOutputs: false,
+    supportsImageUrls: model.supportsImageUrls,
+    doGenerate: (options) => model.doGenerate(asTextCall(options)),
+    doStream: (options) => model.doStream(asTextCall(options)),
+  };
+}
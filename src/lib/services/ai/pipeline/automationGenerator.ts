@@ -0,0 +1,321 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import {
+  AutomationFile,
+  AutomationFramework,
+  AutomationGenerationRequest,
+  AutomationGenerationResponse,
+  DetailedTestCase,
+  TokenUsage,
+} from '@/lib/types';
+import { canResolveModel, resolveLanguageModel } from '../vercelClient';
+import { sumTokenUsage, toTokenUsage } from './tokenUsage';
+import { logAIInteraction } from '@/lib/utils/aiLogger';
+
+export const AUTOMATION_FRAMEWORKS: AutomationFramework[] = ['playwright', 'cypress', 'jest-supertest'];
+
+const AUTOMATION_BATCH_SIZE = 8;
+const DEFAULT_AREA = 'General';
+const DEFAULT_API_BASE_URL = 'http://localhost:3000';
+
+const AutomationScriptSchema = z.object({
+  caseId: z.string(),
+  fixtures: z.array(z.object({ name: z.string(), value: z.string() })).default([]),
+  steps: z
+    .array(
+      z.object({
+        number: z.number().int(),
+        code: z.array(z.string()).default([]),
+      })
+    )
+    .default([]),
+  assertions: z.array(z.string()).default([]),
+});
+
+const AutomationBatchSchema = z.object({
+  scripts: z.array(AutomationScriptSchema),
+});
+
+export type AutomationScript = z.infer<typeof AutomationScriptSchema>;
+
+interface FrameworkProfile {
+  label: string;
+  specPath: (slug: string) => string;
+  fixturePath: (slug: string) => string;
+  fixtureImport: (slug: string) => string;
+  imports: string[];
+  setup: (baseUrl?: string) => string[];
+  describe: string;
+  test: (title: string) => string;
+  pendingTest: (title: string) => string;
+  /** Identifiers the model may use inside generated statements. */
+  globals: string;
+}
+
+const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+
+const comment = (value: string) => value.replace(/\s+/g, ' ').trim();
+
+const FRAMEWORKS: Record<AutomationFramework, FrameworkProfile> = {
+  playwright: {
+    label: 'Playwright',
+    specPath: (slug) => `tests/${slug}.spec.ts`,
+    fixturePath: (slug) => `tests/fixtures/${slug}.json`,
+    fixtureImport: (slug) => `./fixtures/${slug}.json`,
+    imports: ["import { test, expect } from '@playwright/test';"],
+    setup: (baseUrl) => (baseUrl ? [`test.use({ baseURL: process.env.BASE_URL ?? ${quote(baseUrl)} });`] : []),
+    describe: 'test.describe',
+    test: (title) => `test(${quote(title)}, async ({ page }) => {`,
+    pendingTest: (title) => `test.fixme(${quote(title)}, async ({ page }) => {`,
+    globals: '`page` (Playwright Page) and `expect` from @playwright/test; use awaited calls and role/label locators where possible',
+  },
+  cypress: {
+    label: 'Cypress',
+    specPath: (slug) => `cypress/e2e/${slug}.cy.ts`,
+    fixturePath: (slug) => `cypress/fixtures/${slug}.json`,
+    fixtureImport: (slug) => `../fixtures/${slug}.json`,
+    imports: [],
+    setup: (baseUrl) => (baseUrl ? [`// Set baseUrl to ${quote(baseUrl)} in cypress.config.ts`] : []),
+    describe: 'describe',
+    test: (title) => `it(${quote(title)}, () => {`,
+    pendingTest: (title) => `it.skip(${quote(title)}, () => {`,
+    globals: '`cy` commands chained with `.should(...)` assertions; do not use async/await',
+  },
+  'jest-supertest': {
+    label: 'Jest + supertest',
+    specPath: (slug) => `tests/api/${slug}.test.ts`,
+    fixturePath: (slug) => `tests/api/fixtures/${slug}.json`,
+    fixtureImport: (slug) => `./fixtures/${slug}.json`,
+    imports: ["import request from 'supertest';"],
+    setup: (baseUrl) => [`const api = request(process.env.API_BASE_URL ?? ${quote(baseUrl || DEFAULT_API_BASE_URL)});`],
+    describe: 'describe',
+    test: (title) => `it(${quote(title)}, async () => {`,
+    pendingTest: (title) => `it.skip(${quote(title)}, async () => {`,
+    globals: '`api` (a supertest agent bound to the base URL, e.g. `const response = await api.post(\'/path\').send(data.body)`) and Jest `expect`',
+  },
+};
+
+export const getAutomationFrameworkLabel = (framework: AutomationFramework) => FRAMEWORKS[framework].label;
+
+const toSlug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'tests';
+
+const toIdentifier = (value: string) => {
+  const words = value.trim().replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  if (!words.length) return '';
+  const identifier = words
+    .map((word, index) => (index === 0 ? word.charAt(0).toLowerCase() + word.slice(1) : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join('');
+  return /^[0-9]/.test(identifier) ? `_${identifier}` : identifier;
+};
+
+/** Turns `key: value` / `key = value` test data lines into fixture entries; anything else is kept under `valueN`. */
+export function buildFixture(testCase: DetailedTestCase, script?: AutomationScript): Record<string, string> {
+  const fixture: Record<string, string> = {};
+  (testCase.testData ?? []).forEach((entry, index) => {
+    const match = entry.match(/^\s*([^:=]{1,40}?)\s*[:=]\s*(.+)$/);
+    const key = match ? toIdentifier(match[1]) : '';
+    if (key) {
+      fixture[key] = match![2].trim().replace(/^"(.*)"$/, '$1');
+    } else {
+      fixture[`value${index + 1}`] = entry.trim();
+    }
+  });
+  script?.fixtures.forEach(({ name, value }) => {
+    const key = toIdentifier(name);
+    if (key) {
+      fixture[key] = value;
+    }
+  });
+  return fixture;
+}
+
+const indentLines = (lines: string[], depth: number) =>
+  lines.map((line) => (line ? `${'  '.repeat(depth)}${line}` : ''));
+
+const splitCode = (code: string[]) => code.flatMap((entry) => entry.split('\n')).map((line) => line.trimEnd());
+
+function renderTest(
+  testCase: DetailedTestCase,
+  profile: FrameworkProfile,
+  hasFixture: boolean,
+  script?: AutomationScript
+): string[] {
+  const title = `${testCase.id}: ${testCase.title}`;
+  const steps = [...(testCase.steps ?? [])].sort((a, b) => a.number - b.number);
+  const body: string[] = [];
+
+  if (hasFixture) {
+    body.push(`const data = fixtures[${quote(testCase.id)}];`, '');
+  }
+  (testCase.preconditions ?? []).forEach((precondition) => body.push(`// Precondition: ${comment(precondition)}`));
+  if (testCase.preconditions?.length) {
+    body.push('');
+  }
+
+  steps.forEach((step, index) => {
+    const code = splitCode(script?.steps.find((entry) => entry.number === step.number)?.code ?? []);
+    body.push(`// Step ${index + 1}: ${comment(step.description)}`);
+    body.push(...(code.length ? code : ['// TODO: automate this step']));
+  });
+
+  const assertions = splitCode(script?.assertions ?? []);
+  body.push('', `// Expected: ${comment(testCase.expectedResult ?? '')}`);
+  body.push(...(assertions.length ? assertions : ['// TODO: assert the expected result']));
+
+  return [
+    script ? profile.test(title) : profile.pendingTest(title),
+    ...indentLines(body, 1),
+    '});',
+  ];
+}
+
+/**
+ * Renders one spec file per area with one test per case. Cases the model did not script are emitted as
+ * pending (`fixme`/`skip`) so an unimplemented skeleton never reports as passing.
+ */
+export function renderAutomationFiles(
+  testCases: DetailedTestCase[],
+  framework: AutomationFramework,
+  options: { scripts?: Map<string, AutomationScript>; baseUrl?: string } = {}
+): AutomationFile[] {
+  const profile = FRAMEWORKS[framework];
+  const groups = new Map<string, DetailedTestCase[]>();
+  testCases.forEach((testCase) => {
+    const area = testCase.area?.trim() || DEFAULT_AREA;
+    groups.set(area, [...(groups.get(area) ?? []), testCase]);
+  });
+
+  const usedSlugs = new Set<string>();
+  return Array.from(groups.entries()).flatMap(([area, areaCases]) => {
+    let slug = toSlug(area);
+    for (let suffix = 2; usedSlugs.has(slug); suffix += 1) {
+      slug = `${toSlug(area)}-${suffix}`;
+    }
+    usedSlugs.add(slug);
+
+    const fixtures = Object.fromEntries(
+      areaCases
+        .map((testCase) => [testCase.id, buildFixture(testCase, options.scripts?.get(testCase.id))] as const)
+        .filter(([, fixture]) => Object.keys(fixture).length > 0)
+    );
+    const hasFixtures = Object.keys(fixtures).length > 0;
+
+    const tests = areaCases.map((testCase) =>
+      renderTest(testCase, profile, testCase.id in fixtures, options.scripts?.get(testCase.id))
+    );
+    const imports = [
+      ...profile.imports,
+      ...(hasFixtures ? [`import fixtures from ${quote(profile.fixtureImport(slug))};`] : []),
+    ];
+    const setup = profile.setup(options.baseUrl);
+    const content = [
+      ...(imports.length ? [...imports, ''] : []),
+      ...(setup.length ? [...setup, ''] : []),
+      `${profile.describe}(${quote(area)}, () => {`,
+      ...tests.flatMap((test, index) => [...(index > 0 ? [''] : []), ...indentLines(test, 1)]),
+      '});',
+      '',
+    ].join('\n');
+
+    const files: AutomationFile[] = [{ path: profile.specPath(slug), content }];
+    if (hasFixtures) {
+      files.push({ path: profile.fixturePath(slug), content: `${JSON.stringify(fixtures, null, 2)}\n` });
+    }
+    return files;
+  });
+}
+
+export function buildAutomationPrompt(testCases: DetailedTestCase[], framework: AutomationFramework, baseUrl?: string): string {
+  const profile = FRAMEWORKS[framework];
+  const cases = testCases.map((testCase) => ({
+    caseId: testCase.id,
+    title: testCase.title,
+    preconditions: testCase.preconditions ?? [],
+    testData: testCase.testData ?? [],
+    steps: [...(testCase.steps ?? [])].sort((a, b) => a.number - b.number),
+    expectedResult: testCase.expectedResult,
+  }));
+
+  return [
+    `You are a senior test automation engineer writing ${profile.label} tests in TypeScript.`,
+    'For each manual test case below, return a script entry with:',
+    '- "caseId": the case id, unchanged.',
+    '- "fixtures": name/value pairs for the test data the steps need. Use camelCase names; they are exposed to your code as `data.<name>`.',
+    '- "steps": one entry per manual step with the same "number" and the statements that perform it in "code" (one statement per string).',
+    '- "assertions": statements that verify the expected result.',
+    `Available in scope: ${profile.globals}, plus \`data\` for fixtures. Do not write imports, describe blocks, or test wrappers.`,
+    baseUrl ? `The application under test is served at ${baseUrl}; use relative paths.` : 'Use relative paths for navigation and requests.',
+    'Prefer stable selectors (roles, labels, data-testid). When a step cannot be automated reliably, return an empty "code" array for it.',
+    '',
+    'Test cases:',
+    JSON.stringify(cases, null, 2),
+  ].join('\n');
+}
+
+/**
+ * Automation stage: asks the model for step and assertion code in batches, then renders the specs.
+ * Batches that fail (or an unconfigured provider) fall back to pending skeletons with a warning.
+ */
+export async function generateAutomationSuite(request: AutomationGenerationRequest): Promise<AutomationGenerationResponse> {
+  const { testCases, framework, baseUrl } = request;
+  const provider = request.provider ?? 'openai';
+  const warnings: string[] = [];
+  const scripts = new Map<string, AutomationScript>();
+  const failedIds = new Set<string>();
+  const usages: Array<TokenUsage | undefined> = [];
+
+  if (!canResolveModel(provider)) {
+    warnings.push(`Provider ${provider} is not configured; generated pending skeletons without automation code.`);
+  } else {
+    const model = resolveLanguageModel({ provider, model: request.model });
+
+    for (let start = 0; start < testCases.length; start += AUTOMATION_BATCH_SIZE) {
+      const batch = testCases.slice(start, start + AUTOMATION_BATCH_SIZE);
+      const prompt = buildAutomationPrompt(batch, framework, baseUrl);
+      const batchIds = new Set(batch.map((testCase) => testCase.id));
+
+      try {
+        const { object, usage } = await generateObject({ model, prompt, schema: AutomationBatchSchema });
+        usages.push(toTokenUsage(usage, provider, request.model ?? model.modelId));
+        object.scripts
+          .filter((script) => batchIds.has(script.caseId))
+          .forEach((script) => scripts.set(script.caseId, script));
+
+        logAIInteraction({
+          provider,
+          model: request.model ?? 'default',
+          prompt,
+          response: JSON.stringify(object),
+          context: {
+            type: 'test-automation',
+            stage: 'automation',
+            framework,
+            ...(request.userIdentifier ? { userIdentifier: request.userIdentifier } : {}),
+          },
+        });
+      } catch (error) {
+        console.warn('[AutomationGenerator] Batch failed; falling back to skeletons', error);
+        batchIds.forEach((id) => failedIds.add(id));
+        warnings.push(
+          `Automation code could not be generated for ${batch.map((testCase) => testCase.id).join(', ')}; those tests are pending skeletons.`
+        );
+      }
+    }
+
+    const missing = testCases.filter((testCase) => !scripts.has(testCase.id) && !failedIds.has(testCase.id));
+    if (missing.length) {
+      warnings.push(`The model returned no script for ${missing.map((testCase) => testCase.id).join(', ')}; those tests are pending skeletons.`);
+    }
+  }
+
+  return {
+    framework,
+    files: renderAutomationFiles(testCases, framework, { scripts, baseUrl }),
+    warnings: warnings.length ? warnings : undefined,
+    usage: sumTokenUsage(usages),
+  };
+}
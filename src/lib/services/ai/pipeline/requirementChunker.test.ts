@@ -0,0 +1,86 @@
+/** @jest-environment node */
+
+import {
+  chunkRequirements,
+  formatChunkIndex,
+  normalizeChunkRefs,
+  selectChunks,
+} from './requirementChunker';
+
+const paragraph = (label: string, sentences = 40) =>
+  Array.from({ length: sentences }, (_, index) => `${label} requirement sentence ${index + 1} describes expected behaviour.`).join(' ');
+
+describe('chunkRequirements', () => {
+  it('keeps short requirements in a single chunk when strategy is auto', () => {
+    const chunks = chunkRequirements('Users can log in with email and password.');
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].id).toBe('CH-1');
+    expect(chunks[0].source).toBe('requirements');
+  });
+
+  it('returns the whole text as one chunk when strategy is none', () => {
+    const text = [paragraph('Login', 200), paragraph('Billing', 200)].join('\n\n');
+    const chunks = chunkRequirements(text, { strategy: 'none' });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe(text);
+  });
+
+  it('splits uploaded files into separate chunks by source', () => {
+    const text = [
+      'Shared context for the release.',
+      '=== login.md (text/markdown / 1200 bytes) ===',
+      paragraph('Login'),
+      '=== billing.md (text/markdown / 1400 bytes) ===',
+      paragraph('Billing'),
+    ].join('\n');
+
+    const chunks = chunkRequirements(text, { strategy: 'fixed', maxChunkTokens: 1000 });
+
+    expect(chunks.map((chunk) => chunk.source)).toEqual(['requirements', 'login.md', 'billing.md']);
+    expect(chunks.map((chunk) => chunk.id)).toEqual(['CH-1', 'CH-2', 'CH-3']);
+  });
+
+  it('splits by headings and packs oversized sections under the token limit in auto mode', () => {
+    const text = [
+      '# Authentication',
+      paragraph('Login', 120),
+      '',
+      paragraph('Session', 120),
+      '# Payments',
+      paragraph('Billing', 120),
+    ].join('\n');
+
+    const chunks = chunkRequirements(text, { strategy: 'auto', maxChunkTokens: 1500 });
+
+    expect(chunks.length).toBeGreaterThan(2);
+    chunks.forEach((chunk) => expect(chunk.tokens).toBeLessThanOrEqual(1500));
+    expect(chunks[0].title).toBe('Authentication');
+    expect(chunks[chunks.length - 1].title).toBe('Payments');
+  });
+});
+
+describe('chunk references', () => {
+  const chunks = chunkRequirements(
+    ['=== a.md (text / 1 bytes) ===', paragraph('Alpha'), '=== b.md (text / 1 bytes) ===', paragraph('Beta')].join('\n'),
+    { strategy: 'fixed' }
+  );
+
+  it('normalizes loosely formatted refs and drops unknown ids', () => {
+    expect(normalizeChunkRefs(['ch2', '[CH-1]', '1', 'CH-9', 'CH-2'], chunks)).toEqual(['CH-2', 'CH-1']);
+    expect(normalizeChunkRefs(undefined, chunks)).toEqual([]);
+  });
+
+  it('selects referenced chunks in document order', () => {
+    expect(selectChunks(chunks, ['CH-2', 'CH-1']).map((chunk) => chunk.source)).toEqual(['a.md', 'b.md']);
+  });
+
+  it('formats an excerpt index for the planner', () => {
+    const index = formatChunkIndex(chunks, 40);
+
+    expect(index.split('\n')).toHaveLength(2);
+    expect(index).toContain('[CH-1]');
+    expect(index).toContain('source: b.md');
+  });
+});
@@ -0,0 +1,269 @@
+import { countTokens } from '@/lib/server/tokenizer';
+import { AgenticGenerationOptions } from '@/lib/types';
+
+export type ChunkStrategy = NonNullable<AgenticGenerationOptions['chunkStrategy']>;
+
+export interface RequirementChunk {
+  id: string;
+  title: string;
+  source: string;
+  text: string;
+  tokens: number;
+}
+
+export interface ChunkRequirementsOptions {
+  strategy?: ChunkStrategy;
+  model?: string;
+  maxChunkTokens?: number;
+}
+
+const DEFAULT_SOURCE = 'requirements';
+const DEFAULT_MAX_CHUNK_TOKENS = 1500;
+const AUTO_SINGLE_CHUNK_THRESHOLD = 2000;
+const MIN_CHUNK_TOKENS = 100;
+const MAX_TITLE_LENGTH = 80;
+const FILE_HEADER_PATTERN = /^=== (.+?) \(.*\) ===$/;
+const HEADING_PATTERN = /^(#{1,6}\s+\S.*|(\d+\.)+\d*\s+\S.*|(section|chapter|feature|epic|story|user story)\s+[\w.-]+.*)$/i;
+
+interface SourceBlock {
+  source: string;
+  body: string;
+}
+
+interface Section {
+  source: string;
+  heading?: string;
+  text: string;
+  tokens: number;
+}
+
+function splitIntoSources(text: string): SourceBlock[] {
+  const blocks: SourceBlock[] = [];
+  let current: SourceBlock = { source: DEFAULT_SOURCE, body: '' };
+
+  text.split('\n').forEach((line) => {
+    const header = line.trim().match(FILE_HEADER_PATTERN);
+    if (header) {
+      if (current.body.trim()) {
+        blocks.push(current);
+      }
+      current = { source: header[1].trim(), body: '' };
+      return;
+    }
+    current.body += `${line}\n`;
+  });
+
+  if (current.body.trim()) {
+    blocks.push(current);
+  }
+
+  return blocks;
+}
+
+function splitIntoParagraphs(body: string): string[] {
+  return body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+}
+
+function splitIntoSections(block: SourceBlock, model?: string): Section[] {
+  const sections: Section[] = [];
+  let heading: string | undefined;
+  let lines: string[] = [];
+
+  const flush = () => {
+    const text = lines.join('\n').trim();
+    if (text) {
+      sections.push({ source: block.source, heading, text, tokens: countTokens(text, model) });
+    }
+    lines = [];
+  };
+
+  block.body.split('\n').forEach((line) => {
+    const trimmed = line.trim();
+    if (trimmed && trimmed.length <= 120 && HEADING_PATTERN.test(trimmed)) {
+      flush();
+      heading = trimmed.replace(/^#+\s*/, '');
+    }
+    lines.push(line);
+  });
+
+  flush();
+  return sections;
+}
+
+// Hard-splits a paragraph that is larger than a chunk on its own, line by line and then by characters.
+function splitOversizedText(text: string, maxTokens: number, model?: string): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  const pushPiece = (piece: string) => {
+    if (piece.trim()) {
+      pieces.push(piece.trim());
+    }
+  };
+
+  text.split('\n').forEach((line) => {
+    const candidate = current ? `${current}\n${line}` : line;
+    if (countTokens(candidate, model) <= maxTokens) {
+      current = candidate;
+      return;
+    }
+    pushPiece(current);
+    if (countTokens(line, model) <= maxTokens) {
+      current = line;
+      return;
+    }
+    // A single line is still too large: fall back to a character window sized from the token ratio.
+    const approxChars = Math.max(200, Math.floor((line.length * maxTokens) / countTokens(line, model)));
+    for (let offset = 0; offset < line.length; offset += approxChars) {
+      pushPiece(line.slice(offset, offset + approxChars));
+    }
+    current = '';
+  });
+
+  pushPiece(current);
+  return pieces;
+}
+
+function packParagraphs(
+  paragraphs: string[],
+  source: string,
+  heading: string | undefined,
+  maxTokens: number,
+  model?: string
+): Section[] {
+  const sections: Section[] = [];
+  let buffer: string[] = [];
+  let bufferTokens = 0;
+
+  const flush = () => {
+    if (!buffer.length) {
+      return;
+    }
+    const text = buffer.join('\n\n');
+    sections.push({ source, heading, text, tokens: bufferTokens });
+    buffer = [];
+    bufferTokens = 0;
+  };
+
+  paragraphs.forEach((paragraph) => {
+    const tokens = countTokens(paragraph, model);
+    if (tokens > maxTokens) {
+      flush();
+      splitOversizedText(paragraph, maxTokens, model).forEach((piece) => {
+        sections.push({ source, heading, text: piece, tokens: countTokens(piece, model) });
+      });
+      return;
+    }
+    if (bufferTokens + tokens > maxTokens) {
+      flush();
+    }
+    buffer.push(paragraph);
+    bufferTokens += tokens;
+  });
+
+  flush();
+  return sections;
+}
+
+// Packs adjacent sections from the same source up to the chunk budget so short headings do not become their own chunks.
+function mergeAdjacentSections(sections: Section[], maxTokens: number): Section[] {
+  const merged: Section[] = [];
+
+  sections.forEach((section) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.source === section.source && previous.tokens + section.tokens <= maxTokens) {
+      previous.text = `${previous.text}\n\n${section.text}`;
+      previous.tokens += section.tokens;
+      previous.heading = previous.heading ?? section.heading;
+      return;
+    }
+    merged.push({ ...section });
+  });
+
+  return merged;
+}
+
+function deriveTitle(section: Section): string {
+  const base = section.heading ?? section.text.split('\n').map((line) => line.trim()).find(Boolean) ?? section.source;
+  return base.length > MAX_TITLE_LENGTH ? `${base.slice(0, MAX_TITLE_LENGTH - 1)}…` : base;
+}
+
+function toChunks(sections: Section[]): RequirementChunk[] {
+  return sections.map((section, index) => ({
+    id: `CH-${index + 1}`,
+    title: deriveTitle(section),
+    source: section.source,
+    text: section.text,
+    tokens: section.tokens,
+  }));
+}
+
+export function chunkRequirements(text: string, options: ChunkRequirementsOptions = {}): RequirementChunk[] {
+  const strategy = options.strategy ?? 'auto';
+  const maxTokens = Math.max(MIN_CHUNK_TOKENS, options.maxChunkTokens ?? DEFAULT_MAX_CHUNK_TOKENS);
+  const trimmed = text.trim();
+
+  if (!trimmed) {
+    return [];
+  }
+
+  const totalTokens = countTokens(trimmed, options.model);
+
+  if (strategy === 'none' || (strategy === 'auto' && totalTokens <= AUTO_SINGLE_CHUNK_THRESHOLD)) {
+    return toChunks([{ source: DEFAULT_SOURCE, text: trimmed, tokens: totalTokens }]);
+  }
+
+  const sources = splitIntoSources(trimmed);
+
+  if (strategy === 'fixed') {
+    const sections = sources.flatMap((block) =>
+      packParagraphs(splitIntoParagraphs(block.body), block.source, undefined, maxTokens, options.model)
+    );
+    return toChunks(sections);
+  }
+
+  const sections = sources.flatMap((block) =>
+    splitIntoSections(block, options.model).flatMap((section) =>
+      section.tokens > maxTokens
+        ? packParagraphs(splitIntoParagraphs(section.text), section.source, section.heading, maxTokens, options.model)
+        : [section]
+    )
+  );
+
+  return toChunks(mergeAdjacentSections(sections, maxTokens));
+}
+
+export function normalizeChunkRefs(refs: string[] | undefined, chunks: RequirementChunk[]): string[] {
+  if (!refs?.length) {
+    return [];
+  }
+  const known = new Set(chunks.map((chunk) => chunk.id));
+  const normalized = refs
+    .map((ref) => ref.replace(/[[\]\s]/g, '').toUpperCase())
+    .map((ref) => (/^\d+$/.test(ref) ? `CH-${ref}` : ref.replace(/^CH(\d+)$/, 'CH-$1')))
+    .filter((ref) => known.has(ref));
+  return Array.from(new Set(normalized));
+}
+
+export function selectChunks(chunks: RequirementChunk[], refs: string[] | undefined): RequirementChunk[] {
+  const wanted = new Set(normalizeChunkRefs(refs, chunks));
+  return chunks.filter((chunk) => wanted.has(chunk.id));
+}
+
+export function formatChunks(chunks: RequirementChunk[]): string {
+  return chunks
+    .map((chunk) => `[${chunk.id}] ${chunk.title} (source: ${chunk.source})\n${chunk.text}`)
+    .join('\n\n');
+}
+
+export function formatChunkIndex(chunks: RequirementChunk[], excerptLength = 280): string {
+  return chunks
+    .map((chunk) => {
+      const excerpt = chunk.text.replace(/\s+/g, ' ').slice(0, excerptLength);
+      return `[${chunk.id}] ${chunk.title} (source: ${chunk.source}, ~${chunk.tokens} tokens): ${excerpt}${chunk.text.length > excerptLength ? '…' : ''}`;
+    })
+    .join('\n');
+}
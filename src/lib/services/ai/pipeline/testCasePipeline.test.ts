@@ -1,6 +1,9 @@
+/** @jest-environment node */
+
 import { jest } from '@jest/globals';
 import { generateObject, generateText } from 'ai';
 import { TestCaseAgenticPipeline } from './testCasePipeline';
+import type { GenerationCheckpoint } from '@/lib/types';
 
 jest.mock('ai', () => ({
   generateObject: jest.fn(),
@@ -117,4 +120,349 @@ describe('TestCaseAgenticPipeline', () => {
     expect(result.telemetry?.reviewPasses?.[0]?.feedbackCount).toBe(1);
     expect(result.telemetry?.writerSlices?.length).toBe(2);
   });
+
+  it('sends only the referenced requirement chunks to each writer slice', async () => {
+    const section = (label: string) =>
+      Array.from({ length: 40 }, (_, index) => `${label} rule ${index + 1} must be validated.`).join(' ');
+    const requirements = [
+      '=== login.md (text/markdown / 900 bytes) ===',
+      section('Login'),
+      '=== billing.md (text/markdown / 900 bytes) ===',
+      section('Billing'),
+    ].join('\n');
+    const writerPrompts: string[] = [];
+
+    mockedGenerateObject.mockImplementation((async ({ prompt }: { prompt: string }) => {
+      if (prompt.includes('expert QA strategist')) {
+        const plan = [{ id: 'PLAN-1', title: 'Billing', area: 'Billing', chunkRefs: ['ch2', 'CH-7'] }];
+        return { object: { items: plan }, text: JSON.stringify({ items: plan }) };
+      }
+
+      writerPrompts.push(prompt);
+      const cases = [
+        {
+          id: 'TC-001',
+          title: 'Invoice totals',
+          area: 'Billing',
+          description: 'Totals are correct',
+          preconditions: [],
+          testData: [],
+          steps: [{ number: 1, description: 'Open invoice' }],
+          expectedResult: 'Totals match',
+        },
+      ];
+      return { object: { items: cases }, text: JSON.stringify({ items: cases }) };
+    }) as any);
+
+    const pipeline = new TestCaseAgenticPipeline();
+    const result = await pipeline.generate({
+      ...baseRequest,
+      requirements,
+      provider: 'gemini',
+      agenticOptions: { enableAgentic: true, maxReviewPasses: 0, chunkStrategy: 'fixed' },
+    });
+
+    expect(result.plan?.[0]?.chunkRefs).toEqual(['CH-2']);
+    expect(result.telemetry?.requirementChunks).toBe(2);
+    expect(writerPrompts).toHaveLength(1);
+    expect(writerPrompts[0]).toContain('Billing rule 1 must be validated.');
+    expect(writerPrompts[0]).not.toContain('Login rule 1 must be validated.');
+  });
+
+  it('resumes from a checkpoint and only rewrites the missing plan slices', async () => {
+    const plan = [
+      { id: 'PLAN-1', title: 'Happy path', area: 'Auth' },
+      { id: 'PLAN-2', title: 'Edge cases', area: 'Auth' },
+    ];
+    const writerPrompts: string[] = [];
+    mockedGenerateObject.mockImplementation((async ({ prompt }: { prompt: string }) => {
+      writerPrompts.push(prompt);
+      const items = [
+        {
+          id: 'TC-002',
+          title: 'Locked account',
+          area: 'Auth',
+          description: '',
+          preconditions: [],
+          testData: [],
+          steps: [{ number: 1, description: 'Log in to a locked account' }],
+          expectedResult: 'Lockout message is shown',
+        },
+      ];
+      return { object: { items }, text: JSON.stringify({ items }) };
+    }) as any);
+
+    const checkpoints: GenerationCheckpoint[] = [];
+    const pipeline = new TestCaseAgenticPipeline();
+    const result = await pipeline.generate(
+      {
+        ...baseRequest,
+        runId: 'run-1',
+        resume: true,
+        agenticOptions: { enableAgentic: true, maxReviewPasses: 0 },
+      },
+      undefined,
+      {
+        checkpoint: {
+          runId: 'run-1',
+          plan,
+          completedSlices: {
+            'PLAN-1': [{ id: 'TC-001', title: 'Valid login', area: 'Auth', steps: [{ number: 1, description: 'Log in' }], expectedResult: 'Dashboard' }],
+          },
+          updatedAt: new Date().toISOString(),
+        },
+        onCheckpoint: (checkpoint) => {
+          checkpoints.push(checkpoint);
+        },
+      }
+    );
+
+    expect(writerPrompts).toHaveLength(1);
+    expect(writerPrompts[0]).toContain('Edge cases');
+    expect(result.testCases.map((testCase) => testCase.id)).toEqual(['TC-001', 'TC-002']);
+    expect(result.telemetry?.writerSlices?.map((slice) => slice.restored)).toEqual([true, undefined]);
+    expect(result.runId).toBe('run-1');
+    expect(result.incompleteSliceIds).toBeUndefined();
+    expect(Object.keys(checkpoints[checkpoints.length - 1].completedSlices)).toEqual(['PLAN-1', 'PLAN-2']);
+  });
+
+  it('stops writing further slices once the run is cancelled', async () => {
+    const controller = new AbortController();
+    let writerCalls = 0;
+    mockedGenerateObject.mockImplementation((async ({ prompt }: { prompt: string }) => {
+      if (prompt.includes('expert QA strategist')) {
+        const plan = [
+          { id: 'PLAN-1', title: 'Happy path', area: 'Auth' },
+          { id: 'PLAN-2', title: 'Edge cases', area: 'Auth' },
+        ];
+        return { object: { items: plan }, text: JSON.stringify({ items: plan }) };
+      }
+      writerCalls += 1;
+      controller.abort();
+      throw new Error('Request aborted');
+    }) as any);
+
+    const pipeline = new TestCaseAgenticPipeline();
+    await expect(
+      pipeline.generate(
+        { ...baseRequest, provider: 'gemini', agenticOptions: { enableAgentic: true, maxReviewPasses: 0 } },
+        undefined,
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow('Request aborted');
+    expect(writerCalls).toBe(1);
+  });
+
+  it('stops after the planner for approval and writes only the approved plan', async () => {
+    const prompts: string[] = [];
+    mockedGenerateObject.mockImplementation((async ({ prompt }: { prompt: string }) => {
+      prompts.push(prompt);
+      if (prompt.includes('expert QA strategist')) {
+        const plan = [
+          { id: 'PLAN-1', title: 'Happy path', area: 'Auth', estimatedCases: 2 },
+          { id: 'PLAN-2', title: 'Edge cases', area: 'Auth' },
+        ];
+        return {
+          object: { items: plan },
+          text: JSON.stringify({ items: plan }),
+          usage: { promptTokens: 1200, completionTokens: 300, totalTokens: 1500 },
+        };
+      }
+      const items = [
+        {
+          id: 'TC-001',
+          title: 'Password reset',
+          area: 'Auth',
+          description: '',
+          preconditions: [],
+          testData: [],
+          steps: [{ number: 1, description: 'Request a reset link' }],
+          expectedResult: 'Reset email is sent',
+        },
+      ];
+      return { object: { items }, text: JSON.stringify({ items }) };
+    }) as any);
+
+    const pipeline = new TestCaseAgenticPipeline();
+    const request = {
+      ...baseRequest,
+      provider: 'gemini' as const,
+      agenticOptions: { enableAgentic: true, maxReviewPasses: 0, reviewPlanFirst: true },
+    };
+    const planned = await pipeline.generate(request);
+
+    expect(planned.awaitingPlanApproval).toBe(true);
+    expect(planned.testCases).toEqual([]);
+    expect(planned.plan?.map((item) => item.id)).toEqual(['PLAN-1', 'PLAN-2']);
+    expect(prompts).toHaveLength(1);
+    expect(planned.telemetry?.plannerUsage?.totalTokens).toBe(1500);
+    expect(planned.telemetry?.usage?.promptTokens).toBe(1200);
+
+    prompts.length = 0;
+    const written = await pipeline.generate({
+      ...request,
+      approvedPlan: [{ id: 'PLAN-3', title: 'Password reset', area: 'Auth', focus: 'Reset links expire', estimatedCases: 1 }],
+    });
+
+    expect(written.awaitingPlanApproval).toBeUndefined();
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('Reset links expire');
+    expect(written.plan?.map((item) => item.id)).toEqual(['PLAN-3']);
+    expect(written.testCases).toHaveLength(1);
+  });
+
+  it('refines targeted cases and reports only changed or added cases', async () => {
+    const detailed = (id: string, title: string) => ({
+      id,
+      title,
+      area: 'Auth',
+      description: '',
+      preconditions: [],
+      testData: [],
+      steps: [{ number: 1, description: 'Submit the login form' }],
+      expectedResult: 'Dashboard is shown',
+      createdAt: new Date(),
+    });
+    const prompts: string[] = [];
+
+    mockedGenerateObject.mockImplementation((async ({ prompt }: { prompt: string }) => {
+      prompts.push(prompt);
+      const items = [
+        { ...detailed('TC-001', 'Login with valid credentials'), createdAt: undefined },
+        { ...detailed('TC-002', 'Login with expired token'), steps: [{ number: 1, description: 'Reuse an expired token' }] },
+        { ...detailed('TC-003', 'Login with revoked token') },
+      ];
+      return { object: { items }, text: JSON.stringify({ items }) };
+    }) as any);
+
+    const events: string[] = [];
+    const pipeline = new TestCaseAgenticPipeline();
+    const result = await pipeline.refine(
+      {
+        testCases: [detailed('TC-001', 'Login with valid credentials'), detailed('TC-002', 'Login with token')],
+        contextCases: [detailed('TC-003', 'Logout')],
+        instruction: 'Add negative cases for expired tokens',
+        mode: 'detailed',
+      },
+      (event) => events.push(event.type)
+    );
+
+    expect(prompts[0]).toContain('User instruction for the targeted cases: Add negative cases for expired tokens');
+    expect(prompts[0]).toContain('Targeted caseIds: TC-001, TC-002');
+    expect(result.testCases.map((testCase) => testCase.id)).toEqual(['TC-002', 'TC-004']);
+    expect(result.testCases[1].title).toBe('Login with revoked token');
+    expect(events).toEqual(['refine:chunk-complete', 'final']);
+  });
+
+  it('includes the team style guide in every stage and links guideline findings to their rule', async () => {
+    const prompts: Record<string, string> = {};
+
+    mockedGenerateObject.mockImplementation((async ({ prompt }: { prompt: string }) => {
+      if (prompt.includes('expert QA strategist')) {
+        prompts.planner = prompt;
+        const plan = [{ id: 'PLAN-1', title: 'Login', area: 'Auth' }];
+        return { object: { items: plan }, text: JSON.stringify({ items: plan }) };
+      }
+      if (prompt.includes('You are reviewing')) {
+        prompts.reviewer = prompt;
+        const review = {
+          feedback: [
+            { caseId: 'TC-001', issueType: 'guideline', severity: 'minor', summary: '[G-2] Persona is not named', suggestion: 'Name the persona' },
+          ],
+          summary: 'One guideline issue',
+        };
+        return { object: review, text: JSON.stringify(review) };
+      }
+      prompts.writer = prompt;
+      const cases = [
+        {
+          id: 'TC-001',
+          title: 'Login works',
+          area: 'Auth',
+          description: 'Valid credentials',
+          preconditions: [],
+          testData: [],
+          steps: [{ number: 1, description: 'Submit the login form' }],
+          expectedResult: 'Dashboard is shown',
+        },
+      ];
+      return { object: { items: cases }, text: JSON.stringify({ items: cases }) };
+    }) as any);
+
+    const pipeline = new TestCaseAgenticPipeline();
+    const result = await pipeline.generate({
+      ...baseRequest,
+      provider: 'gemini',
+      agenticOptions: { enableAgentic: true, maxReviewPasses: 1 },
+      styleGuide: {
+        teamId: 'team-a',
+        rules: [
+          { id: 'G-1', text: 'Write steps in the imperative mood' },
+          { id: 'G-2', text: 'Name the user persona in every case' },
+        ],
+        glossary: [],
+        updatedBy: 'sam',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    });
+
+    expect(prompts.planner).toContain('G-2: Name the user persona in every case');
+    expect(prompts.writer).toContain('G-1: Write steps in the imperative mood');
+    expect(prompts.reviewer).toContain('issueType "guideline"');
+    expect(result.reviewFeedback).toEqual([
+      expect.objectContaining({ issueType: 'guideline', ruleId: 'G-2' }),
+    ]);
+  });
+
+  it('reports the usage of single-shot responses that cannot be used', async () => {
+    mockedGenerateText.mockResolvedValue({
+      text: '{"not": "an array"}',
+      usage: { promptTokens: 200, completionTokens: 40, totalTokens: 240 },
+    } as any);
+    const onUsage = jest.fn();
+
+    const pipeline = new TestCaseAgenticPipeline();
+    const result = await pipeline.generate({ ...baseRequest, agenticOptions: { enableAgentic: false } }, undefined, {
+      onUsage,
+    });
+
+    expect(result.error).toBe('Model response was not an array');
+    expect(result.telemetry?.usage).toMatchObject({ totalTokens: 240 });
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ totalTokens: 240 }));
+  });
+
+  it('counts the tokens of a malformed first attempt when the retry succeeds', async () => {
+    const item = {
+      id: 'TC-001',
+      title: 'Login with valid credentials',
+      area: 'Auth',
+      description: '',
+      preconditions: [],
+      testData: [],
+      steps: [{ number: 1, description: 'Submit the login form' }],
+      expectedResult: 'Dashboard is shown',
+    };
+    mockedGenerateObject
+      .mockImplementationOnce((async () => {
+        throw Object.assign(new Error('Invalid JSON'), {
+          name: 'AI_JSONParseError',
+          text: 'Here are the updated cases: {"items": [',
+        });
+      }) as any)
+      .mockImplementationOnce((async () => ({
+        object: { items: [item] },
+        usage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+      })) as any);
+
+    const pipeline = new TestCaseAgenticPipeline();
+    const result = await pipeline.refine({
+      testCases: [{ ...item, title: 'Login', createdAt: new Date() }],
+      instruction: 'Clarify the title',
+      mode: 'detailed',
+    });
+
+    expect(mockedGenerateObject).toHaveBeenCalledTimes(2);
+    expect(result.usage?.promptTokens).toBeGreaterThan(100);
+    expect(result.usage?.completionTokens).toBeGreaterThan(50);
+  });
 });
@@ -1,18 +1,26 @@
 import { generateObject, generateText } from 'ai';
-import type { LanguageModel } from 'ai';
+import type { LanguageModel, LanguageModelUsage } from 'ai';
 import { z } from 'zod';
 import {
   AgenticGenerationOptions,
   AgenticTelemetry,
+  GenerationCheckpoint,
   GenerationPlanItem,
+  GenerationRunOptions,
   LLMProvider,
   AgenticProgressEvent,
+  RequirementReference,
   ReviewFeedbackItem,
   ReviewPassTelemetry,
   ReviewSeverity,
+  TestCase,
   TestCaseGenerationRequest,
   TestCaseGenerationResponse,
   TestCaseMode,
+  TestCaseRefinementEvent,
+  TestCaseRefinementRequest,
+  TestCaseRefinementResponse,
+  TokenUsage,
   WriterSliceTelemetry,
 } from '@/lib/types';
 import { resolveLanguageModel } from '../vercelClient';
@@ -24,6 +32,37 @@ import {
 } from '../utils';
 import { logAIInteraction } from '@/lib/utils/aiLogger';
 import { JsonCleaner } from '@/lib/utils/jsonCleaner';
+import { countTokens, getContextWindow } from '@/lib/server/tokenizer';
+import { sumTokenUsage, toTokenUsage } from './tokenUsage';
+import { renderPrompt, RenderedPrompt } from '../prompts/renderPrompt';
+import { attachGuidelineRuleIds, formatStyleGuide, GUIDELINE_ISSUE, hasStyleGuideContent } from '@/lib/utils/styleGuide';
+import {
+  buildTraceabilityMatrix,
+  extractRequirements,
+  formatRequirementCatalog,
+  normalizeRequirementIds,
+} from '@/lib/utils/traceability';
+import { findDuplicateClusters } from '@/lib/utils/duplicateClusters';
+import {
+  DUPLICATE_EXISTING_ISSUE,
+  classifyAgainstExisting,
+  formatExistingSuite,
+} from '@/lib/utils/testCaseOverlap';
+import {
+  RequirementChunk,
+  chunkRequirements,
+  formatChunkIndex,
+  formatChunks,
+  normalizeChunkRefs,
+  selectChunks,
+} from './requirementChunker';
+
+const GHERKIN_WRITER_INSTRUCTION = 'Gherkin mode: each item is one Cucumber scenario. Set "feature" to the Feature it belongs to, "title" to the scenario name, and write declarative "steps" as { keyword, text } with keyword Given, When, Then, And, or But (text must not repeat the keyword). Use "background" only for Given steps shared by every scenario of the feature. When the same flow runs with several data sets, use scenarioType "scenario-outline" with <placeholders> in the steps and an "examples" table whose rows match the headers; otherwise use "scenario" and omit examples. Tags go without "@".';
+
+const REFINE_ISSUE = 'user-instruction';
+
+const PLANNER_CONTEXT_SHARE = 0.5;
+const FALLBACK_CONTEXT_WINDOW = 64_000;
 
 const PlannerItemSchema = z
   .object({
@@ -85,6 +124,7 @@ const DetailedTestCaseItemSchema = z.object({
     )
     .default([]),
   expectedResult: z.string().default(''),
+  requirementIds: z.array(z.string()).default([]),
 }).strict();
 
 const DetailedTestCaseSchema = z.object({
@@ -97,12 +137,59 @@ const HighLevelTestCaseItemSchema = z.object({
   area: z.string().min(1),
   scenario: z.string().min(1),
   description: z.string(),
+  requirementIds: z.array(z.string()).default([]),
 }).strict();
 
 const HighLevelTestCaseSchema = z.object({
   items: z.array(HighLevelTestCaseItemSchema),
 }).strict();
 
+const GherkinStepSchema = z.object({
+  keyword: z.enum(['Given', 'When', 'Then', 'And', 'But']),
+  text: z.string().min(1),
+}).strict();
+
+const GherkinTestCaseItemSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  area: z.string().min(1),
+  feature: z.string().min(1),
+  description: z.string().default(''),
+  scenarioType: z.enum(['scenario', 'scenario-outline']).default('scenario'),
+  tags: z.array(z.string()).default([]),
+  background: z.array(GherkinStepSchema).default([]),
+  steps: z.array(GherkinStepSchema).min(1),
+  examples: z
+    .object({
+      headers: z.array(z.string().min(1)).min(1),
+      rows: z.array(z.array(z.string())).min(1),
+    })
+    .strict()
+    .optional(),
+  requirementIds: z.array(z.string()).default([]),
+}).strict().superRefine((item, ctx) => {
+  if (item.scenarioType !== 'scenario-outline') {
+    return;
+  }
+  if (!item.examples) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['examples'], message: 'Scenario outlines require an Examples table' });
+    return;
+  }
+  item.examples.rows.forEach((row, index) => {
+    if (row.length !== item.examples!.headers.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['examples', 'rows', index],
+        message: `Examples row has ${row.length} cells but ${item.examples!.headers.length} headers`,
+      });
+    }
+  });
+});
+
+const GherkinTestCaseSchema = z.object({
+  items: z.array(GherkinTestCaseItemSchema),
+}).strict();
+
 interface PipelineContext {
   request: TestCaseGenerationRequest;
   agenticOptions: AgenticGenerationOptions | undefined;
@@ -113,6 +200,13 @@ interface PipelineContext {
   writerProvider: LLMProvider;
   reviewerModel: string;
   reviewerProvider: LLMProvider;
+  chunks: RequirementChunk[];
+  requirementRefs: RequirementReference[];
+  existingCases: TestCase[];
+  signal?: AbortSignal;
+  checkpoint: GenerationCheckpoint | null;
+  onCheckpoint?: GenerationRunOptions['onCheckpoint'];
+  onUsage?: GenerationRunOptions['onUsage'];
 }
 
 interface GenerationArtifacts {
@@ -120,18 +214,71 @@ interface GenerationArtifacts {
   rawCases: any[];
   reviewFeedback: ReviewFeedbackItem[];
   passesExecuted: number;
+  incompleteSliceIds: string[];
   warnings: string[];
   telemetry: AgenticTelemetry;
 }
 
+interface WriterSliceResult {
+  planItem: GenerationPlanItem;
+  cases: any[];
+  durationMs: number;
+  warnings: string[];
+  index: number;
+  failed?: boolean;
+  restored?: boolean;
+  usage?: TokenUsage;
+}
+
 interface GenerateObjectOptions<T> {
   model: LanguageModel;
   prompt: string;
   schema: z.ZodType<T>;
   retryInstruction?: string;
+  abortSignal?: AbortSignal;
+}
+
+/** Passes a model call's usage to the run's listener as soon as it is known. */
+function reportUsage(usage: TokenUsage | undefined, onUsage?: GenerationRunOptions['onUsage']) {
+  if (usage) {
+    onUsage?.(usage);
+  }
+  return usage;
 }
 
-function tryParseCleaned<T>(error: any, schema: z.ZodType<T>) {
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    const error = new Error('Generation cancelled');
+    error.name = 'AbortError';
+    throw error;
+  }
+}
+
+/**
+ * Parse errors carry the model's text but not the call's token usage, so it is estimated from the prompt and the
+ * text rather than dropped.
+ */
+function estimateFailedCallUsage(error: any, options: { model: LanguageModel; prompt: string }) {
+  if (typeof error?.text !== 'string') {
+    return undefined;
+  }
+  const promptTokens = countTokens(options.prompt, options.model.modelId);
+  const completionTokens = countTokens(error.text, options.model.modelId);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } as LanguageModelUsage;
+}
+
+function addUsage(first: LanguageModelUsage | undefined, second: LanguageModelUsage | undefined) {
+  if (!first || !second) {
+    return first ?? second;
+  }
+  return {
+    promptTokens: first.promptTokens + second.promptTokens,
+    completionTokens: first.completionTokens + second.completionTokens,
+    totalTokens: first.totalTokens + second.totalTokens,
+  } as LanguageModelUsage;
+}
+
+function tryParseCleaned<T>(error: any, schema: z.ZodType<T>, usage: LanguageModelUsage | undefined) {
   if (error?.name === 'AI_JSONParseError' && typeof error?.text === 'string') {
     try {
       const cleaned = JsonCleaner.cleanJsonResponse(error.text);
@@ -140,6 +287,7 @@ function tryParseCleaned<T>(error: any, schema: z.ZodType<T>) {
       return {
         object: validated,
         text: JSON.stringify(validated),
+        usage,
       };
     } catch {
       return null;
@@ -148,25 +296,35 @@ function tryParseCleaned<T>(error: any, schema: z.ZodType<T>) {
   return null;
 }
 
+/**
+ * generateObject with two fallbacks for malformed JSON: salvage the text, then retry once with `retryInstruction`.
+ * The returned usage covers every call made, including a first attempt that was retried.
+ */
 async function safeGenerateObject<T>(options: GenerateObjectOptions<T>) {
   const { retryInstruction, ...baseOptions } = options;
   try {
     return await generateObject<T>(baseOptions);
   } catch (error: any) {
-    const parsed = tryParseCleaned(error, options.schema);
+    if (options.abortSignal?.aborted) {
+      throw error;
+    }
+    const firstUsage = estimateFailedCallUsage(error, baseOptions);
+    const parsed = tryParseCleaned(error, options.schema, firstUsage);
     if (parsed) {
       return parsed;
     }
 
     if (retryInstruction) {
+      const retryOptions = { ...baseOptions, prompt: `${baseOptions.prompt}\n\n${retryInstruction}` };
       try {
-        const retryResult = await generateObject<T>({
-          ...baseOptions,
-          prompt: `${baseOptions.prompt}\n\n${retryInstruction}`,
-        });
-        return retryResult;
+        const retryResult = await generateObject<T>(retryOptions);
+        return { object: retryResult.object, usage: addUsage(firstUsage, retryResult.usage) };
       } catch (retryError: any) {
-        const retryParsed = tryParseCleaned(retryError, options.schema);
+        const retryParsed = tryParseCleaned(
+          retryError,
+          options.schema,
+          addUsage(firstUsage, estimateFailedCallUsage(retryError, retryOptions))
+        );
         if (retryParsed) {
           return retryParsed;
         }
@@ -177,20 +335,35 @@ async function safeGenerateObject<T>(options: GenerateObjectOptions<T>) {
   }
 }
 
+// Content fingerprint for deciding whether a refined case actually changed.
+function comparableCase(testCase: TestCase): string {
+  const { createdAt: _createdAt, markdownContent: _markdown, overlap: _overlap, ...content } = testCase;
+  return JSON.stringify(content);
+}
+
+/** Maps a provider/model pair to a language model; the eval harness swaps in a fixture-backed model. */
+export type LanguageModelResolver = typeof resolveLanguageModel;
+
 export class TestCaseAgenticPipeline {
+  constructor(private readonly resolveModel: LanguageModelResolver = resolveLanguageModel) {}
+
   async generate(
     request: TestCaseGenerationRequest,
-    progressCallback?: (event: AgenticProgressEvent) => void
+    progressCallback?: (event: AgenticProgressEvent) => void,
+    runOptions: GenerationRunOptions = {}
   ): Promise<TestCaseGenerationResponse> {
     const agenticOptions = request.agenticOptions;
 
     if (!agenticOptions?.enableAgentic) {
-      return this.generateSingleShot(request);
+      return this.generateSingleShot(request, runOptions.signal, runOptions.onUsage);
     }
 
     const startTime = Date.now();
-    const context = this.buildContext(request, agenticOptions);
+    const context = this.buildContext(request, agenticOptions, runOptions);
     progressCallback?.({ type: 'planner:start' });
+    if (agenticOptions.reviewPlanFirst && !request.approvedPlan?.length && !context.checkpoint?.plan.length) {
+      return this.generatePlanForApproval(context, startTime, progressCallback);
+    }
     const artifacts = await this.runAgenticWorkflow(context, progressCallback);
     const totalDurationMs = Date.now() - startTime;
 
@@ -204,6 +377,7 @@ export class TestCaseAgenticPipeline {
       reviewerDurationMs: artifacts.telemetry.reviewerDurationMs,
       planItemCount: artifacts.plan.length,
       testCaseCount: artifacts.rawCases.length,
+      requirementChunks: context.chunks.length,
       writerSlices: artifacts.telemetry.writerSlices,
       reviewPasses: artifacts.telemetry.reviewPasses,
       provider: context.provider,
@@ -212,13 +386,33 @@ export class TestCaseAgenticPipeline {
         writer: context.writerModel,
         reviewer: context.reviewerModel,
       },
+      plannerUsage: artifacts.telemetry.plannerUsage,
+      usage: sumTokenUsage([
+        artifacts.telemetry.plannerUsage,
+        ...(artifacts.telemetry.writerSlices ?? []).map((slice) => slice.usage),
+        ...(artifacts.telemetry.reviewPasses ?? []).flatMap((pass) => [pass.usage, pass.revisionUsage]),
+      ]),
       warnings: warnings.length ? warnings : undefined,
     };
 
+    const testCases = classifyAgainstExisting(
+      this.linkRequirements(mapModelResponseToTestCases(artifacts.rawCases, request.mode), context.requirementRefs),
+      context.existingCases,
+      artifacts.reviewFeedback
+    );
+    // Parallel writer slices only collide on identical ids; catch reworded copies across slices here.
+    const duplicateClusters = findDuplicateClusters(testCases);
+
     const result: TestCaseGenerationResponse = {
-      testCases: mapModelResponseToTestCases(artifacts.rawCases, request.mode),
+      testCases,
       plan: artifacts.plan,
       reviewFeedback: artifacts.reviewFeedback,
+      traceability: context.requirementRefs.length
+        ? buildTraceabilityMatrix(context.requirementRefs, testCases)
+        : undefined,
+      duplicateClusters: duplicateClusters.length ? duplicateClusters : undefined,
+      runId: request.runId,
+      incompleteSliceIds: artifacts.incompleteSliceIds.length ? artifacts.incompleteSliceIds : undefined,
       passesExecuted: artifacts.passesExecuted,
       warnings: warnings.length ? warnings : undefined,
       telemetry,
@@ -229,9 +423,193 @@ export class TestCaseAgenticPipeline {
     return result;
   }
 
+  /**
+   * Runs only the planner so the plan can be edited before any writer calls are spent. The client resends
+   * the request with `approvedPlan` to continue from the writer stage.
+   */
+  private async generatePlanForApproval(
+    context: PipelineContext,
+    startTime: number,
+    progressCallback?: (event: AgenticProgressEvent) => void
+  ): Promise<TestCaseGenerationResponse> {
+    const planner = await this.runPlanner(context, progressCallback);
+    const plan = this.applyChunkRefs(planner.items, context.chunks);
+    const totalDurationMs = Date.now() - startTime;
+
+    const result: TestCaseGenerationResponse = {
+      testCases: [],
+      plan,
+      runId: context.request.runId,
+      awaitingPlanApproval: true,
+      telemetry: {
+        totalDurationMs,
+        plannerDurationMs: totalDurationMs,
+        planItemCount: plan.length,
+        requirementChunks: context.chunks.length,
+        provider: context.provider,
+        models: {
+          planner: context.plannerModel,
+          writer: context.writerModel,
+          reviewer: context.reviewerModel,
+        },
+        plannerUsage: planner.usage,
+        usage: planner.usage,
+      },
+    };
+
+    progressCallback?.({ type: 'final', result });
+
+    return result;
+  }
+
+  /**
+   * Applies a free-text instruction to a case or area through the reviewer revision prompt. Targets are
+   * revised in revision-sized chunks and each chunk's changed or added cases are reported as it completes.
+   */
+  async refine(
+    request: TestCaseRefinementRequest,
+    progressCallback?: (event: TestCaseRefinementEvent) => void,
+    signal?: AbortSignal,
+    onUsage?: GenerationRunOptions['onUsage']
+  ): Promise<TestCaseRefinementResponse> {
+    const provider = request.provider ?? 'openai';
+    const modelId = request.model ?? this.inferDefaultModel(provider);
+    const model = this.resolveModel({ provider, model: modelId });
+    const generationRequest: TestCaseGenerationRequest = {
+      requirements: request.requirements ?? '',
+      mode: request.mode,
+      provider,
+      model: modelId,
+      userIdentifier: request.userIdentifier,
+      promptTemplates: request.promptTemplates,
+    };
+    const requirementRefs = extractRequirements(request.requirements ?? '');
+    const { softLimit } = this.getRevisionChunkLimits(generationRequest);
+    const chunks: TestCase[][] = [];
+    for (let index = 0; index < request.testCases.length; index += softLimit) {
+      chunks.push(request.testCases.slice(index, index + softLimit));
+    }
+
+    const usedIds = new Set([...(request.contextCases ?? []), ...request.testCases].map((testCase) => testCase.id));
+    let nextIdIndex = usedIds.size + 1;
+    const allocateId = () => {
+      let id = this.generateCaseId(request.mode, nextIdIndex);
+      while (usedIds.has(id)) {
+        nextIdIndex += 1;
+        id = this.generateCaseId(request.mode, nextIdIndex);
+      }
+      usedIds.add(id);
+      return id;
+    };
+
+    const changed: TestCase[] = [];
+    const warnings: string[] = [];
+    const usages: Array<TokenUsage | undefined> = [];
+
+    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex += 1) {
+      throwIfAborted(signal);
+      const chunk = chunks[chunkIndex];
+      const chunkIds = new Set(chunk.map((testCase) => testCase.id));
+      const feedback: ReviewFeedbackItem[] = chunk.map((testCase) => ({
+        caseId: testCase.id,
+        issueType: REFINE_ISSUE,
+        severity: 'major',
+        summary: request.instruction,
+      }));
+      const { prompt, templateVersion } = this.buildRevisionPrompt(
+        generationRequest,
+        chunk,
+        feedback,
+        1,
+        undefined,
+        Array.from(chunkIds),
+        request.instruction
+      );
+
+      try {
+        const result = await safeGenerateObject({
+          model,
+          schema: this.getCaseSchema(request.mode),
+          prompt,
+          abortSignal: signal,
+          retryInstruction: 'Return ONLY a JSON object with an "items" array of updated cases. No additional text.',
+        });
+
+        logAIInteraction({
+          provider,
+          model: modelId,
+          prompt,
+          response: JSON.stringify(result.object),
+          context: this.applyUserContext(request.userIdentifier, {
+            type: 'test-case-refinement',
+            chunk: chunkIndex + 1,
+            totalChunks: chunks.length,
+            promptTemplate: 'revision',
+            promptVersion: templateVersion,
+          }),
+        });
+        usages.push(reportUsage(toTokenUsage(result.usage, provider, modelId), onUsage));
+
+        // New cases must not reuse ids from outside this chunk, or accepting them would overwrite unrelated cases.
+        const items = (result.object.items ?? []).map((item: Record<string, any>) => {
+          const id = typeof item.id === 'string' ? item.id.trim() : '';
+          if (chunkIds.has(id)) {
+            return { ...item, id };
+          }
+          if (id && !usedIds.has(id)) {
+            usedIds.add(id);
+            return { ...item, id };
+          }
+          return { ...item, id: allocateId() };
+        });
+        const mapped = mapModelResponseToTestCases(items, request.mode);
+        const revised = requirementRefs.length ? this.linkRequirements(mapped, requirementRefs) : mapped;
+        const chunkChanged = revised
+          .map((testCase) => {
+            const original = chunk.find((candidate) => candidate.id === testCase.id);
+            return original?.originalScenarioId ? { ...testCase, originalScenarioId: original.originalScenarioId } : testCase;
+          })
+          .filter((testCase) => {
+            const original = chunk.find((candidate) => candidate.id === testCase.id);
+            return !original || comparableCase(original) !== comparableCase(testCase);
+          });
+
+        changed.push(...chunkChanged);
+        progressCallback?.({
+          type: 'refine:chunk-complete',
+          chunkIndex: chunkIndex + 1,
+          totalChunks: chunks.length,
+          testCases: chunkChanged,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown refinement error';
+        warnings.push(`Refinement chunk ${chunkIndex + 1} of ${chunks.length} failed: ${message}`);
+        console.warn('[Agentic] Refinement chunk failed', { chunk: chunkIndex + 1, error: message });
+        progressCallback?.({
+          type: 'refine:chunk-complete',
+          chunkIndex: chunkIndex + 1,
+          totalChunks: chunks.length,
+          testCases: [],
+        });
+      }
+    }
+
+    const result: TestCaseRefinementResponse = {
+      testCases: changed,
+      warnings: warnings.length ? warnings : undefined,
+      usage: sumTokenUsage(usages),
+    };
+    progressCallback?.({ type: 'final', result });
+    return result;
+  }
+
   private buildContext(
     request: TestCaseGenerationRequest,
-    options?: AgenticGenerationOptions
+    options?: AgenticGenerationOptions,
+    runOptions: GenerationRunOptions = {}
   ): PipelineContext {
     const baseProvider = request.provider ?? 'openai';
 
@@ -243,6 +621,12 @@ export class TestCaseAgenticPipeline {
     const writerModel = options?.writerModel ?? (request.model ?? this.inferDefaultModel(writerProvider));
     const reviewerModel = options?.reviewerModel ?? writerModel;
 
+    const chunks = chunkRequirements(request.requirements ?? '', {
+      strategy: options?.chunkStrategy ?? 'auto',
+      model: writerModel,
+      maxChunkTokens: options?.chunkTokenLimit,
+    });
+
     return {
       request,
       agenticOptions: options,
@@ -253,15 +637,35 @@ export class TestCaseAgenticPipeline {
       writerProvider,
       reviewerModel,
       reviewerProvider,
+      chunks,
+      requirementRefs: extractRequirements(request.requirements ?? ''),
+      existingCases: request.existingTestCases ?? [],
+      signal: runOptions.signal,
+      checkpoint: runOptions.checkpoint ?? null,
+      onCheckpoint: runOptions.onCheckpoint,
+      onUsage: runOptions.onUsage,
     };
   }
 
+  private linkRequirements(testCases: TestCase[], requirementRefs: RequirementReference[]): TestCase[] {
+    return testCases.map((testCase) => {
+      const requirementIds = normalizeRequirementIds(testCase.requirementIds, requirementRefs);
+      return { ...testCase, requirementIds: requirementIds.length ? requirementIds : undefined };
+    });
+  }
+
   private inferDefaultModel(provider: LLMProvider): string {
     switch (provider) {
       case 'gemini':
         return process.env.GEMINI_MODEL ?? 'models/gemini-1.5-pro-latest';
       case 'openrouter':
         return process.env.OPENROUTER_MODEL ?? 'openrouter/auto';
+      case 'local':
+        return process.env.LOCAL_LLM_MODEL ?? 'llama3.1';
+      case 'anthropic':
+        return process.env.ANTHROPIC_MODEL ?? 'claude-sonnet-4-5';
+      case 'azure':
+        return process.env.AZURE_OPENAI_DEPLOYMENT ?? 'gpt-4.1-mini';
       case 'openai':
       default:
         return process.env.OPENAI_MODEL ?? 'gpt-4.1-mini';
@@ -275,7 +679,15 @@ export class TestCaseAgenticPipeline {
     const { request } = context;
 
     const plannerStart = Date.now();
-    const plan = await this.runPlanner(context, progressCallback);
+    const approvedPlan = request.approvedPlan?.length
+      ? this.applyChunkRefs(this.normalizePlannerItems(request.approvedPlan), context.chunks)
+      : null;
+    const restoredPlan = approvedPlan ?? (context.checkpoint?.plan.length ? context.checkpoint.plan : null);
+    const planner = restoredPlan ? null : await this.runPlanner(context, progressCallback);
+    const plan = restoredPlan ?? this.applyChunkRefs(planner?.items ?? [], context.chunks);
+    if (restoredPlan) {
+      progressCallback?.({ type: 'planner:complete', planItems: plan.length });
+    }
     const plannerDurationMs = Date.now() - plannerStart;
 
     const writerStart = Date.now();
@@ -293,6 +705,7 @@ export class TestCaseAgenticPipeline {
       rawCases: writerOutcome.rawCases,
       reviewFeedback: reviewOutcome.feedback,
       passesExecuted: reviewOutcome.passesExecuted,
+      incompleteSliceIds: writerOutcome.incompleteSliceIds,
       warnings,
       telemetry: {
         totalDurationMs: 0,
@@ -302,6 +715,7 @@ export class TestCaseAgenticPipeline {
         reviewerDurationMs,
         writerSlices: writerOutcome.slices,
         reviewPasses: reviewOutcome.reviewTelemetry,
+        plannerUsage: planner?.usage,
       },
     };
   }
@@ -309,10 +723,10 @@ export class TestCaseAgenticPipeline {
   private async runPlanner(
     context: PipelineContext,
     progressCallback?: (event: AgenticProgressEvent) => void
-  ): Promise<GenerationPlanItem[]> {
-    const { request, plannerModel, plannerProvider } = context;
-    const requirements = request.requirements ?? '';
-    const filesSummary = summarizeFiles(request.files);
+  ): Promise<{ items: GenerationPlanItem[]; usage?: TokenUsage }> {
+    const { request, plannerModel, plannerProvider, chunks } = context;
+    const isChunked = chunks.length > 1;
+    const filesSummary = summarizeFiles(request.files, { includePreview: !isChunked });
     const scenarioSummary = summarizeScenarios(request.selectedScenarios);
 
     const priorityMode = request.priorityMode ?? 'comprehensive';
@@ -328,18 +742,23 @@ export class TestCaseAgenticPipeline {
         ? 'When priority mode is core-functionality, limit the plan to smoke-level, business-critical scenarios that would block release if they failed. Skip cosmetic, edge, or nice-to-have coverage. Think in terms of regression blockers, P0 flows, and regulatory “must-pass” checks only.'
         : 'When priority mode is comprehensive, aim for broad coverage across happy, alternate, and negative flows, including boundary conditions and resilience checks.';
 
-    const promptSections = [
-      'You are an expert QA strategist. Break the supplied materials into a concise execution plan for generating test cases.',
-      `Priority mode: ${priorityMode}. ${priorityGuidance} Produce a JSON object with an "items" array of plan entries (id, title, area, focus, estimatedCases, chunkRefs when applicable).`,
-      'Keep each focus under 160 characters and notes under 220 characters. Do not enumerate every acceptance criterion; summarize only the key goals for coverage.',
-      requirements ? `Requirements:\n${requirements}` : 'No requirements provided.',
-      filesSummary ? `Reference documents:\n${filesSummary}` : '',
-      scenarioSummary,
-    ].filter(Boolean);
-
-    const prompt = promptSections.join('\n\n');
+    const { prompt, templateVersion } = renderPrompt(
+      'planner',
+      {
+        priorityMode,
+        priorityGuidance,
+        styleGuide: formatStyleGuide(context.request.styleGuide),
+        requirements: this.buildPlannerRequirementsSection(context),
+        existingSuite: context.existingCases.length
+          ? `Existing regression suite (${context.existingCases.length} cases). Plan only for behaviour these cases do not already cover; skip flows they verify and do not plan rewrites of them:\n${formatExistingSuite(context.existingCases)}`
+          : '',
+        referenceDocuments: filesSummary ? `Reference documents:\n${filesSummary}` : '',
+        scenarios: scenarioSummary,
+      },
+      context.request.promptTemplates
+    );
 
-    const model = resolveLanguageModel({
+    const model = this.resolveModel({
       provider: plannerProvider,
       model: plannerModel,
     });
@@ -347,6 +766,7 @@ export class TestCaseAgenticPipeline {
     let result;
     let planItems: GenerationPlanItem[] = [];
     let loggedPrompt = prompt;
+    let usage: TokenUsage | undefined;
 
     if (this.shouldUseStructuredPlanner(plannerProvider, plannerModel)) {
       try {
@@ -354,9 +774,11 @@ export class TestCaseAgenticPipeline {
           model,
           schema: PlannerSchema,
           prompt,
+          abortSignal: context.signal,
           retryInstruction: 'Return ONLY a JSON object with an "items" array of plan entries matching the schema. Do not repeat phrases or include commentary.',
         });
         planItems = this.normalizePlannerItems(result.object.items ?? []);
+        usage = toTokenUsage(result.usage, plannerProvider, plannerModel);
       } catch (error: any) {
         if (!this.isPlannerSchemaError(error)) {
           throw error;
@@ -368,10 +790,11 @@ export class TestCaseAgenticPipeline {
           error: error?.message,
         });
 
-        const fallback = await this.generatePlannerViaText(model, prompt);
+        const fallback = await this.generatePlannerViaText(model, prompt, context.signal);
         planItems = fallback.items;
         result = { object: { items: planItems }, text: fallback.rawText } as any;
         loggedPrompt = fallback.prompt;
+        usage = toTokenUsage(fallback.usage, plannerProvider, plannerModel);
 
         console.info('[Agentic] Planner text parsing succeeded', {
           provider: plannerProvider,
@@ -380,10 +803,11 @@ export class TestCaseAgenticPipeline {
         });
       }
     } else {
-      const fallback = await this.generatePlannerViaText(model, prompt);
+      const fallback = await this.generatePlannerViaText(model, prompt, context.signal);
       planItems = fallback.items;
       result = { object: { items: planItems }, text: fallback.rawText } as any;
       loggedPrompt = fallback.prompt;
+      usage = toTokenUsage(fallback.usage, plannerProvider, plannerModel);
       console.info('[Agentic] Planner text parsing used by default', {
         provider: plannerProvider,
         model: plannerModel,
@@ -391,12 +815,19 @@ export class TestCaseAgenticPipeline {
       });
     }
 
+    reportUsage(usage, context.onUsage);
+
     logAIInteraction({
       provider: plannerProvider,
       model: plannerModel,
       prompt: loggedPrompt,
     response: JSON.stringify(result.object),
-      context: this.withUserContext(context, { type: 'test-case-generation', stage: 'planner' }),
+      context: this.withUserContext(context, {
+        type: 'test-case-generation',
+        stage: 'planner',
+        promptTemplate: 'planner',
+        promptVersion: templateVersion,
+      }),
     });
 
     console.log('[Agentic] Planner completed', {
@@ -407,7 +838,7 @@ export class TestCaseAgenticPipeline {
 
     progressCallback?.({ type: 'planner:complete', planItems: planItems.length });
 
-    return planItems;
+    return { items: planItems, usage };
   }
 
   private isPlannerSchemaError(error: any) {
@@ -418,6 +849,62 @@ export class TestCaseAgenticPipeline {
     return message.includes("Invalid schema for response_format 'response'");
   }
 
+  private buildPlannerRequirementsSection(context: PipelineContext): string {
+    const { request, chunks, plannerProvider, plannerModel } = context;
+    if (chunks.length <= 1) {
+      const requirements = request.requirements ?? '';
+      return requirements ? `Requirements:\n${requirements}` : 'No requirements provided.';
+    }
+
+    const contextWindow = getContextWindow(plannerProvider, plannerModel) ?? FALLBACK_CONTEXT_WINDOW;
+    const totalTokens = chunks.reduce((total, chunk) => total + chunk.tokens, 0);
+    const fitsInContext = totalTokens <= contextWindow * PLANNER_CONTEXT_SHARE;
+    const chunkRefInstruction = `The requirements are split into ${chunks.length} identified chunks. Every plan item MUST list in chunkRefs the chunk ids (e.g., "${chunks[0].id}") whose requirements it covers; the writer only receives the referenced chunks. Make sure every chunk is referenced by at least one plan item.`;
+
+    return fitsInContext
+      ? `${chunkRefInstruction}\n\nRequirement chunks:\n${formatChunks(chunks)}`
+      : `${chunkRefInstruction}\n\nRequirement chunk index (excerpts only):\n${formatChunkIndex(chunks)}`;
+  }
+
+  private applyChunkRefs(plan: GenerationPlanItem[], chunks: RequirementChunk[]): GenerationPlanItem[] {
+    return plan.map((item) => {
+      const chunkRefs = normalizeChunkRefs(item.chunkRefs, chunks);
+      return { ...item, chunkRefs: chunkRefs.length ? chunkRefs : undefined };
+    });
+  }
+
+  private resolveWriterChunks(
+    chunks: RequirementChunk[],
+    planItem: GenerationPlanItem
+  ): { chunks: RequirementChunk[]; warning?: string } {
+    if (chunks.length <= 1) {
+      return { chunks };
+    }
+    const referenced = selectChunks(chunks, planItem.chunkRefs);
+    if (referenced.length) {
+      return { chunks: referenced };
+    }
+    return {
+      chunks,
+      warning: `Plan ${planItem.id} did not reference any requirement chunks; the writer received all ${chunks.length} chunks.`,
+    };
+  }
+
+  // In chunked runs the writer only sees its own chunks, so only offer the requirement IDs that appear in them.
+  private selectRequirementRefs(
+    requirementRefs: RequirementReference[],
+    chunks: RequirementChunk[],
+    totalChunks: number
+  ): RequirementReference[] {
+    if (totalChunks <= 1) {
+      return requirementRefs;
+    }
+    const chunkText = chunks.map((chunk) => chunk.text).join('\n').replace(/\s+/g, ' ');
+    return requirementRefs.filter(
+      (requirement) => chunkText.includes(requirement.id) || chunkText.includes(requirement.text.replace(/…$/, ''))
+    );
+  }
+
   private normalizePlannerItems(items: any[]): GenerationPlanItem[] {
     return items.map((item: any, index: number) => {
       const id = typeof item?.id === 'string' && item.id.trim() ? item.id.trim() : `PLAN-${index + 1}`;
@@ -472,23 +959,27 @@ export class TestCaseAgenticPipeline {
   }
 
   private shouldUseStructuredPlanner(provider: LLMProvider, _model: string): boolean {
-    if (provider === 'openai') {
+    // Azure serves the same OpenAI models. Local models often lack schema-constrained decoding; the relaxed text
+    // planner tolerates their output better.
+    if (provider === 'openai' || provider === 'azure' || provider === 'local') {
       return false;
     }
 
     return true;
   }
 
-  private async generatePlannerViaText(model: LanguageModel, basePrompt: string): Promise<{
+  private async generatePlannerViaText(model: LanguageModel, basePrompt: string, abortSignal?: AbortSignal): Promise<{
     items: GenerationPlanItem[];
     rawText: string;
     prompt: string;
+    usage?: LanguageModelUsage;
   }> {
     const relaxedPrompt = `${basePrompt}\n\nIMPORTANT: Return JSON with an "items" array where each entry includes id, title, area, focus, estimatedCases (positive integer), chunkRefs (array of strings when applicable), and notes (optional).`;
 
     const textResult = await generateText({
       model,
       prompt: relaxedPrompt,
+      abortSignal,
     });
 
     const cleaned = this.cleanPlannerJson(textResult.text);
@@ -527,18 +1018,65 @@ export class TestCaseAgenticPipeline {
       items,
       rawText: cleaned,
       prompt: relaxedPrompt,
+      usage: textResult.usage,
     };
   }
 
+  private async saveCheckpoint(
+    context: PipelineContext,
+    plan: GenerationPlanItem[],
+    completedSlices: Record<string, any[]>
+  ): Promise<void> {
+    if (!context.onCheckpoint || !context.request.runId) {
+      return;
+    }
+    try {
+      await context.onCheckpoint({
+        runId: context.request.runId,
+        plan,
+        completedSlices,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn('[Agentic] Failed to save generation checkpoint', {
+        runId: context.request.runId,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
   private async runWriter(
     context: PipelineContext,
     plan: GenerationPlanItem[],
     progressCallback?: (event: AgenticProgressEvent) => void
-  ): Promise<{ rawCases: any[]; warnings: string[]; slices: WriterSliceTelemetry[]; concurrencyUsed: number }> {
+  ): Promise<{
+    rawCases: any[];
+    warnings: string[];
+    slices: WriterSliceTelemetry[];
+    concurrencyUsed: number;
+    incompleteSliceIds: string[];
+  }> {
     const { request, writerModel, writerProvider, agenticOptions } = context;
     const warnings: string[] = [];
     const casesById = new Map<string, any>();
     const slices: WriterSliceTelemetry[] = [];
+    const incompleteSliceIds: string[] = [];
+
+    // Slices already written by an earlier attempt of this run are reused rather than rewritten.
+    const completedSlices: Record<string, any[]> = {};
+    plan.forEach((planItem) => {
+      const restored = context.checkpoint?.completedSlices[planItem.id];
+      if (restored) {
+        completedSlices[planItem.id] = restored;
+      }
+    });
+    let pendingCheckpoint = this.saveCheckpoint(context, plan, completedSlices);
+    const checkpointSlice = (result: WriterSliceResult) => {
+      completedSlices[result.planItem.id] = result.cases;
+      // Chained so concurrent slices never write the checkpoint out of order.
+      pendingCheckpoint = pendingCheckpoint.then(() => this.saveCheckpoint(context, plan, { ...completedSlices }));
+      return pendingCheckpoint;
+    };
 
     const schema = this.getCaseSchema(request.mode);
     const requestedConcurrency = agenticOptions?.writerConcurrency ?? 1;
@@ -558,7 +1096,20 @@ export class TestCaseAgenticPipeline {
       planItem: GenerationPlanItem,
       existingCases: any[],
       index: number
-    ): Promise<{ planItem: GenerationPlanItem; cases: any[]; durationMs: number; warnings: string[]; index: number }> => {
+    ): Promise<WriterSliceResult> => {
+      const restored = completedSlices[planItem.id];
+      if (restored) {
+        progressCallback?.({
+          type: 'writer:slice-complete',
+          planId: planItem.id,
+          index,
+          totalSlices: plan.length,
+          cases: restored.length,
+        });
+        return { planItem, cases: restored, durationMs: 0, warnings: [], index, restored: true };
+      }
+
+      throwIfAborted(context.signal);
       console.log('[Agentic] Writer slice started', {
         planId: planItem.id,
       });
@@ -568,16 +1119,25 @@ export class TestCaseAgenticPipeline {
         index,
         totalSlices: plan.length,
       });
-      const prompt = this.buildWriterPrompt(request, planItem, existingCases);
-      const model = resolveLanguageModel({ provider: writerProvider, model: writerModel });
+      const writerChunks = this.resolveWriterChunks(context.chunks, planItem);
+      const { prompt, templateVersion } = this.buildWriterPrompt(
+        request,
+        planItem,
+        existingCases,
+        writerChunks.chunks,
+        context.chunks.length,
+        this.selectRequirementRefs(context.requirementRefs, writerChunks.chunks, context.chunks.length)
+      );
+      const model = this.resolveModel({ provider: writerProvider, model: writerModel });
       const sliceStart = Date.now();
-      const sliceWarnings: string[] = [];
+      const sliceWarnings: string[] = writerChunks.warning ? [writerChunks.warning] : [];
 
       try {
         const result = await safeGenerateObject({
           model,
           schema,
           prompt,
+          abortSignal: context.signal,
           retryInstruction: 'Return ONLY a JSON object with an "items" array of test cases that matches the schema. Do not include any explanation or repeated sentences.',
         });
 
@@ -590,6 +1150,8 @@ export class TestCaseAgenticPipeline {
             type: 'test-case-generation',
             stage: 'writer',
             planId: planItem.id,
+            promptTemplate: 'writer',
+            promptVersion: templateVersion,
           }),
         });
 
@@ -607,8 +1169,20 @@ export class TestCaseAgenticPipeline {
           totalSlices: plan.length,
           cases: cases.length,
         });
-        return { planItem, cases, durationMs, warnings: sliceWarnings, index };
+        const sliceResult: WriterSliceResult = {
+          planItem,
+          cases,
+          durationMs,
+          warnings: sliceWarnings,
+          index,
+          usage: reportUsage(toTokenUsage(result.usage, writerProvider, writerModel), context.onUsage),
+        };
+        await checkpointSlice(sliceResult);
+        return sliceResult;
       } catch (error) {
+        if (context.signal?.aborted) {
+          throw error;
+        }
         const durationMs = Date.now() - sliceStart;
         const message = error instanceof Error ? error.message : 'Unknown generation error';
         const warning = `Failed to generate cases for plan ${planItem.id}: ${message}`;
@@ -624,11 +1198,14 @@ export class TestCaseAgenticPipeline {
           totalSlices: plan.length,
           cases: 0,
         });
-        return { planItem, cases: [], durationMs, warnings: sliceWarnings, index };
+        return { planItem, cases: [], durationMs, warnings: sliceWarnings, index, failed: true };
       }
     };
 
-    const mergeSliceResult = (result: { planItem: GenerationPlanItem; cases: any[]; durationMs: number; warnings: string[]; index: number }) => {
+    const mergeSliceResult = (result: WriterSliceResult) => {
+      if (result.failed) {
+        incompleteSliceIds.push(result.planItem.id);
+      }
       const sliceWarnings = [...result.warnings];
       result.cases.forEach((testCase, index) => {
         const caseId = testCase.id || this.generateCaseId(request.mode, casesById.size + index + 1);
@@ -648,7 +1225,10 @@ export class TestCaseAgenticPipeline {
         planId: result.planItem.id,
         durationMs: result.durationMs,
         caseCount: result.cases.length,
+        chunkRefs: context.chunks.length > 1 ? result.planItem.chunkRefs : undefined,
         warnings: sliceWarnings.length ? sliceWarnings : undefined,
+        restored: result.restored || undefined,
+        usage: result.usage,
       });
     };
 
@@ -659,8 +1239,7 @@ export class TestCaseAgenticPipeline {
         mergeSliceResult(result);
       }
     } else {
-      const results: Array<{ planItem: GenerationPlanItem; cases: any[]; durationMs: number; warnings: string[]; index: number }> =
-        new Array(plan.length);
+      const results: WriterSliceResult[] = new Array(plan.length);
       let nextIndex = 0;
 
       const worker = async () => {
@@ -696,7 +1275,15 @@ export class TestCaseAgenticPipeline {
       totalCases: casesById.size,
     });
 
-    return { rawCases: Array.from(casesById.values()), warnings, slices, concurrencyUsed: concurrency };
+    await pendingCheckpoint;
+
+    return {
+      rawCases: Array.from(casesById.values()),
+      warnings,
+      slices,
+      concurrencyUsed: concurrency,
+      incompleteSliceIds,
+    };
   }
 
   private async runReviewer(
@@ -722,8 +1309,9 @@ export class TestCaseAgenticPipeline {
     const caseSchema = this.getCaseSchema(request.mode);
 
     for (let pass = 1; pass <= maxPasses; pass += 1) {
-      const prompt = this.buildReviewerPrompt(request, plan, mutableCases, pass);
-      const model = resolveLanguageModel({ provider: reviewerProvider, model: reviewerModel });
+      throwIfAborted(context.signal);
+      const { prompt, templateVersion } = this.buildReviewerPrompt(request, plan, mutableCases, pass);
+      const model = this.resolveModel({ provider: reviewerProvider, model: reviewerModel });
       const passStart = Date.now();
 
       let reviewResult;
@@ -738,9 +1326,13 @@ export class TestCaseAgenticPipeline {
           model,
           schema: reviewSchema,
           prompt,
+          abortSignal: context.signal,
           retryInstruction: 'Respond with JSON matching the schema (feedback array + summary). Do not add commentary outside the JSON.',
         });
       } catch (error) {
+        if (context.signal?.aborted) {
+          throw error;
+        }
         const durationMs = Date.now() - passStart;
         const message = error instanceof Error ? error.message : 'Unknown review error';
         const warning = `Reviewer pass ${pass} failed: ${message}`;
@@ -762,20 +1354,25 @@ export class TestCaseAgenticPipeline {
         provider: reviewerProvider,
         model: reviewerModel,
         prompt,
-          response: JSON.stringify(reviewResult.object),
+        response: JSON.stringify(reviewResult.object),
         context: this.withUserContext(context, {
           type: 'test-case-generation',
           stage: 'reviewer',
           pass,
+          promptTemplate: 'reviewer',
+          promptVersion: templateVersion,
         }),
       });
 
       const feedback = reviewResult.object.feedback ?? [];
-      const normalizedFeedback = feedback.map((entry) => ({
-        ...entry,
-        issueType: entry.issueType?.trim() || 'general',
-        suggestion: entry.suggestion?.trim() || 'No additional suggestion provided.',
-      }));
+      const normalizedFeedback = attachGuidelineRuleIds(
+        feedback.map((entry) => ({
+          ...entry,
+          issueType: entry.issueType?.trim() || 'general',
+          suggestion: entry.suggestion?.trim() || 'No additional suggestion provided.',
+        })),
+        request.styleGuide?.rules
+      );
       const durationMs = Date.now() - passStart;
       feedbackAccumulator.push(...normalizedFeedback.map((entry) => ({
         ...entry,
@@ -783,12 +1380,14 @@ export class TestCaseAgenticPipeline {
       })));
 
       const blocking = normalizedFeedback.filter((entry) => entry.severity === 'critical' || entry.severity === 'major');
-      reviewTelemetry.push({
+      const passTelemetry: ReviewPassTelemetry = {
         pass,
         durationMs,
         feedbackCount: feedback.length,
         blockingCount: blocking.length,
-      });
+        usage: reportUsage(toTokenUsage(reviewResult.usage, reviewerProvider, reviewerModel), context.onUsage),
+      };
+      reviewTelemetry.push(passTelemetry);
       progressCallback?.({
         type: 'review:pass-complete',
         pass,
@@ -814,7 +1413,7 @@ export class TestCaseAgenticPipeline {
         warnings.push(`Revision pass ${pass} skipped: reviewer returned no actionable feedback.`);
         break;
       }
-      const writerModelInstance = resolveLanguageModel({ provider: writerProvider, model: writerModel });
+      const writerModelInstance = this.resolveModel({ provider: writerProvider, model: writerModel });
       const totalChunks = Math.max(1, revisionChunks.length);
       const focusCaseCount = revisionChunks.reduce((count, chunk) => count + chunk.caseIds.length, 0);
 
@@ -832,13 +1431,14 @@ export class TestCaseAgenticPipeline {
         focusCaseCount,
       });
 
-      const chunkResults: Array<{ updatedCases: any[]; warnings: string[] } | null> = new Array(totalChunks).fill(null);
+      const chunkResults: Array<{ updatedCases: any[]; warnings: string[]; usage?: TokenUsage } | null> = new Array(totalChunks).fill(null);
       let revisionFailed = false;
 
       const revisionConcurrency = this.resolveRevisionConcurrency(totalChunks, agenticOptions);
       let cursor = 0;
 
       const runChunk = async (chunkIndex: number) => {
+        throwIfAborted(context.signal);
         const chunk = revisionChunks[chunkIndex];
         const chunkWarnings: string[] = [];
         progressCallback?.({
@@ -849,7 +1449,7 @@ export class TestCaseAgenticPipeline {
           focusCaseCount: chunk.caseIds.length,
         });
 
-        const revisionPrompt = this.buildRevisionPrompt(
+        const { prompt: revisionPrompt, templateVersion } = this.buildRevisionPrompt(
           request,
           mutableCases,
           chunk.feedback,
@@ -863,6 +1463,7 @@ export class TestCaseAgenticPipeline {
             model: writerModelInstance,
             schema: caseSchema,
             prompt: revisionPrompt,
+            abortSignal: context.signal,
             retryInstruction: 'Return ONLY a JSON object with an "items" array of updated cases. No additional text.',
           });
 
@@ -877,11 +1478,17 @@ export class TestCaseAgenticPipeline {
               pass,
               chunk: chunkIndex + 1,
               totalChunks,
+              promptTemplate: 'revision',
+              promptVersion: templateVersion,
             }),
           });
 
           const revisions = revisionResult.object.items ?? [];
-          chunkResults[chunkIndex] = { updatedCases: revisions, warnings: chunkWarnings };
+          chunkResults[chunkIndex] = {
+            updatedCases: revisions,
+            warnings: chunkWarnings,
+            usage: reportUsage(toTokenUsage(revisionResult.usage, writerProvider, writerModel), context.onUsage),
+          };
           progressCallback?.({
             type: 'revision:chunk-complete',
             pass,
@@ -890,6 +1497,9 @@ export class TestCaseAgenticPipeline {
             updatedCases: revisions.length,
           });
         } catch (error) {
+          if (context.signal?.aborted) {
+            throw error;
+          }
           const message = error instanceof Error ? error.message : 'Unknown revision error';
           const warning = `Revision chunk ${chunkIndex + 1} (pass ${pass}) failed: ${message}`;
           chunkWarnings.push(warning);
@@ -947,6 +1557,7 @@ export class TestCaseAgenticPipeline {
       });
 
       mutableCases = Array.from(revisedCases.values());
+      passTelemetry.revisionUsage = sumTokenUsage(chunkResults.map((result) => result?.usage));
       console.log('[Agentic] Revision run completed', {
         pass,
         updatedCases: totalUpdatedCases,
@@ -969,12 +1580,20 @@ export class TestCaseAgenticPipeline {
     return { feedback: feedbackAccumulator, passesExecuted, reviewTelemetry, warnings };
   }
 
-  private getCaseSchema(mode: TestCaseMode) {
-    return mode === 'high-level' ? HighLevelTestCaseSchema : DetailedTestCaseSchema;
+  private getCaseSchema(mode: TestCaseMode): z.ZodType<{ items: Array<Record<string, any>> }, z.ZodTypeDef, any> {
+    switch (mode) {
+      case 'high-level':
+        return HighLevelTestCaseSchema;
+      case 'gherkin':
+        return GherkinTestCaseSchema;
+      case 'detailed':
+      default:
+        return DetailedTestCaseSchema;
+    }
   }
 
   private generateCaseId(mode: TestCaseMode, index: number): string {
-    const prefix = mode === 'high-level' ? 'TS' : 'TC';
+    const prefix = mode === 'high-level' ? 'TS' : mode === 'gherkin' ? 'GH' : 'TC';
     return `${prefix}-${String(index).padStart(3, '0')}`;
   }
 
@@ -982,7 +1601,7 @@ export class TestCaseAgenticPipeline {
     request: TestCaseGenerationRequest,
     _options?: AgenticGenerationOptions
   ): { softLimit: number; hardLimit: number } {
-    const isDetailed = request.mode === 'detailed';
+    const isDetailed = request.mode !== 'high-level';
     const softLimit = isDetailed ? 12 : 20;
     const hardLimit = isDetailed ? 16 : 28;
     return { softLimit, hardLimit };
@@ -1108,10 +1727,16 @@ export class TestCaseAgenticPipeline {
   private buildWriterPrompt(
     request: TestCaseGenerationRequest,
     planItem: GenerationPlanItem,
-    existingCases: any[]
-  ): string {
-    const requirements = request.requirements ?? '';
-    const filesSummary = summarizeFiles(request.files);
+    existingCases: any[],
+    chunks: RequirementChunk[] = [],
+    totalChunks = chunks.length,
+    requirementRefs: RequirementReference[] = []
+  ): RenderedPrompt {
+    const isChunked = totalChunks > 1;
+    const requirements = isChunked
+      ? `Requirement chunks for this plan item (${chunks.map((chunk) => chunk.id).join(', ')} of ${totalChunks}):\n${formatChunks(chunks)}`
+      : request.requirements ?? '';
+    const filesSummary = summarizeFiles(request.files, { includePreview: !isChunked });
     const scenarioSummary = summarizeScenarios(request.selectedScenarios);
     const priorityMode = request.priorityMode ?? 'comprehensive';
 
@@ -1120,22 +1745,30 @@ export class TestCaseAgenticPipeline {
         ? 'Core-functionality mode: deliver only P0/P1 regression coverage—smoke checks, critical user journeys, compliance gates, and failure paths that would block release. Exclude exploratory edge cases, cosmetic behavior, or anything that would be a nice-to-have.'
         : 'Comprehensive mode: include happy, alternate, and negative flows plus boundary and resilience checks.';
 
-    const sections = [
-      'You are a senior QA engineer. Generate additional test cases for the provided plan item.',
-      `Plan item: ${planItem.id} - ${planItem.title} (${planItem.area}). Focus: ${planItem.focus ?? 'General coverage'} `,
-      `Mode: ${request.mode}. Priority: ${priorityMode}. ${priorityInstruction}`,
-      'All produced test cases MUST keep the original plan area unchanged. Use the exact plan area value for every case. Keep titles concise and free of requirement identifiers; mention requirement codes inside notes or descriptions instead.',
-      'Group closely-related validations into the same test case when they belong to one workflow. Only split cases when outcomes or personas differ materially (e.g., happy vs negative vs edge). Use the description to summarize key checks in a single paragraph separated by semicolons.',
-      requirements ? `Requirements:\n${requirements}` : '',
-      filesSummary ? `Reference documents:\n${filesSummary}` : '',
-      scenarioSummary,
-      existingCases.length
-        ? `Existing cases (avoid duplicates):\n${JSON.stringify(existingCases, null, 2)}`
-        : 'No cases generated yet. Begin fresh coverage for this plan item.',
-      'Return a JSON object with an "items" array where each entry matches the required schema for the requested mode. Do not include markdown.',
-    ].filter(Boolean);
-
-    return sections.join('\n\n');
+    return renderPrompt(
+      'writer',
+      {
+        planItemId: planItem.id,
+        planItemTitle: planItem.title,
+        planItemArea: planItem.area,
+        planItemFocus: planItem.focus ?? 'General coverage',
+        mode: request.mode,
+        priorityMode,
+        priorityInstruction,
+        gherkinInstruction: request.mode === 'gherkin' ? GHERKIN_WRITER_INSTRUCTION : '',
+        styleGuide: formatStyleGuide(request.styleGuide),
+        requirements: requirements && !isChunked ? `Requirements:\n${requirements}` : requirements,
+        requirementIds: requirementRefs.length
+          ? `Requirement IDs (set "requirementIds" on every case to the IDs it verifies; use only IDs from this list):\n${formatRequirementCatalog(requirementRefs)}`
+          : '',
+        referenceDocuments: filesSummary ? `Reference documents:\n${filesSummary}` : '',
+        scenarios: scenarioSummary,
+        existingCases: existingCases.length
+          ? `Existing cases (avoid duplicates):\n${JSON.stringify(existingCases, null, 2)}`
+          : 'No cases generated yet. Begin fresh coverage for this plan item.',
+      },
+      request.promptTemplates
+    );
   }
 
   private buildReviewerPrompt(
@@ -1143,22 +1776,29 @@ export class TestCaseAgenticPipeline {
     plan: GenerationPlanItem[],
     cases: any[],
     passNumber: number
-  ): string {
+  ): RenderedPrompt {
     const priorityInstruction =
       (request.priorityMode ?? 'comprehensive') === 'core-functionality'
         ? 'Core-functionality mode: treat the scope as P0/P1 regression coverage only. Recommend additional cases solely when a release-blocking path, compliance obligation, or critical negative scenario is missing.'
         : 'Comprehensive mode: expect broad coverage across happy, alternate, negative, and edge scenarios.';
 
-    const sections = [
-      `You are reviewing generated ${request.mode} test cases. Pass number: ${passNumber}.`,
-      'Assess coverage completeness, edge cases, and alignment with the plan. Identify missing or incorrect validations.',
-      priorityInstruction,
-      `Plan:\n${JSON.stringify(plan, null, 2)}`,
-      `Current test cases:\n${JSON.stringify(cases, null, 2)}`,
-      'Return JSON with a "feedback" array of issues (caseId, issueType, severity, summary, suggestion) and a top-level "summary" string. Always supply issueType (e.g., coverage-gap, duplication, formatting) and a suggestion string (use "No suggestion provided." if none). Severity must be one of info, minor, major, critical.',
-    ];
-
-    return sections.join('\n\n');
+    return renderPrompt(
+      'reviewer',
+      {
+        mode: request.mode,
+        passNumber,
+        priorityInstruction,
+        styleGuide: hasStyleGuideContent(request.styleGuide)
+          ? `${formatStyleGuide(request.styleGuide)}\nCheck every case against each rule and the glossary. Report each violation with issueType "${GUIDELINE_ISSUE}", severity "minor" (or "major" when the rule is a mandatory check such as accessibility), and start the summary with the violated rule id in brackets, e.g. "[G-2] Step wording uses passive voice".`
+          : '',
+        plan: JSON.stringify(plan, null, 2),
+        cases: JSON.stringify(cases, null, 2),
+        existingSuite: request.existingTestCases?.length
+          ? `Existing regression suite:\n${formatExistingSuite(request.existingTestCases)}\nWhen a generated case verifies the same behaviour as an existing case, report issueType "${DUPLICATE_EXISTING_ISSUE}" with severity "minor" and name the existing case id in the summary.`
+          : '',
+      },
+      request.promptTemplates
+    );
   }
 
   private buildRevisionPrompt(
@@ -1167,74 +1807,88 @@ export class TestCaseAgenticPipeline {
     focusFeedback: ReviewFeedbackItem[],
     passNumber: number,
     allFeedback?: ReviewFeedbackItem[],
-    focusCaseIds?: string[]
-  ): string {
-    const targetedFeedbackJson = JSON.stringify(focusFeedback, null, 2);
+    focusCaseIds?: string[],
+    instruction?: string
+  ): RenderedPrompt {
     const includeFullFeedback = Boolean(
       allFeedback &&
         allFeedback.length > focusFeedback.length
     );
-    const fullFeedbackJson = includeFullFeedback
-      ? JSON.stringify(allFeedback, null, 2)
-      : targetedFeedbackJson;
-    const focusCaseSummary = focusCaseIds && focusCaseIds.length
-      ? `Targeted caseIds: ${focusCaseIds.join(', ')}`
-      : 'Focus on the caseIds referenced in the targeted feedback.';
-
-    const sections = [
-      'Revise the following test cases to resolve the reviewer feedback. Only return cases that change.',
-      `Pass number: ${passNumber}. Mode: ${request.mode}.`,
-      `Current cases:\n${JSON.stringify(cases, null, 2)}`,
-      focusCaseSummary,
-      `Targeted feedback to address:\n${targetedFeedbackJson}`,
-    ];
-
-    if (includeFullFeedback) {
-      sections.push(`Complete reviewer feedback for context:\n${fullFeedbackJson}`);
-    }
-
-    sections.push('Return a JSON array of updated cases adhering to the required schema. Include all referenced caseIds exactly once.');
 
-    return sections.join('\n\n');
+    return renderPrompt(
+      'revision',
+      {
+        passNumber,
+        mode: request.mode,
+        cases: JSON.stringify(cases, null, 2),
+        focusCases: focusCaseIds && focusCaseIds.length
+          ? `Targeted caseIds: ${focusCaseIds.join(', ')}`
+          : 'Focus on the caseIds referenced in the targeted feedback.',
+        feedback: JSON.stringify(focusFeedback, null, 2),
+        fullFeedback: includeFullFeedback
+          ? `Complete reviewer feedback for context:\n${JSON.stringify(allFeedback, null, 2)}`
+          : '',
+        instruction: instruction
+          ? `User instruction for the targeted cases: ${instruction}\nWhen the instruction asks for more coverage (e.g. additional negative cases), add new cases with new ids alongside the revised ones.`
+          : '',
+      },
+      request.promptTemplates
+    );
   }
 
   private async generateSingleShot(
-    request: TestCaseGenerationRequest
+    request: TestCaseGenerationRequest,
+    signal?: AbortSignal,
+    onUsage?: GenerationRunOptions['onUsage']
   ): Promise<TestCaseGenerationResponse> {
     const provider = request.provider ?? 'openai';
     const modelId = request.model ?? this.inferDefaultModel(provider);
     const startTime = Date.now();
+    const requirementRefs = extractRequirements(request.requirements ?? '');
 
-    const prompt = buildTestCasePrompt({
+    const { prompt, templateVersion } = buildTestCasePrompt({
       requirements: request.requirements,
       files: request.files,
       selectedScenarios: request.selectedScenarios,
       mode: request.mode,
       priorityMode: request.priorityMode,
+      requirementCatalog: formatRequirementCatalog(requirementRefs),
+      existingSuite: request.existingTestCases?.length ? formatExistingSuite(request.existingTestCases) : undefined,
+      styleGuide: formatStyleGuide(request.styleGuide),
+      promptTemplates: request.promptTemplates,
     });
 
-    const model = resolveLanguageModel({ provider, model: modelId });
+    const model = this.resolveModel({ provider, model: modelId });
 
     const result = await generateText({
       model,
       prompt,
+      abortSignal: signal,
     });
 
+    const usage = reportUsage(toTokenUsage(result.usage, provider, modelId), onUsage);
     const rawOutput = result.text.trim();
     const totalDurationMs = Date.now() - startTime;
+    const telemetry = { totalDurationMs, provider, models: { writer: modelId }, usage };
 
     logAIInteraction({
       provider,
       model: modelId,
       prompt,
       response: rawOutput,
-      context: this.applyUserContext(request.userIdentifier, { type: 'test-case-generation', stage: 'single-shot' }),
+      context: this.applyUserContext(request.userIdentifier, {
+        type: 'test-case-generation',
+        stage: 'single-shot',
+        promptTemplate: 'single-shot',
+        promptVersion: templateVersion,
+      }),
     });
 
     if (!rawOutput) {
       return {
         testCases: [],
         error: 'Received an empty response from the model',
+        telemetry,
       };
     }
 
@@ -1249,6 +1903,7 @@ export class TestCaseAgenticPipeline {
           rawResponse: rawOutput,
           parseError: error instanceof Error ? error.message : 'Unknown parse error',
         },
+        telemetry,
       };
     }
 
@@ -1260,19 +1915,21 @@ export class TestCaseAgenticPipeline {
           rawResponse: rawOutput,
           parsedResponse: parsed,
         },
+        telemetry,
       };
     }
 
-    const testCases = mapModelResponseToTestCases(parsed, request.mode);
+    const testCases = classifyAgainstExisting(
+      this.linkRequirements(mapModelResponseToTestCases(parsed, request.mode), requirementRefs),
+      request.existingTestCases ?? []
+    );
+    const duplicateClusters = findDuplicateClusters(testCases);
 
     return {
       testCases,
-      telemetry: {
-        totalDurationMs,
-        provider,
-        models: { writer: modelId },
-        testCaseCount: testCases.length,
-      },
+      traceability: requirementRefs.length ? buildTraceabilityMatrix(requirementRefs, testCases) : undefined,
+      duplicateClusters: duplicateClusters.length ? duplicateClusters : undefined,
+      telemetry: { ...telemetry, testCaseCount: testCases.length },
     };
   }
 }
@@ -0,0 +1,45 @@
+/** @jest-environment node */
+
+import { sumTokenUsage, toTokenUsage } from './tokenUsage';
+
+describe('token usage accounting', () => {
+  const originalPricing = process.env.MODEL_PRICING;
+
+  afterEach(() => {
+    if (originalPricing === undefined) {
+      delete process.env.MODEL_PRICING;
+    } else {
+      process.env.MODEL_PRICING = originalPricing;
+    }
+  });
+
+  it('prices calls with the per-model table', () => {
+    const usage = toTokenUsage({ promptTokens: 1_000_000, completionTokens: 100_000, totalTokens: 1_100_000 }, 'openai', 'gpt-4o-mini');
+
+    expect(usage).toEqual({ promptTokens: 1_000_000, completionTokens: 100_000, totalTokens: 1_100_000, costUsd: 0.21 });
+  });
+
+  it('applies MODEL_PRICING overrides and leaves unknown models unpriced', () => {
+    process.env.MODEL_PRICING = JSON.stringify({ 'openrouter:openrouter/auto': { input: 1, output: 2 } });
+
+    expect(toTokenUsage({ promptTokens: 500_000, completionTokens: 500_000 }, 'openrouter', 'openrouter/auto')?.costUsd).toBe(1.5);
+    expect(toTokenUsage({ promptTokens: 10, completionTokens: 5 }, 'openai', 'custom-model')).toEqual({
+      promptTokens: 10,
+      completionTokens: 5,
+      totalTokens: 15,
+      costUsd: undefined,
+    });
+    expect(toTokenUsage(undefined, 'openai', 'gpt-4o')).toBeUndefined();
+  });
+
+  it('sums usage and only counts priced calls toward cost', () => {
+    const total = sumTokenUsage([
+      { promptTokens: 100, completionTokens: 50, totalTokens: 150, costUsd: 0.5 },
+      undefined,
+      { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+    ]);
+
+    expect(total).toEqual({ promptTokens: 110, completionTokens: 55, totalTokens: 165, costUsd: 0.5 });
+    expect(sumTokenUsage([undefined])).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { estimateCostUsd } from '@/lib/server/tokenizer';
+import { LLMProvider, TokenUsage } from '@/lib/types';
+
+interface ModelCallUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+}
+
+const safeCount = (value: number | undefined) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+/** Converts the `usage` reported by a generateObject/generateText call into tokens plus estimated cost. */
+export function toTokenUsage(
+  usage: ModelCallUsage | undefined,
+  provider: LLMProvider,
+  model: string
+): TokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  const promptTokens = safeCount(usage.promptTokens);
+  const completionTokens = safeCount(usage.completionTokens);
+  const costUsd = estimateCostUsd(provider, model, promptTokens, completionTokens);
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: safeCount(usage.totalTokens) || promptTokens + completionTokens,
+    costUsd: costUsd ?? undefined,
+  };
+}
+
+/** Sums usage entries; cost covers only the calls whose model is priced. */
+export function sumTokenUsage(usages: Array<TokenUsage | undefined>): TokenUsage | undefined {
+  const present = usages.filter((usage): usage is TokenUsage => Boolean(usage));
+  if (!present.length) {
+    return undefined;
+  }
+  const priced = present.filter((usage) => usage.costUsd !== undefined);
+  return {
+    promptTokens: present.reduce((sum, usage) => sum + usage.promptTokens, 0),
+    completionTokens: present.reduce((sum, usage) => sum + usage.completionTokens, 0),
+    totalTokens: present.reduce((sum, usage) => sum + usage.totalTokens, 0),
+    costUsd: priced.length ? priced.reduce((sum, usage) => sum + (usage.costUsd ?? 0), 0) : undefined,
+  };
+}
@@ -0,0 +1,248 @@
+import { PromptTemplate, PromptTemplateId } from '@/lib/types';
+
+// Templates are split into blank-line separated sections. A section, or a line, that only holds
+// variables which render empty is dropped, so optional context disappears cleanly.
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplate> = {
+  planner: {
+    id: 'planner',
+    label: 'Agentic planner',
+    version: 2,
+    variables: [
+      { name: 'priorityMode', description: 'comprehensive or core-functionality' },
+      { name: 'priorityGuidance', description: 'Scope guidance for the selected priority mode' },
+      { name: 'styleGuide', description: "The team's QA style guide rules and glossary" },
+      { name: 'requirements', description: 'Requirements or the chunk catalog with previews', required: true },
+      { name: 'existingSuite', description: 'Imported regression suite with instructions to skip covered flows' },
+      { name: 'referenceDocuments', description: 'Summary of uploaded files' },
+      { name: 'scenarios', description: 'Selected high-level scenarios to expand' },
+    ],
+    template: [
+      'You are an expert QA strategist. Break the supplied materials into a concise execution plan for generating test cases.',
+      'Priority mode: {{priorityMode}}. {{priorityGuidance}} Produce a JSON object with an "items" array of plan entries (id, title, area, focus, estimatedCases, chunkRefs when applicable).',
+      'Keep each focus under 160 characters and notes under 220 characters. Do not enumerate every acceptance criterion; summarize only the key goals for coverage.',
+      '{{styleGuide}}',
+      '{{requirements}}',
+      '{{existingSuite}}',
+      '{{referenceDocuments}}',
+      '{{scenarios}}',
+    ].join('\n\n'),
+  },
+  writer: {
+    id: 'writer',
+    label: 'Agentic writer',
+    version: 2,
+    variables: [
+      { name: 'planItemId', description: 'Plan item id, e.g. PLAN-3' },
+      { name: 'planItemTitle', description: 'Plan item title' },
+      { name: 'planItemArea', description: 'Area every case must keep', required: true },
+      { name: 'planItemFocus', description: 'Plan item focus' },
+      { name: 'mode', description: 'high-level, detailed or gherkin' },
+      { name: 'priorityMode', description: 'comprehensive or core-functionality' },
+      { name: 'priorityInstruction', description: 'Coverage guidance for the selected priority mode' },
+      { name: 'gherkinInstruction', description: 'Gherkin authoring rules (Gherkin mode only)' },
+      { name: 'styleGuide', description: "The team's QA style guide rules and glossary" },
+      { name: 'requirements', description: 'Requirements or the chunks assigned to this plan item', required: true },
+      { name: 'requirementIds', description: 'Requirement ID catalog for traceability' },
+      { name: 'referenceDocuments', description: 'Summary of uploaded files' },
+      { name: 'scenarios', description: 'Selected high-level scenarios to expand' },
+      { name: 'existingCases', description: 'Cases already written for this plan item' },
+    ],
+    template: [
+      'You are a senior QA engineer. Generate additional test cases for the provided plan item.',
+      'Plan item: {{planItemId}} - {{planItemTitle}} ({{planItemArea}}). Focus: {{planItemFocus}}',
+      'Mode: {{mode}}. Priority: {{priorityMode}}. {{priorityInstruction}}',
+      'All produced test cases MUST keep the original plan area unchanged. Use the exact plan area value for every case. Keep titles concise and free of requirement identifiers; mention requirement codes inside notes or descriptions instead.',
+      'Group closely-related validations into the same test case when they belong to one workflow. Only split cases when outcomes or personas differ materially (e.g., happy vs negative vs edge). Use the description to summarize key checks in a single paragraph separated by semicolons.',
+      '{{gherkinInstruction}}',
+      '{{styleGuide}}',
+      '{{requirements}}',
+      '{{requirementIds}}',
+      '{{referenceDocuments}}',
+      '{{scenarios}}',
+      '{{existingCases}}',
+      'Return a JSON object with an "items" array where each entry matches the required schema for the requested mode. Do not include markdown.',
+    ].join('\n\n'),
+  },
+  reviewer: {
+    id: 'reviewer',
+    label: 'Agentic reviewer',
+    version: 2,
+    variables: [
+      { name: 'mode', description: 'high-level, detailed or gherkin' },
+      { name: 'passNumber', description: 'Review pass number, starting at 1' },
+      { name: 'priorityInstruction', description: 'Coverage expectations for the selected priority mode' },
+      { name: 'styleGuide', description: 'Style guide rules plus instructions to report "guideline" issues' },
+      { name: 'plan', description: 'Plan as JSON' },
+      { name: 'cases', description: 'Generated cases as JSON', required: true },
+      { name: 'existingSuite', description: 'Imported regression suite with duplicate reporting rules' },
+    ],
+    template: [
+      'You are reviewing generated {{mode}} test cases. Pass number: {{passNumber}}.',
+      'Assess coverage completeness, edge cases, and alignment with the plan. Identify missing or incorrect validations.',
+      '{{priorityInstruction}}',
+      '{{styleGuide}}',
+      'Plan:\n{{plan}}',
+      'Current test cases:\n{{cases}}',
+      '{{existingSuite}}',
+      'Return JSON with a "feedback" array of issues (caseId, issueType, severity, summary, suggestion) and a top-level "summary" string. Always supply issueType (e.g., coverage-gap, duplication, formatting) and a suggestion string (use "No suggestion provided." if none). Severity must be one of info, minor, major, critical.',
+    ].join('\n\n'),
+  },
+  revision: {
+    id: 'revision',
+    label: 'Reviewer-driven revision',
+    version: 1,
+    variables: [
+      { name: 'passNumber', description: 'Review pass number, starting at 1' },
+      { name: 'mode', description: 'high-level, detailed or gherkin' },
+      { name: 'cases', description: 'Cases to revise as JSON', required: true },
+      { name: 'focusCases', description: 'The caseIds this revision targets' },
+      { name: 'feedback', description: 'Targeted reviewer feedback as JSON', required: true },
+      { name: 'fullFeedback', description: 'Complete reviewer feedback, when more than the targeted items exist' },
+      { name: 'instruction', description: "The user's refinement instruction (refine only)" },
+    ],
+    template: [
+      'Revise the following test cases to resolve the reviewer feedback. Only return cases that change.',
+      'Pass number: {{passNumber}}. Mode: {{mode}}.',
+      'Current cases:\n{{cases}}',
+      '{{focusCases}}',
+      'Targeted feedback to address:\n{{feedback}}',
+      '{{fullFeedback}}',
+      '{{instruction}}',
+      "Return a JSON array of updated cases adhering to the required schema. Include all referenced caseIds exactly once. Preserve each case's requirementIds and add IDs for any requirement the revised case now verifies.",
+    ].join('\n\n'),
+  },
+  'single-shot': {
+    id: 'single-shot',
+    label: 'Single-shot generation',
+    version: 2,
+    variables: [
+      { name: 'modeInstructions', description: 'What to return for the selected mode and priority' },
+      { name: 'responseShape', description: 'Fields each array element must include', required: true },
+      { name: 'styleGuide', description: "The team's QA style guide rules and glossary" },
+      { name: 'requirements', description: 'Project requirements', required: true },
+      { name: 'requirementIds', description: 'Requirement ID catalog for traceability' },
+      { name: 'referenceDocuments', description: 'Summary of uploaded files' },
+      { name: 'scenarios', description: 'Selected high-level scenarios to expand' },
+      { name: 'existingSuite', description: 'Imported regression suite to avoid duplicating' },
+    ],
+    template: [
+      'You must produce a JSON array that matches the required schema.',
+      '{{modeInstructions}}',
+      '{{responseShape}}',
+      '{{styleGuide}}',
+      '{{requirements}}',
+      '{{requirementIds}}',
+      '{{referenceDocuments}}',
+      '{{scenarios}}',
+      '{{existingSuite}}',
+      'Ensure the JSON is parseable and do not wrap it in markdown fences.',
+    ].join('\n\n'),
+  },
+  'sql-generate': {
+    id: 'sql-generate',
+    label: 'SQL generation',
+    version: 1,
+    variables: [
+      { name: 'dialect', description: 'Target SQL dialect', required: true },
+      { name: 'description', description: 'What the query should do', required: true },
+      { name: 'schema', description: 'Schema block, when a schema was supplied' },
+    ],
+    template: `You are an expert SQL developer. Generate a SQL query for the {{dialect}} dialect based on the following description:
+
+{{description}}
+
+{{schema}}
+
+Your response should be a valid SQL query that accomplishes the task described.
+IMPORTANT: Your response MUST be a valid JSON object with the following structure and nothing else:
+{
+  "query": "The SQL query",
+  "explanation": "A detailed explanation of how the query works"
+}
+
+DO NOT wrap your response in markdown code blocks or any other formatting. Return ONLY the JSON object.`,
+  },
+  'sql-validate': {
+    id: 'sql-validate',
+    label: 'SQL validation',
+    version: 1,
+    variables: [
+      { name: 'dialect', description: 'SQL dialect of the query', required: true },
+      { name: 'query', description: 'Query to validate', required: true },
+      { name: 'schema', description: 'Schema block, when a schema was supplied' },
+      { name: 'schemaCheck', description: 'Schema compatibility checklist item, when a schema was supplied' },
+    ],
+    template: `You are an expert SQL developer. Analyze the following SQL query for the {{dialect}} dialect and validate it.
+
+SQL Query:
+\`\`\`sql
+{{query}}
+\`\`\`
+
+{{schema}}
+
+Please identify any issues with the SQL QUERY ONLY (not the schema) related to:
+1. Syntax errors
+2. Performance concerns
+3. Security issues (SQL injection vulnerabilities, etc.)
+4. Style/best practices
+{{schemaCheck}}
+
+IMPORTANT:
+- Do NOT critique or suggest improvements to the schema itself
+- Only validate the SQL query against the schema (if provided)
+- Assume the schema is correct and properly designed
+- Focus only on whether the query will work with the given schema
+
+Your response MUST be a valid JSON object with the following structure and nothing else:
+{
+  "isValid": true/false,
+  "query": "Original query or fixed query if there are issues",
+  "issues": [
+    {
+      "type": "syntax|performance|security|style|schema|other",
+      "description": "Description of the issue",
+      "location": "Line/column information if applicable",
+      "severity": "info|warning|error",
+      "suggestion": "Suggested fix"
+    }
+  ],
+  "explanation": "Overall explanation of the query validity"
+}
+
+DO NOT wrap your response in markdown code blocks or any other formatting. Return ONLY the JSON object.`,
+  },
+  'sql-convert': {
+    id: 'sql-convert',
+    label: 'SQL dialect conversion',
+    version: 1,
+    variables: [
+      { name: 'sourceDialect', description: 'Dialect of the original query', required: true },
+      { name: 'targetDialect', description: 'Dialect to convert to', required: true },
+      { name: 'query', description: 'Query to convert', required: true },
+    ],
+    template: `You are an expert SQL developer. Convert the following SQL query from {{sourceDialect}} dialect to {{targetDialect}} dialect.
+
+Original SQL Query ({{sourceDialect}}):
+\`\`\`sql
+{{query}}
+\`\`\`
+
+Please provide:
+1. The converted SQL query in {{targetDialect}} dialect
+2. An explanation of the key differences between the dialects that required changes
+3. Any notes on functionality that might not be directly translatable
+
+IMPORTANT: Your response MUST be a valid JSON object with the following structure and nothing else:
+{
+  "originalQuery": "The original SQL query",
+  "convertedQuery": "The converted SQL query in the target dialect",
+  "explanation": "Explanation of the conversion process",
+  "dialectDifferences": [
+    "List of key differences between the dialects that required changes"
+  ]
+}
+
+DO NOT wrap your response in markdown code blocks or any other formatting. Return ONLY the JSON object.`,
+  },
+};
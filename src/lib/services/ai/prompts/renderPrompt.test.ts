@@ -0,0 +1,65 @@
+import { renderPrompt, resolvePromptTemplate, validatePromptTemplate } from './renderPrompt';
+import { DEFAULT_PROMPT_TEMPLATES } from './defaultTemplates';
+
+describe('renderPrompt', () => {
+  it('renders the shipped default and reports its version', () => {
+    const rendered = renderPrompt('sql-convert', { sourceDialect: 'MySQL', targetDialect: 'PostgreSQL', query: 'SELECT 1' });
+
+    expect(rendered.templateVersion).toBe(`default@${DEFAULT_PROMPT_TEMPLATES['sql-convert'].version}`);
+    expect(rendered.prompt).toContain('from MySQL dialect to PostgreSQL dialect');
+    expect(rendered.prompt).toContain('```sql\nSELECT 1\n```');
+  });
+
+  it('drops sections and lines whose variables render empty', () => {
+    const { prompt } = renderPrompt('sql-validate', { dialect: 'SQLite', query: 'SELECT 1', schema: '', schemaCheck: '' });
+
+    expect(prompt).toContain('4. Style/best practices\n\nIMPORTANT:');
+    expect(prompt).not.toContain('Database Schema');
+    expect(prompt).not.toMatch(/\n{3,}/);
+  });
+
+  it('renders the revision prompt without the optional feedback and instruction sections', () => {
+    const { prompt, templateVersion } = renderPrompt('revision', {
+      passNumber: 2,
+      mode: 'detailed',
+      cases: '[]',
+      focusCases: 'Targeted caseIds: TC-1',
+      feedback: '[]',
+      fullFeedback: '',
+      instruction: '',
+    });
+
+    expect(templateVersion).toBe(`default@${DEFAULT_PROMPT_TEMPLATES.revision.version}`);
+    expect(prompt).toContain('Pass number: 2. Mode: detailed.\n\nCurrent cases:\n[]\n\nTargeted caseIds: TC-1');
+    expect(prompt).not.toContain('Complete reviewer feedback');
+    expect(prompt).not.toMatch(/\n{3,}/);
+  });
+
+  it('uses a team override when one is supplied', () => {
+    const templates = {
+      'sql-convert': { id: 'sql-convert' as const, template: 'Port {{query}} to {{targetDialect}}.', version: 'team:qa@2' },
+    };
+
+    expect(resolvePromptTemplate('sql-convert', templates).version).toBe('team:qa@2');
+    expect(renderPrompt('sql-convert', { query: 'SELECT 1', targetDialect: 'Oracle' }, templates)).toEqual({
+      prompt: 'Port SELECT 1 to Oracle.',
+      templateId: 'sql-convert',
+      templateVersion: 'team:qa@2',
+    });
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it('accepts every shipped default', () => {
+    Object.values(DEFAULT_PROMPT_TEMPLATES).forEach((template) => {
+      expect(validatePromptTemplate(template.id, template.template)).toEqual([]);
+    });
+  });
+
+  it('flags unknown and missing required variables', () => {
+    expect(validatePromptTemplate('sql-generate', 'Write {{dialect}} SQL for {{tables}}.')).toEqual([
+      'Unknown variable {{tables}}.',
+      'Missing required variable {{description}}.',
+    ]);
+  });
+});
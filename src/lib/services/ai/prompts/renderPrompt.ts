@@ -0,0 +1,73 @@
+import { PromptTemplateId, PromptTemplateSet, ResolvedPromptTemplate } from '@/lib/types';
+import { DEFAULT_PROMPT_TEMPLATES } from './defaultTemplates';
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+
+export interface RenderedPrompt {
+  prompt: string;
+  templateId: PromptTemplateId;
+  templateVersion: string;
+}
+
+export function resolvePromptTemplate(id: PromptTemplateId, templates?: PromptTemplateSet): ResolvedPromptTemplate {
+  const override = templates?.[id];
+  if (override) {
+    return override;
+  }
+  const fallback = DEFAULT_PROMPT_TEMPLATES[id];
+  return { id, template: fallback.template, version: `default@${fallback.version}` };
+}
+
+export function listTemplateVariables(template: string): string[] {
+  return Array.from(new Set(Array.from(template.matchAll(VARIABLE_PATTERN), (match) => match[1])));
+}
+
+/** Returns the problems that would make a team override unusable; an empty list means it can be saved. */
+export function validatePromptTemplate(id: PromptTemplateId, template: string): string[] {
+  const definition = DEFAULT_PROMPT_TEMPLATES[id];
+  const known = new Set(definition.variables.map((variable) => variable.name));
+  const used = new Set(listTemplateVariables(template));
+  const errors: string[] = [];
+
+  if (!template.trim()) {
+    errors.push('Template cannot be empty.');
+  }
+  used.forEach((name) => {
+    if (!known.has(name)) {
+      errors.push(`Unknown variable {{${name}}}.`);
+    }
+  });
+  definition.variables
+    .filter((variable) => variable.required && !used.has(variable.name))
+    .forEach((variable) => errors.push(`Missing required variable {{${variable.name}}}.`));
+  return errors;
+}
+
+const substitute = (text: string, variables: Record<string, string | number | undefined>) =>
+  text.replace(VARIABLE_PATTERN, (_, name: string) => String(variables[name] ?? ''));
+
+const isEmptyPlaceholderLine = (line: string, variables: Record<string, string | number | undefined>) =>
+  line.trim() !== '' &&
+  line.replace(VARIABLE_PATTERN, '').trim() === '' &&
+  substitute(line, variables).trim() === '';
+
+export function renderPrompt(
+  id: PromptTemplateId,
+  variables: Record<string, string | number | undefined>,
+  templates?: PromptTemplateSet
+): RenderedPrompt {
+  const resolved = resolvePromptTemplate(id, templates);
+  const prompt = resolved.template
+    .split(/\n{2,}/)
+    .map((section) =>
+      section
+        .split('\n')
+        .filter((line) => !isEmptyPlaceholderLine(line, variables))
+        .join('\n')
+    )
+    .map((section) => substitute(section, variables).trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+  return { prompt, templateId: id, templateVersion: resolved.version };
+}
@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LanguageModelV1, LanguageModelV1CallOptions, LanguageModelV1Prompt } from 'ai';
+
+export type RecordingMode = 'record' | 'replay';
+
+const DEFAULT_RECORDINGS_DIR = path.join(process.cwd(), 'fixtures', 'ai-recordings');
+const PROMPT_PREVIEW_LENGTH = 2000;
+
+export interface ModelRecording {
+  key: string;
+  kind: 'text' | 'object';
+  provider: string;
+  modelId: string;
+  recordedAt?: string;  // Absent from synthetic fixtures
+  synthetic?: boolean;  // Hand-written test fixture rather than a captured model response
+  prompt: string;  // Readable copy of the prompt; the key is what replay matches on
+  response: {
+    text: string;
+    finishReason: string;
+    usage: { promptTokens: number; completionTokens: number };
+  };
+}
+
+export class RecordingNotFoundError extends Error {
+  constructor(readonly key: string, readonly prompt: string) {
+    super(
+      `No recorded response for prompt ${key}. Run once with AI_RECORDING_MODE=record to capture it. Prompt starts: ${prompt.slice(0, 200)}`
+    );
+    this.name = 'RecordingNotFoundError';
+  }
+}
+
+export function getRecordingMode(): RecordingMode | null {
+  const mode = process.env.AI_RECORDING_MODE?.trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+export function getRecordingsDir(): string {
+  return process.env.AI_RECORDINGS_DIR ? path.resolve(process.env.AI_RECORDINGS_DIR) : DEFAULT_RECORDINGS_DIR;
+}
+
+const promptText = (prompt: LanguageModelV1Prompt) =>
+  prompt
+    .map((message) =>
+      typeof message.content === 'string'
+        ? message.content
+        : message.content.map((part) => ('text' in part ? part.text : `[${part.type}]`)).join('\n')
+    )
+    .join('\n\n');
+
+/**
+ * System messages are left out of the key because the SDK injects the JSON schema instruction there only for
+ * models without native structured output; the same call then replays whichever provider recorded it.
+ */
+export function recordingKey(options: Pick<LanguageModelV1CallOptions, 'mode' | 'prompt'>): string {
+  const kind = options.mode.type === 'regular' ? 'text' : 'object';
+  const messages = options.prompt.filter((message) => message.role !== 'system');
+  return createHash('sha256').update(JSON.stringify({ kind, messages })).digest('hex');
+}
+
+const recordingPath = (dir: string, key: string) => path.join(dir, `${key}.json`);
+
+async function readRecording(dir: string, key: string): Promise<ModelRecording | null> {
+  try {
+    return JSON.parse(await fs.readFile(recordingPath(dir, key), 'utf8')) as ModelRecording;
+  } catch (error: any) {
+    if (error && error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeRecording(dir: string, recording: ModelRecording): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(recordingPath(dir, recording.key), JSON.stringify(recording, null, 2), 'utf8');
+}
+
+/** Serves recorded responses keyed by prompt hash; a prompt without a recording fails instead of calling out. */
+export function createReplayModel(options: { dir?: string; provider?: string; modelId?: string } = {}): LanguageModelV1 {
+  const dir = options.dir ?? getRecordingsDir();
+  return {
+    specificationVersion: 'v1',
+    provider: `replay:${options.provider ?? 'any'}`,
+    modelId: options.modelId ?? 'recorded',
+    defaultObjectGenerationMode: 'json',
+    async doGenerate(callOptions) {
+      const key = recordingKey(callOptions);
+      const recording = await readRecording(dir, key);
+      if (!recording) {
+        throw new RecordingNotFoundError(key, promptText(callOptions.prompt));
+      }
+      return {
+        text: recording.response.text,
+        finishReason: recording.response.finishReason as 'stop',
+        usage: recording.response.usage,
+        rawCall: { rawPrompt: callOptions.prompt, rawSettings: {} },
+      };
+    },
+    async doStream() {
+      throw new Error('Replay mode does not support streaming calls');
+    },
+  };
+}
+
+/** Passes calls through to the real model and saves each response so it can be replayed offline. */
+export function withRecording(model: LanguageModelV1, options: { dir?: string } = {}): LanguageModelV1 {
+  const dir = options.dir ?? getRecordingsDir();
+  return {
+    specificationVersion: 'v1',
+    provider: model.provider,
+    modelId: model.modelId,
+    defaultObjectGenerationMode: model.defaultObjectGenerationMode,
+    supportsImageUrls: model.supportsImageUrls,
+    supportsStructuredOutputs: model.supportsStructuredOutputs,
+    supportsUrl: model.supportsUrl?.bind(model),
+    async doGenerate(callOptions) {
+      const result = await model.doGenerate(callOptions);
+      const key = recordingKey(callOptions);
+      // Tool-mode object calls answer through a tool call; keep its JSON arguments as the text replay serves.
+      const text = result.text ?? result.toolCalls?.[0]?.args ?? '';
+      try {
+        await writeRecording(dir, {
+          key,
+          kind: callOptions.mode.type === 'regular' ? 'text' : 'object',
+          provider: model.provider,
+          modelId: model.modelId,
+          recordedAt: new Date().toISOString(),
+          prompt: promptText(callOptions.prompt).slice(0, PROMPT_PREVIEW_LENGTH),
+          response: { text, finishReason: result.finishReason, usage: result.usage },
+        });
+      } catch (error) {
+        console.warn('[recordedModel] Failed to save recording', { key, error });
+      }
+      return result;
+    },
+    doStream: (callOptions) => model.doStream(callOptions),
+  };
+}
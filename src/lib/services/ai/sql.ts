@@ -7,18 +7,30 @@ import {
   SQLResponse,
   SQLValidationResponse,
   SQLConversionResponse,
-  SQLIssue
+  SQLIssue,
+  PromptTemplateSet,
+  TokenUsage
 } from '@/lib/types';
 import { logAIInteraction } from '@/lib/utils/aiLogger';
+import { renderPrompt } from './prompts/renderPrompt';
 
 export class SQLAIService {
   private aiService: AIService; // Add private member for the core AI service
   private readonly userIdentifier?: string;
+  private readonly promptTemplates?: PromptTemplateSet;
+  private readonly onUsage?: (usage: TokenUsage) => void;  // Called after each model call so the route can record it
 
   // Inject AIService via constructor
-  constructor(aiService: AIService, userIdentifier?: string) {
+  constructor(
+    aiService: AIService,
+    userIdentifier?: string,
+    promptTemplates?: PromptTemplateSet,
+    onUsage?: (usage: TokenUsage) => void
+  ) {
     this.aiService = aiService;
     this.userIdentifier = userIdentifier;
+    this.promptTemplates = promptTemplates;
+    this.onUsage = onUsage;
     console.log('[SQLAIService] initialized with underlying AI Service:', { serviceType: aiService.constructor.name });
   }
 
@@ -95,33 +107,26 @@ export class SQLAIService {
         }
       }
       
-      const prompt = `
-You are an expert SQL developer. Generate a SQL query for the ${targetDialect} dialect based on the following description:
-
-${description}
-
-${processedSchema ? `Use the following database schema:
-\`\`\`
-${processedSchema}
-\`\`\`
-
-${schemaFormat === 'json' ? 'This schema was derived from database metadata in JSON format and converted to table definitions for your reference.' : ''}` : ''}
-
-Your response should be a valid SQL query that accomplishes the task described.
-IMPORTANT: Your response MUST be a valid JSON object with the following structure and nothing else:
-{
-  "query": "The SQL query",
-  "explanation": "A detailed explanation of how the query works"
-}
-
-DO NOT wrap your response in markdown code blocks or any other formatting. Return ONLY the JSON object.
-`;
+      const schemaNote = schemaFormat === 'json'
+        ? 'This schema was derived from database metadata in JSON format and converted to table definitions for your reference.'
+        : '';
+      const { prompt, templateVersion } = renderPrompt(
+        'sql-generate',
+        {
+          dialect: targetDialect,
+          description,
+          schema: processedSchema
+            ? `Use the following database schema:\n\`\`\`\n${processedSchema}\n\`\`\`\n\n${schemaNote}`
+            : '',
+        },
+        this.promptTemplates
+      );
 
       console.log("=== SQL GENERATION PROMPT ===");
       console.log(prompt);
       console.log("============================");
 
-      const response = await this.aiService.generateContent(prompt, model);
+      const response = await this.aiService.generateContent(prompt, model, this.onUsage);
 
       console.log("=== SQL GENERATION RAW RESPONSE ===");
       console.log(response);
@@ -132,7 +137,7 @@ DO NOT wrap your response in markdown code blocks or any other formatting. Retur
         model,
         prompt,
         response,
-        context: this.withUserContext({ type: 'sql-generate', dialect: targetDialect }),
+        context: this.withUserContext({ type: 'sql-generate', dialect: targetDialect, promptTemplate: 'sql-generate', promptVersion: templateVersion }),
       });
       
       try {
@@ -288,57 +293,29 @@ DO NOT wrap your response in markdown code blocks or any other formatting. Retur
         }
       }
       
-      const prompt = `
-You are an expert SQL developer. Analyze the following SQL query for the ${dialect} dialect and validate it.
-
-SQL Query:
-\`\`\`sql
-${query}
-\`\`\`
-
-${processedSchema ? `Database Schema (for reference only - do NOT critique the schema itself):
-\`\`\`
-${processedSchema}
-\`\`\`
-${schemaFormat === 'json' ? 'This schema was derived from database metadata in JSON format and converted to table definitions for your reference.' : ''}` : ''}
-
-Please identify any issues with the SQL QUERY ONLY (not the schema) related to:
-1. Syntax errors
-2. Performance concerns
-3. Security issues (SQL injection vulnerabilities, etc.)
-4. Style/best practices
-${processedSchema ? '5. Schema compatibility (check if tables and columns referenced in the query exist in the provided schema)' : ''}
-
-IMPORTANT:
-- Do NOT critique or suggest improvements to the schema itself
-- Only validate the SQL query against the schema (if provided)
-- Assume the schema is correct and properly designed
-- Focus only on whether the query will work with the given schema
-
-Your response MUST be a valid JSON object with the following structure and nothing else:
-{
-  "isValid": true/false,
-  "query": "Original query or fixed query if there are issues",
-  "issues": [
-    {
-      "type": "syntax|performance|security|style|schema|other",
-      "description": "Description of the issue",
-      "location": "Line/column information if applicable",
-      "severity": "info|warning|error",
-      "suggestion": "Suggested fix"
-    }
-  ],
-  "explanation": "Overall explanation of the query validity"
-}
-
-DO NOT wrap your response in markdown code blocks or any other formatting. Return ONLY the JSON object.
-`;
+      const schemaNote = schemaFormat === 'json'
+        ? 'This schema was derived from database metadata in JSON format and converted to table definitions for your reference.'
+        : '';
+      const { prompt, templateVersion } = renderPrompt(
+        'sql-validate',
+        {
+          dialect,
+          query,
+          schema: processedSchema
+            ? `Database Schema (for reference only - do NOT critique the schema itself):\n\`\`\`\n${processedSchema}\n\`\`\`\n${schemaNote}`
+            : '',
+          schemaCheck: processedSchema
+            ? '5. Schema compatibility (check if tables and columns referenced in the query exist in the provided schema)'
+            : '',
+        },
+        this.promptTemplates
+      );
 
       console.log("=== SQL VALIDATION PROMPT ===");
       console.log(prompt);
       console.log("============================");
 
-      const response = await this.aiService.generateContent(prompt, model);
+      const response = await this.aiService.generateContent(prompt, model, this.onUsage);
 
       console.log("=== SQL VALIDATION RAW RESPONSE ===");
       console.log(response);
@@ -349,7 +326,7 @@ DO NOT wrap your response in markdown code blocks or any other formatting. Retur
         model,
         prompt,
         response,
-        context: this.withUserContext({ type: 'sql-validate', dialect }),
+        context: this.withUserContext({ type: 'sql-validate', dialect, promptTemplate: 'sql-validate', promptVersion: templateVersion }),
       });
       
       try {
@@ -475,37 +452,17 @@ DO NOT wrap your response in markdown code blocks or any other formatting. Retur
     console.log('[SQLAIService] Converting SQL Query', { sourceDialect, targetDialect, queryLength: query.length });
     
     try {
-      const prompt = `
-You are an expert SQL developer. Convert the following SQL query from ${sourceDialect} dialect to ${targetDialect} dialect.
-
-Original SQL Query (${sourceDialect}):
-\`\`\`sql
-${query}
-\`\`\`
-
-Please provide:
-1. The converted SQL query in ${targetDialect} dialect
-2. An explanation of the key differences between the dialects that required changes
-3. Any notes on functionality that might not be directly translatable
-
-IMPORTANT: Your response MUST be a valid JSON object with the following structure and nothing else:
-{
-  "originalQuery": "The original SQL query",
-  "convertedQuery": "The converted SQL query in the target dialect",
-  "explanation": "Explanation of the conversion process",
-  "dialectDifferences": [
-    "List of key differences between the dialects that required changes"
-  ]
-}
-
-DO NOT wrap your response in markdown code blocks or any other formatting. Return ONLY the JSON object.
-`;
+      const { prompt, templateVersion } = renderPrompt(
+        'sql-convert',
+        { sourceDialect, targetDialect, query },
+        this.promptTemplates
+      );
 
       console.log("=== SQL CONVERSION PROMPT ===");
       console.log(prompt);
       console.log("============================");
 
-      const response = await this.aiService.generateContent(prompt, model);
+      const response = await this.aiService.generateContent(prompt, model, this.onUsage);
 
       console.log("=== SQL CONVERSION RAW RESPONSE ===");
       console.log(response);
@@ -516,7 +473,7 @@ DO NOT wrap your response in markdown code blocks or any other formatting. Retur
         model,
         prompt,
         response,
-        context: this.withUserContext({ type: 'sql-convert', sourceDialect, targetDialect }),
+        context: this.withUserContext({ type: 'sql-convert', sourceDialect, targetDialect, promptTemplate: 'sql-convert', promptVersion: templateVersion }),
       });
       
       try {
@@ -1,21 +1,28 @@
-import { AIService } from '@/lib/types';
+import { AIService, TokenUsage } from '@/lib/types';
 import {
   TestDataGenerationRequest,
   TestDataGenerationResponse,
   TestDataType,
   GeneratedTestData,
   TestDataGenerationMetadata,
+  RelationalGenerationResponse,
+  RelationalTableResult,
 } from '@/lib/types/testData';
 import { fakerTypeDefinitions } from '@/lib/data/faker-type-definitions';
 import { faker } from '@faker-js/faker';
-import { createHash } from 'crypto';
-import type { FieldDefinition, FieldOptions } from '@/lib/data-generator/types';
-import { generateCopycatRows, supportsCopycat } from '@/lib/data-generator/copycatMapping';
+import { createHash, randomUUID } from 'crypto';
+import type { FieldDefinition, FieldOptions, TableDefinition } from '@/lib/data-generator/types';
+import { generateCopycatRows, supportsCopycat, toFieldDefinitions } from '@/lib/data-generator/copycatMapping';
+import { FOREIGN_KEY_FIELD_TYPE } from '@/lib/data-generator/constants';
+import { createNullPercentApplier } from '@/lib/data-generator/nullPercent';
+import { createSeededRandom, planForeignKeys } from '@/lib/data-generator/relational';
+import { findTableCycles, sortTablesByDependency } from '@/lib/data-generator/referenceValidation';
 
 type GeneratedRow = Record<string, unknown>;
 
 export class TestDataGeneratorService {
   private aiService: AIService; // Add private member for the core AI service
+  private readonly onUsage?: (usage: TokenUsage) => void;  // Called after each model call so the route can record it
   private faker = faker;
   private fakerTypeDefinitions = fakerTypeDefinitions;
   private normalizeSeed(seed: string): number {
@@ -48,8 +55,9 @@ export class TestDataGeneratorService {
   }
   
   // Inject AIService via constructor
-  constructor(aiService: AIService) {
+  constructor(aiService: AIService, onUsage?: (usage: TokenUsage) => void) {
     this.aiService = aiService;
+    this.onUsage = onUsage;
     console.log('[TestDataGeneratorService] initialized with underlying AI Service:', { serviceType: aiService.constructor.name });
   }
   
@@ -415,12 +423,7 @@ export class TestDataGeneratorService {
       const { fields, count = 100, aiEnhancement, model, seed } = request;
 
       // Convert fields to FieldDefinition format
-      const fieldDefinitions: FieldDefinition[] = fields.map((field, index) => ({
-        id: field.name ? `${field.name}-${index}` : `field-${index}`,
-        name: field.name,
-        type: field.type,
-        options: field.options,
-      }));
+      const fieldDefinitions = toFieldDefinitions(fields);
 
       const hasSeed = Boolean(seed);
       const hasAiEnhancementPrompt = Boolean(aiEnhancement?.trim());
@@ -451,7 +454,10 @@ export class TestDataGeneratorService {
           metadata.deterministic = metadata.deterministic && !hasAiSchemaFields;
           metadata.warnings!.push('Copycat fallback triggered for one or more fields; using Faker output.');
         } else {
-          const rowsWithReferences = this.applyReferenceFields(rows, fieldDefinitions);
+          const rowsWithReferences = this.applyReferenceFields(
+            this.applyNullPercent(rows, fieldDefinitions, seed),
+            fieldDefinitions
+          );
 
           if (aiEnhancement && aiEnhancement.trim()) {
             const enhanced = await this.enhanceDataWithAI(rowsWithReferences, aiEnhancement, model);
@@ -486,7 +492,10 @@ export class TestDataGeneratorService {
         metadata.warnings!.push('Fields not yet supported by Copycat are generated with Faker.');
       }
 
-      const result = await this.generateData(fieldDefinitions, count, aiEnhancement, model, seed);
+      const result = this.applyReferenceFields(
+        this.applyNullPercent(await this.generateData(fieldDefinitions, count, aiEnhancement, model, seed), fieldDefinitions, seed),
+        fieldDefinitions
+      );
 
       if (!metadata.warnings || metadata.warnings.length === 0) {
         delete (metadata as { warnings?: string[] }).warnings;
@@ -507,6 +516,95 @@ export class TestDataGeneratorService {
     }
   }
   
+  /**
+   * Generates every table of a relational schema, parents first. Each table's own fields go through
+   * generateTestDataFromFields; foreign key columns are then filled from the keys its parent tables produced.
+   */
+  async generateRelationalData(request: {
+    tables: TableDefinition[];
+    aiEnhancement?: string;
+    model?: string;
+    seed?: string;
+  }): Promise<RelationalGenerationResponse> {
+    const { tables, aiEnhancement, model, seed } = request;
+    const order = sortTablesByDependency(tables);
+    if (!order) {
+      const cycles = findTableCycles(tables).map((cycle) => cycle.join(' → '));
+      return { tables: [], error: `Tables reference each other in a cycle: ${cycles.join('; ')}` };
+    }
+
+    const random = createSeededRandom(seed ?? randomUUID());
+    const generated = new Map<string, GeneratedTestData[]>();
+    const results: RelationalTableResult[] = [];
+    const metadata: TestDataGenerationMetadata = {
+      engine: 'copycat',
+      deterministic: Boolean(seed),
+      seed: seed ?? null,
+      warnings: [],
+    };
+    const warn = (warning: string) => {
+      if (!metadata.warnings!.includes(warning)) {
+        metadata.warnings!.push(warning);
+      }
+    };
+
+    const parentKeys = (parent: string, column: string) => {
+      const values = (generated.get(parent) ?? [])
+        .map((row) => row[column])
+        .filter((value) => value !== null && value !== undefined);
+      const unique = Array.from(new Set(values));
+      if (unique.length < values.length) {
+        warn(`${parent}.${column} has duplicate values, so children only reference the distinct ones. Use Row Number or UUID for key columns.`);
+      }
+      return unique;
+    };
+
+    for (const name of order) {
+      const table = tables.find((candidate) => candidate.name === name)!;
+      const plan = planForeignKeys(table, parentKeys, random);
+      plan.warnings.forEach(warn);
+
+      const ownFields = table.fields.filter((field) => field.type !== FOREIGN_KEY_FIELD_TYPE);
+      const result: TestDataGenerationResponse = ownFields.length > 0 && plan.rowCount > 0
+        ? await this.generateTestDataFromFields({
+            fields: ownFields,
+            count: plan.rowCount,
+            aiEnhancement,
+            model,
+            // Per-table seeds keep same-named columns (every table's "id") from repeating each other's values
+            seed: seed ? `${seed}:${name}` : undefined,
+          })
+        : { data: Array.from({ length: plan.rowCount }, () => ({})), count: plan.rowCount };
+
+      if (result.error) {
+        return { tables: results, error: `${name}: ${result.error}`, metadata };
+      }
+      if (result.metadata?.engine === 'faker') {
+        metadata.engine = 'faker';
+      }
+      if (result.metadata && !result.metadata.deterministic) {
+        metadata.deterministic = false;
+      }
+      result.metadata?.warnings?.forEach(warn);
+
+      const rows = result.data.map((row, rowIndex) =>
+        Object.fromEntries(
+          table.fields.map((field) => [
+            field.name,
+            field.type === FOREIGN_KEY_FIELD_TYPE ? plan.values[field.name]?.[rowIndex] ?? null : row[field.name],
+          ])
+        )
+      );
+      generated.set(name, rows);
+      results.push({ name, data: rows, count: rows.length });
+    }
+
+    if (metadata.warnings!.length === 0) {
+      delete (metadata as { warnings?: string[] }).warnings;
+    }
+    return { tables: results, metadata };
+  }
+
   private generateValueForField(type: string, options: FieldOptions = {}): any {
     try {
       // Handle special cases first
@@ -521,6 +619,10 @@ export class TestDataGeneratorService {
       
       // Special case handlers for specific types
       switch (type) {
+        case 'Foreign Key':
+          // Assigned from the parent table by generateRelationalData
+          return null;
+
         case 'Number': {
           const min = this.toNumber(options.min, 1);
           const max = this.toNumber(options.max, 1000);
@@ -674,7 +776,7 @@ Format your response as a valid JSON object like this:
       console.log("==============================\n");
       
       // Call the AI service with the prompt
-      const response = await this.aiService.generateContent(prompt, model);
+      const response = await this.aiService.generateContent(prompt, model, this.onUsage);
       
       console.log("\n=== AI ENHANCEMENT RAW RESPONSE ===");
       console.log(response);
@@ -886,7 +988,7 @@ Format your response as a valid JSON object like this:
         const aiFields = fields.filter(field => field.type === 'AI-Generated');
 
         // Generate data for regular fields using faker
-        const data: GeneratedTestData[] = Array.from({ length: count }, () => {
+        const data: GeneratedTestData[] = Array.from({ length: count }, (_, rowIndex) => {
           const row: GeneratedRow = {};
 
           // Process regular fields with faker
@@ -894,7 +996,9 @@ Format your response as a valid JSON object like this:
             if (!field.type) return;
 
             try {
-              row[field.name] = this.generateValueForField(field.type, field.options || {});
+              row[field.name] = field.type === 'Row Number'
+                ? this.toNumber(field.options?.start, 1) + rowIndex
+                : this.generateValueForField(field.type, field.options || {});
             } catch (error) {
               console.error(`Error generating value for field ${field.name}:`, error);
               row[field.name] = `Error: ${field.type}`;
@@ -991,7 +1095,7 @@ To help you keep track, number each value from 1 to ${requestedCount} using the
       console.log("=================================\n");
       
       // Call the AI service with the prompt
-      const response = await this.aiService.generateContent(prompt, model);
+      const response = await this.aiService.generateContent(prompt, model, this.onUsage);
       
       console.log("\n=== AI FIELD GENERATION RESPONSE ===");
       console.log(response);
@@ -1099,6 +1203,11 @@ To help you keep track, number each value from 1 to ${requestedCount} using the
     return [];
   }
 
+  /** Blanks `options.nullPercent` percent of each field's values; foreign keys handle their own nulls. */
+  private applyNullPercent(rows: GeneratedTestData[], fields: FieldDefinition[], seed?: string): GeneratedTestData[] {
+    return createNullPercentApplier(fields, seed)(rows);
+  }
+
   private applyReferenceFields(rows: GeneratedTestData[], fields: FieldDefinition[]): GeneratedTestData[] {
     return rows.map((row) => {
       const updated: GeneratedRow = { ...row };
@@ -1,4 +1,7 @@
 import {
+  GherkinExamples,
+  GherkinKeyword,
+  GherkinStep,
   HighLevelTestCase,
   TestCase,
   TestCaseMode,
@@ -6,16 +9,28 @@ import {
   TestPriorityMode,
   UploadedFilePayload,
 } from '@/lib/types';
+import { normalizeGherkinStep } from '@/lib/utils/gherkin';
+import { renderPrompt, RenderedPrompt } from './prompts/renderPrompt';
 
 const MAX_FILE_SUMMARY_LENGTH = 4000;
 
-export function summarizeFiles(files?: UploadedFilePayload[]): string {
+export function summarizeFiles(
+  files?: UploadedFilePayload[],
+  options: { includePreview?: boolean } = {}
+): string {
   if (!files?.length) {
     return '';
   }
 
+  const includePreview = options.includePreview ?? true;
+
   return files
     .map((file) => {
+      if (!includePreview) {
+        // File text is already carried by the requirement chunks; only describe the file itself.
+        return [`File: ${file.name}`, `Type: ${file.type || 'unknown'}`, `Size: ${formatFileSize(file.size)}`].join('\n');
+      }
+
       const preview = file.preview ?? '';
       const trimmedPreview = preview.length > MAX_FILE_SUMMARY_LENGTH
         ? `${preview.slice(0, MAX_FILE_SUMMARY_LENGTH)}...`
@@ -55,45 +70,65 @@ export function summarizeScenarios(scenarios?: HighLevelTestCase[]): string {
       `Title: ${scenario.title}`,
       `Area: ${scenario.area ?? 'General'}`,
       `Scenario: ${scenario.scenario}`,
-    ].join('\n'))
+      scenario.requirementIds?.length ? `Requirement IDs: ${scenario.requirementIds.join(', ')}` : '',
+    ].filter(Boolean).join('\n'))
     .join('\n\n');
 
   return `Previously generated high-level scenarios to expand:\n${formatted}`;
 }
 
 export function buildTestCasePrompt(
-  options: Pick<TestCaseGenerationRequest, 'requirements' | 'files' | 'selectedScenarios' | 'mode' | 'priorityMode'>
-): string {
+  options: Pick<TestCaseGenerationRequest, 'requirements' | 'files' | 'selectedScenarios' | 'mode' | 'priorityMode' | 'promptTemplates'> & {
+    requirementCatalog?: string;
+    existingSuite?: string;
+    styleGuide?: string;
+  }
+): RenderedPrompt {
   const {
     requirements,
     files,
     selectedScenarios,
     mode,
-    priorityMode = 'comprehensive'
+    priorityMode = 'comprehensive',
+    requirementCatalog,
+    existingSuite,
+    styleGuide,
+    promptTemplates
   } = options;
 
   const fileSummary = summarizeFiles(files);
   const scenarioSummary = summarizeScenarios(selectedScenarios);
 
-  const modeInstructions = mode === 'high-level'
-    ? `Return high-level test scenarios. Focus on what to test, group scenarios by functional area, and avoid implementation specifics. Prioritize ${describePriority(priorityMode, true)}.`
-    : `Return detailed executable test cases. Include steps, test data, preconditions, and expected results. Prioritize ${describePriority(priorityMode, false)}.`;
-
-  const responseShape = mode === 'high-level'
-    ? `Each array element must include: id, title, area, scenario.`
-    : `Each array element must include: id, title, area, description, preconditions (array), testData (array), steps (array of { number, description }), expectedResult.`;
-
-  const sections = [
-    'You must produce a JSON array that matches the required schema.',
-    modeInstructions,
-    responseShape,
-    requirements ? `Project requirements:\n${requirements}` : 'No additional written requirements were supplied.',
-    fileSummary ? `Reference material extracted from uploaded files:\n${fileSummary}` : '',
-    scenarioSummary,
-    'Ensure the JSON is parseable and do not wrap it in markdown fences.',
-  ].filter(Boolean);
-
-  return sections.join('\n\n');
+  const modeInstructions = {
+    'high-level': `Return high-level test scenarios. Focus on what to test, group scenarios by functional area, and avoid implementation specifics. Prioritize ${describePriority(priorityMode, true)}.`,
+    detailed: `Return detailed executable test cases. Include steps, test data, preconditions, and expected results. Prioritize ${describePriority(priorityMode, false)}.`,
+    gherkin: `Return Cucumber/BDD scenarios written as declarative Given/When/Then steps. Use Scenario Outlines with Examples tables when one flow runs with several data sets. Prioritize ${describePriority(priorityMode, false)}.`,
+  }[mode];
+
+  const responseShape = {
+    'high-level': `Each array element must include: id, title, area, scenario.`,
+    detailed: `Each array element must include: id, title, area, description, preconditions (array), testData (array), steps (array of { number, description }), expectedResult.`,
+    gherkin: `Each array element must include: id, title (scenario name), area, feature, scenarioType ("scenario" or "scenario-outline"), tags (array, no "@"), background (array of { keyword, text }), steps (array of { keyword, text } where keyword is Given, When, Then, And, or But), and examples ({ headers, rows }) for scenario outlines.`,
+  }[mode];
+
+  return renderPrompt(
+    'single-shot',
+    {
+      modeInstructions,
+      responseShape,
+      styleGuide,
+      requirements: requirements ? `Project requirements:\n${requirements}` : 'No additional written requirements were supplied.',
+      requirementIds: requirementCatalog
+        ? `Requirement IDs (add a "requirementIds" array to every element listing the IDs it verifies; use only IDs from this list):\n${requirementCatalog}`
+        : '',
+      referenceDocuments: fileSummary ? `Reference material extracted from uploaded files:\n${fileSummary}` : '',
+      scenarios: scenarioSummary,
+      existingSuite: existingSuite
+        ? `Existing regression suite (already covered; generate only cases for behaviour it does not verify):\n${existingSuite}`
+        : '',
+    },
+    promptTemplates
+  );
 }
 
 function describePriority(priority: TestPriorityMode, isHighLevel: boolean): string {
@@ -108,10 +143,55 @@ function describePriority(priority: TestPriorityMode, isHighLevel: boolean): str
     : 'wide coverage including negative cases';
 }
 
+function toRequirementIds(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  const ids = value.filter((id): id is string => typeof id === 'string' && Boolean(id.trim()));
+  return ids.length ? ids : undefined;
+}
+
+function toGherkinSteps(value: unknown, firstKeyword: GherkinKeyword): GherkinStep[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map((step: any, index: number) => normalizeGherkinStep(step ?? '', index === 0 ? firstKeyword : 'And'))
+    .filter((step) => step.text);
+}
+
+function toGherkinExamples(value: any): GherkinExamples | undefined {
+  if (!value || !Array.isArray(value.headers) || !value.headers.length) {
+    return undefined;
+  }
+  return {
+    headers: value.headers.map(String),
+    rows: Array.isArray(value.rows) ? value.rows.filter(Array.isArray).map((row: any[]) => row.map(String)) : [],
+  };
+}
+
 export function mapModelResponseToTestCases(parsed: any[], mode: TestCaseMode): TestCase[] {
   const now = new Date();
 
   return parsed.map((item: any, index: number) => {
+    if (mode === 'gherkin') {
+      const examples = toGherkinExamples(item.examples);
+      return {
+        id: item.id ?? `GH-${String(index + 1).padStart(3, '0')}`,
+        title: item.title ?? `Scenario ${index + 1}`,
+        area: item.area ?? 'General',
+        feature: item.feature ?? item.area ?? 'General',
+        description: item.description ?? '',
+        scenarioType: item.scenarioType === 'scenario-outline' && examples ? 'scenario-outline' : 'scenario',
+        tags: Array.isArray(item.tags) ? item.tags.filter((tag: unknown) => typeof tag === 'string' && tag.trim()) : [],
+        background: toGherkinSteps(item.background, 'Given'),
+        steps: toGherkinSteps(item.steps, 'Given'),
+        examples,
+        requirementIds: toRequirementIds(item.requirementIds),
+        createdAt: now,
+      } as TestCase;
+    }
+
     if (mode === 'high-level') {
       return {
         id: item.id ?? `TS-${String(index + 1).padStart(3, '0')}`,
@@ -119,6 +199,7 @@ export function mapModelResponseToTestCases(parsed: any[], mode: TestCaseMode):
         area: item.area ?? 'General',
         scenario: item.scenario ?? item.description ?? '',
         description: '',
+        requirementIds: toRequirementIds(item.requirementIds),
         createdAt: now,
       } as TestCase;
     }
@@ -137,6 +218,7 @@ export function mapModelResponseToTestCases(parsed: any[], mode: TestCaseMode):
           }))
         : [],
       expectedResult: item.expectedResult ?? '',
+      requirementIds: toRequirementIds(item.requirementIds),
       createdAt: now,
     } as TestCase;
   });
@@ -1,8 +1,12 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createAzure } from '@ai-sdk/azure';
 import { createGateway } from '@ai-sdk/gateway';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createOpenAI } from '@ai-sdk/openai';
 import type { LanguageModel } from 'ai';
 import { LLMProvider } from '@/lib/types';
+import { withTextJsonFallback } from './localModel';
+import { createReplayModel, getRecordingMode, withRecording } from './recordedModel';
 
 interface ResolveModelOptions {
   provider?: LLMProvider;
@@ -44,6 +48,34 @@ const openRouterClient = process.env.OPENROUTER_API_KEY
     })
   : null;
 
+const anthropicClient = process.env.ANTHROPIC_API_KEY
+  ? createAnthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+      baseURL: process.env.ANTHROPIC_BASE_URL,
+    })
+  : null;
+
+// Either the resource name or a full base URL (for private endpoints and proxies) identifies the Azure resource.
+const azureClient = process.env.AZURE_OPENAI_API_KEY && (process.env.AZURE_OPENAI_RESOURCE_NAME || process.env.AZURE_OPENAI_BASE_URL)
+  ? createAzure({
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      resourceName: process.env.AZURE_OPENAI_RESOURCE_NAME,
+      baseURL: process.env.AZURE_OPENAI_BASE_URL,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION,
+    })
+  : null;
+
+// Ollama, LM Studio, vLLM and similar servers; most ignore the API key but the client requires one.
+const localClient = process.env.LOCAL_LLM_BASE_URL
+  ? createOpenAI({
+      apiKey: process.env.LOCAL_LLM_API_KEY ?? 'local',
+      baseURL: process.env.LOCAL_LLM_BASE_URL,
+      compatibility: 'compatible',
+    })
+  : null;
+
+const localStructuredOutputs = process.env.LOCAL_LLM_STRUCTURED_OUTPUTS === 'true';
+
 function inferDefaultModel(provider: LLMProvider | undefined, explicit?: string): string {
   if (explicit) {
     return explicit;
@@ -54,6 +86,12 @@ function inferDefaultModel(provider: LLMProvider | undefined, explicit?: string)
       return process.env.GEMINI_MODEL ?? 'models/gemini-1.5-pro-latest';
     case 'openrouter':
       return process.env.OPENROUTER_MODEL ?? 'openrouter/auto';
+    case 'local':
+      return process.env.LOCAL_LLM_MODEL ?? 'llama3.1';
+    case 'anthropic':
+      return process.env.ANTHROPIC_MODEL ?? 'claude-sonnet-4-5';
+    case 'azure':
+      return process.env.AZURE_OPENAI_DEPLOYMENT ?? 'gpt-4.1-mini';
     case 'openai':
     default:
       return process.env.OPENAI_MODEL ?? 'gpt-4.1-mini';
@@ -73,10 +111,39 @@ function buildGatewayModelId(options: ResolveModelOptions): string | null {
   return `${options.provider}/${targetModel}`;
 }
 
+/** AI_RECORDING_MODE=replay serves recorded responses without API keys; =record saves every live response. */
 export function resolveLanguageModel(options: ResolveModelOptions): LanguageModel {
+  const recordingMode = getRecordingMode();
+  if (recordingMode === 'replay') {
+    return createReplayModel({ provider: options.provider, modelId: options.model });
+  }
+
+  const model = resolveProviderModel(options);
+  return recordingMode === 'record' ? withRecording(model) : model;
+}
+
+function resolveProviderModel(options: ResolveModelOptions): LanguageModel {
   const provider = options.provider ?? 'openai';
   const desiredModel = inferDefaultModel(provider, options.model);
 
+  // Local models never go through the gateway: the point of a self-hosted endpoint is that prompts stay on-premises.
+  if (provider === 'local') {
+    if (!localClient) {
+      throw new Error('LOCAL_LLM_BASE_URL is not configured');
+    }
+    return localStructuredOutputs
+      ? (localClient(desiredModel, { structuredOutputs: true }) as unknown as LanguageModel)
+      : withTextJsonFallback(localClient(desiredModel) as unknown as LanguageModel);
+  }
+
+  // Azure models are deployment names within the team's own resource, which the gateway cannot address.
+  if (provider === 'azure') {
+    if (!azureClient) {
+      throw new Error('AZURE_OPENAI_API_KEY and AZURE_OPENAI_RESOURCE_NAME are not configured');
+    }
+    return azureClient(desiredModel) as unknown as LanguageModel;
+  }
+
   if (gatewayClient) {
     const modelId = buildGatewayModelId({ ...options, provider });
     if (!modelId) {
@@ -102,6 +169,12 @@ export function resolveLanguageModel(options: ResolveModelOptions): LanguageMode
       }
       return openRouterClient(desiredModel) as unknown as LanguageModel;
     }
+    case 'anthropic': {
+      if (!anthropicClient) {
+        throw new Error('ANTHROPIC_API_KEY is not configured');
+      }
+      return anthropicClient(desiredModel) as unknown as LanguageModel;
+    }
     case 'openai':
     default: {
       if (!openaiClient) {
@@ -113,6 +186,15 @@ export function resolveLanguageModel(options: ResolveModelOptions): LanguageMode
 }
 
 export function canResolveModel(provider: LLMProvider | undefined): boolean {
+  if (getRecordingMode() === 'replay') {
+    return true;
+  }
+  if (provider === 'local') {
+    return Boolean(localClient);
+  }
+  if (provider === 'azure') {
+    return Boolean(azureClient);
+  }
   if (gatewayClient) {
     return true;
   }
@@ -122,6 +204,8 @@ export function canResolveModel(provider: LLMProvider | undefined): boolean {
       return Boolean(geminiClient);
     case 'openrouter':
       return Boolean(openRouterClient);
+    case 'anthropic':
+      return Boolean(anthropicClient);
     case 'openai':
     default:
       return Boolean(openaiClient);
@@ -2,12 +2,18 @@ import { generateText } from 'ai';
 import {
   AIService,
   AgenticProgressEvent,
+  GenerationRunOptions,
   LLMProvider,
   ModelType,
   TestCaseGenerationRequest,
   TestCaseGenerationResponse,
+  TestCaseRefinementEvent,
+  TestCaseRefinementRequest,
+  TestCaseRefinementResponse,
+  TokenUsage,
 } from '@/lib/types';
 import { TestCaseAgenticPipeline } from './pipeline/testCasePipeline';
+import { toTokenUsage } from './pipeline/tokenUsage';
 import { canResolveModel, resolveLanguageModel } from './vercelClient';
 import { logAIInteraction } from '@/lib/utils/aiLogger';
 
@@ -18,7 +24,8 @@ export class VercelAIService implements AIService {
 
   async generateTestCases(
     request: TestCaseGenerationRequest,
-    progressCallback?: (event: AgenticProgressEvent) => void
+    progressCallback?: (event: AgenticProgressEvent) => void,
+    runOptions?: GenerationRunOptions
   ): Promise<TestCaseGenerationResponse> {
     const provider = request.provider ?? this.defaultProvider;
 
@@ -34,10 +41,27 @@ export class VercelAIService implements AIService {
       provider,
     };
 
-    return this.pipeline.generate(normalizedRequest, progressCallback);
+    return this.pipeline.generate(normalizedRequest, progressCallback, runOptions);
   }
 
-  async generateContent(prompt: string, model?: ModelType): Promise<string> {
+  async refineTestCases(
+    request: TestCaseRefinementRequest,
+    progressCallback?: (event: TestCaseRefinementEvent) => void,
+    runOptions: Pick<GenerationRunOptions, 'signal' | 'onUsage'> = {}
+  ): Promise<TestCaseRefinementResponse> {
+    const provider = request.provider ?? this.defaultProvider;
+
+    if (!canResolveModel(provider)) {
+      return {
+        testCases: [],
+        error: `Provider ${provider} is not configured. Please supply the appropriate API key in environment variables.`,
+      };
+    }
+
+    return this.pipeline.refine({ ...request, provider }, progressCallback, runOptions.signal, runOptions.onUsage);
+  }
+
+  async generateContent(prompt: string, model?: ModelType, onUsage?: (usage: TokenUsage) => void): Promise<string> {
     const provider = this.defaultProvider;
     if (!canResolveModel(provider)) {
       throw new Error(`Provider ${provider} is not configured.`);
@@ -45,6 +69,10 @@ export class VercelAIService implements AIService {
 
     const languageModel = resolveLanguageModel({ provider, model });
     const result = await generateText({ model: languageModel, prompt });
+    const usage = toTokenUsage(result.usage, provider, model ?? languageModel.modelId);
+    if (usage) {
+      onUsage?.(usage);
+    }
 
     logAIInteraction({
       provider,
@@ -0,0 +1,162 @@
+import { DetailedTestCase, GherkinTestCase, HighLevelTestCase } from '@/lib/types';
+import {
+  getTestCaseExporter,
+  listTestCaseExporters,
+  registerTestCaseExporter,
+  toExportableTestCase,
+} from '@/lib/test-case-export';
+
+const detailedCase: DetailedTestCase = {
+  id: 'TC-001',
+  title: 'Login with valid credentials',
+  area: 'Authentication',
+  description: 'Valid users can sign in',
+  preconditions: ['User account exists'],
+  testData: ['email: qa@example.com', 'password: "Secret1"'],
+  steps: [
+    { number: 2, description: 'Submit the form' },
+    { number: 1, description: 'Enter email and password' },
+  ],
+  expectedResult: 'Dashboard is shown',
+  requirementIds: ['REQ-1'],
+  createdAt: new Date(),
+};
+
+const highLevelCase: HighLevelTestCase = {
+  id: 'TS-001',
+  title: 'Password reset',
+  area: 'Recovery',
+  scenario: 'Verify users can reset a forgotten password via email',
+  description: '',
+  createdAt: new Date(),
+};
+
+const gherkinCase: GherkinTestCase = {
+  id: 'GH-001',
+  title: 'Sign in',
+  description: '',
+  area: 'Authentication',
+  feature: 'Sign in',
+  scenarioType: 'scenario',
+  tags: [],
+  background: [{ keyword: 'Given', text: 'the login page is open' }],
+  steps: [
+    { keyword: 'When', text: 'valid credentials are submitted' },
+    { keyword: 'Then', text: 'the dashboard is shown' },
+  ],
+  createdAt: new Date(),
+};
+
+// Minimal parser for the always-quoted CSV the exporters emit (cells may contain newlines).
+const parseCsv = (content: string): string[][] =>
+  Array.from(content.matchAll(/((?:"(?:[^"]|"")*",?)+)(?:\n|$)/g)).map((row) =>
+    Array.from(row[1].matchAll(/"((?:[^"]|"")*)"/g)).map((cell) => cell[1].replace(/""/g, '"'))
+  );
+
+describe('test case exporters', () => {
+  it('registers the built-in test management formats', () => {
+    expect(listTestCaseExporters().map((exporter) => exporter.id)).toEqual([
+      'testrail-csv',
+      'testrail-xml',
+      'xray-csv',
+      'zephyr-json',
+      'qtest-csv',
+    ]);
+  });
+
+  it('allows additional exporters to be plugged in', () => {
+    registerTestCaseExporter({
+      id: 'custom-json',
+      label: 'Custom',
+      tool: 'Custom',
+      description: 'Test exporter',
+      export: (testCases) => ({ content: JSON.stringify(testCases), filename: 'custom.json', mimeType: 'application/json' }),
+    });
+
+    expect(getTestCaseExporter('custom-json')?.label).toBe('Custom');
+  });
+
+  it('normalizes detailed cases with ordered steps, first-step data and last-step expectation', () => {
+    const exportable = toExportableTestCase(detailedCase);
+
+    expect(exportable.steps).toEqual([
+      { action: 'Enter email and password', data: 'email: qa@example.com\npassword: "Secret1"', expected: '' },
+      { action: 'Submit the form', data: '', expected: 'Dashboard is shown' },
+    ]);
+  });
+
+  it('keeps Gherkin keywords on each step and the background as preconditions', () => {
+    const exportable = toExportableTestCase(gherkinCase);
+
+    expect(exportable.preconditions).toEqual(['Given the login page is open']);
+    expect(exportable.steps.map((step) => step.action)).toEqual([
+      'When valid credentials are submitted',
+      'Then the dashboard is shown',
+    ]);
+  });
+
+  it('writes TestRail CSV with sections and one row per step', () => {
+    const result = getTestCaseExporter('testrail-csv')!.export([detailedCase], { mode: 'detailed', rootFolder: 'Release 1' });
+    const rows = parseCsv(result.content);
+
+    expect(result.filename).toBe('test-cases-testrail.csv');
+    expect(rows).toHaveLength(3);
+    expect(rows.every((row) => row.length === 11)).toBe(true);
+    expect(rows[0].slice(8)).toEqual(['Steps (Step)', 'Steps (Additional Info)', 'Steps (Expected Result)']);
+    expect(rows[1].slice(2, 5)).toEqual(['Authentication', 'Release 1 > Authentication', 'Test Case (Steps)']);
+    expect(rows[1][7]).toBe('- User account exists');
+    expect(rows[1][9]).toBe('email: qa@example.com\npassword: "Secret1"');
+    expect(rows[2]).toEqual(['TC-001', '', '', '', '', '', '', '', 'Submit the form', '', 'Dashboard is shown']);
+  });
+
+  it('writes TestRail XML nested under the root section with escaped content', () => {
+    const result = getTestCaseExporter('testrail-xml')!.export(
+      [{ ...detailedCase, title: 'Login <admin> & user' }],
+      { mode: 'detailed', rootFolder: 'Release 1' }
+    );
+
+    expect(result.content).toContain('<name>Release 1</name>');
+    expect(result.content).toContain('<name>Authentication</name>');
+    expect(result.content).toContain('<title>Login &lt;admin&gt; &amp; user</title>');
+    expect(result.content).toContain('<references>REQ-1</references>');
+    expect(result.content.match(/<step>/g)).toHaveLength(2);
+  });
+
+  it('writes Xray CSV step rows grouped by test id', () => {
+    const result = getTestCaseExporter('xray-csv')!.export([detailedCase], { mode: 'detailed' });
+    const rows = parseCsv(result.content);
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toEqual(['Test ID', 'Summary', 'Description', 'Test Type', 'Test Repository Path', 'Requirements', 'Action', 'Data', 'Expected Result']);
+    expect(rows[1][2]).toBe('Valid users can sign in\n\nPreconditions:\n- User account exists');
+    expect(rows[1].slice(3, 7)).toEqual(['Manual', 'Authentication', 'REQ-1', 'Enter email and password']);
+    expect(rows[2]).toEqual(['TC-001', '', '', '', '', '', 'Submit the form', '', 'Dashboard is shown']);
+  });
+
+  it('writes Zephyr Scale JSON with folders and step scripts', () => {
+    const result = getTestCaseExporter('zephyr-json')!.export([detailedCase, highLevelCase], { mode: 'detailed' });
+    const payload = JSON.parse(result.content);
+
+    expect(payload.testCases[0]).toMatchObject({
+      name: 'Login with valid credentials',
+      precondition: '- User account exists',
+      folder: '/Authentication',
+      labels: ['REQ-1'],
+      testScript: { type: 'STEP_BY_STEP' },
+    });
+    expect(payload.testCases[0].testScript.steps[0].testData).toContain('qa@example.com');
+    expect(payload.testCases[1].testScript).toEqual({ type: 'PLAIN_TEXT', text: highLevelCase.scenario });
+  });
+
+  it('writes qTest CSV with modules and test data under the precondition', () => {
+    const result = getTestCaseExporter('qtest-csv')!.export([highLevelCase], { mode: 'high-level' });
+    const rows = parseCsv(result.content);
+
+    expect(result.filename).toBe('test-scenarios-qtest.csv');
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toEqual(['Recovery', 'Password reset', highLevelCase.scenario, '', '1', highLevelCase.scenario, '']);
+
+    const detailed = parseCsv(getTestCaseExporter('qtest-csv')!.export([detailedCase], { mode: 'detailed' }).content);
+    expect(detailed[1][3]).toBe('- User account exists\n\nTest data:\n- email: qa@example.com\n- password: "Secret1"');
+  });
+});
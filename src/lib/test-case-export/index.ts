@@ -0,0 +1,26 @@
+import type { TestCaseExporter, TestCaseExporterId } from './types';
+import { testRailCsvExporter, testRailXmlExporter } from './testRail';
+import { xrayCsvExporter } from './xray';
+import { zephyrJsonExporter } from './zephyr';
+import { qTestCsvExporter } from './qTest';
+
+export * from './types';
+export { toExportableTestCase } from './shared';
+
+const exporters = new Map<TestCaseExporterId, TestCaseExporter>();
+
+export function registerTestCaseExporter(exporter: TestCaseExporter): void {
+  exporters.set(exporter.id, exporter);
+}
+
+export function getTestCaseExporter(id: TestCaseExporterId): TestCaseExporter | undefined {
+  return exporters.get(id);
+}
+
+export function listTestCaseExporters(): TestCaseExporter[] {
+  return Array.from(exporters.values());
+}
+
+[testRailCsvExporter, testRailXmlExporter, xrayCsvExporter, zephyrJsonExporter, qTestCsvExporter].forEach(
+  registerTestCaseExporter
+);
@@ -0,0 +1,53 @@
+import type { TestCaseExporter } from './types';
+import {
+  CSV_MIME_TYPE,
+  encodeCsv,
+  exportFilename,
+  formatPreconditions,
+  resolveFolderPath,
+  stepsOrSummary,
+  toExportableTestCase,
+} from './shared';
+
+// qTest's importer has no test data column, so test data is listed under the precondition.
+export const qTestCsvExporter: TestCaseExporter = {
+  id: 'qtest-csv',
+  label: 'qTest (CSV)',
+  tool: 'qTest',
+  description: 'qTest Manager import sheet with modules per area and numbered test steps.',
+  export(testCases, options) {
+    const headers = [
+      'Module',
+      'Name',
+      'Description',
+      'Precondition',
+      'Test Step #',
+      'Test Step Description',
+      'Test Step Expected Result',
+    ];
+
+    const rows = testCases.map(toExportableTestCase).flatMap((testCase) =>
+      stepsOrSummary(testCase).map((step, index) =>
+        index === 0
+          ? [
+              resolveFolderPath(testCase.area, options),
+              testCase.title,
+              [testCase.description, testCase.requirementIds.length ? `Requirements: ${testCase.requirementIds.join(', ')}` : '']
+                .filter(Boolean)
+                .join('\n\n'),
+              formatPreconditions(testCase.preconditions, testCase.testData),
+              index + 1,
+              step.action,
+              step.expected,
+            ]
+          : ['', '', '', '', index + 1, step.action, step.expected]
+      )
+    );
+
+    return {
+      content: encodeCsv(headers, rows),
+      filename: exportFilename(options, 'qtest', 'csv'),
+      mimeType: CSV_MIME_TYPE,
+    };
+  },
+};
@@ -0,0 +1,127 @@
+import type { DetailedTestCase, HighLevelTestCase, TestCase } from '@/lib/types';
+import { isGherkinTestCase } from '@/lib/utils/gherkin';
+import type { ExportableTestCase, TestCaseExportOptions } from './types';
+
+export const CSV_MIME_TYPE = 'text/csv;charset=utf-8;';
+export const XML_MIME_TYPE = 'application/xml;charset=utf-8;';
+export const JSON_MIME_TYPE = 'application/json;charset=utf-8;';
+
+const DEFAULT_AREA = 'General';
+
+const isHighLevelTestCase = (testCase: TestCase): testCase is HighLevelTestCase =>
+  'scenario' in testCase && typeof (testCase as HighLevelTestCase).scenario === 'string';
+
+/**
+ * Normalizes high-level, detailed and Gherkin cases into one shape. The overall expected result is attached
+ * to the last step because generated cases do not carry per-step expectations; test data goes on the first step.
+ */
+export function toExportableTestCase(testCase: TestCase): ExportableTestCase {
+  const base = {
+    id: testCase.id,
+    title: testCase.title,
+    area: testCase.area?.trim() || DEFAULT_AREA,
+    requirementIds: testCase.requirementIds ?? [],
+  };
+
+  if (isHighLevelTestCase(testCase)) {
+    return {
+      ...base,
+      description: testCase.scenario || testCase.description,
+      preconditions: [],
+      testData: [],
+      steps: [],
+      expectedResult: '',
+    };
+  }
+
+  if (isGherkinTestCase(testCase)) {
+    // Background steps stay as preconditions; each scenario line becomes one keyword-prefixed step.
+    const examples = testCase.examples;
+    const testData = examples?.headers.length
+      ? [examples.headers, ...examples.rows].map((row) => `| ${row.join(' | ')} |`)
+      : [];
+    return {
+      ...base,
+      description: testCase.description || testCase.feature,
+      preconditions: testCase.background.map((step) => `${step.keyword} ${step.text}`),
+      testData,
+      steps: testCase.steps.map((step, index) => ({
+        action: `${step.keyword} ${step.text}`,
+        data: index === 0 ? testData.join('\n') : '',
+        expected: '',
+      })),
+      expectedResult: '',
+    };
+  }
+
+  const detailed = testCase as DetailedTestCase;
+  const testData = detailed.testData ?? [];
+  const expectedResult = detailed.expectedResult ?? '';
+  const sourceSteps = [...(detailed.steps ?? [])].sort((a, b) => a.number - b.number);
+  const steps = sourceSteps.length
+    ? sourceSteps.map((step, index) => ({
+        action: step.description,
+        data: index === 0 ? testData.join('\n') : '',
+        expected: index === sourceSteps.length - 1 ? expectedResult : '',
+      }))
+    : [{ action: detailed.description || detailed.title, data: testData.join('\n'), expected: expectedResult }];
+
+  return {
+    ...base,
+    description: detailed.description ?? '',
+    preconditions: detailed.preconditions ?? [],
+    testData,
+    steps,
+    expectedResult,
+  };
+}
+
+export function resolveFolderPath(area: string, options: TestCaseExportOptions, separator = '/'): string {
+  const root = options.rootFolder?.trim();
+  return root ? `${root}${separator}${area}` : area;
+}
+
+export function formatList(items: string[]): string {
+  return items.map((item) => `- ${item}`).join('\n');
+}
+
+export function formatPreconditions(preconditions: string[], testData: string[] = []): string {
+  const sections = [
+    preconditions.length ? formatList(preconditions) : '',
+    testData.length ? `Test data:\n${formatList(testData)}` : '',
+  ];
+  return sections.filter(Boolean).join('\n\n');
+}
+
+const encodeCsvCell = (value: string | number | undefined) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+
+export function encodeCsv(headers: string[], rows: Array<Array<string | number | undefined>>): string {
+  return [headers, ...rows].map((row) => row.map(encodeCsvCell).join(',')).join('\n');
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function groupByArea(testCases: ExportableTestCase[]): Array<[string, ExportableTestCase[]]> {
+  const groups = new Map<string, ExportableTestCase[]>();
+  testCases.forEach((testCase) => {
+    groups.set(testCase.area, [...(groups.get(testCase.area) ?? []), testCase]);
+  });
+  return Array.from(groups.entries());
+}
+
+export function exportFilename(options: TestCaseExportOptions, suffix: string, extension: string): string {
+  const base = options.mode === 'high-level' ? 'test-scenarios' : 'test-cases';
+  return `${base}-${suffix}.${extension}`;
+}
+
+/** High-level scenarios have no steps; exporters that require at least one step row use the scenario text instead. */
+export function stepsOrSummary(testCase: ExportableTestCase): ExportableTestCase['steps'] {
+  return testCase.steps.length ? testCase.steps : [{ action: testCase.description, data: '', expected: '' }];
+}
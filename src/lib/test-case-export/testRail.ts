@@ -0,0 +1,135 @@
+import type { ExportableTestCase, TestCaseExporter } from './types';
+import {
+  CSV_MIME_TYPE,
+  XML_MIME_TYPE,
+  encodeCsv,
+  escapeXml,
+  exportFilename,
+  formatList,
+  groupByArea,
+  resolveFolderPath,
+  stepsOrSummary,
+  toExportableTestCase,
+} from './shared';
+
+const TEMPLATE = 'Test Case (Steps)';
+const CASE_TYPE = 'Functional';
+const SECTION_SEPARATOR = ' > ';
+
+// One row per step ("steps separated" layout); case-level columns are only filled on the first row.
+export const testRailCsvExporter: TestCaseExporter = {
+  id: 'testrail-csv',
+  label: 'TestRail (CSV)',
+  tool: 'TestRail',
+  description: 'CSV for the TestRail importer using the Test Case (Steps) template with separated steps.',
+  export(testCases, options) {
+    const headers = [
+      'ID',
+      'Title',
+      'Section',
+      'Section Hierarchy',
+      'Template',
+      'Type',
+      'References',
+      'Preconditions',
+      'Steps (Step)',
+      'Steps (Additional Info)',
+      'Steps (Expected Result)',
+    ];
+
+    const rows = testCases.map(toExportableTestCase).flatMap((testCase) =>
+      stepsOrSummary(testCase).map((step, index) =>
+        index === 0
+          ? [
+              testCase.id,
+              testCase.title,
+              testCase.area,
+              resolveFolderPath(testCase.area, options, SECTION_SEPARATOR),
+              TEMPLATE,
+              CASE_TYPE,
+              testCase.requirementIds.join(', '),
+              formatList(testCase.preconditions),
+              step.action,
+              step.data,
+              step.expected,
+            ]
+          : [testCase.id, '', '', '', '', '', '', '', step.action, step.data, step.expected]
+      )
+    );
+
+    return {
+      content: encodeCsv(headers, rows),
+      filename: exportFilename(options, 'testrail', 'csv'),
+      mimeType: CSV_MIME_TYPE,
+    };
+  },
+};
+
+const indent = (lines: string[], depth = 1) => lines.map((line) => `${'  '.repeat(depth)}${line}`);
+const element = (name: string, value: string) => `<${name}>${escapeXml(value)}</${name}>`;
+
+const renderXmlCase = (testCase: ExportableTestCase): string[] => {
+  const steps = stepsOrSummary(testCase).flatMap((step, index) => [
+    '<step>',
+    ...indent([
+      element('index', String(index + 1)),
+      element('content', step.action),
+      ...(step.data ? [element('additional_info', step.data)] : []),
+      element('expected', step.expected),
+    ]),
+    '</step>',
+  ]);
+
+  return [
+    '<case>',
+    ...indent([
+      element('id', testCase.id),
+      element('title', testCase.title),
+      element('template', TEMPLATE),
+      element('type', CASE_TYPE),
+      element('references', testCase.requirementIds.join(', ')),
+      '<custom>',
+      ...indent([
+        element('preconds', formatList(testCase.preconditions)),
+        '<steps_separated>',
+        ...indent(steps),
+        '</steps_separated>',
+      ]),
+      '</custom>',
+    ]),
+    '</case>',
+  ];
+};
+
+const renderXmlSection = (name: string, children: string[], childTag: 'cases' | 'sections'): string[] => [
+  '<section>',
+  ...indent([element('name', name), `<${childTag}>`, ...indent(children), `</${childTag}>`]),
+  '</section>',
+];
+
+export const testRailXmlExporter: TestCaseExporter = {
+  id: 'testrail-xml',
+  label: 'TestRail (XML)',
+  tool: 'TestRail',
+  description: 'TestRail XML import file with one section per area and separated steps.',
+  export(testCases, options) {
+    const areaSections = groupByArea(testCases.map(toExportableTestCase)).flatMap(([area, areaCases]) =>
+      renderXmlSection(area, areaCases.flatMap(renderXmlCase), 'cases')
+    );
+    const root = options.rootFolder?.trim();
+    const sections = root ? renderXmlSection(root, areaSections, 'sections') : areaSections;
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<suite>',
+      ...indent(['<sections>', ...indent(sections), '</sections>']),
+      '</suite>',
+    ];
+
+    return {
+      content: `${lines.join('\n')}\n`,
+      filename: exportFilename(options, 'testrail', 'xml'),
+      mimeType: XML_MIME_TYPE,
+    };
+  },
+};
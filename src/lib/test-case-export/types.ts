@@ -0,0 +1,42 @@
+import type { TestCase, TestCaseMode } from '@/lib/types';
+
+export type TestCaseExporterId = 'testrail-csv' | 'testrail-xml' | 'xray-csv' | 'zephyr-json' | 'qtest-csv' | (string & {});
+
+export interface TestCaseExportOptions {
+  mode: TestCaseMode;
+  /** Optional parent folder/section that every area is nested under. */
+  rootFolder?: string;
+}
+
+export interface TestCaseExportResult {
+  content: string;
+  filename: string;
+  mimeType: string;
+}
+
+export interface TestCaseExporter {
+  id: TestCaseExporterId;
+  label: string;
+  tool: string;
+  description: string;
+  export(testCases: TestCase[], options: TestCaseExportOptions): TestCaseExportResult;
+}
+
+/** Tool-neutral view of a test case that every exporter maps from. */
+export interface ExportableStep {
+  action: string;
+  data: string;
+  expected: string;
+}
+
+export interface ExportableTestCase {
+  id: string;
+  title: string;
+  area: string;
+  description: string;
+  preconditions: string[];
+  testData: string[];
+  steps: ExportableStep[];
+  expectedResult: string;
+  requirementIds: string[];
+}
@@ -0,0 +1,60 @@
+import type { TestCaseExporter } from './types';
+import {
+  CSV_MIME_TYPE,
+  encodeCsv,
+  exportFilename,
+  formatList,
+  resolveFolderPath,
+  stepsOrSummary,
+  toExportableTestCase,
+} from './shared';
+
+// Xray's Test Case Importer groups consecutive rows by "Test ID"; each row carries one Action/Data/Expected Result step.
+export const xrayCsvExporter: TestCaseExporter = {
+  id: 'xray-csv',
+  label: 'Xray (CSV)',
+  tool: 'Xray',
+  description: 'Jira/Xray Test Case Importer CSV with one Action/Data/Expected Result row per step.',
+  export(testCases, options) {
+    const headers = [
+      'Test ID',
+      'Summary',
+      'Description',
+      'Test Type',
+      'Test Repository Path',
+      'Requirements',
+      'Action',
+      'Data',
+      'Expected Result',
+    ];
+
+    const rows = testCases.map(toExportableTestCase).flatMap((testCase) => {
+      const description = [
+        testCase.description,
+        testCase.preconditions.length ? `Preconditions:\n${formatList(testCase.preconditions)}` : '',
+      ].filter(Boolean).join('\n\n');
+
+      return stepsOrSummary(testCase).map((step, index) =>
+        index === 0
+          ? [
+              testCase.id,
+              testCase.title,
+              description,
+              'Manual',
+              resolveFolderPath(testCase.area, options),
+              testCase.requirementIds.join(','),
+              step.action,
+              step.data,
+              step.expected,
+            ]
+          : [testCase.id, '', '', '', '', '', step.action, step.data, step.expected]
+      );
+    });
+
+    return {
+      content: encodeCsv(headers, rows),
+      filename: exportFilename(options, 'xray', 'csv'),
+      mimeType: CSV_MIME_TYPE,
+    };
+  },
+};
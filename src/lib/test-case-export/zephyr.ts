@@ -0,0 +1,38 @@
+import type { TestCaseExporter } from './types';
+import { JSON_MIME_TYPE, exportFilename, formatList, resolveFolderPath, toExportableTestCase } from './shared';
+
+// Mirrors the Zephyr Scale test case payload (name, objective, precondition, folder, testScript).
+export const zephyrJsonExporter: TestCaseExporter = {
+  id: 'zephyr-json',
+  label: 'Zephyr Scale (JSON)',
+  tool: 'Zephyr Scale',
+  description: 'Zephyr Scale test cases with folders per area and step-by-step scripts.',
+  export(testCases, options) {
+    const payload = {
+      testCases: testCases.map(toExportableTestCase).map((testCase) => ({
+        key: testCase.id,
+        name: testCase.title,
+        objective: testCase.description,
+        precondition: formatList(testCase.preconditions),
+        folder: `/${resolveFolderPath(testCase.area, options)}`,
+        labels: testCase.requirementIds,
+        testScript: testCase.steps.length
+          ? {
+              type: 'STEP_BY_STEP',
+              steps: testCase.steps.map((step) => ({
+                description: step.action,
+                testData: step.data,
+                expectedResult: step.expected,
+              })),
+            }
+          : { type: 'PLAIN_TEXT', text: testCase.description },
+      })),
+    };
+
+    return {
+      content: JSON.stringify(payload, null, 2),
+      filename: exportFilename(options, 'zephyr', 'json'),
+      mimeType: JSON_MIME_TYPE,
+    };
+  },
+};
@@ -0,0 +1,73 @@
+import { DetailedTestCase, HighLevelTestCase } from '@/lib/types';
+import { getTestCaseExporter } from '@/lib/test-case-export';
+import { detectImportFormat, parseCsv, parseJsonTestCases, rowsToTestCases } from '@/lib/test-case-import';
+
+const detailedCase: DetailedTestCase = {
+  id: 'TC-001',
+  title: 'Login with valid credentials',
+  area: 'Authentication',
+  description: 'Valid users can sign in',
+  preconditions: ['User account exists'],
+  testData: ['email: qa@example.com', 'password: "Secret1"'],
+  steps: [
+    { number: 1, description: 'Enter email and password' },
+    { number: 2, description: 'Submit the form' },
+  ],
+  expectedResult: 'Dashboard is shown',
+  requirementIds: ['REQ-1'],
+  createdAt: new Date(),
+};
+
+describe('test case import', () => {
+  it('parses quoted CSV cells with commas, quotes, newlines and a BOM', () => {
+    const rows = parseCsv('\uFEFFTitle,Steps\r\n"Login, basic","1. Open ""login""\n2. Submit"\r\nLogout,Click logout');
+
+    expect(rows).toEqual([
+      ['Title', 'Steps'],
+      ['Login, basic', '1. Open "login"\n2. Submit'],
+      ['Logout', 'Click logout'],
+    ]);
+  });
+
+  it('round-trips a TestRail step-per-row export', () => {
+    const csv = getTestCaseExporter('testrail-csv')!.export([detailedCase], { mode: 'detailed', rootFolder: 'Release 1' }).content;
+    const [imported] = rowsToTestCases(parseCsv(csv)) as DetailedTestCase[];
+
+    expect(imported).toMatchObject({
+      id: 'TC-001',
+      title: 'Login with valid credentials',
+      area: 'Authentication',
+      preconditions: ['User account exists'],
+      testData: ['email: qa@example.com', 'password: "Secret1"'],
+      expectedResult: 'Dashboard is shown',
+      requirementIds: ['REQ-1'],
+    });
+    expect(imported.steps.map((step) => step.description)).toEqual(['Enter email and password', 'Submit the form']);
+  });
+
+  it('imports Xray exports and numbers cases without ids', () => {
+    const csv = getTestCaseExporter('xray-csv')!.export([detailedCase], { mode: 'detailed' }).content;
+    expect(rowsToTestCases(parseCsv(csv))).toHaveLength(1);
+
+    const [scenario] = rowsToTestCases([['Summary', 'Module'], ['Reset password', 'Accounts / Recovery']]) as HighLevelTestCase[];
+    expect(scenario).toMatchObject({ id: 'EX-001', area: 'Recovery', scenario: 'Reset password' });
+  });
+
+  it('rejects sheets without recognizable columns', () => {
+    expect(() => rowsToTestCases([['Foo', 'Bar'], ['1', '2']])).toThrow('No recognizable columns');
+  });
+
+  it('imports JSON arrays and wrapped responses', () => {
+    const cases = parseJsonTestCases(JSON.stringify({ testCases: [detailedCase, { title: 'Reset', area: 'Recovery', scenario: 'Reset password' }] }));
+
+    expect(cases.map((testCase) => testCase.id)).toEqual(['TC-001', 'EX-002']);
+    expect((cases[1] as HighLevelTestCase).scenario).toBe('Reset password');
+    expect(() => parseJsonTestCases('{"foo": 1}')).toThrow('testCases');
+  });
+
+  it('detects supported file types', () => {
+    expect(detectImportFormat('suite.XLSX')).toBe('xlsx');
+    expect(detectImportFormat('suite.csv')).toBe('csv');
+    expect(detectImportFormat('suite.txt')).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+import type { TestCase, TestCaseMode } from '@/lib/types';
+import { mapModelResponseToTestCases } from '@/lib/services/ai/utils';
+import { rowsToTestCases } from './rows';
+
+export { mapHeaders, rowsToTestCases } from './rows';
+
+export type TestCaseImportFormat = 'json' | 'csv' | 'xlsx';
+
+export interface TestCaseImportResult {
+  format: TestCaseImportFormat;
+  testCases: TestCase[];
+}
+
+/** RFC 4180 CSV: quoted cells may contain commas, doubled quotes, and newlines. */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const inferMode = (item: Record<string, unknown>): TestCaseMode => {
+  if (typeof item.feature === 'string' && Array.isArray(item.steps)) return 'gherkin';
+  if (typeof item.scenario === 'string' && !Array.isArray(item.steps)) return 'high-level';
+  return 'detailed';
+};
+
+/** Accepts a `TestCase[]` (e.g. a saved session response) or an object wrapping one under `testCases`. */
+export function parseJsonTestCases(content: string): TestCase[] {
+  const parsed = JSON.parse(content);
+  const items = Array.isArray(parsed) ? parsed : parsed?.testCases;
+  if (!Array.isArray(items)) {
+    throw new Error('Expected a JSON array of test cases or an object with a "testCases" array.');
+  }
+  return items
+    .filter((item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object')
+    .map((item, index) => {
+      const [testCase] = mapModelResponseToTestCases([item], inferMode(item));
+      return { ...testCase, id: typeof item.id === 'string' && item.id ? item.id : `EX-${String(index + 1).padStart(3, '0')}` };
+    });
+}
+
+async function readXlsxRows(data: ArrayBuffer): Promise<string[][]> {
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  await workbook.xlsx.load(data);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) {
+    return [];
+  }
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const values: string[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      values[column - 1] = cell.text ?? '';
+    });
+    rows.push(Array.from(values, (value) => value ?? ''));
+  });
+  return rows;
+}
+
+export function detectImportFormat(fileName: string): TestCaseImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'json') return 'json';
+  if (extension === 'csv') return 'csv';
+  if (extension === 'xlsx') return 'xlsx';
+  return null;
+}
+
+/** Normalizes an uploaded suite (JSON, CSV including TestRail/Xray/qTest exports, or XLSX) into test cases. */
+export async function importTestCases(file: File): Promise<TestCaseImportResult> {
+  const format = detectImportFormat(file.name);
+  if (!format) {
+    throw new Error(`Unsupported file type for ${file.name}. Use JSON, CSV, or XLSX.`);
+  }
+
+  const testCases = format === 'xlsx'
+    ? rowsToTestCases(await readXlsxRows(await file.arrayBuffer()))
+    : format === 'csv'
+      ? rowsToTestCases(parseCsv(await file.text()))
+      : parseJsonTestCases(await file.text());
+
+  return { format, testCases };
+}
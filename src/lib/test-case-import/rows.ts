@@ -0,0 +1,147 @@
+import type { DetailedTestCase, HighLevelTestCase, TestCase } from '@/lib/types';
+
+type Field =
+  | 'id'
+  | 'title'
+  | 'area'
+  | 'description'
+  | 'scenario'
+  | 'preconditions'
+  | 'testData'
+  | 'steps'
+  | 'expectedResult'
+  | 'requirementIds';
+
+// Header aliases cover this app's own exports plus TestRail, Xray, Zephyr and qTest CSV columns.
+const HEADER_ALIASES: Record<Field, string[]> = {
+  id: ['id', 'testid', 'caseid', 'testcaseid', 'key', 'issuekey'],
+  title: ['title', 'summary', 'name', 'testcase', 'testname', 'testcasename'],
+  area: ['area', 'section', 'sectionhierarchy', 'module', 'folder', 'component', 'testrepositorypath', 'suite'],
+  description: ['description', 'objective'],
+  scenario: ['scenario'],
+  preconditions: ['preconditions', 'precondition', 'prerequisites'],
+  testData: ['testdata', 'data', 'stepsadditionalinfo'],
+  steps: ['steps', 'step', 'stepsstep', 'action', 'teststeps', 'stepdescription', 'teststepdescription', 'testscriptstepbystepstep'],
+  expectedResult: ['expectedresult', 'expectedresults', 'expected', 'stepsexpectedresult', 'teststepexpectedresult', 'testscriptstepbystepexpectedresult'],
+  requirementIds: ['requirements', 'requirementids', 'references', 'refs'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export function mapHeaders(headers: string[]): Partial<Record<Field, number>> {
+  const mapping: Partial<Record<Field, number>> = {};
+  headers.map(normalizeHeader).forEach((header, index) => {
+    (Object.keys(HEADER_ALIASES) as Field[]).forEach((field) => {
+      if (mapping[field] === undefined && HEADER_ALIASES[field].includes(header)) {
+        mapping[field] = index;
+      }
+    });
+  });
+  return mapping;
+}
+
+const splitLines = (value: string) =>
+  value
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').trim())
+    .filter(Boolean);
+
+interface DraftCase {
+  id: string;
+  title: string;
+  area: string;
+  description: string;
+  scenario: string;
+  preconditions: string[];
+  testData: string[];
+  steps: string[];
+  expected: string[];
+  requirementIds: string[];
+}
+
+function toTestCase(draft: DraftCase): TestCase {
+  const base = {
+    id: draft.id,
+    title: draft.title || draft.id,
+    area: draft.area || 'General',
+    requirementIds: draft.requirementIds.length ? draft.requirementIds : undefined,
+    createdAt: new Date(),
+  };
+
+  if (!draft.steps.length && (draft.scenario || !draft.expected.length)) {
+    const scenario: HighLevelTestCase = {
+      ...base,
+      scenario: draft.scenario || draft.description || draft.title,
+      description: '',
+    };
+    return scenario;
+  }
+
+  const detailed: DetailedTestCase = {
+    ...base,
+    description: draft.description,
+    preconditions: draft.preconditions,
+    testData: draft.testData,
+    steps: draft.steps.map((description, index) => ({ number: index + 1, description })),
+    expectedResult: draft.expected.join('\n'),
+  };
+  return detailed;
+}
+
+/**
+ * Converts a header row plus data rows into test cases. Rows without a title (or repeating the previous
+ * id) are step continuations, as emitted by TestRail and Xray step-per-row exports.
+ */
+export function rowsToTestCases(rows: string[][]): TestCase[] {
+  const [headers, ...dataRows] = rows;
+  if (!headers) {
+    return [];
+  }
+  const mapping = mapHeaders(headers);
+  if (mapping.title === undefined && mapping.steps === undefined && mapping.scenario === undefined) {
+    throw new Error('No recognizable columns found. Expected at least a Title, Steps, or Scenario column.');
+  }
+
+  const cell = (row: string[], field: Field) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+
+  const drafts: DraftCase[] = [];
+  dataRows.forEach((row) => {
+    if (row.every((value) => !value?.trim())) {
+      return;
+    }
+    const id = cell(row, 'id');
+    const title = cell(row, 'title');
+    const previous = drafts[drafts.length - 1];
+    const isContinuation = previous && (!title || (id && id === previous.id));
+
+    const draft: DraftCase = isContinuation
+      ? previous
+      : {
+          id: id || `EX-${String(drafts.length + 1).padStart(3, '0')}`,
+          title,
+          area: cell(row, 'area').split(/[>/]/).pop()?.trim() ?? '',
+          description: cell(row, 'description'),
+          scenario: cell(row, 'scenario'),
+          preconditions: splitLines(cell(row, 'preconditions')),
+          testData: [],
+          steps: [],
+          expected: [],
+          requirementIds: cell(row, 'requirementIds').split(/[,;\s]+/).filter(Boolean),
+        };
+
+    draft.steps.push(...splitLines(cell(row, 'steps')));
+    draft.testData.push(...splitLines(cell(row, 'testData')));
+    const expected = cell(row, 'expectedResult');
+    if (expected) {
+      draft.expected.push(expected);
+    }
+    if (!isContinuation) {
+      drafts.push(draft);
+    }
+  });
+
+  return drafts.map(toTestCase);
+}
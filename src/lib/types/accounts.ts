@@ -0,0 +1,26 @@
+export type UserRole = 'admin' | 'member' | 'viewer';
+
+export interface Team {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+/** A managed access token as listed in the admin UI; the token itself is only returned once, on creation. */
+export interface AccessTokenSummary {
+  id: string;
+  label: string;
+  userIdentifier: string;
+  teamId: string | null;
+  role: UserRole;
+  tokenPrefix: string;
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+}
+
+export interface AccessTokenIdentity {
+  userIdentifier: string;
+  role: UserRole;
+  teamId: string | null;
+}
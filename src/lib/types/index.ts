@@ -1,8 +1,13 @@
 // Export SQL types
 export * from './sql';
 export * from './providers';
+export * from './accounts';
+export * from './prompts';
+export * from './styleGuides';
 
 import { LLMProvider } from './providers';
+import { PromptTemplateSet } from './prompts';
+import { QAStyleGuide } from './styleGuides';
 
 export type AIModel = 'VercelAI';
 
@@ -16,6 +21,21 @@ export interface BaseTestCase {
   markdownContent?: string;
   area?: string;
   originalScenarioId?: string;  // Reference to the original scenario this was converted from
+  requirementIds?: string[];     // Requirement identifiers this case verifies (see TraceabilityMatrix)
+  overlap?: TestCaseOverlap;     // Set when generation ran against an imported regression suite
+}
+
+export type TestCaseOverlapStatus = 'new' | 'overlap' | 'duplicate';
+
+export interface TestCaseOverlap {
+  status: TestCaseOverlapStatus;
+  existingCaseIds: string[];
+  similarity: number; // 0-1 similarity to the closest existing case
+}
+
+export interface DuplicateCluster {
+  caseIds: string[];   // Ordered as in the generated list; the first id survives a merge
+  similarity: number;  // 0-1 highest pairwise similarity within the cluster
 }
 
 export interface DetailedTestCase extends BaseTestCase {
@@ -30,7 +50,29 @@ export interface HighLevelTestCase extends BaseTestCase {
   area: string;      // The functional area or module being tested
 }
 
-export type TestCase = DetailedTestCase | HighLevelTestCase;
+export type GherkinKeyword = 'Given' | 'When' | 'Then' | 'And' | 'But';
+
+export interface GherkinStep {
+  keyword: GherkinKeyword;
+  text: string;
+}
+
+export interface GherkinExamples {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface GherkinTestCase extends BaseTestCase {
+  area: string;
+  feature: string;                                  // Feature the scenario belongs to
+  scenarioType: 'scenario' | 'scenario-outline';
+  tags: string[];                                   // Without the leading "@"
+  background: GherkinStep[];
+  steps: GherkinStep[];
+  examples?: GherkinExamples;                       // Required for scenario outlines
+}
+
+export type TestCase = DetailedTestCase | HighLevelTestCase | GherkinTestCase;
 
 export interface TestData {
   field: string;
@@ -43,7 +85,7 @@ export interface TestStep {
   description: string;
 }
 
-export type TestCaseMode = 'high-level' | 'detailed';
+export type TestCaseMode = 'high-level' | 'detailed' | 'gherkin';
 export type TestPriorityMode = 'comprehensive' | 'core-functionality';
 export type ReviewSeverity = 'info' | 'minor' | 'major' | 'critical';
 
@@ -57,12 +99,30 @@ export interface GenerationPlanItem {
   notes?: string;
 }
 
+export interface RequirementReference {
+  id: string;
+  text: string;
+  source?: string;
+}
+
+export interface TraceabilityEntry extends RequirementReference {
+  caseIds: string[];
+}
+
+export interface TraceabilityMatrix {
+  requirements: TraceabilityEntry[];
+  uncoveredRequirementIds: string[];
+  untracedCaseIds: string[];
+  coverage: number; // 0-1 share of requirements with at least one linked case
+}
+
 export interface ReviewFeedbackItem {
   caseId: string;
   issueType?: string;
   severity: ReviewSeverity;
   summary: string;
   suggestion?: string;
+  ruleId?: string;  // Style guide rule violated, for issueType "guideline"
 }
 
 export interface AgenticGenerationOptions {
@@ -75,15 +135,41 @@ export interface AgenticGenerationOptions {
   reviewerModel?: string;
   maxReviewPasses?: number;
   chunkStrategy?: 'auto' | 'fixed' | 'none';
+  chunkTokenLimit?: number;
   streamProgress?: boolean;
   writerConcurrency?: number;
+  reviewPlanFirst?: boolean;  // Stop after the planner so the plan can be edited before writing
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd?: number;  // Omitted when no model in the call has a price table entry
 }
 
 export interface WriterSliceTelemetry {
   planId: string;
   durationMs: number;
   caseCount: number;
+  chunkRefs?: string[];
   warnings?: string[];
+  restored?: boolean;  // Reused from a checkpoint instead of being rewritten
+  usage?: TokenUsage;
+}
+
+export interface GenerationCheckpoint {
+  runId: string;
+  plan: GenerationPlanItem[];
+  completedSlices: Record<string, any[]>;  // Raw writer output keyed by plan item id
+  updatedAt: string;
+}
+
+export interface GenerationRunOptions {
+  signal?: AbortSignal;
+  checkpoint?: GenerationCheckpoint | null;  // Completed slices to reuse when resuming
+  onCheckpoint?: (checkpoint: GenerationCheckpoint) => void | Promise<void>;
+  onUsage?: (usage: TokenUsage) => void;  // Called after each model call, so cancelled or failed runs can still be charged
 }
 
 export interface ReviewPassTelemetry {
@@ -91,6 +177,8 @@ export interface ReviewPassTelemetry {
   durationMs: number;
   feedbackCount: number;
   blockingCount: number;
+  usage?: TokenUsage;
+  revisionUsage?: TokenUsage;  // Summed across the revision chunks triggered by this pass
 }
 
 export interface AgenticTelemetry {
@@ -101,6 +189,7 @@ export interface AgenticTelemetry {
   reviewerDurationMs?: number;
   planItemCount?: number;
   testCaseCount?: number;
+  requirementChunks?: number;
   writerSlices?: WriterSliceTelemetry[];
   reviewPasses?: ReviewPassTelemetry[];
   provider?: LLMProvider;
@@ -109,6 +198,8 @@ export interface AgenticTelemetry {
     writer?: string;
     reviewer?: string;
   };
+  plannerUsage?: TokenUsage;
+  usage?: TokenUsage;  // Total across every model call in the run
   warnings?: string[];
 }
 
@@ -165,14 +256,26 @@ export interface TestCaseGenerationRequest {
   provider?: LLMProvider;
   model?: string;
   agenticOptions?: AgenticGenerationOptions;
+  existingTestCases?: TestCase[];
+  runId?: string;    // Client-generated id used to checkpoint agentic runs
+  resume?: boolean;  // Reuse the plan and completed slices checkpointed under runId
+  approvedPlan?: GenerationPlanItem[];  // User-approved plan; the planner is skipped and writing starts immediately
   userIdentifier?: string;
+  promptTemplates?: PromptTemplateSet;  // Team overrides resolved by the route; missing ids use the shipped defaults
+  styleGuide?: QAStyleGuide | null;      // The requesting team's QA style guide, loaded by the route
 }
 
 export interface TestCaseGenerationResponse {
   testCases: TestCase[];
   error?: string;
+  sessionId?: string;
   plan?: GenerationPlanItem[];
   reviewFeedback?: ReviewFeedbackItem[];
+  traceability?: TraceabilityMatrix;
+  duplicateClusters?: DuplicateCluster[];
+  runId?: string;
+  awaitingPlanApproval?: boolean;  // Planner output only; resend with approvedPlan to write the cases
+  incompleteSliceIds?: string[];  // Plan items whose writer slice failed; resume the run to retry them
   passesExecuted?: number;
   warnings?: string[];
   telemetry?: AgenticTelemetry;
@@ -189,12 +292,104 @@ export interface TestCaseGenerationResponse {
   };
 }
 
+export interface TestCaseRefinementRequest {
+  testCases: TestCase[];      // The case or area being refined
+  instruction: string;
+  mode: TestCaseMode;
+  contextCases?: TestCase[];  // The rest of the suite, so new ids stay unique and coverage is not repeated
+  requirements?: string;
+  provider?: LLMProvider;
+  model?: string;
+  userIdentifier?: string;
+  promptTemplates?: PromptTemplateSet;  // Team overrides for the revision prompt
+}
+
+export interface TestCaseRefinementResponse {
+  testCases: TestCase[];      // Only cases that changed or were added
+  warnings?: string[];
+  usage?: TokenUsage;
+  error?: string;
+}
+
+export type TestCaseRefinementEvent =
+  | { type: 'refine:chunk-complete'; chunkIndex: number; totalChunks: number; testCases: TestCase[] }
+  | { type: 'final'; result: TestCaseRefinementResponse }
+  | { type: 'error'; message: string };
+
+export type AutomationFramework = 'playwright' | 'cypress' | 'jest-supertest';
+
+export interface AutomationFile {
+  path: string;
+  content: string;
+}
+
+export interface AutomationGenerationRequest {
+  testCases: DetailedTestCase[];
+  framework: AutomationFramework;
+  baseUrl?: string;
+  provider?: LLMProvider;
+  model?: string;
+  userIdentifier?: string;
+}
+
+export interface AutomationGenerationResponse {
+  framework: AutomationFramework;
+  files: AutomationFile[];
+  warnings?: string[];
+  usage?: TokenUsage;
+  error?: string;
+}
+
+export interface GenerationSessionFile {
+  name: string;
+  type: string;
+  size?: number;
+}
+
+export type GenerationSessionOptions = Pick<
+  TestCaseGenerationRequest,
+  'mode' | 'priorityMode' | 'provider' | 'model' | 'agenticOptions'
+>;
+
+export interface GenerationSession {
+  id: string;
+  userIdentifier: string;
+  title: string;
+  requirements: string;
+  files: GenerationSessionFile[];
+  options: GenerationSessionOptions;
+  response: TestCaseGenerationResponse;
+  convertedTestCases?: TestCase[];
+  convertedScenarioIds?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GenerationSessionSummary {
+  id: string;
+  title: string;
+  mode: TestCaseMode;
+  testCaseCount: number;
+  provider?: LLMProvider;
+  model?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GenerationSessionUpdate {
+  title?: string;
+  testCases?: TestCase[];
+  convertedTestCases?: TestCase[];
+  convertedScenarioIds?: string[];
+}
+
 export interface AIService {
   generateTestCases(
     request: TestCaseGenerationRequest,
-    progressCallback?: (event: AgenticProgressEvent) => void
+    progressCallback?: (event: AgenticProgressEvent) => void,
+    runOptions?: GenerationRunOptions
   ): Promise<TestCaseGenerationResponse>;
-  generateContent(prompt: string, model?: ModelType): Promise<string>;
+  generateContent(prompt: string, model?: ModelType, onUsage?: (usage: TokenUsage) => void): Promise<string>;
 }
 
 export interface TestCaseResponse {
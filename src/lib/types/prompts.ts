@@ -0,0 +1,43 @@
+export type PromptTemplateId =
+  | 'planner'
+  | 'writer'
+  | 'reviewer'
+  | 'revision'
+  | 'single-shot'
+  | 'sql-generate'
+  | 'sql-validate'
+  | 'sql-convert';
+
+export interface PromptTemplateVariable {
+  name: string;
+  description: string;
+  /** Templates that drop a required variable are rejected on save. */
+  required?: boolean;
+}
+
+/** A prompt shipped from code. Bump `version` whenever the default text changes. */
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  version: number;
+  variables: PromptTemplateVariable[];
+  template: string;
+}
+
+export interface PromptTemplateOverride {
+  teamId: string;
+  templateId: PromptTemplateId;
+  version: number;
+  template: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface ResolvedPromptTemplate {
+  id: PromptTemplateId;
+  template: string;
+  /** "default@2" for shipped templates, "team:<teamId>@3" for a team's third override. */
+  version: string;
+}
+
+export type PromptTemplateSet = Partial<Record<PromptTemplateId, ResolvedPromptTemplate>>;
@@ -1,4 +1,5 @@
-export type LLMProvider = 'openai' | 'gemini' | 'openrouter';
+// local: self-hosted OpenAI-compatible endpoint. azure: models are the resource's deployment names.
+export type LLMProvider = 'openai' | 'gemini' | 'openrouter' | 'local' | 'anthropic' | 'azure';
 
 export interface ProviderSelection {
   provider: LLMProvider;
@@ -20,7 +21,7 @@ export type ProviderSettings = {
   agenticDefaults?: AgenticDefaults;
 };
 
-export type StoredTestCaseMode = 'high-level' | 'detailed';
+export type StoredTestCaseMode = 'high-level' | 'detailed' | 'gherkin';
 export type StoredPriorityMode = 'comprehensive' | 'core-functionality';
 
 export interface AgenticModelOverrides {
@@ -34,6 +35,7 @@ export interface AgenticDefaults {
   priorityMode?: StoredPriorityMode;
   reviewPasses?: number;
   writerConcurrency?: number;
+  reviewPlanFirst?: boolean;
   overrides?: AgenticModelOverrides;
 }
 
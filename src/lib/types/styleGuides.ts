@@ -0,0 +1,18 @@
+export interface StyleGuideRule {
+  id: string;  // Stable id such as "G-3"; reviewer findings reference it
+  text: string;
+}
+
+export interface GlossaryTerm {
+  term: string;
+  definition: string;
+}
+
+/** A team's QA conventions, included in every generation prompt for members of the team. */
+export interface QAStyleGuide {
+  teamId: string;
+  rules: StyleGuideRule[];
+  glossary: GlossaryTerm[];
+  updatedBy: string;
+  updatedAt: string;
+}
@@ -38,6 +38,18 @@ export interface TestDataGenerationResponse {
   };
 }
 
+export interface RelationalTableResult {
+  name: string;
+  data: GeneratedTestData[];
+  count: number;
+}
+
+export interface RelationalGenerationResponse {
+  tables: RelationalTableResult[];  // Parents before children
+  error?: string;
+  metadata?: TestDataGenerationMetadata;
+}
+
 export interface FakerCategory {
   name: string;
   types: {
@@ -0,0 +1,85 @@
+import { DetailedTestCase, GherkinTestCase } from '@/lib/types';
+import {
+  activeDuplicateClusters,
+  findDuplicateClusters,
+  mergeDuplicateCluster,
+  mergeTestCases,
+} from '@/lib/utils/duplicateClusters';
+
+const detailed = (id: string, title: string, steps: string[], overrides: Partial<DetailedTestCase> = {}): DetailedTestCase => ({
+  id,
+  title,
+  area: 'Authentication',
+  description: '',
+  preconditions: [],
+  testData: [],
+  steps: steps.map((description, index) => ({ number: index + 1, description })),
+  expectedResult: 'The dashboard is displayed',
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const login = detailed('TC-001', 'Login with valid credentials', ['Open the login page', 'Enter a registered email and password', 'Click sign in'], {
+  preconditions: ['Account exists'],
+  requirementIds: ['REQ-1'],
+});
+const loginCopy = detailed('TC-007', 'Sign in with valid credentials', ['Open the login page', 'Enter a registered email and password', 'Click sign in', 'Wait for redirect'], {
+  preconditions: ['account exists', 'Browser cache cleared'],
+  testData: ['email: qa@example.com'],
+  requirementIds: ['REQ-1', 'REQ-2'],
+});
+const invoices = detailed('TC-003', 'Export invoices to PDF', ['Open billing', 'Choose last month', 'Click export'], {
+  expectedResult: 'A PDF with all invoices downloads',
+});
+
+describe('duplicate clusters', () => {
+  it('clusters near-identical cases from different writer slices', () => {
+    const clusters = findDuplicateClusters([login, invoices, loginCopy]);
+
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].caseIds).toEqual(['TC-001', 'TC-007']);
+    expect(clusters[0].similarity).toBeGreaterThanOrEqual(0.8);
+  });
+
+  it('joins clusters transitively', () => {
+    const third = detailed('TC-009', 'Login with valid credentials again', login.steps.map((step) => step.description));
+    expect(findDuplicateClusters([login, invoices, loginCopy, third])[0].caseIds).toEqual(['TC-001', 'TC-007', 'TC-009']);
+  });
+
+  it('merges into the most detailed case under the first id without losing coverage', () => {
+    const merged = mergeTestCases([login, loginCopy]) as DetailedTestCase;
+
+    expect(merged.id).toBe('TC-001');
+    expect(merged.title).toBe('Sign in with valid credentials');
+    expect(merged.steps).toHaveLength(4);
+    expect(merged.preconditions).toEqual(['Account exists', 'Browser cache cleared']);
+    expect(merged.testData).toEqual(['email: qa@example.com']);
+    expect(merged.requirementIds).toEqual(['REQ-1', 'REQ-2']);
+  });
+
+  it('unions Gherkin tags', () => {
+    const scenario = (id: string, tags: string[]): GherkinTestCase => ({
+      id,
+      title: 'Sign in',
+      description: '',
+      area: 'Authentication',
+      feature: 'Sign in',
+      scenarioType: 'scenario',
+      tags,
+      background: [],
+      steps: [{ keyword: 'When', text: 'valid credentials are submitted' }],
+      createdAt: new Date(),
+    });
+
+    expect((mergeTestCases([scenario('GH-001', ['smoke']), scenario('GH-002', ['smoke', 'auth'])]) as GherkinTestCase).tags).toEqual(['smoke', 'auth']);
+  });
+
+  it('replaces cluster members in place and retires merged clusters', () => {
+    const cluster = { caseIds: ['TC-001', 'TC-007'], similarity: 0.9 };
+    const merged = mergeDuplicateCluster([login, invoices, loginCopy], cluster);
+
+    expect(merged.map((testCase) => testCase.id)).toEqual(['TC-001', 'TC-003']);
+    expect(activeDuplicateClusters([cluster], merged)).toEqual([]);
+    expect(activeDuplicateClusters([cluster], [login, loginCopy])).toEqual([cluster]);
+  });
+});
@@ -0,0 +1,137 @@
+import { DetailedTestCase, GherkinTestCase } from '@/lib/types';
+import {
+  buildFeatureFiles,
+  convertDetailedToGherkin,
+  formatFeatureFile,
+  formatGherkinScenario,
+  normalizeGherkinStep,
+} from '../gherkin';
+
+const makeScenario = (overrides: Partial<GherkinTestCase> = {}): GherkinTestCase => ({
+  id: 'GH-001',
+  title: 'Sign in with valid credentials',
+  description: '',
+  area: 'Authentication',
+  feature: 'Sign in',
+  scenarioType: 'scenario',
+  tags: ['smoke'],
+  background: [],
+  steps: [
+    { keyword: 'Given', text: 'a registered user' },
+    { keyword: 'When', text: 'they submit valid credentials' },
+    { keyword: 'Then', text: 'the dashboard is shown' },
+  ],
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('normalizeGherkinStep', () => {
+  it('splits a keyword written into the step text', () => {
+    expect(normalizeGherkinStep({ keyword: '', text: 'when the user logs out' }, 'Given')).toEqual({
+      keyword: 'When',
+      text: 'the user logs out',
+    });
+    expect(normalizeGherkinStep('the cart is empty', 'Then')).toEqual({ keyword: 'Then', text: 'the cart is empty' });
+  });
+});
+
+describe('formatGherkinScenario', () => {
+  it('renders tags from the case and its requirement IDs', () => {
+    expect(formatGherkinScenario(makeScenario({ requirementIds: ['REQ-1'] }))).toBe([
+      '  @smoke @REQ-1',
+      '  Scenario: Sign in with valid credentials',
+      '    Given a registered user',
+      '    When they submit valid credentials',
+      '    Then the dashboard is shown',
+    ].join('\n'));
+  });
+
+  it('renders outlines with an aligned Examples table', () => {
+    const outline = makeScenario({
+      tags: [],
+      scenarioType: 'scenario-outline',
+      steps: [
+        { keyword: 'Given', text: 'a user with role <role>' },
+        { keyword: 'Then', text: 'access is <result>' },
+      ],
+      examples: { headers: ['role', 'result'], rows: [['admin', 'granted'], ['guest', 'denied']] },
+    });
+
+    expect(formatGherkinScenario(outline).split('\n').slice(0, 2)).toEqual([
+      '  Scenario Outline: Sign in with valid credentials',
+      '    Given a user with role <role>',
+    ]);
+    expect(formatGherkinScenario(outline)).toContain([
+      '    Examples:',
+      '      | role  | result  |',
+      '      | admin | granted |',
+      '      | guest | denied  |',
+    ].join('\n'));
+  });
+});
+
+describe('feature files', () => {
+  it('lifts a background shared by every scenario', () => {
+    const background = [{ keyword: 'Given' as const, text: 'the login page is open' }];
+    const content = formatFeatureFile('Sign in', [
+      makeScenario({ background }),
+      makeScenario({ id: 'GH-002', title: 'Sign in with a locked account', background }),
+    ]);
+
+    expect(content.startsWith('Feature: Sign in\n\n  Background:\n    Given the login page is open\n')).toBe(true);
+    expect(content.match(/the login page is open/g)).toHaveLength(1);
+  });
+
+  it('keeps differing backgrounds inline', () => {
+    const content = formatFeatureFile('Sign in', [
+      makeScenario({ background: [{ keyword: 'Given', text: 'the login page is open' }] }),
+      makeScenario({ id: 'GH-002' }),
+    ]);
+
+    expect(content).not.toContain('Background:');
+    expect(content).toContain('    Given the login page is open\n    And a registered user');
+  });
+
+  it('writes one file per area', () => {
+    const files = buildFeatureFiles([
+      makeScenario(),
+      makeScenario({ id: 'GH-002', feature: 'Sign out' }),
+      makeScenario({ id: 'GH-003', area: 'Checkout & Payment', feature: 'Checkout' }),
+    ]);
+
+    expect(files.map((file) => file.filename)).toEqual(['authentication.feature', 'checkout_payment.feature']);
+    expect(files[0].content).toContain('Feature: Authentication\n  Covers: Sign in; Sign out');
+    expect(files[1].content.startsWith('Feature: Checkout\n')).toBe(true);
+  });
+});
+
+describe('convertDetailedToGherkin', () => {
+  it('maps preconditions, steps and the expected result to Given/When/Then', () => {
+    const detailed: DetailedTestCase = {
+      id: 'TC-001',
+      title: 'Sign in',
+      area: 'Authentication',
+      description: 'Valid users can sign in',
+      preconditions: ['User account exists.'],
+      testData: ['email: qa@example.com'],
+      steps: [
+        { number: 2, description: 'Submit the form' },
+        { number: 1, description: 'Enter email and password' },
+      ],
+      expectedResult: 'Dashboard is shown.',
+      requirementIds: ['REQ-1'],
+      createdAt: new Date(),
+    };
+
+    const converted = convertDetailedToGherkin(detailed, 'GH-001');
+
+    expect(converted).toMatchObject({ id: 'GH-001', feature: 'Authentication', originalScenarioId: 'TC-001', requirementIds: ['REQ-1'] });
+    expect(converted.steps).toEqual([
+      { keyword: 'Given', text: 'User account exists' },
+      { keyword: 'And', text: 'test data: email: qa@example.com' },
+      { keyword: 'When', text: 'Enter email and password' },
+      { keyword: 'And', text: 'Submit the form' },
+      { keyword: 'Then', text: 'Dashboard is shown' },
+    ]);
+  });
+});
@@ -0,0 +1,19 @@
+import { isRoleAllowed } from '../rolePermissions';
+
+describe('isRoleAllowed', () => {
+  it('restricts admin routes to admins', () => {
+    expect(isRoleAllowed('admin', 'GET', '/api/admin/tokens')).toBe(true);
+    expect(isRoleAllowed('member', 'GET', '/api/admin/tokens')).toBe(false);
+    expect(isRoleAllowed('member', 'GET', '/api/logs/usage')).toBe(false);
+  });
+
+  it('lets members use the tools and keeps viewers read-only', () => {
+    expect(isRoleAllowed('member', 'POST', '/api/generate')).toBe(true);
+    expect(isRoleAllowed('viewer', 'POST', '/api/generate')).toBe(false);
+    expect(isRoleAllowed('viewer', 'GET', '/api/generation-sessions')).toBe(true);
+  });
+
+  it('allows every role to save its own provider settings', () => {
+    expect(isRoleAllowed('viewer', 'POST', '/api/provider-settings')).toBe(true);
+  });
+});
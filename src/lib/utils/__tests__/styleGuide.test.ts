@@ -0,0 +1,60 @@
+import { QAStyleGuide, ReviewFeedbackItem } from '@/lib/types';
+import { assignRuleIds, attachGuidelineRuleIds, formatStyleGuide } from '../styleGuide';
+
+const guide: QAStyleGuide = {
+  teamId: 'team-a',
+  rules: [
+    { id: 'G-1', text: 'Write steps in the imperative mood' },
+    { id: 'G-12', text: 'Every case names the user persona' },
+  ],
+  glossary: [{ term: 'Workspace', definition: 'Use instead of "project"' }],
+  updatedBy: 'sam',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('formatStyleGuide', () => {
+  it('lists rules with their ids and the glossary', () => {
+    const text = formatStyleGuide(guide);
+    expect(text).toContain('- G-1: Write steps in the imperative mood');
+    expect(text).toContain('- Workspace: Use instead of "project"');
+  });
+
+  it('renders nothing for a missing or empty guide', () => {
+    expect(formatStyleGuide(null)).toBe('');
+    expect(formatStyleGuide({ ...guide, rules: [], glossary: [] })).toBe('');
+  });
+});
+
+describe('attachGuidelineRuleIds', () => {
+  const finding = (summary: string, issueType = 'guideline'): ReviewFeedbackItem => ({
+    caseId: 'TC-1',
+    issueType,
+    severity: 'minor',
+    summary,
+  });
+
+  it('maps the cited rule onto guideline findings only', () => {
+    const [first, second, third] = attachGuidelineRuleIds(
+      [finding('[G-12] Persona missing'), finding('Steps are passive (G-1)'), finding('[G-1] Unrelated', 'coverage-gap')],
+      guide.rules
+    );
+    expect(first.ruleId).toBe('G-12');
+    expect(second.ruleId).toBe('G-1');
+    expect(third.ruleId).toBeUndefined();
+  });
+
+  it('leaves findings without a known rule id untouched', () => {
+    expect(attachGuidelineRuleIds([finding('[G-9] Unknown rule')], guide.rules)[0].ruleId).toBeUndefined();
+  });
+});
+
+describe('assignRuleIds', () => {
+  it('keeps existing ids and numbers new rules after the highest one', () => {
+    expect(
+      assignRuleIds([{ id: 'G-4', text: 'Existing' }, { text: ' New rule ' }, { text: '   ' }])
+    ).toEqual([
+      { id: 'G-4', text: 'Existing' },
+      { id: 'G-5', text: 'New rule' },
+    ]);
+  });
+});
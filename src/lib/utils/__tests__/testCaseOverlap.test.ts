@@ -0,0 +1,70 @@
+import { DetailedTestCase, HighLevelTestCase } from '@/lib/types';
+import { classifyAgainstExisting, describeOverlap, formatExistingSuite } from '@/lib/utils/testCaseOverlap';
+
+const scenario = (id: string, title: string, text: string): HighLevelTestCase => ({
+  id,
+  title,
+  area: 'Accounts',
+  scenario: text,
+  description: '',
+  createdAt: new Date(),
+});
+
+const existing = [
+  scenario('REG-1', 'Login with valid credentials', 'Sign in with a registered email and password and land on the dashboard'),
+  scenario('REG-2', 'Password reset email', 'Request a password reset link and receive the reset email'),
+  scenario('REG-3', 'Profile avatar upload', 'Upload a PNG avatar on the profile page'),
+];
+
+describe('existing suite overlap', () => {
+  it('classifies generated cases as new, overlapping or duplicate', () => {
+    const [duplicate, overlap, fresh] = classifyAgainstExisting(
+      [
+        scenario('TS-001', 'Login with valid credentials', 'Sign in with a registered email and password and land on the dashboard'),
+        scenario('TS-002', 'Password reset link expiry', 'Request a password reset link and open it after expiry'),
+        scenario('TS-003', 'Export invoices to PDF', 'Download monthly invoices as a PDF document'),
+      ],
+      existing
+    );
+
+    expect(duplicate.overlap).toMatchObject({ status: 'duplicate', existingCaseIds: ['REG-1'], similarity: 1 });
+    expect(overlap.overlap?.status).toBe('overlap');
+    expect(overlap.overlap?.existingCaseIds[0]).toBe('REG-2');
+    expect(fresh.overlap).toMatchObject({ status: 'new', existingCaseIds: [] });
+  });
+
+  it('treats reviewer duplicate-existing flags as duplicates', () => {
+    const generated: DetailedTestCase = {
+      id: 'TC-004',
+      title: 'Upload profile image',
+      area: 'Accounts',
+      description: '',
+      preconditions: [],
+      testData: [],
+      steps: [{ number: 1, description: 'Choose an image file' }],
+      expectedResult: 'Image is shown',
+      createdAt: new Date(),
+    };
+    const [classified] = classifyAgainstExisting([generated], existing, [
+      { caseId: 'TC-004', issueType: 'duplicate-existing', severity: 'minor', summary: 'Already covered by REG-3' },
+    ]);
+
+    expect(classified.overlap).toMatchObject({ status: 'duplicate', existingCaseIds: ['REG-3'] });
+    expect(describeOverlap(classified.overlap!)).toBe('Duplicate of REG-3');
+  });
+
+  it('leaves cases untouched without an imported suite', () => {
+    const generated = scenario('TS-001', 'Anything', 'Anything at all');
+    expect(classifyAgainstExisting([generated], [])[0]).toBe(generated);
+  });
+
+  it('summarizes the suite one line per case within the length budget', () => {
+    expect(formatExistingSuite(existing)).toBe(
+      '- REG-1 [Accounts] Login with valid credentials\n- REG-2 [Accounts] Password reset email\n- REG-3 [Accounts] Profile avatar upload'
+    );
+    expect(formatExistingSuite(existing, 60).split('\n')).toEqual([
+      '- REG-1 [Accounts] Login with valid credentials',
+      '- … 2 more cases omitted',
+    ]);
+  });
+});
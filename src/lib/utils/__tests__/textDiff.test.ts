@@ -0,0 +1,20 @@
+import { diffLines } from '@/lib/utils/textDiff';
+
+describe('diffLines', () => {
+  it('marks unchanged, removed and added lines in order', () => {
+    expect(diffLines('# Login\n1. Open page\n2. Submit', '# Login\n1. Open page\n2. Enter an expired token\n3. Submit')).toEqual([
+      { type: 'same', text: '# Login' },
+      { type: 'same', text: '1. Open page' },
+      { type: 'removed', text: '2. Submit' },
+      { type: 'added', text: '2. Enter an expired token' },
+      { type: 'added', text: '3. Submit' },
+    ]);
+  });
+
+  it('treats a missing original as all additions', () => {
+    expect(diffLines('', 'a\nb')).toEqual([
+      { type: 'added', text: 'a' },
+      { type: 'added', text: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { TestCase } from '@/lib/types';
+import { buildTraceabilityMatrix, extractRequirements, normalizeRequirementIds } from '../traceability';
+
+const makeCase = (id: string, requirementIds?: string[]): TestCase => ({
+  id,
+  title: `Case ${id}`,
+  area: 'General',
+  scenario: 'Scenario',
+  description: '',
+  createdAt: new Date(),
+  requirementIds,
+});
+
+describe('extractRequirements', () => {
+  it('extracts explicit identifiers with their statement text', () => {
+    const requirements = extractRequirements([
+      'REQ-1: Users can sign in with email and password.',
+      '- AC_2 Locked accounts show an unlock link',
+      'req12 Passwords expire after 90 days. See REQ-1 for sign in.',
+    ].join('\n'));
+
+    expect(requirements).toEqual([
+      { id: 'REQ-1', text: 'Users can sign in with email and password.', source: 'requirements' },
+      { id: 'AC-2', text: 'Locked accounts show an unlock link', source: 'requirements' },
+      { id: 'REQ-12', text: 'Passwords expire after 90 days. See for sign in.', source: 'requirements' },
+    ]);
+  });
+
+  it('uses the following line when an identifier stands alone and tracks file sources', () => {
+    const requirements = extractRequirements([
+      '=== spec.md (text/markdown / 200 bytes) ===',
+      '## US-7',
+      'Admins can export the audit log as CSV.',
+    ].join('\n'));
+
+    expect(requirements).toEqual([
+      { id: 'US-7', text: 'Admins can export the audit log as CSV.', source: 'spec.md' },
+    ]);
+  });
+
+  it('auto-numbers list items when no identifiers are present', () => {
+    const requirements = extractRequirements([
+      'Checkout',
+      '1. The cart total updates when quantities change',
+      '2. Discount codes are validated before payment',
+      '- ok',
+    ].join('\n'));
+
+    expect(requirements.map((requirement) => requirement.id)).toEqual(['R-1', 'R-2']);
+    expect(requirements[1].text).toBe('Discount codes are validated before payment');
+  });
+
+  it('falls back to modal statements in prose', () => {
+    const requirements = extractRequirements(
+      'The portal serves customers. The system must lock accounts after five failed attempts. Users should receive an email.'
+    );
+
+    expect(requirements.map((requirement) => requirement.text)).toEqual([
+      'The system must lock accounts after five failed attempts.',
+      'Users should receive an email.',
+    ]);
+  });
+});
+
+describe('buildTraceabilityMatrix', () => {
+  const requirements = [
+    { id: 'REQ-1', text: 'Sign in' },
+    { id: 'REQ-2', text: 'Sign out' },
+    { id: 'R-3', text: 'Reset password' },
+  ];
+
+  it('normalizes loosely formatted IDs and drops unknown ones', () => {
+    expect(normalizeRequirementIds(['req1', ' REQ-2 ', 'r3', 'REQ-9', 42], requirements)).toEqual(['REQ-1', 'REQ-2', 'R-3']);
+  });
+
+  it('links cases to requirements and reports gaps', () => {
+    const matrix = buildTraceabilityMatrix(requirements, [
+      makeCase('TS-001', ['REQ-1']),
+      makeCase('TS-002', ['REQ-1', 'REQ-2']),
+      makeCase('TS-003'),
+    ]);
+
+    expect(matrix.requirements.map((entry) => entry.caseIds)).toEqual([['TS-001', 'TS-002'], ['TS-002'], []]);
+    expect(matrix.uncoveredRequirementIds).toEqual(['R-3']);
+    expect(matrix.untracedCaseIds).toEqual(['TS-003']);
+    expect(matrix.coverage).toBeCloseTo(2 / 3);
+  });
+});
@@ -42,7 +42,7 @@ export async function fetchApi<T = any>(
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({ error: `HTTP error! status: ${response.status}` }));
-    throw new Error(errorData.error || `API request failed with status ${response.status}`);
+    throw new Error(errorData.error || errorData.message || `API request failed with status ${response.status}`);
   }
 
   // Return the appropriate response type
@@ -0,0 +1,129 @@
+import { DetailedTestCase, DuplicateCluster, GherkinTestCase, TestCase } from '@/lib/types';
+import { buildTfIdfVectors, cosineSimilarity, jaccardSimilarity, shingles, testCaseText } from './similarity';
+
+export const DUPLICATE_CLUSTER_SIMILARITY = 0.8;
+
+const uniqueValues = (values: string[]) => {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const key = value.trim().toLowerCase();
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+const stepCount = (testCase: TestCase) => ('steps' in testCase ? testCase.steps.length : 0);
+
+/**
+ * Groups near-identical generated cases. Two cases are linked when either their TF-IDF cosine or their
+ * word-shingle Jaccard score reaches the threshold; linked pairs are joined transitively (single linkage).
+ */
+export function findDuplicateClusters(
+  testCases: TestCase[],
+  threshold = DUPLICATE_CLUSTER_SIMILARITY
+): DuplicateCluster[] {
+  if (testCases.length < 2) {
+    return [];
+  }
+
+  const texts = testCases.map(testCaseText);
+  const vectors = buildTfIdfVectors(texts);
+  const shingleSets = texts.map((text) => shingles(text));
+  const parent = testCases.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const bestScore = new Map<number, number>();
+
+  for (let left = 0; left < testCases.length; left += 1) {
+    for (let right = left + 1; right < testCases.length; right += 1) {
+      const score = Math.max(
+        cosineSimilarity(vectors[left], vectors[right]),
+        jaccardSimilarity(shingleSets[left], shingleSets[right])
+      );
+      if (score < threshold) {
+        continue;
+      }
+      const leftRoot = find(left);
+      const rightRoot = find(right);
+      const root = Math.min(leftRoot, rightRoot);
+      parent[Math.max(leftRoot, rightRoot)] = root;
+      bestScore.set(root, Math.max(score, bestScore.get(leftRoot) ?? 0, bestScore.get(rightRoot) ?? 0));
+    }
+  }
+
+  const members = new Map<number, number[]>();
+  testCases.forEach((_, index) => {
+    const root = find(index);
+    members.set(root, [...(members.get(root) ?? []), index]);
+  });
+
+  return Array.from(members.entries())
+    .filter(([, indexes]) => indexes.length > 1)
+    .map(([root, indexes]) => ({
+      caseIds: indexes.map((index) => testCases[index].id),
+      similarity: Math.round((bestScore.get(root) ?? threshold) * 100) / 100,
+    }));
+}
+
+/**
+ * Folds a cluster into its most thorough member (most steps, earliest on ties) under the first case's id,
+ * unioning requirement ids, preconditions, test data and tags so no coverage is lost.
+ */
+export function mergeTestCases(testCases: TestCase[]): TestCase {
+  const [first] = testCases;
+  const primary = testCases.reduce((best, candidate) => (stepCount(candidate) > stepCount(best) ? candidate : best), first);
+  const requirementIds = uniqueValues(testCases.flatMap((testCase) => testCase.requirementIds ?? []));
+  const merged = {
+    ...primary,
+    id: first.id,
+    description: primary.description || testCases.find((testCase) => testCase.description)?.description || '',
+    requirementIds: requirementIds.length ? requirementIds : undefined,
+  } as TestCase;
+
+  if ('preconditions' in merged) {
+    const detailed = testCases.filter((testCase): testCase is DetailedTestCase => 'preconditions' in testCase);
+    merged.preconditions = uniqueValues(detailed.flatMap((testCase) => testCase.preconditions));
+    merged.testData = uniqueValues(detailed.flatMap((testCase) => testCase.testData));
+  }
+  if ('tags' in merged) {
+    const gherkin = testCases.filter((testCase): testCase is GherkinTestCase => 'tags' in testCase);
+    merged.tags = uniqueValues(gherkin.flatMap((testCase) => testCase.tags));
+  }
+  return merged;
+}
+
+/** Replaces the cluster members with the merged case at the position of the first member. */
+export function mergeDuplicateCluster(testCases: TestCase[], cluster: DuplicateCluster): TestCase[] {
+  const ids = new Set(cluster.caseIds);
+  const members = testCases.filter((testCase) => ids.has(testCase.id));
+  if (members.length < 2) {
+    return testCases;
+  }
+  const merged = mergeTestCases(members);
+  return testCases.flatMap((testCase) => {
+    if (!ids.has(testCase.id)) {
+      return [testCase];
+    }
+    return testCase === members[0] ? [merged] : [];
+  });
+}
+
+/** Keeps only clusters that still have at least two members in the list, e.g. after edits or merges. */
+export function activeDuplicateClusters(clusters: DuplicateCluster[], testCases: TestCase[]): DuplicateCluster[] {
+  const ids = new Set(testCases.map((testCase) => testCase.id));
+  return clusters
+    .map((cluster) => ({ ...cluster, caseIds: cluster.caseIds.filter((id) => ids.has(id)) }))
+    .filter((cluster) => cluster.caseIds.length > 1);
+}
+
+export function describeDuplicateCluster(cluster: DuplicateCluster): string {
+  return `${cluster.caseIds.join(', ')} look like duplicates (${Math.round(cluster.similarity * 100)}% similar)`;
+}
@@ -0,0 +1,150 @@
+import { DetailedTestCase, GherkinKeyword, GherkinStep, GherkinTestCase, TestCase } from '@/lib/types';
+
+export const GHERKIN_KEYWORDS: GherkinKeyword[] = ['Given', 'When', 'Then', 'And', 'But'];
+
+const STEP_INDENT = '    ';
+const SCENARIO_INDENT = '  ';
+const EXAMPLES_INDENT = '      ';
+const DEFAULT_AREA = 'General';
+
+export const isGherkinTestCase = (testCase: TestCase): testCase is GherkinTestCase =>
+  'feature' in testCase && Array.isArray((testCase as GherkinTestCase).steps);
+
+const formatTag = (tag: string) => `@${tag.trim().replace(/^@/, '').replace(/\s+/g, '-')}`;
+
+const formatStep = (step: GherkinStep, indent = STEP_INDENT) => `${indent}${step.keyword} ${step.text}`;
+
+const formatTableRow = (cells: string[]) => `${EXAMPLES_INDENT}| ${cells.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+
+// Column widths are aligned so the generated tables read like hand-written feature files.
+function formatExamplesTable(headers: string[], rows: string[][]): string[] {
+  const widths = headers.map((header, column) =>
+    Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length))
+  );
+  const pad = (cells: string[]) => headers.map((_, column) => (cells[column] ?? '').padEnd(widths[column]));
+  return [formatTableRow(pad(headers)), ...rows.map((row) => formatTableRow(pad(row)))];
+}
+
+/** Steps with a leading keyword in their text ("Given a user…") are split so the keyword is not duplicated. */
+export function normalizeGherkinStep(step: { keyword?: string; text?: string } | string, fallback: GherkinKeyword): GherkinStep {
+  const raw = typeof step === 'string' ? step : `${step.keyword ?? ''} ${step.text ?? ''}`;
+  const trimmed = raw.trim();
+  const match = trimmed.match(/^(given|when|then|and|but)\b\s*(.*)$/i);
+  if (match) {
+    const keyword = GHERKIN_KEYWORDS.find((candidate) => candidate.toLowerCase() === match[1].toLowerCase()) ?? fallback;
+    return { keyword, text: match[2].trim() };
+  }
+  return { keyword: fallback, text: trimmed };
+}
+
+function collectTags(testCase: GherkinTestCase): string[] {
+  return Array.from(new Set([...testCase.tags, ...(testCase.requirementIds ?? [])])).map(formatTag);
+}
+
+export function formatGherkinScenario(testCase: GherkinTestCase, options: { includeBackground?: boolean } = {}): string {
+  const includeBackground = options.includeBackground ?? true;
+  const isOutline = testCase.scenarioType === 'scenario-outline' && Boolean(testCase.examples?.headers.length);
+  const tags = collectTags(testCase);
+  const steps = includeBackground && testCase.background.length
+    ? [...testCase.background, ...testCase.steps.map((step, index) => (index === 0 && step.keyword === 'Given' ? { ...step, keyword: 'And' as const } : step))]
+    : testCase.steps;
+
+  const lines = [
+    tags.length ? `${SCENARIO_INDENT}${tags.join(' ')}` : '',
+    `${SCENARIO_INDENT}${isOutline ? 'Scenario Outline' : 'Scenario'}: ${testCase.title}`,
+    ...steps.map((step) => formatStep(step)),
+  ];
+
+  if (isOutline && testCase.examples) {
+    lines.push('', `${STEP_INDENT}Examples:`, ...formatExamplesTable(testCase.examples.headers, testCase.examples.rows));
+  }
+
+  return lines.filter((line, index) => line || index > 0).join('\n');
+}
+
+/**
+ * Renders one feature file. A background shared by every scenario is lifted into a Background block;
+ * otherwise each scenario keeps its own background steps inline, since Gherkin allows one Background per feature.
+ */
+export function formatFeatureFile(featureName: string, testCases: GherkinTestCase[], description?: string): string {
+  const backgroundKey = (testCase: GherkinTestCase) => JSON.stringify(testCase.background);
+  const sharedBackground = testCases.length > 0
+    && testCases[0].background.length > 0
+    && testCases.every((testCase) => backgroundKey(testCase) === backgroundKey(testCases[0]));
+
+  const sections = [
+    [`Feature: ${featureName}`, description ? `${SCENARIO_INDENT}${description}` : ''].filter(Boolean).join('\n'),
+    sharedBackground
+      ? [`${SCENARIO_INDENT}Background:`, ...testCases[0].background.map((step) => formatStep(step))].join('\n')
+      : '',
+    ...testCases.map((testCase) => formatGherkinScenario(testCase, { includeBackground: !sharedBackground })),
+  ];
+
+  return `${sections.filter(Boolean).join('\n\n')}\n`;
+}
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '') || 'feature';
+
+/** Groups scenarios into one `.feature` file per area. */
+export function buildFeatureFiles(testCases: GherkinTestCase[]): Array<{ filename: string; content: string }> {
+  const groups = new Map<string, GherkinTestCase[]>();
+  testCases.forEach((testCase) => {
+    const area = testCase.area?.trim() || DEFAULT_AREA;
+    groups.set(area, [...(groups.get(area) ?? []), testCase]);
+  });
+
+  const usedNames = new Set<string>();
+  return Array.from(groups.entries()).map(([area, areaCases]) => {
+    const features = Array.from(new Set(areaCases.map((testCase) => testCase.feature.trim()).filter(Boolean)));
+    const featureName = features.length === 1 ? features[0] : area;
+    const description = features.length > 1 ? `Covers: ${features.join('; ')}` : undefined;
+
+    let filename = `${slugify(area)}.feature`;
+    for (let suffix = 2; usedNames.has(filename); suffix += 1) {
+      filename = `${slugify(area)}_${suffix}.feature`;
+    }
+    usedNames.add(filename);
+
+    return { filename, content: formatFeatureFile(featureName, areaCases, description) };
+  });
+}
+
+const stripTrailingPeriod = (text: string) => text.trim().replace(/\.$/, '');
+
+/** Deterministic conversion: preconditions and test data become Given steps, steps become When/And, the expected result becomes Then. */
+export function convertDetailedToGherkin(testCase: DetailedTestCase, id = testCase.id): GherkinTestCase {
+  const givens = [
+    ...(testCase.preconditions ?? []),
+    ...(testCase.testData ?? []).map((item) => `test data: ${item}`),
+  ].map(stripTrailingPeriod).filter(Boolean);
+  const actions = [...(testCase.steps ?? [])]
+    .sort((a, b) => a.number - b.number)
+    .map((step) => stripTrailingPeriod(step.description))
+    .filter(Boolean);
+  const outcome = stripTrailingPeriod(testCase.expectedResult ?? '');
+
+  const steps: GherkinStep[] = [
+    ...givens.map((text, index) => ({ keyword: (index === 0 ? 'Given' : 'And') as GherkinKeyword, text })),
+    ...actions.map((text, index) => ({ keyword: (index === 0 ? 'When' : 'And') as GherkinKeyword, text })),
+    ...(outcome ? [{ keyword: 'Then' as GherkinKeyword, text: outcome }] : []),
+  ];
+
+  return {
+    id,
+    title: testCase.title,
+    description: testCase.description,
+    area: testCase.area || DEFAULT_AREA,
+    feature: testCase.area || DEFAULT_AREA,
+    scenarioType: 'scenario',
+    tags: [],
+    background: [],
+    steps,
+    requirementIds: testCase.requirementIds,
+    originalScenarioId: testCase.id,
+    createdAt: new Date(),
+  };
+}
@@ -0,0 +1,32 @@
+import type { UserRole } from '@/lib/types/accounts';
+
+export const USER_ROLES: UserRole[] = ['admin', 'member', 'viewer'];
+
+interface RouteRule {
+  prefix: string;
+  roles: UserRole[];
+}
+
+const READ_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+// First matching rule wins; requests that match no rule fall through to the method check below.
+const ROUTE_RULES: RouteRule[] = [
+  { prefix: '/api/admin/', roles: ['admin'] },
+  { prefix: '/api/auth/admin-check', roles: ['admin'] },
+  { prefix: '/api/logs/', roles: ['admin'] },
+  // Everyone may keep their own provider preferences
+  { prefix: '/api/provider-settings', roles: ['admin', 'member', 'viewer'] },
+];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as string[]).includes(value);
+}
+
+/** Viewers are read-only; members can use every tool; admin-only routes are listed in ROUTE_RULES. */
+export function isRoleAllowed(role: UserRole, method: string, pathname: string): boolean {
+  const rule = ROUTE_RULES.find((candidate) => pathname.startsWith(candidate.prefix));
+  if (rule) {
+    return rule.roles.includes(role);
+  }
+  return role !== 'viewer' || READ_METHODS.has(method.toUpperCase());
+}
@@ -0,0 +1,95 @@
+import { TestCase } from '@/lib/types';
+
+// Words that appear in nearly every test case and would otherwise dominate the overlap score.
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it', 'of', 'on', 'or',
+  'that', 'the', 'then', 'to', 'with', 'when', 'given', 'verify', 'user', 'should', 'test', 'case',
+]);
+
+export type TermVector = Map<string, number>;
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/** Title, scenario or steps, and expected result: the parts that decide whether two cases test the same thing. */
+export function testCaseText(testCase: TestCase): string {
+  const record = testCase as unknown as Record<string, unknown>;
+  const steps = Array.isArray(record.steps)
+    ? (record.steps as Array<{ description?: string; text?: string }>).map((step) => step.description ?? step.text ?? '')
+    : [];
+  return [
+    testCase.title,
+    typeof record.scenario === 'string' ? record.scenario : '',
+    ...steps,
+    typeof record.expectedResult === 'string' ? record.expectedResult : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+/** TF-IDF vectors over one shared corpus, so rare terms (feature names, fields) outweigh generic verbs. */
+export function buildTfIdfVectors(documents: string[]): TermVector[] {
+  const tokenized = documents.map(tokenize);
+  const documentFrequency = new Map<string, number>();
+  tokenized.forEach((tokens) => {
+    new Set(tokens).forEach((token) => documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1));
+  });
+
+  return tokenized.map((tokens) => {
+    const counts = new Map<string, number>();
+    tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+    const vector: TermVector = new Map();
+    counts.forEach((count, token) => {
+      const idf = Math.log((1 + documents.length) / (1 + (documentFrequency.get(token) ?? 0))) + 1;
+      vector.set(token, (count / tokens.length) * idf);
+    });
+    return vector;
+  });
+}
+
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((weight, token) => {
+    normA += weight * weight;
+    const other = b.get(token);
+    if (other) {
+      dot += weight * other;
+    }
+  });
+  b.forEach((weight) => {
+    normB += weight * weight;
+  });
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Overlapping word n-grams; catches reworded copies that keep the same phrasing runs. */
+export function shingles(text: string, size = 3): Set<string> {
+  const tokens = tokenize(text);
+  if (tokens.length <= size) {
+    return new Set(tokens.length ? [tokens.join(' ')] : []);
+  }
+  const result = new Set<string>();
+  for (let index = 0; index <= tokens.length - size; index += 1) {
+    result.add(tokens.slice(index, index + size).join(' '));
+  }
+  return result;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (!a.size || !b.size) {
+    return 0;
+  }
+  let intersection = 0;
+  a.forEach((value) => {
+    if (b.has(value)) {
+      intersection += 1;
+    }
+  });
+  return intersection / (a.size + b.size - intersection);
+}
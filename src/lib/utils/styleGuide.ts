@@ -0,0 +1,52 @@
+import { QAStyleGuide, ReviewFeedbackItem, StyleGuideRule } from '@/lib/types';
+
+export const GUIDELINE_ISSUE = 'guideline';
+
+const MAX_STYLE_GUIDE_LENGTH = 6000;
+
+export function hasStyleGuideContent(guide?: QAStyleGuide | null): guide is QAStyleGuide {
+  return Boolean(guide && (guide.rules.length || guide.glossary.length));
+}
+
+/** Rules and glossary as prompt text, capped so a long guide cannot crowd out the requirements. */
+export function formatStyleGuide(guide?: QAStyleGuide | null): string {
+  if (!hasStyleGuideContent(guide)) {
+    return '';
+  }
+  const sections = [
+    guide.rules.length ? `Rules:\n${guide.rules.map((rule) => `- ${rule.id}: ${rule.text}`).join('\n')}` : '',
+    guide.glossary.length
+      ? `Glossary (use these terms exactly):\n${guide.glossary.map((entry) => `- ${entry.term}: ${entry.definition}`).join('\n')}`
+      : '',
+  ].filter(Boolean);
+  const text = `Team QA style guide. Every case must follow it.\n${sections.join('\n')}`;
+  return text.length > MAX_STYLE_GUIDE_LENGTH ? `${text.slice(0, MAX_STYLE_GUIDE_LENGTH)}\n- … style guide truncated` : text;
+}
+
+/** The reviewer cites rule ids in the summary; map the first known id back onto the finding. */
+export function attachGuidelineRuleIds(feedback: ReviewFeedbackItem[], rules: StyleGuideRule[] = []): ReviewFeedbackItem[] {
+  if (!rules.length) {
+    return feedback;
+  }
+  return feedback.map((entry) => {
+    if (entry.issueType !== GUIDELINE_ISSUE || entry.ruleId) {
+      return entry;
+    }
+    const text = `${entry.summary} ${entry.suggestion ?? ''}`;
+    const rule = rules.find((candidate) =>
+      new RegExp(`(^|[^A-Za-z0-9-])${candidate.id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![A-Za-z0-9])`).test(text)
+    );
+    return rule ? { ...entry, ruleId: rule.id } : entry;
+  });
+}
+
+/** Assigns G-n ids to new rules without renumbering existing ones, so past findings keep pointing at the same rule. */
+export function assignRuleIds(rules: Array<{ id?: string; text: string }>): StyleGuideRule[] {
+  let highest = rules.reduce((max, rule) => {
+    const match = rule.id?.match(/^G-(\d+)$/);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return rules
+    .filter((rule) => rule.text.trim())
+    .map((rule) => ({ id: rule.id?.trim() || `G-${(highest += 1)}`, text: rule.text.trim() }));
+}
@@ -0,0 +1,28 @@
+import { TestCase } from '@/lib/types';
+import { formatGherkinScenario, isGherkinTestCase } from './gherkin';
+
+export function formatTestCaseMarkdown(testCase: TestCase): string {
+  if ('scenario' in testCase) {
+    return `# ${testCase.title} (${testCase.id})\n\n**Area:** ${testCase.area}\n\n**Scenario:** ${testCase.scenario}`;
+  }
+
+  if (isGherkinTestCase(testCase)) {
+    return formatGherkinScenario(testCase);
+  }
+
+  // Detailed test case format
+  const sections = [
+    `# ${testCase.title} (${testCase.id})`,
+    `## Description`,
+    testCase.description,
+    testCase.preconditions?.length ?
+      `## Preconditions\n${testCase.preconditions.map(p => `* ${p}`).join('\n')}` : '',
+    testCase.testData?.length ?
+      `## Test Data\n${testCase.testData.map(d => `* ${d}`).join('\n')}` : '',
+    `## Steps`,
+    testCase.steps.map(s => `${s.number}. ${s.description}`).join('\n'),
+    `## Expected Result`,
+    testCase.expectedResult
+  ];
+  return sections.filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,86 @@
+import { ReviewFeedbackItem, TestCase, TestCaseOverlap, TestCaseOverlapStatus } from '@/lib/types';
+import { buildTfIdfVectors, cosineSimilarity, testCaseText } from './similarity';
+
+export const DUPLICATE_SIMILARITY = 0.85;
+export const OVERLAP_SIMILARITY = 0.5;
+export const DUPLICATE_EXISTING_ISSUE = 'duplicate-existing';
+
+const MAX_SUITE_SUMMARY_LENGTH = 12000;
+const MAX_OVERLAP_IDS = 3;
+
+/** One line per existing case, truncated so a large regression suite cannot crowd out the requirements. */
+export function formatExistingSuite(existing: TestCase[], maxLength = MAX_SUITE_SUMMARY_LENGTH): string {
+  const lines: string[] = [];
+  let length = 0;
+  for (const testCase of existing) {
+    const line = `- ${testCase.id} [${testCase.area?.trim() || 'General'}] ${testCase.title}`;
+    if (length + line.length > maxLength) {
+      lines.push(`- … ${existing.length - lines.length} more cases omitted`);
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+  }
+  return lines.join('\n');
+}
+
+function reviewerFlags(feedback: ReviewFeedbackItem[], existingIds: string[]): Map<string, string[]> {
+  const flags = new Map<string, string[]>();
+  feedback
+    .filter((entry) => entry.issueType === DUPLICATE_EXISTING_ISSUE)
+    .forEach((entry) => {
+      const text = `${entry.summary} ${entry.suggestion ?? ''}`;
+      const mentioned = existingIds.filter((id) => new RegExp(`(^|[^A-Za-z0-9-])${id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?![A-Za-z0-9-])`).test(text));
+      flags.set(entry.caseId, Array.from(new Set([...(flags.get(entry.caseId) ?? []), ...mentioned])));
+    });
+  return flags;
+}
+
+/**
+ * Marks each generated case as new, overlapping, or duplicating the imported suite. Similarity is TF-IDF
+ * cosine over title, steps and expected result; a reviewer "duplicate-existing" flag always counts as a duplicate.
+ */
+export function classifyAgainstExisting(
+  testCases: TestCase[],
+  existing: TestCase[],
+  feedback: ReviewFeedbackItem[] = []
+): TestCase[] {
+  if (!existing.length) {
+    return testCases;
+  }
+
+  const vectors = buildTfIdfVectors([...existing, ...testCases].map(testCaseText));
+  const existingVectors = vectors.slice(0, existing.length);
+  const flags = reviewerFlags(feedback, existing.map((testCase) => testCase.id));
+
+  return testCases.map((testCase, index) => {
+    const vector = vectors[existing.length + index];
+    const scored = existing
+      .map((candidate, candidateIndex) => ({ id: candidate.id, score: cosineSimilarity(vector, existingVectors[candidateIndex]) }))
+      .sort((a, b) => b.score - a.score);
+    const best = scored[0]?.score ?? 0;
+    const flagged = flags.get(testCase.id);
+
+    const status: TestCaseOverlapStatus = flagged || best >= DUPLICATE_SIMILARITY
+      ? 'duplicate'
+      : best >= OVERLAP_SIMILARITY ? 'overlap' : 'new';
+    const overlap: TestCaseOverlap = {
+      status,
+      existingCaseIds: Array.from(new Set([...(flagged ?? []), ...scored.filter((entry) => entry.score >= OVERLAP_SIMILARITY).map((entry) => entry.id)])).slice(0, MAX_OVERLAP_IDS),
+      similarity: Math.round(best * 100) / 100,
+    };
+
+    return { ...testCase, overlap };
+  });
+}
+
+export function describeOverlap(overlap: TestCaseOverlap): string {
+  if (overlap.status === 'new') {
+    return 'New';
+  }
+  const ids = overlap.existingCaseIds.join(', ');
+  if (overlap.status === 'duplicate') {
+    return ids ? `Duplicate of ${ids}` : 'Duplicate';
+  }
+  return `Overlaps ${ids}`;
+}
@@ -0,0 +1,41 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+/** Line diff from the longest common subsequence; test cases are short enough for the quadratic table. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const left = before ? before.split('\n') : [];
+  const right = after ? after.split('\n') : [];
+  const lengths = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = left[i] === right[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      lines.push({ type: 'same', text: left[i] });
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: left[i] });
+      i += 1;
+    } else {
+      lines.push({ type: 'added', text: right[j] });
+      j += 1;
+    }
+  }
+  left.slice(i).forEach((text) => lines.push({ type: 'removed', text }));
+  right.slice(j).forEach((text) => lines.push({ type: 'added', text }));
+  return lines;
+}
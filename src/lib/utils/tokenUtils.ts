@@ -65,3 +65,34 @@ export function getUserIdentifier(token: string | null | undefined): string | nu
   
   return identifier;
 } 
+
+export const INTERNAL_SECRET_HEADER = 'X-Internal-Secret';
+
+// Shared by the middleware and the internal routes it calls. Development falls back to a fixed value so managed
+// tokens work without extra setup; production refuses internal calls until INTERNAL_API_SECRET is set.
+const DEVELOPMENT_INTERNAL_SECRET = 'development-internal-secret';
+
+export function getInternalApiSecret(): string | null {
+  const secret = process.env.INTERNAL_API_SECRET;
+  if (secret) {
+    return secret;
+  }
+  return process.env.NODE_ENV === 'production' ? null : DEVELOPMENT_INTERNAL_SECRET;
+}
+
+/**
+ * Whether a request carries the internal API secret, i.e. was made by the middleware rather than a client.
+ * Compares in constant time, since the edge runtime has no timingSafeEqual.
+ */
+export function isInternalRequest(headers: Headers): boolean {
+  const expected = getInternalApiSecret();
+  const provided = headers.get(INTERNAL_SECRET_HEADER);
+  if (!expected || !provided || provided.length !== expected.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let index = 0; index < expected.length; index += 1) {
+    difference |= expected.charCodeAt(index) ^ provided.charCodeAt(index);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,156 @@
+import { RequirementReference, TestCase, TraceabilityMatrix } from '@/lib/types';
+
+const MAX_REQUIREMENTS = 150;
+const MAX_REQUIREMENT_TEXT_LENGTH = 240;
+const MIN_STATEMENT_LENGTH = 15;
+const DEFAULT_SOURCE = 'requirements';
+const FILE_HEADER_PATTERN = /^=== (.+?) \(.*\) ===$/;
+// Explicit identifiers such as REQ-12, AC-3, US_4 or FR12.1 (normalized to REQ-12, AC-3, US-4, FR-12.1).
+const EXPLICIT_ID_PATTERN = /\b(REQ|AC|US|FR|NFR|BR|UC|SR|RQ|STORY|FEAT)[-_ ]?(\d+(?:\.\d+)*)\b/gi;
+const LIST_ITEM_PATTERN = /^\s*(?:[-*•]|\d+[.)]|[a-z][.)])\s+(.+)$/i;
+const MODAL_PATTERN = /\b(shall|must|should|will|can|needs? to|is able to|are able to)\b/i;
+
+interface SourceLine {
+  source: string;
+  line: string;
+}
+
+function toSourceLines(text: string): SourceLine[] {
+  let source = DEFAULT_SOURCE;
+  const lines: SourceLine[] = [];
+
+  text.split('\n').forEach((raw) => {
+    const line = raw.trim();
+    const header = line.match(FILE_HEADER_PATTERN);
+    if (header) {
+      source = header[1].trim();
+      return;
+    }
+    lines.push({ source, line });
+  });
+
+  return lines;
+}
+
+function truncate(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > MAX_REQUIREMENT_TEXT_LENGTH
+    ? `${collapsed.slice(0, MAX_REQUIREMENT_TEXT_LENGTH - 1)}…`
+    : collapsed;
+}
+
+function formatExplicitId(prefix: string, number: string): string {
+  return `${prefix.toUpperCase()}-${number}`;
+}
+
+function stripIdentifier(line: string): string {
+  return line
+    .replace(EXPLICIT_ID_PATTERN, '')
+    .replace(/^[\s#*\-•:.)\]|[(]+/, '')
+    .trim();
+}
+
+function extractExplicitRequirements(lines: SourceLine[]): RequirementReference[] {
+  const found = new Map<string, RequirementReference>();
+
+  lines.forEach(({ source, line }, index) => {
+    for (const match of Array.from(line.matchAll(EXPLICIT_ID_PATTERN))) {
+      const id = formatExplicitId(match[1], match[2]);
+      if (found.has(id)) {
+        continue;
+      }
+      // An ID on its own line (e.g. a heading) takes its text from the next non-empty line.
+      let text = stripIdentifier(line);
+      if (!text) {
+        const next = lines.slice(index + 1).find((candidate) => candidate.line && !candidate.line.match(EXPLICIT_ID_PATTERN));
+        text = next?.line ?? '';
+      }
+      found.set(id, { id, text: truncate(text || id), source });
+    }
+  });
+
+  return Array.from(found.values());
+}
+
+function extractNumberedStatements(lines: SourceLine[]): RequirementReference[] {
+  const listItems = lines
+    .map(({ source, line }) => ({ source, text: line.match(LIST_ITEM_PATTERN)?.[1]?.trim() ?? '' }))
+    .filter((item) => item.text.length >= MIN_STATEMENT_LENGTH);
+
+  const statements = listItems.length
+    ? listItems
+    : lines.flatMap(({ source, line }) =>
+        line
+          .split(/(?<=[.!?])\s+/)
+          .map((sentence) => ({ source, text: sentence.trim() }))
+          .filter((sentence) => sentence.text.length >= MIN_STATEMENT_LENGTH && MODAL_PATTERN.test(sentence.text))
+      );
+
+  return statements.map((statement, index) => ({
+    id: `R-${index + 1}`,
+    text: truncate(statement.text),
+    source: statement.source,
+  }));
+}
+
+/**
+ * Extracts the requirements a generation run should trace against. Explicit identifiers
+ * (REQ-12, AC-3, …) win; otherwise list items, or failing that modal statements, are auto-numbered R-1, R-2, …
+ */
+export function extractRequirements(text: string): RequirementReference[] {
+  if (!text?.trim()) {
+    return [];
+  }
+
+  const lines = toSourceLines(text);
+  const explicit = extractExplicitRequirements(lines);
+  const requirements = explicit.length ? explicit : extractNumberedStatements(lines);
+  return requirements.slice(0, MAX_REQUIREMENTS);
+}
+
+export function formatRequirementCatalog(requirements: RequirementReference[]): string {
+  return requirements.map((requirement) => `${requirement.id}: ${requirement.text}`).join('\n');
+}
+
+export function normalizeRequirementIds(ids: unknown, requirements: RequirementReference[]): string[] {
+  if (!Array.isArray(ids)) {
+    return [];
+  }
+  const known = new Set(requirements.map((requirement) => requirement.id));
+  const normalized = ids
+    .filter((id): id is string => typeof id === 'string')
+    .map((id) => {
+      const trimmed = id.trim().toUpperCase();
+      const explicit = trimmed.match(new RegExp(`^${EXPLICIT_ID_PATTERN.source}$`, 'i'));
+      if (explicit) {
+        return formatExplicitId(explicit[1], explicit[2]);
+      }
+      return trimmed.replace(/^R[-_ ]?(\d+)$/, 'R-$1');
+    })
+    .filter((id) => known.has(id));
+  return Array.from(new Set(normalized));
+}
+
+export function buildTraceabilityMatrix(
+  requirements: RequirementReference[],
+  testCases: TestCase[]
+): TraceabilityMatrix {
+  const known = new Set(requirements.map((requirement) => requirement.id));
+  const entries = requirements.map((requirement) => ({
+    ...requirement,
+    caseIds: testCases
+      .filter((testCase) => testCase.requirementIds?.includes(requirement.id))
+      .map((testCase) => testCase.id),
+  }));
+  const uncoveredRequirementIds = entries.filter((entry) => !entry.caseIds.length).map((entry) => entry.id);
+  const untracedCaseIds = testCases
+    .filter((testCase) => !testCase.requirementIds?.some((id) => known.has(id)))
+    .map((testCase) => testCase.id);
+
+  return {
+    requirements: entries,
+    uncoveredRequirementIds,
+    untracedCaseIds,
+    coverage: entries.length ? (entries.length - uncoveredRequirementIds.length) / entries.length : 0,
+  };
+}
@@ -0,0 +1,14 @@
+declare module 'parquetjs-lite' {
+  import type { Buffer } from 'buffer';
+
+  interface ParquetCursor {
+    next(): Promise<Record<string, unknown> | null>;
+  }
+
+  export class ParquetReader {
+    static openBuffer(buffer: Buffer): Promise<ParquetReader>;
+    getCursor(columns?: string[]): ParquetCursor;
+    getRowCount(): number;
+    close(): Promise<void>;
+  }
+}